@@ -0,0 +1,348 @@
+//app/api/_bgLogs/bgLogReport.ts
+/**
+ * AOI FLOW
+ * 背景生成ログ（bg_generation_logs）の集計
+ *
+ * 目的
+ * - どの scene / keyword / 接地 / 商品カテゴリ / keyword シナリオで生成が無駄になっているかを見る
+ * - 不採用理由の多い順、スコア分布、採用1枚あたりの生成回数を出す
+ *
+ * ログの種類（meta.kind）
+ * - "attempt": 生成1回ごと（採用基準を満たしたか・不採用理由）
+ * - "result": リクエストの最終結果（採用 / 失敗）
+ * - kind が無い古いログは "result" として扱う
+ */
+
+export type BgLogKind = "attempt" | "result";
+
+export type BgLogRow = {
+  id: string;
+  kind: BgLogKind;
+  requestId: string;
+  keyword: string;
+  scene: string;
+  groundingType: string;
+  productCategory: string;
+  keywordScenario: string;
+  attempt: number;
+  attemptsUsed?: number;
+  visibilityScore: number;
+  contextScore: number;
+  acceptScore: number;
+  isAccepted: boolean;
+  failureReason: string;
+  createdAt: number;
+};
+
+export type BgRateRow = {
+  key: string;
+  requests: number;
+  accepted: number;
+  acceptanceRate: number;
+  /** 生成にかかった回数（OpenAI 呼び出し回数） */
+  attempts: number;
+  /** 使われなかった生成回数（不採用 + 採用されたが選ばれなかった候補 + 失敗リクエスト） */
+  wastedAttempts: number;
+  avgAcceptScore?: number;
+};
+
+export type BgFailureReason = {
+  reason: string;
+  label: string;
+  count: number;
+  share: number;
+  example: string;
+};
+
+export type BgScoreField = "acceptScore" | "contextScore" | "visibilityScore";
+
+export type BgScoreDistribution = {
+  field: BgScoreField;
+  samples: number;
+  mean?: number;
+  median?: number;
+  buckets: Array<{ from: number; to: number; accepted: number; rejected: number }>;
+};
+
+export type BgLogReport = {
+  generatedAt: number;
+  days: number;
+  rowCount: number;
+  totals: {
+    requests: number;
+    accepted: number;
+    failed: number;
+    acceptanceRate: number;
+    attempts: number;
+    wastedAttempts: number;
+    /** 採用1枚あたりの生成回数 */
+    attemptsPerAccepted?: number;
+  };
+  byScene: BgRateRow[];
+  byKeyword: BgRateRow[];
+  byGroundingType: BgRateRow[];
+  byProductCategory: BgRateRow[];
+  byKeywordScenario: BgRateRow[];
+  failureReasons: BgFailureReason[];
+  distributions: BgScoreDistribution[];
+};
+
+const MAX_KEYWORD_ROWS = 20;
+const MAX_FAILURE_REASONS = 12;
+
+/**
+ * generate-bg の例外文・判定文を日本語ラベルへ
+ */
+const FAILURE_LABELS: Array<{ match: RegExp; label: string }> = [
+  { match: /^context readability failed before rescue/, label: "文脈不足（補正前に不採用）" },
+  { match: /^context readability failed after rescue/, label: "文脈不足（補正しても不足）" },
+  { match: /^generated background visibility failed/, label: "暗さ・構造破綻" },
+  { match: /^accept score below threshold/, label: "総合採用スコア不足" },
+  { match: /^series consistency below threshold/, label: "シリーズ基準と不一致" },
+  { match: /^no image returned/, label: "画像が返らなかった" },
+  { match: /safety|rejected|policy/i, label: "OpenAI の安全判定で拒否" },
+  { match: /^OPENAI_API_KEY missing/, label: "APIキー未設定" },
+];
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function asString(v: unknown, fallback = ""): string {
+  return typeof v === "string" && v.trim() ? v.trim() : fallback;
+}
+
+function asNumber(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function toMillis(v: any): number {
+  if (!v) return 0;
+  if (typeof v.toMillis === "function") return v.toMillis();
+  if (v instanceof Date) return v.getTime();
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Firestore の生データ → 集計用の行
+ */
+export function normalizeBgLogRow(id: string, data: Record<string, any>): BgLogRow {
+  const meta = data.meta && typeof data.meta === "object" ? (data.meta as Record<string, unknown>) : {};
+  const attemptsUsed = Number(meta.attemptsUsed);
+
+  return {
+    id,
+    kind: meta.kind === "attempt" ? "attempt" : "result",
+    requestId: asString(meta.requestId, id),
+    keyword: asString(data.keyword, "unknown"),
+    scene: asString(data.scene, "unknown"),
+    groundingType: asString(data.groundingType, "unknown"),
+    productCategory: asString(data.productCategory, "unknown"),
+    keywordScenario: asString(meta.keywordScenario, "unknown"),
+    attempt: asNumber(data.attempt),
+    ...(Number.isFinite(attemptsUsed) && attemptsUsed >= 0 ? { attemptsUsed } : {}),
+    visibilityScore: asNumber(data.visibilityScore),
+    contextScore: asNumber(data.contextScore),
+    acceptScore: asNumber(data.acceptScore),
+    isAccepted: data.isAccepted === true,
+    failureReason: asString(data.failureReason),
+    createdAt: toMillis(data.createdAt),
+  };
+}
+
+/**
+ * 理由文の数値・括弧内の詳細を落として同じ理由にまとめる
+ */
+export function normalizeFailureReason(message: string): string {
+  return message
+    .replace(/\([^)]*\)/g, "")
+    .replace(/\d+(\.\d+)?/g, "#")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 120);
+}
+
+function failureLabel(reason: string): string {
+  return FAILURE_LABELS.find((x) => x.match.test(reason))?.label ?? reason;
+}
+
+/**
+ * 1リクエスト = 最終結果1行 + 試行ログ（同じ requestId）
+ */
+type RequestSummary = {
+  result: BgLogRow;
+  attempts: BgLogRow[];
+  attemptsSpent: number;
+};
+
+function buildRequests(rows: BgLogRow[]): RequestSummary[] {
+  const attemptsByRequest = new Map<string, BgLogRow[]>();
+
+  for (const row of rows) {
+    if (row.kind !== "attempt") continue;
+    const list = attemptsByRequest.get(row.requestId) ?? [];
+    list.push(row);
+    attemptsByRequest.set(row.requestId, list);
+  }
+
+  return rows
+    .filter((row) => row.kind === "result")
+    .map((result) => {
+      const attempts = attemptsByRequest.get(result.requestId) ?? [];
+
+      // 試行ログの無い古いログは、attemptsUsed → 採用候補の attempt 番号の順で推定
+      const attemptsSpent =
+        attempts.length > 0
+          ? attempts.length
+          : result.attemptsUsed !== undefined
+            ? result.attemptsUsed
+            : result.isAccepted
+              ? Math.max(1, result.attempt)
+              : 0;
+
+      return { result, attempts, attemptsSpent };
+    });
+}
+
+function buildRateRows(
+  requests: RequestSummary[],
+  keyOf: (row: BgLogRow) => string,
+  limit?: number
+): BgRateRow[] {
+  const groups = new Map<string, RequestSummary[]>();
+
+  for (const req of requests) {
+    const key = keyOf(req.result) || "unknown";
+    const list = groups.get(key) ?? [];
+    list.push(req);
+    groups.set(key, list);
+  }
+
+  const rows = Array.from(groups.entries()).map(([key, list]): BgRateRow => {
+    const accepted = list.filter((r) => r.result.isAccepted);
+    const attempts = list.reduce((sum, r) => sum + r.attemptsSpent, 0);
+    const acceptScores = accepted.map((r) => r.result.acceptScore).filter((n) => n > 0);
+
+    return {
+      key,
+      requests: list.length,
+      accepted: accepted.length,
+      acceptanceRate: list.length > 0 ? round1((accepted.length / list.length) * 100) / 100 : 0,
+      attempts,
+      wastedAttempts: Math.max(0, attempts - accepted.length),
+      ...(acceptScores.length > 0
+        ? { avgAcceptScore: round1(acceptScores.reduce((a, b) => a + b, 0) / acceptScores.length) }
+        : {}),
+    };
+  });
+
+  // 無駄になった生成回数が多い順（同数ならリクエスト数）
+  rows.sort((a, b) => b.wastedAttempts - a.wastedAttempts || b.requests - a.requests);
+  return typeof limit === "number" ? rows.slice(0, limit) : rows;
+}
+
+function buildFailureReasons(requests: RequestSummary[]): BgFailureReason[] {
+  const counts = new Map<string, { count: number; example: string }>();
+
+  const add = (message: string) => {
+    if (!message) return;
+    const reason = normalizeFailureReason(message);
+    const prev = counts.get(reason);
+    counts.set(reason, { count: (prev?.count ?? 0) + 1, example: prev?.example ?? message.slice(0, 300) });
+  };
+
+  for (const req of requests) {
+    if (req.attempts.length > 0) {
+      for (const a of req.attempts) if (!a.isAccepted) add(a.failureReason);
+    } else if (!req.result.isAccepted) {
+      // 試行ログが無い（古いログ / 生成前の失敗）はリクエストの失敗理由を数える
+      add(req.result.failureReason);
+    }
+  }
+
+  const total = Array.from(counts.values()).reduce((sum, x) => sum + x.count, 0);
+
+  return Array.from(counts.entries())
+    .map(([reason, x]) => ({
+      reason,
+      label: failureLabel(reason),
+      count: x.count,
+      share: total > 0 ? round1((x.count / total) * 100) / 100 : 0,
+      example: x.example,
+    }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_FAILURE_REASONS);
+}
+
+function buildDistribution(samples: BgLogRow[], field: BgScoreField): BgScoreDistribution {
+  const max = field === "visibilityScore" ? 256 : 100;
+  const step = field === "visibilityScore" ? 32 : 10;
+  const values = samples.map((row) => ({ v: row[field], ok: row.isAccepted })).filter((x) => x.v > 0);
+
+  const buckets = Array.from({ length: Math.ceil(max / step) }, (_, i) => ({
+    from: i * step,
+    to: Math.min(max, (i + 1) * step),
+    accepted: 0,
+    rejected: 0,
+  }));
+
+  for (const { v, ok } of values) {
+    const idx = Math.max(0, Math.min(buckets.length - 1, Math.floor(v / step)));
+    if (ok) buckets[idx].accepted += 1;
+    else buckets[idx].rejected += 1;
+  }
+
+  const sorted = values.map((x) => x.v).sort((a, b) => a - b);
+
+  return {
+    field,
+    samples: sorted.length,
+    ...(sorted.length > 0
+      ? {
+          mean: round1(sorted.reduce((a, b) => a + b, 0) / sorted.length),
+          median: round1(sorted[Math.floor(sorted.length / 2)]),
+        }
+      : {}),
+    buckets,
+  };
+}
+
+export function buildBgLogReport(rows: BgLogRow[], days: number, now = Date.now()): BgLogReport {
+  const requests = buildRequests(rows);
+
+  const accepted = requests.filter((r) => r.result.isAccepted).length;
+  const attempts = requests.reduce((sum, r) => sum + r.attemptsSpent, 0);
+
+  // スコア分布は生成1回ごと。試行ログの無い古い採用結果はその1枚を使う
+  const scoreSamples = requests.flatMap((r) =>
+    r.attempts.length > 0 ? r.attempts : r.result.isAccepted ? [r.result] : []
+  );
+
+  return {
+    generatedAt: now,
+    days,
+    rowCount: rows.length,
+    totals: {
+      requests: requests.length,
+      accepted,
+      failed: requests.length - accepted,
+      acceptanceRate: requests.length > 0 ? round1((accepted / requests.length) * 100) / 100 : 0,
+      attempts,
+      wastedAttempts: Math.max(0, attempts - accepted),
+      ...(accepted > 0 ? { attemptsPerAccepted: round1(attempts / accepted) } : {}),
+    },
+    byScene: buildRateRows(requests, (r) => r.scene),
+    byKeyword: buildRateRows(requests, (r) => r.keyword, MAX_KEYWORD_ROWS),
+    byGroundingType: buildRateRows(requests, (r) => r.groundingType),
+    byProductCategory: buildRateRows(requests, (r) => r.productCategory),
+    byKeywordScenario: buildRateRows(requests, (r) => r.keywordScenario),
+    failureReasons: buildFailureReasons(requests),
+    distributions: [
+      buildDistribution(scoreSamples, "acceptScore"),
+      buildDistribution(scoreSamples, "contextScore"),
+      buildDistribution(scoreSamples, "visibilityScore"),
+    ],
+  };
+}
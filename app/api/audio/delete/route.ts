@@ -0,0 +1,55 @@
+// /app/api/audio/delete/route.ts
+import { NextResponse } from "next/server";
+import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { deleteAudioFromLibrary } from "@/lib/video/audio";
+import { isAudioLibraryPath } from "@/lib/video/audioTrack";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 音源ライブラリから削除
+ *
+ * 入力
+ * - { path }
+ *
+ * ✅ 自分のライブラリ以外のパスは 403
+ * ✅ 下書きに記録済みの音（productVideo.audio / cmVideo.audio）は消さない
+ *    → 次の MP4化・焼き込みで音源が見つからずエラーになるので、選び直してもらう
+ */
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as { path?: unknown };
+    const filePath = asTrimmedString(body.path);
+
+    if (!filePath) {
+      return NextResponse.json({ ok: false, error: "path がありません" }, { status: 400 });
+    }
+    if (!isAudioLibraryPath(user.uid, filePath)) {
+      return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+    }
+
+    await deleteAudioFromLibrary(user.uid, filePath);
+
+    return NextResponse.json({ ok: true, path: filePath });
+  } catch (error) {
+    console.error("[audio/delete] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
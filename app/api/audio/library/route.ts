@@ -0,0 +1,41 @@
+// /app/api/audio/library/route.ts
+import { NextResponse } from "next/server";
+import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { listAudioLibrary } from "@/lib/video/audio";
+import { normalizeAudioBrandId } from "@/lib/video/audioTrack";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * ブランドごとの音源ライブラリ一覧
+ *
+ * 入力
+ * - { brandId }
+ *
+ * ✅ 自分の users/{uid}/brands/{brandId}/audio/ だけを返す（新しい順）
+ */
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as { brandId?: unknown };
+    const brandId = normalizeAudioBrandId(body.brandId);
+    const items = await listAudioLibrary(user.uid, brandId);
+
+    return NextResponse.json({ ok: true, brandId, items });
+  } catch (error) {
+    console.error("[audio/library] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+// /app/api/audio/upload/route.ts
+import { NextResponse } from "next/server";
+import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { saveAudioToLibrary } from "@/lib/video/audio";
+import { AUDIO_CONTENT_TYPES } from "@/lib/video/audioTrack";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 音源ライブラリへのアップロード
+ *
+ * 入力（FormData）
+ * - brandId, label?, file（mp3 / m4a / aac / wav / ogg / webm）
+ *
+ * ✅ 保存先は users/{uid}/brands/{brandId}/audio/{ts}.{ext}
+ */
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** ブラウザによっては type が空 / 別名になるので拡張子からも決める */
+function resolveContentType(file: Blob, fileName: string) {
+  const type = String(file.type || "").toLowerCase();
+  if (AUDIO_CONTENT_TYPES[type]) return type;
+
+  const ext = fileName.toLowerCase().split(".").pop() || "";
+  const byExt = Object.entries(AUDIO_CONTENT_TYPES).find(([, value]) => value === ext);
+  return byExt ? byExt[0] : type;
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const fd = await req.formData();
+    const file = fd.get("file");
+
+    if (!file || !(file instanceof Blob)) {
+      return NextResponse.json({ ok: false, error: "file がありません（音源ファイル）" }, { status: 400 });
+    }
+
+    const fileName = file instanceof File && file.name ? String(file.name) : "";
+    const contentType = resolveContentType(file, fileName);
+
+    if (!AUDIO_CONTENT_TYPES[contentType]) {
+      return NextResponse.json(
+        { ok: false, error: `対応していない音源形式です: ${contentType || fileName || "unknown"}` },
+        { status: 400 }
+      );
+    }
+
+    const item = await saveAudioToLibrary({
+      uid: user.uid,
+      brandId: String(fd.get("brandId") || ""),
+      buffer: Buffer.from(await file.arrayBuffer()),
+      contentType,
+      label: String(fd.get("label") || "").trim() || fileName.replace(/\.[^.]+$/, ""),
+    });
+
+    return NextResponse.json({ ok: true, item });
+  } catch (error) {
+    console.error("[audio/upload] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+// /app/api/backgrounds/analytics/route.ts
+import { NextResponse } from "next/server";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { buildBgLogReport, normalizeBgLogRow } from "@/app/api/_bgLogs/bgLogReport";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * AOI FLOW
+ * 背景生成の分析（bg_generation_logs の集計）
+ *
+ * ✅ 自分のログだけを集計する（uid 単位）
+ * ✅ 期間は days（1〜180日 / 既定30日）
+ * ✅ 読み込みは新しい順に最大 MAX_ROWS 件（試行ログ込み）
+ * ✅ uid + createdAt の複合インデックスが要る（「Firestore Index」に宣言）
+ */
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 180;
+const MAX_ROWS = 3000;
+
+function parseDays(value: string | null) {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_DAYS;
+  return Math.min(MAX_DAYS, n);
+}
+
+export async function GET(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "認証に失敗しました。" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const db = getAdminDb();
+    const url = new URL(req.url);
+    const days = parseDays(url.searchParams.get("days"));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const snap = await db
+      .collection("bg_generation_logs")
+      .where("uid", "==", user.uid)
+      .where("createdAt", ">=", since)
+      .orderBy("createdAt", "desc")
+      .limit(MAX_ROWS)
+      .get();
+
+    const rows = snap.docs.map((doc) => normalizeBgLogRow(doc.id, doc.data() || {}));
+    const report = buildBgLogReport(rows, days);
+
+    return NextResponse.json({
+      ok: true,
+      truncated: snap.size >= MAX_ROWS,
+      report,
+    });
+  } catch (error) {
+    console.error("[BG_ANALYTICS_ERROR]", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "背景生成の分析を取得できませんでした。" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ export const dynamic = "force-dynamic";
 import { NextResponse } from "next/server";
 import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { getAdminDb } from "@/firebaseAdmin";
+import { normalizeBrandId } from "@/lib/brand/brands";
 
 function compactKeywords(keys: unknown): string[] {
   if (!Array.isArray(keys)) return [];
@@ -40,7 +41,7 @@ export async function POST(req: Request) {
     const user = await requireUserFromAuthHeader(req);
     const body = await req.json().catch(() => ({} as any));
 
-    const brandId = String(body?.brandId || "vento").trim();
+    const brandId = normalizeBrandId(body?.brandId);
     const vision = String(body?.vision || "").trim();
     const keywords = compactKeywords(body?.keywords);
     const purpose = String(body?.purpose || "sales").trim(); // 任意（参考）
@@ -5,6 +5,7 @@ export const dynamic = "force-dynamic";
 import { NextResponse } from "next/server";
 import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { getAdminDb } from "@/firebaseAdmin";
+import { normalizeBrandId } from "@/lib/brand/brands";
 
 type BgScene = "studio" | "lifestyle" | "scale" | "detail";
 
@@ -42,7 +43,7 @@ export async function POST(req: Request) {
     const user = await requireUserFromAuthHeader(req);
     const body = await req.json().catch(() => ({} as any));
 
-    const brandId = String(body?.brandId || "vento").trim();
+    const brandId = normalizeBrandId(body?.brandId);
     const vision = String(body?.vision || "").trim();
     const keywords = Array.isArray(body?.keywords)
       ? body.keywords.map(String).map((s: string) => s.trim()).filter(Boolean).slice(0, 16)
@@ -0,0 +1,166 @@
+// /app/api/backgrounds/series/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import { normalizeBackgroundSeriesSpec } from "@/lib/image/backgroundSeriesOptions";
+import { buildBackgroundSeriesSpec } from "@/lib/server/backgroundSeries";
+
+/**
+ * AOI FLOW
+ * ブランドの背景シリーズ（series mode）
+ *
+ * ✅ GET    ?brandId=        … 保存済みの基準を返す（無ければ spec: null）
+ * ✅ POST   { brandId, anchorUrl } … 基準画像を解析して users/{uid}/brands/{brandId}.bgSeries に保存
+ * ✅ PATCH  { brandId, enabled }   … シリーズモードのオン/オフ
+ * ✅ DELETE ?brandId=        … 基準を削除
+ *
+ * 以後 /api/generate-bg はこの基準でプロンプトを揃え、一貫性スコアで採用を判定する
+ */
+
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+function asTrimmedString(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function fetchImageBuffer(url: string): Promise<Buffer> {
+  const r = await fetch(url, { cache: "no-store" as any });
+  if (!r.ok) throw new Error(`image fetch failed: ${r.status}`);
+
+  const buf = Buffer.from(await r.arrayBuffer());
+  if (buf.length > MAX_IMAGE_BYTES) throw new Error("image too large");
+  return buf;
+}
+
+async function loadBrandRef(uid: string, rawBrandId: unknown) {
+  const brandId = normalizeBrandId(rawBrandId, "");
+  if (!brandId) return null;
+
+  const ref = getAdminDb().doc(`users/${uid}/brands/${brandId}`);
+  const snap = await ref.get();
+  if (!snap.exists) return null;
+
+  return { ref, data: snap.data() || {} };
+}
+
+export async function GET(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const url = new URL(req.url);
+
+    const brand = await loadBrandRef(user.uid, url.searchParams.get("brandId"));
+    if (!brand) return bad("brand not found", 404);
+
+    return NextResponse.json({ ok: true, spec: normalizeBackgroundSeriesSpec(brand.data.bgSeries) });
+  } catch (e: any) {
+    console.error("[backgrounds/series][GET]", e);
+    return NextResponse.json({ ok: false, error: e?.message || "series load failed" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({} as any));
+
+    const anchorUrl = asTrimmedString(body?.anchorUrl);
+    if (!/^https?:\/\//i.test(anchorUrl)) return bad("anchorUrl must be an http(s) URL");
+
+    const brand = await loadBrandRef(user.uid, body?.brandId);
+    if (!brand) return bad("brand not found", 404);
+
+    // 取れない・大きすぎる・画像として読めない基準画像は入力エラー
+    let anchor: Buffer;
+    try {
+      anchor = await fetchImageBuffer(anchorUrl);
+    } catch (error) {
+      return bad(safeError(error));
+    }
+
+    const spec = await buildBackgroundSeriesSpec(anchorUrl, anchor).catch(() => null);
+    if (!spec) return bad("anchorUrl is not a readable image");
+
+    await brand.ref.set({ bgSeries: spec }, { merge: true });
+
+    return NextResponse.json({ ok: true, spec });
+  } catch (e: any) {
+    console.error("[backgrounds/series][POST]", e);
+    return NextResponse.json({ ok: false, error: e?.message || "series save failed" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({} as any));
+
+    if (typeof body?.enabled !== "boolean") return bad("enabled must be a boolean");
+
+    const brand = await loadBrandRef(user.uid, body?.brandId);
+    if (!brand) return bad("brand not found", 404);
+
+    const current = normalizeBackgroundSeriesSpec(brand.data.bgSeries);
+    if (!current) return bad("series spec not found", 404);
+
+    const spec = { ...current, enabled: body.enabled as boolean, updatedAt: Date.now() };
+    await brand.ref.set({ bgSeries: spec }, { merge: true });
+
+    return NextResponse.json({ ok: true, spec });
+  } catch (e: any) {
+    console.error("[backgrounds/series][PATCH]", e);
+    return NextResponse.json({ ok: false, error: e?.message || "series update failed" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const url = new URL(req.url);
+
+    const brand = await loadBrandRef(user.uid, url.searchParams.get("brandId"));
+    if (!brand) return bad("brand not found", 404);
+
+    await brand.ref.update({ bgSeries: FieldValue.delete() });
+
+    return NextResponse.json({ ok: true, spec: null });
+  } catch (e: any) {
+    console.error("[backgrounds/series][DELETE]", e);
+    return NextResponse.json({ ok: false, error: e?.message || "series delete failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+// /app/api/backgrounds/series/score/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import { normalizeBackgroundSeriesSpec } from "@/lib/image/backgroundSeriesOptions";
+import { scoreBackgroundSeriesImage } from "@/lib/server/backgroundSeries";
+import type { BackgroundSeriesConsistency } from "@/lib/types/draft";
+
+/**
+ * AOI FLOW
+ * 背景シリーズの一貫性採点
+ *
+ * ✅ ブランドの基準画像（bgSeries）と比べて、各背景がどれだけ揃っているか（0〜100）
+ * ✅ 既存の背景を並べたとき、ショップの一覧がちぐはぐにならないかを確認する
+ * ✅ urls は最大24件。1件ずつ順番に解析する
+ */
+
+const MAX_IMAGES = 24;
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+
+type ScoreResult = {
+  url: string;
+  consistency?: BackgroundSeriesConsistency;
+  error?: string;
+};
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+function asTrimmedString(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function fetchImageBuffer(url: string): Promise<Buffer> {
+  const r = await fetch(url, { cache: "no-store" as any });
+  if (!r.ok) throw new Error(`image fetch failed: ${r.status}`);
+
+  const buf = Buffer.from(await r.arrayBuffer());
+  if (buf.length > MAX_IMAGE_BYTES) throw new Error("image too large");
+  return buf;
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({} as any));
+
+    const brandId = normalizeBrandId(body?.brandId, "");
+    if (!brandId) return bad("brandId is required");
+
+    const urls = Array.from(
+      new Set((Array.isArray(body?.urls) ? body.urls.map(asTrimmedString) : []).filter(Boolean))
+    ) as string[];
+
+    if (urls.length === 0) return bad("urls is required");
+    if (urls.length > MAX_IMAGES) return bad(`urls must be ${MAX_IMAGES} or fewer`);
+    if (urls.some((u) => !/^https?:\/\//i.test(u))) return bad("urls must be http(s) URLs");
+
+    const snap = await getAdminDb().doc(`users/${user.uid}/brands/${brandId}`).get();
+    if (!snap.exists) return bad("brand not found", 404);
+
+    const spec = normalizeBackgroundSeriesSpec(snap.data()?.bgSeries);
+    if (!spec) return bad("series spec not found", 404);
+
+    const results: ScoreResult[] = [];
+
+    for (const url of urls) {
+      try {
+        results.push({ url, consistency: await scoreBackgroundSeriesImage(spec, await fetchImageBuffer(url)) });
+      } catch (e: any) {
+        results.push({ url, error: e?.message || "score failed" });
+      }
+    }
+
+    return NextResponse.json({ ok: true, anchorUrl: spec.anchorUrl, results }, { status: 200 });
+  } catch (e: any) {
+    console.error("[backgrounds/series/score]", e);
+    return NextResponse.json({ ok: false, error: e?.message || "score failed" }, { status: 500 });
+  }
+}
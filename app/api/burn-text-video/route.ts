@@ -1,6 +1,12 @@
 //app/api/burn-text-video/route.ts
 import { NextResponse } from "next/server";
+import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { saveVideoToStorage } from "@/lib/storage/saveVideo";
+import { isAudioLibraryPath, normalizeVideoAudioTrack } from "@/lib/video/audioTrack";
+import { normalizeVideoCaptionTrack } from "@/lib/video/captions";
+import { normalizeBrandFontId, type BurnTextStyle } from "@/lib/brand/brandKit";
+import { TIMELINE_LIMITS } from "@/lib/nonAiVideo/timeline";
+import type { CaptionCue, CaptionCueStyle, VideoAudioTrack } from "@/lib/types/draft";
 
 export const runtime = "nodejs";
 
@@ -16,6 +22,34 @@ function safeNumber(v: unknown, fallback: number, min: number, max: number): num
   return Math.max(min, Math.min(max, n));
 }
 
+function safeColor(v: unknown, fallback: string): string {
+  const s = safeText(v);
+  return /^#[0-9a-fA-F]{6}$/.test(s) ? s : fallback;
+}
+
+const POSITIONS = ["top", "center", "bottom", "leftBottom", "rightBottom"] as const;
+
+/** ブランドキットの文字・帯・ロゴ（無ければ burn-api 側の従来の白文字・黒帯） */
+function normalizeBurnStyle(v: any): BurnTextStyle | null {
+  if (!v || typeof v !== "object") return null;
+
+  const logoUrl = /^https?:\/\//i.test(safeText(v.logoUrl)) ? safeText(v.logoUrl) : "";
+
+  return {
+    fontId: normalizeBrandFontId(v.fontId),
+    fontColor: safeColor(v.fontColor, "#FFFFFF"),
+    fontWeight: v.fontWeight === "normal" ? "normal" : "bold",
+    boxEnabled: v.boxEnabled !== false,
+    boxColor: safeColor(v.boxColor, "#000000"),
+    boxOpacity: safeNumber(v.boxOpacity, 0.48, 0, 1),
+    logoUrl,
+    logoEnabled: !!logoUrl && v.logoEnabled === true,
+    logoPosition: POSITIONS.includes(v.logoPosition) ? v.logoPosition : "top",
+    logoWidth: Math.round(safeNumber(v.logoWidth, 140, 24, 600)),
+    logoOpacity: safeNumber(v.logoOpacity, 0.9, 0, 1),
+  };
+}
+
 function getBurnApiBaseUrl(): string {
   const url = safeText(process.env.BURN_VIDEO_API_URL);
 
@@ -33,7 +67,11 @@ async function callBurnApi(body: {
   text: string;
   fontSize: number;
   y: number;
-  seconds: number;
+  seconds: number | null;
+  style: BurnTextStyle | null;
+  audio: VideoAudioTrack | null;
+  cues: CaptionCue[];
+  captionStyle: CaptionCueStyle | null;
 }) {
   const apiUrl = `${getBurnApiBaseUrl()}/burn-text-video`;
 
@@ -60,6 +98,16 @@ async function callBurnApi(body: {
 }
 
 export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "unauthorized", message: String(e?.message ?? e ?? "unknown") },
+      { status: 401 }
+    );
+  }
+
   try {
     const body = await req.json().catch(() => ({} as any));
 
@@ -67,24 +115,44 @@ export async function POST(req: Request) {
     const text = safeText(body?.text);
     const fontSize = Math.round(safeNumber(body?.fontSize, 48, 10, 200));
     const y = safeNumber(body?.y, 70, 0, 100);
-    const seconds = safeNumber(body?.seconds, 6, 1, 20);
-
-    if (!videoUrl || !text) {
+    // 動画の長さ（タイムライン動画は最大 TIMELINE_LIMITS.maxTotalSeconds 秒）。無ければ burn-api が実際の長さを測る
+    const seconds =
+      body?.seconds == null ? null : safeNumber(body.seconds, 6, 1, TIMELINE_LIMITS.maxTotalSeconds);
+    // ブランドキットの書体・色・ロゴ
+    const style = normalizeBurnStyle(body?.style);
+    // productVideo.audio：焼き直しても同じ音を付ける（無ければ元動画の音をそのまま残す）
+    const audio = normalizeVideoAudioTrack(body?.audio);
+    // productVideo.captions：時間指定つきの字幕（text と一緒に焼いてもよい）
+    const captions = normalizeVideoCaptionTrack({ cues: body?.cues, style: body?.captionStyle });
+
+    if (!videoUrl || (!text && !captions)) {
       return NextResponse.json(
         {
           error: "invalid input",
-          message: "videoUrl と text は必須です",
+          message: "videoUrl と text（または字幕 cues）は必須です",
         },
         { status: 400 }
       );
     }
 
+    // 音源は自分の音源ライブラリの物だけ（他人の path / URL を焼き込ませない）
+    if (audio && !isAudioLibraryPath(user.uid, audio.path)) {
+      return NextResponse.json(
+        { error: "forbidden", message: "forbidden (audio path mismatch)" },
+        { status: 403 }
+      );
+    }
+
     const burnedBuffer = await callBurnApi({
       videoUrl,
       text,
       fontSize,
       y,
       seconds,
+      style,
+      audio,
+      cues: captions?.cues ?? [],
+      captionStyle: captions?.style ?? null,
     });
 
     const burnedUrl = await saveVideoToStorage(burnedBuffer, {
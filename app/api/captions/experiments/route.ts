@@ -0,0 +1,50 @@
+// /app/api/captions/experiments/route.ts
+import { NextResponse } from "next/server";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import { buildCaptionExperimentReport } from "@/lib/drafts/captionExperiments";
+import { captionExperimentRows, loadOutcomeDrafts } from "@/lib/server/draftOutcomes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 文章の A/B のまとめAPI
+ *
+ * 入力
+ * - {}            : 自分の下書き全体（ブランド別 / 画像の目的別 / ブランド×目的）
+ * - { brandId }   : そのブランドの下書きだけ
+ *
+ * ✅ 投稿版（outcome.postedCaptionSetId / captionVariants）の記録がある下書きだけを数える
+ */
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as { brandId?: unknown };
+    const brandFilter = asTrimmedString(body.brandId) ? normalizeBrandId(body.brandId) : "";
+
+    const rows = captionExperimentRows(
+      await loadOutcomeDrafts(getAdminDb(), user.uid, brandFilter || undefined)
+    ).filter((row) => !brandFilter || row.brandId === brandFilter);
+
+    return NextResponse.json({ ok: true, report: buildCaptionExperimentReport(rows) });
+  } catch (error) {
+    console.error("[captions/experiments] failed:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
@@ -5,6 +5,10 @@ import { NextResponse } from "next/server";
 import admin from "firebase-admin";
 import crypto from "crypto";
 import { requireUserFromAuthHeader, getAdminDb } from "@/app/api/_firebase/admin";
+import { isAudioLibraryPath, normalizeVideoAudioTrack } from "@/lib/video/audioTrack";
+import { normalizeVideoCaptionTrack } from "@/lib/video/captions";
+import { normalizeBrandFontId } from "@/lib/brand/brandKit";
+import type { BrandFontId, VideoAudioTrack, VideoCaptionTrack } from "@/lib/types/draft";
 
 type OverlayPosition = "top" | "center" | "bottom" | "leftBottom" | "rightBottom";
 
@@ -29,6 +33,7 @@ type CmOverlayInput = {
   logoOpacity?: number;
   size?: string;
   seconds?: number;
+  fontId?: BrandFontId;
 };
 
 function safeText(v: unknown): string {
@@ -80,15 +85,19 @@ async function callCmBurnApi(body: {
   videoUrl: string;
   overlay: Required<CmOverlayInput>;
   seconds: number;
+  audio: VideoAudioTrack | null;
+  captions: VideoCaptionTrack | null;
 }) {
   const apiUrl = `${getBurnApiBaseUrl()}/cm-burn-overlay`;
+  const { captions, ...rest } = body;
 
   const res = await fetch(apiUrl, {
     method: "POST",
     headers: {
       "content-type": "application/json",
     },
-    body: JSON.stringify(body),
+    // burn-api は字幕を cues / captionStyle で受け取る
+    body: JSON.stringify({ ...rest, cues: captions?.cues ?? [], captionStyle: captions?.style ?? null }),
   });
 
   if (!res.ok) {
@@ -210,19 +219,40 @@ export async function POST(req: Request) {
 
       size: safeText(body?.size || rawOverlay.size || current.videoSize || "720x1280"),
       seconds,
+      // ブランドキットの書体（無ければ従来のゴシック）
+      fontId: normalizeBrandFontId(rawOverlay.fontId),
     };
 
-    if (!overlay.text && !overlay.logoEnabled) {
+    // 字幕も body.captions（null で字幕なし）→ 無ければ保存済みの cmVideo.captions
+    const captions = normalizeVideoCaptionTrack(
+      body?.captions !== undefined ? body.captions : current.cmVideo?.captions
+    );
+
+    if (!overlay.text && !overlay.logoEnabled && !captions) {
       return NextResponse.json(
-        { ok: false, error: "文字またはロゴを設定してください" },
+        { ok: false, error: "文字・ロゴ・字幕のどれかを設定してください" },
         { status: 400 }
       );
     }
 
+    // 音は body.audio（null で音なし）→ 無ければ保存済みの cmVideo.audio を使う
+    const audio = normalizeVideoAudioTrack(
+      body?.audio !== undefined ? body.audio : current.cmVideo?.audio
+    );
+
+    if (audio && !isAudioLibraryPath(user.uid, audio.path)) {
+      return NextResponse.json(
+        { ok: false, error: "forbidden (audio path mismatch)" },
+        { status: 403 }
+      );
+    }
+
     const burnedBuffer = await callCmBurnApi({
       videoUrl,
       overlay,
       seconds,
+      audio,
+      captions,
     });
 
     const uploaded = await uploadMp4({
@@ -252,6 +282,8 @@ export async function POST(req: Request) {
       overlayPath: uploaded.path,
       overlayUrls,
       overlay,
+      audio,
+      captions,
       updatedAt: Date.now(),
     };
 
@@ -8,8 +8,9 @@ import admin from "firebase-admin";
 import RunwayML from "@runwayml/sdk";
 import { requireUserFromAuthHeader, getAdminDb } from "@/app/api/_firebase/admin";
 import { getIdempotencyKey } from "@/lib/server/idempotency";
+import { brandDisplayName, normalizeBrandCmProfile, normalizeBrandId } from "@/lib/brand/brands";
+import type { BrandCmProfile } from "@/lib/types/draft";
 
-type BrandId = "vento" | "riva";
 type UiVideoSize = "720x1280" | "1280x720" | "960x960";
 
 const CM_PROMPT_VERSION = "cm_structure_lock_v3_single_angle";
@@ -20,10 +21,6 @@ function safeText(v: unknown): string {
   return String(v ?? "").trim();
 }
 
-function safeBrandId(v: unknown): BrandId {
-  return safeText(v) === "riva" ? "riva" : "vento";
-}
-
 function normalizeSize(v: unknown): UiVideoSize {
   const s = safeText(v);
   if (s === "1280x720") return "1280x720";
@@ -103,19 +100,10 @@ function parseWorldSpecText(worldSpecText: string) {
   }
 }
 
-function brandVisualInstruction(brandId: BrandId): string {
-  if (brandId === "riva") {
-    return [
-      "Show stationary classic automotive details only:",
-      "chrome parts, analog gauges, leather interior, steering wheel details, polished body reflections.",
-      "Quiet premium garage studio, refined dark navy atmosphere.",
-    ].join(" ");
-  }
-
+function brandVisualInstruction(profile: BrandCmProfile): string {
   return [
-    "Show stationary curated vintage objects and material textures:",
-    "aged wood, metal, leather, glass, patina, small crafted objects.",
-    "Quiet premium vintage interior, soft natural light, refined minimal display.",
+    `Show ${profile.heroSubject}.`,
+    `${profile.visualScene}.`,
   ].join(" ");
 }
 
@@ -152,13 +140,13 @@ function limitPromptText(text: string): string {
   return safeText(text).replace(/\s+/g, " ").slice(0, 950);
 }
 
-function buildPrompt(input: { brandId: BrandId; worldSpecText: string }) {
+function buildPrompt(input: { brandName: string; brandProfile: BrandCmProfile; worldSpecText: string }) {
   const parsed = parseWorldSpecText(input.worldSpecText);
 
   const basePrompt =
     parsed.runwayPrompt ||
     [
-      `Premium brand commercial for ${input.brandId.toUpperCase()}.`,
+      `Premium brand commercial for ${input.brandName}.`,
       parsed.heroSubject ? `Visible stationary hero object: ${parsed.heroSubject}.` : "",
       parsed.visualScene ? `Scene: ${parsed.visualScene}.` : "",
       parsed.composition ? `Composition: ${parsed.composition}.` : "",
@@ -169,7 +157,7 @@ function buildPrompt(input: { brandId: BrandId; worldSpecText: string }) {
 
   const prompt = [
     basePrompt,
-    brandVisualInstruction(input.brandId),
+    brandVisualInstruction(input.brandProfile),
     "Make physical objects clearly visible, not an empty atmosphere video.",
     structureLockInstruction(),
     "Plain surfaces only.",
@@ -218,7 +206,7 @@ export async function POST(req: Request) {
     const body = (await req.json().catch(() => ({}))) as any;
 
     const draftId = safeText(body?.draftId);
-    const brandId = safeBrandId(body?.brandId);
+    const brandId = normalizeBrandId(body?.brandId);
     const worldSpecText = safeText(body?.worldSpecText);
     const size = normalizeSize(body?.size);
     const ratio = ratioFromSize(size);
@@ -240,7 +228,15 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
     }
 
-    const promptText = buildPrompt({ brandId, worldSpecText });
+    // ブランドごとに映すものはブランド文書の cmProfile（無ければ雛形）
+    const brandSnap = await db.doc(`users/${user.uid}/brands/${brandId}`).get().catch(() => null);
+    const brandDoc = brandSnap?.exists ? brandSnap.data() : null;
+
+    const promptText = buildPrompt({
+      brandName: brandDisplayName(brandId, brandDoc?.name),
+      brandProfile: normalizeBrandCmProfile(brandDoc, brandId),
+      worldSpecText,
+    });
 
     const idempotencyKey = getIdempotencyKey(req, {
       type: "brand-cm",
@@ -278,6 +274,9 @@ export async function POST(req: Request) {
       url: null,
       urls: Array.isArray((current as any).cmVideo?.urls) ? (current as any).cmVideo.urls : [],
       persona: cmPersona,
+      // 作り直しても選んだ音・字幕は引き継ぐ（焼き込み時に同じ音・字幕を付ける）
+      audio: (current as any).cmVideo?.audio ?? null,
+      captions: (current as any).cmVideo?.captions ?? null,
     };
 
     const cmApplied = {
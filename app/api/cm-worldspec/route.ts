@@ -6,8 +6,8 @@ export const runtime = "nodejs";
 import { NextResponse } from "next/server";
 import admin from "firebase-admin";
 import { requireUserFromAuthHeader, getAdminDb } from "@/app/api/_firebase/admin";
-
-type BrandId = "vento" | "riva";
+import { brandDisplayName, normalizeBrandCmProfile, normalizeBrandId } from "@/lib/brand/brands";
+import type { BrandCmProfile } from "@/lib/types/draft";
 
 type CMWorldSpec = {
   concept: string;
@@ -25,10 +25,6 @@ function safeText(v: unknown): string {
   return String(v ?? "").trim();
 }
 
-function safeBrandId(v: unknown): BrandId {
-  return safeText(v) === "riva" ? "riva" : "vento";
-}
-
 function pickJsonObject(raw: string): any {
   const text = safeText(raw);
   if (!text) return null;
@@ -52,34 +48,25 @@ function limitText(text: string, max: number): string {
   return s.length > max ? s.slice(0, max) : s;
 }
 
-function defaultHeroSubject(brandId: BrandId): string {
-  if (brandId === "riva") {
-    return "stationary classic car detail, chrome parts, leather interior, analog gauges, polished body reflections";
-  }
-
-  return "stationary curated vintage objects, aged wood, metal details, leather texture, glass reflections, patina";
-}
-
-function defaultVisualScene(brandId: BrandId): string {
-  if (brandId === "riva") {
-    return "quiet garage studio, soft side light, classic automotive details, refined dark navy atmosphere";
-  }
-
-  return "quiet minimal interior, soft natural window light, refined workspace, curated vintage display";
-}
-
-function defaultBrandMessage(brandId: BrandId): string {
-  if (brandId === "riva") {
-    return "heritage, craftsmanship, mechanical beauty, quiet confidence";
+/**
+ * ブランド文書（users/{uid}/brands/{brandId}）
+ * - CMで映すもの（cmProfile）と表示名を読む。無ければ雛形
+ */
+async function loadBrandDoc(uid: string, brandId: string): Promise<Record<string, unknown> | null> {
+  try {
+    const snap = await getAdminDb().doc(`users/${uid}/brands/${brandId}`).get();
+    return snap.exists ? (snap.data() as Record<string, unknown>) : null;
+  } catch (e) {
+    console.warn("[cm-worldspec] brand load failed:", e);
+    return null;
   }
-
-  return "time, memory, material honesty, quiet beauty, recomposition";
 }
 
 function normalizeWorldSpec(
   raw: any,
   fallback: {
-    brandId: BrandId;
+    brandName: string;
+    brandProfile: BrandCmProfile;
     philosophy: string;
     keywords: string;
     emotion: string;
@@ -92,21 +79,21 @@ function normalizeWorldSpec(
   const heroSubject =
     safeText(raw?.heroSubject) ||
     fallback.heroSubject ||
-    defaultHeroSubject(fallback.brandId);
+    fallback.brandProfile.heroSubject;
 
   const visualScene =
     safeText(raw?.visualScene) ||
     fallback.visualDirection ||
-    defaultVisualScene(fallback.brandId);
+    fallback.brandProfile.visualScene;
 
   const brandMessage =
     safeText(raw?.brandMessage) ||
     fallback.brandMessage ||
-    defaultBrandMessage(fallback.brandId);
+    fallback.brandProfile.brandMessage;
 
   const concept =
     safeText(raw?.concept) ||
-    `${fallback.brandId.toUpperCase()} brand commercial with visible stationary objects, material texture, and quiet premium atmosphere`;
+    `${fallback.brandName} brand commercial with visible stationary objects, material texture, and quiet premium atmosphere`;
 
   const composition =
     safeText(raw?.composition) ||
@@ -119,7 +106,7 @@ function normalizeWorldSpec(
   const runwayPrompt =
     safeText(raw?.runwayPrompt) ||
     [
-      `Premium brand commercial for ${fallback.brandId.toUpperCase()}.`,
+      `Premium brand commercial for ${fallback.brandName}.`,
       `Visible stationary hero object: ${heroSubject}.`,
       `Scene: ${visualScene}.`,
       `Composition: ${composition}.`,
@@ -179,7 +166,7 @@ export async function POST(req: Request) {
     const body = (await req.json().catch(() => ({}))) as any;
 
     const draftId = safeText(body?.draftId);
-    const brandId = safeBrandId(body?.brandId);
+    const brandId = normalizeBrandId(body?.brandId);
 
     const philosophy =
       safeText(body?.philosophy) ||
@@ -213,6 +200,10 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "OPENAI_API_KEY is missing" }, { status: 500 });
     }
 
+    const brandDoc = await loadBrandDoc(user.uid, brandId);
+    const brandProfile = normalizeBrandCmProfile(brandDoc, brandId);
+    const brandName = brandDisplayName(brandId, brandDoc?.name);
+
     const systemPrompt = `
 あなたは一流ブランドCMディレクターです。
 長い日本語ブランド仕様書を読み取り、Runway text-to-video用の短い英語CM仕様に変換します。
@@ -230,15 +221,19 @@ export async function POST(req: Request) {
 - 人物・手・指は出さない
 - 抽象的すぎる空気動画にしない
 - 必ず「見える主役の物体」と「素材の質感」を指定する
-- brandIdがventoなら、ヴィンテージ素材、木、金属、革、ガラス、経年の質感を主役にする
-- brandIdがrivaなら、クラシックカーの部品、クローム、革内装、計器、車体反射を主役にする
+- 「ブランドのCM設定」の主役・場面の素材と質感を主役にする（仕様書の指定があればそちらを優先）
 - runwayPromptは英語、780文字以内
 - negativePromptは英語、220文字以内
 `.trim();
 
     const userPrompt = `
 brandId:
-${brandId}
+${brandId}（${brandName}）
+
+ブランドのCM設定:
+- 主役: ${brandProfile.heroSubject}
+- 場面: ${brandProfile.visualScene}
+- 伝えたいこと: ${brandProfile.brandMessage}
 
 ブランド仕様書・思想:
 ${limitText(philosophy, 6000)}
@@ -299,7 +294,8 @@ JSONで返してください。
     const parsed = pickJsonObject(safeText(openaiJson?.choices?.[0]?.message?.content));
 
     const worldSpec = normalizeWorldSpec(parsed, {
-      brandId,
+      brandName,
+      brandProfile,
       philosophy,
       keywords,
       emotion,
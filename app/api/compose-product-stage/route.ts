@@ -1,6 +1,8 @@
 // /app/api/compose-product-stage/route.ts
 import { NextResponse } from "next/server";
 import sharp from "sharp";
+import { analyzeBackgroundReference } from "@/lib/server/backgroundSeries";
+import type { StageLightEstimate, StageLightMatchResult } from "@/lib/types/draft";
 
 export const runtime = "nodejs";
 
@@ -14,6 +16,9 @@ export const runtime = "nodejs";
  * - 商品の大きさ / 位置を反映する
  * - 商品に付随する影を生成する
  * - 最終合成画像を PNG で返す
+ * - products があれば追加商品（セット商品）も z 順で並べる
+ * - placement.shadowStyle で影の種類（映り込み / 接地影 / 投影影）を切り替える
+ * - placement.lightMatch で背景の光・床の線に商品の露出 / 陰 / 影の向きを合わせる
  *
  * 今回の修正方針
  * - 既存機能は削除しない
@@ -62,6 +67,61 @@ type PlacementInput = {
     x: number;
     y: number;
   };
+  shadowStyle?: ShadowStyleInput;
+  lightMatch?: LightMatchInput;
+};
+
+/**
+ * 背景の光・遠近合わせ（DraftDoc.placement.lightMatch）
+ * - null の項目は背景の推定値から自動で決める
+ * - 明示的に enabled: true を保存した時だけ合わせる（未指定の下書きは従来の見た目のまま）
+ */
+type LightMatchInput = {
+  enabled: boolean;
+  light: LightDirection | null;
+  exposure: number | null;
+  contrast: number | null;
+  rim: number | null;
+  floorLine: number | null;
+};
+
+/**
+ * 合成で実際に使う値（推定 + 上書きを解決したもの）
+ * - セット商品も同じ背景なので、メイン商品の値をそのまま使う
+ */
+type LightMatchPlan = {
+  light: LightDirection;
+  exposure: number;
+  contrast: number;
+  rim: number;
+  floorLine: number;
+};
+
+/**
+ * 影の種類（DraftDoc.placement.shadowStyle）
+ * - drop は従来の makeGroundShadow（既定。見た目は変えない）
+ * - reflection / contact / cast は商品のアルファから作る
+ */
+type ShadowType = "drop" | "reflection" | "contact" | "cast";
+
+type ShadowStyleInput = {
+  type: ShadowType;
+  reflection: {
+    opacity: number;
+    height: number;
+    gap: number;
+  };
+  contact: {
+    opacity: number;
+    spread: number;
+    blur: number;
+  };
+  cast: {
+    opacity: number;
+    length: number;
+    blur: number;
+    light: LightDirection | null;
+  };
 };
 
 type Matrix3x3 = [
@@ -202,6 +262,74 @@ function normalizePlacement(input: unknown): PlacementInput {
       x: clamp(Number(backgroundRaw.x ?? 0), -2, 2),
       y: clamp(Number(backgroundRaw.y ?? 0), -2, 2),
     },
+
+    shadowStyle: normalizeShadowStyle(raw.shadowStyle),
+    lightMatch: normalizeLightMatch(raw.lightMatch),
+  };
+}
+
+/**
+ * 数値の上書き（null / 未指定 / 数値でない → 自動）
+ */
+function optionalNumber(input: unknown, min: number, max: number): number | null {
+  if (input === null || input === undefined || input === "") return null;
+  const n = Number(input);
+  return Number.isFinite(n) ? clamp(n, min, max) : null;
+}
+
+function normalizeLightMatch(input: unknown): LightMatchInput {
+  const raw = asRecord(input);
+
+  return {
+    enabled: raw.enabled === true,
+    light:
+      raw.light === "left" || raw.light === "right" || raw.light === "center" ? raw.light : null,
+    exposure: optionalNumber(raw.exposure, 0.7, 1.3),
+    contrast: optionalNumber(raw.contrast, 0.7, 1.3),
+    rim: optionalNumber(raw.rim, 0, 1),
+    floorLine: optionalNumber(raw.floorLine, 0.3, 0.95),
+  };
+}
+
+function asRecord(input: unknown): Record<string, unknown> {
+  return input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+}
+
+function normalizeShadowType(input: unknown): ShadowType {
+  const s = String(input ?? "").trim();
+  if (s === "reflection") return "reflection";
+  if (s === "contact") return "contact";
+  if (s === "cast") return "cast";
+  return "drop";
+}
+
+function normalizeShadowStyle(input: unknown): ShadowStyleInput {
+  const raw = asRecord(input);
+  const reflection = asRecord(raw.reflection);
+  const contact = asRecord(raw.contact);
+  const cast = asRecord(raw.cast);
+
+  return {
+    type: normalizeShadowType(raw.type),
+    reflection: {
+      opacity: clamp(Number(reflection.opacity ?? 0.28), 0, 1),
+      height: clamp(Number(reflection.height ?? 0.45), 0.1, 1),
+      gap: clamp(Number(reflection.gap ?? 0), 0, 40),
+    },
+    contact: {
+      opacity: clamp(Number(contact.opacity ?? 0.45), 0, 1),
+      spread: clamp(Number(contact.spread ?? 10), 2, 60),
+      blur: clamp(Number(contact.blur ?? 4), 0, 40),
+    },
+    cast: {
+      opacity: clamp(Number(cast.opacity ?? 0.3), 0, 1),
+      length: clamp(Number(cast.length ?? 0.6), 0.1, 1.5),
+      blur: clamp(Number(cast.blur ?? 6), 0, 60),
+      light:
+        cast.light === "left" || cast.light === "right" || cast.light === "center"
+          ? cast.light
+          : null,
+    },
   };
 }
 
@@ -293,6 +421,14 @@ function normalizeLight(input: unknown): LightDirection {
   return "center";
 }
 
+/**
+ * 指定が無ければ null（光・遠近合わせでは背景の推定を使う）
+ */
+function normalizeOptionalLight(input: unknown): LightDirection | null {
+  const s = String(input ?? "").trim();
+  return s === "left" || s === "right" || s === "center" ? s : null;
+}
+
 function normalizeProductCategory(input: unknown): ProductCategory {
   const s = String(input ?? "").trim();
   if (s === "furniture") return "furniture";
@@ -467,6 +603,175 @@ async function applyWeakColorTemperatureMatch(
   };
 }
 
+/* -------------------------------------------------------
+ * 背景の光・遠近合わせ
+ * ----------------------------------------------------- */
+
+/**
+ * 自動値の基準
+ * - 露出: 背景の平均の明るさがこの値なら商品はそのまま
+ * - コントラスト: 背景の明るさのばらつきがこの値なら商品はそのまま
+ */
+const LIGHT_MATCH_AMBIENT_BASE = 175;
+const LIGHT_MATCH_CONTRAST_BASE = 40;
+
+/**
+ * 背景（ズーム・位置を反映した後の 1024px）から光と床の線を推定する
+ * - 解析は lib/server/backgroundSeries.ts（シリーズ基準・参考画像と共通）
+ * - 真上からの光（top）は正面（center）として扱う
+ */
+async function estimateStageLight(bgBuf: Buffer): Promise<StageLightEstimate> {
+  const a = await analyzeBackgroundReference(bgBuf);
+
+  return {
+    light: a.lightDirection === "top" ? "center" : a.lightDirection,
+    lightBalance: a.lightBalance,
+    ambient: a.brightness,
+    contrast: a.contrast,
+    floorLine: a.horizonRatio,
+  };
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * 明示された光の向き（推定より優先）
+ * - lightMatch.light: ProductPlacementEditor の上書き
+ * - castLight: 投影影の光ボタン（ShadowStyleCard。type が cast の時だけ）
+ * - requestLight: リクエストの light
+ */
+type ExplicitLight = {
+  castLight: LightDirection | null;
+  requestLight: LightDirection | null;
+};
+
+function explicitCastLight(style: ShadowStyleInput | undefined): LightDirection | null {
+  return style?.type === "cast" ? style.cast.light : null;
+}
+
+/**
+ * 推定値 + 上書き → 合成で使う値
+ * - 光の向きは lightMatch.light → 投影影の光 → リクエストの light → 推定 の順
+ * - 暗い背景では商品を少し落とし、明るい背景では少し持ち上げる
+ * - 光の左右差が強いほど、光と反対側の陰を濃くする
+ */
+function resolveLightMatchPlan(
+  input: LightMatchInput,
+  explicit: ExplicitLight,
+  estimate: StageLightEstimate
+): LightMatchPlan {
+  const autoExposure = clamp(Math.pow(estimate.ambient / LIGHT_MATCH_AMBIENT_BASE, 0.35), 0.85, 1.12);
+  const autoContrast = clamp(
+    1 + ((estimate.contrast - LIGHT_MATCH_CONTRAST_BASE) / LIGHT_MATCH_CONTRAST_BASE) * 0.1,
+    0.9,
+    1.1
+  );
+  const autoRim = clamp(0.12 + Math.abs(estimate.lightBalance) * 2.5, 0.12, 0.5);
+
+  return {
+    light: input.light ?? explicit.castLight ?? explicit.requestLight ?? estimate.light,
+    exposure: round2(input.exposure ?? autoExposure),
+    contrast: round2(input.contrast ?? autoContrast),
+    rim: round2(input.rim ?? autoRim),
+    floorLine: round2(input.floorLine ?? estimate.floorLine),
+  };
+}
+
+/**
+ * 推定値を使わなかった項目
+ * - 光の向きは、どこで決まったか（light / castLight / requestLight）を1つだけ入れる
+ */
+function lightMatchOverridden(input: LightMatchInput, explicit: ExplicitLight): string[] {
+  const lightKey =
+    input.light !== null
+      ? "light"
+      : explicit.castLight !== null
+        ? "castLight"
+        : explicit.requestLight !== null
+          ? "requestLight"
+          : null;
+
+  return [
+    ...(lightKey ? [lightKey] : []),
+    ...(["exposure", "contrast", "rim", "floorLine"] as const).filter((key) => input[key] !== null),
+  ];
+}
+
+/**
+ * 露出・コントラスト
+ * - 中間の明るさ（128）を軸にコントラストを付け、露出を掛ける
+ * - アルファは変えない（RGB だけに掛けて戻す）
+ */
+async function applyLightMatchTone(fgBuf: Buffer, plan: LightMatchPlan): Promise<Buffer> {
+  if (plan.exposure === 1 && plan.contrast === 1) return fgBuf;
+
+  const { data, info } = await sharp(fgBuf, { failOn: "none" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const alpha = await sharp(data, { raw: info }).extractChannel(3).raw().toBuffer();
+
+  const a = plan.exposure * plan.contrast;
+  const b = plan.exposure * 128 * (1 - plan.contrast);
+
+  return await sharp(data, { raw: info })
+    .removeAlpha()
+    .linear(a, b)
+    .joinChannel(alpha, { raw: { width: info.width, height: info.height, channels: 1 } })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * 光と反対側の陰 + 光の当たる側のわずかなハイライト
+ * - 商品のアルファの内側だけに乗せる（blend: atop）
+ * - 正面の光は下側だけを少し落とす
+ */
+function makeLightMatchOverlaySvg(width: number, height: number, light: LightDirection, rim: number) {
+  const w = Math.max(1, width);
+  const h = Math.max(1, height);
+  const shade = round2(rim * 0.45);
+  const highlight = round2(rim * 0.16);
+
+  const gradient =
+    light === "center"
+      ? `
+        <linearGradient id="lm" x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0" stop-color="#fff" stop-opacity="${highlight}" />
+          <stop offset="0.3" stop-color="#fff" stop-opacity="0" />
+          <stop offset="0.7" stop-color="#000" stop-opacity="0" />
+          <stop offset="1" stop-color="#000" stop-opacity="${round2(shade * 0.6)}" />
+        </linearGradient>`
+      : `
+        <linearGradient id="lm" x1="${light === "left" ? 0 : 1}" y1="0" x2="${light === "left" ? 1 : 0}" y2="0">
+          <stop offset="0" stop-color="#fff" stop-opacity="${highlight}" />
+          <stop offset="0.35" stop-color="#fff" stop-opacity="0" />
+          <stop offset="0.5" stop-color="#000" stop-opacity="0" />
+          <stop offset="1" stop-color="#000" stop-opacity="${shade}" />
+        </linearGradient>`;
+
+  return `
+    <svg width="${w}" height="${h}" xmlns="http://www.w3.org/2000/svg">
+      <defs>${gradient}
+      </defs>
+      <rect width="${w}" height="${h}" fill="url(#lm)" />
+    </svg>
+  `;
+}
+
+/**
+ * 接地点の高さ → 影の奥行き
+ * - 床の線に近い（奥）ほど影は薄く潰れ、手前ほど厚く伸びる
+ * - 既定の配置（床の線 0.62・下端から約130px）でほぼ 1
+ */
+function resolvePerspective(contactY: number, canvas: number, floorLine: number): number {
+  const depth = clamp((contactY / canvas - floorLine) / Math.max(0.05, 1 - floorLine), 0, 1);
+  return round2(clamp(0.7 + depth * 0.45, 0.7, 1.15));
+}
+
 async function makeGroundShadow(
   canvasSize: number,
   shadowWidth: number,
@@ -475,7 +780,8 @@ async function makeGroundShadow(
   light: LightDirection,
   groundingType: GroundingType,
   shadow: PlacementInput["shadow"],
-  mode: ProductPhotoMode
+  mode: ProductPhotoMode,
+  perspective = 1
 ): Promise<Buffer> {
   if (groundingType === "hanging") {
     return await sharp({
@@ -522,10 +828,14 @@ async function makeGroundShadow(
   );
 
   const w = Math.max(60, Math.round(shadowWidth * baseScale * scale));
+
+  /**
+   * perspective: 光・遠近合わせで接地点の奥行きに合わせる（既定 1 = 従来どおり）
+   */
   const h =
     groundingType === "shelf" || groundingType === "display"
-      ? Math.max(10, Math.round(w * 0.06))
-      : Math.max(8, Math.round(w * 0.08));
+      ? Math.max(10, Math.round(w * 0.06 * perspective))
+      : Math.max(8, Math.round(w * 0.08 * perspective));
 
   const lightShiftX = light === "left" ? 8 : light === "right" ? -8 : 0;
 
@@ -698,6 +1008,241 @@ async function makePlacedProductLayer(args: {
     .toBuffer();
 }
 
+/**
+ * 商品のアルファから影用のシルエットを作る
+ * - 色は黒、アルファ = 商品のアルファ × opacity
+ */
+async function makeSilhouette(buf: Buffer, opacity: number): Promise<Buffer> {
+  const { data, info } = await sharp(buf, { failOn: "none" })
+    .ensureAlpha()
+    .extractChannel(3)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const alpha = Buffer.alloc(info.width * info.height);
+  for (let i = 0; i < alpha.length; i += 1) {
+    alpha[i] = Math.round(data[i * info.channels] * opacity);
+  }
+
+  return await sharp({
+    create: {
+      width: info.width,
+      height: info.height,
+      channels: 3,
+      background: { r: 0, g: 0, b: 0 },
+    },
+  })
+    .joinChannel(alpha, { raw: { width: info.width, height: info.height, channels: 1 } })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * ぼかしがレイヤー端で切れないよう、透明余白を足してからぼかす
+ */
+async function blurWithPadding(buf: Buffer, blur: number): Promise<{ buffer: Buffer; pad: number }> {
+  if (blur <= 0) return { buffer: buf, pad: 0 };
+
+  const pad = Math.ceil(blur * 3);
+  const buffer = await sharp(buf, { failOn: "none" })
+    .extend({
+      top: pad,
+      bottom: pad,
+      left: pad,
+      right: pad,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    .blur(Math.max(0.3, blur))
+    .png()
+    .toBuffer();
+
+  return { buffer, pad };
+}
+
+/**
+ * 床への映り込み
+ * - 商品を上下反転し、接地点の真下に置く
+ * - 上（接地点側）から下へ向かってフェードアウト
+ */
+async function makeReflectionLayer(args: {
+  canvasSize: number;
+  foregroundBuffer: Buffer;
+  fgWidth: number;
+  fgHeight: number;
+  rect: ReturnType<typeof resolvePlacementRect>;
+  style: ShadowStyleInput["reflection"];
+}): Promise<Buffer> {
+  const { canvasSize, foregroundBuffer, fgWidth, fgHeight, rect, style } = args;
+
+  const height = clamp(Math.round(fgHeight * style.height), 1, fgHeight);
+
+  const flippedFull = await sharp(foregroundBuffer, { failOn: "none" })
+    .ensureAlpha()
+    .flip()
+    .png()
+    .toBuffer();
+
+  const flipped = await sharp(flippedFull)
+    .extract({ left: 0, top: 0, width: fgWidth, height })
+    .png()
+    .toBuffer();
+
+  const fadeSvg = `
+    <svg width="${fgWidth}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <linearGradient id="fade" x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0" stop-color="#fff" stop-opacity="${style.opacity}" />
+          <stop offset="1" stop-color="#fff" stop-opacity="0" />
+        </linearGradient>
+      </defs>
+      <rect width="${fgWidth}" height="${height}" fill="url(#fade)" />
+    </svg>
+  `;
+
+  const faded = await sharp(flipped)
+    .composite([{ input: Buffer.from(fadeSvg), blend: "dest-in" }])
+    .png()
+    .toBuffer();
+
+  return await makePlacedProductLayer({
+    canvasSize,
+    foregroundBuffer: faded,
+    left: rect.left,
+    top: Math.round(rect.contactY + style.gap),
+  });
+}
+
+/**
+ * 接地影
+ * - アルファの下端（接地している列）だけを細い帯にする
+ * - 脚のある家具なら脚の下だけが濃くなる
+ */
+async function makeContactShadowLayer(args: {
+  canvasSize: number;
+  foregroundBuffer: Buffer;
+  fgWidth: number;
+  fgHeight: number;
+  rect: ReturnType<typeof resolvePlacementRect>;
+  style: ShadowStyleInput["contact"];
+}): Promise<Buffer> {
+  const { canvasSize, foregroundBuffer, fgWidth, fgHeight, rect, style } = args;
+
+  const band = clamp(Math.round(fgHeight * 0.04), 2, fgHeight);
+
+  const bottomEdge = await sharp(foregroundBuffer, { failOn: "none" })
+    .ensureAlpha()
+    .extract({ left: 0, top: fgHeight - band, width: fgWidth, height: band })
+    .png()
+    .toBuffer();
+
+  const spread = Math.round(style.spread);
+  const silhouette = await sharp(await makeSilhouette(bottomEdge, style.opacity))
+    .resize(fgWidth, spread, { fit: "fill" })
+    .png()
+    .toBuffer();
+
+  const blurred = await blurWithPadding(silhouette, style.blur);
+
+  return await makePlacedProductLayer({
+    canvasSize,
+    foregroundBuffer: blurred.buffer,
+    left: rect.left - blurred.pad,
+    top: Math.round(rect.contactY - spread / 2) - blurred.pad,
+  });
+}
+
+/**
+ * 投影影
+ * - シルエットを上下反転して床に倒し、光と反対側へ斜めに伸ばす
+ * - light=left なら右へ、right なら左へ、center なら手前へ
+ */
+async function makeCastShadowLayer(args: {
+  canvasSize: number;
+  foregroundBuffer: Buffer;
+  fgWidth: number;
+  fgHeight: number;
+  rect: ReturnType<typeof resolvePlacementRect>;
+  style: ShadowStyleInput["cast"];
+  light: LightDirection;
+}): Promise<Buffer> {
+  const { canvasSize, foregroundBuffer, fgWidth, fgHeight, rect, style } = args;
+
+  const light = style.light ?? args.light;
+  const direction = light === "left" ? 1 : light === "right" ? -1 : 0;
+
+  const castHeight = Math.max(2, Math.round(fgHeight * style.length * 0.5));
+  const shear = (direction * fgHeight * style.length * 0.6) / castHeight;
+
+  const flipped = await sharp(await makeSilhouette(foregroundBuffer, style.opacity))
+    .flip()
+    .png()
+    .toBuffer();
+
+  const laid = await sharp(flipped)
+    .resize(fgWidth, castHeight, { fit: "fill" })
+    .png()
+    .toBuffer();
+
+  const sheared =
+    shear === 0
+      ? laid
+      : await sharp(laid)
+          .affine(
+            [
+              [1, shear],
+              [0, 1],
+            ],
+            { background: { r: 0, g: 0, b: 0, alpha: 0 } }
+          )
+          .png()
+          .toBuffer();
+
+  /**
+   * affine は左上に詰めて出力するので、
+   * 左へ伸ばした時は伸ばした分だけ左にずらす
+   */
+  const shearOffsetX = shear < 0 ? Math.round(shear * castHeight) : 0;
+  const blurred = await blurWithPadding(sheared, style.blur);
+
+  return await makePlacedProductLayer({
+    canvasSize,
+    foregroundBuffer: blurred.buffer,
+    left: rect.left + shearOffsetX - blurred.pad,
+    top: Math.round(rect.contactY - 2) - blurred.pad,
+  });
+}
+
+/**
+ * shadowStyle に応じた影レイヤー（drop 以外）
+ * - 吊り下げは床が無いので影なし（makeGroundShadow と同じ扱い）
+ */
+async function makeStyledShadowLayer(args: {
+  canvasSize: number;
+  foregroundBuffer: Buffer;
+  fgWidth: number;
+  fgHeight: number;
+  rect: ReturnType<typeof resolvePlacementRect>;
+  style: ShadowStyleInput;
+  light: LightDirection;
+  groundingType: GroundingType;
+}): Promise<Buffer> {
+  const { style, groundingType, ...rest } = args;
+
+  if (groundingType === "hanging") {
+    return await makeEmptyLayer(args.canvasSize);
+  }
+
+  if (style.type === "reflection") {
+    return await makeReflectionLayer({ ...rest, style: style.reflection });
+  }
+
+  if (style.type === "contact") {
+    return await makeContactShadowLayer({ ...rest, style: style.contact });
+  }
+
+  return await makeCastShadowLayer({ ...rest, style: style.cast });
+}
+
 function toPngDataUrl(buf: Buffer) {
   return `data:image/png;base64,${buf.toString("base64")}`;
 }
@@ -858,6 +1403,256 @@ function evaluateCompositeQuality(args: {
   };
 }
 
+/**
+ * セット商品（追加商品）の入力
+ * - メイン商品は従来どおり foregroundUrl / placement（z順 0）
+ * - products はメイン商品の前後に並べる追加商品
+ */
+type StageProductInput = {
+  id: string;
+  foregroundUrl: string;
+  zIndex: number;
+  placement: PlacementInput;
+};
+
+const MAX_STAGE_PRODUCTS = 8;
+
+function normalizeStageProducts(input: unknown): StageProductInput[] {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .map((item, index) => {
+      const raw = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+      const foregroundUrl =
+        typeof raw.foregroundUrl === "string"
+          ? raw.foregroundUrl.trim()
+          : typeof raw.imageUrl === "string"
+            ? raw.imageUrl.trim()
+            : "";
+
+      /**
+       * 保存形式（StageProduct）は scale / x / y / shadow を直下に持つ
+       * API形式の placement でも受けられるようにする
+       */
+      const placementRaw = raw.placement && typeof raw.placement === "object" ? raw.placement : raw;
+      const zIndex = Number(raw.zIndex ?? index + 1);
+
+      return {
+        id: typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : `product_${index + 1}`,
+        foregroundUrl,
+        zIndex: Number.isFinite(zIndex) ? clamp(Math.round(zIndex), -50, 50) : index + 1,
+        placement: normalizePlacement(placementRaw),
+      };
+    })
+    .filter((item) => !!item.foregroundUrl)
+    .slice(0, MAX_STAGE_PRODUCTS);
+}
+
+/**
+ * 商品1つ分のレイヤー（影 + 商品）を作る
+ *
+ * 重要
+ * - 単品合成とセット商品合成で同じ処理を通す
+ * - 単品の見た目を変えないため、処理順・係数は従来のまま
+ */
+async function buildProductLayers(args: {
+  canvas: number;
+  foregroundRaw: Buffer;
+  backgroundTuned: Buffer;
+  placement: PlacementInput;
+  light: LightDirection;
+  productCategory: ProductCategory;
+  productSize: ProductSize;
+  groundingType: GroundingType;
+  bgScene: BgScene;
+  activePhotoMode: ProductPhotoMode;
+  lightMatch: LightMatchPlan | null;
+}) {
+  const {
+    canvas: CANVAS,
+    foregroundRaw,
+    backgroundTuned,
+    placement,
+    productCategory,
+    productSize,
+    groundingType,
+    bgScene,
+    activePhotoMode,
+    lightMatch,
+  } = args;
+
+  /**
+   * 光・遠近合わせがオンなら、影の向きも合わせ込みで決めた光にする
+   * （明示された向きがあればそれ、無ければ背景の推定）
+   */
+  const light = lightMatch ? lightMatch.light : args.light;
+
+  /**
+   * 重要
+   * - preview 側は trimmed 後の見た目サイズを基準にしている
+   * - server 側も同じ基準にそろえる
+   * - 先に trim 後メタデータを取り、その trimmed 幅高を基準に targetWidth を計算する
+   */
+  const trimmedMeta = await sharp(foregroundRaw, { failOn: "none" })
+    .ensureAlpha()
+    .trim()
+    .metadata();
+
+  const trimmedIw = Math.max(1, trimmedMeta.width || 1024);
+  const trimmedIh = Math.max(1, trimmedMeta.height || 1024);
+
+  const baseScale = Math.min(CANVAS / trimmedIw, CANVAS / trimmedIh);
+  const finalScale = baseScale * placement.scale;
+
+  /**
+   * 実際に resize に渡す幅
+   * - trim 後の見た目幅を基準にする
+   * - preview と server の基準を一致させる
+   */
+  const productTargetWidth = Math.max(1, Math.round(trimmedIw * finalScale));
+
+  /**
+   * 互換維持用
+   * - quality / meta でまだ使っているため残す
+   */
+  const effectiveProductWidthRatio = clamp(productTargetWidth / CANVAS, 0.18, 0.82);
+
+  let foregroundTuned = await tuneForeground(
+    foregroundRaw,
+    productTargetWidth,
+    productSize,
+    activePhotoMode
+  );
+
+  const colorMatched = await applyWeakColorTemperatureMatch(foregroundTuned, backgroundTuned);
+  foregroundTuned = colorMatched.buffer;
+
+  if (lightMatch) {
+    foregroundTuned = await applyLightMatchTone(foregroundTuned, lightMatch);
+  }
+
+  const fgMeta = await sharp(foregroundTuned).metadata();
+  const fgWidth = fgMeta.width || productTargetWidth;
+  const fgHeight = fgMeta.height || productTargetWidth;
+
+  const rect = resolvePlacementRect({
+    canvas: CANVAS,
+    fgWidth,
+    fgHeight,
+    placement,
+    groundingType,
+    productCategory,
+    productSize,
+    bgScene,
+  });
+
+  /**
+   * 光・遠近合わせがオフなら従来の（空の）depth overlay のまま
+   */
+  const foregroundWithDepth = lightMatch
+    ? await sharp(foregroundTuned)
+        .composite([
+          {
+            input: Buffer.from(makeLightMatchOverlaySvg(fgWidth, fgHeight, lightMatch.light, lightMatch.rim)),
+            top: 0,
+            left: 0,
+            blend: "atop",
+          },
+        ])
+        .png()
+        .toBuffer()
+    : await sharp(foregroundTuned)
+        .composite([{ input: await makeDepthOverlay(fgWidth, fgHeight), top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+
+  const perspective = lightMatch ? resolvePerspective(rect.contactY, CANVAS, lightMatch.floorLine) : 1;
+
+  /**
+   * 影の種類
+   * - drop（既定）は従来の楕円影のまま
+   * - それ以外は商品のアルファから影 / 映り込みを作る
+   * - 光・遠近合わせがオンなら、投影影は奥行きに合わせて伸ばす
+   *   光の向きは投影影の光ボタンの選択を優先し、無ければ合わせ込みの光
+   */
+  const shadowStyle =
+    lightMatch && placement.shadowStyle
+      ? {
+          ...placement.shadowStyle,
+          cast: {
+            ...placement.shadowStyle.cast,
+            light: placement.shadowStyle.cast.light ?? lightMatch.light,
+            length: clamp(placement.shadowStyle.cast.length * perspective, 0.1, 1.5),
+          },
+        }
+      : placement.shadowStyle;
+  const groundShadow =
+    !shadowStyle || shadowStyle.type === "drop"
+      ? await makeGroundShadow(
+          CANVAS,
+          fgWidth * (groundingType === "shelf" || groundingType === "display" ? 0.72 : 0.82),
+          rect.centerX,
+          rect.contactY,
+          light,
+          groundingType,
+          placement.shadow,
+          activePhotoMode,
+          perspective
+        )
+      : await makeStyledShadowLayer({
+          canvasSize: CANVAS,
+          foregroundBuffer: foregroundWithDepth,
+          fgWidth,
+          fgHeight,
+          rect,
+          style: shadowStyle,
+          light,
+          groundingType,
+        });
+
+  /**
+   * 商品が1024pxキャンバスより大きい場合でも
+   * sharp の composite エラーを出さないため、
+   * 一度1024x1024の透明レイヤーに商品を配置する
+   */
+  const productLayer = await makePlacedProductLayer({
+    canvasSize: CANVAS,
+    foregroundBuffer: foregroundWithDepth,
+    left: rect.left,
+    top: rect.top,
+  });
+
+  return {
+    groundShadow,
+    productLayer,
+    rect,
+    fgWidth,
+    fgHeight,
+    effectiveProductWidthRatio,
+    warmthShift: colorMatched.warmthShift,
+    perspective,
+  };
+}
+
+function toPlacementMeta(
+  rect: ReturnType<typeof resolvePlacementRect>,
+  fgWidth: number,
+  fgHeight: number
+) {
+  return {
+    left: rect.left,
+    top: rect.top,
+    width: fgWidth,
+    height: fgHeight,
+    centerX: rect.centerX,
+    centerY: rect.centerY,
+    contactY: rect.contactY,
+    bottomMarginBase: rect.bottomMarginBase,
+    usedDefaultLeft: rect.usedDefaultLeft,
+    usedDefaultTop: rect.usedDefaultTop,
+  };
+}
+
 export async function POST(req: Request) {
   try {
     const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
@@ -884,6 +1679,7 @@ export async function POST(req: Request) {
     const activePhotoMode = normalizePhotoMode(body.activePhotoMode);
 
     const placement = normalizePlacement(body.placement);
+    const stageProducts = normalizeStageProducts(body.products);
 
     const CANVAS = 1024;
 
@@ -900,115 +1696,96 @@ export async function POST(req: Request) {
     );
 
     /**
-     * 🔥 フロントと完全一致させる
-     *
-     * 重要
-     * - 以前の effectiveProductWidthRatio ベース計算を消した結果、
-     *   下の quality/meta 参照だけ残って TS エラーになっていた
-     * - ここでは preview と同じく「元画像サイズ × scale」の思想を優先しつつ、
-     *   既存の meta / quality 互換のために ratio も再計算して残す
+     * 背景の光・床の線の推定
+     * - オフでも推定値は返す（ProductPlacementEditor で見比べてから上書きできるように）
      */
-/**
- * 重要
- * - preview 側は trimmed 後の見た目サイズを基準にしている
- * - server 側も同じ基準にそろえる
- * - 先に trim 後メタデータを取り、その trimmed 幅高を基準に targetWidth を計算する
- */
-const trimmedMeta = await sharp(foregroundRaw, { failOn: "none" })
-  .ensureAlpha()
-  .trim()
-  .metadata();
-
-const trimmedIw = Math.max(1, trimmedMeta.width || 1024);
-const trimmedIh = Math.max(1, trimmedMeta.height || 1024);
-
-const baseScale = Math.min(CANVAS / trimmedIw, CANVAS / trimmedIh);
-const finalScale = baseScale * placement.scale;
-
-/**
- * 実際に resize に渡す幅
- * - trim 後の見た目幅を基準にする
- * - preview と server の基準を一致させる
- */
-const productTargetWidth = Math.max(1, Math.round(trimmedIw * finalScale));
-
-/**
- * 互換維持用
- * - quality / meta でまだ使っているため残す
- */
-const effectiveProductWidthRatio = clamp(
-  productTargetWidth / CANVAS,
-  0.18,
-  0.82
-);
-
-let foregroundTuned = await tuneForeground(
-  foregroundRaw,
-  productTargetWidth,
-  productSize,
-  activePhotoMode
-);
-
-
-    const colorMatched = await applyWeakColorTemperatureMatch(foregroundTuned, backgroundTuned);
-    foregroundTuned = colorMatched.buffer;
-
-    const fgMeta = await sharp(foregroundTuned).metadata();
-    const fgWidth = fgMeta.width || productTargetWidth;
-    const fgHeight = fgMeta.height || productTargetWidth;
-
-    const rect = resolvePlacementRect({
+    const lightInput = placement.lightMatch ?? normalizeLightMatch(undefined);
+    const explicitLight: ExplicitLight = {
+      castLight: explicitCastLight(placement.shadowStyle),
+      requestLight: normalizeOptionalLight(body.light),
+    };
+    const lightEstimate = await estimateStageLight(backgroundTuned);
+    const lightPlan = resolveLightMatchPlan(lightInput, explicitLight, lightEstimate);
+
+    const layerArgs = {
       canvas: CANVAS,
-      fgWidth,
-      fgHeight,
-      placement,
-      groundingType,
+      backgroundTuned,
+      light,
+      lightMatch: lightInput.enabled ? lightPlan : null,
       productCategory,
       productSize,
+      groundingType,
       bgScene,
+      activePhotoMode,
+    };
+
+    const main = await buildProductLayers({
+      ...layerArgs,
+      foregroundRaw,
+      placement,
     });
 
+    /**
+     * セット商品
+     * - 追加商品も1つずつ同じ処理で影 + 商品レイヤーを作る
+     * - メモリを抑えるため取得・加工は1つずつ順番に行う
+     */
+    const stageLayers: Array<
+      StageProductInput & { layers: Awaited<ReturnType<typeof buildProductLayers>> }
+    > = [];
+
+    for (const product of stageProducts) {
+      const productRaw = await fetchImageBuffer(product.foregroundUrl);
+      stageLayers.push({
+        ...product,
+        layers: await buildProductLayers({
+          ...layerArgs,
+          foregroundRaw: productRaw,
+          placement: product.placement,
+        }),
+      });
+    }
+
+    /**
+     * 重ね順
+     * - 影は全商品ぶんを先に地面へ置き、その上に商品を z 順で重ねる
+     * - 同じ z 順ならメイン商品が奥
+     * - 追加商品が無いときは従来の単品合成と同じレイヤー構成になる
+     */
+    const ordered = [{ zIndex: 0, layers: main }, ...stageLayers].sort(
+      (a, b) => a.zIndex - b.zIndex
+    );
+
+    const { rect, fgWidth, fgHeight, effectiveProductWidthRatio } = main;
     const left = rect.left;
     const top = rect.top;
 
-    const depthOverlay = await makeDepthOverlay(fgWidth, fgHeight);
-    const foregroundWithDepth = await sharp(foregroundTuned)
-      .composite([{ input: depthOverlay, top: 0, left: 0 }])
-      .png()
-      .toBuffer();
+    const lightWarnings: string[] = [];
+    if (
+      lightInput.enabled &&
+      (groundingType === "floor" || groundingType === "table") &&
+      rect.contactY / CANVAS < lightPlan.floorLine - 0.02
+    ) {
+      lightWarnings.push("接地点が床の線より上にあります（浮いて見えやすい）");
+    }
 
-    const groundShadow = await makeGroundShadow(
-      CANVAS,
-      fgWidth * (groundingType === "shelf" || groundingType === "display" ? 0.72 : 0.82),
-      rect.centerX,
-      rect.contactY,
-      light,
-      groundingType,
-      placement.shadow,
-      activePhotoMode
-    );
+    const lightMatch: StageLightMatchResult = {
+      enabled: lightInput.enabled,
+      estimate: lightEstimate,
+      applied: { ...lightPlan, perspective: main.perspective },
+      overridden: lightMatchOverridden(lightInput, explicitLight),
+      ...(lightWarnings.length > 0 ? { warnings: lightWarnings } : {}),
+    };
 
     const contactShadow = await makeEmptyLayer(CANVAS);
     const ambientGroundBand = await makeEmptyLayer(CANVAS);
 
-    /**
-     * 商品が1024pxキャンバスより大きい場合でも
-     * sharp の composite エラーを出さないため、
-     * 一度1024x1024の透明レイヤーに商品を配置する
-     */
-    const productLayer = await makePlacedProductLayer({
-      canvasSize: CANVAS,
-      foregroundBuffer: foregroundWithDepth,
-      left,
-      top,
-    });
-
     const composed = await sharp(backgroundTuned)
       .composite([
         { input: ambientGroundBand, top: 0, left: 0 },
-        { input: groundShadow, top: 0, left: 0 },
+        ...ordered.map((item) => ({ input: item.layers.groundShadow, top: 0, left: 0 })),
         { input: contactShadow, top: 0, left: 0 },
-        { input: productLayer, top: 0, left: 0 },
+        ...ordered.map((item) => ({ input: item.layers.productLayer, top: 0, left: 0 })),
       ])
       .png()
       .toBuffer();
@@ -1069,22 +1846,34 @@ let foregroundTuned = await tuneForeground(
         bgScene,
         activePhotoMode,
         colorTemperature: {
-          warmthShift: colorMatched.warmthShift,
+          warmthShift: main.warmthShift,
         },
+        lightMatch,
         placementInput: placement,
-        placement: {
-          left,
-          top,
-          width: fgWidth,
-          height: fgHeight,
-          centerX: rect.centerX,
-          centerY: rect.centerY,
-          contactY: rect.contactY,
-          bottomMarginBase: rect.bottomMarginBase,
-          usedDefaultLeft: rect.usedDefaultLeft,
-          usedDefaultTop: rect.usedDefaultTop,
-        },
+        placement: toPlacementMeta(rect, fgWidth, fgHeight),
         quality,
+
+        /**
+         * セット商品の配置結果（追加商品がある時だけ）
+         */
+        products:
+          stageLayers.length > 0
+            ? stageLayers.map((item) => ({
+                id: item.id,
+                zIndex: item.zIndex,
+                placementInput: item.placement,
+                placement: toPlacementMeta(item.layers.rect, item.layers.fgWidth, item.layers.fgHeight),
+                quality: evaluateCompositeQuality({
+                  productWidthRatio: item.layers.effectiveProductWidthRatio,
+                  left: item.layers.rect.left,
+                  top: item.layers.rect.top,
+                  fgWidth: item.layers.fgWidth,
+                  fgHeight: item.layers.fgHeight,
+                  canvas: CANVAS,
+                  groundingType,
+                }),
+              }))
+            : undefined,
       },
     });
   } catch (e: unknown) {
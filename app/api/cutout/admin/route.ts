@@ -1,6 +1,8 @@
 // /app/api/cutout/admin/route.ts
 import { NextResponse } from "next/server";
+import { AggregateField } from "firebase-admin/firestore";
 import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { getCutoutProviderStatus } from "@/lib/server/cutoutProviders";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -12,6 +14,9 @@ type CutoutUsageDoc = {
   quality?: unknown;
   month?: unknown;
   uid?: unknown;
+  costYen?: unknown;
+  cacheHit?: unknown;
+  savedCostYen?: unknown;
   createdAt?: { toDate?: () => Date };
 };
 
@@ -51,11 +56,28 @@ export async function GET(req: Request) {
         engine: String(data.engine || "unknown"),
         quality: asNumber(quality.score),
         elapsed: asNumber(data.elapsed),
+        costYen: asNumber(data.costYen),
+        cacheHit: data.cacheHit === true,
         month: String(data.month || month),
         createdAt: data.createdAt?.toDate?.()?.toISOString?.() || "",
       };
     });
 
+    // キャッシュ効果は直近50件ではなく月全体で集計する
+    const monthQuery = db.collection("cutoutUsage").where("uid", "==", user.uid).where("month", "==", month);
+    const [spentSnap, cacheSnap] = await Promise.all([
+      monthQuery.aggregate({ spentCostYen: AggregateField.sum("costYen") }).get(),
+      monthQuery
+        .where("cacheHit", "==", true)
+        .aggregate({ cacheHits: AggregateField.count(), savedCostYen: AggregateField.sum("savedCostYen") })
+        .get(),
+    ]);
+    const cache = {
+      hits: asNumber(cacheSnap.data().cacheHits),
+      savedCostYen: asNumber(cacheSnap.data().savedCostYen),
+      spentCostYen: asNumber(spentSnap.data().spentCostYen),
+    };
+
     const averageQuality =
       events.length > 0 ? Math.round(events.reduce((sum, event) => sum + event.quality, 0) / events.length) : 0;
     const averageElapsed =
@@ -74,7 +96,9 @@ export async function GET(req: Request) {
         averageElapsed,
         totalEvents: events.length,
       },
+      cache,
       events,
+      providers: getCutoutProviderStatus(),
     });
   } catch (error) {
     console.error("[CUTOUT_ADMIN_ERROR]", error);
@@ -0,0 +1,319 @@
+// /app/api/cutout/batch/route.ts
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { normalizeInputForCutout, type QualityReport } from "@/lib/server/cutoutQuality";
+import { getCutoutProviderSetting, runCutoutProviders } from "@/lib/server/cutoutProviders";
+import { logCutoutResult, monthKey, reserveCutoutUsage } from "@/lib/server/cutoutUsage";
+import { hashCutoutInput, isCutoutCacheEnabled, readCutoutCache, writeCutoutCache } from "@/lib/server/cutoutCache";
+import { saveImageToStorage } from "@/lib/storage/saveImage";
+import type { DraftImage, DraftImageCutout, DraftImages } from "@/lib/types/draft";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 一括切り抜きAPI
+ *
+ * 入力
+ * - { draftId, includePrimary? } : 下書きの images.materials（+ primary）をまとめて切り抜く
+ * - { imageUrls: string[] }       : URLを直接指定して切り抜く（下書きへは書き戻さない）
+ *
+ * ✅ 同時実行数は concurrency（既定 CUTOUT_BATCH_CONCURRENCY=2、最大4）で制限
+ * ✅ 1枚ごとに利用枠を確保し cutoutUsage へ記録（/api/cutout と同じ集計）
+ * ✅ /api/cutout と同じ切り抜きキャッシュを使う（cache:false で無効化）
+ * ✅ draftId 指定時は DraftImage.cutout に結果を書き戻す（元の url は残す）
+ */
+
+type BatchBody = {
+  draftId?: unknown;
+  imageUrls?: unknown;
+  includePrimary?: unknown;
+  concurrency?: unknown;
+  cache?: unknown;
+};
+
+type BatchTarget = {
+  index: number;
+  slot: "primary" | "material" | "url";
+  imageId: string | null;
+  sourceUrl: string;
+};
+
+type BatchItemResult = {
+  index: number;
+  slot: BatchTarget["slot"];
+  imageId: string | null;
+  sourceUrl: string;
+  ok: boolean;
+  url?: string;
+  provider?: string;
+  engine?: string;
+  quality?: QualityReport;
+  elapsed: number;
+  cacheHit?: boolean;
+  error?: string;
+};
+
+const MAX_IMAGES = numberEnv("CUTOUT_BATCH_MAX_IMAGES", 20);
+const DEFAULT_CONCURRENCY = numberEnv("CUTOUT_BATCH_CONCURRENCY", 2);
+const MAX_CONCURRENCY = 4;
+
+function numberEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizeConcurrency(value: unknown) {
+  const n = Math.floor(Number(value ?? DEFAULT_CONCURRENCY));
+  if (!Number.isFinite(n)) return 1;
+  return Math.max(1, Math.min(MAX_CONCURRENCY, n));
+}
+
+async function readRemoteImage(imageUrl: string) {
+  const res = await fetch(imageUrl, { method: "GET", cache: "no-store" });
+  if (!res.ok) throw new Error(`画像URLの取得に失敗しました (${res.status})`);
+  const raw = Buffer.from(await res.arrayBuffer());
+  if (!raw.length) throw new Error("画像URLから空データが返りました");
+  return raw;
+}
+
+/** 入力順を保ったまま、同時 limit 件までで処理する */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let cursor = 0;
+
+  async function worker() {
+    while (cursor < items.length) {
+      const index = cursor;
+      cursor += 1;
+      results[index] = await fn(items[index]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => worker()));
+  return results;
+}
+
+/** 下書きの画像1件か（旧データの materials には URL 文字列も混ざる） */
+function isDraftImage(value: unknown): value is DraftImage {
+  return !!value && typeof value === "object" && typeof (value as DraftImage).url === "string";
+}
+
+function targetsFromDraft(images: unknown, includePrimary: boolean): BatchTarget[] {
+  const targets: BatchTarget[] = [];
+  const draftImages: Partial<Record<keyof DraftImages, unknown>> =
+    images && typeof images === "object" ? images : {};
+
+  const primary = draftImages.primary;
+  if (includePrimary && isDraftImage(primary) && asTrimmedString(primary.url)) {
+    targets.push({
+      index: targets.length,
+      slot: "primary",
+      imageId: asTrimmedString(primary.id) || null,
+      sourceUrl: asTrimmedString(primary.url),
+    });
+  }
+
+  const materials: unknown[] = Array.isArray(draftImages.materials) ? draftImages.materials : [];
+  for (const item of materials) {
+    const url = typeof item === "string" ? item.trim() : isDraftImage(item) ? asTrimmedString(item.url) : "";
+    if (!url) continue;
+    targets.push({
+      index: targets.length,
+      slot: "material",
+      imageId: isDraftImage(item) ? asTrimmedString(item.id) || null : null,
+      sourceUrl: url,
+    });
+  }
+
+  return targets;
+}
+
+function applyCutout(image: DraftImage, results: Map<string, DraftImageCutout>): DraftImage {
+  const cutout = results.get(asTrimmedString(image?.url));
+  return cutout ? { ...image, cutout } : image;
+}
+
+export async function POST(req: Request) {
+  const started = Date.now();
+
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = ((await req.json().catch(() => ({}))) || {}) as BatchBody;
+    const draftId = asTrimmedString(body.draftId);
+    const db = getAdminDb();
+
+    let targets: BatchTarget[] = [];
+
+    if (draftId) {
+      const snap = await db.collection("drafts").doc(draftId).get();
+      if (!snap.exists) {
+        return NextResponse.json({ ok: false, error: "draft not found" }, { status: 404 });
+      }
+      const data = snap.data() || {};
+      if (String(data.userId) !== user.uid) {
+        return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+      }
+      targets = targetsFromDraft(data.images, body.includePrimary === true);
+    } else if (Array.isArray(body.imageUrls)) {
+      targets = body.imageUrls
+        .map(asTrimmedString)
+        .filter(Boolean)
+        .map((sourceUrl, index) => ({ index, slot: "url" as const, imageId: null, sourceUrl }));
+    }
+
+    if (targets.length === 0) {
+      return NextResponse.json({ ok: false, error: "切り抜く画像がありません" }, { status: 400 });
+    }
+    if (targets.length > MAX_IMAGES) {
+      return NextResponse.json(
+        { ok: false, error: `一度に切り抜けるのは ${MAX_IMAGES} 枚までです (${targets.length})` },
+        { status: 400 }
+      );
+    }
+
+    const batchId = crypto.randomUUID();
+    const path = new URL(req.url).pathname;
+    const setting = getCutoutProviderSetting();
+    const folder = draftId ? `drafts/${draftId}` : "cutouts";
+    const usageUser = { uid: user.uid, email: user.email };
+    const useCache = isCutoutCacheEnabled() && body.cache !== false;
+
+    const results = await mapWithConcurrency(targets, normalizeConcurrency(body.concurrency), async (target) => {
+      const itemStarted = Date.now();
+      const base = {
+        index: target.index,
+        slot: target.slot,
+        imageId: target.imageId,
+        sourceUrl: target.sourceUrl,
+      };
+
+      try {
+        const raw = await readRemoteImage(target.sourceUrl);
+        const cacheKey = hashCutoutInput(raw, setting);
+        const cached = useCache ? await readCutoutCache(cacheKey) : null;
+
+        let result;
+        if (cached) {
+          result = cached.result;
+          result.elapsed = Date.now() - itemStarted;
+          await logCutoutResult(path, result, { uid: user.uid, month: monthKey() }, {
+            batchId,
+            draftId: draftId || null,
+            cacheHit: true,
+            cacheKey,
+            savedCostYen: cached.entry.costYen,
+          });
+        } else {
+          const usage = await reserveCutoutUsage(usageUser);
+          if (!usage.allowed) throw new Error("月間利用枚数の上限に達しました");
+
+          const normalizedInput = await normalizeInputForCutout(raw);
+          result = await runCutoutProviders(setting, normalizedInput, `batch_${target.index}`);
+          result.elapsed = Date.now() - itemStarted;
+          await logCutoutResult(path, result, usage, { batchId, draftId: draftId || null, cacheHit: false, cacheKey });
+          if (useCache) await writeCutoutCache(cacheKey, result);
+        }
+
+        const saved = await saveImageToStorage(result.buffer, {
+          uid: user.uid,
+          folder,
+          contentType: "image/png",
+          suffix: "cutout",
+        });
+
+        return {
+          ...base,
+          ok: true,
+          url: saved.url,
+          provider: result.provider,
+          engine: result.engine,
+          quality: result.quality,
+          elapsed: result.elapsed,
+          cacheHit: !!cached,
+        } satisfies BatchItemResult;
+      } catch (error) {
+        return { ...base, ok: false, elapsed: Date.now() - itemStarted, error: safeError(error) } satisfies BatchItemResult;
+      }
+    });
+
+    if (draftId) {
+      const now = Date.now();
+      const bySourceUrl = new Map<string, DraftImageCutout>();
+      for (const item of results) {
+        if (!item.ok || !item.url) continue;
+        bySourceUrl.set(item.sourceUrl, {
+          url: item.url,
+          provider: item.provider || "",
+          engine: item.engine || "",
+          quality: item.quality?.score ?? 0,
+          elapsed: item.elapsed,
+          at: now,
+        });
+      }
+
+      // 切り抜き中に下書きが編集されている可能性があるので、最新の images に対して url 一致で書き戻す
+      if (bySourceUrl.size > 0) {
+        const ref = db.collection("drafts").doc(draftId);
+        await db.runTransaction(async (tx) => {
+          const snap = await tx.get(ref);
+          const images = snap.data()?.images;
+          if (!images || typeof images !== "object") return;
+
+          const materials = Array.isArray(images.materials) ? images.materials : [];
+          tx.set(
+            ref,
+            {
+              images: {
+                ...images,
+                primary: images.primary ? applyCutout(images.primary, bySourceUrl) : null,
+                materials: materials.map((item: DraftImage) =>
+                  item && typeof item === "object" ? applyCutout(item, bySourceUrl) : item
+                ),
+              },
+              updatedAt: FieldValue.serverTimestamp(),
+            },
+            { merge: true }
+          );
+        });
+      }
+    }
+
+    const succeeded = results.filter((item) => item.ok).length;
+
+    return NextResponse.json(
+      {
+        ok: true,
+        batchId,
+        draftId: draftId || null,
+        results,
+        summary: {
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded,
+          elapsed: Date.now() - started,
+        },
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("[cutout/batch] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) || "一括切り抜きに失敗しました" }, { status: 500 });
+  }
+}
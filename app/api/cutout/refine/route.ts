@@ -0,0 +1,254 @@
+// /app/api/cutout/refine/route.ts
+import { NextResponse } from "next/server";
+import sharp from "sharp";
+import { scoreCutout, type QualityReport } from "@/lib/server/cutoutQuality";
+import { resolveCutoutUsageUser } from "@/lib/server/cutoutUsage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 切り抜きの手修正API（ブラシで追加 / 消去）
+ *
+ * 入力（multipart または JSON）
+ * - original / originalUrl : 切り抜き前の元画像
+ * - cutout / cutoutUrl     : いまの切り抜きPNG
+ * - mask / maskUrl         : ユーザーが塗ったストローク
+ *     不透明で明るい色（白など）= 追加、不透明で暗い色（黒など）= 消去、透明 = そのまま
+ * - feather                : ストローク境界のぼかし幅(px)。既定 2、最大 24
+ *
+ * URL 欄には data:image/...;base64 も渡せます（キャンバスの toDataURL をそのまま送れる）。
+ * 返り値は /api/cutout と同じ（PNG + X-Cutout-Quality、または Accept: application/json で JSON）。
+ */
+
+type RefineInput = {
+  original: Buffer;
+  cutout: Buffer;
+  mask: Buffer;
+  feather: number;
+};
+
+const DEFAULT_FEATHER = 2;
+const MAX_FEATHER = 24;
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function wantsJson(req: Request) {
+  const url = new URL(req.url);
+  if (url.searchParams.get("format") === "json") return true;
+  return (req.headers.get("accept") || "").toLowerCase().includes("application/json");
+}
+
+function normalizeFeather(value: unknown) {
+  const n = Number(value ?? DEFAULT_FEATHER);
+  if (!Number.isFinite(n)) return DEFAULT_FEATHER;
+  return Math.max(0, Math.min(MAX_FEATHER, n));
+}
+
+async function readImageUrl(value: string, label: string): Promise<Buffer> {
+  const m = value.match(/^data:image\/[\w.+-]+;base64,(.+)$/);
+  if (m) return Buffer.from(m[1], "base64");
+
+  const res = await fetch(value, { method: "GET", cache: "no-store" });
+  if (!res.ok) throw new Error(`${label}の取得に失敗しました (${res.status})`);
+  const raw = Buffer.from(await res.arrayBuffer());
+  if (!raw.length) throw new Error(`${label}が空です`);
+  return raw;
+}
+
+async function readFormImage(form: FormData, fileKey: string, urlKey: string, label: string): Promise<Buffer> {
+  const file = form.get(fileKey);
+  if (file instanceof File) {
+    const raw = Buffer.from(await file.arrayBuffer());
+    if (raw.length) return raw;
+  }
+  const url = String(form.get(urlKey) || "").trim();
+  if (!url) throw new Error(`${label}がありません`);
+  return await readImageUrl(url, label);
+}
+
+async function readRefineInput(req: Request): Promise<RefineInput> {
+  const contentType = String(req.headers.get("content-type") || "").toLowerCase();
+
+  if (contentType.includes("application/json")) {
+    const json = await req.json().catch(() => null);
+    const originalUrl = String(json?.originalUrl || "").trim();
+    const cutoutUrl = String(json?.cutoutUrl || "").trim();
+    const maskUrl = String(json?.maskUrl || json?.mask || "").trim();
+    if (!originalUrl) throw new Error("元画像がありません");
+    if (!cutoutUrl) throw new Error("切り抜き画像がありません");
+    if (!maskUrl) throw new Error("修正マスクがありません");
+
+    const [original, cutout, mask] = await Promise.all([
+      readImageUrl(originalUrl, "元画像"),
+      readImageUrl(cutoutUrl, "切り抜き画像"),
+      readImageUrl(maskUrl, "修正マスク"),
+    ]);
+    return { original, cutout, mask, feather: normalizeFeather(json?.feather) };
+  }
+
+  const form = await req.formData();
+  const [original, cutout, mask] = await Promise.all([
+    readFormImage(form, "original", "originalUrl", "元画像"),
+    readFormImage(form, "cutout", "cutoutUrl", "切り抜き画像"),
+    readFormImage(form, "mask", "maskUrl", "修正マスク"),
+  ]);
+  return { original, cutout, mask, feather: normalizeFeather(form.get("feather")) };
+}
+
+/** 3枚とも画像として読めるか（読めない入力は 400 にする） */
+async function assertReadableImages(input: RefineInput) {
+  const entries: Array<[Buffer, string]> = [
+    [input.original, "元画像"],
+    [input.cutout, "切り抜き画像"],
+    [input.mask, "修正マスク"],
+  ];
+  for (const [buffer, label] of entries) {
+    const meta = await sharp(buffer, { failOn: "none" })
+      .metadata()
+      .catch(() => null);
+    if (!meta?.width || !meta?.height) throw new Error(`${label}を画像として読み込めません`);
+  }
+}
+
+/** 1ch マスクをぼかして境界を柔らかくする（feather=0 はそのまま） */
+async function featherMask(mask: Buffer, width: number, height: number, feather: number) {
+  if (feather <= 0) return mask;
+  return await sharp(mask, { raw: { width, height, channels: 1 } })
+    .blur(Math.max(0.3, feather / 2))
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * アルファを作り直す
+ * - 追加ストローク: 元画像の色で不透明に戻す（切り抜きで欠けた持ち手などを復元）
+ * - 消去ストローク: 透明にする（ハロー・背景残りを削る）
+ * - 両方塗られた場所は消去を優先
+ */
+async function rebuildCutout(input: RefineInput) {
+  const cutoutImage = sharp(input.cutout, { failOn: "none" }).toColourspace("srgb").ensureAlpha();
+  const meta = await cutoutImage.metadata();
+  const width = meta.width || 0;
+  const height = meta.height || 0;
+  if (!width || !height) throw new Error("切り抜き画像のサイズを取得できません");
+
+  const [cutoutRaw, originalRgb, maskRaw] = await Promise.all([
+    cutoutImage.raw().toBuffer(),
+    sharp(input.original, { failOn: "none" })
+      .rotate()
+      .resize(width, height, { fit: "fill" })
+      .toColourspace("srgb")
+      .removeAlpha()
+      .raw()
+      .toBuffer(),
+    sharp(input.mask, { failOn: "none" })
+      .resize(width, height, { fit: "fill" })
+      .toColourspace("srgb")
+      .ensureAlpha()
+      .raw()
+      .toBuffer(),
+  ]);
+
+  const total = width * height;
+  const addRaw = Buffer.alloc(total);
+  const eraseRaw = Buffer.alloc(total);
+  for (let i = 0; i < total; i += 1) {
+    const a = maskRaw[i * 4 + 3];
+    if (a === 0) continue;
+    const lum = (maskRaw[i * 4] * 299 + maskRaw[i * 4 + 1] * 587 + maskRaw[i * 4 + 2] * 114) / 1000;
+    if (lum >= 128) addRaw[i] = a;
+    else eraseRaw[i] = a;
+  }
+
+  const [add, erase] = await Promise.all([
+    featherMask(addRaw, width, height, input.feather),
+    featherMask(eraseRaw, width, height, input.feather),
+  ]);
+
+  const out = Buffer.alloc(total * 4);
+  for (let i = 0; i < total; i += 1) {
+    const addWeight = add[i] / 255;
+    const eraseWeight = erase[i] / 255;
+    const baseAlpha = cutoutRaw[i * 4 + 3];
+
+    for (let c = 0; c < 3; c += 1) {
+      out[i * 4 + c] = Math.round(cutoutRaw[i * 4 + c] * (1 - addWeight) + originalRgb[i * 3 + c] * addWeight);
+    }
+
+    const added = baseAlpha + (255 - baseAlpha) * addWeight;
+    out[i * 4 + 3] = Math.max(0, Math.min(255, Math.round(added * (1 - eraseWeight))));
+  }
+
+  return await sharp(out, { raw: { width, height, channels: 4 } })
+    .png({ compressionLevel: 9, adaptiveFiltering: true })
+    .toBuffer();
+}
+
+function jsonPayload(buffer: Buffer, quality: QualityReport, previousQuality: QualityReport, elapsed: number) {
+  return {
+    engine: "manual-refine",
+    provider: "manual",
+    quality: quality.score,
+    qualityDetail: quality,
+    previousQuality: previousQuality.score,
+    previousQualityDetail: previousQuality,
+    elapsed,
+    image: `data:image/png;base64,${buffer.toString("base64")}`,
+  };
+}
+
+export async function POST(req: Request) {
+  const started = Date.now();
+
+  // CUTOUT_USAGE_ENFORCE_AUTH=true で未ログイン・トークン不正の時
+  try {
+    await resolveCutoutUsageUser(req);
+  } catch (error) {
+    return NextResponse.json({ error: safeError(error) || "ログインが必要です" }, { status: 401 });
+  }
+
+  try {
+    let input: RefineInput;
+    try {
+      input = await readRefineInput(req);
+      await assertReadableImages(input);
+    } catch (error) {
+      return NextResponse.json({ error: safeError(error) || "入力画像がありません" }, { status: 400 });
+    }
+
+    const buffer = await rebuildCutout(input);
+    const [quality, previousQuality] = await Promise.all([
+      scoreCutout(input.original, buffer),
+      scoreCutout(input.original, input.cutout),
+    ]);
+    const elapsed = Date.now() - started;
+
+    if (wantsJson(req)) {
+      return NextResponse.json(jsonPayload(buffer, quality, previousQuality, elapsed), {
+        headers: { "Cache-Control": "no-store" },
+      });
+    }
+
+    return new Response(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "no-store",
+        "X-Cutout-Verified": "true",
+        "X-Cutout-Engine": "manual-refine",
+        "X-Cutout-Provider": "manual",
+        "X-Cutout-Quality": String(quality.score),
+        "X-Cutout-Previous-Quality": String(previousQuality.score),
+        "X-Cutout-Elapsed": String(elapsed),
+        "X-Cutout-Meta": JSON.stringify({ quality, previousQuality, elapsed }),
+      },
+    });
+  } catch (error) {
+    console.error("[cutout/refine] fatal:", error);
+    return NextResponse.json({ error: safeError(error) || "手修正に失敗しました" }, { status: 500 });
+  }
+}
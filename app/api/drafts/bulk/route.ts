@@ -0,0 +1,340 @@
+// /app/api/drafts/bulk/route.ts
+import { NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import {
+  DRAFT_BULK_HEAVY_MAX,
+  DRAFT_BULK_MAX,
+  isDraftBulkAction,
+  normalizeDraftIds,
+  type DraftBulkResult,
+} from "@/lib/drafts/draftBulk";
+import { isExportTarget, type ExportTarget } from "@/lib/drafts/exportPresets";
+import { buildDraftExport } from "@/lib/server/draftExport";
+import { mergeDraftPatch, recordDraftRevision } from "@/lib/server/draftRevisions";
+import { createZip, type ZipEntry } from "@/lib/server/zip";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import type { Phase } from "@/lib/types/draft";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 下書きの一括操作API
+ *
+ * 入力
+ * - { action: "phase", draftIds, phase }   : 状態をまとめて変える
+ * - { action: "hide", draftIds }           : 一覧からまとめて非表示
+ * - { action: "captions", draftIds }       : 文章をまとめて作り直す
+ * - { action: "export", draftIds, target } : 出品先別 ZIP をまとめて1つの ZIP にする
+ *
+ * ✅ すべての下書きで所有者を確認し、他人の下書きはその1件だけ失敗にする
+ * ✅ 結果は下書きごとに { draftId, ok, error? }（export は ZIP 内の results.json とヘッダー）
+ * ✅ 完全削除は管理者専用のため /api/drafts/delete（draftIds 指定）で行う
+ * ✅ 状態変更 / 非表示も updatedAt を更新し、版履歴に source: "bulk" で残す
+ */
+
+type OwnedDraft = {
+  id: string;
+  ref: FirebaseFirestore.DocumentReference<FirebaseFirestore.DocumentData>;
+  data: Record<string, unknown>;
+};
+
+const MAX_SAVED_CAPTION_SETS = 20;
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function isPhase(value: unknown): value is Phase {
+  return value === "draft" || value === "ready" || value === "posted";
+}
+
+function splitKeywords(text: string) {
+  return String(text || "")
+    .split(/[\n,、]+/g)
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .slice(0, 12);
+}
+
+function toStringList(value: unknown, limit: number) {
+  return Array.isArray(value) ? value.map((v) => String(v ?? "").trim()).filter(Boolean).slice(0, limit) : [];
+}
+
+/** 結果を入力の順に並べ直す */
+function sortByInput(results: DraftBulkResult[], draftIds: string[]) {
+  const order = new Map(draftIds.map((id, index) => [id, index]));
+  return [...results].sort((a, b) => (order.get(a.draftId) ?? 0) - (order.get(b.draftId) ?? 0));
+}
+
+/**
+ * 下書きをまとめて読み、所有者の物だけを返す
+ * - 見つからない / 他人の下書きは results に失敗として積む
+ */
+async function loadOwnedDrafts(draftIds: string[], uid: string, results: DraftBulkResult[]) {
+  const db = getAdminDb();
+  const refs = draftIds.map((id) => db.collection("drafts").doc(id));
+  const snaps = await db.getAll(...refs);
+
+  const owned: OwnedDraft[] = [];
+  snaps.forEach((snap, index) => {
+    const draftId = draftIds[index];
+    if (!snap.exists) {
+      results.push({ draftId, ok: false, error: "draft not found" });
+      return;
+    }
+    const data = (snap.data() || {}) as Record<string, unknown>;
+    if (String(data.userId) !== uid) {
+      results.push({ draftId, ok: false, error: "forbidden" });
+      return;
+    }
+    owned.push({ id: draftId, ref: refs[index], data });
+  });
+
+  return owned;
+}
+
+/**
+ * 1件分の文章生成
+ * - 生成は /api/generate-captions に任せ、結果を下書きへ書き込む
+ * - 生成した文章は画面の文章生成と同じく savedCaptionSets の先頭にも残す（ラベルは「一括生成」）
+ */
+async function regenerateCaptions(req: Request, draft: OwnedDraft, uid: string) {
+  const vision = asTrimmedString(draft.data.vision);
+  if (!vision) throw new Error("Vision が未入力です");
+
+  const brandId = normalizeBrandId(asTrimmedString(draft.data.brand) || asTrimmedString(draft.data.brandId));
+  const keywordsText = String(draft.data.keywordsText ?? draft.data.keywords ?? "");
+
+  const url = new URL("/api/generate-captions", new URL(req.url).origin);
+  const r = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      Authorization: req.headers.get("authorization") || "",
+    },
+    body: JSON.stringify({ brandId, vision, keywords: splitKeywords(keywordsText), tone: "" }),
+  });
+
+  const j = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(j?.error || `caption error (${r.status})`);
+
+  const ig = typeof j.instagram === "string" ? j.instagram : "";
+  const x = typeof j.x === "string" ? j.x : "";
+  const now = Date.now();
+
+  const patch = {
+    ig,
+    x,
+    ig3: toStringList(j.ig3, 3),
+    igCaption: ig,
+    xCaption: x,
+    instagramSales: typeof j.instagramSales === "string" ? j.instagramSales : "",
+    xSales: typeof j.xSales === "string" ? j.xSales : "",
+    ecTitle: typeof j.ecTitle === "string" ? j.ecTitle : "",
+    ecDescription: typeof j.ecDescription === "string" ? j.ecDescription : "",
+    ecBullets: toStringList(j.ecBullets, 5),
+  };
+
+  const savedCaptionSets = [
+    {
+      id: `caption_${now}_${Math.random().toString(16).slice(2)}`,
+      label: `一括生成 ${new Date(now).toLocaleString("ja-JP")}｜${(patch.ecTitle || ig || x || "生成文章").slice(0, 24)}`,
+      createdAt: now,
+      ...patch,
+    },
+    ...(Array.isArray(draft.data.savedCaptionSets) ? draft.data.savedCaptionSets : []),
+  ].slice(0, MAX_SAVED_CAPTION_SETS);
+
+  await draft.ref.set(
+    { ...patch, savedCaptionSets, updatedAt: FieldValue.serverTimestamp() },
+    { merge: true }
+  );
+
+  const saved = await draft.ref.get();
+  await recordDraftRevision(draft.ref, {
+    before: draft.data,
+    after: saved.data() || {},
+    uid,
+    source: "save",
+  });
+}
+
+async function exportDrafts(drafts: OwnedDraft[], target: ExportTarget, results: DraftBulkResult[]) {
+  const entries: ZipEntry[] = [];
+  let folderIndex = 0;
+
+  // 画像処理が重いので1件ずつ
+  for (const draft of drafts) {
+    try {
+      const exported = await buildDraftExport(draft.id, draft.data, target);
+      if (!exported.ok) {
+        results.push({ draftId: draft.id, ok: false, error: exported.error });
+        continue;
+      }
+
+      folderIndex += 1;
+      const folder = `${String(folderIndex).padStart(2, "0")}_${draft.id}`;
+      exported.entries.forEach((entry) => entries.push({ ...entry, name: `${folder}/${entry.name}` }));
+      results.push({ draftId: draft.id, ok: true });
+    } catch (error) {
+      results.push({ draftId: draft.id, ok: false, error: safeError(error) });
+    }
+  }
+
+  return entries;
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as {
+      action?: unknown;
+      draftIds?: unknown;
+      phase?: unknown;
+      target?: unknown;
+    };
+    const action = body.action;
+    const draftIds = normalizeDraftIds(body.draftIds);
+
+    if (!isDraftBulkAction(action)) {
+      return NextResponse.json({ ok: false, error: "action が不正です" }, { status: 400 });
+    }
+    if (draftIds.length === 0) {
+      return NextResponse.json({ ok: false, error: "draftIds がありません" }, { status: 400 });
+    }
+
+    const heavy = action === "captions" || action === "export";
+    const max = heavy ? DRAFT_BULK_HEAVY_MAX : DRAFT_BULK_MAX;
+    if (draftIds.length > max) {
+      return NextResponse.json(
+        { ok: false, error: `一度に操作できるのは ${max} 件までです` },
+        { status: 400 }
+      );
+    }
+    if (action === "phase" && !isPhase(body.phase)) {
+      return NextResponse.json({ ok: false, error: "phase が不正です" }, { status: 400 });
+    }
+    if (action === "export" && !isExportTarget(body.target)) {
+      return NextResponse.json({ ok: false, error: "出品先（target）が不正です" }, { status: 400 });
+    }
+
+    const results: DraftBulkResult[] = [];
+    const owned = await loadOwnedDrafts(draftIds, user.uid, results);
+
+    /* ---------------- */
+    /* 書き出し（ZIP で返す） */
+    /* ---------------- */
+
+    if (action === "export") {
+      const target = body.target as ExportTarget;
+      const entries = await exportDrafts(owned, target, results);
+      const ordered = sortByInput(results, draftIds);
+      const succeeded = ordered.filter((r) => r.ok).length;
+
+      if (succeeded === 0) {
+        return NextResponse.json(
+          { ok: false, error: "書き出せた下書きがありません", results: ordered },
+          { status: 400 }
+        );
+      }
+
+      entries.push({
+        name: "results.json",
+        data: Buffer.from(JSON.stringify({ target, results: ordered }, null, 2), "utf8"),
+      });
+
+      return new Response(new Uint8Array(createZip(entries)), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="aoi_${target}_bulk.zip"`,
+          "Cache-Control": "no-store",
+          "X-Bulk-Succeeded": String(succeeded),
+          "X-Bulk-Failed": String(ordered.length - succeeded),
+        },
+      });
+    }
+
+    /* ---------------- */
+    /* 状態変更 / 非表示 */
+    /* ---------------- */
+
+    if (action === "phase" || action === "hide") {
+      const phase = body.phase as Phase;
+
+      if (owned.length) {
+        const batch = getAdminDb().batch();
+        owned.forEach((draft) => {
+          batch.update(draft.ref, {
+            ...(action === "phase" ? { phase } : { hiddenForUids: FieldValue.arrayUnion(user.uid) }),
+            updatedAt: FieldValue.serverTimestamp(),
+          });
+        });
+
+        let committed = false;
+        try {
+          await batch.commit();
+          committed = true;
+          owned.forEach((draft) =>
+            results.push({ draftId: draft.id, ok: true, ...(action === "phase" ? { phase } : {}) })
+          );
+        } catch (error) {
+          owned.forEach((draft) => results.push({ draftId: draft.id, ok: false, error: safeError(error) }));
+        }
+
+        // 版履歴（失敗しても一括操作は成功扱い。recordDraftRevision は warn のみ）
+        if (committed) {
+          for (const draft of owned) {
+            await recordDraftRevision(draft.ref, {
+              before: draft.data,
+              after: action === "phase" ? mergeDraftPatch(draft.data, { phase }) : draft.data,
+              uid: user.uid,
+              source: "bulk",
+              ...(action === "hide" ? { changedFields: ["hiddenForUids"] } : {}),
+            });
+          }
+        }
+      }
+    }
+
+    /* ---------------- */
+    /* 文章の作り直し */
+    /* ---------------- */
+
+    if (action === "captions") {
+      for (const draft of owned) {
+        try {
+          await regenerateCaptions(req, draft, user.uid);
+          results.push({ draftId: draft.id, ok: true });
+        } catch (error) {
+          results.push({ draftId: draft.id, ok: false, error: safeError(error) });
+        }
+      }
+    }
+
+    const ordered = sortByInput(results, draftIds);
+    const succeeded = ordered.filter((r) => r.ok).length;
+    return NextResponse.json({
+      ok: true,
+      action,
+      results: ordered,
+      succeeded,
+      failed: ordered.length - succeeded,
+    });
+  } catch (error) {
+    console.error("[drafts/bulk] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
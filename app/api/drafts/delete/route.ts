@@ -1,6 +1,16 @@
 // app/api/drafts/delete/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { getAdminAuth, getAdminDb } from "@/app/api/_firebase/admin";
+import { deleteDraftRevisions } from "@/lib/server/draftRevisions";
+import { DRAFT_BULK_MAX, normalizeDraftIds, type DraftBulkResult } from "@/lib/drafts/draftBulk";
+
+/**
+ * 下書きの完全削除（管理者のみ）
+ *
+ * 入力
+ * - { draftId }  : 1件削除
+ * - { draftIds } : まとめて削除。下書きごとの結果を results で返す
+ */
 
 function isAdminUid(uid: string): boolean {
   const raw = process.env.NEXT_PUBLIC_ADMIN_UIDS || process.env.ADMIN_UIDS || "";
@@ -41,6 +51,42 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json().catch(() => ({}));
+
+    if (Array.isArray(body?.draftIds)) {
+      const draftIds = normalizeDraftIds(body.draftIds);
+
+      if (draftIds.length === 0 || draftIds.length > DRAFT_BULK_MAX) {
+        return NextResponse.json(
+          { ok: false, error: `draftIds は1〜${DRAFT_BULK_MAX}件で指定してください` },
+          { status: 400 }
+        );
+      }
+
+      const results: DraftBulkResult[] = [];
+
+      for (const id of draftIds) {
+        try {
+          const ref = adminDb.collection("drafts").doc(id);
+          const snap = await ref.get();
+
+          if (!snap.exists) {
+            results.push({ draftId: id, ok: false, error: "draft not found" });
+            continue;
+          }
+
+          await deleteDraftRevisions(ref);
+          await ref.delete();
+          results.push({ draftId: id, ok: true });
+        } catch (e) {
+          console.error(e);
+          results.push({ draftId: id, ok: false, error: "完全削除に失敗しました" });
+        }
+      }
+
+      const succeeded = results.filter((r) => r.ok).length;
+      return NextResponse.json({ ok: true, results, succeeded, failed: results.length - succeeded });
+    }
+
     const draftId = typeof body?.draftId === "string" ? body.draftId.trim() : "";
 
     if (!draftId) {
@@ -50,7 +96,9 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    await adminDb.collection("drafts").doc(draftId).delete();
+    const ref = adminDb.collection("drafts").doc(draftId);
+    await deleteDraftRevisions(ref);
+    await ref.delete();
 
     return NextResponse.json({ ok: true });
   } catch (e) {
@@ -0,0 +1,103 @@
+// /app/api/drafts/duplicate/route.ts
+import { NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { normalizeCarryOptions, pickDuplicatedFields } from "@/lib/drafts/draftDuplication";
+import { recordDraftRevision } from "@/lib/server/draftRevisions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 下書きの複製API（バリエーション作成）
+ *
+ * 入力
+ * - { draftId, carry?, variantLabel? }
+ *   carry: { brand, captions, placement, background, videoPreset, images, outcome, sellCheck } の true / false
+ *          省略したまとまりは既定値（lib/drafts/draftDuplication.ts）
+ *
+ * ✅ 新しい下書きは phase = "draft"、作成者は呼び出したユーザー
+ * ✅ parentDraftId（複製元）と rootDraftId（系統の最初）を持たせ、一覧で同じ系統をまとめられるようにする
+ * ✅ 複製元の所有者以外は 403
+ */
+
+const MAX_VARIANT_LABEL = 40;
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as {
+      draftId?: unknown;
+      carry?: unknown;
+      variantLabel?: unknown;
+    };
+    const draftId = asTrimmedString(body.draftId);
+
+    if (!draftId) {
+      return NextResponse.json({ ok: false, error: "draftId がありません" }, { status: 400 });
+    }
+
+    const col = getAdminDb().collection("drafts");
+    const snap = await col.doc(draftId).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, error: "draft not found" }, { status: 404 });
+    }
+    const source = snap.data() || {};
+    if (String(source.userId) !== user.uid) {
+      return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+    }
+
+    const carry = normalizeCarryOptions(body.carry);
+    const rootDraftId = asTrimmedString(source.rootDraftId) || draftId;
+    const variantLabel = asTrimmedString(body.variantLabel).slice(0, MAX_VARIANT_LABEL);
+
+    const ref = await col.add({
+      ...pickDuplicatedFields(source, carry),
+      userId: user.uid,
+      phase: "draft",
+      parentDraftId: draftId,
+      rootDraftId,
+      ...(variantLabel ? { variantLabel } : {}),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    // 元の下書きにも系統キーを付けておく（一覧でまとめる時に親も同じ系統に入る）
+    if (!asTrimmedString(source.rootDraftId)) {
+      await col.doc(draftId).set({ rootDraftId }, { merge: true });
+    }
+
+    const created = await ref.get();
+    await recordDraftRevision(ref, {
+      before: {},
+      after: created.data() || {},
+      uid: user.uid,
+      source: "save",
+    });
+
+    return NextResponse.json({
+      ok: true,
+      draftId: ref.id,
+      parentDraftId: draftId,
+      rootDraftId,
+      carry,
+    });
+  } catch (error) {
+    console.error("[drafts/duplicate] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
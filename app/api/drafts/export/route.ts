@@ -0,0 +1,83 @@
+// /app/api/drafts/export/route.ts
+import { NextResponse } from "next/server";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { isExportTarget } from "@/lib/drafts/exportPresets";
+import { buildDraftExport } from "@/lib/server/draftExport";
+import { createZip } from "@/lib/server/zip";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 出品先別の書き出しAPI（ZIP）
+ *
+ * 入力
+ * - { draftId, target } : target は mercari / yahoo_auction / rakuma / jmty / other / instagram / x
+ *
+ * ✅ 画像の並び・サイズ・容量、テキスト、manifest.json は lib/server/draftExport.ts で作る
+ * ✅ 取得できなかった画像は飛ばして manifest.json の skipped に残す
+ */
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as { draftId?: unknown; target?: unknown };
+    const draftId = asTrimmedString(body.draftId);
+    const target = body.target;
+
+    if (!draftId) {
+      return NextResponse.json({ ok: false, error: "draftId がありません" }, { status: 400 });
+    }
+    if (!isExportTarget(target)) {
+      return NextResponse.json({ ok: false, error: "出品先（target）が不正です" }, { status: 400 });
+    }
+
+    const snap = await getAdminDb().collection("drafts").doc(draftId).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, error: "draft not found" }, { status: 404 });
+    }
+    const data = (snap.data() || {}) as Record<string, unknown>;
+    if (String(data.userId) !== user.uid) {
+      return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+    }
+
+    const result = await buildDraftExport(draftId, data, target);
+    if (!result.ok) {
+      return NextResponse.json(
+        { ok: false, error: result.error, ...(result.skipped ? { skipped: result.skipped } : {}) },
+        { status: result.status }
+      );
+    }
+
+    const zip = createZip(result.entries);
+    const fileName = `aoi_${target}_${draftId}.zip`;
+
+    return new Response(new Uint8Array(zip), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+        "X-Export-Images": String(result.files.length),
+        "X-Export-Skipped": String(result.skipped.length),
+      },
+    });
+  } catch (error) {
+    console.error("[drafts/export] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) || "書き出しに失敗しました" }, { status: 500 });
+  }
+}
@@ -5,6 +5,8 @@ import { NextResponse } from "next/server";
 
 import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { getAdminDb } from "@/firebaseAdmin";
+import { normalizeDraftImageCutout } from "@/lib/drafts/normalizeDraftImages";
+import { normalizeBrandId } from "@/lib/brand/brands";
 
 /**
  * AOI FLOW
@@ -34,14 +36,9 @@ import { getAdminDb } from "@/firebaseAdmin";
 /* 小関数 */
 /* -------------------------------------------------- */
 
-type BrandId = "vento" | "riva";
 type Phase = "draft" | "ready" | "posted";
 type BackgroundSourceTab = "template_bg" | "ai_bg";
 
-function normalizeBrandId(v: unknown): BrandId {
-  return v === "riva" ? "riva" : "vento";
-}
-
 function normalizePhase(v: unknown): Phase {
   if (v === "ready") return "ready";
   if (v === "posted") return "posted";
@@ -186,6 +183,7 @@ function normalizeImages(raw: unknown, baseImageUrl?: string) {
                 ? primaryRaw.createdAt
                 : Date.now(),
             role: asTrimmedString(primaryRaw.role) || "product",
+            cutout: normalizeDraftImageCutout(primaryRaw.cutout),
           }
         : null;
 
@@ -216,6 +214,7 @@ function normalizeImages(raw: unknown, baseImageUrl?: string) {
                     ? item.createdAt
                     : Date.now(),
                 role: asTrimmedString(item.role) || "product",
+                cutout: normalizeDraftImageCutout(item.cutout),
               };
             }
 
@@ -0,0 +1,91 @@
+// /app/api/drafts/revisions/restore/route.ts
+import { NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { pickRevisionMeta, recordDraftRevision } from "@/lib/server/draftRevisions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 下書きを過去の版へ戻すAPI
+ *
+ * 入力
+ * - { draftId, revisionId }
+ *
+ * ✅ 版のスナップショットで下書きを丸ごと置き換える（merge しない）
+ *    → 後から追加された項目も消え、その版の時点と同じ状態になる
+ * ✅ userId / createdAt / phase / 複製の系統 / 一覧の並び順は現在の値を残す（一覧や投稿状態を壊さない）
+ * ✅ 戻した結果も「restore」の版として残すので、戻す前にも戻れる
+ */
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as {
+      draftId?: unknown;
+      revisionId?: unknown;
+    };
+    const draftId = asTrimmedString(body.draftId);
+    const revisionId = asTrimmedString(body.revisionId);
+
+    if (!draftId || !revisionId) {
+      return NextResponse.json(
+        { ok: false, error: "draftId と revisionId が必要です" },
+        { status: 400 }
+      );
+    }
+
+    const ref = getAdminDb().collection("drafts").doc(draftId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, error: "draft not found" }, { status: 404 });
+    }
+    const current = snap.data() || {};
+    if (String(current.userId) !== user.uid) {
+      return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+    }
+
+    const revisionSnap = await ref.collection("revisions").doc(revisionId).get();
+    if (!revisionSnap.exists) {
+      return NextResponse.json({ ok: false, error: "revision not found" }, { status: 404 });
+    }
+    const snapshot = (revisionSnap.data()?.snapshot || {}) as Record<string, unknown>;
+
+    await ref.set({
+      ...snapshot,
+      ...pickRevisionMeta(current),
+      phase: current.phase ?? "draft",
+      createdAt: current.createdAt ?? FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    const restored = await ref.get();
+    const newRevisionId = await recordDraftRevision(ref, {
+      before: current,
+      after: restored.data() || {},
+      uid: user.uid,
+      source: "restore",
+      restoredFrom: revisionId,
+    });
+
+    return NextResponse.json({ ok: true, draftId, revisionId: newRevisionId });
+  } catch (error) {
+    console.error("[drafts/revisions/restore] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+// /app/api/drafts/revisions/route.ts
+import { NextResponse } from "next/server";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { diffDraftFields, toRevisionSummary } from "@/lib/server/draftRevisions";
+import type { DraftRevisionPreview } from "@/lib/types/draft";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 下書きの版履歴API
+ *
+ * 入力
+ * - { draftId }             : 版の一覧（新しい順 / スナップショット本体は含めない）
+ * - { draftId, revisionId } : 1件のプレビュー（スナップショット + 現在との差分項目）
+ *
+ * ✅ 所有者以外は 403
+ */
+
+const DEFAULT_LIST_LIMIT = 30;
+const MAX_LIST_LIMIT = 100;
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as {
+      draftId?: unknown;
+      revisionId?: unknown;
+      limit?: unknown;
+    };
+    const draftId = asTrimmedString(body.draftId);
+    const revisionId = asTrimmedString(body.revisionId);
+
+    if (!draftId) {
+      return NextResponse.json({ ok: false, error: "draftId がありません" }, { status: 400 });
+    }
+
+    const ref = getAdminDb().collection("drafts").doc(draftId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, error: "draft not found" }, { status: 404 });
+    }
+    const current = snap.data() || {};
+    if (String(current.userId) !== user.uid) {
+      return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+    }
+
+    /* ---------------- */
+    /* プレビュー */
+    /* ---------------- */
+
+    if (revisionId) {
+      const revisionSnap = await ref.collection("revisions").doc(revisionId).get();
+      if (!revisionSnap.exists) {
+        return NextResponse.json({ ok: false, error: "revision not found" }, { status: 404 });
+      }
+
+      const revisionData = revisionSnap.data() || {};
+      const snapshot = (revisionData.snapshot || {}) as Record<string, unknown>;
+      const revision: DraftRevisionPreview = {
+        ...toRevisionSummary(revisionSnap.id, revisionData),
+        snapshot,
+        diffFromCurrent: diffDraftFields(current, snapshot),
+      };
+
+      return NextResponse.json({ ok: true, revision });
+    }
+
+    /* ---------------- */
+    /* 一覧 */
+    /* ---------------- */
+
+    const requested = Number(body.limit);
+    const limit =
+      Number.isFinite(requested) && requested > 0
+        ? Math.min(Math.floor(requested), MAX_LIST_LIMIT)
+        : DEFAULT_LIST_LIMIT;
+
+    const list = await ref
+      .collection("revisions")
+      .orderBy("at", "desc")
+      .select("at", "source", "changedFields", "restoredFrom")
+      .limit(limit)
+      .get();
+
+    return NextResponse.json({
+      ok: true,
+      revisions: list.docs.map((doc) => toRevisionSummary(doc.id, doc.data())),
+    });
+  } catch (error) {
+    console.error("[drafts/revisions] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
@@ -6,6 +6,8 @@ import admin from "firebase-admin";
 
 import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { getAdminDb } from "@/firebaseAdmin";
+import { mergeDraftPatch, recordDraftRevision } from "@/lib/server/draftRevisions";
+import { normalizeBrandId } from "@/lib/brand/brands";
 
 /*
 AOI FLOW
@@ -107,15 +109,6 @@ function asObject(value: unknown): JsonLikeObject {
   return {};
 }
 
-/* ------------------------------- */
-/* ブランド正規化 */
-/* ------------------------------- */
-
-function normalizeBrandId(v: unknown): "vento" | "riva" {
-  if (v === "riva") return "riva";
-  return "vento";
-}
-
 function normalizeBackgroundSourceTab(v: unknown): "template_bg" | "ai_bg" {
   return v === "template_bg" ? "template_bg" : "ai_bg";
 }
@@ -286,6 +279,8 @@ function normalizePatch(input: Record<string, unknown>, uid: string): JsonLikeOb
     "ecDescription",
     "ecBullets",
     "savedCaptionSets",
+    "captionCompliance",
+    "hashtagSuggestions",
     "selectedShortCopy",
     "imageUrl",
     "imageSource",
@@ -312,6 +307,7 @@ function normalizePatch(input: Record<string, unknown>, uid: string): JsonLikeOb
     "bgRefineEnabled",
     "activePhotoMode",
     "placement",
+    "stageProducts",
     "placementStep",
     "compositeServerPlacementMeta",
     "shadowOpacity",
@@ -426,6 +422,14 @@ export async function POST(req: Request) {
 
       const ref = await col.add(createPayload);
 
+      // 版履歴（失敗しても保存は成功扱い）
+      await recordDraftRevision(ref, {
+        before: {},
+        after: createPayload,
+        uid: user.uid,
+        source: "save",
+      });
+
       return NextResponse.json({
         ok: true,
         draftId: ref.id,
@@ -459,6 +463,14 @@ export async function POST(req: Request) {
       merge: true,
     });
 
+    // merge 後の状態を手元で組み立てて版にする（読み直さない）
+    await recordDraftRevision(ref, {
+      before: data,
+      after: mergeDraftPatch(data, payload),
+      uid: user.uid,
+      source: "save",
+    });
+
     return NextResponse.json({
       ok: true,
       draftId: body.draftId,
@@ -7,6 +7,7 @@ import sharp from "sharp";
 
 import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { getAdminDb } from "@/firebaseAdmin";
+import { normalizeBrandId } from "@/lib/brand/brands";
 
 export const runtime = "nodejs";
 
@@ -346,10 +347,7 @@ export async function POST(req: Request) {
 
     const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
 
-    const brandId =
-      typeof body.brandId === "string" && body.brandId.trim()
-        ? body.brandId.trim()
-        : "vento";
+    const brandId = normalizeBrandId(body.brandId);
 
     const referenceImageUrl =
       typeof body.referenceImageUrl === "string" && body.referenceImageUrl.trim()
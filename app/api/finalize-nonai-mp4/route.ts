@@ -3,6 +3,7 @@
 // - Cloud Render: SaaS利用者向け。Cloud Run側のFFmpegで変換する。
 // - Local Render: 開発者向け。ローカルPCのFFmpegで変換する。
 // - 一般ユーザーの端末性能には依存させない。SaaS本番は Cloud Render を使う。
+// - audio（productVideo.audio）がある時は、MP4化の後にこのサーバで音を付ける（どちらのモードでも同じ音になる）
 
 export const runtime = "nodejs";
 
@@ -13,6 +14,9 @@ import { spawn, spawnSync } from "child_process";
 import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { getAdminBucket } from "@/firebaseAdmin";
 import ffmpegStaticPath from "ffmpeg-static";
+import { attachAudioTrackToMp4, downloadAudioTrack } from "@/lib/video/audio";
+import { normalizeVideoAudioTrack } from "@/lib/video/audioTrack";
+import type { VideoAudioTrack } from "@/lib/types/draft";
 
 type RenderMode = "auto" | "cloud" | "local";
 
@@ -168,6 +172,30 @@ async function finalizeWithCloudRun(input: {
   return { mp4Url, mp4Path };
 }
 
+async function saveMp4(uid: string, draftId: string, buf: Buffer) {
+  const bucket = getAdminBucket();
+  const token = crypto.randomUUID();
+  const mp4Path = `users/${uid}/drafts/${draftId}/nonai/${Date.now()}.mp4`;
+
+  await bucket.file(mp4Path).save(buf, {
+    contentType: "video/mp4",
+    resumable: false,
+    metadata: {
+      metadata: { firebaseStorageDownloadTokens: token },
+      cacheControl: "public,max-age=31536000",
+    },
+  });
+
+  return { mp4Path, mp4Url: storageDownloadUrl(String(bucket.name), mp4Path, token) };
+}
+
+async function withAudio(uid: string, buf: Buffer, audio: VideoAudioTrack | null) {
+  if (!audio) return buf;
+  const audioBuffer = await downloadAudioTrack(uid, audio);
+  const mixed = await attachAudioTrackToMp4({ video: buf, audio: audioBuffer, track: audio });
+  return mixed.buffer;
+}
+
 export async function POST(req: Request) {
   try {
     const authHeader = req.headers.get("authorization") || "";
@@ -177,6 +205,7 @@ export async function POST(req: Request) {
     const draftId = String(body?.draftId ?? "").trim();
     const webmPath = String(body?.webmPath ?? "").trim();
     const requestedMode = normalizeRenderMode(body?.renderMode);
+    const audio = normalizeVideoAudioTrack(body?.audio);
 
     if (!draftId) return NextResponse.json({ error: "draftId is required" }, { status: 400 });
     if (!webmPath) return NextResponse.json({ error: "webmPath is required" }, { status: 400 });
@@ -220,16 +249,27 @@ export async function POST(req: Request) {
         bucketName,
       });
 
+      // Cloud Render は音なしで作るので、音はこのサーバで付けて別ファイルとして保存する
+      const final = audio
+        ? await (async () => {
+            const res = await fetch(result.mp4Url);
+            if (!res.ok) throw new Error(`Cloud Render の MP4 取得に失敗しました (${res.status})`);
+            const mixed = await withAudio(user.uid, Buffer.from(await res.arrayBuffer()), audio);
+            return saveMp4(user.uid, draftId, mixed);
+          })()
+        : result;
+
       return NextResponse.json(
         {
           ok: true,
           renderMode: "cloud",
           draftId,
           webmPath,
-          mp4Url: result.mp4Url,
-          mp4Path: result.mp4Path,
-          url: result.mp4Url,
-          videoUrl: result.mp4Url,
+          mp4Url: final.mp4Url,
+          mp4Path: final.mp4Path,
+          url: final.mp4Url,
+          videoUrl: final.mp4Url,
+          audio,
         },
         { status: 200 }
       );
@@ -252,30 +292,16 @@ export async function POST(req: Request) {
     await bucket.file(webmPath).download({ destination: inTmp });
     await runFfmpeg(inTmp, outTmp);
 
-    const token = crypto.randomUUID();
-    const ts = Date.now();
-    const mp4Path = `users/${user.uid}/drafts/${draftId}/nonai/${ts}.mp4`;
-    const mp4File = bucket.file(mp4Path);
-
     const buf = fs.readFileSync(outTmp);
     if (!buf.length) {
       return NextResponse.json({ error: "mp4 output is empty" }, { status: 500 });
     }
 
-    await mp4File.save(buf, {
-      contentType: "video/mp4",
-      resumable: false,
-      metadata: {
-        metadata: { firebaseStorageDownloadTokens: token },
-        cacheControl: "public,max-age=31536000",
-      },
-    });
+    const { mp4Path, mp4Url } = await saveMp4(user.uid, draftId, await withAudio(user.uid, buf, audio));
 
     try { fs.unlinkSync(inTmp); } catch {}
     try { fs.unlinkSync(outTmp); } catch {}
 
-    const mp4Url = storageDownloadUrl(bucketName, mp4Path, token);
-
     return NextResponse.json(
       {
         ok: true,
@@ -287,6 +313,7 @@ export async function POST(req: Request) {
         mp4Path,
         url: mp4Url,
         videoUrl: mp4Url,
+        audio,
       },
       { status: 200 }
     );
@@ -7,6 +7,28 @@ import sharp from "sharp";
 import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { getAdminDb } from "@/firebaseAdmin";
 import { saveBgLog } from "@/app/api/_bgLogs/saveBgLog";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import {
+  MIN_TOTAL_ACCEPT_SCORE,
+  analyzeImageVisibility,
+  calcAcceptScore,
+  isContextuallyWeak,
+  isUnacceptablyInvisible,
+  shouldApplyVisibilityLift,
+  summarizeBackgroundQuality,
+  type ImageVisibilityAnalysis,
+} from "@/lib/server/backgroundQuality";
+import {
+  analyzeBackgroundReference,
+  buildBackgroundSeriesRules,
+  describeBackgroundReference,
+  scoreBackgroundSeriesImage,
+} from "@/lib/server/backgroundSeries";
+import {
+  MIN_SERIES_CONSISTENCY_SCORE,
+  normalizeBackgroundSeriesSpec,
+} from "@/lib/image/backgroundSeriesOptions";
+import type { BackgroundSeriesConsistency } from "@/lib/types/draft";
 export const runtime = "nodejs";
 
 /**
@@ -62,58 +84,6 @@ type KeywordScenario =
 const AI_BG_VERSION = "v28_user_requested_background_priority";
 const MAX_GENERATION_ATTEMPTS = 2;
 
-/**
- * このスコア未満は「文脈不足」とみなして不採用
- * 0〜100点換算
- */
-const MIN_CONTEXT_READABILITY_SCORE = 56;
-
-/**
- * 総合採用スコア
- * 最後に 2候補を比較するための目安
- */
-const MIN_TOTAL_ACCEPT_SCORE = 60;
-
-type ZoneLightStats = {
-  mean: number;
-  darkPixelRatio: number;
-  nearBlackPixelRatio: number;
-  blownPixelRatio: number;
-  stdDev: number;
-};
-
-type ContextReadabilityAnalysis = {
-  topContextVariance: number;
-  leftContextStrength: number;
-  rightContextStrength: number;
-  sideContextBalance: number;
-  centerIsolationScore: number;
-  groundingContinuityScore: number;
-  contextReadabilityScore: number;
-};
-
-type ImageVisibilityAnalysis = {
-  width: number;
-  height: number;
-  mean: number;
-  minChannelMean: number;
-  darkPixelRatio: number;
-  nearBlackPixelRatio: number;
-  blownPixelRatio: number;
-  avgStdDev: number;
-  centerBand: ZoneLightStats;
-  lowerBand: ZoneLightStats;
-  centerFlatness: number;
-  lowerFlatness: number;
-  centerEdgeDensity: number;
-  lowerEdgeDensity: number;
-  borderGlowRatio: number;
-  isolatedNoiseRatio: number;
-  horizontalBandingRatio: number;
-  centralPlateRatio: number;
-  context: ContextReadabilityAnalysis;
-};
-
 type CandidateResult = {
   buffer: Buffer;
   before: ImageVisibilityAnalysis;
@@ -121,6 +91,8 @@ type CandidateResult = {
   attempt: number;
   prompt: string;
   acceptScore: number;
+  /** シリーズモード時のみ。ブランドの基準画像との一貫性 */
+  seriesConsistency?: BackgroundSeriesConsistency;
 };
 
 type NormalizedGenerationContext = {
@@ -1742,712 +1714,6 @@ function buildPrompt(args: {
     .join("\n");
 }
 
-function calcZoneStats(
-  data: Uint8Array | Buffer,
-  width: number,
-  height: number,
-  channels: number,
-  xStart: number,
-  xEnd: number,
-  yStart: number,
-  yEnd: number
-): ZoneLightStats {
-  let sum = 0;
-  let sumSq = 0;
-  let darkCount = 0;
-  let nearBlackCount = 0;
-  let blownCount = 0;
-  let count = 0;
-
-  const xs = Math.max(0, Math.min(width, xStart));
-  const xe = Math.max(xs, Math.min(width, xEnd));
-  const ys = Math.max(0, Math.min(height, yStart));
-  const ye = Math.max(ys, Math.min(height, yEnd));
-
-  for (let y = ys; y < ye; y++) {
-    for (let x = xs; x < xe; x++) {
-      const i = (y * width + x) * channels;
-      const r = data[i] ?? 0;
-      const g = data[i + 1] ?? 0;
-      const b = data[i + 2] ?? 0;
-
-      const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-      sum += luminance;
-      sumSq += luminance * luminance;
-
-      if (luminance < 58) darkCount += 1;
-      if (luminance < 28) nearBlackCount += 1;
-      if (luminance > 245) blownCount += 1;
-
-      count += 1;
-    }
-  }
-
-  const safeCount = Math.max(1, count);
-  const mean = sum / safeCount;
-  const variance = Math.max(0, sumSq / safeCount - mean * mean);
-  const stdDev = Math.sqrt(variance);
-
-  return {
-    mean,
-    darkPixelRatio: darkCount / safeCount,
-    nearBlackPixelRatio: nearBlackCount / safeCount,
-    blownPixelRatio: blownCount / safeCount,
-    stdDev,
-  };
-}
-
-function calcFlatnessAndEdges(
-  data: Uint8Array | Buffer,
-  width: number,
-  height: number,
-  channels: number,
-  xStart: number,
-  xEnd: number,
-  yStart: number,
-  yEnd: number
-) {
-  const xs = Math.max(1, Math.min(width - 1, xStart));
-  const xe = Math.max(xs + 1, Math.min(width - 1, xEnd));
-  const ys = Math.max(1, Math.min(height - 1, yStart));
-  const ye = Math.max(ys + 1, Math.min(height - 1, yEnd));
-
-  let flatCount = 0;
-  let edgeCount = 0;
-  let count = 0;
-
-  for (let y = ys; y < ye; y++) {
-    for (let x = xs; x < xe; x++) {
-      const il = (y * width + (x - 1)) * channels;
-      const ir = (y * width + (x + 1)) * channels;
-      const iu = ((y - 1) * width + x) * channels;
-      const id = ((y + 1) * width + x) * channels;
-
-      const ll =
-        0.2126 * (data[il] ?? 0) +
-        0.7152 * (data[il + 1] ?? 0) +
-        0.0722 * (data[il + 2] ?? 0);
-      const lr =
-        0.2126 * (data[ir] ?? 0) +
-        0.7152 * (data[ir + 1] ?? 0) +
-        0.0722 * (data[ir + 2] ?? 0);
-      const lu =
-        0.2126 * (data[iu] ?? 0) +
-        0.7152 * (data[iu + 1] ?? 0) +
-        0.0722 * (data[iu + 2] ?? 0);
-      const ld =
-        0.2126 * (data[id] ?? 0) +
-        0.7152 * (data[id + 1] ?? 0) +
-        0.0722 * (data[id + 2] ?? 0);
-
-      const gx = Math.abs(lr - ll);
-      const gy = Math.abs(ld - lu);
-      const grad = gx + gy;
-
-      if (grad < 3.5) flatCount += 1;
-      if (grad > 18) edgeCount += 1;
-
-      count += 1;
-    }
-  }
-
-  const safeCount = Math.max(1, count);
-  return {
-    flatness: flatCount / safeCount,
-    edgeDensity: edgeCount / safeCount,
-  };
-}
-
-function calcBorderGlowRatio(
-  data: Uint8Array | Buffer,
-  width: number,
-  height: number,
-  channels: number
-): number {
-  const xStart = Math.round(width * 0.84);
-  const xEnd = Math.round(width * 0.98);
-  const yStart = Math.round(height * 0.08);
-  const yEnd = Math.round(height * 0.92);
-
-  let glowCount = 0;
-  let count = 0;
-
-  for (let y = yStart; y < yEnd; y++) {
-    for (let x = xStart; x < xEnd; x++) {
-      const i = (y * width + x) * channels;
-      const l =
-        0.2126 * (data[i] ?? 0) +
-        0.7152 * (data[i + 1] ?? 0) +
-        0.0722 * (data[i + 2] ?? 0);
-
-      const il = (y * width + Math.max(0, x - 1)) * channels;
-      const left =
-        0.2126 * (data[il] ?? 0) +
-        0.7152 * (data[il + 1] ?? 0) +
-        0.0722 * (data[il + 2] ?? 0);
-
-      if (l > 215 && Math.abs(l - left) > 28) glowCount += 1;
-      count += 1;
-    }
-  }
-
-  return glowCount / Math.max(1, count);
-}
-
-function calcIsolatedNoiseRatio(
-  data: Uint8Array | Buffer,
-  width: number,
-  height: number,
-  channels: number
-): number {
-  let isolated = 0;
-  let count = 0;
-
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const i = (y * width + x) * channels;
-      const l =
-        0.2126 * (data[i] ?? 0) +
-        0.7152 * (data[i + 1] ?? 0) +
-        0.0722 * (data[i + 2] ?? 0);
-
-      const neighbors = [
-        ((y - 1) * width + x) * channels,
-        ((y + 1) * width + x) * channels,
-        (y * width + (x - 1)) * channels,
-        (y * width + (x + 1)) * channels,
-      ];
-
-      let farNeighbors = 0;
-      for (const n of neighbors) {
-        const nl =
-          0.2126 * (data[n] ?? 0) +
-          0.7152 * (data[n + 1] ?? 0) +
-          0.0722 * (data[n + 2] ?? 0);
-        if (Math.abs(l - nl) > 40) farNeighbors += 1;
-      }
-
-      if (farNeighbors >= 3) isolated += 1;
-      count += 1;
-    }
-  }
-
-  return isolated / Math.max(1, count);
-}
-
-function calcHorizontalBandingRatio(
-  data: Uint8Array | Buffer,
-  width: number,
-  height: number,
-  channels: number
-): number {
-  const yStart = Math.round(height * 0.66);
-  const yEnd = Math.round(height * 0.9);
-  const xStart = Math.round(width * 0.12);
-  const xEnd = Math.round(width * 0.88);
-
-  let strongRowTransitions = 0;
-  let rows = 0;
-
-  for (let y = yStart + 1; y < yEnd; y++) {
-    let prevRowSum = 0;
-    let rowSum = 0;
-
-    for (let x = xStart; x < xEnd; x++) {
-      const i1 = ((y - 1) * width + x) * channels;
-      const i2 = (y * width + x) * channels;
-
-      prevRowSum +=
-        0.2126 * (data[i1] ?? 0) +
-        0.7152 * (data[i1 + 1] ?? 0) +
-        0.0722 * (data[i1 + 2] ?? 0);
-      rowSum +=
-        0.2126 * (data[i2] ?? 0) +
-        0.7152 * (data[i2 + 1] ?? 0) +
-        0.0722 * (data[i2 + 2] ?? 0);
-    }
-
-    const rowMean = rowSum / Math.max(1, xEnd - xStart);
-    const prevMean = prevRowSum / Math.max(1, xEnd - xStart);
-
-    if (Math.abs(rowMean - prevMean) > 18) strongRowTransitions += 1;
-    rows += 1;
-  }
-
-  return strongRowTransitions / Math.max(1, rows);
-}
-
-function calcCentralPlateRatio(
-  data: Uint8Array | Buffer,
-  width: number,
-  height: number,
-  channels: number
-): number {
-  const xStart = Math.round(width * 0.3);
-  const xEnd = Math.round(width * 0.7);
-  const yStart = Math.round(height * 0.3);
-  const yEnd = Math.round(height * 0.7);
-
-  let plateCount = 0;
-  let count = 0;
-
-  for (let y = yStart + 1; y < yEnd - 1; y++) {
-    for (let x = xStart + 1; x < xEnd - 1; x++) {
-      const i = (y * width + x) * channels;
-      const l =
-        0.2126 * (data[i] ?? 0) +
-        0.7152 * (data[i + 1] ?? 0) +
-        0.0722 * (data[i + 2] ?? 0);
-
-      const il = (y * width + (x - 1)) * channels;
-      const ir = (y * width + (x + 1)) * channels;
-      const iu = ((y - 1) * width + x) * channels;
-      const id = ((y + 1) * width + x) * channels;
-
-      const ll =
-        0.2126 * (data[il] ?? 0) +
-        0.7152 * (data[il + 1] ?? 0) +
-        0.0722 * (data[il + 2] ?? 0);
-      const lr =
-        0.2126 * (data[ir] ?? 0) +
-        0.7152 * (data[ir + 1] ?? 0) +
-        0.0722 * (data[ir + 2] ?? 0);
-      const lu =
-        0.2126 * (data[iu] ?? 0) +
-        0.7152 * (data[iu + 1] ?? 0) +
-        0.0722 * (data[iu + 2] ?? 0);
-      const ld =
-        0.2126 * (data[id] ?? 0) +
-        0.7152 * (data[id + 1] ?? 0) +
-        0.0722 * (data[id + 2] ?? 0);
-
-      const localMaxDiff = Math.max(
-        Math.abs(l - ll),
-        Math.abs(l - lr),
-        Math.abs(l - lu),
-        Math.abs(l - ld)
-      );
-
-      if (localMaxDiff < 3 && l > 55 && l < 210) plateCount += 1;
-      count += 1;
-    }
-  }
-
-  return plateCount / Math.max(1, count);
-}
-
-/**
- * 上端の構造差
- * 白壁のみだと低くなる
- */
-function calcTopContextVariance(
-  data: Uint8Array | Buffer,
-  width: number,
-  height: number,
-  channels: number
-): number {
-  const xStart = Math.round(width * 0.12);
-  const xEnd = Math.round(width * 0.88);
-  const yStart = Math.round(height * 0.06);
-  const yEnd = Math.round(height * 0.22);
-
-  let sum = 0;
-  let sumSq = 0;
-  let count = 0;
-
-  for (let y = yStart; y < yEnd; y++) {
-    for (let x = xStart; x < xEnd; x++) {
-      const i = (y * width + x) * channels;
-      const l =
-        0.2126 * (data[i] ?? 0) +
-        0.7152 * (data[i + 1] ?? 0) +
-        0.0722 * (data[i + 2] ?? 0);
-      sum += l;
-      sumSq += l * l;
-      count += 1;
-    }
-  }
-
-  const safe = Math.max(1, count);
-  const mean = sum / safe;
-  const variance = Math.max(0, sumSq / safe - mean * mean);
-
-  return Math.sqrt(variance);
-}
-
-/**
- * 左右端の文脈強度
- * ただし強すぎて主役になるのも避けたい
- */
-function calcSideContextStrength(
-  data: Uint8Array | Buffer,
-  width: number,
-  height: number,
-  channels: number,
-  side: "left" | "right"
-): number {
-  const xStart =
-    side === "left" ? Math.round(width * 0.02) : Math.round(width * 0.82);
-  const xEnd =
-    side === "left" ? Math.round(width * 0.18) : Math.round(width * 0.98);
-  const yStart = Math.round(height * 0.18);
-  const yEnd = Math.round(height * 0.76);
-
-  const structure = calcFlatnessAndEdges(
-    data,
-    width,
-    height,
-    channels,
-    xStart,
-    xEnd,
-    yStart,
-    yEnd
-  );
-
-  const zone = calcZoneStats(data, width, height, channels, xStart, xEnd, yStart, yEnd);
-
-  /**
-   * 適度なエッジ + 適度なばらつき + 暗すぎない
-   */
-  const edgePart = clamp01(structure.edgeDensity / 0.08);
-  const variancePart = clamp01(zone.stdDev / 18);
-  const brightnessPenalty = zone.mean < 52 ? 0.4 : 1;
-
-  return clamp01((edgePart * 0.55 + variancePart * 0.45) * brightnessPenalty);
-}
-
-/**
- * 中央がどれだけ孤立して守られているか
- */
-function calcCenterIsolationScore(
-  centerBand: ZoneLightStats,
-  centerFlatness: number,
-  centerEdgeDensity: number
-): number {
-  const brightness = clamp01((centerBand.mean - 70) / 45);
-  const darkPenalty = 1 - clamp01(centerBand.nearBlackPixelRatio / 0.05);
-  const edgePenalty = 1 - clamp01(centerEdgeDensity / 0.08);
-
-  /**
-   * flatness が高すぎるとベタ板化しやすいので上限補正
-   */
-  const flatnessPenalty =
-    centerFlatness > 0.92 ? 0.25 : centerFlatness > 0.86 ? 0.65 : 1;
-
-  return clamp01(
-    (brightness * 0.4 + darkPenalty * 0.35 + edgePenalty * 0.25) * flatnessPenalty
-  );
-}
-
-/**
- * 下部が本当に床 / テーブル面として続いているか
- */
-function calcGroundingContinuityScore(
-  lowerBand: ZoneLightStats,
-  lowerFlatness: number,
-  lowerEdgeDensity: number,
-  horizontalBandingRatio: number
-): number {
-  const brightness = clamp01((lowerBand.mean - 62) / 48);
-
-  /**
-   * 面として適度に滑らか、でもベタ過ぎない
-   */
-  const flatnessPart =
-    lowerFlatness < 0.45
-      ? clamp01(lowerFlatness / 0.45)
-      : lowerFlatness > 0.93
-      ? 0.25
-      : 1;
-
-  const edgePart = lowerEdgeDensity < 0.003 ? 0.2 : lowerEdgeDensity > 0.12 ? 0.45 : 1;
-  const bandPenalty = 1 - clamp01(horizontalBandingRatio / 0.2);
-  const darkPenalty = 1 - clamp01(lowerBand.nearBlackPixelRatio / 0.08);
-
-  return clamp01(
-    brightness * 0.32 +
-      flatnessPart * 0.22 +
-      edgePart * 0.16 +
-      bandPenalty * 0.18 +
-      darkPenalty * 0.12
-  );
-}
-
-function clamp01(v: number): number {
-  if (!Number.isFinite(v)) return 0;
-  return Math.max(0, Math.min(1, v));
-}
-
-function calcContextReadabilityAnalysis(args: {
-  data: Uint8Array | Buffer;
-  width: number;
-  height: number;
-  channels: number;
-  centerBand: ZoneLightStats;
-  lowerBand: ZoneLightStats;
-  centerFlatness: number;
-  centerEdgeDensity: number;
-  lowerFlatness: number;
-  lowerEdgeDensity: number;
-  horizontalBandingRatio: number;
-}): ContextReadabilityAnalysis {
-  const {
-    data,
-    width,
-    height,
-    channels,
-    centerBand,
-    lowerBand,
-    centerFlatness,
-    centerEdgeDensity,
-    lowerFlatness,
-    lowerEdgeDensity,
-    horizontalBandingRatio,
-  } = args;
-
-  const topContextVariance = calcTopContextVariance(data, width, height, channels);
-  const leftContextStrength = calcSideContextStrength(data, width, height, channels, "left");
-  const rightContextStrength = calcSideContextStrength(data, width, height, channels, "right");
-
-  /**
-   * 左右どちらか一方だけ極端に強い事故も抑える
-   */
-  const sideMean = (leftContextStrength + rightContextStrength) / 2;
-  const sideGap = Math.abs(leftContextStrength - rightContextStrength);
-  const sideContextBalance = clamp01(sideMean * (1 - clamp01(sideGap / 0.75)));
-
-  const centerIsolationScore = calcCenterIsolationScore(
-    centerBand,
-    centerFlatness,
-    centerEdgeDensity
-  );
-
-  const groundingContinuityScore = calcGroundingContinuityScore(
-    lowerBand,
-    lowerFlatness,
-    lowerEdgeDensity,
-    horizontalBandingRatio
-  );
-
-  /**
-   * 最終文脈スコア
-   * 0〜100点
-   */
-  const contextReadabilityScore =
-    (clamp01(topContextVariance / 16) * 0.24 +
-      sideContextBalance * 0.24 +
-      centerIsolationScore * 0.28 +
-      groundingContinuityScore * 0.24) *
-    100;
-
-  return {
-    topContextVariance,
-    leftContextStrength,
-    rightContextStrength,
-    sideContextBalance,
-    centerIsolationScore,
-    groundingContinuityScore,
-    contextReadabilityScore,
-  };
-}
-
-async function analyzeImageVisibility(buf: Buffer): Promise<ImageVisibilityAnalysis> {
-  const image = sharp(buf, { failOn: "none" });
-  const meta = await image.metadata();
-
-  const { data, info } = await image
-    .removeAlpha()
-    .raw()
-    .toBuffer({ resolveWithObject: true });
-
-  const width = Number(info.width || meta.width || 0);
-  const height = Number(info.height || meta.height || 0);
-  const channels = Number(info.channels || 3);
-  const totalPixels = Math.max(1, width * height);
-
-  let sum = 0;
-  let darkCount = 0;
-  let nearBlackCount = 0;
-  let blownCount = 0;
-
-  for (let i = 0; i < data.length; i += channels) {
-    const r = data[i] ?? 0;
-    const g = data[i + 1] ?? 0;
-    const b = data[i + 2] ?? 0;
-
-    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-    sum += luminance;
-
-    if (luminance < 58) darkCount += 1;
-    if (luminance < 28) nearBlackCount += 1;
-    if (luminance > 245) blownCount += 1;
-  }
-
-  const stats = await image.removeAlpha().stats();
-  const rMean = stats.channels[0]?.mean ?? 0;
-  const gMean = stats.channels[1]?.mean ?? 0;
-  const bMean = stats.channels[2]?.mean ?? 0;
-
-  const channelStdDevs = stats.channels
-    .slice(0, 3)
-    .map((c) => Number(c?.stdev ?? 0))
-    .filter((v) => Number.isFinite(v));
-
-  const avgStdDev =
-    channelStdDevs.length > 0
-      ? channelStdDevs.reduce((a, b) => a + b, 0) / channelStdDevs.length
-      : 0;
-
-  const centerBand = calcZoneStats(
-    data,
-    width,
-    height,
-    channels,
-    Math.round(width * 0.22),
-    Math.round(width * 0.78),
-    Math.round(height * 0.28),
-    Math.round(height * 0.72)
-  );
-
-  const lowerBand = calcZoneStats(
-    data,
-    width,
-    height,
-    channels,
-    Math.round(width * 0.18),
-    Math.round(width * 0.82),
-    Math.round(height * 0.62),
-    Math.round(height * 0.92)
-  );
-
-  const centerStructure = calcFlatnessAndEdges(
-    data,
-    width,
-    height,
-    channels,
-    Math.round(width * 0.28),
-    Math.round(width * 0.72),
-    Math.round(height * 0.3),
-    Math.round(height * 0.7)
-  );
-
-  const lowerStructure = calcFlatnessAndEdges(
-    data,
-    width,
-    height,
-    channels,
-    Math.round(width * 0.14),
-    Math.round(width * 0.86),
-    Math.round(height * 0.68),
-    Math.round(height * 0.9)
-  );
-
-  const borderGlowRatio = calcBorderGlowRatio(data, width, height, channels);
-  const isolatedNoiseRatio = calcIsolatedNoiseRatio(data, width, height, channels);
-  const horizontalBandingRatio = calcHorizontalBandingRatio(data, width, height, channels);
-  const centralPlateRatio = calcCentralPlateRatio(data, width, height, channels);
-
-  const context = calcContextReadabilityAnalysis({
-    data,
-    width,
-    height,
-    channels,
-    centerBand,
-    lowerBand,
-    centerFlatness: centerStructure.flatness,
-    centerEdgeDensity: centerStructure.edgeDensity,
-    lowerFlatness: lowerStructure.flatness,
-    lowerEdgeDensity: lowerStructure.edgeDensity,
-    horizontalBandingRatio,
-  });
-
-  return {
-    width,
-    height,
-    mean: sum / totalPixels,
-    minChannelMean: Math.min(rMean, gMean, bMean),
-    darkPixelRatio: darkCount / totalPixels,
-    nearBlackPixelRatio: nearBlackCount / totalPixels,
-    blownPixelRatio: blownCount / totalPixels,
-    avgStdDev,
-    centerBand,
-    lowerBand,
-    centerFlatness: centerStructure.flatness,
-    lowerFlatness: lowerStructure.flatness,
-    centerEdgeDensity: centerStructure.edgeDensity,
-    lowerEdgeDensity: lowerStructure.edgeDensity,
-    borderGlowRatio,
-    isolatedNoiseRatio,
-    horizontalBandingRatio,
-    centralPlateRatio,
-    context,
-  };
-}
-
-function shouldApplyVisibilityLift(a: ImageVisibilityAnalysis): boolean {
-  return (
-    a.mean < 92 ||
-    a.minChannelMean < 72 ||
-    a.centerBand.mean < 84 ||
-    a.lowerBand.mean < 76 ||
-    a.centerBand.nearBlackPixelRatio > 0.02 ||
-    a.lowerBand.nearBlackPixelRatio > 0.03 ||
-    a.nearBlackPixelRatio > 0.05
-  );
-}
-
-function isTemplateLike(a: ImageVisibilityAnalysis): boolean {
-  const hasReadableWorldContext =
-    a.context.topContextVariance > 9 ||
-    a.context.leftContextStrength > 0.35 ||
-    a.context.rightContextStrength > 0.35 ||
-    a.context.sideContextBalance > 0.28;
-
-  return (
-    !hasReadableWorldContext &&
-    a.avgStdDev < 7 &&
-    a.centerBand.stdDev < 5 &&
-    a.lowerBand.stdDev < 5 &&
-    a.mean > 85 &&
-    a.mean < 180
-  );
-}
-
-function isStructurallyBroken(a: ImageVisibilityAnalysis): boolean {
-  return (
-    (a.centralPlateRatio > 0.78 && a.centerFlatness > 0.83) ||
-    (a.centralPlateRatio > 0.72 && a.centerFlatness > 0.86) ||
-    (a.borderGlowRatio > 0.18 && a.isolatedNoiseRatio > 0.015) ||
-    (a.horizontalBandingRatio > 0.22 && a.lowerEdgeDensity < 0.02) ||
-    (a.centerFlatness > 0.9 && a.centerEdgeDensity < 0.01 && a.centerBand.stdDev < 6) ||
-    (a.isolatedNoiseRatio > 0.03 && a.avgStdDev > 22) ||
-    (a.lowerFlatness > 0.9 && a.lowerEdgeDensity < 0.008 && a.lowerBand.stdDev < 5)
-  );
-}
-
-/**
- * 文脈不足は補正で救済しない
- * ここが v23 の方針
- */
-function isContextuallyWeak(a: ImageVisibilityAnalysis): boolean {
-  return a.context.contextReadabilityScore < MIN_CONTEXT_READABILITY_SCORE;
-}
-
-function isUnacceptablyInvisible(a: ImageVisibilityAnalysis): boolean {
-  return (
-    a.mean < 52 ||
-    a.minChannelMean < 40 ||
-    a.centerBand.mean < 52 ||
-    a.lowerBand.mean < 48 ||
-    a.nearBlackPixelRatio > 0.12 ||
-    a.centerBand.nearBlackPixelRatio > 0.05 ||
-    a.lowerBand.nearBlackPixelRatio > 0.08 ||
-    (a.centerBand.stdDev < 4 && a.centerBand.mean < 70) ||
-    isTemplateLike(a) ||
-    isStructurallyBroken(a)
-  );
-}
-
 function makeSoftRectOverlaySvg(
   width: number,
   height: number,
@@ -3013,70 +2279,9 @@ return [
 
 
 /**
- * AIRA構図違反スコア
- * 0〜1（1が良い）
- */
-function calcAiraStructureScore(a: ImageVisibilityAnalysis): number {
-  // 中央侵入（エッジ多い＝何かある）
-  const centerViolation = clamp01(a.centerEdgeDensity / 0.08);
-
-  // ベタ板（フラットすぎ）
-  const platePenalty =
-    a.centerFlatness > 0.85 && a.centralPlateRatio > 0.65 ? 1 : 0;
-
-  // 支持面不安定（下部エッジ少なすぎ or 多すぎ）
-  const groundingBad =
-    a.lowerEdgeDensity < 0.005 || a.lowerEdgeDensity > 0.12 ? 1 : 0;
-
-  // 最終
-  const score =
-    1 -
-    (centerViolation * 0.5 +
-      platePenalty * 0.3 +
-      groundingBad * 0.2);
-
-  return clamp01(score);
-}
-
-/**
- * 総合採用スコア
- * 候補2枚の比較選抜に使う
+ * 参考画像 → プロンプト用の短文
+ * - 解析は lib/server/backgroundSeries.ts（シリーズ基準の解析と共通）
  */
-function calcAcceptScore(a: ImageVisibilityAnalysis): number {
-  const brightnessScore = clamp01((a.mean - 60) / 55) * 100;
-  const centerScore = clamp01((a.centerBand.mean - 72) / 35) * 100;
-  const lowerScore = clamp01((a.lowerBand.mean - 64) / 35) * 100;
-  const darkPenalty = (1 - clamp01(a.nearBlackPixelRatio / 0.12)) * 100;
-  const structurePenalty =
-    (1 -
-      clamp01(
-        (a.centralPlateRatio * 0.4 +
-          a.horizontalBandingRatio * 0.25 +
-          a.borderGlowRatio * 0.2 +
-          a.isolatedNoiseRatio * 5 * 0.15)
-      )) *
-    100;
-
-const airaStructureScore = calcAiraStructureScore(a) * 100;
-
-const worldContextScore =
-  clamp01(a.context.topContextVariance / 18) * 40 +
-  clamp01(a.context.sideContextBalance / 0.5) * 40 +
-  clamp01((a.avgStdDev - 6) / 16) * 20;
-
-return (
-  brightnessScore * 0.08 +
-  centerScore * 0.12 +
-  lowerScore * 0.09 +
-  darkPenalty * 0.09 +
-  structurePenalty * 0.14 +
-  a.context.contextReadabilityScore * 0.22 +
-  airaStructureScore * 0.13 +
-  worldContextScore * 0.13
-);
-}
-
-
 async function analyzeReferenceBackgroundImage(url: string): Promise<string> {
   const safeUrl = String(url || "").trim();
   if (!safeUrl) return "";
@@ -3085,41 +2290,7 @@ async function analyzeReferenceBackgroundImage(url: string): Promise<string> {
     const res = await fetch(safeUrl, { cache: "no-store" });
     if (!res.ok) return "";
     const buf = Buffer.from(await res.arrayBuffer());
-    const meta = await sharp(buf, { failOn: "none" }).metadata();
-    const stat = await sharp(buf, { failOn: "none" })
-      .resize(64, 64, { fit: "inside" })
-      .removeAlpha()
-      .stats();
-
-    const channels = stat.channels || [];
-    const means = channels.slice(0, 3).map((c) => Math.round(Number(c.mean || 0)));
-    const avg = means.length ? Math.round(means.reduce((a, b) => a + b, 0) / means.length) : 0;
-    const maxDiff = means.length
-      ? Math.max(...means) - Math.min(...means)
-      : 0;
-
-    const brightness = avg >= 205 ? "very bright" : avg >= 175 ? "bright" : avg >= 135 ? "medium bright" : "dark";
-    const colorTone = maxDiff <= 10
-      ? "neutral gray/white tone"
-      : means[0] >= means[2] + 12
-      ? "warm beige/wood-like tone"
-      : means[2] >= means[0] + 12
-      ? "cool blue/gray tone"
-      : "soft neutral tone";
-
-    const orientation = Number(meta.width || 0) > Number(meta.height || 0) * 1.15
-      ? "wide reference"
-      : Number(meta.height || 0) > Number(meta.width || 0) * 1.15
-      ? "vertical reference"
-      : "square-like reference";
-
-    return [
-      `reference brightness: ${brightness}`,
-      `reference color tone: ${colorTone}`,
-      `reference format: ${orientation}`,
-      "keep similar cleanliness, visual quietness, and amount of empty placement space",
-      "avoid copying any object, product, character, logo, readable text, or exact layout",
-    ].join("; ");
+    return describeBackgroundReference(await analyzeBackgroundReference(buf));
   } catch {
     return "";
   }
@@ -3133,6 +2304,14 @@ export async function POST(req: Request) {
   let logGroundingType: GroundingType | "unknown" = "unknown";
   let logProductCategory: ProductCategory | "unknown" = "unknown";
 
+  /**
+   * 1リクエストの試行ログをまとめる（/api/backgrounds/analytics の集計用）
+   * - kind: "attempt" は生成1回ごと、"result" はリクエストの最終結果
+   */
+  const logRequestId = crypto.randomUUID();
+  let logAttempts = 0;
+  let logMeta: Record<string, unknown> = {};
+
   try {
     const user = await requireUserFromAuthHeader(req);
     const uid = user.uid;
@@ -3141,7 +2320,7 @@ export async function POST(req: Request) {
     const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
 
     const draftId = String(body.draftId ?? "").trim();
-    const brandId = String(body.brandId ?? "vento").trim();
+    const brandId = normalizeBrandId(body.brandId);
     const vision = String(body.vision ?? "").trim();
     const keywords = compactKeywords(body.keywords);
     const rawKeyword = normalizeKeyword(body.keyword);
@@ -3195,6 +2374,15 @@ export async function POST(req: Request) {
       );
     }
 
+    /**
+     * シリーズモード
+     * - ブランドに基準画像（bgSeries）があり有効なら、基準に揃えて生成し一貫性で採用を判定する
+     * - body.seriesMode === false の時だけ、この1枚を単独生成にする
+     */
+    const seriesSpec = normalizeBackgroundSeriesSpec(brand.bgSeries);
+    const activeSeries = seriesSpec?.enabled && body.seriesMode !== false ? seriesSpec : null;
+    const seriesRules = activeSeries ? buildBackgroundSeriesRules(activeSeries) : [];
+
     const db = getAdminDb();
     const draftSnap = await db.collection("drafts").doc(draftId).get();
 
@@ -3236,6 +2424,14 @@ const keywordScenario = resolved.keywordScenario;
     logScene = scene;
     logGroundingType = groundingType;
     logProductCategory = productCategory;
+    logMeta = {
+      requestId: logRequestId,
+      version: AI_BG_VERSION,
+      keywordScenario,
+      sellDirection,
+      backgroundWorldStyle,
+      seriesMode: !!activeSeries,
+    };
 
     const blueprint = buildStructureBlueprint(
       keywordScenario,
@@ -3269,6 +2465,10 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
       size: "1024x1024",
       version: AI_BG_VERSION,
       maxAttempts: MAX_GENERATION_ATTEMPTS,
+      // シリーズなしの時は従来と同じハッシュになるよう、キー自体を入れない
+      ...(activeSeries
+        ? { series: { anchorUrl: activeSeries.anchorUrl, version: activeSeries.version, createdAt: activeSeries.createdAt } }
+        : {}),
     };
 
     const hash = stableHash(cacheIdentity);
@@ -3319,6 +2519,12 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
           referenceImageUsedForGeneration: false,
           generationAttempt: 0,
           backgroundWorldStyle,
+          ...(activeSeries
+            ? {
+                seriesAnchorUrl: activeSeries.anchorUrl,
+                seriesConsistencyScore: Number(meta?.metadata?.seriesConsistencyScore || 0),
+              }
+            : {}),
         },
       });
     }
@@ -3333,9 +2539,42 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
      * 最大2候補を作って比較し、最良を採用する
      */
     const candidates: CandidateResult[] = [];
+    const attemptLogs: Promise<void>[] = [];
     let lastError: unknown = null;
 
+    const logAttempt = (args: {
+      attempt: number;
+      after?: ImageVisibilityAnalysis;
+      acceptScore?: number;
+      seriesConsistency?: BackgroundSeriesConsistency;
+      failureReason?: string;
+    }) => {
+      attemptLogs.push(
+        saveBgLog({
+          uid,
+          draftId,
+          keyword,
+          scene,
+          groundingType,
+          productCategory,
+          attempt: args.attempt,
+          visibilityScore: args.after?.mean ?? 0,
+          contextScore: args.after?.context.contextReadabilityScore ?? 0,
+          acceptScore: args.acceptScore ?? 0,
+          isAccepted: !args.failureReason,
+          failureReason: args.failureReason,
+          meta: {
+            ...logMeta,
+            kind: "attempt",
+            ...(args.seriesConsistency ? { seriesConsistencyScore: args.seriesConsistency.score } : {}),
+          },
+        })
+      );
+    };
+
     for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt += 1) {
+      logAttempts = attempt;
+
       try {
         const mergedRules = buildAttemptMergedRules({
           scene,
@@ -3345,7 +2584,7 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
           sellDirection,
           backgroundWorldStyle,
           keyword,
-          brandRules,
+          brandRules: [...brandRules, ...seriesRules],
           hardConstraints,
           attempt,
         });
@@ -3373,27 +2612,61 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
         const ensured = await ensureAcceptableBackground(rawBuf, groundingType);
         const acceptScore = calcAcceptScore(ensured.after);
 
-        if (acceptScore >= MIN_TOTAL_ACCEPT_SCORE) {
+        // シリーズモードでは、単体で採用できても基準画像と揃っていなければ落とす
+        const seriesConsistency = activeSeries
+          ? await scoreBackgroundSeriesImage(activeSeries, ensured.buffer)
+          : undefined;
+
+        if (acceptScore < MIN_TOTAL_ACCEPT_SCORE) {
+          logAttempt({
+            attempt,
+            after: ensured.after,
+            acceptScore,
+            seriesConsistency,
+            failureReason: `accept score below threshold (score=${acceptScore.toFixed(1)}, min=${MIN_TOTAL_ACCEPT_SCORE})`,
+          });
+        } else if (seriesConsistency && seriesConsistency.score < MIN_SERIES_CONSISTENCY_SCORE) {
+          logAttempt({
+            attempt,
+            after: ensured.after,
+            acceptScore,
+            seriesConsistency,
+            failureReason: `series consistency below threshold (score=${seriesConsistency.score.toFixed(
+              1
+            )}, min=${MIN_SERIES_CONSISTENCY_SCORE}; ${seriesConsistency.reasons.join(" / ")})`,
+          });
+        } else {
           candidates.push({
             ...ensured,
             attempt,
             prompt,
             acceptScore,
+            ...(seriesConsistency ? { seriesConsistency } : {}),
           });
+          logAttempt({ attempt, after: ensured.after, acceptScore, seriesConsistency });
         }
       } catch (e) {
         lastError = e;
+        logAttempt({
+          attempt,
+          failureReason: e instanceof Error ? e.message : "unknown error",
+        });
       }
     }
 
+    await Promise.all(attemptLogs);
+
     if (candidates.length === 0) {
       throw lastError instanceof Error ? lastError : new Error("generate bg failed");
     }
 
     /**
      * 2候補から最良を採用
+     * - シリーズモードでは一貫性も加味する（総合 60% / 一貫性 40%）
      */
-    const ensuredResult = candidates.sort((a, b) => b.acceptScore - a.acceptScore)[0];
+    const rankScore = (c: CandidateResult) =>
+      c.seriesConsistency ? c.acceptScore * 0.6 + c.seriesConsistency.score * 0.4 : c.acceptScore;
+    const ensuredResult = candidates.sort((a, b) => rankScore(b) - rankScore(a))[0];
 
     const token = crypto.randomUUID();
 
@@ -3409,6 +2682,12 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
           referenceImageUsedForGeneration: "false",
           generationAttempt: String(ensuredResult.attempt),
           acceptScore: ensuredResult.acceptScore.toFixed(2),
+          ...(ensuredResult.seriesConsistency
+            ? {
+                seriesAnchorUrl: activeSeries?.anchorUrl || "",
+                seriesConsistencyScore: ensuredResult.seriesConsistency.score.toFixed(1),
+              }
+            : {}),
 
           meanBefore: ensuredResult.before.mean.toFixed(2),
           meanAfter: ensuredResult.after.mean.toFixed(2),
@@ -3531,6 +2810,15 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
         acceptScore: ensuredResult.acceptScore,
 
         isAccepted: true,
+        meta: {
+          ...logMeta,
+          kind: "result",
+          attemptsUsed: logAttempts,
+          acceptedCandidates: candidates.length,
+          ...(ensuredResult.seriesConsistency
+            ? { seriesConsistencyScore: ensuredResult.seriesConsistency.score }
+            : {}),
+        },
       });
     } catch (logError) {
       console.error("[saveBgLog][success] error:", logError);
@@ -3559,6 +2847,10 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
         visibilityBefore: ensuredResult.before,
         visibilityAfter: ensuredResult.after,
       },
+      quality: summarizeBackgroundQuality(ensuredResult.after),
+      ...(activeSeries && ensuredResult.seriesConsistency
+        ? { series: { anchorUrl: activeSeries.anchorUrl, consistency: ensuredResult.seriesConsistency } }
+        : {}),
     });
   } catch (e: any) {
     try {
@@ -3579,6 +2871,12 @@ type: "bg_usage_context_v27_front_facing_study_tabletop_composition",
 
         isAccepted: false,
         failureReason: e?.message || "unknown error",
+        meta: {
+          ...logMeta,
+          requestId: logRequestId,
+          kind: "result",
+          attemptsUsed: logAttempts,
+        },
       });
     } catch (logError) {
       console.error("[saveBgLog][failure] error:", logError);
@@ -4,6 +4,27 @@ import { NextResponse } from "next/server";
 import OpenAI from "openai";
 import { getAdminAuth, getAdminDb } from "@/firebaseAdmin";
 import { buildAoiFlowGenerationMarketContext } from "@/lib/marketFusion";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import {
+  captionLanguageOption,
+  isOverseasCaptionLanguage,
+  normalizeCaptionLanguage,
+} from "@/lib/drafts/captionLanguages";
+import {
+  buildHashtagLearning,
+  extractHashtags,
+  normalizeBrandHashtagSets,
+  scoreHashtagCandidates,
+} from "@/lib/hashtags/scoring";
+import {
+  buildCaptionExperimentReport,
+  captionExperimentPromptLines,
+} from "@/lib/drafts/captionExperiments";
+import {
+  captionExperimentRows,
+  hashtagOutcomeSamples,
+  loadOutcomeDrafts,
+} from "@/lib/server/draftOutcomes";
 
 export const runtime = "nodejs";
 
@@ -121,7 +142,7 @@ export async function POST(req: Request) {
      * - 既存の brandId / vision / keywords はそのまま維持
      * - 既存フロントが壊れないようにしています
      */
-    const brandId = typeof body.brandId === "string" ? body.brandId : "vento";
+    const brandId = normalizeBrandId(body.brandId);
     const vision = typeof body.vision === "string" ? body.vision : "";
     const keywords = compactKeywords(body.keywords);
 
@@ -143,6 +164,17 @@ export async function POST(req: Request) {
     const productCautions = toStringArray(body.productCautions, 8);
     const salesGoal = toSafeString(body.salesGoal);
 
+    /**
+     * 対象言語（未指定は日本語 = 従来どおり）
+     * - 海外向けは EC 出品文（title / description / bullets）だけを作る
+     * - sourceListing は日本語の出品文（あれば内容を揃えるための参考）
+     */
+    const language = normalizeCaptionLanguage(body.language);
+    const source = body.sourceListing && typeof body.sourceListing === "object" ? body.sourceListing : {};
+    const sourceEcTitle = toSafeString(source.ecTitle);
+    const sourceEcDescription = toSafeString(source.ecDescription);
+    const sourceEcBullets = toStringArray(source.ecBullets, 5);
+
     const marketContext = buildAoiFlowGenerationMarketContext({
       marketTheory: body.marketTheory,
       designGrammar: body.designGrammar,
@@ -193,6 +225,131 @@ export async function POST(req: Request) {
 
     const client = new OpenAI({ apiKey });
 
+    /**
+     * 海外向け EC 出品文
+     * - 日本語の文章とは別の呼び出し（SNS文章は作らない）
+     * - must / ban は日本語で登録されていても、意味で守らせる
+     */
+    if (isOverseasCaptionLanguage(language)) {
+      const lang = captionLanguageOption(language);
+
+      const overseasSys = [
+        `あなたは海外マーケット向けのEC出品文を書くライターです。出力言語は ${lang.promptName} です。`,
+        `想定する出品先: ${lang.marketplaceHint}`,
+        "直訳ではなく、現地の購入者が自然に読める言い回しで書いてください。",
+        "日本の商品であること・状態・サイズ感など、海外の購入者が判断に使う情報を優先してください。",
+        "煽りすぎ、誇大表現、断定的な言い切りは禁止です。",
+        "出力は必ずJSONスキーマに一致させてください。",
+      ].join("\n");
+
+      const overseasPrompt = [
+        "【ブランド設定】",
+        `name: ${String(brand.name ?? brandId)}`,
+        `voiceText: ${voiceText}`,
+        `must: ${must.join(" / ")}`,
+        `ban: ${ban.join(" / ")}`,
+        `toneDefault: ${toneDefault}`,
+        "",
+        "【今回入力】",
+        `vision: ${vision}`,
+        `keywords: ${keywords}`,
+        `productName: ${productName}`,
+        `productCategory: ${productCategory}`,
+        `productPrice: ${productPrice}`,
+        `productFeatures: ${productFeatures.join(" / ")}`,
+        `productMaterials: ${productMaterials.join(" / ")}`,
+        `productCautions: ${productCautions.join(" / ")}`,
+        "",
+        "【日本語の出品文（参考・内容を揃える）】",
+        `ecTitle: ${sourceEcTitle}`,
+        `ecDescription: ${sourceEcDescription}`,
+        `ecBullets: ${sourceEcBullets.join(" / ")}`,
+        "",
+        "【出力ルール】",
+        `- すべて ${lang.promptName} で書く（固有名詞・型番はそのままでよい）`,
+        "- ecTitle は検索されやすい商品名。短く、わかりやすく、誇大表現なし",
+        "- ecDescription は誰向けか、何が良いか、状態や注意点を自然に含める",
+        "- ecBullets は箇条書き3つ。特徴・利点・使いどころを簡潔に書く",
+        "- must の内容は訳して自然に反映する",
+        "- ban の語句は、その訳語・言い換え・同じ意味の表現も含めて絶対に使わない",
+      ].join("\n");
+
+      const overseasResp = await client.responses.create({
+        model: "gpt-4o-mini",
+        input: [
+          { role: "system", content: overseasSys },
+          { role: "user", content: overseasPrompt },
+        ],
+        text: {
+          format: {
+            type: "json_schema",
+            name: "overseas_listing_payload",
+            strict: true,
+            schema: {
+              type: "object",
+              additionalProperties: false,
+              properties: {
+                ecTitle: { type: "string" },
+                ecDescription: { type: "string" },
+                ecBullets: {
+                  type: "array",
+                  items: { type: "string" },
+                  minItems: 3,
+                  maxItems: 3,
+                },
+              },
+              required: ["ecTitle", "ecDescription", "ecBullets"],
+            },
+          },
+        },
+      });
+
+      const overseasOut = parseJsonSafely(overseasResp.output_text || "{}");
+
+      return NextResponse.json({
+        language,
+        ecTitle: fallbackString(overseasOut.ecTitle, ""),
+        ecDescription: fallbackString(overseasOut.ecDescription, ""),
+        ecBullets: toStringArray(overseasOut.ecBullets, 3),
+        brandRules: { must, ban },
+      });
+    }
+
+    /**
+     * ハッシュタグ候補
+     * - ブランドのセット / キーワード / 売れる診断の抽出語 / 過去の成果で点数を付ける
+     * - 上位をプロンプトに渡し、生成後は本文のタグも足して並べ直して返す
+     */
+    const outcomeDrafts = await loadOutcomeDrafts(getAdminDb(), uid, brandId).catch((e) => {
+      // 学習材料が読めなくても文章生成は止めない（原因はログに残す）
+      console.error("[generate-captions] outcome drafts unavailable:", e);
+      return [];
+    });
+
+    const hashtagKeywords = toStringArray(body.keywords, 12);
+    const sellCheckKeywords = toStringArray(body.sellCheckKeywords, 20);
+    const hashtagSets = normalizeBrandHashtagSets(brand.hashtagSets);
+    const hashtagLearning = buildHashtagLearning(hashtagOutcomeSamples(outcomeDrafts, brandId));
+    const hashtagHints = scoreHashtagCandidates({
+      brandSets: hashtagSets,
+      keywords: hashtagKeywords,
+      sellCheckKeywords,
+      learning: hashtagLearning,
+      limit: 12,
+    });
+
+    /**
+     * 文章の A/B の成果
+     * - 同じブランド・同じ画像の目的で、売れた / 反応が良かった文章の型と例
+     */
+    const imagePurpose = ["sales", "branding", "trust", "story"].includes(body.imagePurpose)
+      ? body.imagePurpose
+      : undefined;
+    const experimentLines = captionExperimentPromptLines(
+      buildCaptionExperimentReport(captionExperimentRows(outcomeDrafts)),
+      { brandId, imagePurpose }
+    );
+
     /**
      * 8) システムプロンプト
      *
@@ -259,6 +416,12 @@ export async function POST(req: Request) {
       `commonWorldviews: ${marketContext.commonWorldviews.join(" / ")}`,
       `commonStories: ${marketContext.commonStories.join(" / ")}`,
       "",
+      ...(experimentLines.length > 0
+        ? ["【過去の投稿の成果（文章の型と例）】", ...experimentLines, ""]
+        : []),
+      "【ハッシュタグ候補（点数順）】",
+      hashtagHints.map((h) => h.tag).join(" "),
+      "",
       "【出力ルール】",
       "- instagram は投稿できる本文。長すぎず、共感→魅力→自然な締めの流れにする",
       "- x は短く、広告臭なし、読み飛ばされにくい書き方にする",
@@ -270,6 +433,8 @@ export async function POST(req: Request) {
       "- ecBullets は EC用の箇条書き3つ。特徴・利点・使いどころを簡潔に書く",
       "- どの文章も不自然な誇張、うるさいセールス、過剰な感嘆符は避ける",
       "- must があれば自然に反映し、ban は絶対に避ける",
+      "- instagram / instagramSales のハッシュタグは候補を優先し、合わせて10個前後にする",
+      "- 過去の投稿の成果があれば、成果が良い型に寄せる（例の言い回しはそのまま使わない）",
     ].join("\n");
 
     /**
@@ -342,6 +507,14 @@ export async function POST(req: Request) {
     const raw = resp.output_text || "{}";
     const out = parseJsonSafely(raw);
 
+    const hashtagSuggestions = scoreHashtagCandidates({
+      brandSets: hashtagSets,
+      keywords: hashtagKeywords,
+      sellCheckKeywords,
+      captionTags: [...extractHashtags(out.instagram), ...extractHashtags(out.instagramSales)],
+      learning: hashtagLearning,
+    });
+
     /**
      * 12) 既存返却 + 追加返却
      *
@@ -351,6 +524,8 @@ export async function POST(req: Request) {
      * - 既存フロントが古いままでも壊れにくい
      */
     return NextResponse.json({
+      language,
+
       /**
        * 既存
        */
@@ -381,6 +556,16 @@ export async function POST(req: Request) {
       designGrammar: marketContext.designGrammar,
       commonWorldviews: marketContext.commonWorldviews,
       commonStories: marketContext.commonStories,
+
+      /**
+       * 画面側の文章チェック（禁止語・必須語）に使う
+       */
+      brandRules: { must, ban },
+
+      /**
+       * ハッシュタグ候補（点数順）
+       */
+      hashtagSuggestions,
     });
   } catch (e: any) {
     console.error(e);
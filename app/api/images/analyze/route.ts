@@ -0,0 +1,127 @@
+// app/api/images/analyze/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { scoreBackgroundImage } from "@/lib/server/backgroundQuality";
+import type { BackgroundQualitySummary } from "@/lib/types/draft";
+
+/**
+ * AOI FLOW
+ * 画像の採点API
+ *
+ * ✅ AI背景生成と同じ基準（総合採用スコア・文脈読解・構図）で任意の画像を採点する
+ * ✅ アップロード背景 / ライブラリ画像 / 合成画像を、選ぶ前にスコアと理由つきで確認できる
+ * ✅ url 1件 / urls 複数（最大24件）/ dataUrl のどれでも受け付ける
+ */
+
+const MAX_IMAGES = 24;
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+
+type AnalyzeResult = {
+  url: string;
+  quality?: BackgroundQualitySummary;
+  analysis?: unknown;
+  error?: string;
+};
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+function asTrimmedString(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function isHttpUrl(v: string): boolean {
+  return /^https?:\/\//i.test(v);
+}
+
+async function fetchImageBuffer(url: string): Promise<Buffer> {
+  const r = await fetch(url, { cache: "no-store" as any });
+  if (!r.ok) throw new Error(`image fetch failed: ${r.status}`);
+
+  const contentType = String(r.headers.get("content-type") || "");
+  if (contentType && !contentType.startsWith("image/") && !contentType.includes("octet-stream")) {
+    throw new Error(`not an image: ${contentType}`);
+  }
+
+  const buf = Buffer.from(await r.arrayBuffer());
+  if (buf.length > MAX_IMAGE_BYTES) throw new Error("image too large");
+  return buf;
+}
+
+function dataUrlToBuffer(dataUrl: string): Buffer {
+  const m = dataUrl.match(/^data:image\/[\w.+-]+;base64,(.+)$/);
+  if (!m) throw new Error("invalid dataUrl");
+
+  const buf = Buffer.from(m[1], "base64");
+  if (buf.length > MAX_IMAGE_BYTES) throw new Error("image too large");
+  return buf;
+}
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function POST(req: Request) {
+  // ✅ 認証必須
+  try {
+    await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({} as any));
+    const detail = body?.detail === true;
+    const dataUrl = asTrimmedString(body?.dataUrl);
+
+    const urls = Array.from(
+      new Set(
+        [asTrimmedString(body?.url), ...(Array.isArray(body?.urls) ? body.urls.map(asTrimmedString) : [])].filter(
+          Boolean
+        )
+      )
+    );
+
+    if (!dataUrl && urls.length === 0) return bad("url, urls or dataUrl is required");
+    if (urls.length > MAX_IMAGES) return bad(`urls must be ${MAX_IMAGES} or fewer`);
+
+    const invalid = urls.find((u) => !isHttpUrl(u));
+    if (invalid) return bad("urls must be http(s) URLs");
+
+    const results: AnalyzeResult[] = [];
+
+    if (dataUrl) {
+      let buf: Buffer;
+      try {
+        buf = dataUrlToBuffer(dataUrl);
+      } catch (error) {
+        return bad(safeError(error));
+      }
+
+      // 形式は正しくても画像として読めない中身は入力エラー
+      const scored = await scoreBackgroundImage(buf).catch(() => null);
+      if (!scored) return bad("dataUrl is not a readable image");
+
+      results.push({ url: "dataUrl", quality: scored.summary, ...(detail ? { analysis: scored.analysis } : {}) });
+    }
+
+    // 1件ずつ順番に解析する（同時に展開するとメモリを食うため）
+    for (const url of urls) {
+      try {
+        const { summary, analysis } = await scoreBackgroundImage(await fetchImageBuffer(url));
+        results.push({ url, quality: summary, ...(detail ? { analysis } : {}) });
+      } catch (e: any) {
+        results.push({ url, error: e?.message || "analyze failed" });
+      }
+    }
+
+    return NextResponse.json({ ok: true, results }, { status: 200 });
+  } catch (e: any) {
+    console.error("[images/analyze]", e);
+    return NextResponse.json({ ok: false, error: e?.message || "analyze failed" }, { status: 500 });
+  }
+}
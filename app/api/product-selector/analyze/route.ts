@@ -9,6 +9,7 @@ import {
   buildProductSelectorUserPrompt,
   normalizeProductSelectorAiResult,
 } from "@/lib/productSelector/aiTheory";
+import { normalizeBrandId, normalizeBrandResearchProfile } from "@/lib/brand/brands";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -35,9 +36,24 @@ function normalizeInput(raw: unknown): ProductSelectorInput {
     category: safeString(obj.category),
     keywords: safeString(obj.keywords),
     memo: safeString(obj.memo),
+    brandId: normalizeBrandId(obj.brandId),
   };
 }
 
+/**
+ * ブランド相性の判定材料（users/{uid}/brands/{brandId}.researchProfile）
+ * - 読めない時は雛形で続ける
+ */
+async function loadBrandResearchProfile(uid: string, brandId: string) {
+  try {
+    const snap = await getAdminDb().doc(`users/${uid}/brands/${brandId}`).get();
+    return normalizeBrandResearchProfile(snap.exists ? snap.data() : null, brandId);
+  } catch (e) {
+    console.warn("[PRODUCT_SELECTOR] brand load failed", e);
+    return normalizeBrandResearchProfile(null, brandId);
+  }
+}
+
 function extractJsonObject(text: string): unknown {
   const cleaned = text
     .replace(/^```json\s*/i, "")
@@ -70,7 +86,8 @@ export async function POST(req: Request) {
     const domesticDemand = safeString(bodyInput.domesticDemand) || "国内需要：PRODUCT SELECTORでは国内売却済み・検索語・SNS反応を別評価してください。";
     const overseasDemand = safeString(bodyInput.overseasDemand) || "海外需要：PRODUCT SELECTORではeBay SOLD・英語検索・Reddit反応を別評価してください。";
 
-    const fallback = evaluateProductCandidate(input);
+    const brandProfile = await loadBrandResearchProfile(user.uid, input.brandId ?? "");
+    const fallback = evaluateProductCandidate(input, brandProfile);
 
     const hasAnyInput = [
     input.name,
@@ -117,7 +134,7 @@ export async function POST(req: Request) {
         },
         {
           role: "user",
-          content: buildProductSelectorUserPrompt(input),
+          content: buildProductSelectorUserPrompt(input, brandProfile),
         },
       ],
     });
@@ -1,6 +1,7 @@
 // /app/api/recommend-scene/route.ts
 import { NextResponse } from "next/server";
 import { getAdminAuth, getAdminDb } from "@/firebaseAdmin";
+import { normalizeBrandId } from "@/lib/brand/brands";
 
 export const runtime = "nodejs";
 
@@ -39,7 +40,7 @@ export async function POST(req: Request) {
     const uid = await requireUid(req);
     const body = await req.json().catch(() => ({} as any));
 
-    const brandId = typeof body.brandId === "string" ? body.brandId : "vento";
+    const brandId = normalizeBrandId(body.brandId);
     const vision = typeof body.vision === "string" ? body.vision.trim() : "";
     const keywordsArr = compactKeywords(body.keywords);
     const productImageUrl =
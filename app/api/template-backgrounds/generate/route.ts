@@ -9,6 +9,22 @@ import sharp from "sharp";
 
 import { requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
 import { getAdminDb } from "@/firebaseAdmin";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import { normalizeBrandKit } from "@/lib/brand/brandKit";
+import {
+  normalizeProceduralBgStyle,
+  normalizeProceduralLightDirection,
+} from "@/lib/image/proceduralBackgroundOptions";
+import {
+  renderProceduralBackground,
+  type ProceduralBackgroundParams,
+} from "@/lib/server/proceduralBackgrounds";
+import {
+  analyzeImageLight,
+  isTooBrightImage,
+  isTooDarkImage,
+  type ImageLightAnalysis,
+} from "@/lib/server/backgroundQuality";
 
 /**
  * AOI FLOW
@@ -27,6 +43,12 @@ import { getAdminDb } from "@/firebaseAdmin";
  * - 必要なら軽い明度補正をかける
  * - 暗すぎる画像は弾く
  * - 黒背景キャッシュ再利用を避けるため version を更新
+ *
+ * 定型背景（renderer: "procedural"）
+ * - スタジオ / グラデーション / 床と壁 / 紙 は OpenAI を呼ばず、サーバで描く（無料・即時）
+ * - 色はブランドキットの配色、光の向き・接地・売り方は同じ語彙
+ * - vision / keywords はキャッシュキーに入れない（同じ条件なら同じ画像を再利用）
+ * - 保存先・templateBgUrls・画像ライブラリへの複製は AI テンプレ背景と同じ
  */
 
 type TemplateBgCategory = "light" | "white" | "dark" | "wood" | "studio";
@@ -46,18 +68,13 @@ type TemplateGenerateBody = {
   productSize?: unknown;
   groundingType?: unknown;
   sellDirection?: unknown;
+  renderer?: unknown;
+  proceduralStyle?: unknown;
+  lightDirection?: unknown;
 };
 
 const TEMPLATE_BG_VERSION = "v5_soft_no_glare_user_intent";
-
-type ImageLightAnalysis = {
-  mean: number;
-  minChannelMean: number;
-  darkPixelRatio: number;
-  nearBlackPixelRatio: number;
-  width: number;
-  height: number;
-};
+const PROCEDURAL_BG_VERSION = "procedural_v1";
 
 function bad(msg: string, status = 400) {
   return NextResponse.json({ ok: false, error: msg }, { status });
@@ -640,64 +657,6 @@ async function requestOpenAIImage(args: { apiKey: string; prompt: string }) {
   return { openaiRes, openaiJson };
 }
 
-async function analyzeImageLight(buf: Buffer): Promise<ImageLightAnalysis> {
-  const image = sharp(buf, { failOn: "none" });
-  const meta = await image.metadata();
-
-  const { data, info } = await image
-    .removeAlpha()
-    .raw()
-    .toBuffer({ resolveWithObject: true });
-
-  const width = Number(info.width || meta.width || 0);
-  const height = Number(info.height || meta.height || 0);
-  const channels = Number(info.channels || 3);
-  const totalPixels = Math.max(1, width * height);
-
-  let sum = 0;
-  let darkCount = 0;
-  let nearBlackCount = 0;
-
-  for (let i = 0; i < data.length; i += channels) {
-    const r = data[i] ?? 0;
-    const g = data[i + 1] ?? 0;
-    const b = data[i + 2] ?? 0;
-
-    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-    sum += luminance;
-
-    if (luminance < 58) darkCount += 1;
-    if (luminance < 28) nearBlackCount += 1;
-  }
-
-  const stats = await image.removeAlpha().stats();
-  const rMean = stats.channels[0]?.mean ?? 0;
-  const gMean = stats.channels[1]?.mean ?? 0;
-  const bMean = stats.channels[2]?.mean ?? 0;
-
-  return {
-    mean: sum / totalPixels,
-    minChannelMean: Math.min(rMean, gMean, bMean),
-    darkPixelRatio: darkCount / totalPixels,
-    nearBlackPixelRatio: nearBlackCount / totalPixels,
-    width,
-    height,
-  };
-}
-
-function isTooDarkImage(a: ImageLightAnalysis): boolean {
-  return (
-    a.mean < 88 ||
-    a.minChannelMean < 72 ||
-    a.darkPixelRatio > 0.42 ||
-    a.nearBlackPixelRatio > 0.12
-  );
-}
-
-function isTooBrightImage(a: ImageLightAnalysis): boolean {
-  return a.mean > 205 || a.minChannelMean > 198;
-}
-
 /**
  * テンプレ背景は「明るければ良い」ではなく、商品を置いても白飛びしないことが重要。
  * 以前は暗さ対策として明るく補正していたため、白飛びテンプレが出やすかった。
@@ -791,7 +750,7 @@ export async function POST(req: Request) {
     const body = (await req.json().catch(() => ({}))) as TemplateGenerateBody;
 
     const draftId = asTrimmedString(body.draftId);
-    const brandId = asTrimmedString(body.brandId) || "vento";
+    const brandId = normalizeBrandId(body.brandId);
     const vision = asTrimmedString(body.vision);
     const keywords = compactKeywords(body.keywords);
     const referenceImageUrl = asTrimmedString(body.referenceImageUrl);
@@ -801,9 +760,10 @@ export async function POST(req: Request) {
     const productSize = normalizeProductSize(body.productSize);
     const groundingType = normalizeGroundingType(body.groundingType);
     const sellDirection = normalizeSellDirection(body.sellDirection);
+    const isProcedural = asTrimmedString(body.renderer) === "procedural";
 
     if (!draftId) return bad("draftId is required");
-    if (!vision) return bad("vision is required");
+    if (!vision && !isProcedural) return bad("vision is required");
 
     const brand = await loadBrand(uid, brandId);
     if (!brand) {
@@ -821,6 +781,20 @@ export async function POST(req: Request) {
       return bad("forbidden", 403);
     }
 
+    const brandKit = normalizeBrandKit((brand as any).brandKit, brandId);
+    const procedural: ProceduralBackgroundParams | null = isProcedural
+      ? {
+          style: normalizeProceduralBgStyle(body.proceduralStyle),
+          lightDirection: normalizeProceduralLightDirection(body.lightDirection),
+          groundingType,
+          sellDirection,
+          palette: {
+            primary: brandKit.palette.primary,
+            secondary: brandKit.palette.secondary,
+          },
+        }
+      : null;
+
     const styleText = asTrimmedString((brand as any).styleText);
     const brandRules = readBrandTextArray((brand as any).rules);
 
@@ -848,26 +822,38 @@ export async function POST(req: Request) {
       hardRules,
     });
 
-    const hash = stableHash({
-      uid,
-      draftId,
-      brandId,
-      vision,
-      keywords,
-      templateCategory,
-      productCategory,
-      productSize,
-      groundingType,
-      sellDirection,
-      styleText,
-      hardRules,
-      type: "template_background_generate_v3_no_reference_image_brightness_guard",
-      size: "1024x1024",
-      version: TEMPLATE_BG_VERSION,
-    });
+    const hash = procedural
+      ? stableHash({
+          uid,
+          draftId,
+          brandId,
+          procedural,
+          type: "template_background_procedural",
+          size: "1024x1024",
+          version: PROCEDURAL_BG_VERSION,
+        })
+      : stableHash({
+          uid,
+          draftId,
+          brandId,
+          vision,
+          keywords,
+          templateCategory,
+          productCategory,
+          productSize,
+          groundingType,
+          sellDirection,
+          styleText,
+          hardRules,
+          type: "template_background_generate_v3_no_reference_image_brightness_guard",
+          size: "1024x1024",
+          version: TEMPLATE_BG_VERSION,
+        });
+
+    const templateId = procedural ? `procedural_${procedural.style}_${hash}` : `${templateCategory}_${hash}`;
 
     const bucket = getStorage().bucket();
-    const objectPath = `users/${uid}/drafts/${draftId}/template-bg/${templateCategory}_${hash}.png`;
+    const objectPath = `users/${uid}/drafts/${draftId}/template-bg/${templateId}.png`;
     const fileRef = bucket.file(objectPath);
 
     const [exists] = await fileRef.exists();
@@ -899,7 +885,7 @@ export async function POST(req: Request) {
         bucket,
         uid,
         sourcePath: objectPath,
-        fileName: `${templateCategory}_${hash}.png`,
+        fileName: `${templateId}.png`,
       }).catch(() => "");
 
       const prevTemplateBgUrls = Array.isArray(draftData.templateBgUrls)
@@ -931,59 +917,69 @@ export async function POST(req: Request) {
         libraryUrl,
         templateCategory,
         tags,
-        templateId: `${templateCategory}_${hash}`,
+        templateId,
         meta: {
           purpose: "template_background",
-          version: TEMPLATE_BG_VERSION,
+          version: procedural ? PROCEDURAL_BG_VERSION : TEMPLATE_BG_VERSION,
+          renderer: procedural ? "procedural" : "ai",
+          ...(procedural ? { procedural } : {}),
           referenceImageAccepted: !!referenceImageUrl,
           referenceImageUsedForGeneration: false,
         },
       });
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) return bad("OPENAI_API_KEY missing", 500);
-
-    let { openaiRes, openaiJson } = await requestOpenAIImage({ apiKey, prompt });
+    let rawBuf: Buffer;
     let usedSafetyFallback = false;
 
-    if (!openaiRes.ok) {
-      const firstMessage = openaiJson?.error?.message || "openai image generation error";
+    if (procedural) {
+      // 定型背景：OpenAI を呼ばずに描く
+      rawBuf = await renderProceduralBackground(procedural);
+    } else {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) return bad("OPENAI_API_KEY missing", 500);
 
-      if (isOpenAISafetyRejection(firstMessage)) {
-        usedSafetyFallback = true;
+      let { openaiRes, openaiJson } = await requestOpenAIImage({ apiKey, prompt });
 
-        const fallbackPrompt = buildSafeFallbackPrompt({
-          templateCategory,
-          productCategory,
-          productSize,
-          groundingType,
-          sellDirection,
-          hardRules,
-        });
-
-        const retry = await requestOpenAIImage({ apiKey, prompt: fallbackPrompt });
-        openaiRes = retry.openaiRes;
-        openaiJson = retry.openaiJson;
+      if (!openaiRes.ok) {
+        const firstMessage = openaiJson?.error?.message || "openai image generation error";
+
+        if (isOpenAISafetyRejection(firstMessage)) {
+          usedSafetyFallback = true;
+
+          const fallbackPrompt = buildSafeFallbackPrompt({
+            templateCategory,
+            productCategory,
+            productSize,
+            groundingType,
+            sellDirection,
+            hardRules,
+          });
+
+          const retry = await requestOpenAIImage({ apiKey, prompt: fallbackPrompt });
+          openaiRes = retry.openaiRes;
+          openaiJson = retry.openaiJson;
+        }
+
+        if (!openaiRes.ok) {
+          const finalMessage = openaiJson?.error?.message || firstMessage;
+          return bad(
+            isOpenAISafetyRejection(finalMessage)
+              ? "画像生成の安全判定により、テンプレ背景生成が拒否されました。別の背景タイプで再試行してください。"
+              : finalMessage,
+            500
+          );
+        }
       }
 
-      if (!openaiRes.ok) {
-        const finalMessage = openaiJson?.error?.message || firstMessage;
-        return bad(
-          isOpenAISafetyRejection(finalMessage)
-            ? "画像生成の安全判定により、テンプレ背景生成が拒否されました。別の背景タイプで再試行してください。"
-            : finalMessage,
-          500
-        );
+      const b64 = openaiJson?.data?.[0]?.b64_json;
+      if (typeof b64 !== "string" || !b64) {
+        return bad("no image returned", 500);
       }
-    }
 
-    const b64 = openaiJson?.data?.[0]?.b64_json;
-    if (typeof b64 !== "string" || !b64) {
-      return bad("no image returned", 500);
+      rawBuf = Buffer.from(b64, "base64");
     }
 
-    const rawBuf = Buffer.from(b64, "base64");
     const ensured = await ensureAcceptableBackground(rawBuf, "template");
 
     const token = crypto.randomUUID();
@@ -994,7 +990,8 @@ export async function POST(req: Request) {
       metadata: {
         metadata: {
           firebaseStorageDownloadTokens: token,
-          templateBackgroundVersion: TEMPLATE_BG_VERSION,
+          templateBackgroundVersion: procedural ? PROCEDURAL_BG_VERSION : TEMPLATE_BG_VERSION,
+          templateRenderer: procedural ? "procedural" : "ai",
           referenceImageAccepted: String(!!referenceImageUrl),
           referenceImageUsedForGeneration: "false",
           lightMeanBefore: ensured.before.mean.toFixed(2),
@@ -1012,7 +1009,7 @@ export async function POST(req: Request) {
       bucket,
       uid,
       sourcePath: objectPath,
-      fileName: `${templateCategory}_${hash}.png`,
+      fileName: `${templateId}.png`,
     }).catch(() => "");
 
     const prevTemplateBgUrls = Array.isArray(draftData.templateBgUrls)
@@ -1045,10 +1042,12 @@ export async function POST(req: Request) {
       libraryUrl,
       templateCategory,
       tags,
-      templateId: `${templateCategory}_${hash}`,
+      templateId,
       meta: {
         purpose: "template_background",
-        version: TEMPLATE_BG_VERSION,
+        version: procedural ? PROCEDURAL_BG_VERSION : TEMPLATE_BG_VERSION,
+        renderer: procedural ? "procedural" : "ai",
+        ...(procedural ? { procedural } : {}),
         referenceImageAccepted: !!referenceImageUrl,
         referenceImageUsedForGeneration: false,
         usedSafetyFallback,
@@ -0,0 +1,183 @@
+// /app/api/video/audio/route.ts
+// ✅ 完成動画に音（BGM）を付けるルート
+// - 映像はそのまま、音だけ頭出し・フェード・音量をそろえて付ける（lib/video/audio.ts）
+// - 付けた音の設定は productVideo.audio / cmVideo.audio に残す
+//   → MP4化・文字焼き込みをやり直す時も同じ音を付け直せる
+
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+import admin from "firebase-admin";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { getAdminBucket } from "@/firebaseAdmin";
+import { attachAudioTrackToMp4, downloadAudioTrack } from "@/lib/video/audio";
+import { normalizeVideoAudioTrack } from "@/lib/video/audioTrack";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 入力
+ * - { draftId, target: "product" | "cm", videoUrl, audio }
+ *   audio: VideoAudioTrack（null なら「音なし」として記録だけ消す）
+ *
+ * ✅ 下書きの所有者以外は 403
+ * ✅ 音源は自分のライブラリ（users/{uid}/brands/）のものだけ
+ * ✅ 出力は users/{uid}/drafts/{draftId}/audio/{ts}.mp4
+ */
+
+const MAX_VIDEO_BYTES = 200 * 1024 * 1024;
+const MAX_HISTORY = 10;
+
+type Target = "product" | "cm";
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function storageDownloadUrl(bucketName: string, filePath: string, token: string) {
+  const encoded = encodeURIComponent(filePath);
+  return `https://firebasestorage.googleapis.com/v0/b/${bucketName}/o/${encoded}?alt=media&token=${token}`;
+}
+
+function prependUnique(url: string, list: unknown) {
+  const prev = Array.isArray(list) ? list.map((x) => asTrimmedString(x)).filter(Boolean) : [];
+  return [url, ...prev.filter((x) => x !== url)].slice(0, MAX_HISTORY);
+}
+
+async function fetchVideoBuffer(url: string) {
+  if (!/^https?:\/\//i.test(url)) throw new Error("videoUrl は http(s) のURLにしてください");
+
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`動画の取得に失敗しました (${res.status})`);
+
+  const buffer = Buffer.from(await res.arrayBuffer());
+  if (!buffer.length) throw new Error("動画データが空です");
+  if (buffer.length > MAX_VIDEO_BYTES) throw new Error("動画が大きすぎます");
+  return buffer;
+}
+
+/** 保存済みの値を残したまま音の項目だけ差し替える */
+function buildNextVideoField(target: Target, current: Record<string, any>, patch: Record<string, unknown>) {
+  if (target === "cm") {
+    const prev = current.cmVideo && typeof current.cmVideo === "object" ? current.cmVideo : {};
+    const overlayUrl = asTrimmedString(patch.url);
+    return {
+      ...prev,
+      provider: "runway",
+      audio: patch.audio,
+      ...(overlayUrl
+        ? { overlayUrl, overlayPath: patch.path ?? null, overlayUrls: prependUnique(overlayUrl, prev.overlayUrls) }
+        : {}),
+      updatedAt: Date.now(),
+    };
+  }
+
+  const prev = current.productVideo && typeof current.productVideo === "object" ? current.productVideo : {};
+  const url = asTrimmedString(patch.url);
+  return {
+    source: "nonai",
+    url: null,
+    urls: [],
+    preset: current.nonAiVideoPreset ?? null,
+    burnedUrl: null,
+    burnedUrls: [],
+    ...prev,
+    audio: patch.audio,
+    ...(url ? { url, urls: prependUnique(url, prev.urls) } : {}),
+  };
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    const draftId = asTrimmedString(body.draftId);
+    const target: Target = body.target === "cm" ? "cm" : "product";
+    const videoUrl = asTrimmedString(body.videoUrl);
+    const audio = normalizeVideoAudioTrack(body.audio);
+
+    if (!draftId) {
+      return NextResponse.json({ ok: false, error: "draftId がありません" }, { status: 400 });
+    }
+    if (audio && !videoUrl) {
+      return NextResponse.json({ ok: false, error: "videoUrl がありません" }, { status: 400 });
+    }
+
+    const ref = getAdminDb().collection("drafts").doc(draftId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, error: "draft not found" }, { status: 404 });
+    }
+    const current = snap.data() || {};
+    if (String(current.userId) !== user.uid) {
+      return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+    }
+
+    const field = target === "cm" ? "cmVideo" : "productVideo";
+
+    // 音なしに戻す：記録だけ消す（今ある動画ファイルはそのまま）
+    if (!audio) {
+      const next = buildNextVideoField(target, current, { audio: null });
+      await ref.set({ [field]: next, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+      return NextResponse.json({ ok: true, draftId, target, audio: null, [field]: next });
+    }
+
+    const bucket = getAdminBucket();
+    const bucketName = String(bucket?.name || "").trim();
+    if (!bucketName) {
+      return NextResponse.json({ ok: false, error: "storage bucket name is empty" }, { status: 500 });
+    }
+
+    const [video, audioBuffer] = await Promise.all([
+      fetchVideoBuffer(videoUrl),
+      downloadAudioTrack(user.uid, audio),
+    ]);
+
+    const mixed = await attachAudioTrackToMp4({ video, audio: audioBuffer, track: audio });
+
+    const token = crypto.randomUUID();
+    const mp4Path = `users/${user.uid}/drafts/${draftId}/audio/${Date.now()}.mp4`;
+
+    await bucket.file(mp4Path).save(mixed.buffer, {
+      contentType: "video/mp4",
+      resumable: false,
+      metadata: {
+        metadata: { firebaseStorageDownloadTokens: token },
+        cacheControl: "public,max-age=31536000",
+      },
+    });
+
+    const mp4Url = storageDownloadUrl(bucketName, mp4Path, token);
+    const savedAudio = { ...audio, updatedAt: Date.now() };
+    const next = buildNextVideoField(target, current, { audio: savedAudio, url: mp4Url, path: mp4Path });
+
+    await ref.set({ [field]: next, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+
+    return NextResponse.json({
+      ok: true,
+      draftId,
+      target,
+      audio: savedAudio,
+      mp4Url,
+      mp4Path,
+      url: mp4Url,
+      videoUrl: mp4Url,
+      videoSeconds: mixed.videoSeconds,
+      audioSeconds: mixed.audioSeconds,
+      [field]: next,
+    });
+  } catch (error) {
+    console.error("[video/audio] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
@@ -1,25 +1,169 @@
 // /app/api/video/nonai/route.ts
-// ✅ 非AI動画の旧ルート（封印）
-// - サーバ生成案の名残（ダミーURL返却など）を残すと、誤って叩いた時に事故る
-// - 非AI(webm)は「クライアント生成 → /api/upload-video-webm」に一本化する
-// - 必要なら後段で /api/finalize-mp4（任意）を使う
+// ✅ 非AI動画のサーバ描画ルート
+// - ブラウザ版（lib/nonAiVideo/generate.ts）と同じ入力・同じ動きで MP4 を作る
+// - Canvas / MediaRecorder を使わないので、端末の性能でコマ落ち・長さズレが起きない
+// - 出力は /api/finalize-nonai-mp4 と同じ users/{uid}/drafts/{draftId}/nonai/ に保存する
 
 import { NextResponse } from "next/server";
+import crypto from "crypto";
+import { getAdminDb, requireUserFromAuthHeader } from "@/app/api/_firebase/admin";
+import { getAdminBucket } from "@/firebaseAdmin";
+import type { NonAiMotion, NonAiVideoInput, NonAiVideoType } from "@/lib/nonAiVideo/motion";
+import { renderNonAiVideoMp4 } from "@/lib/video/nonai";
+import { attachAudioTrackToMp4, downloadAudioTrack } from "@/lib/video/audio";
+import { normalizeVideoAudioTrack } from "@/lib/video/audioTrack";
 
 export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
-export async function POST() {
-  return NextResponse.json(
-    {
-      ok: false,
-      error: "deprecated",
-      message:
-        "非AI動画(webm)はクライアントで生成し、/api/upload-video-webm にアップロードしてください。",
-      next: {
-        uploadEndpoint: "/api/upload-video-webm",
-        finalizeEndpoint: "/api/finalize-mp4 (optional)",
+/**
+ * 入力
+ * - { draftId, primary, materials?, seconds, size, motion, videoType?, backgroundImageUrl?, textLines?, audio? }
+ *   size: "720x1280" または { w, h }
+ *   motion: { tempo, reveal, intensity, attitude, rhythm }（省略した項目はブラウザ版の既定に寄せる）
+ *   audio: productVideo.audio（あれば描画後に音を付ける）
+ *
+ * ✅ 下書きの所有者以外は 403
+ * ✅ 返り値は finalize-nonai-mp4 と同じ形（mp4Url / url / videoUrl）
+ */
+
+const MAX_MATERIALS = 12;
+const MAX_TEXT_LINES = 3;
+
+const VIDEO_TYPES: NonAiVideoType[] = ["auto_ad", "spin", "turntable", "zoom", "pan", "showcase", "reel"];
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function storageDownloadUrl(bucketName: string, filePath: string, token: string) {
+  const encoded = encodeURIComponent(filePath);
+  return `https://firebasestorage.googleapis.com/v0/b/${bucketName}/o/${encoded}?alt=media&token=${token}`;
+}
+
+function pick<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return typeof value === "string" && (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+function normalizeSize(value: unknown): { w: number; h: number } {
+  if (value && typeof value === "object") {
+    const v = value as { w?: unknown; h?: unknown };
+    const w = Number(v.w);
+    const h = Number(v.h);
+    if (w > 0 && h > 0) return { w, h };
+  }
+  const m = /^(\d+)\s*x\s*(\d+)$/i.exec(asTrimmedString(value));
+  return m ? { w: Number(m[1]), h: Number(m[2]) } : { w: 720, h: 1280 };
+}
+
+function normalizeMotion(value: unknown): NonAiMotion {
+  const v = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return {
+    tempo: pick(v.tempo, ["slow", "normal", "sharp", "fast"] as const, "normal"),
+    reveal: pick(v.reveal, ["early", "delayed", "last", "late"] as const, "early"),
+    intensity: pick(v.intensity, ["calm", "balanced", "strong", "subtle"] as const, "balanced"),
+    attitude: pick(v.attitude, ["humble", "neutral", "assertive"] as const, "neutral"),
+    rhythm: pick(v.rhythm, ["with_pause", "continuous", "wave", "beat"] as const, "continuous"),
+  };
+}
+
+function toStringList(value: unknown, limit: number) {
+  return Array.isArray(value) ? value.map((v) => asTrimmedString(v)).filter(Boolean).slice(0, limit) : [];
+}
+
+export async function POST(req: Request) {
+  let user: Awaited<ReturnType<typeof requireUserFromAuthHeader>>;
+  try {
+    user = await requireUserFromAuthHeader(req);
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    const draftId = asTrimmedString(body.draftId);
+    const primary = asTrimmedString(body.primary);
+
+    if (!draftId) {
+      return NextResponse.json({ ok: false, error: "draftId がありません" }, { status: 400 });
+    }
+    if (!primary) {
+      return NextResponse.json({ ok: false, error: "代表画像（primary）がありません" }, { status: 400 });
+    }
+
+    const snap = await getAdminDb().collection("drafts").doc(draftId).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, error: "draft not found" }, { status: 404 });
+    }
+    if (String(snap.data()?.userId) !== user.uid) {
+      return NextResponse.json({ ok: false, error: "forbidden" }, { status: 403 });
+    }
+
+    const bucket = getAdminBucket();
+    const bucketName = String(bucket?.name || "").trim();
+    if (!bucketName) {
+      return NextResponse.json({ ok: false, error: "storage bucket name is empty" }, { status: 500 });
+    }
+
+    const input: NonAiVideoInput = {
+      primary,
+      materials: toStringList(body.materials, MAX_MATERIALS).filter((url) => url !== primary),
+      seconds: Number(body.seconds) === 10 ? 10 : 5,
+      size: normalizeSize(body.size),
+      motion: normalizeMotion(body.motion),
+      videoType: pick(body.videoType, VIDEO_TYPES, "auto_ad"),
+      backgroundImageUrl: asTrimmedString(body.backgroundImageUrl) || undefined,
+      textLines: toStringList(body.textLines, MAX_TEXT_LINES),
+    };
+
+    const audio = normalizeVideoAudioTrack(body.audio);
+
+    const rendered = await renderNonAiVideoMp4(input);
+    const mp4Buffer = audio
+      ? (
+          await attachAudioTrackToMp4({
+            video: rendered.buffer,
+            audio: await downloadAudioTrack(user.uid, audio),
+            track: audio,
+          })
+        ).buffer
+      : rendered.buffer;
+
+    const token = crypto.randomUUID();
+    const mp4Path = `users/${user.uid}/drafts/${draftId}/nonai/${Date.now()}.mp4`;
+
+    await bucket.file(mp4Path).save(mp4Buffer, {
+      contentType: "video/mp4",
+      resumable: false,
+      metadata: {
+        metadata: { firebaseStorageDownloadTokens: token },
+        cacheControl: "public,max-age=31536000",
       },
-    },
-    { status: 410 } // Gone
-  );
-}
\ No newline at end of file
+    });
+
+    const mp4Url = storageDownloadUrl(bucketName, mp4Path, token);
+
+    return NextResponse.json({
+      ok: true,
+      renderMode: "server",
+      draftId,
+      mp4Url,
+      mp4Path,
+      url: mp4Url,
+      videoUrl: mp4Url,
+      width: rendered.width,
+      height: rendered.height,
+      fps: rendered.fps,
+      frames: rendered.frames,
+      seconds: rendered.seconds,
+      audio,
+    });
+  } catch (error) {
+    console.error("[video/nonai] fatal:", error);
+    return NextResponse.json({ ok: false, error: safeError(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,285 @@
+// /app/flow/bg-admin/page.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { onAuthStateChanged, type User } from "firebase/auth";
+import { auth } from "@/firebase";
+
+/**
+ * AOI FLOW
+ * 背景生成の分析
+ *
+ * ✅ どの scene / keyword / 接地 / カテゴリで生成が無駄になっているか
+ * ✅ 不採用理由の多い順
+ * ✅ スコア分布（採用 / 不採用）
+ * ✅ 採用1枚あたりの生成回数
+ */
+
+type RateRow = {
+  key: string;
+  requests: number;
+  accepted: number;
+  acceptanceRate: number;
+  attempts: number;
+  wastedAttempts: number;
+  avgAcceptScore?: number;
+};
+
+type FailureReason = {
+  reason: string;
+  label: string;
+  count: number;
+  share: number;
+  example: string;
+};
+
+type ScoreDistribution = {
+  field: "acceptScore" | "contextScore" | "visibilityScore";
+  samples: number;
+  mean?: number;
+  median?: number;
+  buckets: Array<{ from: number; to: number; accepted: number; rejected: number }>;
+};
+
+type Report = {
+  days: number;
+  rowCount: number;
+  totals: {
+    requests: number;
+    accepted: number;
+    failed: number;
+    acceptanceRate: number;
+    attempts: number;
+    wastedAttempts: number;
+    attemptsPerAccepted?: number;
+  };
+  byScene: RateRow[];
+  byKeyword: RateRow[];
+  byGroundingType: RateRow[];
+  byProductCategory: RateRow[];
+  byKeywordScenario: RateRow[];
+  failureReasons: FailureReason[];
+  distributions: ScoreDistribution[];
+};
+
+const DAY_OPTIONS = [7, 30, 90, 180];
+
+const SCORE_LABELS: Record<ScoreDistribution["field"], string> = {
+  acceptScore: "総合採用スコア",
+  contextScore: "文脈スコア",
+  visibilityScore: "明るさ（平均輝度）",
+};
+
+function percent(rate: number) {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+      <div className="text-xs font-black tracking-[0.16em] text-white/45">{label}</div>
+      <div className="mt-2 text-2xl font-black text-white">{value}</div>
+    </div>
+  );
+}
+
+function RateTable({ title, rows }: { title: string; rows: RateRow[] }) {
+  return (
+    <section className="rounded-3xl border border-white/10 bg-black/30 p-5">
+      <div className="text-lg font-black tracking-[0.08em] text-white">{title}</div>
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full min-w-[640px] border-separate border-spacing-y-2 text-left text-sm">
+          <thead className="text-xs font-black tracking-[0.16em] text-white/45">
+            <tr>
+              <th className="px-3 py-2">Key</th>
+              <th className="px-3 py-2">採用率</th>
+              <th className="px-3 py-2">採用/依頼</th>
+              <th className="px-3 py-2">生成回数</th>
+              <th className="px-3 py-2">無駄な生成</th>
+              <th className="px-3 py-2">平均スコア</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="bg-white/5 text-white/78">
+                <td className="rounded-l-2xl px-3 py-3 font-bold">{row.key}</td>
+                <td className={row.acceptanceRate < 0.5 ? "px-3 py-3 font-bold text-rose-200" : "px-3 py-3"}>
+                  {percent(row.acceptanceRate)}
+                </td>
+                <td className="px-3 py-3">
+                  {row.accepted}/{row.requests}
+                </td>
+                <td className="px-3 py-3">{row.attempts}</td>
+                <td className="px-3 py-3">{row.wastedAttempts}</td>
+                <td className="rounded-r-2xl px-3 py-3">{row.avgAcceptScore ?? "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 ? <div className="rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-white/60">まだ記録がありません。</div> : null}
+      </div>
+    </section>
+  );
+}
+
+function DistributionCard({ dist }: { dist: ScoreDistribution }) {
+  const max = Math.max(1, ...dist.buckets.map((b) => b.accepted + b.rejected));
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-black/30 p-5">
+      <div className="text-lg font-black tracking-[0.08em] text-white">{SCORE_LABELS[dist.field]}</div>
+      <div className="mt-1 text-xs text-white/55">
+        {dist.samples}件 / 平均 {dist.mean ?? "-"} / 中央値 {dist.median ?? "-"}
+      </div>
+      <div className="mt-4 space-y-1.5">
+        {dist.buckets.map((bucket) => (
+          <div key={bucket.from} className="flex items-center gap-2 text-xs text-white/60">
+            <div className="w-16 shrink-0 text-right">
+              {bucket.from}-{bucket.to}
+            </div>
+            <div className="flex h-3 flex-1 overflow-hidden rounded-full bg-white/5">
+              <div className="h-full bg-cyan-300/70" style={{ width: `${(bucket.accepted / max) * 100}%` }} />
+              <div className="h-full bg-rose-300/60" style={{ width: `${(bucket.rejected / max) * 100}%` }} />
+            </div>
+            <div className="w-14 shrink-0">
+              {bucket.accepted}/{bucket.accepted + bucket.rejected}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 flex gap-3 text-[11px] text-white/45">
+        <span>
+          <span className="mr-1 inline-block h-2 w-2 rounded-full bg-cyan-300/70" />
+          採用
+        </span>
+        <span>
+          <span className="mr-1 inline-block h-2 w-2 rounded-full bg-rose-300/60" />
+          不採用
+        </span>
+      </div>
+    </section>
+  );
+}
+
+export default function BgAdminPage() {
+  const [user, setUser] = useState<User | null>(null);
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<Report | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const unsub = onAuthStateChanged(auth, (nextUser) => setUser(nextUser ?? null));
+    return () => unsub();
+  }, []);
+
+  async function load(nextDays = days) {
+    if (!auth.currentUser) return;
+    setBusy(true);
+    setError("");
+    try {
+      const token = await auth.currentUser.getIdToken();
+      const res = await fetch(`/api/backgrounds/analytics?days=${nextDays}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (!res.ok || !json.ok || !json.report) throw new Error(json.error || "背景生成の分析を取得できませんでした。");
+      setReport(json.report as Report);
+      setTruncated(json.truncated === true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "背景生成の分析を取得できませんでした。");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    if (user) void load();
+  }, [user]);
+
+  const totals = report?.totals;
+
+  return (
+    <div className="space-y-5">
+      <section className="rounded-[1.75rem] border border-white/12 bg-black/25 p-5 md:p-7">
+        <div className="text-xs font-black tracking-[0.3em] text-cyan-100/60">AOI FLOW / BACKGROUND ADMIN</div>
+        <h1 className="mt-3 text-2xl font-black tracking-[0.1em] text-white md:text-4xl">背景生成の分析</h1>
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => {
+              const next = Number(e.target.value);
+              setDays(next);
+              void load(next);
+            }}
+            disabled={busy || !user}
+            className="rounded-full border border-white/15 bg-black/40 px-4 py-2 text-xs font-black text-white disabled:opacity-50"
+          >
+            {DAY_OPTIONS.map((d) => (
+              <option key={d} value={d}>
+                直近{d}日
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => void load()}
+            disabled={busy || !user}
+            className="rounded-full border border-cyan-200/30 bg-cyan-200/10 px-4 py-2 text-xs font-black text-cyan-50 disabled:opacity-50"
+          >
+            {busy ? "更新中" : "再読み込み"}
+          </button>
+          {truncated ? <span className="text-xs text-amber-100/80">ログが多いため新しい順の一部だけを集計しています。</span> : null}
+        </div>
+      </section>
+
+      {error ? <div className="rounded-2xl border border-rose-300/35 bg-rose-500/10 p-4 text-sm font-bold text-rose-100">{error}</div> : null}
+
+      <div className="grid grid-cols-2 gap-3 lg:grid-cols-6">
+        <Stat label="Requests" value={totals?.requests ?? 0} />
+        <Stat label="Accepted" value={totals?.accepted ?? 0} />
+        <Stat label="Acceptance" value={totals ? percent(totals.acceptanceRate) : "-"} />
+        <Stat label="Attempts" value={totals?.attempts ?? 0} />
+        <Stat label="Wasted" value={totals?.wastedAttempts ?? 0} />
+        <Stat label="Attempts / Accepted" value={totals?.attemptsPerAccepted ?? "-"} />
+      </div>
+
+      <section className="rounded-3xl border border-white/10 bg-black/30 p-5">
+        <div className="text-lg font-black tracking-[0.08em] text-white">不採用理由</div>
+        <div className="mt-1 text-xs text-white/55">生成1回ごとの不採用理由（多い順）</div>
+        <div className="mt-4 space-y-2">
+          {(report?.failureReasons ?? []).map((reason) => (
+            <div key={reason.reason} className="rounded-2xl bg-white/5 px-4 py-3" title={reason.example}>
+              <div className="flex items-center justify-between gap-3 text-sm text-white/80">
+                <span className="font-bold">{reason.label}</span>
+                <span className="shrink-0 text-xs text-white/55">
+                  {reason.count}回 / {percent(reason.share)}
+                </span>
+              </div>
+              <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-white/5">
+                <div className="h-full bg-rose-300/60" style={{ width: `${reason.share * 100}%` }} />
+              </div>
+            </div>
+          ))}
+          {report && report.failureReasons.length === 0 ? (
+            <div className="rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-white/60">不採用の記録はありません。</div>
+          ) : null}
+        </div>
+      </section>
+
+      <div className="grid gap-3 lg:grid-cols-3">
+        {(report?.distributions ?? []).map((dist) => (
+          <DistributionCard key={dist.field} dist={dist} />
+        ))}
+      </div>
+
+      <RateTable title="Scene 別" rows={report?.byScene ?? []} />
+      <RateTable title="Keyword 別" rows={report?.byKeyword ?? []} />
+      <RateTable title="Keyword シナリオ別" rows={report?.byKeywordScenario ?? []} />
+      <RateTable title="接地タイプ別" rows={report?.byGroundingType ?? []} />
+      <RateTable title="商品カテゴリ別" rows={report?.byProductCategory ?? []} />
+    </div>
+  );
+}
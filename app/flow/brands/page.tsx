@@ -5,13 +5,27 @@
 // 2. アプリ設定に、ブランド一覧・ブランド詳細ポップアップ・ブランド作成/編集の既存機能を保持。
 // 3. 通知設定 / データ管理 / セキュリティ設定 / システム情報 / 基本設定 / テーマ / 表示言語 / 表示件数 / AI連携設定は表示から削除。
 // 4. 既存の users/{uid}/brands の保存形式を壊さず、過去コードの concept / tone / forbidden も復元して保存可能にする。
+// 5. ブランドキット（ロゴ・配色・書体・文字と帯の初期値）を brandKit として保存。画像の文字 / CM / 字幕の初期値になる。
+// 6. CMで映すもの（cmProfile）・商品選定の相性語（researchProfile）をブランドごとに保存。vento / riva 以外のブランドも同じ扱い。
+// 7. 定番のハッシュタグセット（hashtagSets）を保存。文章生成のハッシュタグ候補になる。
 
 "use client";
 
 import React, { useEffect, useMemo, useState } from "react";
 import { onAuthStateChanged, type User } from "firebase/auth";
 import { collection, doc, getDoc, getDocs, orderBy, query, serverTimestamp, setDoc, updateDoc } from "firebase/firestore";
-import { auth, db } from "@/firebase";
+import { getDownloadURL, ref, uploadBytes } from "firebase/storage";
+import { auth, db, storage } from "@/firebase";
+import { BRAND_FONTS, brandLogoPath, normalizeBrandKit } from "@/lib/brand/brandKit";
+import { normalizeBrandCmProfile, normalizeBrandResearchProfile } from "@/lib/brand/brands";
+import { hashtagSetsToLines, normalizeBrandHashtagSets, parseHashtagSetLines } from "@/lib/hashtags/scoring";
+import type {
+  BrandCmProfile,
+  BrandHashtagSet,
+  BrandKit,
+  BrandResearchProfile,
+  CmOverlayPosition,
+} from "@/lib/types/draft";
 
 type PlanType = "free" | "standard" | "premium";
 
@@ -48,6 +62,11 @@ type Brand = {
     rules: string[];
     size?: "1024x1024";
   };
+  brandKit: BrandKit;
+  // 未保存のブランドは読込時に雛形で埋める（normalizeBrand）
+  cmProfile?: BrandCmProfile;
+  researchProfile?: BrandResearchProfile;
+  hashtagSets?: BrandHashtagSet[];
   updatedAt?: unknown;
   createdAt?: unknown;
 };
@@ -73,6 +92,7 @@ function defaultsBase(name: string): Omit<Brand, "id"> {
       rules: ["no text", "no logos", "no watermark", "high quality", "centered composition"],
       size: "1024x1024",
     },
+    brandKit: brandKitPayload(normalizeBrandKit(null)),
   };
 }
 
@@ -85,6 +105,7 @@ function defaultsVento(): Omit<Brand, "id"> {
   b.captionPolicy.must = ["誠実", "静か", "押し売りしない", "文脈を残す"];
   b.captionPolicy.ban = ["煽り", "過剰な断定", "大げさな広告口調", "理論名の説明"];
   b.imagePolicy.styleText = "quiet, airy, vintage object mood, minimal, premium, calm, no text";
+  b.brandKit = brandKitPayload(normalizeBrandKit(null, "vento"));
   return b;
 }
 
@@ -97,9 +118,38 @@ function defaultsRiva(): Omit<Brand, "id"> {
   b.captionPolicy.must = ["誠実", "静か", "機械美", "売り込み臭を消す"];
   b.captionPolicy.ban = ["煽り", "過剰な価格訴求", "理論名の説明", "誇張"];
   b.imagePolicy.styleText = "moody, cinematic, classic car / mechanical texture, minimal, premium, calm, no text";
+  b.brandKit = brandKitPayload(normalizeBrandKit(null, "riva"));
   return b;
 }
 
+const KIT_POSITIONS: Array<{ value: CmOverlayPosition; label: string }> = [
+  { value: "top", label: "上" },
+  { value: "center", label: "中央" },
+  { value: "bottom", label: "下" },
+  { value: "leftBottom", label: "左下" },
+  { value: "rightBottom", label: "右下" },
+];
+
+const KIT_COLORS: Array<{ key: keyof BrandKit["palette"]; label: string }> = [
+  { key: "primary", label: "メイン" },
+  { key: "secondary", label: "サブ" },
+  { key: "accent", label: "アクセント" },
+  { key: "text", label: "文字" },
+  { key: "band", label: "帯" },
+];
+
+/** Firestore は undefined を保存できないので、保存用に値を揃える */
+function brandKitPayload(kit: BrandKit): BrandKit {
+  return {
+    logoUrl: kit.logoUrl ?? null,
+    logoPath: kit.logoPath ?? null,
+    palette: { ...kit.palette },
+    fontId: kit.fontId,
+    overlay: { ...kit.overlay },
+    updatedAt: Date.now(),
+  };
+}
+
 function splitLines(text: string) {
   return text
     .split(/\r?\n/g)
@@ -176,6 +226,10 @@ function normalizeBrand(id: string, data: any): Brand {
       rules: Array.isArray(data?.imagePolicy?.rules) ? data.imagePolicy.rules.map(String) : [],
       size: "1024x1024",
     },
+    brandKit: normalizeBrandKit(data?.brandKit, id),
+    cmProfile: normalizeBrandCmProfile(data, id),
+    researchProfile: normalizeBrandResearchProfile(data, id),
+    hashtagSets: normalizeBrandHashtagSets(data?.hashtagSets),
     createdAt: data?.createdAt,
     updatedAt: data?.updatedAt,
   };
@@ -204,10 +258,14 @@ export default function BrandsPage() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [form, setForm] = useState<Omit<Brand, "id"> | null>(null);
   const [saving, setSaving] = useState(false);
+  const [logoUploading, setLogoUploading] = useState(false);
 
   const [detailBrand, setDetailBrand] = useState<Brand | null>(null);
   const [openAdvanced, setOpenAdvanced] = useState(false);
   const [openImage, setOpenImage] = useState(false);
+  const [openProfile, setOpenProfile] = useState(false);
+  // 入力途中の「#」が消えないよう、ハッシュタグセットは文字のまま持って保存時に読む
+  const [hashtagSetsText, setHashtagSetsText] = useState("");
   const [activeTab, setActiveTab] = useState<"account" | "app">("account");
 
   useEffect(() => {
@@ -340,14 +398,20 @@ export default function BrandsPage() {
       axisMode: normalized.axisMode || "core",
       captionPolicy: normalized.captionPolicy,
       imagePolicy: normalized.imagePolicy,
+      brandKit: normalized.brandKit,
+      cmProfile: normalized.cmProfile,
+      researchProfile: normalized.researchProfile,
+      hashtagSets: normalized.hashtagSets,
       createdAt: normalized.createdAt,
       updatedAt: normalized.updatedAt,
     };
 
     setEditingId(id);
     setForm(formPayload);
+    setHashtagSetsText(hashtagSetsToLines(normalized.hashtagSets));
     setOpenAdvanced(false);
     setOpenImage(false);
+    setOpenProfile(false);
     setActiveTab("app");
   }
 
@@ -383,6 +447,10 @@ export default function BrandsPage() {
         rules: Array.isArray(form.imagePolicy.rules) ? form.imagePolicy.rules.map(String).filter(Boolean) : [],
         size: "1024x1024",
       },
+      brandKit: brandKitPayload(normalizeBrandKit(form.brandKit, editingId)),
+      cmProfile: normalizeBrandCmProfile(form, editingId),
+      researchProfile: normalizeBrandResearchProfile(form, editingId),
+      hashtagSets: parseHashtagSetLines(hashtagSetsText),
       createdAt: form.createdAt || serverTimestamp(),
       updatedAt: serverTimestamp(),
     };
@@ -399,6 +467,40 @@ export default function BrandsPage() {
     }
   }
 
+  function updateKit(patch: Partial<BrandKit>) {
+    setForm((p) => (p ? { ...p, brandKit: { ...p.brandKit, ...patch } } : p));
+  }
+
+  function updateKitOverlay(patch: Partial<BrandKit["overlay"]>) {
+    setForm((p) => (p ? { ...p, brandKit: { ...p.brandKit, overlay: { ...p.brandKit.overlay, ...patch } } } : p));
+  }
+
+  async function uploadLogo(file: File) {
+    if (!uid || !editingId) return;
+    if (!file.type.startsWith("image/")) {
+      alert("ロゴは画像ファイル（PNG推奨）を選んでください");
+      return;
+    }
+
+    const ext = file.type === "image/png" ? "png" : file.type === "image/webp" ? "webp" : "jpg";
+    const path = brandLogoPath(uid, editingId, ext);
+
+    setLogoUploading(true);
+    try {
+      const sref = ref(storage, path);
+      await uploadBytes(sref, file, { contentType: file.type || "image/png" });
+      const url = await getDownloadURL(sref);
+      setForm((p) =>
+        p ? { ...p, brandKit: { ...p.brandKit, logoUrl: url, logoPath: path, overlay: { ...p.brandKit.overlay, logoEnabled: true } } } : p
+      );
+    } catch (e: any) {
+      console.error(e);
+      alert(`ロゴのアップロードに失敗しました\n${e?.message || "不明"}`);
+    } finally {
+      setLogoUploading(false);
+    }
+  }
+
   const activeBrands = useMemo(() => rows.filter((r) => r.isActive).length, [rows]);
 
   if (!uid) return <div className="p-6 text-white/80">ログインしてください。</div>;
@@ -613,8 +715,159 @@ export default function BrandsPage() {
                       </div>
                     </div>
                   ) : null}
+
+                  <button type="button" onClick={() => setOpenProfile((v) => !v)} className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-left text-sm font-black">CM・商品選定・ハッシュタグの設定を{openProfile ? "閉じる" : "開く"}</button>
+                  {openProfile && form.cmProfile && form.researchProfile ? (
+                    <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+                      <div>
+                        <FieldLabel>CMの主役（英語）</FieldLabel>
+                        <textarea className="settings-input min-h-20" value={form.cmProfile.heroSubject} onChange={(e) => setForm((p) => (p && p.cmProfile ? { ...p, cmProfile: { ...p.cmProfile, heroSubject: e.target.value } } : p))} />
+                      </div>
+                      <div>
+                        <FieldLabel>CMの場面（英語）</FieldLabel>
+                        <textarea className="settings-input min-h-20" value={form.cmProfile.visualScene} onChange={(e) => setForm((p) => (p && p.cmProfile ? { ...p, cmProfile: { ...p.cmProfile, visualScene: e.target.value } } : p))} />
+                      </div>
+                      <div>
+                        <FieldLabel>CMで伝えたいこと（英語）</FieldLabel>
+                        <input className="settings-input" value={form.cmProfile.brandMessage} onChange={(e) => setForm((p) => (p && p.cmProfile ? { ...p, cmProfile: { ...p.cmProfile, brandMessage: e.target.value } } : p))} />
+                      </div>
+                      <div>
+                        <FieldLabel>商品選定の評価軸名</FieldLabel>
+                        <input className="settings-input" value={form.researchProfile.fitLabel} onChange={(e) => setForm((p) => (p && p.researchProfile ? { ...p, researchProfile: { ...p.researchProfile, fitLabel: e.target.value } } : p))} />
+                      </div>
+                      <div>
+                        <FieldLabel>相性語（1行1項目）</FieldLabel>
+                        <textarea className="settings-input min-h-24" value={joinLines(form.researchProfile.fitWords)} onChange={(e) => setForm((p) => (p && p.researchProfile ? { ...p, researchProfile: { ...p.researchProfile, fitWords: splitLines(e.target.value) } } : p))} />
+                      </div>
+                      <div>
+                        <FieldLabel>ハッシュタグセット（1行1セット「名前: #タグ #タグ」）</FieldLabel>
+                        <textarea className="settings-input min-h-24" value={hashtagSetsText} placeholder={"定番: #vintage #昭和レトロ\n素材: #真鍮 #経年変化"} onChange={(e) => setHashtagSetsText(e.target.value)} />
+                      </div>
+                    </div>
+                  ) : null}
                 </div>
               </div>
+
+              <div className="mt-5 space-y-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+                <div>
+                  <div className="text-sm font-black">ブランドキット</div>
+                  <p className="mt-1 text-xs text-white/55">画像の文字・CMの文字とロゴ・字幕の初期値になります（下書きごとの調整は各画面で可能）。</p>
+                </div>
+
+                <div className="grid gap-4 lg:grid-cols-2">
+                  <div className="space-y-3">
+                    <div>
+                      <FieldLabel>ロゴ（透過PNG推奨）</FieldLabel>
+                      <div className="flex flex-wrap items-center gap-3">
+                        {form.brandKit.logoUrl ? (
+                          <img src={form.brandKit.logoUrl} alt="logo" className="h-14 max-w-[160px] rounded-xl border border-white/10 bg-black/30 object-contain p-1" />
+                        ) : (
+                          <div className="text-xs text-white/45">未設定</div>
+                        )}
+                        <label className="cursor-pointer rounded-2xl border border-white/10 bg-white/10 px-4 py-2 text-xs font-black">
+                          {logoUploading ? "アップロード中…" : "ロゴを選ぶ"}
+                          <input
+                            type="file"
+                            accept="image/png,image/jpeg,image/webp"
+                            className="hidden"
+                            disabled={logoUploading}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              e.target.value = "";
+                              if (file) void uploadLogo(file);
+                            }}
+                          />
+                        </label>
+                        {form.brandKit.logoUrl ? (
+                          <button type="button" onClick={() => updateKit({ logoUrl: null, logoPath: null })} className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-xs font-black">外す</button>
+                        ) : null}
+                      </div>
+                    </div>
+
+                    <div>
+                      <FieldLabel>配色</FieldLabel>
+                      <div className="grid grid-cols-5 gap-2">
+                        {KIT_COLORS.map((c) => (
+                          <label key={c.key} className="text-[11px] text-white/60">
+                            <input
+                              type="color"
+                              value={form.brandKit.palette[c.key]}
+                              onChange={(e) => updateKit({ palette: { ...form.brandKit.palette, [c.key]: e.target.value.toUpperCase() } })}
+                              className="h-9 w-full cursor-pointer rounded-lg border border-white/10 bg-transparent"
+                            />
+                            <div className="mt-1 text-center">{c.label}</div>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <FieldLabel>書体（同梱フォント）</FieldLabel>
+                      <select className="settings-input" value={form.brandKit.fontId} onChange={(e) => updateKit({ fontId: e.target.value as BrandKit["fontId"] })}>
+                        {BRAND_FONTS.map((f) => (
+                          <option key={f.id} value={f.id}>{f.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <FieldLabel>文字サイズ</FieldLabel>
+                        <input type="number" min={12} max={160} className="settings-input" value={form.brandKit.overlay.fontSize} onChange={(e) => updateKitOverlay({ fontSize: Number(e.target.value) })} />
+                      </div>
+                      <div>
+                        <FieldLabel>文字の太さ</FieldLabel>
+                        <select className="settings-input" value={form.brandKit.overlay.fontWeight} onChange={(e) => updateKitOverlay({ fontWeight: e.target.value === "normal" ? "normal" : "bold" })}>
+                          <option value="bold">太字</option>
+                          <option value="normal">標準</option>
+                        </select>
+                      </div>
+                      <div>
+                        <FieldLabel>文字の位置</FieldLabel>
+                        <select className="settings-input" value={form.brandKit.overlay.position} onChange={(e) => updateKitOverlay({ position: e.target.value as CmOverlayPosition })}>
+                          {KIT_POSITIONS.map((o) => (
+                            <option key={o.value} value={o.value}>{o.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <FieldLabel>帯の濃さ（0〜1）</FieldLabel>
+                        <input type="number" min={0} max={1} step={0.05} className="settings-input" value={form.brandKit.overlay.bandOpacity} onChange={(e) => updateKitOverlay({ bandOpacity: Number(e.target.value) })} />
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs font-black text-white/70">
+                      <input type="checkbox" checked={form.brandKit.overlay.bandEnabled} onChange={(e) => updateKitOverlay({ bandEnabled: e.target.checked })} />
+                      文字の後ろに帯を敷く
+                    </label>
+
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <FieldLabel>ロゴ位置</FieldLabel>
+                        <select className="settings-input" value={form.brandKit.overlay.logoPosition} onChange={(e) => updateKitOverlay({ logoPosition: e.target.value as CmOverlayPosition })}>
+                          {KIT_POSITIONS.map((o) => (
+                            <option key={o.value} value={o.value}>{o.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <FieldLabel>ロゴ幅(px)</FieldLabel>
+                        <input type="number" min={24} max={600} className="settings-input" value={form.brandKit.overlay.logoWidth} onChange={(e) => updateKitOverlay({ logoWidth: Number(e.target.value) })} />
+                      </div>
+                      <div>
+                        <FieldLabel>ロゴ濃さ</FieldLabel>
+                        <input type="number" min={0} max={1} step={0.05} className="settings-input" value={form.brandKit.overlay.logoOpacity} onChange={(e) => updateKitOverlay({ logoOpacity: Number(e.target.value) })} />
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs font-black text-white/70">
+                      <input type="checkbox" checked={form.brandKit.overlay.logoEnabled} disabled={!form.brandKit.logoUrl} onChange={(e) => updateKitOverlay({ logoEnabled: e.target.checked })} />
+                      動画にロゴを入れる（ロゴ設定時）
+                    </label>
+                  </div>
+                </div>
+              </div>
+
               <div className="mt-5 flex flex-wrap gap-3">
                 <button type="button" disabled={saving} onClick={saveEdit} className="settings-btn-blue rounded-2xl px-6 py-3 text-sm font-black disabled:opacity-50">{saving ? "保存中…" : "ブランド設定を保存"}</button>
                 <button type="button" onClick={() => { setEditingId(null); setForm(null); }} className="rounded-2xl border border-white/10 bg-white/10 px-6 py-3 text-sm font-black">キャンセル</button>
@@ -644,6 +897,23 @@ export default function BrandsPage() {
               <div className="rounded-2xl border border-white/10 bg-white/5 p-4"><FieldLabel>X目的</FieldLabel><p className="whitespace-pre-wrap text-sm text-white/80">{detailBrand.captionPolicy.xGoal || "未入力"}</p></div>
               <div className="rounded-2xl border border-white/10 bg-white/5 p-4"><FieldLabel>must</FieldLabel><p className="whitespace-pre-wrap text-sm text-white/80">{detailBrand.captionPolicy.must.join("\n") || "未入力"}</p></div>
               <div className="rounded-2xl border border-white/10 bg-white/5 p-4"><FieldLabel>ban</FieldLabel><p className="whitespace-pre-wrap text-sm text-white/80">{detailBrand.captionPolicy.ban.join("\n") || "未入力"}</p></div>
+              <div className="rounded-2xl border border-white/10 bg-white/5 p-4 md:col-span-2"><FieldLabel>ハッシュタグセット</FieldLabel><p className="whitespace-pre-wrap text-sm text-white/80">{hashtagSetsToLines(detailBrand.hashtagSets) || "未入力"}</p></div>
+              <div className="rounded-2xl border border-white/10 bg-white/5 p-4 md:col-span-2">
+                <FieldLabel>ブランドキット</FieldLabel>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-white/80">
+                  {detailBrand.brandKit.logoUrl ? (
+                    <img src={detailBrand.brandKit.logoUrl} alt="logo" className="h-10 max-w-[120px] rounded-lg bg-black/30 object-contain p-1" />
+                  ) : (
+                    <span className="text-white/45">ロゴ未設定</span>
+                  )}
+                  <span>{BRAND_FONTS.find((f) => f.id === detailBrand.brandKit.fontId)?.label ?? detailBrand.brandKit.fontId}</span>
+                  <span className="flex gap-1">
+                    {KIT_COLORS.map((c) => (
+                      <span key={c.key} title={c.label} className="inline-block h-5 w-5 rounded border border-white/20" style={{ background: detailBrand.brandKit.palette[c.key] }} />
+                    ))}
+                  </span>
+                </div>
+              </div>
               <div className="rounded-2xl border border-white/10 bg-white/5 p-4 md:col-span-2"><FieldLabel>画像 styleText / rules</FieldLabel><p className="whitespace-pre-wrap text-sm text-white/80">{detailBrand.imagePolicy.styleText || "未入力"}\n{detailBrand.imagePolicy.rules.join("\n")}</p></div>
             </div>
           </div>
@@ -11,21 +11,40 @@ type AdminEvent = {
   engine: string;
   quality: number;
   elapsed: number;
+  costYen: number;
+  cacheHit: boolean;
   createdAt: string;
 };
 
+type AdminProvider = {
+  id: string;
+  engine: string;
+  endpoint: string;
+  timeoutMs: number;
+  costYen: number;
+  configured: boolean;
+  circuit: "closed" | "open" | "half-open";
+  failures: number;
+  openedUntil: string;
+  lastError: string;
+};
+
 type AdminData = {
   month: string;
   usage: { count: number; limit: number; month: string };
   summary: { averageQuality: number; averageElapsed: number; totalEvents: number };
+  cache: { hits: number; savedCostYen: number; spentCostYen: number };
   events: AdminEvent[];
+  providers: { setting: string; chain: string[]; providers: AdminProvider[] };
 };
 
 const emptyData: AdminData = {
   month: "",
   usage: { count: 0, limit: 0, month: "" },
   summary: { averageQuality: 0, averageElapsed: 0, totalEvents: 0 },
+  cache: { hits: 0, savedCostYen: 0, spentCostYen: 0 },
   events: [],
+  providers: { setting: "", chain: [], providers: [] },
 };
 
 function Stat({ label, value }: { label: string; value: string | number }) {
@@ -72,7 +91,17 @@ export default function CutoutAdminPage() {
           averageElapsed: Number(json.summary?.averageElapsed || 0),
           totalEvents: Number(json.summary?.totalEvents || 0),
         },
+        cache: {
+          hits: Number(json.cache?.hits || 0),
+          savedCostYen: Number(json.cache?.savedCostYen || 0),
+          spentCostYen: Number(json.cache?.spentCostYen || 0),
+        },
         events: Array.isArray(json.events) ? json.events : [],
+        providers: {
+          setting: String(json.providers?.setting || ""),
+          chain: Array.isArray(json.providers?.chain) ? json.providers.chain : [],
+          providers: Array.isArray(json.providers?.providers) ? json.providers.providers : [],
+        },
       });
     } catch (e) {
       setError(e instanceof Error ? e.message : "切り抜き管理情報を取得できませんでした。");
@@ -113,6 +142,51 @@ export default function CutoutAdminPage() {
         <Stat label="Month" value={data.month || "-"} />
       </div>
 
+      <div className="grid grid-cols-2 gap-3 lg:grid-cols-3">
+        <Stat label="Cache Hits" value={data.cache.hits} />
+        <Stat label="Saved" value={`¥${data.cache.savedCostYen}`} />
+        <Stat label="Spent" value={`¥${data.cache.spentCostYen}`} />
+      </div>
+
+      <section className="rounded-3xl border border-white/10 bg-black/30 p-5">
+        <div className="text-lg font-black tracking-[0.08em] text-white">Provider</div>
+        <div className="mt-1 text-xs text-white/55">
+          設定: {data.providers.setting || "-"} / 順序: {data.providers.chain.join(" → ") || "-"}
+        </div>
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full min-w-[760px] border-separate border-spacing-y-2 text-left text-sm">
+            <thead className="text-xs font-black tracking-[0.16em] text-white/45">
+              <tr>
+                <th className="px-3 py-2">Provider</th>
+                <th className="px-3 py-2">Engine</th>
+                <th className="px-3 py-2">Timeout</th>
+                <th className="px-3 py-2">Cost</th>
+                <th className="px-3 py-2">Circuit</th>
+                <th className="px-3 py-2">Last Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.providers.providers.map((provider) => (
+                <tr key={provider.id} className="bg-white/5 text-white/78">
+                  <td className="rounded-l-2xl px-3 py-3 font-bold">
+                    {provider.id}
+                    {provider.configured ? null : <span className="ml-2 text-xs text-white/45">未設定</span>}
+                  </td>
+                  <td className="px-3 py-3">{provider.engine}</td>
+                  <td className="px-3 py-3">{provider.timeoutMs}ms</td>
+                  <td className="px-3 py-3">¥{provider.costYen}</td>
+                  <td className={provider.circuit === "open" ? "px-3 py-3 font-bold text-rose-200" : "px-3 py-3"}>
+                    {provider.circuit}
+                    {provider.failures ? ` (${provider.failures})` : ""}
+                  </td>
+                  <td className="rounded-r-2xl px-3 py-3 text-xs text-white/55">{provider.lastError || "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
       <section className="rounded-3xl border border-white/10 bg-black/30 p-5">
         <div className="text-lg font-black tracking-[0.08em] text-white">最近の切り抜き</div>
         <div className="mt-4 overflow-x-auto">
@@ -123,6 +197,7 @@ export default function CutoutAdminPage() {
                 <th className="px-3 py-2">Quality</th>
                 <th className="px-3 py-2">Engine</th>
                 <th className="px-3 py-2">Elapsed</th>
+                <th className="px-3 py-2">Cost</th>
                 <th className="px-3 py-2">Date</th>
               </tr>
             </thead>
@@ -133,6 +208,7 @@ export default function CutoutAdminPage() {
                   <td className="px-3 py-3">{event.quality}</td>
                   <td className="px-3 py-3">{event.engine}</td>
                   <td className="px-3 py-3">{event.elapsed}ms</td>
+                  <td className="px-3 py-3">{event.cacheHit ? "cache" : `¥${event.costYen}`}</td>
                   <td className="rounded-r-2xl px-3 py-3">{event.createdAt || "-"}</td>
                 </tr>
               ))}
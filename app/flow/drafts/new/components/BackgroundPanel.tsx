@@ -3,15 +3,40 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import type {
+  BackgroundQualitySummary,
+  BackgroundSeriesConsistency,
   DraftDoc,
+  ProceduralBgStyle,
+  ProceduralLightDirection,
+  ProductLightMatch,
   ProductPhotoMode,
   TextOverlay,
   SizeTemplateType,
+  StageLightMatchResult,
 } from "@/lib/types/draft";
 import { ref, uploadBytes, getDownloadURL, listAll } from "firebase/storage";
 import { storage } from "@/firebase";
+import useBackgroundQuality, {
+  BACKGROUND_QUALITY_LABEL,
+  backgroundQualityTitle,
+} from "@/lib/image/useBackgroundQuality";
+import {
+  PROCEDURAL_BG_STYLES,
+  PROCEDURAL_LIGHT_DIRECTIONS,
+} from "@/lib/image/proceduralBackgroundOptions";
+import useBackgroundSeries, {
+  backgroundSeriesSummary,
+  backgroundSeriesTitle,
+} from "@/lib/image/useBackgroundSeries";
+import {
+  BACKGROUND_SERIES_TONE_LABEL,
+  MIN_SERIES_CONSISTENCY_SCORE,
+} from "@/lib/image/backgroundSeriesOptions";
+import { normalizeBrandId } from "@/lib/brand/brands";
 import { Btn } from "../ui";
 import ProductPlacementEditor from "./ProductPlacementEditor";
+import ShadowStyleCard from "./ShadowStyleCard";
+import StageProductsCard from "./StageProductsCard";
 
 type ProductCategory = "furniture" | "goods" | "apparel" | "small" | "other";
 type ProductSize = "large" | "medium" | "small";
@@ -87,6 +112,7 @@ type Props = {
       usedDefaultLeft?: boolean;
       usedDefaultTop?: boolean;
     } | null;
+    lightMatch?: StageLightMatchResult | null;
     updatedAt?: number;
   } | null;
 
@@ -115,6 +141,11 @@ type Props = {
   templateBgUrl?: string;
   templateBgUrls?: string[];
   generateTemplateBackground?: () => Promise<string | void>;
+  /** 定型背景（AIなし）。スタジオ / グラデーション / 床と壁 / 紙 */
+  generateProceduralTemplateBackground?: (
+    style: ProceduralBgStyle,
+    lightDirection: ProceduralLightDirection
+  ) => Promise<string | void>;
   fetchTemplateRecommendations?: () => Promise<TemplateRecommendResult | void>;
   selectTemplateBackground?: (url: string) => Promise<void> | void;
 
@@ -350,6 +381,8 @@ function BackgroundThumbButton({
   subtitle,
   active,
   disabled,
+  quality,
+  consistency,
   onClick,
 }: {
   url: string;
@@ -357,6 +390,10 @@ function BackgroundThumbButton({
   subtitle?: string;
   active: boolean;
   disabled?: boolean;
+  /** /api/images/analyze の採点結果（採点済みの時だけ） */
+  quality?: BackgroundQualitySummary;
+  /** ブランドのシリーズ基準との一貫性（採点済みの時だけ） */
+  consistency?: BackgroundSeriesConsistency;
   onClick: () => void;
 }) {
   /*
@@ -377,7 +414,13 @@ function BackgroundThumbButton({
           : "border-white/10 bg-black/20 hover:border-white/25",
         disabled ? "cursor-not-allowed opacity-50" : "cursor-pointer",
       ].join(" ")}
-      title={subtitle ? `${title} / ${subtitle}` : title}
+      title={[
+        subtitle ? `${title} / ${subtitle}` : title,
+        quality ? backgroundQualityTitle(quality) : "",
+        consistency ? backgroundSeriesTitle(consistency) : "",
+      ]
+        .filter(Boolean)
+        .join("\n")}
       aria-label={`${title}を選択`}
     >
       <span className="block aspect-square w-full overflow-hidden rounded-lg border border-white/10 bg-black/30">
@@ -400,6 +443,16 @@ function BackgroundThumbButton({
             {subtitle}
           </span>
         ) : null}
+        {consistency ? (
+          <span
+            className={[
+              "block truncate text-[9px] font-black leading-3",
+              consistency.score >= MIN_SERIES_CONSISTENCY_SCORE ? "text-emerald-200" : "text-rose-200",
+            ].join(" ")}
+          >
+            シリーズ {Math.round(consistency.score)}点
+          </span>
+        ) : null}
       </span>
 
       {active ? (
@@ -407,6 +460,21 @@ function BackgroundThumbButton({
           選択中
         </span>
       ) : null}
+
+      {quality ? (
+        <span
+          className={[
+            "absolute left-1.5 top-1.5 rounded-full px-1.5 py-0.5 text-[9px] font-black",
+            quality.verdict === "accept"
+              ? "bg-emerald-300/95 text-slate-950"
+              : quality.verdict === "weak"
+                ? "bg-amber-300/95 text-slate-950"
+                : "bg-rose-400/95 text-white",
+          ].join(" ")}
+        >
+          {Math.round(quality.acceptScore)}点・{BACKGROUND_QUALITY_LABEL[quality.verdict]}
+        </span>
+      ) : null}
     </button>
   );
 }
@@ -682,6 +750,7 @@ export default function BackgroundPanel({
   templateBgUrl = "",
   templateBgUrls: templateBgUrlsFromParent = [],
   generateTemplateBackground,
+  generateProceduralTemplateBackground,
   fetchTemplateRecommendations,
   selectTemplateBackground,
 
@@ -766,6 +835,91 @@ export default function BackgroundPanel({
 
   const [libraryBackgrounds, setLibraryBackgrounds] = useState<UserLibraryBackground[]>([]);
   const [libraryBusy, setLibraryBusy] = useState(false);
+  const bgQuality = useBackgroundQuality();
+  const bgSeries = useBackgroundSeries(uid, normalizeBrandId(d.brand ?? d.brandId));
+  const [proceduralStyle, setProceduralStyle] = useState<ProceduralBgStyle>("studio_sweep");
+  const [proceduralLight, setProceduralLight] = useState<ProceduralLightDirection>("top");
+
+  /**
+   * 背景候補の採点
+   * - 表示中のサムネイル（各一覧の先頭12件）だけを送る
+   */
+  async function scoreBackgroundUrls(urls: string[]) {
+    try {
+      const failed = await bgQuality.analyze(urls);
+      showMsg(failed > 0 ? `採点しました（${failed}件は読み込めませんでした）` : "採点しました");
+    } catch (e: any) {
+      console.warn("[AOI FLOW handled]", e);
+      showMsg(`採点に失敗：${e?.message || "不明"}`);
+    }
+  }
+
+  /**
+   * 背景の光・遠近合わせ（placement.lightMatch）
+   * - 影の種類と同じく placement に保存し、次の合成から反映
+   */
+  async function saveLightMatch(next: ProductLightMatch) {
+    if (!d.placement) {
+      showMsg("先に商品の配置を保存してください");
+      return;
+    }
+
+    const placement = { ...d.placement, lightMatch: next };
+    setD((prev) => ({
+      ...prev,
+      placement: prev.placement ? { ...prev.placement, lightMatch: next } : placement,
+    }));
+
+    const id = await saveDraft({ placement });
+    showMsg(id ? "光と遠近の設定を保存しました（再合成で反映）" : "光と遠近の設定の保存に失敗しました");
+  }
+
+  /**
+   * シリーズモード（ブランドで背景を揃える）
+   * - 基準にするのは表示中のAI背景
+   */
+  async function setSeriesAnchorFromCurrent() {
+    const url = String(d.bgImageUrl || bgDisplayUrl || "").trim();
+    if (!url) {
+      showMsg("先にAI背景を生成または選択してください");
+      return;
+    }
+
+    try {
+      await bgSeries.setAnchor(url);
+      showMsg("表示中の背景をシリーズの基準にしました");
+    } catch (e: any) {
+      console.warn("[AOI FLOW handled]", e);
+      showMsg(`シリーズ設定に失敗：${e?.message || "不明"}`);
+    }
+  }
+
+  async function updateSeries(action: "enable" | "disable" | "clear") {
+    try {
+      if (action === "clear") await bgSeries.clear();
+      else await bgSeries.setEnabled(action === "enable");
+      showMsg(
+        action === "clear"
+          ? "シリーズの基準を解除しました"
+          : action === "enable"
+            ? "シリーズモードをオンにしました"
+            : "シリーズモードをオフにしました"
+      );
+    } catch (e: any) {
+      console.warn("[AOI FLOW handled]", e);
+      showMsg(`シリーズ設定に失敗：${e?.message || "不明"}`);
+    }
+  }
+
+  async function scoreSeriesConsistency(urls: string[]) {
+    try {
+      const failed = await bgSeries.score(urls);
+      showMsg(failed > 0 ? `一貫性を採点しました（${failed}件は読み込めませんでした）` : "一貫性を採点しました");
+    } catch (e: any) {
+      console.warn("[AOI FLOW handled]", e);
+      showMsg(`一貫性の採点に失敗：${e?.message || "不明"}`);
+    }
+  }
 
   async function loadUserBackgroundLibrary() {
     if (!uid) return;
@@ -1069,6 +1223,23 @@ await saveDraft({
     }
   }
 
+  async function handleGenerateProceduralBackground() {
+    if (!uid || busy) return;
+
+    if (typeof generateProceduralTemplateBackground !== "function") {
+      showMsg("定型背景の作成がまだ配線されていません");
+      return;
+    }
+
+    try {
+      await generateProceduralTemplateBackground(proceduralStyle, proceduralLight);
+      setActivePhotoMode("template");
+    } catch (e: any) {
+      console.warn("[AOI FLOW handled]", e);
+      showMsg(`定型背景の作成に失敗：${e?.message || "不明"}`);
+    }
+  }
+
   async function handleSelectAiBackground(url: string) {
     const picked = String(url || "").trim();
     if (!picked) return;
@@ -1459,14 +1630,71 @@ await saveDraft({
                   ※ テンプレ背景は、商品を主役に見せる販売向け背景です。
                 </div>
 
+                <div className="mt-3 rounded-xl border border-white/10 bg-black/15 p-3">
+                  <div className="text-white/70" style={{ fontSize: 12 }}>
+                    定型背景（AIなし・無料・すぐ作成）
+                  </div>
+                  <div className="mt-1 text-white/45" style={{ fontSize: 11, lineHeight: 1.5 }}>
+                    ブランドの配色と、今の接地（{GROUNDING_TYPE_LABEL[groundingType]}）・売り方（
+                    {SELL_DIRECTION_LABEL[sellDirection]}）で描きます。同じ条件なら毎回同じ背景になります。
+                  </div>
+
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {PROCEDURAL_BG_STYLES.map((opt) => (
+                      <PresetButton
+                        key={opt.id}
+                        active={proceduralStyle === opt.id}
+                        label={opt.label}
+                        onClick={() => setProceduralStyle(opt.id)}
+                      />
+                    ))}
+                  </div>
+
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    {PROCEDURAL_LIGHT_DIRECTIONS.map((opt) => (
+                      <PresetButton
+                        key={opt.id}
+                        active={proceduralLight === opt.id}
+                        label={`光：${opt.label}`}
+                        onClick={() => setProceduralLight(opt.id)}
+                      />
+                    ))}
+
+                    <Btn
+                      variant="secondary"
+                      disabled={!uid || busy}
+                      onClick={() => {
+                        void handleGenerateProceduralBackground();
+                      }}
+                    >
+                      定型背景を作成
+                    </Btn>
+                  </div>
+
+                  <div className="mt-1 text-white/40" style={{ fontSize: 11 }}>
+                    {PROCEDURAL_BG_STYLES.find((opt) => opt.id === proceduralStyle)?.description}
+                  </div>
+                </div>
+
                 {templateBgUrls.length > 0 ? (
                   <div className="mt-3">
                     <div className="mb-2 flex items-center justify-between">
                       <div className="text-white/70" style={{ fontSize: 12 }}>
                         テンプレ背景一覧
                       </div>
-                      <div className="text-white/45" style={{ fontSize: 11 }}>
-                        {templateBgUrls.length}件
+                      <div className="flex items-center gap-2">
+                        <span className="text-white/45" style={{ fontSize: 11 }}>
+                          {templateBgUrls.length}件
+                        </span>
+                        <Btn
+                          variant="secondary"
+                          disabled={!uid || busy || bgQuality.busy}
+                          onClick={() => {
+                            void scoreBackgroundUrls(templateBgUrls.slice(0, 12));
+                          }}
+                        >
+                          {bgQuality.busy ? "採点中" : "採点"}
+                        </Btn>
                       </div>
                     </div>
 
@@ -1487,6 +1715,7 @@ await saveDraft({
                             subtitle={recommendedItem?.reason || "テンプレ背景ライブラリ"}
                             active={isCurrentTemplate}
                             disabled={!uid || busy}
+                            quality={bgQuality.qualityByUrl[u]}
                             onClick={() => {
                               void handleSelectTemplateBackground(u);
                             }}
@@ -1577,6 +1806,87 @@ await saveDraft({
                   </div>
                 </div>
 
+                <div className="mt-3 rounded-xl border border-white/10 bg-black/15 p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-white/70" style={{ fontSize: 12 }}>
+                      シリーズモード（ブランドで背景を揃える）
+                    </div>
+                    <SmallBadge
+                      active={!!bgSeries.spec?.enabled}
+                      label={bgSeries.spec ? (bgSeries.spec.enabled ? "オン" : "オフ") : "未設定"}
+                    />
+                  </div>
+
+                  <div className="mt-2 text-white/55" style={{ fontSize: 12, lineHeight: 1.5 }}>
+                    ※ 基準にした背景の色・素材・光の向き・カメラの高さに揃えて生成し、基準とずれた背景は採用しません。ショップの一覧で背景の部屋や光がばらばらになるのを防ぎます。
+                  </div>
+
+                  {bgSeries.spec ? (
+                    <div className="mt-2 flex items-center gap-3">
+                      <img
+                        src={bgSeries.spec.anchorUrl}
+                        alt="シリーズの基準背景"
+                        className="h-16 w-16 shrink-0 rounded-lg border border-white/10 object-cover"
+                      />
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-1">
+                          {[bgSeries.spec.palette.wall, bgSeries.spec.palette.floor, bgSeries.spec.palette.accent].map(
+                            (hex, index) => (
+                              <span
+                                key={`${hex}_${index}`}
+                                className="inline-block h-4 w-4 rounded-full border border-white/20"
+                                style={{ backgroundColor: hex }}
+                                title={hex}
+                              />
+                            )
+                          )}
+                          <span className="ml-1 text-white/60" style={{ fontSize: 11 }}>
+                            {BACKGROUND_SERIES_TONE_LABEL[bgSeries.spec.tone]} / 光:{" "}
+                            {PROCEDURAL_LIGHT_DIRECTIONS.find((x) => x.id === bgSeries.spec?.lightDirection)?.label}
+                          </span>
+                        </div>
+                        <div className="truncate text-white/50" style={{ fontSize: 11 }}>
+                          {backgroundSeriesSummary(bgSeries.spec)}
+                        </div>
+                      </div>
+                    </div>
+                  ) : null}
+
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    <Btn
+                      variant="secondary"
+                      disabled={!uid || busy || bgSeries.busy || !aiOnlyPreviewBackgroundUrl}
+                      onClick={() => {
+                        void setSeriesAnchorFromCurrent();
+                      }}
+                    >
+                      {bgSeries.spec ? "表示中の背景を新しい基準にする" : "表示中の背景をシリーズの基準にする"}
+                    </Btn>
+                    {bgSeries.spec ? (
+                      <>
+                        <Btn
+                          variant="secondary"
+                          disabled={!uid || busy || bgSeries.busy}
+                          onClick={() => {
+                            void updateSeries(bgSeries.spec?.enabled ? "disable" : "enable");
+                          }}
+                        >
+                          {bgSeries.spec.enabled ? "シリーズモードをオフ" : "シリーズモードをオン"}
+                        </Btn>
+                        <Btn
+                          variant="secondary"
+                          disabled={!uid || busy || bgSeries.busy}
+                          onClick={() => {
+                            void updateSeries("clear");
+                          }}
+                        >
+                          基準を解除
+                        </Btn>
+                      </>
+                    ) : null}
+                  </div>
+                </div>
+
                 <div className="mt-3 flex flex-wrap gap-2">
                   <Btn
                     variant="secondary"
@@ -1609,8 +1919,32 @@ await saveDraft({
 
                 {aiBgUrls.length > 0 ? (
                   <div className="mt-3">
-                    <div className="mb-2 text-white/70" style={{ fontSize: 12 }}>
-                      AI背景生成履歴（確認用）
+                    <div className="mb-2 flex items-center justify-between gap-2">
+                      <div className="text-white/70" style={{ fontSize: 12 }}>
+                        AI背景生成履歴（確認用）
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {bgSeries.spec ? (
+                          <Btn
+                            variant="secondary"
+                            disabled={!uid || busy || bgSeries.busy}
+                            onClick={() => {
+                              void scoreSeriesConsistency(aiBgUrls.slice(0, 12));
+                            }}
+                          >
+                            {bgSeries.busy ? "採点中" : "一貫性"}
+                          </Btn>
+                        ) : null}
+                        <Btn
+                          variant="secondary"
+                          disabled={!uid || busy || bgQuality.busy}
+                          onClick={() => {
+                            void scoreBackgroundUrls(aiBgUrls.slice(0, 12));
+                          }}
+                        >
+                          {bgQuality.busy ? "採点中" : "採点"}
+                        </Btn>
+                      </div>
                     </div>
 
                     <div className="flex max-h-[190px] flex-wrap gap-2 overflow-auto pr-1">
@@ -1624,6 +1958,8 @@ await saveDraft({
                             subtitle="生成済みAI背景"
                             active={isCurrentAiBg}
                             disabled={!uid || busy}
+                            quality={bgQuality.qualityByUrl[u]}
+                            consistency={bgSeries.consistencyByUrl[u]}
                             onClick={() => {
                               void handleSelectAiBackground(u);
                             }}
@@ -1643,6 +1979,15 @@ await saveDraft({
                       <span className="text-white/45" style={{ fontSize: 11 }}>
                         {libraryBackgrounds.length}件
                       </span>
+                      <Btn
+                        variant="secondary"
+                        disabled={!uid || busy || bgQuality.busy || libraryBackgrounds.length === 0}
+                        onClick={() => {
+                          void scoreBackgroundUrls(libraryBackgrounds.slice(0, 12).map((asset) => asset.url));
+                        }}
+                      >
+                        {bgQuality.busy ? "採点中" : "採点"}
+                      </Btn>
                       <Btn
                         variant="secondary"
                         disabled={!uid || busy || libraryBusy}
@@ -1677,6 +2022,7 @@ await saveDraft({
                             }
                             active={isActive}
                             disabled={!uid || busy}
+                            quality={bgQuality.qualityByUrl[asset.url]}
                             onClick={() => {
                               if (isTemplate) {
                                 void handleSelectTemplateBackground(asset.url);
@@ -1769,8 +2115,14 @@ await saveDraft({
               busy={busy}
               showMsg={showMsg}
               hideMainPreview={hideLowerPreview}
+              lightMatch={d.placement?.lightMatch}
+              onSaveLightMatch={saveLightMatch}
             />
 
+            <ShadowStyleCard d={d} setD={setD} saveDraft={saveDraft} busy={busy} showMsg={showMsg} />
+
+            <StageProductsCard d={d} setD={setD} saveDraft={saveDraft} busy={busy} showMsg={showMsg} />
+
             <div className="flex flex-wrap gap-2">
               <Btn
                 variant="secondary"
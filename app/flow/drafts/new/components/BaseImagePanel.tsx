@@ -23,6 +23,7 @@ type Props = {
 
   onUploadImageFilesNew: (files: File[]) => Promise<void> | void;
   onCutoutCurrentBaseToReplace: () => Promise<void> | void;
+  onCutoutAllMaterials: () => Promise<void> | void;
   onPromoteMaterialToBase: (url: string) => Promise<void> | void;
   onRemoveBaseOrMaterialImage: (url: string) => Promise<void> | void;
   onSyncBaseAndMaterialImagesFromStorage: () => Promise<void> | void;
@@ -85,6 +86,7 @@ export default function BaseImagePanel(props: Props) {
     defaultTextOverlay,
     onUploadImageFilesNew,
     onCutoutCurrentBaseToReplace,
+    onCutoutAllMaterials,
     onPromoteMaterialToBase,
     onRemoveBaseOrMaterialImage,
     onSyncBaseAndMaterialImagesFromStorage,
@@ -515,6 +517,15 @@ export default function BaseImagePanel(props: Props) {
                   透過して元画像にする
                 </Btn>
 
+                <Btn
+                  variant="secondary"
+                  disabled={!(d.images?.materials?.length) || busy || cutoutBusy}
+                  onClick={onCutoutAllMaterials}
+                  title="素材画像をまとめて透過PNGにします（元の素材画像は残します）"
+                >
+                  素材をまとめて透過
+                </Btn>
+
                 <Btn
                   variant="danger"
                   disabled={!d.baseImageUrl || busy || cutoutBusy || editorBusy}
@@ -3,17 +3,20 @@
 
 import React from "react";
 import type { DraftDoc } from "@/lib/types/draft";
+import type { BrandOption } from "@/lib/brand/brands";
 import { UI, Btn, Chip, PhotoSubmissionGuide } from "../ui";
 
 type Props = {
   d: DraftDoc;
   brandLabel: string;
+  /** users/{uid}/brands の一覧（設定ページで作ったブランド） */
+  brandOptions: BrandOption[];
+  brandValue: string;
   phaseLabel: string;
   uiMsg: string;
   canGenerate: boolean;
   formStyle: React.CSSProperties;
-  onSelectVento: () => void;
-  onSelectRiva: () => void;
+  onSelectBrand: (brandId: string) => void;
   onGenerateCaptions: () => void | Promise<void>;
   setD: React.Dispatch<React.SetStateAction<DraftDoc>>;
 };
@@ -22,12 +25,13 @@ export default function BrandVisionCard(props: Props) {
   const {
     d,
     brandLabel,
+    brandOptions,
+    brandValue,
     phaseLabel,
     uiMsg,
     canGenerate,
     formStyle,
-    onSelectVento,
-    onSelectRiva,
+    onSelectBrand,
     onGenerateCaptions,
     setD,
   } = props;
@@ -42,19 +46,16 @@ export default function BrandVisionCard(props: Props) {
       </div>
 
       <div className="flex items-center gap-2 flex-wrap">
-        <Btn
-          variant={d.brand === "vento" ? "primary" : "secondary"}
-          onClick={onSelectVento}
-        >
-          VENTO
-        </Btn>
-
-        <Btn
-          variant={d.brand === "riva" ? "primary" : "secondary"}
-          onClick={onSelectRiva}
-        >
-          RIVA
-        </Btn>
+        {brandOptions.map((o) => (
+          <Btn
+            key={o.id}
+            variant={brandValue === o.id ? "primary" : "secondary"}
+            onClick={() => onSelectBrand(o.id)}
+            title={o.isActive ? undefined : "無効化中のブランド"}
+          >
+            {o.name}
+          </Btn>
+        ))}
 
         <Chip>
           {brandLabel} / {phaseLabel}
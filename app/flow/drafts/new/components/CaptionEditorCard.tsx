@@ -1,8 +1,21 @@
 //app/flow/drafts/new/components/CaptionEditorCard.tsx
 "use client";
 
-import React from "react";
-import type { DraftDoc } from "@/lib/types/draft";
+import React, { useState } from "react";
+import type { BrandKit, CaptionLanguage, DraftDoc } from "@/lib/types/draft";
+import { BRAND_FONTS } from "@/lib/brand/brandKit";
+import {
+  CAPTION_LANGUAGES,
+  captionLanguageOption,
+  isOverseasCaptionLanguage,
+} from "@/lib/drafts/captionLanguages";
+import { CAPTION_FIELD_LABELS, captionViolationKey } from "@/lib/drafts/captionCompliance";
+import {
+  captionStyleLabel,
+  classifyCaptionStyle,
+  syncPostedCaptionVariant,
+  variantSellDays,
+} from "@/lib/drafts/captionExperiments";
 import { UI, Btn } from "../ui";
 
 type Props = {
@@ -12,10 +25,22 @@ type Props = {
   formStyle: React.CSSProperties;
   setD: React.Dispatch<React.SetStateAction<DraftDoc>>;
   onApplyIg3ToOverlayOnly: (text: string) => void | Promise<void>;
+  /** ブランドの書体・配色（文字表示に使う時の初期の見た目） */
+  brandKit?: BrandKit;
+  onApplyBrandKitToOverlay?: () => void | Promise<void>;
   onSaveDraft: () => void | Promise<void>;
   onSaveCaptionSet?: () => void | Promise<void>;
   onRestoreCaptionSet?: (id: string) => void | Promise<void>;
   onClearCurrentCaptions?: () => void | Promise<void>;
+  /** 文章チェック（生成後は自動。編集後はここから再チェック） */
+  onRecheckCompliance?: () => void | Promise<void>;
+  onApplyComplianceFix?: (violationKey: string) => void | Promise<void>;
+  /** 保管した文章を投稿版にする（A/B の記録） */
+  onMarkPostedCaptionSet?: (id: string) => void | Promise<void>;
+  /** ハッシュタグ候補を Instagram 本文に足す */
+  onAddHashtags?: (tags: string[]) => void | Promise<void>;
+  /** 海外向けEC出品文（日本語の文章欄は上書きせず、言語付きで保管する） */
+  onGenerateLocalizedListing?: (language: CaptionLanguage) => void | Promise<void>;
   onEnsureDraftId: () => void | Promise<void>;
 };
 
@@ -45,14 +70,37 @@ export default function CaptionEditorCard(props: Props) {
     formStyle,
     setD,
     onApplyIg3ToOverlayOnly,
+    brandKit,
+    onApplyBrandKitToOverlay,
     onSaveDraft,
     onSaveCaptionSet,
     onRestoreCaptionSet,
     onClearCurrentCaptions,
+    onRecheckCompliance,
+    onApplyComplianceFix,
+    onMarkPostedCaptionSet,
+    onAddHashtags,
+    onGenerateLocalizedListing,
     onEnsureDraftId,
   } = props;
 
   const sellCheck = d.outcome?.sellCheck;
+  const compliance = d.captionCompliance;
+  const hashtagSuggestions = d.hashtagSuggestions ?? [];
+
+  const overseasLanguages = CAPTION_LANGUAGES.filter((l) => isOverseasCaptionLanguage(l.id));
+  const [targetLanguage, setTargetLanguage] = useState<CaptionLanguage>(overseasLanguages[0]?.id ?? "en");
+
+  // 日本語の保管文章（呼び出すと文章欄に戻る）と、言語ごとの最新の海外向け出品文を分けて出す
+  const savedSets = d.savedCaptionSets ?? [];
+  const japaneseSets = savedSets.filter((item) => !isOverseasCaptionLanguage(item.language));
+  const latestOverseasSets = overseasLanguages
+    .map((l) => savedSets.find((item) => item.language === l.id))
+    .filter((item): item is NonNullable<typeof item> => !!item);
+
+  // 投稿版ごとの成果（今の投稿版は下書き全体の最新の数値を写して表示）
+  const postedCaptionSetId = d.outcome?.postedCaptionSetId ?? "";
+  const captionVariants = d.outcome ? syncPostedCaptionVariant(d.outcome).captionVariants ?? [] : [];
 
   return (
     <div
@@ -125,7 +173,7 @@ export default function CaptionEditorCard(props: Props) {
         <div className="mt-3">
           <select
             value=""
-            disabled={busy || !onRestoreCaptionSet || !(d.savedCaptionSets ?? []).length}
+            disabled={busy || !onRestoreCaptionSet || !japaneseSets.length}
             onChange={(e) => {
               const id = e.target.value;
               if (!id) return;
@@ -135,19 +183,231 @@ export default function CaptionEditorCard(props: Props) {
             style={formStyle}
           >
             <option value="">
-              {(d.savedCaptionSets ?? []).length
+              {japaneseSets.length
                 ? "保存済み文章を選択"
                 : "保存済み文章はまだありません"}
             </option>
-            {(d.savedCaptionSets ?? []).map((item) => (
+            {japaneseSets.map((item) => (
               <option key={item.id} value={item.id}>
                 {item.label || new Date(item.createdAt).toLocaleString("ja-JP")}
               </option>
             ))}
           </select>
         </div>
+
+        <div className="mt-3">
+          <div className="mb-1 text-white/60" style={{ fontSize: 12 }}>
+            投稿した文章（A/B の記録・成果はこの文章に入ります）
+          </div>
+          <select
+            value={postedCaptionSetId}
+            disabled={!uid || busy || !onMarkPostedCaptionSet || !japaneseSets.length}
+            onChange={(e) => {
+              const id = e.target.value;
+              if (!id) return;
+              void onMarkPostedCaptionSet?.(id);
+            }}
+            className="w-full rounded-xl border p-2 outline-none"
+            style={formStyle}
+          >
+            <option value="">まだ記録していません</option>
+            {japaneseSets.map((item) => (
+              <option key={item.id} value={item.id}>
+                [{captionStyleLabel(classifyCaptionStyle(item))}]{" "}
+                {item.label || new Date(item.createdAt).toLocaleString("ja-JP")}
+              </option>
+            ))}
+          </select>
+
+          {captionVariants.length > 0 ? (
+            <div className="mt-2 grid gap-1">
+              {captionVariants.map((v) => {
+                const sellDays = variantSellDays(v);
+                return (
+                  <div
+                    key={v.captionSetId}
+                    className="flex flex-wrap items-center gap-2 rounded-xl bg-black/25 px-3 py-2 text-xs text-white/70"
+                  >
+                    {v.captionSetId === postedCaptionSetId ? (
+                      <span className="rounded-full bg-white px-2 py-0.5 font-black text-black">投稿中</span>
+                    ) : null}
+                    <span className="font-black text-white/85">{captionStyleLabel(v.style)}</span>
+                    <span className="min-w-0 flex-1 truncate">{v.label || v.excerpt || v.captionSetId}</span>
+                    <span>閲覧 {v.views ?? "—"}</span>
+                    <span>いいね {v.likes ?? "—"}</span>
+                    <span>
+                      {sellDays !== undefined
+                        ? `${Math.round(sellDays * 10) / 10}日で売却`
+                        : v.soldAt
+                          ? "売却"
+                          : "未売却"}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : null}
+        </div>
       </div>
 
+      <div className="mb-4 rounded-2xl border border-white/10 bg-white/5 p-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <div className="text-white/90 font-black" style={{ fontSize: 13 }}>
+              海外向け出品文
+            </div>
+            <div className="mt-1 text-white/55" style={{ fontSize: 12, lineHeight: 1.6 }}>
+              EC商品タイトル・説明文・訴求ポイントを他の言語で作ります。日本語の文章欄はそのままで、言語ごとに保管します。
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={targetLanguage}
+              disabled={busy}
+              onChange={(e) => setTargetLanguage(e.target.value as CaptionLanguage)}
+              className="rounded-xl border p-2 outline-none"
+              style={formStyle}
+            >
+              {overseasLanguages.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.label}
+                </option>
+              ))}
+            </select>
+
+            <Btn
+              variant="secondary"
+              disabled={!uid || busy || !onGenerateLocalizedListing}
+              onClick={() => onGenerateLocalizedListing?.(targetLanguage)}
+              title={captionLanguageOption(targetLanguage).marketplaceHint}
+            >
+              出品文を生成
+            </Btn>
+          </div>
+        </div>
+
+        {latestOverseasSets.length > 0 ? (
+          <div className="mt-3 grid gap-2">
+            {latestOverseasSets.map((item) => (
+              <div key={item.id} className="rounded-xl border border-white/10 bg-black/20 p-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="rounded-full bg-white px-2 py-0.5 text-xs font-black text-black">
+                    {captionLanguageOption(item.language).badge}
+                  </span>
+                  <span className="text-white/55" style={{ fontSize: 12 }}>
+                    {item.label || new Date(item.createdAt).toLocaleString("ja-JP")}
+                  </span>
+                </div>
+
+                {item.compliance ? (
+                  <div className="mt-2 grid gap-1">
+                    <div className="text-white/55" style={{ fontSize: 12, lineHeight: 1.6 }}>
+                      {item.compliance.violations.length === 0
+                        ? "文章チェック：問題なし"
+                        : `文章チェック：要修正 ${item.compliance.errorCount}件 ・要確認 ${item.compliance.warningCount}件`}
+                    </div>
+                    {item.compliance.violations.map((v) => (
+                      <div key={captionViolationKey(v)} className="text-white/75" style={{ fontSize: 12, lineHeight: 1.6 }}>
+                        <span
+                          className={`mr-2 rounded-full px-2 py-0.5 text-xs font-black ${
+                            v.severity === "error" ? "bg-red-400 text-black" : "bg-amber-300 text-black"
+                          }`}
+                        >
+                          {v.severity === "error" ? "要修正" : "要確認"}
+                        </span>
+                        {v.message}
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+
+                <textarea
+                  readOnly
+                  value={[item.ecTitle ?? "", "", item.ecDescription ?? "", "", bulletsToText(item.ecBullets)]
+                    .join("\n")
+                    .trim()}
+                  className="mt-2 w-full rounded-xl border p-3 outline-none"
+                  style={{ ...formStyle, minHeight: 150 }}
+                />
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      {compliance ? (
+        <div className="mb-4 rounded-2xl border border-white/10 bg-white/5 p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <div className="text-white/90 font-black" style={{ fontSize: 13 }}>
+                文章チェック
+              </div>
+              <div className="mt-1 text-white/55" style={{ fontSize: 12, lineHeight: 1.6 }}>
+                {compliance.violations.length === 0
+                  ? "ブランドの禁止語・必須語、出品先の文字数・ハッシュタグ・禁止表現に問題はありません。"
+                  : `要修正 ${compliance.errorCount}件 ・要確認 ${compliance.warningCount}件`}
+                {" "}（{new Date(compliance.checkedAt).toLocaleString("ja-JP")}）
+              </div>
+            </div>
+
+            <Btn
+              variant="ghost"
+              disabled={!uid || busy || !onRecheckCompliance}
+              onClick={() => onRecheckCompliance?.()}
+            >
+              再チェック
+            </Btn>
+          </div>
+
+          {compliance.violations.length > 0 ? (
+            <div className="mt-3 grid gap-2">
+              {compliance.violations.map((v) => {
+                const key = captionViolationKey(v);
+                return (
+                  <div key={key} className="rounded-xl bg-black/25 px-3 py-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-black ${
+                          v.severity === "error" ? "bg-red-400 text-black" : "bg-amber-300 text-black"
+                        }`}
+                      >
+                        {v.severity === "error" ? "要修正" : "要確認"}
+                      </span>
+                      {v.field ? (
+                        <span className="text-white/55" style={{ fontSize: 12 }}>
+                          {CAPTION_FIELD_LABELS[v.field]}
+                        </span>
+                      ) : null}
+                    </div>
+
+                    <div className="mt-1 text-white/85" style={{ fontSize: 12, lineHeight: 1.6 }}>
+                      {v.message}
+                    </div>
+                    <div className="text-white/55" style={{ fontSize: 12, lineHeight: 1.6 }}>
+                      {v.suggestion}
+                    </div>
+
+                    {v.field && typeof v.fixedText === "string" && onApplyComplianceFix ? (
+                      <div className="mt-2">
+                        <Btn
+                          variant="secondary"
+                          disabled={!uid || busy}
+                          onClick={() => onApplyComplianceFix(key)}
+                          title={v.fixedText}
+                        >
+                          修正案を反映
+                        </Btn>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
       <div className="text-white/80 mb-2" style={{ fontSize: UI.FONT.labelPx }}>
         Instagram 本文（編集可）
       </div>
@@ -165,6 +425,39 @@ export default function CaptionEditorCard(props: Props) {
         placeholder="IG本文"
       />
 
+      {hashtagSuggestions.length > 0 ? (
+        <div className="mt-2 rounded-xl border border-white/10 bg-black/20 p-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-white/60" style={{ fontSize: 12 }}>
+              ハッシュタグ候補（点数順・押すと本文に追加）
+            </div>
+            <Btn
+              variant="ghost"
+              disabled={!uid || busy || !onAddHashtags}
+              onClick={() => onAddHashtags?.(hashtagSuggestions.slice(0, 10).map((h) => h.tag))}
+            >
+              上位10個を追加
+            </Btn>
+          </div>
+
+          <div className="mt-2 flex flex-wrap gap-1">
+            {hashtagSuggestions.map((h) => (
+              <button
+                key={h.tag}
+                type="button"
+                disabled={!uid || busy || !onAddHashtags}
+                onClick={() => onAddHashtags?.([h.tag])}
+                title={h.reasons.join(" / ")}
+                className="rounded-full border border-white/20 bg-black/40 px-2 py-0.5 text-xs text-white/85 disabled:opacity-50"
+              >
+                {h.tag}
+                <span className="ml-1 text-white/45">{h.score}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
       <div className="text-white/80 mt-4 mb-2" style={{ fontSize: UI.FONT.labelPx }}>
         X 投稿文（編集可）
       </div>
@@ -269,6 +562,34 @@ export default function CaptionEditorCard(props: Props) {
         IG短文候補（ig3）※本文は上書きしない
       </div>
 
+      {brandKit ? (
+        <div className="mb-2 flex flex-wrap items-center gap-2 rounded-xl border border-white/10 bg-black/20 p-2">
+          <div className="text-white/60" style={{ fontSize: 12 }}>
+            ブランドキット：{BRAND_FONTS.find((f) => f.id === brandKit.fontId)?.label ?? brandKit.fontId}
+          </div>
+          <div className="flex gap-1">
+            {[brandKit.palette.text, brandKit.palette.band, brandKit.palette.primary, brandKit.palette.accent].map((c, i) => (
+              <span
+                key={`${c}-${i}`}
+                className="inline-block h-4 w-4 rounded-full border border-white/30"
+                style={{ background: c }}
+                title={c}
+              />
+            ))}
+          </div>
+          {onApplyBrandKitToOverlay ? (
+            <Btn
+              variant="ghost"
+              disabled={busy}
+              onClick={() => onApplyBrandKitToOverlay()}
+              title="文字はそのまま、書体・色・帯だけをブランドの設定に戻す"
+            >
+              文字表示をブランドの見た目にする
+            </Btn>
+          ) : null}
+        </div>
+      ) : null}
+
       <div className="grid grid-cols-1 gap-2">
         {(d.ig3 ?? []).length === 0 ? (
           <div
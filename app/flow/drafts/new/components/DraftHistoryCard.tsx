@@ -0,0 +1,241 @@
+// /app/flow/drafts/new/components/DraftHistoryCard.tsx
+"use client";
+
+import React, { useState } from "react";
+import type { DraftRevisionPreview, DraftRevisionSummary } from "@/lib/types/draft";
+import { UI, Btn, HelpText } from "../ui";
+
+/**
+ * 編集履歴（版の一覧と復元）
+ *
+ * ✅ この部品の責務
+ * - 保存ごとに残った版を新しい順に並べる（何が変わったかを項目名で出す）
+ * - 1件を選ぶと、その版の中身と「今との違い」をプレビューする
+ * - 「この版に戻す」で下書きを丸ごと戻す
+ *
+ * ✅ 取得・復元は useDraftPersistence 側が持つ。ここは表示だけ。
+ */
+
+type Props = {
+  draftId: string | null;
+  busy: boolean;
+  revisions: DraftRevisionSummary[];
+  revisionsBusy: boolean;
+  onLoad: () => Promise<unknown>;
+  onPreview: (revisionId: string) => Promise<DraftRevisionPreview | null>;
+  onRestore: (revisionId: string) => Promise<boolean>;
+  showMsg: (msg: string) => void;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  brandId: "ブランド",
+  brand: "ブランド",
+  vision: "ビジョン",
+  keywords: "キーワード",
+  igCaption: "Instagram文",
+  xCaption: "X文",
+  ig3: "短文",
+  shortCopies: "短文",
+  savedCaptionSets: "保存した文章",
+  ecTitle: "ECタイトル",
+  ecDescription: "EC説明文",
+  ecBullets: "EC箇条書き",
+  images: "画像素材",
+  baseImageUrl: "元画像",
+  aiImageUrl: "AI画像",
+  compositeImageUrl: "合成画像",
+  bgImageUrl: "背景",
+  bgImageUrls: "背景",
+  templateBgUrl: "テンプレ背景",
+  templateBgUrls: "テンプレ背景",
+  placement: "商品配置",
+  stageProducts: "セット商品",
+  detailImageUrls: "詳細画像",
+  useSceneImageUrls: "使用シーン",
+  sizeTemplateImageUrl: "サイズ表",
+  videoUrl: "動画",
+  nonAiVideoUrl: "動画",
+  productVideo: "商品動画",
+  cmVideo: "CM動画",
+  outcome: "成果",
+  phase: "状態",
+  hiddenForUids: "一覧から非表示",
+};
+
+function formatAt(at: number) {
+  if (!at) return "-";
+  return new Date(at).toLocaleString("ja-JP", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function describeFields(fields: string[], max = 4) {
+  const labels = [...new Set(fields.map((field) => FIELD_LABELS[field] ?? field))];
+  if (labels.length === 0) return "変更なし";
+  if (labels.length <= max) return labels.join("・");
+  return `${labels.slice(0, max).join("・")} ほか${labels.length - max}項目`;
+}
+
+function previewText(snapshot: Record<string, unknown>, key: string) {
+  const value = snapshot[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export default function DraftHistoryCard({
+  draftId,
+  busy,
+  revisions,
+  revisionsBusy,
+  onLoad,
+  onPreview,
+  onRestore,
+  showMsg,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState<DraftRevisionPreview | null>(null);
+  const [previewBusy, setPreviewBusy] = useState(false);
+
+  const disabled = !draftId || busy || revisionsBusy;
+
+  const toggle = async () => {
+    const next = !open;
+    setOpen(next);
+    setPreview(null);
+    if (next) await onLoad();
+  };
+
+  const select = async (revisionId: string) => {
+    if (preview?.id === revisionId) {
+      setPreview(null);
+      return;
+    }
+
+    setPreviewBusy(true);
+    try {
+      setPreview(await onPreview(revisionId));
+    } finally {
+      setPreviewBusy(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!preview) return;
+    if (!window.confirm(`${formatAt(preview.at)} の版に戻します。よろしいですか？`)) return;
+
+    const ok = await onRestore(preview.id);
+    if (ok) {
+      setPreview(null);
+      showMsg(`${formatAt(preview.at)} の版に戻しました`);
+    }
+  };
+
+  const previewImage =
+    preview &&
+    (previewText(preview.snapshot, "compositeImageUrl") ||
+      previewText(preview.snapshot, "aiImageUrl") ||
+      previewText(preview.snapshot, "baseImageUrl"));
+
+  return (
+    <div
+      className="rounded-2xl border border-white/12 bg-black/25"
+      style={{ padding: UI.cardPadding }}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-white/80" style={{ fontSize: UI.FONT.labelPx }}>
+          編集履歴
+        </div>
+        <div className="flex gap-2">
+          {open ? (
+            <Btn variant="ghost" disabled={disabled} onClick={onLoad}>
+              更新
+            </Btn>
+          ) : null}
+          <Btn variant="secondary" disabled={!draftId || busy} onClick={toggle}>
+            {open ? "閉じる" : "履歴を見る"}
+          </Btn>
+        </div>
+      </div>
+
+      {!draftId ? (
+        <div className="mt-2">
+          <HelpText>保存すると履歴が残ります。</HelpText>
+        </div>
+      ) : null}
+
+      {open ? (
+        <div className="mt-3 space-y-2">
+          {revisionsBusy && revisions.length === 0 ? <HelpText>読み込み中...</HelpText> : null}
+          {!revisionsBusy && revisions.length === 0 ? <HelpText>まだ履歴がありません。</HelpText> : null}
+
+          {revisions.map((revision, index) => {
+            const selected = preview?.id === revision.id;
+
+            return (
+              <div key={revision.id}>
+                <button
+                  type="button"
+                  disabled={disabled || previewBusy}
+                  onClick={() => void select(revision.id)}
+                  className={[
+                    "w-full text-left rounded-xl border px-3 py-2 transition",
+                    selected ? "border-white/60 bg-white/10" : "border-white/12 bg-black/20 hover:bg-white/6",
+                  ].join(" ")}
+                >
+                  <div className="flex items-center justify-between gap-2 text-white/85" style={{ fontSize: 13 }}>
+                    <span className="font-bold">{formatAt(revision.at)}</span>
+                    <span className="text-white/50" style={{ fontSize: 12 }}>
+                      {index === 0
+                        ? "最新"
+                        : revision.source === "restore"
+                          ? "復元"
+                          : revision.source === "bulk"
+                            ? "一括"
+                            : "保存"}
+                    </span>
+                  </div>
+                  <div className="text-white/60" style={{ fontSize: 12 }}>
+                    {describeFields(revision.changedFields)}
+                  </div>
+                </button>
+
+                {selected && preview ? (
+                  <div className="mt-2 rounded-xl border border-white/12 bg-black/30 p-3 space-y-2">
+                    {previewImage ? (
+                      <img
+                        src={previewImage}
+                        alt="この版の画像"
+                        className="w-32 h-32 object-contain rounded-lg bg-black/40"
+                      />
+                    ) : null}
+
+                    {previewText(preview.snapshot, "igCaption") ? (
+                      <div className="text-white/70 whitespace-pre-wrap line-clamp-4" style={{ fontSize: 12 }}>
+                        {previewText(preview.snapshot, "igCaption")}
+                      </div>
+                    ) : null}
+
+                    <HelpText>
+                      今との違い：
+                      {preview.diffFromCurrent.length ? describeFields(preview.diffFromCurrent, 8) : "なし（今と同じ）"}
+                    </HelpText>
+
+                    <Btn
+                      variant="danger"
+                      disabled={disabled || preview.diffFromCurrent.length === 0}
+                      onClick={restore}
+                    >
+                      この版に戻す
+                    </Btn>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -13,7 +13,10 @@ import type {
   ImagePurpose,
   StaticImageVariant,
   ProductPhotoMode,
+  ProceduralBgStyle,
+  ProceduralLightDirection,
   SizeTemplateType,
+  StageLightMatchResult,
 } from "@/lib/types/draft";
 
 /**
@@ -90,6 +93,7 @@ type Props = {
       usedDefaultLeft?: boolean;
       usedDefaultTop?: boolean;
     } | null;
+    lightMatch?: StageLightMatchResult | null;
     updatedAt?: number;
   } | null;
 
@@ -145,6 +149,7 @@ type Props = {
 
   onUploadImageFilesNew: (files: File[]) => Promise<void> | void;
   onCutoutCurrentBaseToReplace: () => Promise<void> | void;
+  onCutoutAllMaterials: () => Promise<void> | void;
   onPromoteMaterialToBase: (url: string) => Promise<void> | void;
   onRemoveBaseOrMaterialImage: (url: string) => Promise<void> | void;
   onSyncBaseAndMaterialImagesFromStorage: () => Promise<void> | void;
@@ -173,6 +178,10 @@ type Props = {
   templateBgUrls?: string[];
 
   generateTemplateBackground?: () => Promise<string | void>;
+  generateProceduralTemplateBackground?: (
+    style: ProceduralBgStyle,
+    lightDirection: ProceduralLightDirection
+  ) => Promise<string | void>;
   fetchTemplateRecommendations?: () => Promise<TemplateRecommendResultForPanel | void>;
   selectTemplateBackground?: (url: string) => Promise<void> | void;
 
@@ -450,6 +459,7 @@ export default function ImageTabPanel({
 
   onUploadImageFilesNew,
   onCutoutCurrentBaseToReplace,
+  onCutoutAllMaterials,
   onPromoteMaterialToBase,
   onRemoveBaseOrMaterialImage,
   onSyncBaseAndMaterialImagesFromStorage,
@@ -477,6 +487,7 @@ export default function ImageTabPanel({
   templateBgUrl,
   templateBgUrls,
   generateTemplateBackground,
+  generateProceduralTemplateBackground,
   fetchTemplateRecommendations,
   selectTemplateBackground,
 
@@ -562,6 +573,7 @@ export default function ImageTabPanel({
             defaultTextOverlay={defaultTextOverlay}
             onUploadImageFilesNew={onUploadImageFilesNew}
             onCutoutCurrentBaseToReplace={onCutoutCurrentBaseToReplace}
+            onCutoutAllMaterials={onCutoutAllMaterials}
             onPromoteMaterialToBase={onPromoteMaterialToBase}
             onRemoveBaseOrMaterialImage={onRemoveBaseOrMaterialImage}
             onSyncBaseAndMaterialImagesFromStorage={onSyncBaseAndMaterialImagesFromStorage}
@@ -601,6 +613,7 @@ export default function ImageTabPanel({
         onRemoveCompositeImage={onRemoveCompositeImage}
         onRemoveCompositeTextImage={onRemoveCompositeTextImage}
         generateTemplateBackground={generateTemplateBackground}
+        generateProceduralTemplateBackground={generateProceduralTemplateBackground}
         fetchTemplateRecommendations={fetchTemplateRecommendations}
         selectTemplateBackground={selectTemplateBackground}
         setBgImageUrl={setBgImageUrl}
@@ -693,6 +706,7 @@ export default function ImageTabPanel({
         onRemoveCompositeImage={onRemoveCompositeImage}
         onRemoveCompositeTextImage={onRemoveCompositeTextImage}
         generateTemplateBackground={generateTemplateBackground}
+        generateProceduralTemplateBackground={generateProceduralTemplateBackground}
         fetchTemplateRecommendations={fetchTemplateRecommendations}
         selectTemplateBackground={selectTemplateBackground}
         setBgImageUrl={setBgImageUrl}
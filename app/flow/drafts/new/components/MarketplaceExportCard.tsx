@@ -0,0 +1,113 @@
+// /app/flow/drafts/new/components/MarketplaceExportCard.tsx
+"use client";
+
+import React, { useState } from "react";
+import { auth } from "@/firebase";
+import { EXPORT_PRESETS, EXPORT_TARGETS, type ExportTarget } from "@/lib/drafts/exportPresets";
+import { UI, Btn, HelpText, SelectBtn } from "../ui";
+
+/**
+ * 出品先別の書き出し（ZIP）
+ *
+ * ✅ この部品の責務
+ * - 出品先（メルカリ / ヤフオク / ラクマ / Instagram など）を選ぶ
+ * - /api/drafts/export で作った ZIP をダウンロードする
+ *
+ * ✅ 画像は保存済みの下書きから作るので、直前の編集は先に保存しておく
+ */
+
+type Props = {
+  draftId: string | null;
+  busy: boolean;
+  showMsg: (msg: string) => void;
+};
+
+export default function MarketplaceExportCard({ draftId, busy, showMsg }: Props) {
+  const [target, setTarget] = useState<ExportTarget>("mercari");
+  const [exporting, setExporting] = useState(false);
+
+  const preset = EXPORT_PRESETS[target];
+
+  const download = async () => {
+    if (!draftId) {
+      showMsg("先に下書きIDを確定してください");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const token = await auth.currentUser?.getIdToken(true);
+      if (!token) throw new Error("ログインが必要です");
+
+      const res = await fetch("/api/drafts/export", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ draftId, target }),
+      });
+
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error(json?.error || "書き出しに失敗しました");
+      }
+
+      const blob = await res.blob();
+      const objectUrl = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = objectUrl;
+      a.download = `aoi_${target}_${draftId}.zip`;
+      a.click();
+      URL.revokeObjectURL(objectUrl);
+
+      const skipped = Number(res.headers.get("X-Export-Skipped") || 0);
+      showMsg(
+        skipped > 0
+          ? `${preset.label} 用ZIPを書き出しました（取得できない画像 ${skipped} 枚は除外）`
+          : `${preset.label} 用ZIPを書き出しました`
+      );
+    } catch (error) {
+      showMsg(error instanceof Error ? error.message : "書き出しに失敗しました");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="rounded-2xl border border-white/12 bg-black/25"
+      style={{ padding: UI.cardPadding }}
+    >
+      <div className="text-white/80 mb-2" style={{ fontSize: UI.FONT.labelPx }}>
+        出品先別に書き出す（ZIP）
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {EXPORT_TARGETS.map((value) => (
+          <SelectBtn
+            key={value}
+            selected={target === value}
+            label={EXPORT_PRESETS[value].label}
+            disabled={busy || exporting}
+            onClick={() => setTarget(value)}
+          />
+        ))}
+      </div>
+
+      <div className="mt-3">
+        <HelpText>
+          {preset.width}×{preset.height} / 最大{preset.maxImages}枚 / {preset.coverRule}
+          <br />
+          合成画像・詳細画像・使用シーン・サイズ表と、タイトル・説明文をまとめて書き出します。
+        </HelpText>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <Btn variant="secondary" disabled={!draftId || busy || exporting} onClick={download}>
+          {exporting ? "書き出し中..." : `${preset.label} 用ZIPをダウンロード`}
+        </Btn>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,13 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import { Btn } from "../ui";
+import { brandFontCss } from "@/lib/brand/brandKit";
 import type {
+  ProductLightDirection,
+  ProductLightMatch,
   ProductPhotoMode,
   SizeTemplateType,
+  StageLightMatchResult,
   TextOverlay,
 } from "@/lib/types/draft";
 
@@ -111,6 +115,7 @@ type Props = {
       usedDefaultLeft?: boolean;
       usedDefaultTop?: boolean;
     } | null;
+    lightMatch?: StageLightMatchResult | null;
     updatedAt?: number;
   } | null;
 
@@ -211,6 +216,14 @@ type Props = {
   busy?: boolean;
   showMsg?: (msg: string) => void;
 
+  /**
+   * 背景の光・遠近合わせ（placement.lightMatch）
+   * - 推定値は serverPlacementMeta.lightMatch（最後の合成結果）から表示する
+   * - onSaveLightMatch が無ければ表示のみ
+   */
+  lightMatch?: ProductLightMatch;
+  onSaveLightMatch?: (next: ProductLightMatch) => void | Promise<void>;
+
   /**
    * 上部 EDIT PREVIEW にプレビューを集約する場合、
    * 下部の大きなメインプレビューだけを非表示にするためのフラグです。
@@ -924,6 +937,162 @@ function SmallBadge({ active, label }: { active: boolean; label: string }) {
 }
 
 
+/* -------------------------------------------------------
+ * 光と遠近（placement.lightMatch）
+ * ----------------------------------------------------- */
+
+const LIGHT_DIRECTION_LABEL: Record<ProductLightDirection, string> = {
+  left: "左から",
+  center: "正面",
+  right: "右から",
+};
+
+type LightMatchSliderKey = "exposure" | "contrast" | "rim" | "floorLine";
+
+/**
+ * スライダーは % で扱う（保存値は 0.7〜1.3 / 0〜1 の小数）
+ */
+const LIGHT_MATCH_SLIDERS: Array<{
+  key: LightMatchSliderKey;
+  label: string;
+  min: number;
+  max: number;
+  fallback: number;
+  help: string;
+}> = [
+  { key: "exposure", label: "露出", min: 70, max: 130, fallback: 100, help: "100 がそのまま。背景が暗いほど自動で下げます。" },
+  { key: "contrast", label: "コントラスト", min: 70, max: 130, fallback: 100, help: "背景の明暗差に合わせて自動で決めます。" },
+  { key: "rim", label: "光と反対側の陰", min: 0, max: 100, fallback: 20, help: "光の左右差が強い背景ほど自動で濃くします。" },
+  { key: "floorLine", label: "床の線（上から %）", min: 30, max: 95, fallback: 62, help: "影の奥行きの基準です。接地点が床の線に近いほど影を潰します。" },
+];
+
+function LightMatchCard({
+  result,
+  value,
+  disabled,
+  onSave,
+}: {
+  result: StageLightMatchResult | null;
+  value?: ProductLightMatch;
+  disabled: boolean;
+  onSave: (next: ProductLightMatch) => void;
+}) {
+  const [pending, setPending] = useState<Partial<Record<LightMatchSliderKey, number>>>({});
+
+  const current: ProductLightMatch = value ?? { enabled: false };
+  const enabled = current.enabled === true;
+  const estimate = result?.estimate ?? null;
+  const applied = result?.applied ?? null;
+
+  const save = (patch: Partial<ProductLightMatch>) => {
+    onSave({ ...current, ...patch });
+  };
+
+  const sliderValue = (key: LightMatchSliderKey, fallback: number) =>
+    pending[key] ?? Math.round((current[key] ?? applied?.[key] ?? fallback / 100) * 100);
+
+  return (
+    <div className="mt-3 rounded-2xl border border-white/10 bg-black/15 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-white/85 font-bold" style={{ fontSize: 12 }}>
+          光と遠近の合わせ込み
+        </div>
+        <SmallBadge active={enabled} label={enabled ? "自動で合わせる" : "オフ"} />
+      </div>
+
+      <div className="mt-2 text-white/60" style={{ fontSize: 11, lineHeight: 1.6 }}>
+        {estimate
+          ? `背景の推定：光 ${LIGHT_DIRECTION_LABEL[estimate.light]} / 明るさ ${Math.round(
+              estimate.ambient
+            )} / 明暗差 ${Math.round(estimate.contrast)} / 床の線 上から${Math.round(estimate.floorLine * 100)}%`
+          : "まだ推定値がありません。一度「④合成」すると背景から推定します。"}
+      </div>
+
+      {applied && result?.enabled ? (
+        <div className="mt-1 text-white/50" style={{ fontSize: 11, lineHeight: 1.6 }}>
+          前回の合成：光 {LIGHT_DIRECTION_LABEL[applied.light]} / 露出 {applied.exposure.toFixed(2)} / コントラスト{" "}
+          {applied.contrast.toFixed(2)} / 陰 {applied.rim.toFixed(2)} / 影の奥行き {applied.perspective.toFixed(2)}
+          {result.overridden.includes("castLight") ? "（光の向きは投影影の設定）" : ""}
+          {result.overridden.length > 0 ? `（手動：${result.overridden.length}項目）` : ""}
+        </div>
+      ) : null}
+
+      {result?.warnings?.map((w) => (
+        <div key={w} className="mt-1 text-amber-200/80" style={{ fontSize: 11, lineHeight: 1.6 }}>
+          ・{w}
+        </div>
+      ))}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <Btn variant={enabled ? "primary" : "secondary"} disabled={disabled} onClick={() => save({ enabled: !enabled })}>
+          {enabled ? "オン" : "オフ"}
+        </Btn>
+        <Btn
+          variant="ghost"
+          disabled={disabled || !enabled}
+          onClick={() => {
+            setPending({});
+            onSave({ enabled: true });
+          }}
+        >
+          すべて自動に戻す
+        </Btn>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {([null, "left", "center", "right"] as const).map((light) => (
+          <Btn
+            key={light ?? "auto"}
+            variant={(current.light ?? null) === light ? "primary" : "secondary"}
+            disabled={disabled || !enabled}
+            onClick={() => save({ light })}
+          >
+            {light ? `光：${LIGHT_DIRECTION_LABEL[light]}` : "光：自動"}
+          </Btn>
+        ))}
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 gap-3">
+        {LIGHT_MATCH_SLIDERS.map((slider) => (
+          <div key={slider.key}>
+            <SliderRow
+              label={`${slider.label}${current[slider.key] == null ? "（自動）" : ""}`}
+              value={sliderValue(slider.key, slider.fallback)}
+              min={slider.min}
+              max={slider.max}
+              step={1}
+              disabled={disabled || !enabled}
+              help={slider.help}
+              onChange={(n) => setPending((prev) => ({ ...prev, [slider.key]: n }))}
+              onCommit={() => {
+                const n = pending[slider.key];
+                if (n === undefined) return;
+                setPending((prev) => ({ ...prev, [slider.key]: undefined }));
+                save({ [slider.key]: n / 100 });
+              }}
+            />
+            {current[slider.key] != null ? (
+              <button
+                type="button"
+                className="mt-1 text-white/55 underline"
+                style={{ fontSize: 11 }}
+                disabled={disabled || !enabled}
+                onClick={() => save({ [slider.key]: null })}
+              >
+                {slider.label}を自動に戻す
+              </button>
+            ) : null}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-2 text-white/45" style={{ fontSize: 11, lineHeight: 1.6 }}>
+        変更は次の「④合成」から反映されます。光が「自動」の時は、投影影で選んだ光の向き → 背景の推定の順で決めます。
+      </div>
+    </div>
+  );
+}
+
 function shortAssetName(name: string, fallback: string) {
   const raw = String(name || "").trim() || fallback;
   const withoutQuery = raw.split("?")[0] || raw;
@@ -1168,6 +1337,9 @@ export default function ProductPlacementEditor({
 
   busy = false,
   showMsg,
+
+  lightMatch,
+  onSaveLightMatch,
 }: Props) {
   void canUndo;
   void canRedo;
@@ -1633,6 +1805,7 @@ export default function ProductPlacementEditor({
 
     return {
       color: overlayTextColor,
+      fontFamily: textOverlay?.fontId ? brandFontCss(textOverlay.fontId) : undefined,
       fontWeight: 900,
       fontSize: `${sizeByContainerWidth}cqw`,
       lineHeight: overlayLineHeight,
@@ -1644,7 +1817,7 @@ export default function ProductPlacementEditor({
       marginLeft: `${overlayXPercent * 0.35}%`,
       maxWidth: `${Math.max(30, 100 - overlayXPercent * 0.35)}%`,
     };
-  }, [overlayTextColor, overlayFontSizePx, overlayLineHeight, overlayXPercent]);
+  }, [overlayTextColor, overlayFontSizePx, overlayLineHeight, overlayXPercent, textOverlay?.fontId]);
 
   const displayForegroundUrl = useMemo(() => {
     return String(foregroundImageUrl || baseImageUrl || "").trim();
@@ -2925,6 +3098,15 @@ export default function ProductPlacementEditor({
             />
           </div>
 
+          <LightMatchCard
+            result={serverPlacementMeta?.lightMatch ?? null}
+            value={lightMatch}
+            disabled={busy || !onSaveLightMatch}
+            onSave={(next) => {
+              void onSaveLightMatch?.(next);
+            }}
+          />
+
           <div
             className="mt-3 rounded-xl border border-white/10 bg-black/15 px-3 py-3 text-white/70"
             style={{ fontSize: 12, lineHeight: 1.7 }}
@@ -3,7 +3,13 @@
 
 import React, { useMemo, useState } from "react";
 import NonAiVideoActions from "@/components/video/NonAiVideoActions";
-import type { DraftDoc, ProductPhotoMode, UiVideoSize } from "@/lib/types/draft";
+import CaptionCuesEditor from "@/components/video/CaptionCuesEditor";
+import VideoAudioTrackCard from "@/components/video/VideoAudioTrackCard";
+import { getTimelineDuration, withProductVideoTimeline } from "@/lib/nonAiVideo/timeline";
+import ProductVideoTimelineCard from "./ProductVideoTimelineCard";
+import type { BrandKit, DraftDoc, ProductPhotoMode, UiVideoSize, VideoCaptionTrack } from "@/lib/types/draft";
+import { captionStyleFromBrandKit } from "@/lib/brand/brandKit";
+import { normalizeBrandId } from "@/lib/brand/brands";
 import { Btn, UI } from "../ui";
 
 type Props = {
@@ -110,6 +116,8 @@ type Props = {
   setSizeTemplateType: React.Dispatch<any>;
   onSaveCompositeTextImageFromCompositeSlot: () => Promise<void>;
   showMsg: (msg: string) => void;
+  /** 字幕の初期の見た目（書体・色・帯） */
+  brandKit?: BrandKit;
 };
 
 type ImageCandidate = {
@@ -391,6 +399,7 @@ export default function ProductVideoPanel({
   aiImageUrl,
   compositeTextImageUrl,
   showMsg,
+  brandKit,
   d,
   setD,
   uid,
@@ -411,8 +420,7 @@ export default function ProductVideoPanel({
 }: Props) {
   const [videoCompositeBusy, setVideoCompositeBusy] = useState(false);
 
-  const safeBrand: "vento" | "riva" =
-    String((d as any).brand ?? d.brandId ?? "vento").trim() === "riva" ? "riva" : "vento";
+  const safeBrand = normalizeBrandId((d as any).brand ?? d.brandId);
   const safeKeywordsText = String((d as any).keywordsText ?? d.keywords ?? "");
 
   const imageCandidates = useMemo(
@@ -438,6 +446,19 @@ export default function ProductVideoPanel({
   }, [backgroundCandidates, selectedVideoBackgroundUrl, d, templateBgUrl, bgImageUrl]);
   const sourceVideo = useMemo(() => pickSourceProductVideo(d), [d]);
   const canBurn = !!normalizeUrl(d.nonAiVideoUrl) && !busy;
+  // 代表動画がタイムラインで書き出した物なら、その長さで字幕を並べる
+  const timeline = d.productVideo?.timeline ?? null;
+  const captionVideoSeconds =
+    timeline?.renderedUrl && timeline.renderedUrl === normalizeUrl(d.nonAiVideoUrl)
+      ? getTimelineDuration(timeline)
+      : Number(d.videoSeconds ?? 5);
+
+  function setCaptions(captions: VideoCaptionTrack | null) {
+    setD((prev: DraftDoc) => ({
+      ...prev,
+      productVideo: { ...withProductVideoTimeline(prev.productVideo, prev.productVideo?.timeline ?? null), captions },
+    }));
+  }
   const selectedVideoImageUrls = normalizeSelectedUrls((d as any).nonAiVideoSourceImageUrls);
 
   async function saveSelectedImages(nextUrls: string[]) {
@@ -749,6 +770,7 @@ export default function ProductVideoPanel({
           seconds={(d.videoSeconds ?? 5) === 10 ? 10 : 5}
           quality={(d.videoQuality ?? "standard") === "high" ? "high" : "standard"}
           size={normalizeVideoSize(d.videoSize ?? "720x1280")}
+          audio={d.productVideo?.audio ?? null}
           onSave={async (url: string) => {
             await onSaveNonAiVideoToDraft({ url, preset: defaultPreset });
           }}
@@ -768,6 +790,51 @@ export default function ProductVideoPanel({
             } as any));
           }}
         />
+
+        <div className="mt-3">
+          <ProductVideoTimelineCard
+            d={d}
+            setD={setD}
+            draftId={draftId}
+            busy={busy || nonAiBusy || videoCompositeBusy}
+            imageCandidates={imageCandidates}
+            selectedImageUrls={selectedVideoImageUrls.length ? selectedVideoImageUrls : effectiveImage ? [effectiveImage] : []}
+            backgroundImageUrl={background.url || undefined}
+            size={normalizeVideoSize(d.videoSize ?? "720x1280")}
+            onSaveDraft={onSaveDraft}
+            onSaveVideo={onSaveNonAiVideoToDraft}
+            showMsg={showMsg}
+          />
+        </div>
+
+        <div className="mt-3">
+          <VideoAudioTrackCard
+            draftId={draftId}
+            brandId={safeBrand}
+            target="product"
+            videoUrl={normalizeUrl(d.nonAiVideoUrl)}
+            audio={d.productVideo?.audio ?? null}
+            busy={busy || nonAiBusy || videoCompositeBusy}
+            showMsg={showMsg}
+            onApplied={async ({ audio, videoUrl }) => {
+              const base = withProductVideoTimeline(d.productVideo, d.productVideo?.timeline ?? null);
+              const productVideo = {
+                ...base,
+                audio,
+                ...(videoUrl ? { url: videoUrl, urls: [videoUrl, ...base.urls.filter((x) => x !== videoUrl)].slice(0, 10) } : {}),
+              };
+              const patch: Partial<DraftDoc> = videoUrl
+                ? {
+                    productVideo,
+                    nonAiVideoUrl: videoUrl,
+                    nonAiVideoUrls: [videoUrl, ...(d.nonAiVideoUrls ?? []).filter((x) => x !== videoUrl)].slice(0, 10),
+                  }
+                : { productVideo };
+              setD((prev: DraftDoc) => ({ ...prev, ...patch }));
+              await onSaveDraft(patch);
+            }}
+          />
+        </div>
       </div>
 
       <div className="rounded-2xl border border-green-400/20 bg-black/20" style={{ padding: UI.cardPadding }}>
@@ -813,6 +880,23 @@ export default function ProductVideoPanel({
         <div className="mt-2 text-white/70" style={{ fontSize: 12, lineHeight: 1.6 }}>
           完成した広告動画に必要最小限の文字を焼き込みます。
         </div>
+        <div className="mt-3">
+          <CaptionCuesEditor
+            value={d.productVideo?.captions ?? null}
+            onChange={setCaptions}
+            videoSeconds={captionVideoSeconds}
+            ig3={d.ig3}
+            shortCopies={d.shortCopies}
+            disabled={busy}
+            defaultStyle={brandKit ? captionStyleFromBrandKit(brandKit) : undefined}
+            fileName={`product-video-${draftId ?? "draft"}`}
+            onSave={async (captions) => {
+              const productVideo = { ...withProductVideoTimeline(d.productVideo, timeline), captions };
+              setD((prev: DraftDoc) => ({ ...prev, productVideo }));
+              await onSaveDraft({ productVideo });
+            }}
+          />
+        </div>
         <div className="mt-3">
           <Btn variant="primary" disabled={!canBurn} onClick={onBurnVideo}>🔥 文字を焼き込む</Btn>
         </div>
@@ -0,0 +1,537 @@
+// /app/flow/drafts/new/components/ProductVideoTimelineCard.tsx
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { auth } from "@/firebase";
+import { generateTimelineVideoWebm } from "@/lib/nonAiVideo/generate";
+import {
+  TIMELINE_LIMITS,
+  TIMELINE_SEGMENT_BUTTONS,
+  TIMELINE_TRANSITIONS,
+  TIMELINE_VIDEO_TYPES,
+  buildDefaultTimeline,
+  buildTimelinePreset,
+  clampTransitionSeconds,
+  createTimelineSegment,
+  getSegmentButtonLabel,
+  getTimelineDuration,
+  normalizeProductVideoTimeline,
+  validateTimelineForRender,
+  withProductVideoTimeline,
+} from "@/lib/nonAiVideo/timeline";
+import type { DraftDoc, ProductVideoSegment, ProductVideoTimeline, UiVideoSize } from "@/lib/types/draft";
+import { UI, Btn, HelpText, RangeControl, SelectBtn } from "../ui";
+
+/**
+ * 商品動画タイムライン（複数区間をつないだ広告動画）
+ *
+ * ✅ この部品の責務
+ * - 区間（役割・画像・動き・長さ・切替・文字）を並べて編集する
+ * - 編集結果を DraftDoc.productVideo.timeline に保存する
+ * - ブラウザで WEBM にして /api/upload-video-webm → /api/finalize-nonai-mp4 で MP4 化し、代表動画にする
+ *
+ * ✅ 各区間の動きは単発の広告動画と同じ計算（lib/nonAiVideo/motion.ts）
+ */
+
+type ImageCandidate = {
+  label: string;
+  url: string;
+};
+
+type Props = {
+  d: DraftDoc;
+  setD: React.Dispatch<React.SetStateAction<DraftDoc>>;
+  draftId: string | null;
+  busy: boolean;
+  imageCandidates: ImageCandidate[];
+  selectedImageUrls: string[];
+  backgroundImageUrl?: string;
+  size: UiVideoSize;
+  onSaveDraft: (partial?: Partial<DraftDoc>) => Promise<string | null>;
+  onSaveVideo: (args: { url: string; preset: DraftDoc["nonAiVideoPreset"] }) => Promise<void>;
+  showMsg: (msg: string) => void;
+};
+
+function parseSize(size: string): { w: number; h: number } {
+  const m = String(size || "").match(/^(\d+)\s*x\s*(\d+)$/i);
+  return {
+    w: m ? Math.max(1, Number(m[1])) : 720,
+    h: m ? Math.max(1, Number(m[2])) : 1280,
+  };
+}
+
+/** 単発の動画と同じ保存先のレンダリング方式（Server は単発専用なので自動に寄せる） */
+function readFinalizeRenderMode() {
+  if (typeof window === "undefined") return "auto";
+  const v = String(window.localStorage.getItem("aoiFlowVideoRenderMode") || "auto").trim();
+  return v === "cloud" || v === "local" ? v : "auto";
+}
+
+export default function ProductVideoTimelineCard({
+  d,
+  setD,
+  draftId,
+  busy,
+  imageCandidates,
+  selectedImageUrls,
+  backgroundImageUrl,
+  size,
+  onSaveDraft,
+  onSaveVideo,
+  showMsg,
+}: Props) {
+  const savedTimeline = useMemo(
+    () => normalizeProductVideoTimeline(d.productVideo?.timeline),
+    [d.productVideo?.timeline]
+  );
+
+  const [timeline, setTimeline] = useState<ProductVideoTimeline | null>(savedTimeline);
+  const [dirty, setDirty] = useState(false);
+  const [openIndex, setOpenIndex] = useState(0);
+  const [addButtonId, setAddButtonId] = useState(TIMELINE_SEGMENT_BUTTONS[0]?.id ?? "");
+  const [running, setRunning] = useState<"" | "save" | "render">("");
+  const [progress, setProgress] = useState("");
+
+  // 下書きの読み込み・版の復元で保存値が変わった時だけ、未編集なら画面に反映する
+  useEffect(() => {
+    if (!dirty) setTimeline(savedTimeline);
+  }, [savedTimeline, dirty]);
+
+  const disabled = busy || running !== "";
+  const duration = getTimelineDuration(timeline);
+  const segments = timeline?.segments ?? [];
+
+  function update(next: ProductVideoTimeline | null) {
+    setTimeline(next ? normalizeProductVideoTimeline({ ...next, updatedAt: Date.now() }) : null);
+    setDirty(true);
+  }
+
+  function updateSegment(index: number, patch: Partial<ProductVideoSegment>) {
+    if (!timeline) return;
+    update({
+      ...timeline,
+      segments: timeline.segments.map((s, i) => (i === index ? { ...s, ...patch } : s)),
+    });
+  }
+
+  function moveSegment(index: number, delta: number) {
+    if (!timeline) return;
+    const to = index + delta;
+    if (to < 0 || to >= timeline.segments.length) return;
+    const next = [...timeline.segments];
+    [next[index], next[to]] = [next[to], next[index]];
+    update({ ...timeline, segments: next });
+    setOpenIndex(to);
+  }
+
+  function removeSegment(index: number) {
+    if (!timeline) return;
+    const next = timeline.segments.filter((_, i) => i !== index);
+    update(next.length ? { ...timeline, segments: next } : null);
+    setOpenIndex(Math.max(0, index - 1));
+  }
+
+  function addSegment() {
+    const imageUrl = selectedImageUrls[0] || imageCandidates[0]?.url || "";
+    const segment = createTimelineSegment(addButtonId, imageUrl);
+    const base = timeline ?? { segments: [] };
+
+    if (base.segments.length >= TIMELINE_LIMITS.maxSegments) {
+      showMsg(`区間は${TIMELINE_LIMITS.maxSegments}個までです`);
+      return;
+    }
+    if (duration + segment.seconds > TIMELINE_LIMITS.maxTotalSeconds) {
+      showMsg(`合計${TIMELINE_LIMITS.maxTotalSeconds}秒を超えるため追加できません`);
+      return;
+    }
+
+    update({ ...base, segments: [...base.segments, segment] });
+    setOpenIndex(base.segments.length);
+  }
+
+  function startTimeline() {
+    const urls = selectedImageUrls.length ? selectedImageUrls : imageCandidates.map((c) => c.url).slice(0, 3);
+    update(buildDefaultTimeline(urls, backgroundImageUrl));
+    setOpenIndex(0);
+  }
+
+  async function persist(next: ProductVideoTimeline | null) {
+    const productVideo = withProductVideoTimeline(d.productVideo, next);
+    setD((prev) => ({ ...prev, productVideo }));
+    await onSaveDraft({ productVideo });
+    setDirty(false);
+    return productVideo;
+  }
+
+  async function save() {
+    setRunning("save");
+    try {
+      await persist(timeline);
+      showMsg(timeline ? "タイムラインを保存しました" : "タイムラインを削除しました");
+    } catch (e) {
+      showMsg(e instanceof Error ? e.message : "タイムラインの保存に失敗しました");
+    } finally {
+      setRunning("");
+    }
+  }
+
+  async function render() {
+    const invalid = validateTimelineForRender(timeline);
+    if (invalid || !timeline) {
+      showMsg(invalid || "区間がありません");
+      return;
+    }
+    if (!draftId) {
+      showMsg("先に下書きを保存してください");
+      return;
+    }
+
+    setRunning("render");
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) throw new Error("ログインが必要です");
+
+      await persist(timeline);
+
+      setProgress(`🎬 ${timeline.segments.length}区間 / ${duration}秒 を生成中です`);
+      const blob = await generateTimelineVideoWebm({
+        timeline,
+        size: parseSize(size),
+        backgroundImageUrl: backgroundImageUrl || undefined,
+      });
+      if (!blob.size) throw new Error("WEBM生成に失敗しました（Blobが空です）");
+
+      const fd = new FormData();
+      fd.append("draftId", draftId);
+      fd.append("kind", "generated");
+      fd.append("seconds", String(Math.round(duration)));
+      fd.append("buttonId", "timeline");
+      fd.append("videoType", "timeline");
+      fd.append("engine", "non-ai");
+      fd.append("file", blob, `timeline_${Date.now()}_${Math.round(duration)}s.webm`);
+
+      setProgress("⬆️ 生成した動画を保存中です");
+      const up = await fetch("/api/upload-video-webm", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        body: fd,
+      });
+      const upj = await up.json().catch(() => ({}));
+      if (!up.ok) throw new Error(upj?.error || "upload-video-webm failed");
+
+      const webmUrl = String(upj?.url || upj?.videoUrl || "").trim();
+      const webmPath = String(upj?.path || "").trim();
+
+      setProgress("🎞 MP4へ変換中です");
+      const fin = await fetch("/api/finalize-nonai-mp4", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          draftId,
+          webmPath,
+          renderMode: readFinalizeRenderMode(),
+          videoType: "timeline",
+          audio: d.productVideo?.audio ?? null,
+        }),
+      });
+      const finj = await fin.json().catch(() => ({}));
+      const mp4Url = fin.ok ? String(finj?.mp4Url || finj?.url || finj?.videoUrl || "").trim() : "";
+
+      // MP4化できない環境でも、単発の動画と同じく WEBM を保存して使えるようにする
+      const url = mp4Url || webmUrl;
+      if (!url) throw new Error(String(finj?.error || "finalize-nonai-mp4 failed"));
+
+      await onSaveVideo({ url, preset: buildTimelinePreset(timeline) });
+
+      const rendered = { ...timeline, renderedUrl: url, renderedAt: Date.now() };
+      const productVideo = await persist(rendered);
+      setTimeline(productVideo.timeline ?? rendered);
+
+      showMsg(
+        mp4Url
+          ? `✅ タイムライン動画(mp4)が完成しました（${duration}秒）`
+          : `✅ タイムライン動画WEBMを保存しました（${duration}秒）。MP4変換は未実行です`
+      );
+    } catch (e) {
+      showMsg(e instanceof Error ? e.message : "タイムライン動画の生成に失敗しました");
+    } finally {
+      setRunning("");
+      setProgress("");
+    }
+  }
+
+  const candidateLabel = (url: string) => imageCandidates.find((c) => c.url === url)?.label ?? "選択画像";
+
+  return (
+    <div className="rounded-2xl border border-white/12 bg-black/25" style={{ padding: UI.cardPadding }}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-white/85 font-black" style={{ fontSize: 13 }}>
+          タイムライン（複数区間の広告動画）
+        </div>
+        <div className="rounded-full border border-white/15 bg-white/[0.06] px-3 py-1 text-[11px] font-black text-white/75">
+          {segments.length}区間 / 合計 {duration}秒（最大{TIMELINE_LIMITS.maxTotalSeconds}秒）
+        </div>
+      </div>
+
+      <div className="mt-2">
+        <HelpText>
+          冒頭の寄り → 質感 → 多視点 → まとめ のように、区間ごとに画像・動き・長さ・切替を決めて1本にします。
+        </HelpText>
+      </div>
+
+      {!timeline ? (
+        <div className="mt-3">
+          <Btn variant="secondary" disabled={disabled || !imageCandidates.length} onClick={startTimeline}>
+            選択中の画像からタイムラインを作る
+          </Btn>
+        </div>
+      ) : (
+        <>
+          {/* 全体の並び（長さに比例した帯） */}
+          <div className="mt-3 flex h-8 w-full overflow-hidden rounded-lg border border-white/12">
+            {segments.map((segment, index) => (
+              <button
+                key={segment.id}
+                type="button"
+                onClick={() => setOpenIndex(index)}
+                className={[
+                  "min-w-0 truncate border-r border-white/10 px-1 text-[10px] font-black last:border-r-0",
+                  openIndex === index ? "bg-cyan-300/25 text-white" : "bg-white/[0.06] text-white/65 hover:bg-white/[0.1]",
+                ].join(" ")}
+                style={{ flex: `${segment.seconds} 0 0` }}
+                title={getSegmentButtonLabel(segment.buttonId)}
+              >
+                {index + 1}. {segment.seconds}s
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-3 flex flex-col gap-2">
+            {segments.map((segment, index) => {
+              const open = openIndex === index;
+              return (
+                <div key={segment.id} className="rounded-xl border border-white/12 bg-black/20 p-2">
+                  <div className="flex items-center gap-2">
+                    <button type="button" onClick={() => setOpenIndex(index)} className="flex min-w-0 flex-1 items-center gap-2 text-left">
+                      {segment.imageUrl ? (
+                        <img
+                          src={segment.imageUrl}
+                          alt={candidateLabel(segment.imageUrl)}
+                          className="shrink-0 rounded-md border border-white/15 object-cover"
+                          style={{ width: 40, height: 40 }}
+                        />
+                      ) : (
+                        <div className="flex shrink-0 items-center justify-center rounded-md border border-white/15 text-[9px] text-white/45" style={{ width: 40, height: 40 }}>
+                          未選択
+                        </div>
+                      )}
+                      <div className="min-w-0">
+                        <div className="truncate text-[12px] font-black text-white/90">
+                          {index + 1}. {getSegmentButtonLabel(segment.buttonId)}
+                        </div>
+                        <div className="truncate text-[10px] text-white/50">
+                          {segment.seconds}秒
+                          {index > 0
+                            ? ` / ${TIMELINE_TRANSITIONS.find((t) => t.value === segment.transition)?.label ?? ""}`
+                            : ""}
+                          {segment.textLines?.length ? ` / 文字 ${segment.textLines.length}行` : ""}
+                        </div>
+                      </div>
+                    </button>
+                    <div className="flex shrink-0 gap-1">
+                      <button type="button" disabled={disabled || index === 0} onClick={() => moveSegment(index, -1)} className="rounded-full border border-white/20 px-2 py-1 text-[11px] text-white/75 disabled:opacity-30">↑</button>
+                      <button type="button" disabled={disabled || index === segments.length - 1} onClick={() => moveSegment(index, 1)} className="rounded-full border border-white/20 px-2 py-1 text-[11px] text-white/75 disabled:opacity-30">↓</button>
+                      <button type="button" disabled={disabled} onClick={() => removeSegment(index)} className="rounded-full border border-red-300/30 px-2 py-1 text-[11px] text-red-100/80 disabled:opacity-30">削除</button>
+                    </div>
+                  </div>
+
+                  {open ? (
+                    <div className="mt-3 flex flex-col gap-3">
+                      <div>
+                        <div className="mb-1 text-[11px] font-black text-white/70">役割</div>
+                        <select
+                          value={segment.buttonId}
+                          disabled={disabled}
+                          onChange={(e) => {
+                            const base = createTimelineSegment(e.target.value, segment.imageUrl, segment.materialUrls);
+                            updateSegment(index, { buttonId: base.buttonId, motion: base.motion, videoType: base.videoType });
+                          }}
+                          className="w-full rounded-lg border border-white/15 bg-black/40 px-2 py-1.5 text-[12px] text-white/85"
+                        >
+                          {TIMELINE_SEGMENT_BUTTONS.map((b) => (
+                            <option key={b.id} value={b.id}>
+                              {b.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div>
+                        <div className="mb-1 text-[11px] font-black text-white/70">画像</div>
+                        <div className="flex gap-2 overflow-x-auto pb-1">
+                          {imageCandidates.map((c) => {
+                            const isMain = segment.imageUrl === c.url;
+                            const isMaterial = (segment.materialUrls ?? []).includes(c.url);
+                            return (
+                              <button
+                                key={c.url}
+                                type="button"
+                                disabled={disabled}
+                                title={c.label}
+                                onClick={() => {
+                                  // 1回目：この区間の画像 / 視点切替では 2回目以降の画像を追加・解除
+                                  if (segment.videoType === "turntable" && segment.imageUrl && !isMain) {
+                                    const materials = segment.materialUrls ?? [];
+                                    updateSegment(index, {
+                                      materialUrls: isMaterial ? materials.filter((u) => u !== c.url) : [...materials, c.url],
+                                    });
+                                    return;
+                                  }
+                                  updateSegment(index, { imageUrl: c.url });
+                                }}
+                                className={[
+                                  "shrink-0 rounded-lg border p-0.5",
+                                  isMain
+                                    ? "border-cyan-200 shadow-[0_0_10px_rgba(34,211,238,0.6)]"
+                                    : isMaterial
+                                      ? "border-emerald-200/80"
+                                      : "border-white/12",
+                                ].join(" ")}
+                              >
+                                <img src={c.url} alt={c.label} className="rounded-md object-cover" style={{ width: 48, height: 48 }} loading="lazy" />
+                              </button>
+                            );
+                          })}
+                        </div>
+                        {segment.videoType === "turntable" ? (
+                          <HelpText className="mt-1">
+                            視点切替：水色の画像から始め、緑の画像を順番に切り替えます（{(segment.materialUrls ?? []).length}枚追加）。
+                          </HelpText>
+                        ) : null}
+                      </div>
+
+                      <div>
+                        <div className="mb-1 text-[11px] font-black text-white/70">動き</div>
+                        <div className="flex flex-wrap gap-2">
+                          {TIMELINE_VIDEO_TYPES.map((t) => (
+                            <SelectBtn
+                              key={t.value}
+                              selected={segment.videoType === t.value}
+                              label={t.label}
+                              disabled={disabled}
+                              onClick={() => updateSegment(index, { videoType: t.value })}
+                            />
+                          ))}
+                        </div>
+                      </div>
+
+                      <RangeControl
+                        label="長さ"
+                        value={segment.seconds}
+                        min={TIMELINE_LIMITS.minSegmentSeconds}
+                        max={TIMELINE_LIMITS.maxSegmentSeconds}
+                        step={0.5}
+                        format={(v) => `${v}秒`}
+                        onChange={(v) => updateSegment(index, { seconds: v })}
+                      />
+
+                      {index > 0 ? (
+                        <div>
+                          <div className="mb-1 text-[11px] font-black text-white/70">前の区間からの切替</div>
+                          <div className="flex flex-wrap gap-2">
+                            {TIMELINE_TRANSITIONS.map((t) => (
+                              <SelectBtn
+                                key={t.value}
+                                selected={segment.transition === t.value}
+                                label={t.label}
+                                disabled={disabled}
+                                onClick={() => updateSegment(index, { transition: t.value })}
+                              />
+                            ))}
+                          </div>
+                          {segment.transition !== "cut" ? (
+                            <div className="mt-2">
+                              <RangeControl
+                                label="切替の長さ"
+                                value={segment.transitionSeconds}
+                                min={TIMELINE_LIMITS.minTransitionSeconds}
+                                max={clampTransitionSeconds(
+                                  TIMELINE_LIMITS.maxTransitionSeconds,
+                                  segments[index - 1].seconds,
+                                  segment.seconds
+                                )}
+                                step={0.1}
+                                format={(v) => `${v.toFixed(1)}秒`}
+                                onChange={(v) => updateSegment(index, { transitionSeconds: v })}
+                              />
+                            </div>
+                          ) : null}
+                        </div>
+                      ) : null}
+
+                      <div>
+                        <div className="mb-1 text-[11px] font-black text-white/70">
+                          文字（最大{TIMELINE_LIMITS.maxTextLines}行 / 区間の最初の画像の間だけ表示）
+                        </div>
+                        <textarea
+                          value={(segment.textLines ?? []).join("\n")}
+                          disabled={disabled}
+                          onChange={(e) =>
+                            updateSegment(index, {
+                              textLines: e.target.value.split("\n").slice(0, TIMELINE_LIMITS.maxTextLines),
+                            })
+                          }
+                          rows={2}
+                          className="w-full rounded-lg border border-white/15 bg-black/40 px-2 py-1.5 text-[12px] text-white/90"
+                          placeholder="例：今だけ送料無料"
+                        />
+                      </div>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <select
+              value={addButtonId}
+              disabled={disabled}
+              onChange={(e) => setAddButtonId(e.target.value)}
+              className="rounded-full border border-white/15 bg-black/40 px-3 py-1.5 text-[12px] text-white/85"
+            >
+              {TIMELINE_SEGMENT_BUTTONS.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.label}
+                </option>
+              ))}
+            </select>
+            <Btn variant="ghost" disabled={disabled || segments.length >= TIMELINE_LIMITS.maxSegments} onClick={addSegment}>
+              ＋ 区間を追加
+            </Btn>
+          </div>
+
+          {timeline.renderedUrl ? (
+            <video
+              src={timeline.renderedUrl}
+              controls
+              className="mt-3 w-full rounded-xl border border-white/10 bg-black"
+              style={{ maxHeight: 220 }}
+            />
+          ) : null}
+
+          {progress ? <div className="mt-2 text-[12px] text-cyan-100/80">{progress}</div> : null}
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            <Btn variant="primary" disabled={disabled || !draftId} onClick={render}>
+              {running === "render" ? "生成中..." : "🎬 タイムラインで動画を生成"}
+            </Btn>
+            <Btn variant="ghost" disabled={disabled || !dirty} onClick={save}>
+              {running === "save" ? "保存中..." : "タイムラインを保存"}
+            </Btn>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
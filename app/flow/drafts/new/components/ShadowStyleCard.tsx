@@ -0,0 +1,222 @@
+// /app/flow/drafts/new/components/ShadowStyleCard.tsx
+"use client";
+
+import React from "react";
+import type {
+  DraftDoc,
+  ProductLightDirection,
+  ProductShadowStyle,
+  ProductShadowType,
+} from "@/lib/types/draft";
+import { Btn, HelpText, RangeControl, SelectBtn } from "../ui";
+
+/**
+ * 影の種類（映り込み / 接地影 / 投影影）
+ *
+ * ✅ この部品の責務
+ * - d.placement.shadowStyle の種類とパラメータを選ぶ
+ * - 保存すると次の再合成から /api/compose-product-stage に反映される
+ *
+ * ✅ 「従来の影」を選んだ時は、これまでの影（濃さ / ぼかし / ずれ）のまま
+ * ✅ 編集プレビューは従来の影で表示される（仕上がりは再合成で確認）
+ */
+
+type Props = {
+  d: DraftDoc;
+  setD: React.Dispatch<React.SetStateAction<DraftDoc>>;
+  saveDraft: (partial?: Partial<DraftDoc>) => Promise<string | null>;
+  busy: boolean;
+  showMsg: (msg: string) => void;
+};
+
+const SHADOW_TYPE_OPTIONS: Array<{ value: ProductShadowType; label: string; title: string }> = [
+  { value: "drop", label: "従来の影", title: "ぼかした楕円の影（これまでどおり）" },
+  { value: "reflection", label: "映り込み", title: "光沢のある床に商品が映り込む" },
+  { value: "contact", label: "接地影", title: "接地面だけに細く濃い影を落とす" },
+  { value: "cast", label: "投影影", title: "光の向きと反対側に影が伸びる" },
+];
+
+const LIGHT_OPTIONS: Array<{ value: ProductLightDirection; label: string }> = [
+  { value: "left", label: "光：左" },
+  { value: "center", label: "光：正面" },
+  { value: "right", label: "光：右" },
+];
+
+const DEFAULT_SHADOW_STYLE: Required<ProductShadowStyle> = {
+  type: "drop",
+  reflection: { opacity: 0.28, height: 0.45, gap: 0 },
+  contact: { opacity: 0.45, spread: 10, blur: 4 },
+  cast: { opacity: 0.3, length: 0.6, blur: 6, light: "left" },
+};
+
+function withDefaults(style: ProductShadowStyle | undefined): Required<ProductShadowStyle> {
+  return {
+    type: style?.type ?? DEFAULT_SHADOW_STYLE.type,
+    reflection: { ...DEFAULT_SHADOW_STYLE.reflection, ...(style?.reflection ?? {}) },
+    contact: { ...DEFAULT_SHADOW_STYLE.contact, ...(style?.contact ?? {}) },
+    cast: { ...DEFAULT_SHADOW_STYLE.cast, ...(style?.cast ?? {}) },
+  };
+}
+
+export default function ShadowStyleCard({ d, setD, saveDraft, busy, showMsg }: Props) {
+  const style = withDefaults(d.placement?.shadowStyle);
+
+  const update = (next: Required<ProductShadowStyle>) => {
+    setD((prev) => ({
+      ...prev,
+      placement: {
+        scale: prev.placement?.scale ?? 1,
+        x: prev.placement?.x ?? 0.5,
+        y: prev.placement?.y ?? 0.5,
+        ...(prev.placement ?? {}),
+        shadowStyle: next,
+      },
+    }));
+  };
+
+  const save = async () => {
+    if (!d.placement) {
+      showMsg("先に商品の配置を保存してください");
+      return;
+    }
+    const id = await saveDraft({ placement: { ...d.placement, shadowStyle: style } });
+    showMsg(id ? "影の種類を保存しました（再合成で反映）" : "影の種類の保存に失敗しました");
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/20 p-3">
+      <div className="text-white/85 font-bold mb-1" style={{ fontSize: 13 }}>
+        影の種類
+      </div>
+      <HelpText>
+        光沢のある商品は「映り込み」、白背景の物撮りは「接地影」がおすすめです。保存後に「再合成」すると反映されます。
+      </HelpText>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {SHADOW_TYPE_OPTIONS.map((option) => (
+          <SelectBtn
+            key={option.value}
+            selected={style.type === option.value}
+            label={option.label}
+            title={option.title}
+            disabled={busy}
+            onClick={() => update({ ...style, type: option.value })}
+          />
+        ))}
+      </div>
+
+      {style.type === "reflection" ? (
+        <div className="mt-3 grid gap-2">
+          <RangeControl
+            label="映り込みの濃さ"
+            value={style.reflection.opacity}
+            min={0}
+            max={1}
+            step={0.01}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => update({ ...style, reflection: { ...style.reflection, opacity: v } })}
+          />
+          <RangeControl
+            label="映り込みの長さ"
+            value={style.reflection.height}
+            min={0.1}
+            max={1}
+            step={0.05}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => update({ ...style, reflection: { ...style.reflection, height: v } })}
+          />
+          <RangeControl
+            label="すき間"
+            value={style.reflection.gap}
+            min={0}
+            max={40}
+            step={1}
+            format={(v) => `${Math.round(v)}px`}
+            onChange={(v) => update({ ...style, reflection: { ...style.reflection, gap: v } })}
+          />
+        </div>
+      ) : null}
+
+      {style.type === "contact" ? (
+        <div className="mt-3 grid gap-2">
+          <RangeControl
+            label="接地影の濃さ"
+            value={style.contact.opacity}
+            min={0}
+            max={1}
+            step={0.01}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => update({ ...style, contact: { ...style.contact, opacity: v } })}
+          />
+          <RangeControl
+            label="厚み"
+            value={style.contact.spread}
+            min={2}
+            max={60}
+            step={1}
+            format={(v) => `${Math.round(v)}px`}
+            onChange={(v) => update({ ...style, contact: { ...style.contact, spread: v } })}
+          />
+          <RangeControl
+            label="ぼかし"
+            value={style.contact.blur}
+            min={0}
+            max={40}
+            step={1}
+            format={(v) => `${Math.round(v)}`}
+            onChange={(v) => update({ ...style, contact: { ...style.contact, blur: v } })}
+          />
+        </div>
+      ) : null}
+
+      {style.type === "cast" ? (
+        <div className="mt-3 grid gap-2">
+          <div className="flex flex-wrap gap-2">
+            {LIGHT_OPTIONS.map((option) => (
+              <SelectBtn
+                key={option.value}
+                selected={style.cast.light === option.value}
+                label={option.label}
+                disabled={busy}
+                onClick={() => update({ ...style, cast: { ...style.cast, light: option.value } })}
+              />
+            ))}
+          </div>
+          <RangeControl
+            label="影の濃さ"
+            value={style.cast.opacity}
+            min={0}
+            max={1}
+            step={0.01}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => update({ ...style, cast: { ...style.cast, opacity: v } })}
+          />
+          <RangeControl
+            label="影の長さ"
+            value={style.cast.length}
+            min={0.1}
+            max={1.5}
+            step={0.05}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => update({ ...style, cast: { ...style.cast, length: v } })}
+          />
+          <RangeControl
+            label="ぼかし"
+            value={style.cast.blur}
+            min={0}
+            max={60}
+            step={1}
+            format={(v) => `${Math.round(v)}`}
+            onChange={(v) => update({ ...style, cast: { ...style.cast, blur: v } })}
+          />
+        </div>
+      ) : null}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <Btn variant="secondary" disabled={busy} onClick={save}>
+          影の種類を保存
+        </Btn>
+      </div>
+    </div>
+  );
+}
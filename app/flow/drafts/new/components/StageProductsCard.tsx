@@ -0,0 +1,225 @@
+// /app/flow/drafts/new/components/StageProductsCard.tsx
+"use client";
+
+import React, { useMemo } from "react";
+import type { DraftDoc, StageProduct } from "@/lib/types/draft";
+import { Btn, HelpText, RangeControl } from "../ui";
+
+/**
+ * セット商品（複数商品の合成）
+ *
+ * ✅ この部品の責務
+ * - 透過済みの素材画像を「追加商品」として合成に並べる
+ * - 追加商品ごとの大きさ / 位置 / 影の濃さ / 重ね順を調整する
+ * - d.stageProducts に保存する（再合成時に /api/compose-product-stage へ渡る）
+ *
+ * ✅ メイン商品は従来どおり ProductPlacementEditor で調整する（重ね順 0）
+ * ✅ 追加商品が無ければ従来の単品合成のまま
+ */
+
+type Props = {
+  d: DraftDoc;
+  setD: React.Dispatch<React.SetStateAction<DraftDoc>>;
+  saveDraft: (partial?: Partial<DraftDoc>) => Promise<string | null>;
+  busy: boolean;
+  showMsg: (msg: string) => void;
+};
+
+const MAX_STAGE_PRODUCTS = 8;
+
+const DEFAULT_SHADOW = {
+  opacity: 0.12,
+  blur: 12,
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+function makeStageProductId() {
+  return `stage_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export default function StageProductsCard({ d, setD, saveDraft, busy, showMsg }: Props) {
+  const stageProducts = useMemo(
+    () => (Array.isArray(d.stageProducts) ? d.stageProducts : []),
+    [d.stageProducts]
+  );
+
+  /**
+   * 追加できる素材
+   * - 一括切り抜き済み（cutout.url あり）の素材だけ
+   */
+  const materials = d.images?.materials;
+  const candidates = useMemo(
+    () =>
+      (Array.isArray(materials) ? materials : []).filter(
+        (item) => !!String(item?.cutout?.url || "").trim()
+      ),
+    [materials]
+  );
+
+  const updateProducts = (next: StageProduct[]) => {
+    setD((prev) => ({ ...prev, stageProducts: next }));
+  };
+
+  const updateProduct = (id: string, patch: Partial<StageProduct>) => {
+    updateProducts(stageProducts.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const addProduct = (imageUrl: string, sourceImageId?: string) => {
+    if (stageProducts.length >= MAX_STAGE_PRODUCTS) {
+      showMsg(`追加商品は ${MAX_STAGE_PRODUCTS} 個までです`);
+      return;
+    }
+
+    const maxZ = stageProducts.reduce((max, item) => Math.max(max, item.zIndex), 0);
+    const side = stageProducts.length % 2 === 0 ? 0.25 : 0.75;
+
+    updateProducts([
+      ...stageProducts,
+      {
+        id: makeStageProductId(),
+        imageUrl,
+        scale: 0.6,
+        x: side,
+        y: 0.55,
+        zIndex: maxZ + 1,
+        shadow: { ...DEFAULT_SHADOW },
+        sourceImageId,
+      },
+    ]);
+  };
+
+  const removeProduct = (id: string) => {
+    updateProducts(stageProducts.filter((item) => item.id !== id));
+  };
+
+  const save = async () => {
+    const id = await saveDraft({ stageProducts });
+    showMsg(id ? "セット商品の配置を保存しました（再合成で反映）" : "セット商品の保存に失敗しました");
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/20 p-3">
+      <div className="text-white/85 font-bold mb-1" style={{ fontSize: 13 }}>
+        セット商品（複数商品を並べる）
+      </div>
+      <HelpText>
+        メイン商品の重ね順は 0 です。マイナスはメイン商品の奥、プラスは手前に重なります。
+        保存後に「再合成」すると反映されます。
+      </HelpText>
+
+      {candidates.length > 0 ? (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {candidates.map((item) => {
+            const url = String(item.cutout?.url || "").trim();
+            return (
+              <button
+                key={item.id || url}
+                type="button"
+                disabled={busy}
+                onClick={() => addProduct(url, item.id)}
+                className="rounded-xl border border-white/15 bg-white/90 p-1 hover:border-white/40 transition"
+                title="この素材を追加商品として並べる"
+              >
+                <img src={url} alt="" style={{ width: 56, height: 56, objectFit: "contain" }} />
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="mt-3">
+          <HelpText>透過済みの素材がありません。先に「素材をまとめて透過」を実行してください。</HelpText>
+        </div>
+      )}
+
+      {stageProducts.length > 0 ? (
+        <div className="mt-3 flex flex-col gap-3">
+          {stageProducts.map((item, index) => (
+            <div key={item.id} className="rounded-xl border border-white/10 bg-black/25 p-2">
+              <div className="flex items-center gap-2 mb-2">
+                <img
+                  src={item.imageUrl}
+                  alt=""
+                  className="rounded-lg bg-white/90"
+                  style={{ width: 40, height: 40, objectFit: "contain" }}
+                />
+                <div className="text-white/80 font-bold" style={{ fontSize: 12 }}>
+                  追加商品 {index + 1}（重ね順 {item.zIndex}）
+                </div>
+                <div className="ml-auto flex gap-1.5">
+                  <Btn
+                    variant="ghost"
+                    disabled={busy}
+                    onClick={() => updateProduct(item.id, { zIndex: item.zIndex - 1 })}
+                  >
+                    奥へ
+                  </Btn>
+                  <Btn
+                    variant="ghost"
+                    disabled={busy}
+                    onClick={() => updateProduct(item.id, { zIndex: item.zIndex + 1 })}
+                  >
+                    手前へ
+                  </Btn>
+                  <Btn variant="danger" disabled={busy} onClick={() => removeProduct(item.id)}>
+                    外す
+                  </Btn>
+                </div>
+              </div>
+
+              <div className="grid gap-2">
+                <RangeControl
+                  label="大きさ"
+                  value={item.scale}
+                  min={0.2}
+                  max={4.4}
+                  step={0.05}
+                  format={(v) => `${Math.round(v * 100)}%`}
+                  onChange={(v) => updateProduct(item.id, { scale: v })}
+                />
+                <RangeControl
+                  label="左右"
+                  value={item.x}
+                  min={-0.75}
+                  max={1.75}
+                  step={0.01}
+                  format={(v) => v.toFixed(2)}
+                  onChange={(v) => updateProduct(item.id, { x: v })}
+                />
+                <RangeControl
+                  label="上下"
+                  value={item.y}
+                  min={-0.75}
+                  max={1.75}
+                  step={0.01}
+                  format={(v) => v.toFixed(2)}
+                  onChange={(v) => updateProduct(item.id, { y: v })}
+                />
+                <RangeControl
+                  label="影の濃さ"
+                  value={item.shadow?.opacity ?? DEFAULT_SHADOW.opacity}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  format={(v) => `${Math.round(v * 100)}%`}
+                  onChange={(v) =>
+                    updateProduct(item.id, {
+                      shadow: { ...DEFAULT_SHADOW, ...(item.shadow ?? {}), opacity: v },
+                    })
+                  }
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <Btn variant="secondary" disabled={busy} onClick={save}>
+          セット配置を保存
+        </Btn>
+      </div>
+    </div>
+  );
+}
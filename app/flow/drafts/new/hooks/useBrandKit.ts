@@ -0,0 +1,41 @@
+//app/flow/drafts/new/hooks/useBrandKit.ts
+"use client";
+
+import { useEffect, useState } from "react";
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "@/firebase";
+import { normalizeBrandKit } from "@/lib/brand/brandKit";
+import type { BrandKit } from "@/lib/types/draft";
+
+/**
+ * ブランドキット取得専用hook
+ *
+ * - users/{uid}/brands/{brandId}.brandKit を読む（設定ページで保存した値）
+ * - 未設定 / 読めない時は既定値（VENTO / RIVA は雛形）を返す
+ * - ブランドを切り替えたら読み直す
+ */
+export default function useBrandKit(uid: string | null, brandId: string): BrandKit {
+  const [kit, setKit] = useState<BrandKit>(() => normalizeBrandKit(null, brandId));
+
+  useEffect(() => {
+    let alive = true;
+    setKit(normalizeBrandKit(null, brandId));
+
+    if (!uid || !brandId) return;
+
+    getDoc(doc(db, `users/${uid}/brands/${brandId}`))
+      .then((snap) => {
+        if (!alive) return;
+        setKit(normalizeBrandKit(snap.exists() ? snap.data()?.brandKit : null, brandId));
+      })
+      .catch((e) => {
+        console.warn("[useBrandKit] load failed:", e);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [uid, brandId]);
+
+  return kit;
+}
@@ -2,7 +2,34 @@
 "use client";
 
 import { auth } from "@/firebase";
-import type { DraftDoc, TextOverlay } from "@/lib/types/draft";
+import type {
+  BrandKit,
+  CaptionComplianceReport,
+  CaptionLanguage,
+  DraftDoc,
+  TextOverlay,
+} from "@/lib/types/draft";
+import { textOverlayFromBrandKit } from "@/lib/brand/brandKit";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import {
+  captionLanguageOption,
+  isOverseasCaptionLanguage,
+  normalizeCaptionLanguage,
+} from "@/lib/drafts/captionLanguages";
+import {
+  captionViolationKey,
+  checkCaptionCompliance,
+  DEFAULT_CAPTION_RULE_TARGETS,
+  isCaptionRuleTarget,
+  normalizeCaptionComplianceReport,
+  type CaptionRuleTarget,
+} from "@/lib/drafts/captionCompliance";
+import { extractHashtags, normalizeHashtagSuggestions } from "@/lib/hashtags/scoring";
+import {
+  classifyCaptionStyle,
+  markPostedCaptionVariant,
+  normalizeCaptionStyle,
+} from "@/lib/drafts/captionExperiments";
 import { splitKeywords } from "./useDraftEditorState";
 
 /**
@@ -11,6 +38,10 @@ import { splitKeywords } from "./useDraftEditorState";
  * 役割
  * - IG / X / IG3 の生成
  * - 追加した販売用文章の生成・保存
+ * - 海外向けEC出品文（英語 / 繁体字中国語 / 韓国語）の生成・保存
+ * - 生成後の文章チェック（ブランドの禁止語・必須語 / 出品先ルール）と修正案の反映
+ * - ハッシュタグ候補（点数順）の保存と Instagram 本文への追加
+ * - 投稿した文章（A/B の投稿版）の記録
  * - オーバーレイ文字への反映
  * - 下書き保存
  *
@@ -29,6 +60,8 @@ type Params = {
   dRef: React.MutableRefObject<DraftDoc>;
   currentSlot: "base" | "mood" | "composite";
   inFlightRef: React.MutableRefObject<Record<string, boolean>>;
+  /** 文字表示の初期の見た目（書体・色・帯） */
+  brandKit: BrandKit;
 
   setBusy: React.Dispatch<React.SetStateAction<boolean>>;
   setD: React.Dispatch<React.SetStateAction<DraftDoc>>;
@@ -61,6 +94,7 @@ function cloneOverlay(src?: TextOverlay | null): TextOverlay {
     y: typeof src?.y === "number" ? src.y : 80,
     color: typeof src?.color === "string" ? src.color : "#FFFFFF",
     bandOpacity: typeof src?.bandOpacity === "number" ? src.bandOpacity : 0.45,
+    ...(src?.fontId ? { fontId: src.fontId } : {}),
     background: src?.background
       ? {
           enabled: !!src.background.enabled,
@@ -127,6 +161,8 @@ function normalizeSavedCaptionSets(value: unknown): NonNullable<DraftDoc["savedC
       id: String(item?.id || "").trim(),
       label: String(item?.label || "").trim(),
       createdAt: typeof item?.createdAt === "number" ? item.createdAt : Date.now(),
+      language: normalizeCaptionLanguage(item?.language),
+      ...(normalizeCaptionStyle(item?.style) ? { style: normalizeCaptionStyle(item?.style) } : {}),
       ig: typeof item?.ig === "string" ? item.ig : "",
       x: typeof item?.x === "string" ? item.x : "",
       ig3: Array.isArray(item?.ig3) ? item.ig3.map(String).slice(0, 3) : [],
@@ -135,22 +171,30 @@ function normalizeSavedCaptionSets(value: unknown): NonNullable<DraftDoc["savedC
       ecTitle: typeof item?.ecTitle === "string" ? item.ecTitle : "",
       ecDescription: typeof item?.ecDescription === "string" ? item.ecDescription : "",
       ecBullets: toSafeStringArray(item?.ecBullets, 5),
+      ...(normalizeCaptionComplianceReport(item?.compliance)
+        ? { compliance: normalizeCaptionComplianceReport(item?.compliance) }
+        : {}),
     }))
     .filter((item) => item.id)
     .slice(0, 20);
 }
 
-function buildCaptionSnapshot(base: DraftDoc, labelPrefix = "文章案") {
+function buildCaptionSnapshot(
+  base: DraftDoc,
+  labelPrefix = "文章案",
+  language: CaptionLanguage = "ja"
+) {
   const now = Date.now();
   const ig = String((base as any).ig ?? base.igCaption ?? "").trim();
   const x = String((base as any).x ?? base.xCaption ?? "").trim();
   const ecTitle = String((base as any).ecTitle ?? "").trim();
   const labelSource = ecTitle || ig || x || "生成文章";
 
-  return {
+  const snapshot = {
     id: `caption_${now}_${Math.random().toString(16).slice(2)}`,
     label: `${labelPrefix} ${new Date(now).toLocaleString("ja-JP")}｜${labelSource.slice(0, 24)}`,
     createdAt: now,
+    language,
     ig,
     x,
     ig3: Array.isArray((base as any).ig3) ? (base as any).ig3.map(String).slice(0, 3) : [],
@@ -160,6 +204,9 @@ function buildCaptionSnapshot(base: DraftDoc, labelPrefix = "文章案") {
     ecDescription: String((base as any).ecDescription ?? ""),
     ecBullets: toSafeStringArray((base as any).ecBullets, 5),
   };
+
+  // 海外向けは A/B の比較に使わないので型を付けない
+  return language === "ja" ? { ...snapshot, style: classifyCaptionStyle(snapshot) } : snapshot;
 }
 
 function hasAnyCaptionText(base: DraftDoc): boolean {
@@ -175,6 +222,48 @@ function hasAnyCaptionText(base: DraftDoc): boolean {
   );
 }
 
+/**
+ * チェックする出品先
+ * - Instagram / X は常に
+ * - EC は成果記録の出品先（無ければメルカリ）
+ */
+function complianceTargetsFor(base: DraftDoc): CaptionRuleTarget[] {
+  const platform = String(base.outcome?.platform ?? "").trim();
+  if (isCaptionRuleTarget(platform) && platform !== "instagram" && platform !== "x") {
+    return ["instagram", "x", platform];
+  }
+  return DEFAULT_CAPTION_RULE_TARGETS;
+}
+
+function runCaptionCompliance(
+  base: DraftDoc,
+  rules: { must?: unknown; ban?: unknown },
+  language: CaptionLanguage = "ja"
+): CaptionComplianceReport {
+  return checkCaptionCompliance(
+    {
+      language,
+      ig: String((base as any).ig ?? base.igCaption ?? ""),
+      x: String((base as any).x ?? base.xCaption ?? ""),
+      instagramSales: base.instagramSales,
+      xSales: base.xSales,
+      ecTitle: base.ecTitle,
+      ecDescription: base.ecDescription,
+      ecBullets: base.ecBullets,
+    },
+    {
+      must: Array.isArray(rules.must) ? rules.must.map(String) : [],
+      ban: Array.isArray(rules.ban) ? rules.ban.map(String) : [],
+      targets: complianceTargetsFor(base),
+    }
+  );
+}
+
+function complianceMessage(report: CaptionComplianceReport) {
+  if (report.violations.length === 0) return "文章チェック：問題なし";
+  return `文章チェック：要修正 ${report.errorCount}件 / 要確認 ${report.warningCount}件`;
+}
+
 export default function useDraftCaptionActions(params: Params) {
   const {
     uid,
@@ -182,6 +271,7 @@ export default function useDraftCaptionActions(params: Params) {
     dRef,
     currentSlot,
     inFlightRef,
+    brandKit,
 
     setBusy,
     setD,
@@ -337,10 +427,10 @@ export default function useDraftCaptionActions(params: Params) {
         throw new Error("no token");
       }
 
-      const brandId =
-        (String((dRef.current as any).brand ?? "").trim() ||
-          String(dRef.current.brandId ?? "").trim() ||
-          "vento") as "vento" | "riva";
+      const brandId = normalizeBrandId(
+        String((dRef.current as any).brand ?? "").trim() ||
+          String(dRef.current.brandId ?? "").trim()
+      );
 
       const keywordsText = String(
         (dRef.current as any).keywordsText ?? dRef.current.keywords ?? ""
@@ -351,6 +441,8 @@ export default function useDraftCaptionActions(params: Params) {
         vision,
         keywords: splitKeywords(keywordsText),
         tone: "",
+        sellCheckKeywords: dRef.current.outcome?.sellCheck?.extractedKeywords ?? [],
+        imagePurpose: dRef.current.imagePurpose,
       };
 
       const r = await fetch("/api/generate-captions", {
@@ -420,6 +512,10 @@ export default function useDraftCaptionActions(params: Params) {
         ecBullets,
       } as DraftDoc;
 
+      // 生成した文章をそのまま出さないよう、ブランドの決まりと出品先のルールで確認する
+      const captionCompliance = runCaptionCompliance(captionBase, j?.brandRules ?? {});
+      const hashtagSuggestions = normalizeHashtagSuggestions(j?.hashtagSuggestions) ?? [];
+
       const nextSavedCaptionSets = normalizeSavedCaptionSets([
         buildCaptionSnapshot(captionBase, "生成文章"),
         ...normalizeSavedCaptionSets((dRef.current as any).savedCaptionSets),
@@ -441,6 +537,8 @@ export default function useDraftCaptionActions(params: Params) {
         ecDescription,
         ecBullets,
         savedCaptionSets: nextSavedCaptionSets,
+        captionCompliance,
+        hashtagSuggestions,
 
         textOverlayBySlot: nextTextOverlayBySlot,
       };
@@ -467,9 +565,11 @@ export default function useDraftCaptionActions(params: Params) {
 
       setPreviewReason("");
       showMsg(
-        hasText
-          ? "キャプションを生成しました（文字表示は既存を維持）"
-          : "キャプションを生成しました"
+        `${
+          hasText
+            ? "キャプションを生成しました（文字表示は既存を維持）"
+            : "キャプションを生成しました"
+        }｜${complianceMessage(captionCompliance)}`
       );
     } catch (e: any) {
       console.warn("[AOI FLOW handled]", e);
@@ -480,6 +580,105 @@ export default function useDraftCaptionActions(params: Params) {
     }
   }
 
+  /**
+   * 海外向けEC出品文の生成
+   *
+   * 注意
+   * - 日本語の文章欄（IG / X / EC）は上書きしない
+   * - 結果は言語付きの SavedCaptionSet として先頭に保存する（日本語と並べて持つ）
+   * - 今の日本語EC文があれば、内容を揃えるための参考として渡す
+   */
+  async function generateLocalizedListing(language: CaptionLanguage) {
+    if (!uid) return;
+
+    const lang = captionLanguageOption(language);
+    if (!isOverseasCaptionLanguage(lang.id)) {
+      await generateCaptions();
+      return;
+    }
+
+    const vision = String(dRef.current.vision ?? "").trim();
+    if (!vision) {
+      showMsg("Vision（必須）を入力してください");
+      return;
+    }
+
+    if (busy) return;
+    if (inFlightRef.current["captions"]) return;
+
+    inFlightRef.current["captions"] = true;
+    setBusy(true);
+
+    try {
+      const token = await auth.currentUser?.getIdToken(true);
+      if (!token) {
+        throw new Error("no token");
+      }
+
+      const brandId = normalizeBrandId(
+        String((dRef.current as any).brand ?? "").trim() ||
+          String(dRef.current.brandId ?? "").trim()
+      );
+
+      const keywordsText = String(
+        (dRef.current as any).keywordsText ?? dRef.current.keywords ?? ""
+      );
+
+      const body = {
+        brandId,
+        vision,
+        keywords: splitKeywords(keywordsText),
+        tone: "",
+        language: lang.id,
+        sourceListing: {
+          ecTitle: String(dRef.current.ecTitle ?? ""),
+          ecDescription: String(dRef.current.ecDescription ?? ""),
+          ecBullets: toSafeStringArray(dRef.current.ecBullets, 5),
+        },
+      };
+
+      const r = await fetch("/api/generate-captions", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) {
+        throw new Error(j?.error || "caption error");
+      }
+
+      const listingBase = {
+        ecTitle: typeof j.ecTitle === "string" ? j.ecTitle : "",
+        ecDescription: typeof j.ecDescription === "string" ? j.ecDescription : "",
+        ecBullets: toSafeStringArray(j.ecBullets, 5),
+        outcome: dRef.current.outcome,
+      } as DraftDoc;
+
+      // 海外向けも禁止語・出品先のルールで確認する（必須語は日本語なので見ない）。結果は文章セットに持つ
+      const compliance = runCaptionCompliance(listingBase, j?.brandRules ?? {}, lang.id);
+
+      const nextSavedCaptionSets = normalizeSavedCaptionSets([
+        { ...buildCaptionSnapshot(listingBase, `${lang.badge} 出品文`, lang.id), compliance },
+        ...normalizeSavedCaptionSets((dRef.current as any).savedCaptionSets),
+      ]);
+
+      commitDraftPatch({ savedCaptionSets: nextSavedCaptionSets } as any);
+      await saveDraft({ savedCaptionSets: nextSavedCaptionSets, phase: "draft" } as any);
+
+      showMsg(`${lang.label}の出品文を生成しました（日本語の文章はそのまま）｜${complianceMessage(compliance)}`);
+    } catch (e: any) {
+      console.warn("[AOI FLOW handled]", e);
+      showMsg(`出品文の生成に失敗しました：${e?.message || "不明"}`);
+    } finally {
+      setBusy(false);
+      inFlightRef.current["captions"] = false;
+    }
+  }
+
   /**
    * IG3の1案をオーバーレイにだけ反映する
    *
@@ -491,11 +690,13 @@ export default function useDraftCaptionActions(params: Params) {
     if (!t) return;
 
     const slot = currentSlot;
+    const current = getSafeSlotOverlay(dRef.current, slot);
 
+    // まだブランドキットの見た目になっていない文字表示は、キットの書体・色・帯で始める
     const nextTextOverlayBySlot = {
       ...(dRef.current.textOverlayBySlot ?? {}),
       [slot]: {
-        ...getSafeSlotOverlay(dRef.current, slot),
+        ...(current.fontId ? current : textOverlayFromBrandKit(brandKit, current)),
         lines: [t],
       },
     };
@@ -528,6 +729,32 @@ export default function useDraftCaptionActions(params: Params) {
   }
 
 
+  /**
+   * 今のスロットの文字表示をブランドキットの見た目に戻す
+   * - 文字はそのまま（書体・大きさ・位置・色・帯だけ）
+   */
+  async function applyBrandKitToOverlay() {
+    const slot = currentSlot;
+
+    const nextTextOverlayBySlot = {
+      ...(dRef.current.textOverlayBySlot ?? {}),
+      [slot]: textOverlayFromBrandKit(brandKit, getSafeSlotOverlay(dRef.current, slot)),
+    };
+
+    commitDraftPatch({
+      textOverlayBySlot: nextTextOverlayBySlot as any,
+    });
+
+    setPreviewReason("");
+
+    await saveDraft({
+      textOverlayBySlot: nextTextOverlayBySlot as any,
+      phase: "draft",
+    } as any);
+
+    showMsg("ブランドキットの書体・色を文字表示に反映しました");
+  }
+
   async function saveCurrentCaptionSet() {
     if (!uid) return;
 
@@ -556,6 +783,12 @@ export default function useDraftCaptionActions(params: Params) {
       return;
     }
 
+    // 海外向けの出品文は日本語の文章欄へは戻さない（言語が混ざるため）
+    if (isOverseasCaptionLanguage(target.language)) {
+      showMsg(`${captionLanguageOption(target.language).label}の出品文は「海外向け出品文」から確認してください`);
+      return;
+    }
+
     const patch: Partial<DraftDoc> = {
       ig: target.ig ?? "",
       x: target.x ?? "",
@@ -574,6 +807,108 @@ export default function useDraftCaptionActions(params: Params) {
     showMsg("保存文章を呼び出しました");
   }
 
+  /**
+   * 今の文章欄をもう一度チェックする
+   * - 禁止語・必須語は前回チェック時のブランドの決まりを使う
+   */
+  async function recheckCaptionCompliance() {
+    const prev = dRef.current.captionCompliance;
+    const captionCompliance = runCaptionCompliance(dRef.current, {
+      must: prev?.must ?? [],
+      ban: prev?.ban ?? [],
+    });
+
+    commitDraftPatch({ captionCompliance });
+    await saveDraft({ captionCompliance, phase: "draft" } as any);
+    showMsg(complianceMessage(captionCompliance));
+  }
+
+  /**
+   * チェック結果の修正案を文章欄へ反映する
+   * - 反映前に今の文章でチェックし直し、同じ指摘の修正案を使う（編集後の文章を壊さない）
+   */
+  async function applyCaptionComplianceFix(violationKey: string) {
+    const prev = dRef.current.captionCompliance;
+    const rules = { must: prev?.must ?? [], ban: prev?.ban ?? [] };
+    const current = runCaptionCompliance(dRef.current, rules);
+    const target = current.violations.find((v) => captionViolationKey(v) === violationKey);
+
+    if (!target?.field || typeof target.fixedText !== "string") {
+      commitDraftPatch({ captionCompliance: current });
+      showMsg("この指摘は今の文章では解消済みです");
+      return;
+    }
+
+    const text = target.fixedText;
+    const fieldPatch: Partial<DraftDoc> =
+      target.field === "ig"
+        ? { ig: text, igCaption: text }
+        : target.field === "x"
+          ? { x: text, xCaption: text }
+          : target.field === "ecBullets"
+            ? { ecBullets: toSafeStringArray(text.split("\n"), 5) }
+            : { [target.field]: text };
+
+    const next = { ...dRef.current, ...fieldPatch } as DraftDoc;
+    const patch: Partial<DraftDoc> = {
+      ...fieldPatch,
+      captionCompliance: runCaptionCompliance(next, rules),
+    };
+
+    commitDraftPatch(patch);
+    await saveDraft({ ...patch, phase: "draft" } as any);
+    showMsg(`修正案を反映しました｜${complianceMessage(patch.captionCompliance!)}`);
+  }
+
+  /**
+   * ハッシュタグ候補を Instagram 本文の末尾に足す
+   * - 本文に既にあるタグは足さない
+   */
+  async function addHashtagsToInstagram(tags: string[]) {
+    const current = String((dRef.current as any).ig ?? dRef.current.igCaption ?? "");
+    const existing = new Set(extractHashtags(current));
+    const adding = tags.filter((t) => t && !existing.has(t));
+
+    if (adding.length === 0) {
+      showMsg("選んだタグは本文に入っています");
+      return;
+    }
+
+    const ig = `${current.trimEnd()}${current.trim() ? "\n\n" : ""}${adding.join(" ")}`;
+    const patch: Partial<DraftDoc> = { ig, igCaption: ig };
+
+    commitDraftPatch(patch);
+    await saveDraft({ ...patch, phase: "draft" } as any);
+    showMsg(`Instagram 本文にタグを${adding.length}個追加しました`);
+  }
+
+  /**
+   * 保管した文章を「投稿した文章」にする（A/B の記録）
+   * - 前の投稿版には、ここまでの閲覧・いいねを残してから切り替える
+   * - 文章の型（販売 / ブランド / 物語）は保管時の値、無ければ本文から推定
+   */
+  async function markPostedCaptionSet(id: string) {
+    const target = normalizeSavedCaptionSets((dRef.current as any).savedCaptionSets).find(
+      (item) => item.id === id
+    );
+
+    if (!target) {
+      showMsg("選択した文章セットが見つかりません");
+      return;
+    }
+
+    if (isOverseasCaptionLanguage(target.language)) {
+      showMsg("投稿した文章の記録は日本語の文章だけです");
+      return;
+    }
+
+    const outcome = markPostedCaptionVariant(dRef.current.outcome, target);
+
+    commitDraftPatch({ outcome });
+    await saveDraft({ outcome, phase: "draft" } as any);
+    showMsg("投稿した文章として記録しました（成果はこの文章に入ります）");
+  }
+
   async function clearCurrentCaptions() {
     const patch: Partial<DraftDoc> = {
       ig: "",
@@ -597,9 +932,15 @@ export default function useDraftCaptionActions(params: Params) {
     ensureSlotOverlay,
     getSafeSlotOverlay,
     generateCaptions,
+    generateLocalizedListing,
     applyIg3ToOverlayOnly,
+    applyBrandKitToOverlay,
     saveCurrentCaptionSet,
     restoreCaptionSet,
     clearCurrentCaptions,
+    recheckCaptionCompliance,
+    applyCaptionComplianceFix,
+    addHashtagsToInstagram,
+    markPostedCaptionSet,
   };
 }
\ No newline at end of file
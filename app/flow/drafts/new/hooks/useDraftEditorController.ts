@@ -21,6 +21,9 @@ import useDraftStaticOptimization from "./useDraftStaticOptimization";
 import useDraftVideoActions from "./useDraftVideoActions";
 import useDraftAuth from "./useDraftAuth";
 import useDraftPricing from "./useDraftPricing";
+import useBrandKit from "./useBrandKit";
+import useBrandOptions from "@/lib/brand/useBrandOptions";
+import { normalizeBrandId, withFallbackBrandOptions } from "@/lib/brand/brands";
 
 /**
  * この controller の役割
@@ -261,11 +264,21 @@ export default function useDraftEditorController(params: Params) {
     showMsg: persistence.showMsg,
   } as any);
 
+  // ブランドの見た目（文字・帯・ロゴの初期値）
+  const brandKit = useBrandKit(state.uid, state.brandValue);
+  const loadedBrandOptions = useBrandOptions(state.uid);
+  const brandOptions = useMemo(
+    () => withFallbackBrandOptions(loadedBrandOptions, [state.brandValue]),
+    [loadedBrandOptions, state.brandValue]
+  );
+  const brandLabel = brandOptions.find((o) => o.id === state.brandValue)?.name ?? state.brandLabel;
+
   const captionActions = useDraftCaptionActions({
     uid: state.uid,
     busy: state.busy,
     dRef: state.dRef,
     currentSlot: state.currentSlot,
+    brandKit,
     inFlightRef: state.inFlightRef,
 
     setBusy: state.setBusy,
@@ -297,6 +310,7 @@ export default function useDraftEditorController(params: Params) {
     draftId: state.draftId,
     d: state.d,
     dRef: state.dRef,
+    brandKit,
     currentSlot: state.currentSlot,
     inFlightRef: state.inFlightRef,
 
@@ -341,75 +355,14 @@ export default function useDraftEditorController(params: Params) {
     }
   }
 
-  function handleSelectVento() {
-    state.setSelectedVideoUrl(null);
-    state.setVideoPreviewUrl(null);
-    state.setVideoHistory([]);
-    state.setBgImageUrl(null);
-    state.setPreviewReason("");
-    state.setUiMsg("");
-
-    state.setNonAiReason("");
-    state.setNonAiPreset(null);
-    state.setNonAiVideoPreviewUrl(null);
-    state.setNonAiVideoHistory([]);
-
-    state.setUseSceneImageUrl(null);
-    state.setUseSceneImageUrls([]);
-    state.setStoryImageUrl(null);
-    state.setStoryImageUrls([]);
-
-    /**
-     * template 背景専用 local state も初期化する
-     */
-    state.setTemplateBgUrl(null);
-    state.setTemplateBgUrls([]);
-    state.setTemplateBgRecommend([]);
-    state.setTemplateBgRecommendReason("");
-
-    /**
-     * 背景編集用 local state も初期化する
-     * - state 側に存在する場合だけ使う
-     */
-    stateAny.setBackgroundScale?.(1);
-    stateAny.setBackgroundX?.(0);
-    stateAny.setBackgroundY?.(0);
-
-    state.setD((prev) => ({
-      ...prev,
-      brand: "vento",
-      brandId: "vento",
-      bgImageUrl: undefined,
-      bgImageUrls: [],
-      aiImageUrl: undefined,
-      videoSource: undefined,
-      nonAiVideoUrl: undefined,
-      nonAiVideoUrls: [],
-      nonAiVideoPreset: undefined,
-
-      templateBgUrl: undefined,
-      templateBgUrls: [],
-      templateBgSelectedId: undefined,
-      templateBgRecommendedIds: [],
-      templateBgRecommendations: [],
-
-      useSceneImageUrl: undefined,
-      useSceneImageUrls: [],
-      imageIdeaUrl: undefined,
-      imageIdeaUrls: [],
-      storyImageUrl: undefined,
-      storyImageUrls: [],
-
-      /**
-       * 背景編集値
-       */
-      backgroundScale: undefined,
-      backgroundX: undefined,
-      backgroundY: undefined,
-    }) as any);
-  }
+  /**
+   * ブランド切替
+   * - ブランドごとに背景・動画の前提が違うので、生成済みの背景・動画候補は外す
+   * - brandId は users/{uid}/brands の文書ID（vento / riva 以外も可）
+   */
+  function handleSelectBrand(nextBrandId: string) {
+    const brandId = normalizeBrandId(nextBrandId);
 
-  function handleSelectRiva() {
     state.setSelectedVideoUrl(null);
     state.setVideoPreviewUrl(null);
     state.setVideoHistory([]);
@@ -445,8 +398,8 @@ export default function useDraftEditorController(params: Params) {
 
     state.setD((prev) => ({
       ...prev,
-      brand: "riva",
-      brandId: "riva",
+      brand: brandId,
+      brandId,
       bgImageUrl: undefined,
       bgImageUrls: [],
       aiImageUrl: undefined,
@@ -1485,7 +1438,10 @@ useEffect(() => {
     currentSlot: state.currentSlot,
     baseCandidates: state.baseCandidates,
     isCompositeFresh: state.isCompositeFresh,
-    brandLabel: state.brandLabel,
+    brandValue: state.brandValue,
+    brandLabel,
+    brandOptions,
+    brandKit,
     phaseLabel: state.phaseLabel,
     canGenerate: state.canGenerate,
     bgDisplayUrl: state.bgDisplayUrl,
@@ -1501,10 +1457,17 @@ useEffect(() => {
     commitDraftPatch,
     saveDraft: persistence.saveDraft,
 
+    revisions: persistence.revisions,
+    revisionsBusy: persistence.revisionsBusy,
+    loadRevisions: persistence.loadRevisions,
+    previewRevision: persistence.previewRevision,
+    restoreRevision: persistence.restoreRevision,
+
     fetchRecommendPresets: videoActions.fetchRecommendPresets,
     applyTopRecommendation: videoActions.applyTopRecommendation,
 
     cutoutCurrentBaseToReplace: imageActions.cutoutCurrentBaseToReplace,
+    cutoutAllMaterials: imageActions.cutoutAllMaterials,
     onUploadImageFilesNew: imageActions.onUploadImageFilesNew,
     promoteMaterialToBase: imageActions.promoteMaterialToBase,
     removeBaseOrMaterialImage: (imageActions as any).removeBaseOrMaterialImage,
@@ -1517,10 +1480,16 @@ useEffect(() => {
     selectStaticVariant: staticOptimization.selectStaticVariant,
 
     generateCaptions: captionActions.generateCaptions,
+    generateLocalizedListing: captionActions.generateLocalizedListing,
     applyIg3ToOverlayOnly: captionActions.applyIg3ToOverlayOnly,
+    applyBrandKitToOverlay: captionActions.applyBrandKitToOverlay,
     saveCurrentCaptionSet: (captionActions as any).saveCurrentCaptionSet,
     restoreCaptionSet: (captionActions as any).restoreCaptionSet,
     clearCurrentCaptions: (captionActions as any).clearCurrentCaptions,
+    recheckCaptionCompliance: captionActions.recheckCaptionCompliance,
+    applyCaptionComplianceFix: captionActions.applyCaptionComplianceFix,
+    addHashtagsToInstagram: captionActions.addHashtagsToInstagram,
+    markPostedCaptionSet: captionActions.markPostedCaptionSet,
 
     generateAiImage: imageActions.generateAiImage,
     saveCompositeAsImageUrl: imageActions.saveCompositeAsImageUrl,
@@ -1540,6 +1509,7 @@ useEffect(() => {
     clearIdeaHistory: imageActions.clearIdeaHistory,
 
     generateTemplateBackground: (imageActions as any).generateTemplateBackground,
+    generateProceduralTemplateBackground: (imageActions as any).generateProceduralTemplateBackground,
     fetchTemplateRecommendations,
     selectTemplateBackground: (imageActions as any).selectTemplateBackground,
     syncTemplateBgImagesFromStorage:
@@ -1563,8 +1533,7 @@ extractProductVideoClip: videoActions.extractProductVideoClip,
 burnVideo: videoActions.burnVideo,
 
     setPhase,
-    handleSelectVento,
-    handleSelectRiva,
+    handleSelectBrand,
     handleEnsureDraftId,
     openSellCheckForCurrentDraft,
   };
@@ -2,7 +2,9 @@
 "use client";
 
 import { useMemo, useRef, useState } from "react";
+import { brandDisplayName, DEFAULT_BRAND_ID, normalizeBrandId } from "@/lib/brand/brands";
 import type {
+  BrandId,
   DraftDoc,
   TextOverlay,
   ImagePurpose,
@@ -48,7 +50,7 @@ import type {
  * 型
  * ========================= */
 
-export type Brand = "vento" | "riva";
+export type Brand = BrandId;
 export type Phase = "draft" | "ready" | "posted";
 export type UiSeconds = 5 | 10;
 export type BgScene = "studio" | "lifestyle" | "scale" | "detail";
@@ -213,7 +215,7 @@ export function createDefaultTextOverlayBySlot(
 export const DEFAULT_DRAFT: DraftDocWithBackground = {
   userId: "",
 
-  brandId: "vento",
+  brandId: DEFAULT_BRAND_ID,
   phase: "draft",
   vision: "",
   igCaption: "",
@@ -223,7 +225,7 @@ export const DEFAULT_DRAFT: DraftDocWithBackground = {
   /**
    * 互換
    */
-  brand: "vento",
+  brand: DEFAULT_BRAND_ID,
   keywords: "",
   keywordsText: "",
   memo: "",
@@ -425,6 +427,7 @@ export function createDefaultDraft(): DraftDoc {
         x: base.placement?.background?.x ?? 0,
         y: base.placement?.background?.y ?? 0,
       },
+      ...(base.placement?.shadowStyle ? { shadowStyle: base.placement.shadowStyle } : {}),
     },
 
     placementStep: base.placementStep ?? "background",
@@ -832,12 +835,12 @@ export default function useDraftEditorState(id: string | null) {
     return compositeFromBaseUrl === base;
   }, [d.baseImageUrl, d.aiImageUrl, compositeFromBaseUrl]);
 
-  const brandValue: Brand =
-    (String((d as any).brand ?? d.brandId ?? "vento").trim() === "riva"
-      ? "riva"
-      : "vento") as Brand;
+  const brandValue: Brand = normalizeBrandId((d as any).brand ?? d.brandId);
 
-  const brandLabel = brandValue === "vento" ? "VENTO" : "RIVA";
+  /**
+   * ブランド文書の name は controller 側（ブランド一覧）で上書きする
+   */
+  const brandLabel = brandDisplayName(brandValue);
 
   const phaseLabel =
     d.phase === "draft" ? "下書き" : d.phase === "ready" ? "投稿待ち" : "投稿済み";
@@ -1212,6 +1215,7 @@ export default function useDraftEditorState(id: string | null) {
     currentSlot,
     baseCandidates,
     isCompositeFresh,
+    brandValue,
     brandLabel,
     phaseLabel,
     canGenerate,
@@ -2,13 +2,16 @@
 "use client";
 
 import React from "react";
-import { auth, storage } from "@/firebase";
+import { auth, db, storage } from "@/firebase";
 import { ref, listAll, getDownloadURL, getMetadata, uploadBytes } from "firebase/storage";
+import { doc, getDoc } from "firebase/firestore";
 import type {
   DraftDoc,
   TextOverlay,
   DraftImage,
   ProductPhotoMode,
+  ProceduralBgStyle,
+  ProceduralLightDirection,
   SizeTemplateType,
 } from "@/lib/types/draft";
 import {
@@ -19,6 +22,10 @@ import {
   getOverlaySourceUrlForPreview,
   dataUrlToUint8Array,
 } from "./useDraftEditorState";
+import { normalizeDraftImageCutout } from "@/lib/drafts/normalizeDraftImages";
+import { brandFontCss } from "@/lib/brand/brandKit";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import { normalizeBackgroundSeriesSpec } from "@/lib/image/backgroundSeriesOptions";
 
 /**
  * 画像関連専用 hook
@@ -514,6 +521,7 @@ function normalizeMaterialImages(input: unknown): DraftImage[] {
             ? raw.createdAt
             : Date.now(),
         role: raw.role === "product" ? "product" : "product",
+        cutout: normalizeDraftImageCutout(raw.cutout),
       });
     }
   }
@@ -542,6 +550,7 @@ function buildMaterialImagesFromUrls(urls: string[], current: DraftImage[]): Dra
             ? existing.createdAt
             : Date.now(),
         role: existing.role === "product" ? "product" : "product",
+        cutout: existing.cutout,
       };
     }
 
@@ -1192,10 +1201,10 @@ const nextBackgroundY = clamp(
         throw new Error("failed to create draft");
       }
 
-      const brandId =
-        (String((dRef.current as any).brand ?? "").trim() ||
-          String(dRef.current.brandId ?? "").trim() ||
-          "vento") as "vento" | "riva";
+      const brandId = normalizeBrandId(
+        String((dRef.current as any).brand ?? "").trim() ||
+          String(dRef.current.brandId ?? "").trim()
+      );
 
       const keywordsText = String((dRef.current as any).keywordsText ?? dRef.current.keywords ?? "");
 
@@ -1240,38 +1249,125 @@ const nextBackgroundY = clamp(
         throw new Error("テンプレ背景URLが返りませんでした");
       }
 
-      const nextUrls = uniqKeepOrder(
-        [
-          outUrl,
-          ...(Array.isArray(dRef.current.templateBgUrls) ? dRef.current.templateBgUrls : []),
-          ...(Array.isArray(templateBgUrls) ? templateBgUrls : []),
-        ],
-        20
-      );
+      await applyGeneratedTemplateBackground(outUrl);
 
-      if (typeof setTemplateBgUrl === "function") {
-        setTemplateBgUrl(outUrl);
+      showMsg("✅ テンプレ背景を生成しました");
+      return outUrl;
+    } finally {
+      setBusy(false);
+      inFlightRef.current[key] = false;
+    }
+  }
+
+  /**
+   * 生成したテンプレ背景を下書きへ反映（AI / 定型 共通）
+   * - templateBgUrl 系だけ更新する
+   */
+  async function applyGeneratedTemplateBackground(outUrl: string) {
+    const nextUrls = uniqKeepOrder(
+      [
+        outUrl,
+        ...(Array.isArray(dRef.current.templateBgUrls) ? dRef.current.templateBgUrls : []),
+        ...(Array.isArray(templateBgUrls) ? templateBgUrls : []),
+      ],
+      20
+    );
+
+    if (typeof setTemplateBgUrl === "function") {
+      setTemplateBgUrl(outUrl);
+    }
+
+    if (typeof setTemplateBgUrls === "function") {
+      setTemplateBgUrls(nextUrls);
+    }
+
+    setActivePhotoMode("template");
+
+    commitDraftPatch({
+      templateBgUrl: outUrl,
+      templateBgUrls: nextUrls,
+      activePhotoMode: "template",
+    });
+
+    await saveDraft({
+      templateBgUrl: outUrl,
+      templateBgUrls: nextUrls,
+      activePhotoMode: "template",
+    } as any);
+  }
+
+  /**
+   * 定型背景（AIなし）の生成
+   * - スタジオ / グラデーション / 床と壁 / 紙 をサーバで描く（OpenAI を呼ばない・無料）
+   * - 色はブランドキット、接地と売り方は今の設定を使う
+   * - 保存先と templateBgUrls はテンプレ背景と同じ
+   */
+  async function generateProceduralTemplateBackground(
+    style: ProceduralBgStyle,
+    lightDirection: ProceduralLightDirection
+  ): Promise<string> {
+    if (!uid) {
+      throw new Error("no uid");
+    }
+
+    const key = "generateProceduralTemplateBg";
+    if (inFlightRef.current[key]) {
+      throw new Error("定型背景を作成中です");
+    }
+
+    inFlightRef.current[key] = true;
+    setBusy(true);
+
+    try {
+      const token = await auth.currentUser?.getIdToken(true);
+      if (!token) {
+        throw new Error("no token");
       }
 
-      if (typeof setTemplateBgUrls === "function") {
-        setTemplateBgUrls(nextUrls);
+      const ensuredDraftId = draftId ?? (await saveDraft());
+      if (!ensuredDraftId) {
+        throw new Error("failed to create draft");
       }
 
-      setActivePhotoMode("template");
+      const brandId = normalizeBrandId(
+        String((dRef.current as any).brand ?? "").trim() ||
+          String(dRef.current.brandId ?? "").trim()
+      );
 
-      commitDraftPatch({
-        templateBgUrl: outUrl,
-        templateBgUrls: nextUrls,
-        activePhotoMode: "template",
+      const res = await fetch("/api/template-backgrounds/generate", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          draftId: ensuredDraftId,
+          brandId,
+          renderer: "procedural",
+          proceduralStyle: style,
+          lightDirection,
+          templateCategory: "studio",
+          productCategory,
+          productSize,
+          groundingType,
+          sellDirection,
+        }),
       });
 
-      await saveDraft({
-        templateBgUrl: outUrl,
-        templateBgUrls: nextUrls,
-        activePhotoMode: "template",
-      } as any);
+      const json = await res.json().catch(() => ({}));
 
-      showMsg("✅ テンプレ背景を生成しました");
+      if (!res.ok || !json?.ok) {
+        throw new Error(json?.error || "procedural background generate error");
+      }
+
+      const outUrl = asTrimmedString(json?.url);
+      if (!outUrl) {
+        throw new Error("定型背景URLが返りませんでした");
+      }
+
+      await applyGeneratedTemplateBackground(outUrl);
+
+      showMsg("✅ 定型背景を作成しました");
       return outUrl;
     } finally {
       setBusy(false);
@@ -1739,7 +1835,7 @@ ctx.filter = "none";
     const textBlockHeight = lines.length * lineH;
     const textStartY = textCenterY - textBlockHeight / 2;
 
-    ctx.font = `900 ${fontPx}px system-ui, -apple-system, BlinkMacSystemFont, "Hiragino Sans", "Yu Gothic", sans-serif`;
+    ctx.font = `900 ${fontPx}px ${brandFontCss(slotOverlay?.fontId)}`;
     ctx.textBaseline = "top";
     ctx.textAlign = "center";
 
@@ -1864,6 +1960,98 @@ async function renderToCanvasAndGetDataUrlSilent(): Promise<string | null> {
     }
   }
 
+  /**
+   * 素材画像をまとめて透過
+   * - /api/cutout/batch がサーバー側で切り抜き・Storage保存・下書きへの書き戻しまで行う
+   * - 画面側は返ってきた結果を images.materials[].cutout に反映するだけ
+   */
+  async function cutoutAllMaterials() {
+    if (!uid) {
+      showMsg("❌ ログインしてください");
+      return;
+    }
+
+    const materials = normalizeMaterialImages(dRef.current.images?.materials);
+    if (materials.length === 0) {
+      showMsg("❌ 素材画像がありません");
+      return;
+    }
+
+    const key = "cutoutMaterials";
+    if (inFlightRef.current[key]) {
+      setCutoutReason("一括透過はすでに実行中です");
+      return;
+    }
+
+    inFlightRef.current[key] = true;
+    setCutoutBusy(true);
+    setCutoutReason(`素材 ${materials.length}枚を透過しています…`);
+
+    try {
+      const ensuredDraftId = draftId ?? (await saveDraft());
+      if (!ensuredDraftId) {
+        throw new Error("下書きIDが作れませんでした");
+      }
+
+      const token = await auth.currentUser?.getIdToken(true);
+      if (!token) {
+        throw new Error("ログイン情報が取得できません");
+      }
+
+      const res = await fetch("/api/cutout/batch", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ draftId: ensuredDraftId }),
+      });
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) {
+        throw new Error(json?.error || `一括透過失敗 (status ${res.status})`);
+      }
+
+      const results: any[] = Array.isArray(json.results) ? json.results : [];
+      const now = Date.now();
+      const nextMaterials = normalizeMaterialImages(dRef.current.images?.materials).map((item) => {
+        const hit = results.find((r) => r?.ok && r?.url && String(r.sourceUrl || "").trim() === item.url);
+        if (!hit) return item;
+
+        return {
+          ...item,
+          cutout: {
+            url: String(hit.url),
+            provider: String(hit.provider || ""),
+            engine: String(hit.engine || ""),
+            quality: Number(hit.quality?.score || 0),
+            elapsed: Number(hit.elapsed || 0),
+            at: now,
+          },
+        };
+      });
+
+      // 書き戻しはサーバー側で済んでいるので、ここでは画面の状態だけ合わせる
+      commitDraftPatch({
+        images: {
+          ...(dRef.current.images ?? { primary: null, materials: [] }),
+          materials: nextMaterials,
+        },
+      });
+
+      const failed = Number(json.summary?.failed || 0);
+      const succeeded = Number(json.summary?.succeeded || 0);
+      setCutoutReason(failed > 0 ? `失敗 ${failed}枚：${results.find((r) => !r?.ok)?.error || "不明"}` : "");
+      showMsg(failed > 0 ? `⚠️ 素材を透過しました（成功 ${succeeded}枚 / 失敗 ${failed}枚）` : `✅ 素材 ${succeeded}枚を透過しました`);
+    } catch (e: any) {
+      console.warn("[AOI FLOW] batch cutout handled error:", e?.message || e);
+      showMsg(`❌ 一括透過に失敗：${e?.message || "不明"}`);
+    } finally {
+      setCutoutBusy(false);
+      inFlightRef.current[key] = false;
+    }
+  }
+
   async function onUploadImageFilesNew(files: File[]) {
     if (!uid) return;
     if (!files || files.length === 0) return;
@@ -2072,10 +2260,10 @@ async function renderToCanvasAndGetDataUrlSilent(): Promise<string | null> {
         throw new Error("failed to create draft");
       }
 
-      const brandId =
-        (String((dRef.current as any).brand ?? "").trim() ||
-          String(dRef.current.brandId ?? "").trim() ||
-          "vento") as "vento" | "riva";
+      const brandId = normalizeBrandId(
+        String((dRef.current as any).brand ?? "").trim() ||
+          String(dRef.current.brandId ?? "").trim()
+      );
 
       const keywordsText = String((dRef.current as any).keywordsText ?? dRef.current.keywords ?? "");
 
@@ -2224,10 +2412,10 @@ async function renderToCanvasAndGetDataUrlSilent(): Promise<string | null> {
         throw new Error("failed to create draft");
       }
 
-      const brandId =
-        (String((dRef.current as any).brand ?? "").trim() ||
-          String(dRef.current.brandId ?? "").trim() ||
-          "vento") as "vento" | "riva";
+      const brandId = normalizeBrandId(
+        String((dRef.current as any).brand ?? "").trim() ||
+          String(dRef.current.brandId ?? "").trim()
+      );
 
       const keywordsText = String((dRef.current as any).keywordsText ?? dRef.current.keywords ?? "");
 
@@ -2520,9 +2708,20 @@ async function saveCompositeTextImageFromCompositeSlot() {
         throw new Error("元画像がありません。先に商品画像を用意してください。");
       }
 
+      const brandId = normalizeBrandId(
+        String((dRef.current as any).brand ?? "").trim() ||
+          String(dRef.current.brandId ?? "").trim()
+      );
+
+      // シリーズモードのブランドは基準に揃えて生成するので、キーワードだけで選ぶストックは使わない
+      const brandSnap = await getDoc(doc(db, "users", uid, "brands", brandId)).catch(() => null);
+      const seriesActive = !!normalizeBackgroundSeriesSpec(brandSnap?.data()?.bgSeries)?.enabled;
+
       const stockFolder = `users/${uid}/bg-stock`;
       const stockRef = ref(storage, stockFolder);
-      const listed = await listAll(stockRef).catch(() => ({ items: [] as any[] }));
+      const listed = seriesActive
+        ? { items: [] as any[] }
+        : await listAll(stockRef).catch(() => ({ items: [] as any[] }));
 
       for (const item of listed.items) {
         const name = item.name.toLowerCase();
@@ -2550,11 +2749,6 @@ async function saveCompositeTextImageFromCompositeSlot() {
         "元画像の背景は再現しない",
       ];
 
-      const brandId =
-        (String((dRef.current as any).brand ?? "").trim() ||
-          String(dRef.current.brandId ?? "").trim() ||
-          "vento") as "vento" | "riva";
-
       const keywordsText = String((dRef.current as any).keywordsText ?? dRef.current.keywords ?? "");
 
       const understanding = resolveProductUnderstanding({
@@ -2692,10 +2886,10 @@ commitDraftPatch({
 
       setCompositeFromBaseUrl(base);
 
-const brandId =
-  (String((d as any).brand ?? "").trim() ||
-    String(d.brandId ?? "").trim() ||
-    "vento") as "vento" | "riva";
+const brandId = normalizeBrandId(
+  String((d as any).brand ?? "").trim() ||
+    String(d.brandId ?? "").trim()
+);
 
 /**
  * 重要修正
@@ -2795,6 +2989,17 @@ background: {
   x: clamp(Number(backgroundX ?? 0), -2, 2),
   y: clamp(Number(backgroundY ?? 0), -2, 2),
 },
+
+/**
+ * 影の種類（映り込み / 接地影 / 投影影）
+ * - スライダー state には無いので保存値をそのまま渡す
+ */
+...(savedPlacement.shadowStyle ? { shadowStyle: savedPlacement.shadowStyle } : {}),
+
+/**
+ * 背景の光・遠近合わせの上書き（未保存ならサーバ側で自動）
+ */
+...(savedPlacement.lightMatch ? { lightMatch: savedPlacement.lightMatch } : {}),
       };
 
       const r = await fetch("/api/compose-product-stage", {
@@ -2805,7 +3010,12 @@ background: {
         body: JSON.stringify({
           foregroundUrl: fg,
           backgroundUrl: bg,
-          light: "center",
+
+          /**
+           * light は送らない
+           * - 光・遠近合わせがオンなら背景から推定した向きを使う
+           * - オフの時はサーバ既定（center）で従来どおり
+           */
           productWidthRatio: 0.42,
           productCategory: understanding.productCategory,
           productSize: understanding.productSize,
@@ -2821,6 +3031,14 @@ background: {
            * - route.ts 側の normalizePlacement() と同じレンジで一致させる
            */
           placement,
+
+          /**
+           * セット商品
+           * - 追加商品がある時だけ送る（無ければ従来の単品合成）
+           */
+          ...(Array.isArray(dRef.current.stageProducts) && dRef.current.stageProducts.length > 0
+            ? { products: dRef.current.stageProducts }
+            : {}),
         }),
       });
 
@@ -2851,6 +3069,11 @@ background: {
                 typeof (j.meta as any).placement === "object"
                   ? (j.meta as any).placement
                   : null,
+              lightMatch:
+                (j.meta as any).lightMatch &&
+                typeof (j.meta as any).lightMatch === "object"
+                  ? (j.meta as any).lightMatch
+                  : null,
               updatedAt: Date.now(),
             }
           : null;
@@ -3556,6 +3779,7 @@ commitDraftPatch({
     commitDraftPatch,
     renderToCanvasAndGetDataUrlSilent,
     cutoutCurrentBaseToReplace,
+    cutoutAllMaterials,
     onUploadImageFilesNew,
     promoteMaterialToBase,
     generateAiImage,
@@ -3576,6 +3800,7 @@ commitDraftPatch({
     syncStoryImagesFromStorage,
     clearStoryHistory,
     generateTemplateBackground,
+    generateProceduralTemplateBackground,
     fetchTemplateRecommendations,
     selectTemplateBackground,
     syncTemplateBgImagesFromStorage,
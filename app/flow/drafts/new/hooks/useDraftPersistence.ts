@@ -1,18 +1,24 @@
 //app/flow/drafts/new/hooks/useDraftPersistence.ts
 "use client";
 
-import { useCallback, useEffect } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { auth } from "@/firebase";
 import { normalizeDraftImages } from "@/lib/drafts/normalizeDraftImages";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import { normalizeCaptionLanguage } from "@/lib/drafts/captionLanguages";
+import { normalizeCaptionComplianceReport } from "@/lib/drafts/captionCompliance";
+import { normalizeHashtagSuggestions } from "@/lib/hashtags/scoring";
+import { normalizeCaptionStyle, normalizeCaptionVariants } from "@/lib/drafts/captionExperiments";
 import type {
   DraftDoc,
   NonAiVideoPreset,
   ShortCopy,
-  BrandId,
   Phase,
   VideoSettings,
   DraftOutcome,
   SellOutcomeStatus,
+  DraftRevisionPreview,
+  DraftRevisionSummary,
 } from "@/lib/types/draft";
 import type { AppRouterInstance } from "next/dist/shared/lib/app-router-context.shared-runtime";
 
@@ -22,6 +28,8 @@ import type { AppRouterInstance } from "next/dist/shared/lib/app-router-context.
  * 今回追加
  * - outcome を保存・読込対象へ追加
  * - 売れる判断OS用の成果データを draft に紐づける
+ * - 版履歴（drafts/{id}/revisions）の一覧・プレビュー・復元
+ *   復元後は reloadNonce を進めて、通常の読込処理で画面を組み直す
  */
 
 type PreviewMode = "base" | "idea" | "composite";
@@ -65,10 +73,6 @@ type Params = {
   setVideoPickerValue: React.Dispatch<React.SetStateAction<VideoPickerValue>>;
 };
 
-function normalizeBrandId(v: unknown): BrandId {
-  return v === "riva" ? "riva" : "vento";
-}
-
 function normalizePhase(v: unknown): Phase {
   if (v === "ready") return "ready";
   if (v === "posted") return "posted";
@@ -124,6 +128,8 @@ function normalizeSavedCaptionSets(input: unknown): NonNullable<DraftDoc["savedC
       id: normalizeString(item?.id),
       label: normalizeString(item?.label),
       createdAt: typeof item?.createdAt === "number" ? item.createdAt : Date.now(),
+      language: normalizeCaptionLanguage(item?.language),
+      ...(normalizeCaptionStyle(item?.style) ? { style: normalizeCaptionStyle(item?.style) } : {}),
       ig: normalizeString(item?.ig),
       x: normalizeString(item?.x),
       ig3: Array.isArray(item?.ig3)
@@ -139,6 +145,9 @@ function normalizeSavedCaptionSets(input: unknown): NonNullable<DraftDoc["savedC
             .filter(Boolean)
             .slice(0, 5)
         : [],
+      ...(normalizeCaptionComplianceReport(item?.compliance)
+        ? { compliance: normalizeCaptionComplianceReport(item?.compliance) }
+        : {}),
     }))
     .filter((item) => item.id)
     .slice(0, 20);
@@ -185,6 +194,11 @@ function normalizeOutcome(raw: unknown): DraftOutcome | undefined {
   if (platform) out.platform = platform;
   if (memo) out.memo = memo;
 
+  const postedCaptionSetId = normalizeOptionalString(data.postedCaptionSetId);
+  const captionVariants = normalizeCaptionVariants(data.captionVariants);
+  if (postedCaptionSetId) out.postedCaptionSetId = postedCaptionSetId;
+  if (captionVariants.length > 0) out.captionVariants = captionVariants;
+
   if (data.sellCheck && typeof data.sellCheck === "object") {
     const sc = data.sellCheck as any;
     const score = normalizeOptionalNumber(sc.score);
@@ -216,6 +230,18 @@ function normalizeOutcome(raw: unknown): DraftOutcome | undefined {
           normalizeOptionalPositiveNumber(sc.learnedSampleCount) ?? 0,
         checkedAt: checkedAt ?? Date.now(),
       };
+
+      // 診断の保存（/api/sell-check/save）では textAnalysis の中にある
+      const extractedKeywords = Array.isArray(sc.extractedKeywords)
+        ? sc.extractedKeywords
+        : Array.isArray(sc.textAnalysis?.extractedKeywords)
+          ? sc.textAnalysis.extractedKeywords
+          : [];
+      const keywordList = extractedKeywords
+        .map((x: unknown) => String(x || "").trim())
+        .filter(Boolean)
+        .slice(0, 20);
+      if (keywordList.length > 0) out.sellCheck.extractedKeywords = keywordList;
     }
   }
 
@@ -403,6 +429,8 @@ function buildFormalPatch(next: DraftDoc) {
     ecDescription: next.ecDescription,
     ecBullets: next.ecBullets,
     savedCaptionSets: normalizeSavedCaptionSets((next as any).savedCaptionSets),
+    captionCompliance: next.captionCompliance,
+    hashtagSuggestions: next.hashtagSuggestions,
 
     baseImageUrl: next.baseImageUrl,
     bgImageUrl: next.bgImageUrl,
@@ -443,6 +471,7 @@ function buildFormalPatch(next: DraftDoc) {
 
     activePhotoMode: next.activePhotoMode,
     placement: next.placement,
+    stageProducts: next.stageProducts,
     placementStep: next.placementStep,
     compositeServerPlacementMeta: (next as any).compositeServerPlacementMeta,
 
@@ -537,6 +566,10 @@ export default function useDraftPersistence(params: Params) {
     setVideoPickerValue,
   } = params;
 
+  const [reloadNonce, setReloadNonce] = useState(0);
+  const [revisions, setRevisions] = useState<DraftRevisionSummary[]>([]);
+  const [revisionsBusy, setRevisionsBusy] = useState(false);
+
   const showMsg = useCallback(
     (s: string) => {
       setUiMsg(s);
@@ -613,6 +646,101 @@ export default function useDraftPersistence(params: Params) {
     [dRef, draftIdRef, id, router, setD, setDraftId, showMsg]
   );
 
+  /* ---------------- */
+  /* 版履歴 */
+  /* ---------------- */
+
+  const postRevisionApi = useCallback(async (path: string, body: Record<string, unknown>) => {
+    const token = await auth.currentUser?.getIdToken(true);
+    if (!token) throw new Error("ログインが必要です");
+
+    const res = await fetch(path, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const j = await res.json().catch(() => ({}));
+    if (!res.ok || !j?.ok) {
+      throw new Error(j?.error || `revision request failed (${res.status})`);
+    }
+    return j;
+  }, []);
+
+  const loadRevisions = useCallback(async (): Promise<DraftRevisionSummary[]> => {
+    const currentDraftId = draftIdRef.current;
+    if (!currentDraftId) {
+      setRevisions([]);
+      return [];
+    }
+
+    setRevisionsBusy(true);
+    try {
+      const j = await postRevisionApi("/api/drafts/revisions", { draftId: currentDraftId });
+      const list = Array.isArray(j.revisions) ? (j.revisions as DraftRevisionSummary[]) : [];
+      setRevisions(list);
+      return list;
+    } catch (e: any) {
+      showMsg(e?.message || "履歴の取得に失敗しました");
+      return [];
+    } finally {
+      setRevisionsBusy(false);
+    }
+  }, [draftIdRef, postRevisionApi, showMsg]);
+
+  const previewRevision = useCallback(
+    async (revisionId: string): Promise<DraftRevisionPreview | null> => {
+      const currentDraftId = draftIdRef.current;
+      if (!currentDraftId) return null;
+
+      try {
+        const j = await postRevisionApi("/api/drafts/revisions", {
+          draftId: currentDraftId,
+          revisionId,
+        });
+        return (j.revision as DraftRevisionPreview) ?? null;
+      } catch (e: any) {
+        showMsg(e?.message || "履歴の取得に失敗しました");
+        return null;
+      }
+    },
+    [draftIdRef, postRevisionApi, showMsg]
+  );
+
+  /**
+   * 過去の版へ戻す
+   * - 保存キューに載せて、保存中の内容と競合しないようにする
+   * - 戻した後は下書きを読み直す
+   */
+  const restoreRevision = useCallback(
+    async (revisionId: string): Promise<boolean> => {
+      const currentDraftId = draftIdRef.current;
+      if (!currentDraftId) return false;
+
+      setRevisionsBusy(true);
+      try {
+        await enqueueSave(() =>
+          postRevisionApi("/api/drafts/revisions/restore", {
+            draftId: currentDraftId,
+            revisionId,
+          })
+        );
+        setReloadNonce((n) => n + 1);
+        await loadRevisions();
+        return true;
+      } catch (e: any) {
+        showMsg(e?.message || "復元に失敗しました");
+        return false;
+      } finally {
+        setRevisionsBusy(false);
+      }
+    },
+    [draftIdRef, loadRevisions, postRevisionApi, showMsg]
+  );
+
   useEffect(() => {
     if (!uid) return;
 
@@ -794,6 +922,8 @@ export default function useDraftPersistence(params: Params) {
             ? (data as any).ecBullets.map((v: unknown) => String(v ?? "").trim()).filter(Boolean).slice(0, 5)
             : [],
           savedCaptionSets: normalizeSavedCaptionSets((data as any).savedCaptionSets),
+          captionCompliance: normalizeCaptionComplianceReport((data as any).captionCompliance),
+          hashtagSuggestions: normalizeHashtagSuggestions((data as any).hashtagSuggestions),
 
           baseImageUrl,
           bgImageUrl: bgImageUrlSingle,
@@ -1048,6 +1178,7 @@ export default function useDraftPersistence(params: Params) {
   }, [
     uid,
     id,
+    reloadNonce,
     dRef,
     draftIdRef,
     setD,
@@ -1070,5 +1201,11 @@ export default function useDraftPersistence(params: Params) {
   return {
     saveDraft,
     showMsg,
+
+    revisions,
+    revisionsBusy,
+    loadRevisions,
+    previewRevision,
+    restoreRevision,
   };
 }
\ No newline at end of file
@@ -3,7 +3,9 @@
 
 import { auth, storage } from "@/firebase";
 import { ref, listAll, getDownloadURL, getMetadata } from "firebase/storage";
-import type { DraftDoc, MotionCharacter } from "@/lib/types/draft";
+import type { BrandKit, DraftDoc, MotionCharacter } from "@/lib/types/draft";
+import { burnTextStyleFromBrandKit } from "@/lib/brand/brandKit";
+import { getTimelineDuration } from "@/lib/nonAiVideo/timeline";
 import { splitKeywords } from "./useDraftEditorState";
 
 type Params = {
@@ -14,6 +16,8 @@ type Params = {
   dRef: React.MutableRefObject<DraftDoc>;
   currentSlot: "base" | "mood" | "composite";
   inFlightRef: React.MutableRefObject<Record<string, boolean>>;
+  /** 文字焼き込みの書体・色・ロゴ */
+  brandKit: BrandKit;
 
   setBusy: React.Dispatch<React.SetStateAction<boolean>>;
   setRightTab: React.Dispatch<React.SetStateAction<"image" | "video">>;
@@ -41,6 +45,7 @@ export default function useDraftVideoActions(params: Params) {
     dRef,
     currentSlot,
     inFlightRef,
+    brandKit,
 
     setBusy,
     setRightTab,
@@ -426,9 +431,12 @@ export default function useDraftVideoActions(params: Params) {
     };
 
     const overlay = pickOverlay();
+    // 時間指定つきの字幕（productVideo.captions）だけでも焼き込める
+    const captions = dRef.current.productVideo?.captions ?? null;
+    const hasCaptions = (captions?.cues ?? []).length > 0;
 
-    if (!overlay) {
-      setBurnReason("文字がありません（①で文字をONにして入力してください）");
+    if (!overlay && !hasCaptions) {
+      setBurnReason("文字がありません（①で文字をONにして入力するか、字幕を追加してください）");
       return;
     }
 
@@ -439,19 +447,45 @@ export default function useDraftVideoActions(params: Params) {
       return;
     }
 
+    const token = await auth.currentUser?.getIdToken(true);
+
+    if (!token) {
+      setBurnReason("認証トークン取得に失敗しました");
+      return;
+    }
+
     setBurnReason("");
 
+    // 代表動画がタイムラインで書き出した物ならその合計秒数、それ以外は動画設定の秒数で焼く
+    const timeline = dRef.current.productVideo?.timeline ?? null;
+    const seconds =
+      timeline?.renderedUrl && timeline.renderedUrl === src
+        ? getTimelineDuration(timeline)
+        : Number(dRef.current.videoSeconds ?? 5);
+
     const res = await fetch("/api/burn-text-video", {
       method: "POST",
-      headers: { "content-type": "application/json" },
+      headers: {
+        "content-type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
       body: JSON.stringify({
         draftId: ensuredDraftId,
         videoUrl: src,
         overlay,
-        text: (overlay.lines ?? []).join("\n"),
-        fontSize: overlay.fontSize ?? 48,
-        y: overlay.y ?? 70,
+        text: (overlay?.lines ?? []).join("\n"),
+        fontSize: overlay?.fontSize ?? 48,
+        y: overlay?.y ?? 70,
         size: d.videoSize ?? "720x1280",
+        seconds,
+        // 文字表示をキットの見た目にしてあれば、その書体・色で焼く
+        style: {
+          ...burnTextStyleFromBrandKit(brandKit),
+          ...(overlay?.fontId ? { fontId: overlay.fontId, fontColor: overlay.color ?? brandKit.palette.text } : {}),
+        },
+        audio: dRef.current.productVideo?.audio ?? null,
+        cues: hasCaptions ? captions?.cues : [],
+        captionStyle: captions?.style ?? null,
       }),
     });
 
@@ -8,6 +8,8 @@ import ImageTabPanel from "./components/ImageTabPanel";
 import ProductVideoPanel from "./components/ProductVideoPanel";
 import BrandVisionCard from "./components/BrandVisionCard";
 import CaptionEditorCard from "./components/CaptionEditorCard";
+import MarketplaceExportCard from "./components/MarketplaceExportCard";
+import DraftHistoryCard from "./components/DraftHistoryCard";
 import BrandCMPanel from "@/components/cm/BrandCMPanel";
 
 import { UI, SelectBtn, Chip, Btn } from "./ui";
@@ -117,10 +119,7 @@ export default function NewDraftPage() {
     router.push(`/flow/sell-check?draftId=${encodeURIComponent(targetDraftId)}`);
   };
 
-  const safeBrandId: "vento" | "riva" =
-    String((c.d as any).brand ?? c.d.brandId ?? "vento").trim() === "riva"
-      ? "riva"
-      : "vento";
+  const safeBrandId = c.brandValue;
 
   const safeKeywordsText = String((c.d as any).keywordsText ?? c.d.keywords ?? "");
 
@@ -969,6 +968,7 @@ export default function NewDraftPage() {
                 onSelectStaticVariant={c.selectStaticVariant}
                 onUploadImageFilesNew={c.onUploadImageFilesNew}
                 onCutoutCurrentBaseToReplace={c.cutoutCurrentBaseToReplace}
+                onCutoutAllMaterials={c.cutoutAllMaterials}
                 onPromoteMaterialToBase={c.promoteMaterialToBase}
                 onRemoveBaseOrMaterialImage={c.removeBaseOrMaterialImage}
                 onSyncBaseAndMaterialImagesFromStorage={c.syncBaseAndMaterialImagesFromStorage}
@@ -1032,6 +1032,7 @@ export default function NewDraftPage() {
                 storyDisplayUrl={storyDisplayUrl}
                 onGenerateStoryImage={c.generateStoryImage}
                 generateTemplateBackground={c.generateTemplateBackground}
+                generateProceduralTemplateBackground={c.generateProceduralTemplateBackground}
                 fetchTemplateRecommendations={c.fetchTemplateRecommendations}
                 selectTemplateBackground={c.selectTemplateBackground}
                 templateBgUrl={String(c.templateBgUrl ?? "")}
@@ -1074,6 +1075,7 @@ export default function NewDraftPage() {
 
                 {c.videoTab === "product" ? (
                   <ProductVideoPanel
+                    brandKit={c.brandKit}
                     d={c.d}
                     setD={c.setD}
                     uid={c.uid}
@@ -1165,6 +1167,7 @@ export default function NewDraftPage() {
                     draftId={c.draftId}
                     idToken={c.idToken}
                     brandId={safeBrandId}
+                    brandKit={c.brandKit}
                     saveDraft={c.saveDraft}
                     busy={c.busy}
                     showMsg={c.showMsg}
@@ -1177,6 +1180,8 @@ export default function NewDraftPage() {
                       runwayTaskId: (c.d as any)?.cmApplied?.runwayTaskId,
                       runwayStatus: (c.d as any)?.cmApplied?.runwayStatus,
                       runwayVideoUrl: (c.d as any)?.cmApplied?.runwayVideoUrl,
+                      ig3: c.d.ig3,
+                      shortCopies: c.d.shortCopies,
                     }}
                   />
                 ) : null}
@@ -1188,12 +1193,13 @@ export default function NewDraftPage() {
                 <BrandVisionCard
                   d={c.d}
                   brandLabel={c.brandLabel}
+                  brandOptions={c.brandOptions}
+                  brandValue={c.brandValue}
                   phaseLabel={c.phaseLabel}
                   uiMsg={c.uiMsg}
                   canGenerate={c.canGenerate}
                   formStyle={formStyle}
-                  onSelectVento={c.handleSelectVento}
-                  onSelectRiva={c.handleSelectRiva}
+                  onSelectBrand={c.handleSelectBrand}
                   onGenerateCaptions={c.generateCaptions}
                   setD={c.setD}
                 />
@@ -1205,6 +1211,8 @@ export default function NewDraftPage() {
                   formStyle={formStyle}
                   setD={c.setD}
                   onApplyIg3ToOverlayOnly={c.applyIg3ToOverlayOnly}
+                  brandKit={c.brandKit}
+                  onApplyBrandKitToOverlay={c.applyBrandKitToOverlay}
                   onSaveDraft={() => {
                     void c.saveDraft();
                   }}
@@ -1214,11 +1222,39 @@ export default function NewDraftPage() {
                   onRestoreCaptionSet={(id) => {
                     void c.restoreCaptionSet(id);
                   }}
+                  onRecheckCompliance={() => {
+                    void c.recheckCaptionCompliance();
+                  }}
+                  onApplyComplianceFix={(key) => {
+                    void c.applyCaptionComplianceFix(key);
+                  }}
+                  onMarkPostedCaptionSet={(id) => {
+                    void c.markPostedCaptionSet(id);
+                  }}
+                  onAddHashtags={(tags) => {
+                    void c.addHashtagsToInstagram(tags);
+                  }}
+                  onGenerateLocalizedListing={(language) => {
+                    void c.generateLocalizedListing(language);
+                  }}
                   onClearCurrentCaptions={() => {
                     void c.clearCurrentCaptions();
                   }}
                   onEnsureDraftId={c.handleEnsureDraftId}
                 />
+
+                <MarketplaceExportCard draftId={c.draftId} busy={c.busy} showMsg={c.showMsg} />
+
+                <DraftHistoryCard
+                  draftId={c.draftId}
+                  busy={c.busy}
+                  revisions={c.revisions}
+                  revisionsBusy={c.revisionsBusy}
+                  onLoad={c.loadRevisions}
+                  onPreview={c.previewRevision}
+                  onRestore={c.restoreRevision}
+                  showMsg={c.showMsg}
+                />
               </div>
             ) : null}
           </main>
@@ -2,6 +2,7 @@
 "use client";
 
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
 import { onAuthStateChanged } from "firebase/auth";
 import {
@@ -19,8 +20,17 @@ import {
 } from "firebase/firestore";
 import { auth, db } from "@/firebase";
 import { useToast } from "@/components/ToastProvider";
+import DraftBulkBar from "@/components/DraftBulkBar";
+import useBrandOptions from "@/lib/brand/useBrandOptions";
+import { normalizeBrandId, withFallbackBrandOptions } from "@/lib/brand/brands";
+import type { BrandId } from "@/lib/types/draft";
+import {
+  DRAFT_CARRY_GROUPS,
+  DRAFT_CARRY_GROUP_KEYS,
+  defaultCarryOptions,
+  type DraftCarryOptions,
+} from "@/lib/drafts/draftDuplication";
 
-type Brand = "vento" | "riva";
 type Phase = "draft" | "ready" | "posted";
 type PhaseFilter = "all" | Phase;
 type ViewMode = "card" | "list" | "compact";
@@ -28,7 +38,7 @@ type ViewMode = "card" | "list" | "compact";
 type DraftRow = {
   id: string;
   userId: string;
-  brand: Brand;
+  brand: BrandId;
   phase: Phase;
 
   // 下書き一覧の題名は「商品名」を優先します。
@@ -43,6 +53,11 @@ type DraftRow = {
   updatedAt?: any;
   displayOrder?: number;
   hiddenForUids: string[];
+
+  // 複製（バリエーション）の系統
+  parentDraftId: string;
+  rootDraftId: string;
+  variantLabel: string;
 };
 
 const HEADER_TITLE_PX = 20;
@@ -130,6 +145,7 @@ function isAdminUid(uid: string | null): boolean {
 
 export default function DraftsPage() {
   const toast = useToast();
+  const router = useRouter();
 
   const [uid, setUid] = useState<string | null>(null);
   const [idToken, setIdToken] = useState("");
@@ -139,8 +155,17 @@ export default function DraftsPage() {
   const [viewMode, setViewMode] = useState<ViewMode>("card");
   const [phaseFilter, setPhaseFilter] = useState<PhaseFilter>("all");
   const [phaseBusyId, setPhaseBusyId] = useState("");
+  const [familyFilter, setFamilyFilter] = useState("");
+  // "" = すべてのブランド
+  const [brandFilter, setBrandFilter] = useState("");
+  const [duplicateSource, setDuplicateSource] = useState<DraftRow | null>(null);
+  const [duplicateCarry, setDuplicateCarry] = useState<DraftCarryOptions>(defaultCarryOptions);
+  const [duplicateLabel, setDuplicateLabel] = useState("");
+  const [duplicateBusy, setDuplicateBusy] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const isAdmin = useMemo(() => isAdminUid(uid), [uid]);
+  const loadedBrandOptions = useBrandOptions(uid);
 
   async function loadDrafts(currentUid: string) {
     try {
@@ -156,7 +181,7 @@ export default function DraftsPage() {
       const list: DraftRow[] = snap.docs
         .map((docu): DraftRow => {
           const data = docu.data() as DocumentData;
-          const brand: Brand = data.brand === "riva" ? "riva" : "vento";
+          const brand = normalizeBrandId(data.brand ?? data.brandId);
 
           return {
             id: docu.id,
@@ -175,6 +200,9 @@ export default function DraftsPage() {
             hiddenForUids: Array.isArray(data.hiddenForUids)
               ? data.hiddenForUids.filter((x: unknown) => typeof x === "string")
               : [],
+            parentDraftId: normalizeText(data.parentDraftId),
+            rootDraftId: normalizeText(data.rootDraftId),
+            variantLabel: normalizeText(data.variantLabel),
           };
         })
         .filter((x) => !x.hiddenForUids.includes(currentUid));
@@ -334,6 +362,54 @@ export default function DraftsPage() {
     }
   }
 
+  function openDuplicate(d: DraftRow) {
+    setDuplicateSource(d);
+    setDuplicateCarry(defaultCarryOptions());
+    setDuplicateLabel("");
+  }
+
+  async function duplicateDraft() {
+    if (!duplicateSource) return;
+
+    const token = await auth.currentUser?.getIdToken(true).catch(() => "");
+    if (!token) {
+      toast.push("認証情報が確認できません");
+      return;
+    }
+
+    setDuplicateBusy(true);
+
+    try {
+      const res = await fetch("/api/drafts/duplicate", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          draftId: duplicateSource.id,
+          carry: duplicateCarry,
+          variantLabel: duplicateLabel,
+        }),
+      });
+
+      const data = await res.json().catch(() => ({}));
+
+      if (!res.ok || !data?.ok) {
+        throw new Error(data?.error || "複製に失敗しました");
+      }
+
+      setDuplicateSource(null);
+      toast.push("下書きを複製しました");
+      router.push(`/flow/drafts/new?id=${encodeURIComponent(String(data.draftId))}`);
+    } catch (e) {
+      console.error(e);
+      toast.push(e instanceof Error ? e.message : "複製に失敗しました");
+    } finally {
+      setDuplicateBusy(false);
+    }
+  }
+
   function renderThumb(d: DraftRow, small = false) {
     return d.imageUrl ? (
       <img
@@ -365,10 +441,32 @@ export default function DraftsPage() {
     };
   }, [rows]);
 
+  // 系統（rootDraftId）ごとの件数。2件以上ある系統だけ一覧でまとめて見られるようにする
+  const familySizes = useMemo(() => {
+    const sizes = new Map<string, number>();
+    rows.forEach((row) => {
+      if (!row.rootDraftId) return;
+      sizes.set(row.rootDraftId, (sizes.get(row.rootDraftId) ?? 0) + 1);
+    });
+    return sizes;
+  }, [rows]);
+
+  // 設定ページのブランド + 下書きに入っているブランド（ブランド文書を消した後の下書きも絞り込めるように）
+  const brandOptions = useMemo(
+    () => withFallbackBrandOptions(loadedBrandOptions, rows.map((row) => row.brand)),
+    [loadedBrandOptions, rows]
+  );
+
+  function brandName(brandId: string) {
+    return brandOptions.find((o) => o.id === brandId)?.name ?? brandId.toUpperCase();
+  }
+
   const filteredRows = useMemo(() => {
-    if (phaseFilter === "all") return rows;
-    return rows.filter((row) => row.phase === phaseFilter);
-  }, [phaseFilter, rows]);
+    const byFamily = familyFilter ? rows.filter((row) => row.rootDraftId === familyFilter) : rows;
+    const byBrand = brandFilter ? byFamily.filter((row) => row.brand === brandFilter) : byFamily;
+    if (phaseFilter === "all") return byBrand;
+    return byBrand.filter((row) => row.phase === phaseFilter);
+  }, [brandFilter, familyFilter, phaseFilter, rows]);
 
   function phaseLabel(phase: Phase) {
     if (phase === "ready") return "投稿中";
@@ -418,6 +516,56 @@ export default function DraftsPage() {
     );
   }
 
+  function toggleSelected(draftId: string) {
+    setSelectedIds((prev) =>
+      prev.includes(draftId) ? prev.filter((id) => id !== draftId) : [...prev, draftId]
+    );
+  }
+
+  function renderSelectBox(d: DraftRow) {
+    return (
+      <input
+        type="checkbox"
+        checked={selectedIds.includes(d.id)}
+        onChange={() => toggleSelected(d.id)}
+        className="h-4 w-4 shrink-0"
+        title="一括操作の対象にする"
+      />
+    );
+  }
+
+  function handleBulkDone(action: string, succeededIds: string[], phase?: Phase) {
+    if (action === "phase" && phase) {
+      setRows((prev) => prev.map((row) => (succeededIds.includes(row.id) ? { ...row, phase } : row)));
+    } else if (action === "hide" || action === "delete") {
+      setRows((prev) => prev.filter((row) => !succeededIds.includes(row.id)));
+    } else if (action === "captions" && uid) {
+      void loadDrafts(uid);
+    }
+  }
+
+  function renderFamilyButtons(d: DraftRow) {
+    const familySize = d.rootDraftId ? familySizes.get(d.rootDraftId) ?? 0 : 0;
+
+    return (
+      <>
+        <button type="button" disabled={duplicateBusy} onClick={() => openDuplicate(d)} className="smallActionButton" title="この下書きを元にバリエーションを作る">
+          複製
+        </button>
+        {familySize > 1 ? (
+          <button
+            type="button"
+            onClick={() => setFamilyFilter((prev) => (prev === d.rootDraftId ? "" : d.rootDraftId))}
+            className={`smallActionButton ${familyFilter === d.rootDraftId ? "border-blue-300/50 bg-blue-500/25 text-white" : ""}`}
+            title="同じ系統の下書きだけを表示"
+          >
+            系統 {familySize}
+          </button>
+        ) : null}
+      </>
+    );
+  }
+
   function renderOrderButtons(d: DraftRow, index: number) {
     return (
       <div className="flex items-center gap-1">
@@ -535,6 +683,17 @@ export default function DraftsPage() {
           background: rgba(6, 26, 47, 0.54);
         }
 
+        .brandSelect {
+          height: 40px;
+          padding: 0 12px;
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          border-radius: 8px;
+          background: rgba(6, 26, 47, 0.54);
+          color: rgba(255, 255, 255, 0.82);
+          font-size: 12px;
+          font-weight: 900;
+        }
+
         .viewButton {
           height: 40px;
           min-width: 46px;
@@ -697,7 +856,7 @@ export default function DraftsPage() {
           background: rgba(8, 35, 61, 0.68);
           padding: 12px;
           display: grid;
-          grid-template-columns: 76px minmax(0, 1fr) auto;
+          grid-template-columns: auto minmax(0, 1fr) auto;
           gap: 14px;
           align-items: center;
         }
@@ -789,6 +948,21 @@ export default function DraftsPage() {
             </div>
 
             <div className="rightTools">
+              {brandOptions.length > 1 ? (
+                <select
+                  value={brandFilter}
+                  onChange={(e) => setBrandFilter(e.target.value)}
+                  className="brandSelect"
+                  aria-label="ブランドで絞り込み"
+                >
+                  <option value="">すべてのブランド</option>
+                  {brandOptions.map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.name}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
               <div className="viewPill">
                 <button type="button" onClick={() => setViewMode("card")} className={`viewButton ${viewMode === "card" ? "viewButtonActive" : ""}`}>カード</button>
                 <button type="button" onClick={() => setViewMode("list")} className={`viewButton ${viewMode === "list" ? "viewButtonActive" : ""}`}>リスト</button>
@@ -797,8 +971,23 @@ export default function DraftsPage() {
             </div>
           </div>
 
+          <div className="mt-4">
+            <DraftBulkBar
+              allIds={filteredRows.map((row) => row.id)}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
+              isAdmin={isAdmin}
+              onDone={handleBulkDone}
+            />
+          </div>
+
           <div className="countRow">
             <div>全 {filteredRows.length} 件</div>
+            {familyFilter ? (
+              <button type="button" onClick={() => setFamilyFilter("")} className="smallActionButton">
+                系統の絞り込みを解除
+              </button>
+            ) : null}
           </div>
 
           {filteredRows.length === 0 ? (
@@ -812,20 +1001,24 @@ export default function DraftsPage() {
 
                 return (
                   <div key={d.id} className="listItem">
-                    <Link href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`} className="listThumb">
-                      {renderThumb(d, true)}
-                    </Link>
-
+                    <div className="flex items-center gap-2">
+                      {renderSelectBox(d)}
+                      <Link href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`} className="listThumb">
+                        {renderThumb(d, true)}
+                      </Link>
+                    </div>
                     <Link href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`} className="min-w-0">
                       <div className="cardTitle">{displayTitle}</div>
                       <div className="cardMeta">
-                        {d.brand.toUpperCase()} / {phaseLabel(d.phase)} / {d.ecTitle ? "商品名" : d.title ? "題名" : d.caption_final ? "生成文" : "未入力"}
+                        {brandName(d.brand)} / {phaseLabel(d.phase)} / {d.ecTitle ? "商品名" : d.title ? "題名" : d.caption_final ? "生成文" : "未入力"}
+                        {d.variantLabel ? ` / ${d.variantLabel}` : ""}
                       </div>
                     </Link>
 
                     <div className="actionCluster justify-end">
                       {renderOrderButtons(d, index)}
                       {renderPhaseButtons(d)}
+                      {renderFamilyButtons(d)}
                       <button type="button" disabled={deleteBusyId === d.id} onClick={() => void softDeleteDraft(d.id)} className="smallActionButton">非表示</button>
                       {isAdmin ? (
                         <button type="button" disabled={deleteBusyId === d.id} onClick={() => void hardDeleteDraft(d.id)} className="smallActionButton border-red-300/25 bg-red-500/15 text-red-100">完全削除</button>
@@ -842,13 +1035,18 @@ export default function DraftsPage() {
 
                 return (
                   <div key={d.id} className="compactItem">
-                    <Link href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`} className="cardTitle">
-                      {displayTitle}
-                    </Link>
+                    <div className="flex min-w-0 items-center gap-2">
+                      {renderSelectBox(d)}
+                      <Link href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`} className="cardTitle">
+                        {displayTitle}
+                        {d.variantLabel ? ` / ${d.variantLabel}` : ""}
+                      </Link>
+                    </div>
 
                     <div className="actionCluster justify-end">
                       {renderOrderButtons(d, index)}
                       {renderPhaseButtons(d)}
+                      {renderFamilyButtons(d)}
                       <button type="button" disabled={deleteBusyId === d.id} onClick={() => void softDeleteDraft(d.id)} className="smallActionButton">非表示</button>
                       {isAdmin ? (
                         <button type="button" disabled={deleteBusyId === d.id} onClick={() => void hardDeleteDraft(d.id)} className="smallActionButton border-red-300/25 bg-red-500/15 text-red-100">完全削除</button>
@@ -866,6 +1064,7 @@ export default function DraftsPage() {
 
                 return (
                   <div key={d.id} className="draftCard">
+                    <div className="absolute right-3 top-3 z-10">{renderSelectBox(d)}</div>
                     <Link href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`} className="cardImageLink">
                       <span className={`phaseBadge ${badgeClass}`}>{phaseLabel(d.phase)}</span>
                       {renderThumb(d)}
@@ -876,6 +1075,7 @@ export default function DraftsPage() {
                         {displayTitle}
                       </Link>
                       <div className="cardMeta">
+                        {d.variantLabel ? `${d.variantLabel} / ` : ""}
                         {d.ecTitle ? "EC商品タイトルを表示" : d.title ? "下書きタイトルを表示" : d.caption_final ? "生成文章を表示" : "商品名未入力"}
                       </div>
 
@@ -885,6 +1085,7 @@ export default function DraftsPage() {
                           {renderPhaseButtons(d)}
                         </div>
                         <div className="actionCluster justify-end">
+                          {renderFamilyButtons(d)}
                           <button type="button" disabled={deleteBusyId === d.id} onClick={() => void softDeleteDraft(d.id)} className="smallActionButton">非表示</button>
                           {isAdmin ? (
                             <button type="button" disabled={deleteBusyId === d.id} onClick={() => void hardDeleteDraft(d.id)} className="smallActionButton border-red-300/25 bg-red-500/15 text-red-100">完全削除</button>
@@ -899,6 +1100,53 @@ export default function DraftsPage() {
           )}
         </div>
       </div>
+
+      {duplicateSource ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <div className="w-full max-w-md rounded-2xl border border-white/15 bg-[#071a2e] p-5 text-white shadow-[0_24px_70px_rgba(0,0,0,0.5)]">
+            <div className="text-base font-black">下書きを複製</div>
+            <div className="mt-1 text-xs text-white/60">{resolveDisplayTitle(duplicateSource)}</div>
+
+            <label className="mt-4 block text-xs font-bold text-white/75">
+              バリエーション名（例：ブラック / Lサイズ）
+              <input
+                value={duplicateLabel}
+                onChange={(e) => setDuplicateLabel(e.target.value)}
+                maxLength={40}
+                className="mt-1 w-full rounded-lg border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none"
+              />
+            </label>
+
+            <div className="mt-4 text-xs font-bold text-white/75">引き継ぐ内容（外した項目は空で作ります）</div>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {DRAFT_CARRY_GROUP_KEYS.map((key) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-white/85">
+                  <input
+                    type="checkbox"
+                    checked={duplicateCarry[key]}
+                    onChange={(e) => setDuplicateCarry((prev) => ({ ...prev, [key]: e.target.checked }))}
+                  />
+                  {DRAFT_CARRY_GROUPS[key].label}
+                </label>
+              ))}
+            </div>
+
+            <div className="mt-5 flex justify-end gap-2">
+              <button type="button" disabled={duplicateBusy} onClick={() => setDuplicateSource(null)} className="smallActionButton">
+                やめる
+              </button>
+              <button
+                type="button"
+                disabled={duplicateBusy}
+                onClick={() => void duplicateDraft()}
+                className="smallActionButton border-blue-300/50 bg-blue-500/30 text-white"
+              >
+                {duplicateBusy ? "複製中..." : "複製して開く"}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
     </>
   );
 }
@@ -2,7 +2,7 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { onAuthStateChanged } from "firebase/auth";
 import {
   collection,
@@ -14,14 +14,17 @@ import {
 } from "firebase/firestore";
 import { auth, db } from "@/firebase";
 import { useToast } from "@/components/ToastProvider";
+import DraftBulkBar from "@/components/DraftBulkBar";
+import useBrandOptions from "@/lib/brand/useBrandOptions";
+import { brandDisplayName, normalizeBrandId } from "@/lib/brand/brands";
+import type { BrandId } from "@/lib/types/draft";
 
-type Brand = "vento" | "riva";
 type Phase = "draft" | "ready" | "posted";
 
 type DraftRow = {
   id: string;
   userId: string;
-  brand: Brand;
+  brand: BrandId;
   phase: Phase;
   vision: string;
   caption_final: string;
@@ -98,6 +101,10 @@ export default function InboxPage() {
 
   const [rows, setRows] = useState<DraftRow[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const brandOptions = useBrandOptions(uid);
+  const brandNames = useMemo(() => new Map(brandOptions.map((o) => [o.id, o.name])), [brandOptions]);
 
   useEffect(() => {
     const unsub = onAuthStateChanged(auth, (u) => {
@@ -131,7 +138,7 @@ export default function InboxPage() {
         const list: DraftRow[] = snap.docs.map((doc) => {
           const data = doc.data() as DocumentData;
 
-          const brand: Brand = data.brand === "riva" ? "riva" : "vento";
+          const brand = normalizeBrandId(data.brand ?? data.brandId);
           const phase: Phase =
             data.phase === "ready"
               ? "ready"
@@ -269,83 +276,102 @@ export default function InboxPage() {
             </div>
           ) : (
             <div className="space-y-3">
+              {/* 一覧は onSnapshot なので、一括操作後の表示更新は不要 */}
+              <DraftBulkBar
+                allIds={rows.map((row) => row.id)}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+              />
+
               {rows.map((d) => (
-                <Link
-                  key={d.id}
-                  href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`}
-                  className="block no-underline text-white/90 visited:text-white/90 hover:text-white"
-                >
-                  <div className="card">
-                    <div className="cardGrid">
-                      {/* ブランド */}
-                      <div
-                        className="rounded-xl bg-gradient-to-b from-[#f2f2f2] via-[#cfcfcf] to-[#9b9b9b] border border-black/25 flex items-center justify-center plate"
-                        style={{
-                          boxShadow:
-                            "inset 0 1px 0 rgba(255,255,255,0.7), inset 0 -10px 22px rgba(0,0,0,0.25), 0 8px 18px rgba(0,0,0,0.25)",
-                        }}
-                      >
-                        <span
+                <div key={d.id} className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(d.id)}
+                    onChange={() =>
+                      setSelectedIds((prev) =>
+                        prev.includes(d.id) ? prev.filter((id) => id !== d.id) : [...prev, d.id]
+                      )
+                    }
+                    className="h-4 w-4 shrink-0"
+                    title="一括操作の対象にする"
+                  />
+                  <Link
+                    href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`}
+                    className="block min-w-0 flex-1 no-underline text-white/90 visited:text-white/90 hover:text-white"
+                  >
+                    <div className="card">
+                      <div className="cardGrid">
+                        {/* ブランド */}
+                        <div
+                          className="rounded-xl bg-gradient-to-b from-[#f2f2f2] via-[#cfcfcf] to-[#9b9b9b] border border-black/25 flex items-center justify-center plate"
                           style={{
-                            fontSize: BRAND_PX,
-                            fontWeight: 900,
-                            letterSpacing: "0.30em",
-                            color: "#000",
+                            boxShadow:
+                              "inset 0 1px 0 rgba(255,255,255,0.7), inset 0 -10px 22px rgba(0,0,0,0.25), 0 8px 18px rgba(0,0,0,0.25)",
                           }}
                         >
-                          {(d.brand || "vento").toUpperCase()}
-                        </span>
-                      </div>
-
-                      {/* サムネ */}
-                      <div className="rounded-xl bg-white/6 overflow-hidden flex items-center justify-center ring-1 ring-white/10 thumb">
-                        {d.imageUrl ? (
-                          // eslint-disable-next-line @next/next/no-img-element
-                          <img
-                            src={d.imageUrl}
-                            alt="thumb"
-                            draggable={false}
+                          <span
                             style={{
-                              width: "100%",
-                              height: "100%",
-                              objectFit: "contain",
-                              display: "block",
+                              fontSize: BRAND_PX,
+                              fontWeight: 900,
+                              letterSpacing: "0.30em",
+                              color: "#000",
                             }}
-                          />
-                        ) : (
-                          <div className="text-xs text-white/40">NO IMAGE</div>
-                        )}
-                      </div>
+                          >
+                            {brandNames.get(d.brand) ?? brandDisplayName(d.brand)}
+                          </span>
+                        </div>
 
-                      {/* タイトル */}
-                      <div style={{ minWidth: 0 }}>
-                        <div
-                          className="title"
-                          style={{
-                            fontSize: TITLE_PX,
-                            fontWeight: 900,
-                            lineHeight: 1.15,
-                            color: "rgba(255,255,255,0.95)",
-                            whiteSpace: "nowrap",
-                            overflow: "hidden",
-                            textOverflow: "ellipsis",
-                          }}
-                        >
-                          {d.caption_final || d.vision || "（本文なし）"}
+                        {/* サムネ */}
+                        <div className="rounded-xl bg-white/6 overflow-hidden flex items-center justify-center ring-1 ring-white/10 thumb">
+                          {d.imageUrl ? (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img
+                              src={d.imageUrl}
+                              alt="thumb"
+                              draggable={false}
+                              style={{
+                                width: "100%",
+                                height: "100%",
+                                objectFit: "contain",
+                                display: "block",
+                              }}
+                            />
+                          ) : (
+                            <div className="text-xs text-white/40">NO IMAGE</div>
+                          )}
                         </div>
 
-                        <div className="mt-2 text-xs text-white/55">
-                          投稿待ち（READY）
+                        {/* タイトル */}
+                        <div style={{ minWidth: 0 }}>
+                          <div
+                            className="title"
+                            style={{
+                              fontSize: TITLE_PX,
+                              fontWeight: 900,
+                              lineHeight: 1.15,
+                              color: "rgba(255,255,255,0.95)",
+                              whiteSpace: "nowrap",
+                              overflow: "hidden",
+                              textOverflow: "ellipsis",
+                            }}
+                          >
+                            {d.caption_final || d.vision || "（本文なし）"}
+                          </div>
+
+                          <div className="mt-2 text-xs text-white/55">
+                            投稿待ち（READY）
+                          </div>
                         </div>
-                      </div>
 
-                      {/* 矢印（PCのみ） */}
-                      <div className="arrow text-xl text-white/35 group-hover:text-white/80 transition text-right">
-                        →
+                        {/* 矢印（PCのみ） */}
+                        <div className="arrow text-xl text-white/35 group-hover:text-white/80 transition text-right">
+                          →
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </Link>
+                  </Link>
+                </div>
               ))}
             </div>
           )}
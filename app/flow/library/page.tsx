@@ -9,6 +9,7 @@ import { onAuthStateChanged } from "firebase/auth";
 import { deleteObject, getDownloadURL, listAll, ref, uploadBytes } from "firebase/storage";
 import { auth, storage } from "@/firebase";
 import { useToast } from "@/components/ToastProvider";
+import useBackgroundQuality, { BACKGROUND_QUALITY_LABEL, backgroundQualityTitle } from "@/lib/image/useBackgroundQuality";
 
 type LibraryKind = "aiBackground" | "templateBackground" | "uploaded";
 
@@ -37,6 +38,10 @@ function kindLabel(kind: LibraryKind) {
   return "商品画像";
 }
 
+function isBackgroundKind(kind: LibraryKind) {
+  return kind === "aiBackground" || kind === "templateBackground";
+}
+
 function safeFileName(name: string) {
   return name.replace(/[^a-zA-Z0-9_.-]/g, "_");
 }
@@ -56,6 +61,7 @@ export default function ImageLibraryPage() {
   const [uploadKind, setUploadKind] = useState<LibraryKind>("uploaded");
   const [queryText, setQueryText] = useState("");
   const [sortMode, setSortMode] = useState<"new" | "name">("new");
+  const bgQuality = useBackgroundQuality();
 
   useEffect(() => {
     const unsub = onAuthStateChanged(auth, (u) => setUid(u?.uid ?? null));
@@ -165,6 +171,23 @@ export default function ImageLibraryPage() {
     }
   }
 
+  // 表示中の背景だけを採点します（AI背景生成と同じ採用スコア）。
+  async function scoreVisibleBackgrounds() {
+    const urls = visibleAssets.filter((asset) => isBackgroundKind(asset.kind)).slice(0, 48).map((asset) => asset.url);
+    if (urls.length === 0) {
+      toast.push("採点できる背景がありません");
+      return;
+    }
+
+    try {
+      const failed = await bgQuality.analyze(urls);
+      toast.push(failed > 0 ? `背景を採点しました（${failed}件は読み込めませんでした）` : "背景を採点しました");
+    } catch (e: any) {
+      console.error(e);
+      toast.push(`採点に失敗：${e?.message || "不明"}`);
+    }
+  }
+
   async function deleteAsset(asset: LibraryAsset) {
     if (!uid || !asset.sourcePath) return;
 
@@ -238,7 +261,10 @@ export default function ImageLibraryPage() {
             <input type="file" accept="image/*" multiple disabled={!uid || uploading} onChange={async (e) => { await uploadFiles(e.currentTarget.files); e.currentTarget.value = ""; }} style={{ display: "none" }} />
           </label>
         </div>
-        <button type="button" onClick={() => uid && loadLibrary(uid)} className="library-input" style={{ borderRadius: 14, padding: "10px 14px", fontWeight: 900 }}>再読み込み</button>
+        <div style={{ display: "flex", gap: 10 }}>
+          <button type="button" disabled={!uid || bgQuality.busy} onClick={() => void scoreVisibleBackgrounds()} className="library-input" style={{ borderRadius: 14, padding: "10px 14px", fontWeight: 900 }}>{bgQuality.busy ? "採点中..." : "背景を採点"}</button>
+          <button type="button" onClick={() => uid && loadLibrary(uid)} className="library-input" style={{ borderRadius: 14, padding: "10px 14px", fontWeight: 900 }}>再読み込み</button>
+        </div>
       </section>
 
       {loading ? (
@@ -247,21 +273,33 @@ export default function ImageLibraryPage() {
         <div className="library-glass" style={{ borderRadius: 24, padding: 24, color: "rgba(255,255,255,.7)" }}>まだ画像がありません。背景生成後、または手動アップロード後にここへ表示されます。</div>
       ) : (
         <section className="library-mini-grid">
-          {visibleAssets.map((asset) => (
-            <article key={asset.id} className="library-mini-card">
-              <a href={asset.url} target="_blank" rel="noreferrer" style={{ display: "block", position: "relative" }}>
-                <img src={asset.url} alt={asset.label} loading="lazy" decoding="async" className="library-mini-img" draggable={false} />
-                <span style={{ position: "absolute", left: 6, bottom: 6, borderRadius: 7, background: "rgba(0,0,0,.48)", padding: "3px 6px", fontSize: 10, fontWeight: 900 }}>{kindLabel(asset.kind)}</span>
-              </a>
-              <div style={{ padding: 8, display: "grid", gap: 6 }}>
-                <div title={asset.label} style={{ fontSize: 11, fontWeight: 900, color: "rgba(255,255,255,.9)", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{asset.label}</div>
-                <div style={{ display: "flex", gap: 5 }}>
-                  <a href={asset.url} download style={{ flex: 1, borderRadius: 999, border: "1px solid rgba(255,255,255,.12)", background: "rgba(255,255,255,.08)", color: "rgba(255,255,255,.78)", textAlign: "center", padding: "4px 6px", fontSize: 10, fontWeight: 900, textDecoration: "none" }}>表示</a>
-                  <button type="button" disabled={deletingPath === asset.sourcePath} onClick={() => void deleteAsset(asset)} style={{ flex: 1, borderRadius: 999, border: "1px solid rgba(248,113,113,.32)", background: "rgba(239,68,68,.16)", color: "#fecaca", padding: "4px 6px", fontSize: 10, fontWeight: 900 }}>削除</button>
+          {visibleAssets.map((asset) => {
+            const quality = bgQuality.qualityByUrl[asset.url];
+
+            return (
+              <article key={asset.id} className="library-mini-card">
+                <a href={asset.url} target="_blank" rel="noreferrer" title={quality ? backgroundQualityTitle(quality) : asset.label} style={{ display: "block", position: "relative" }}>
+                  <img src={asset.url} alt={asset.label} loading="lazy" decoding="async" className="library-mini-img" draggable={false} />
+                  <span style={{ position: "absolute", left: 6, bottom: 6, borderRadius: 7, background: "rgba(0,0,0,.48)", padding: "3px 6px", fontSize: 10, fontWeight: 900 }}>{kindLabel(asset.kind)}</span>
+                  {quality ? (
+                    <span style={{ position: "absolute", right: 6, top: 6, borderRadius: 7, background: quality.verdict === "accept" ? "rgba(16,185,129,.88)" : quality.verdict === "weak" ? "rgba(245,158,11,.88)" : "rgba(239,68,68,.88)", padding: "3px 6px", fontSize: 10, fontWeight: 900 }}>
+                      {Math.round(quality.acceptScore)}点・{BACKGROUND_QUALITY_LABEL[quality.verdict]}
+                    </span>
+                  ) : null}
+                </a>
+                <div style={{ padding: 8, display: "grid", gap: 6 }}>
+                  <div title={asset.label} style={{ fontSize: 11, fontWeight: 900, color: "rgba(255,255,255,.9)", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{asset.label}</div>
+                  <div style={{ display: "flex", gap: 5 }}>
+                    <a href={asset.url} download style={{ flex: 1, borderRadius: 999, border: "1px solid rgba(255,255,255,.12)", background: "rgba(255,255,255,.08)", color: "rgba(255,255,255,.78)", textAlign: "center", padding: "4px 6px", fontSize: 10, fontWeight: 900, textDecoration: "none" }}>表示</a>
+                    <button type="button" disabled={deletingPath === asset.sourcePath} onClick={() => void deleteAsset(asset)} style={{ flex: 1, borderRadius: 999, border: "1px solid rgba(248,113,113,.32)", background: "rgba(239,68,68,.16)", color: "#fecaca", padding: "4px 6px", fontSize: 10, fontWeight: 900 }}>削除</button>
+                  </div>
+                  {quality ? (
+                    <div title={quality.reasons.join("\n")} style={{ fontSize: 10, lineHeight: 1.4, color: "rgba(255,255,255,.6)", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{quality.reasons[0]}</div>
+                  ) : null}
                 </div>
-              </div>
-            </article>
-          ))}
+              </article>
+            );
+          })}
         </section>
       )}
     </div>
@@ -17,12 +17,22 @@ import {
 import { onAuthStateChanged } from "firebase/auth";
 import { db, auth } from "@/firebase";
 import { useToast } from "@/components/ToastProvider";
-import type { DraftOutcome, SellOutcomeStatus } from "@/lib/types/draft";
+import DraftBulkBar from "@/components/DraftBulkBar";
+import useBrandOptions from "@/lib/brand/useBrandOptions";
+import { brandDisplayName, normalizeBrandId } from "@/lib/brand/brands";
+import {
+  captionStyleLabel,
+  normalizeCaptionVariants,
+  syncPostedCaptionVariant,
+  type CaptionExperimentGroup,
+  type CaptionExperimentReport,
+} from "@/lib/drafts/captionExperiments";
+import type { BrandId, DraftOutcome, ImagePurpose, SellOutcomeStatus } from "@/lib/types/draft";
 
 type Draft = {
   id: string;
   userId: string;
-  brand: "vento" | "riva";
+  brand: BrandId;
   phase: "draft" | "ready" | "posted";
   vision: string;
   caption_final: string;
@@ -111,6 +121,13 @@ function normalizeOutcome(data: any): DraftOutcome | undefined {
     out.sellCheck = data.sellCheck;
   }
 
+  const postedCaptionSetId =
+    typeof data.postedCaptionSetId === "string" ? data.postedCaptionSetId.trim() : "";
+  const captionVariants = normalizeCaptionVariants(data.captionVariants);
+
+  if (postedCaptionSetId) out.postedCaptionSetId = postedCaptionSetId;
+  if (captionVariants.length > 0) out.captionVariants = captionVariants;
+
   return out;
 }
 
@@ -214,8 +231,16 @@ function OutcomeEditor(props: {
         nextOutcome.sellCheck = current.sellCheck;
       }
 
+      // 文章の A/B：投稿版の記録は残し、今の投稿版に今回の成果を写す
+      if (current?.postedCaptionSetId) {
+        nextOutcome.postedCaptionSetId = current.postedCaptionSetId;
+      }
+      if (current?.captionVariants?.length) {
+        nextOutcome.captionVariants = current.captionVariants;
+      }
+
       await updateDoc(doc(db, "drafts", draft.id), {
-        outcome: nextOutcome,
+        outcome: syncPostedCaptionVariant(nextOutcome),
         updatedAt: serverTimestamp(),
       });
 
@@ -358,6 +383,144 @@ function OutcomeEditor(props: {
   );
 }
 
+const PURPOSE_LABELS: Record<ImagePurpose, string> = {
+  sales: "販売",
+  branding: "ブランド",
+  trust: "信頼",
+  story: "物語",
+};
+
+function ExperimentGroupRow(props: { title: string; group: CaptionExperimentGroup }) {
+  const { title, group } = props;
+
+  return (
+    <div className="rounded-xl bg-black/25 px-3 py-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-black text-white/90">{title}</span>
+        <span className="text-white/45">投稿版 {group.variants}件</span>
+        {group.bestStyle ? (
+          <span className="rounded-full bg-white px-2 py-0.5 font-black text-black">
+            成果が良い型：{captionStyleLabel(group.bestStyle)}
+          </span>
+        ) : null}
+      </div>
+
+      <div className="mt-1 grid gap-1 text-xs text-white/65">
+        {group.styles.map((st) => (
+          <div key={st.style} className="flex flex-wrap gap-3">
+            <span className="w-16 font-black text-white/80">{captionStyleLabel(st.style)}</span>
+            <span>{st.variants}件</span>
+            <span>売れた {st.sold}件（{Math.round(st.soldRate * 100)}%）</span>
+            <span>平均 {st.averageSellDays ?? "—"}日</span>
+            <span>閲覧 {num(st.averageViews)}</span>
+            <span>いいね {num(st.averageLikes)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 文章の A/B のまとめ
+ * - 投稿版（下書き画面の「投稿した文章」）ごとの成果を、ブランド別 / 画像の目的別に集計する
+ */
+function CaptionExperimentReportCard(props: {
+  brandNames: Map<string, string>;
+  onError: (message: string) => void;
+}) {
+  const { brandNames, onError } = props;
+
+  const [loading, setLoading] = useState(false);
+  const [report, setReport] = useState<CaptionExperimentReport | null>(null);
+
+  async function loadReport() {
+    setLoading(true);
+
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) throw new Error("ログインしてください");
+
+      const res = await fetch("/api/captions/experiments", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data?.ok) {
+        throw new Error(data?.error || "集計に失敗しました");
+      }
+
+      setReport(data.report as CaptionExperimentReport);
+    } catch (e: any) {
+      console.error(e);
+      onError(e?.message || "集計に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/25 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="text-xs font-black text-white/70">文章 A/B の成果</div>
+          <div className="mt-1 text-xs text-white/55">
+            どの型の文章（販売寄り / ブランド / 物語）が売れたかを、ブランド別・画像の目的別にまとめます。
+          </div>
+        </div>
+
+        <button
+          type="button"
+          disabled={loading}
+          onClick={() => void loadReport()}
+          className="rounded-full border border-white/15 bg-white/10 px-4 py-2 text-xs font-black text-white disabled:opacity-50"
+        >
+          {loading ? "集計中..." : report ? "再集計" : "集計する"}
+        </button>
+      </div>
+
+      {report ? (
+        report.variantCount === 0 ? (
+          <div className="mt-3 text-xs text-white/55">
+            まだ記録がありません。下書き画面の「投稿した文章」で投稿版を選ぶと集計されます。
+          </div>
+        ) : (
+          <div className="mt-3 grid gap-3">
+            <div className="grid gap-2">
+              <div className="text-xs font-black text-white/60">ブランド別</div>
+              {report.byBrand.map((g) => (
+                <ExperimentGroupRow
+                  key={g.key}
+                  title={brandNames.get(g.brandId ?? "") ?? brandDisplayName(g.brandId)}
+                  group={g}
+                />
+              ))}
+            </div>
+
+            {report.byPurpose.length > 0 ? (
+              <div className="grid gap-2">
+                <div className="text-xs font-black text-white/60">画像の目的別</div>
+                {report.byPurpose.map((g) => (
+                  <ExperimentGroupRow
+                    key={g.key}
+                    title={g.imagePurpose ? PURPOSE_LABELS[g.imagePurpose] ?? g.imagePurpose : g.key}
+                    group={g}
+                  />
+                ))}
+              </div>
+            ) : null}
+          </div>
+        )
+      ) : null}
+    </div>
+  );
+}
+
 export default function PostedPage() {
   const toast = useToast();
 
@@ -366,6 +529,10 @@ export default function PostedPage() {
 
   const [rows, setRows] = useState<Draft[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const brandOptions = useBrandOptions(uid);
+  const brandNames = useMemo(() => new Map(brandOptions.map((o) => [o.id, o.name])), [brandOptions]);
 
   useEffect(() => {
     const unsub = onAuthStateChanged(auth, (u) => {
@@ -422,7 +589,7 @@ export default function PostedPage() {
           return {
             id: docSnap.id,
             userId: typeof data.userId === "string" ? data.userId : uid,
-            brand: data.brand === "riva" || data.brandId === "riva" ? "riva" : "vento",
+            brand: normalizeBrandId(data.brandId ?? data.brand),
             phase:
               data.phase === "ready"
                 ? "ready"
@@ -510,87 +677,118 @@ export default function PostedPage() {
             <div className="rounded-2xl border border-white/10 bg-black/25 p-6 text-sm text-white/70">
               ログインしてください。
             </div>
-          ) : posted.length === 0 ? (
+          ) : null}
+
+          {!authLoading && uid ? (
+            <div className="mb-3">
+              <CaptionExperimentReportCard
+                brandNames={brandNames}
+                onError={(message) => toast.push(message)}
+              />
+            </div>
+          ) : null}
+
+          {authLoading || !uid ? null : posted.length === 0 ? (
             <div className="rounded-2xl border border-white/10 bg-black/25 p-6 text-sm text-white/70">
               投稿済みがありません。「新規作成 → 投稿済みにする」で追加されます。
             </div>
           ) : (
             <div className="space-y-3">
+              {/* 一覧は onSnapshot なので、一括操作後の表示更新は不要 */}
+              <DraftBulkBar
+                allIds={posted.map((row) => row.id)}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+              />
+
               {posted.map((d) => (
                 <div key={d.id} className="postedCard">
-                  <Link
-                    href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`}
-                    className="block no-underline text-white/90 visited:text-white/90 hover:text-white"
-                  >
-                    <div className="postedGrid">
-                      <div
-                        className="flex items-center justify-center rounded-xl border border-black/25 bg-gradient-to-b from-[#f2f2f2] via-[#cfcfcf] to-[#9b9b9b] shadow-[inset_0_1px_0_rgba(255,255,255,0.7),inset_0_-10px_22px_rgba(0,0,0,0.25),0_8px_18px_rgba(0,0,0,0.25)]"
-                        style={{ height: UI.plateH }}
-                      >
-                        <span
-                          style={{
-                            fontSize: UI.brandPx,
-                            fontWeight: 900,
-                            letterSpacing: "0.30em",
-                            color: "#000",
-                          }}
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(d.id)}
+                      onChange={() =>
+                        setSelectedIds((prev) =>
+                          prev.includes(d.id) ? prev.filter((id) => id !== d.id) : [...prev, d.id]
+                        )
+                      }
+                      className="h-4 w-4 shrink-0"
+                      title="一括操作の対象にする"
+                    />
+                    <Link
+                      href={`/flow/drafts/new?id=${encodeURIComponent(d.id)}`}
+                      className="block min-w-0 flex-1 no-underline text-white/90 visited:text-white/90 hover:text-white"
+                    >
+                      <div className="postedGrid">
+                        <div
+                          className="flex items-center justify-center rounded-xl border border-black/25 bg-gradient-to-b from-[#f2f2f2] via-[#cfcfcf] to-[#9b9b9b] shadow-[inset_0_1px_0_rgba(255,255,255,0.7),inset_0_-10px_22px_rgba(0,0,0,0.25),0_8px_18px_rgba(0,0,0,0.25)]"
+                          style={{ height: UI.plateH }}
                         >
-                          {(d.brand || "vento").toUpperCase()}
-                        </span>
-                      </div>
-
-                      <div
-                        className="flex items-center justify-center overflow-hidden rounded-xl bg-white/6 ring-1 ring-white/10"
-                        style={{
-                          width: "100%",
-                          maxWidth: UI.thumbBox,
-                          height: UI.thumbBox,
-                          position: "relative",
-                        }}
-                      >
-                        {d.imageUrl ? (
-                          <img
-                            src={d.imageUrl}
-                            alt="thumb"
-                            draggable={false}
+                          <span
                             style={{
-                              width: "100%",
-                              height: "100%",
-                              objectFit: "contain",
-                              display: "block",
+                              fontSize: UI.brandPx,
+                              fontWeight: 900,
+                              letterSpacing: "0.30em",
+                              color: "#000",
                             }}
-                          />
-                        ) : (
-                          <div className="text-xs text-white/40">NO IMAGE</div>
-                        )}
-                      </div>
+                          >
+                            {brandNames.get(d.brand) ?? brandDisplayName(d.brand)}
+                          </span>
+                        </div>
 
-                      <div style={{ minWidth: 0 }}>
                         <div
+                          className="flex items-center justify-center overflow-hidden rounded-xl bg-white/6 ring-1 ring-white/10"
                           style={{
-                            fontSize: UI.titlePx,
-                            fontWeight: 900,
-                            lineHeight: 1.15,
-                            color: "rgba(255,255,255,0.95)",
-                            whiteSpace: "nowrap",
-                            overflow: "hidden",
-                            textOverflow: "ellipsis",
+                            width: "100%",
+                            maxWidth: UI.thumbBox,
+                            height: UI.thumbBox,
+                            position: "relative",
                           }}
                         >
-                          {safeTitle(d)}
+                          {d.imageUrl ? (
+                            <img
+                              src={d.imageUrl}
+                              alt="thumb"
+                              draggable={false}
+                              style={{
+                                width: "100%",
+                                height: "100%",
+                                objectFit: "contain",
+                                display: "block",
+                              }}
+                            />
+                          ) : (
+                            <div className="text-xs text-white/40">NO IMAGE</div>
+                          )}
                         </div>
 
-                        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-white/55">
-                          <span>投稿済み（POSTED）</span>
-                          <span>状態：{statusLabel(d.outcome?.status ?? "unknown")}</span>
+                        <div style={{ minWidth: 0 }}>
+                          <div
+                            style={{
+                              fontSize: UI.titlePx,
+                              fontWeight: 900,
+                              lineHeight: 1.15,
+                              color: "rgba(255,255,255,0.95)",
+                              whiteSpace: "nowrap",
+                              overflow: "hidden",
+                              textOverflow: "ellipsis",
+                            }}
+                          >
+                            {safeTitle(d)}
+                          </div>
+
+                          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-white/55">
+                            <span>投稿済み（POSTED）</span>
+                            <span>状態：{statusLabel(d.outcome?.status ?? "unknown")}</span>
+                          </div>
                         </div>
-                      </div>
 
-                      <div className="postedArrow text-xl text-white/35 transition group-hover:text-white/80">
-                        →
+                        <div className="postedArrow text-xl text-white/35 transition group-hover:text-white/80">
+                          →
+                        </div>
                       </div>
-                    </div>
-                  </Link>
+                    </Link>
+                  </div>
 
                   <div className="mt-3">
                     <OutcomeEditor
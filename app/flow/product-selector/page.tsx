@@ -1,9 +1,12 @@
 // /app/flow/product-selector/page.tsx
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { onAuthStateChanged } from "firebase/auth";
 import { auth } from "@/firebase";
+import useBrandOptions from "@/lib/brand/useBrandOptions";
+import { DEFAULT_BRAND_ID, withFallbackBrandOptions } from "@/lib/brand/brands";
 import {
   evaluateProductCandidate,
   type ProductSelectorAxis,
@@ -776,9 +779,20 @@ export default function ProductSelectorPage() {
     category: "",
     keywords: "",
     memo: "",
+    brandId: DEFAULT_BRAND_ID,
   });
 
-  const ruleResult = useMemo(() => evaluateProductCandidate(input), [input]);
+  // ブランド相性はブランド設定（researchProfile）の語で判定する
+  const [uid, setUid] = useState<string | null>(null);
+  useEffect(() => onAuthStateChanged(auth, (u) => setUid(u?.uid ?? null)), []);
+  const loadedBrandOptions = useBrandOptions(uid);
+  const brandOptions = useMemo(
+    () => withFallbackBrandOptions(loadedBrandOptions, [input.brandId]),
+    [loadedBrandOptions, input.brandId]
+  );
+  const brandProfile = brandOptions.find((o) => o.id === input.brandId)?.researchProfile;
+
+  const ruleResult = useMemo(() => evaluateProductCandidate(input, brandProfile), [input, brandProfile]);
   const [aiResult, setAiResult] = useState<ProductSelectorResult | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
   const [aiError, setAiError] = useState("");
@@ -983,6 +997,22 @@ export default function ProductSelectorPage() {
             </p>
 
             <div className="mt-5 space-y-4">
+              {brandOptions.length > 1 ? (
+                <Field label="相性を見るブランド" hint="ブランド設定の相性語で判定します">
+                  <select
+                    value={input.brandId ?? DEFAULT_BRAND_ID}
+                    onChange={(e) => patch("brandId", e.target.value)}
+                    className="w-full rounded-2xl border border-white/10 bg-black/30 px-4 py-3 text-sm font-bold text-white outline-none transition focus:border-cyan-200/45"
+                  >
+                    {brandOptions.map((o) => (
+                      <option key={o.id} value={o.id}>
+                        {o.name}
+                      </option>
+                    ))}
+                  </select>
+                </Field>
+              ) : null}
+
               <Field label="観測テーマ / 空気 / 候補名">
                 <TextInput
                   value={input.name}
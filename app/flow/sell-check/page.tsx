@@ -15,6 +15,8 @@ import {
   type DocumentData,
 } from "firebase/firestore";
 import { auth, db } from "@/firebase";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import type { BrandId } from "@/lib/types/draft";
 import type { SellCheckResult } from "@/lib/types/sellCheck";
 
 
@@ -223,7 +225,7 @@ type DraftOption = {
   id: string;
   title: string;
   phase: "draft" | "ready" | "posted";
-  brand: "vento" | "riva";
+  brand: BrandId;
   imageUrl: string;
   listedPrice?: number;
   condition?: string;
@@ -1205,7 +1207,7 @@ export default function SellCheckPage() {
             id: docSnap.id,
             title: resolveTitle(data),
             phase: normalizePhase(data.phase),
-            brand: data.brand === "riva" || data.brandId === "riva" ? "riva" : "vento",
+            brand: normalizeBrandId(data.brandId ?? data.brand),
             imageUrl,
             listedPrice: safeNumber((outcome as any).listedPrice),
             condition: safeString(data.condition),
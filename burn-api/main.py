@@ -4,7 +4,7 @@ import math
 import shutil
 import subprocess
 from pathlib import Path
-from typing import Optional, Literal
+from typing import List, Optional, Literal
 
 import httpx
 from fastapi import FastAPI, HTTPException
@@ -37,19 +37,81 @@ class Overlay(BaseModel):
     logoWidth: Optional[int] = 140
     logoOpacity: Optional[float] = 0.9
 
+    fontId: Optional[Literal["notoSans", "notoSerif"]] = None
+
+
+class BurnStyle(BaseModel):
+    # /burn-text-video の文字・帯・ロゴ（ブランドキット）。無ければ従来の白文字・黒帯
+    fontId: Optional[Literal["notoSans", "notoSerif"]] = None
+    fontColor: Optional[str] = "#FFFFFF"
+    fontWeight: Optional[Literal["normal", "bold"]] = "bold"
+    boxEnabled: Optional[bool] = True
+    boxColor: Optional[str] = "#000000"
+    boxOpacity: Optional[float] = 0.48
+    logoUrl: Optional[str] = ""
+    logoEnabled: Optional[bool] = False
+    logoPosition: Optional[Literal["top", "center", "bottom", "leftBottom", "rightBottom"]] = "top"
+    logoWidth: Optional[int] = 140
+    logoOpacity: Optional[float] = 0.9
+
+
+class AudioTrack(BaseModel):
+    # lib/video/audioTrack.ts の VideoAudioTrack と同じ項目（Next 側で正規化済み）
+    url: str
+    startSec: Optional[float] = 0
+    durationSec: Optional[float] = None
+    fadeInSec: Optional[float] = 0
+    fadeOutSec: Optional[float] = 0
+    loudnessLufs: Optional[float] = -14
+
+
+class CaptionStyle(BaseModel):
+    fontId: Optional[Literal["notoSans", "notoSerif"]] = None
+    fontSize: Optional[int] = 42
+    fontColor: Optional[str] = "#FFFFFF"
+    boxEnabled: Optional[bool] = True
+    boxColor: Optional[str] = "#000000"
+    boxOpacity: Optional[float] = 0.45
+
+
+class CaptionCue(BaseModel):
+    # lib/video/captions.ts の CaptionCue と同じ項目（Next 側で正規化済み）
+    text: str
+    startSec: float
+    endSec: float
+    position: Optional[Literal["top", "center", "bottom", "leftBottom", "rightBottom"]] = "bottom"
+    animation: Optional[Literal["none", "fade", "slide", "typewriter"]] = "fade"
+
 
 class BurnRequest(BaseModel):
     videoUrl: str
     text: Optional[str] = ""
     fontSize: Optional[int] = 48
     y: Optional[float] = 70
-    seconds: Optional[float] = 6
+    # 無ければ動画の実際の長さ（ffprobe）を使う
+    seconds: Optional[float] = None
+    style: Optional[BurnStyle] = None
+    audio: Optional[AudioTrack] = None
+    cues: Optional[List[CaptionCue]] = None
+    captionStyle: Optional[CaptionStyle] = None
 
 
 class CmBurnRequest(BaseModel):
     videoUrl: str
     overlay: Overlay
     seconds: Optional[float] = 5
+    audio: Optional[AudioTrack] = None
+    cues: Optional[List[CaptionCue]] = None
+    captionStyle: Optional[CaptionStyle] = None
+
+
+# 字幕の出方（秒）と、タイプ表示で作る画像の最大枚数
+CAPTION_ANIMATION_SEC = 0.35
+CAPTION_TYPEWRITER_MAX_STEPS = 12
+CAPTION_MAX_CUES = 20
+
+# 焼き込む動画の最大秒数（タイムライン動画の合計上限 TIMELINE_LIMITS.maxTotalSeconds と同じ）
+BURN_MAX_SECONDS = 30
 
 
 def clamp_number(value, fallback, min_value, max_value):
@@ -87,8 +149,40 @@ def with_opacity(rgba, opacity: float):
     return (rgba[0], rgba[1], rgba[2], o)
 
 
-def find_japanese_font():
+# ブランドキットの書体（lib/brand/brandKit.ts の BRAND_FONTS と同じ id）
+# fonts-noto-cjk（Dockerfile）に Sans / Serif の Regular・Bold が入っている
+FONT_FILES = {
+    "notoSans": {
+        "normal": [
+            "/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc",
+            "/usr/share/fonts/truetype/noto/NotoSansCJK-Regular.ttc",
+        ],
+        "bold": [
+            "/usr/share/fonts/opentype/noto/NotoSansCJK-Bold.ttc",
+            "/usr/share/fonts/truetype/noto/NotoSansCJK-Bold.ttc",
+        ],
+    },
+    "notoSerif": {
+        "normal": [
+            "/usr/share/fonts/opentype/noto/NotoSerifCJK-Regular.ttc",
+            "/usr/share/fonts/truetype/noto/NotoSerifCJK-Regular.ttc",
+        ],
+        "bold": [
+            "/usr/share/fonts/opentype/noto/NotoSerifCJK-Bold.ttc",
+            "/usr/share/fonts/truetype/noto/NotoSerifCJK-Bold.ttc",
+        ],
+    },
+}
+
+
+def find_japanese_font(font_id: Optional[str] = None, font_weight: Optional[str] = None):
+    # 指定書体 → 従来の Noto Sans → DejaVu の順に探す
+    family = FONT_FILES.get(font_id or "", {})
+    weight = "normal" if font_weight == "normal" else "bold"
+
     candidates = [
+        *family.get(weight, []),
+        *family.get("normal", []),
         "/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc",
         "/usr/share/fonts/opentype/noto/NotoSansCJK-Bold.ttc",
         "/usr/share/fonts/truetype/noto/NotoSansCJK-Regular.ttc",
@@ -102,8 +196,8 @@ def find_japanese_font():
     return None
 
 
-def load_font(size: int):
-    font_path = find_japanese_font()
+def load_font(size: int, font_id: Optional[str] = None, font_weight: Optional[str] = None):
+    font_path = find_japanese_font(font_id, font_weight)
     if font_path:
         return ImageFont.truetype(font_path, size=size)
 
@@ -155,6 +249,55 @@ def ffprobe_size(video_path: Path):
     return int(w), int(h)
 
 
+def ffprobe_duration(video_path: Path):
+    cmd = [
+        "ffprobe",
+        "-v",
+        "error",
+        "-show_entries",
+        "format=duration",
+        "-of",
+        "default=noprint_wrappers=1:nokey=1",
+        str(video_path),
+    ]
+
+    result = subprocess.run(cmd, capture_output=True, text=True)
+
+    if result.returncode != 0:
+        return None
+
+    try:
+        return float(result.stdout.strip())
+    except Exception:
+        return None
+
+
+def build_audio_filter(audio: AudioTrack, video_seconds: float):
+    # lib/video/audioTrack.ts の buildAudioFilter と同じ並び（頭出し → 長さ → フェード → 音量 → 無音で埋める）
+    seconds = max(0.1, video_seconds)
+    if audio.durationSec:
+        seconds = min(seconds, clamp_number(audio.durationSec, seconds, 1, 60))
+
+    start = clamp_number(audio.startSec, 0, 0, 600)
+    fade_in = min(clamp_number(audio.fadeInSec, 0, 0, 5), seconds / 2)
+    fade_out = min(clamp_number(audio.fadeOutSec, 0, 0, 5), seconds / 2)
+    loudness = round(clamp_number(audio.loudnessLufs, -14, -24, -9))
+
+    filters = [
+        f"atrim=start={start:.2f}:duration={seconds:.2f}",
+        "asetpts=PTS-STARTPTS",
+    ]
+    if fade_in > 0:
+        filters.append(f"afade=t=in:st=0:d={fade_in:.2f}")
+    if fade_out > 0:
+        filters.append(f"afade=t=out:st={seconds - fade_out:.2f}:d={fade_out:.2f}")
+    filters.append(f"loudnorm=I={loudness}:TP=-1.5:LRA=11")
+    filters.append("aresample=48000")
+    filters.append("apad")
+
+    return ",".join(filters)
+
+
 def text_position(position: str, width: int, height: int, box_w: int, box_h: int):
     margin_x = int(width * 0.07)
     margin_y = int(height * 0.10)
@@ -205,7 +348,10 @@ def draw_text_overlay(
     box_enabled: bool,
     box_color: str,
     box_opacity: float,
+    reveal_chars: Optional[int] = None,
+    font_id: Optional[str] = None,
 ):
+    # reveal_chars：タイプ表示用。帯と文字の位置は全文で決め、先頭から指定文字数だけ描く
     overlay = Image.new("RGBA", (width, height), (0, 0, 0, 0))
     draw = ImageDraw.Draw(overlay)
 
@@ -215,7 +361,7 @@ def draw_text_overlay(
         return overlay
 
     size = int(clamp_number(font_size, 42, 12, 180))
-    font = load_font(size)
+    font = load_font(size, font_id, font_weight)
 
     line_gap = int(size * clamp_number(line_height, 1.25, 0.8, 2.5))
     padding_x = int(size * 0.85)
@@ -244,20 +390,27 @@ def draw_text_overlay(
     stroke_w = max(2, int(size * 0.09))
 
     current_y = box_y + padding_y
+    remaining = reveal_chars
 
     for line in lines:
         bbox = draw.textbbox((0, 0), line, font=font, stroke_width=stroke_w)
         tw = bbox[2] - bbox[0]
         x = box_x + int((box_w - tw) / 2)
 
-        draw.text(
-            (x, current_y),
-            line,
-            font=font,
-            fill=fill,
-            stroke_width=stroke_w,
-            stroke_fill=(0, 0, 0, 255),
-        )
+        visible = line
+        if remaining is not None:
+            visible = line[: max(0, remaining)]
+            remaining -= len(line)
+
+        if visible:
+            draw.text(
+                (x, current_y),
+                visible,
+                font=font,
+                fill=fill,
+                stroke_width=stroke_w,
+                stroke_fill=(0, 0, 0, 255),
+            )
 
         current_y += line_gap
 
@@ -289,22 +442,152 @@ async def paste_logo_if_needed(base: Image.Image, logo_url: str, logo_enabled: b
     return base
 
 
-def run_simple_overlay(input_path: Path, overlay_path: Path, output_path: Path, seconds: float):
-    duration = clamp_number(seconds, 6, 1, 20)
+def build_caption_layers(
+    cues: List[CaptionCue],
+    style: Optional[CaptionStyle],
+    width: int,
+    height: int,
+    duration: float,
+    work_dir: Path,
+):
+    # 字幕1行ごとに透過PNGを作り、表示する時間と出方を付けたレイヤーにする
+    style = style or CaptionStyle()
+    layers = []
+
+    for i, cue in enumerate(cues[:CAPTION_MAX_CUES]):
+        start = clamp_number(cue.startSec, 0, 0, duration)
+        end = clamp_number(cue.endSec, start + 0.3, start, duration)
+
+        if end - start < 0.1:
+            continue
+
+        common = dict(
+            width=width,
+            height=height,
+            text=cue.text,
+            font_size=int(clamp_number(style.fontSize, 42, 12, 160)),
+            position=cue.position or "bottom",
+            font_color=style.fontColor or "#FFFFFF",
+            font_weight="bold",
+            line_height=1.25,
+            font_id=style.fontId,
+            box_enabled=style.boxEnabled is not False,
+            box_color=style.boxColor or "#000000",
+            box_opacity=clamp_number(style.boxOpacity, 0.45, 0, 1),
+        )
+
+        animation = cue.animation or "fade"
+        ease = min(CAPTION_ANIMATION_SEC, (end - start) / 3)
+
+        if animation == "typewriter":
+            total_chars = sum(len(line) for line in safe_lines(cue.text))
+            steps = max(1, min(CAPTION_TYPEWRITER_MAX_STEPS, total_chars))
+            typing = min(1.2, (end - start) * 0.5)
+
+            for k in range(steps):
+                layer_path = work_dir / f"cue_{i}_{k}.png"
+                chars = math.ceil(total_chars * (k + 1) / steps)
+                draw_text_overlay(**common, reveal_chars=chars).save(layer_path)
+
+                last = k == steps - 1
+                layers.append({
+                    "path": layer_path,
+                    "start": start + typing * k / steps,
+                    "end": end if last else start + typing * (k + 1) / steps,
+                    "fade_in": 0,
+                    "fade_out": ease if last else 0,
+                    "slide": 0,
+                })
+            continue
+
+        layer_path = work_dir / f"cue_{i}.png"
+        draw_text_overlay(**common).save(layer_path)
+
+        fades = animation in ("fade", "slide")
+        layers.append({
+            "path": layer_path,
+            "start": start,
+            "end": end,
+            "fade_in": ease if fades else 0,
+            "fade_out": ease if fades else 0,
+            "slide": ease if animation == "slide" else 0,
+        })
+
+    return layers
+
+
+def static_layer(image: Image.Image, path: Path):
+    # 動画全体に出す文字・ロゴ（何も描かれていなければ None）
+    if image.getbbox() is None:
+        return None
+
+    image.save(path)
+    return {"path": path, "start": None, "end": None, "fade_in": 0, "fade_out": 0, "slide": 0}
+
+
+def run_layered_overlay(
+    input_path: Path,
+    layers: list,
+    output_path: Path,
+    seconds: float,
+    audio: Optional[AudioTrack] = None,
+    audio_path: Optional[Path] = None,
+):
+    duration = clamp_number(seconds, 6, 1, BURN_MAX_SECONDS)
+
+    if audio and audio_path:
+        # 音を付ける時は、動画より長く音だけ鳴り続けないよう実際の長さに合わせる
+        video_duration = ffprobe_duration(input_path)
+        if video_duration:
+            duration = min(duration, video_duration)
+
+    inputs = ["-i", str(input_path)]
+    chains = []
+    current = "0:v"
+
+    for i, layer in enumerate(layers):
+        # 画像は動画の長さぶん繰り返し入力にする（フェードを時間で掛けるため）
+        inputs += ["-loop", "1", "-t", f"{duration:.3f}", "-i", str(layer["path"])]
+
+        filters = ["format=rgba"]
+        if layer["fade_in"] > 0:
+            filters.append(f"fade=t=in:st={layer['start']:.3f}:d={layer['fade_in']:.3f}:alpha=1")
+        if layer["fade_out"] > 0:
+            filters.append(f"fade=t=out:st={layer['end'] - layer['fade_out']:.3f}:d={layer['fade_out']:.3f}:alpha=1")
+        chains.append(f"[{i + 1}:v]{','.join(filters)}[l{i}]")
+
+        y = "0"
+        if layer["slide"] > 0:
+            # 少し下から定位置へ上がってくる
+            y = f"'(1-min(1,max(0,(t-{layer['start']:.3f})/{layer['slide']:.3f})))*H*0.06'"
+
+        enable = ""
+        if layer["start"] is not None:
+            enable = f":enable='between(t,{layer['start']:.3f},{layer['end']:.3f})'"
+
+        chains.append(f"[{current}][l{i}]overlay=0:{y}{enable}[v{i}]")
+        current = f"v{i}"
+
+    if not layers:
+        chains.append("[0:v]null[v0]")
+        current = "v0"
+
+    audio_map = "0:a?"
+    if audio and audio_path:
+        inputs += ["-i", str(audio_path)]
+        chains.append(f"[{len(layers) + 1}:a]{build_audio_filter(audio, duration)}[a]")
+        audio_map = "[a]"
 
     cmd = [
         "ffmpeg",
         "-y",
-        "-i",
-        str(input_path),
-        "-i",
-        str(overlay_path),
+        *inputs,
         "-filter_complex",
-        "[0:v][1:v]overlay=0:0[v]",
+        ";".join(chains),
         "-map",
-        "[v]",
+        f"[{current}]",
         "-map",
-        "0:a?",
+        audio_map,
         "-t",
         str(duration),
         "-c:v",
@@ -322,7 +605,7 @@ def run_simple_overlay(input_path: Path, overlay_path: Path, output_path: Path,
         str(output_path),
     ]
 
-    result = subprocess.run(cmd, capture_output=True, text=True, timeout=120)
+    result = subprocess.run(cmd, capture_output=True, text=True, timeout=180)
 
     if result.returncode != 0:
         raise HTTPException(status_code=500, detail=f"ffmpeg failed: {result.stderr}")
@@ -357,23 +640,46 @@ async def burn_text_video(body: BurnRequest):
         elif 30 < y_percent < 65:
             position = "center"
 
+        style = body.style or BurnStyle()
+
         overlay = draw_text_overlay(
             width=width,
             height=height,
             text=body.text or "",
             font_size=int(clamp_number(body.fontSize, 48, 10, 200)),
             position=position,
-            font_color="#FFFFFF",
-            font_weight="bold",
+            font_color=style.fontColor or "#FFFFFF",
+            font_weight=style.fontWeight or "bold",
             line_height=1.25,
-            box_enabled=True,
-            box_color="#000000",
-            box_opacity=0.48,
+            box_enabled=style.boxEnabled is not False,
+            box_color=style.boxColor or "#000000",
+            box_opacity=clamp_number(style.boxOpacity, 0.48, 0, 1),
+            font_id=style.fontId,
+        )
+
+        overlay = await paste_logo_if_needed(
+            base=overlay,
+            logo_url=style.logoUrl or "",
+            logo_enabled=style.logoEnabled is True,
+            logo_position_name=style.logoPosition or "top",
+            logo_width=int(clamp_number(style.logoWidth, 140, 24, 600)),
+            logo_opacity=clamp_number(style.logoOpacity, 0.9, 0, 1),
+            work_dir=work_dir,
         )
 
-        overlay.save(overlay_path)
+        seconds = clamp_number(body.seconds or ffprobe_duration(input_path) or 6, 6, 1, BURN_MAX_SECONDS)
+        layers = [layer for layer in [static_layer(overlay, overlay_path)] if layer]
+        layers += build_caption_layers(body.cues or [], body.captionStyle, width, height, seconds, work_dir)
 
-        run_simple_overlay(input_path, overlay_path, output_path, body.seconds or 6)
+        if not layers:
+            raise HTTPException(status_code=400, detail="焼き込む文字がありません")
+
+        audio_path = None
+        if body.audio:
+            audio_path = work_dir / "audio_input"
+            await download_file(body.audio.url, audio_path)
+
+        run_layered_overlay(input_path, layers, output_path, seconds, body.audio, audio_path)
 
         return FileResponse(
             path=str(output_path),
@@ -412,6 +718,7 @@ async def cm_burn_overlay(body: CmBurnRequest):
             box_enabled=ov.boxEnabled is not False,
             box_color=ov.boxColor or "#000000",
             box_opacity=clamp_number(ov.boxOpacity, 0.45, 0, 1),
+            font_id=ov.fontId,
         )
 
         canvas = await paste_logo_if_needed(
@@ -424,9 +731,19 @@ async def cm_burn_overlay(body: CmBurnRequest):
             work_dir=work_dir,
         )
 
-        canvas.save(overlay_path)
+        seconds = body.seconds or 5
+        layers = [layer for layer in [static_layer(canvas, overlay_path)] if layer]
+        layers += build_caption_layers(body.cues or [], body.captionStyle, width, height, clamp_number(seconds, 5, 1, BURN_MAX_SECONDS), work_dir)
+
+        if not layers:
+            raise HTTPException(status_code=400, detail="焼き込む文字・ロゴがありません")
+
+        audio_path = None
+        if body.audio:
+            audio_path = work_dir / "audio_input"
+            await download_file(body.audio.url, audio_path)
 
-        run_simple_overlay(input_path, overlay_path, output_path, body.seconds or 5)
+        run_layered_overlay(input_path, layers, output_path, seconds, body.audio, audio_path)
 
         return FileResponse(
             path=str(output_path),
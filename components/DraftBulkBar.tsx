@@ -0,0 +1,239 @@
+// /components/DraftBulkBar.tsx
+"use client";
+
+import React, { useState } from "react";
+import { auth } from "@/firebase";
+import { useToast } from "@/components/ToastProvider";
+import type { DraftBulkAction, DraftBulkResult } from "@/lib/drafts/draftBulk";
+import { EXPORT_PRESETS, EXPORT_TARGETS, type ExportTarget } from "@/lib/drafts/exportPresets";
+import type { Phase } from "@/lib/types/draft";
+
+/**
+ * 下書きの一括操作バー（下書き一覧 / 投稿待ち / 投稿済みで共通）
+ *
+ * ✅ 選択中の下書きに対して
+ * - 状態変更（作成中 / 投稿中 / 投稿済み）
+ * - 一覧から非表示
+ * - 文章の作り直し
+ * - 出品先別 ZIP のまとめて書き出し
+ * - 完全削除（管理者のみ / /api/drafts/delete）
+ * ✅ 結果は下書きごとに出し、失敗した物だけ理由を並べる
+ */
+
+type BulkDoneAction = DraftBulkAction | "delete";
+
+type Props = {
+  allIds: string[];
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  isAdmin?: boolean;
+  /** 一覧側の表示を更新するため、成功した下書きIDを返す */
+  onDone?: (action: BulkDoneAction, succeededIds: string[], phase?: Phase) => void;
+};
+
+const PHASES: Array<{ value: Phase; label: string }> = [
+  { value: "draft", label: "作成中" },
+  { value: "ready", label: "投稿中" },
+  { value: "posted", label: "投稿済み" },
+];
+
+const ACTION_LABEL: Record<BulkDoneAction, string> = {
+  phase: "状態変更",
+  hide: "非表示",
+  captions: "文章の作り直し",
+  export: "書き出し",
+  delete: "完全削除",
+};
+
+const BUTTON =
+  "rounded-full border border-white/15 bg-white/10 px-3 py-1.5 text-xs font-black text-white/85 transition hover:bg-white/20 disabled:opacity-40";
+
+export default function DraftBulkBar({ allIds, selectedIds, onSelectionChange, isAdmin, onDone }: Props) {
+  const toast = useToast();
+  const [running, setRunning] = useState<BulkDoneAction | null>(null);
+  const [exportTarget, setExportTarget] = useState<ExportTarget>("mercari");
+  const [failures, setFailures] = useState<DraftBulkResult[]>([]);
+
+  const count = selectedIds.length;
+  const allSelected = allIds.length > 0 && allIds.every((id) => selectedIds.includes(id));
+
+  async function post(path: string, body: Record<string, unknown>) {
+    const token = await auth.currentUser?.getIdToken(true);
+    if (!token) throw new Error("ログインが必要です");
+
+    return fetch(path, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  function finish(action: BulkDoneAction, results: DraftBulkResult[], phase?: Phase) {
+    const succeededIds = results.filter((r) => r.ok).map((r) => r.draftId);
+    const failed = results.filter((r) => !r.ok);
+
+    setFailures(failed);
+    toast.push(
+      failed.length
+        ? `${ACTION_LABEL[action]}：${succeededIds.length} 件成功 / ${failed.length} 件失敗`
+        : `${ACTION_LABEL[action]}：${succeededIds.length} 件完了しました`
+    );
+
+    onDone?.(action, succeededIds, phase);
+    onSelectionChange(selectedIds.filter((id) => failed.some((r) => r.draftId === id)));
+  }
+
+  async function run(action: DraftBulkAction | "delete", extra: { phase?: Phase } = {}) {
+    if (!count || running) return;
+
+    if (action === "delete") {
+      const ok = window.confirm(
+        `選択中の ${count} 件を完全削除します。\nFirestore上の下書きデータを削除します。\nこの操作は戻せません。`
+      );
+      if (!ok) return;
+    }
+    if (action === "captions") {
+      const ok = window.confirm(`選択中の ${count} 件の文章を作り直します。以前の文章は各下書きの編集履歴から戻せます。`);
+      if (!ok) return;
+    }
+
+    setRunning(action);
+    setFailures([]);
+
+    try {
+      if (action === "export") {
+        const res = await post("/api/drafts/bulk", { action, draftIds: selectedIds, target: exportTarget });
+
+        if (!res.ok) {
+          const json = await res.json().catch(() => ({}));
+          if (Array.isArray(json?.results)) setFailures(json.results.filter((r: DraftBulkResult) => !r.ok));
+          throw new Error(json?.error || "書き出しに失敗しました");
+        }
+
+        const blob = await res.blob();
+        const objectUrl = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = objectUrl;
+        a.download = `aoi_${exportTarget}_bulk.zip`;
+        a.click();
+        URL.revokeObjectURL(objectUrl);
+
+        const succeeded = Number(res.headers.get("X-Bulk-Succeeded") || 0);
+        const failed = Number(res.headers.get("X-Bulk-Failed") || 0);
+        toast.push(
+          failed
+            ? `書き出し：${succeeded} 件成功 / ${failed} 件失敗（理由は ZIP 内の results.json）`
+            : `書き出し：${succeeded} 件をまとめました`
+        );
+        return;
+      }
+
+      const res =
+        action === "delete"
+          ? await post("/api/drafts/delete", { draftIds: selectedIds })
+          : await post("/api/drafts/bulk", { action, draftIds: selectedIds, ...extra });
+
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.ok) {
+        throw new Error(json?.error || `${ACTION_LABEL[action]}に失敗しました`);
+      }
+
+      finish(action, Array.isArray(json.results) ? json.results : [], extra.phase);
+    } catch (e) {
+      console.error(e);
+      toast.push(e instanceof Error ? e.message : `${ACTION_LABEL[action]}に失敗しました`);
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  const busy = running !== null;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/25 p-3 text-white">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-xs font-black text-white/80">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            disabled={!allIds.length || busy}
+            onChange={(e) => onSelectionChange(e.target.checked ? allIds : [])}
+          />
+          すべて選択
+        </label>
+
+        <span className="text-xs text-white/60">{count} 件選択中</span>
+
+        {count > 0 ? (
+          <>
+            <span className="mx-1 h-4 w-px bg-white/15" />
+
+            {PHASES.map((phase) => (
+              <button
+                key={phase.value}
+                type="button"
+                disabled={busy}
+                onClick={() => void run("phase", { phase: phase.value })}
+                className={BUTTON}
+              >
+                {phase.label}にする
+              </button>
+            ))}
+
+            <button type="button" disabled={busy} onClick={() => void run("hide")} className={BUTTON}>
+              非表示
+            </button>
+
+            <button type="button" disabled={busy} onClick={() => void run("captions")} className={BUTTON}>
+              {running === "captions" ? "文章を作成中..." : "文章を作り直す"}
+            </button>
+
+            <select
+              value={exportTarget}
+              disabled={busy}
+              onChange={(e) => setExportTarget(e.target.value as ExportTarget)}
+              className="rounded-full border border-white/15 bg-black/40 px-3 py-1.5 text-xs font-black text-white/85"
+            >
+              {EXPORT_TARGETS.map((target) => (
+                <option key={target} value={target}>
+                  {EXPORT_PRESETS[target].label}
+                </option>
+              ))}
+            </select>
+            <button type="button" disabled={busy} onClick={() => void run("export")} className={BUTTON}>
+              {running === "export" ? "書き出し中..." : "ZIPで書き出す"}
+            </button>
+
+            {isAdmin ? (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => void run("delete")}
+                className={`${BUTTON} border-red-300/25 bg-red-500/15 text-red-100`}
+              >
+                完全削除
+              </button>
+            ) : null}
+
+            <button type="button" disabled={busy} onClick={() => onSelectionChange([])} className={BUTTON}>
+              選択解除
+            </button>
+          </>
+        ) : null}
+      </div>
+
+      {failures.length ? (
+        <div className="mt-2 space-y-1 text-xs text-red-100/85">
+          {failures.map((r) => (
+            <div key={r.draftId}>
+              {r.draftId}：{r.error || "失敗"}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -5,13 +5,20 @@
 
 import React, { useEffect, useRef, useState } from "react";
 import { auth } from "@/firebase";
+import CaptionCuesEditor from "@/components/video/CaptionCuesEditor";
+import VideoAudioTrackCard from "@/components/video/VideoAudioTrackCard";
+import { captionStyleFromBrandKit, cmOverlayFromBrandKit, normalizeBrandFontId } from "@/lib/brand/brandKit";
 import type {
+  BrandKit,
   CmOverlay,
   CmOverlayPosition,
   CmVideo,
   CmVideoPersona,
   CmVideoStatus,
+  ShortCopy,
   UiVideoSize,
+  VideoAudioTrack,
+  VideoCaptionTrack,
   VideoQuality,
   VideoSeconds,
 } from "@/lib/types/draft";
@@ -21,6 +28,8 @@ export type BrandCMPanelProps = {
   draftId: string | null;
   idToken: string | null;
   brandId: string;
+  /** 文字・ロゴ・字幕の初期値（保存済みの設定が無い時に使う） */
+  brandKit?: BrandKit | null;
   saveDraft: (partial?: any) => Promise<any>;
   initial?: {
     philosophy?: string;
@@ -32,6 +41,9 @@ export type BrandCMPanelProps = {
     runwayTaskId?: string;
     runwayStatus?: any;
     runwayVideoUrl?: string;
+    /** 字幕を自動で並べる元（投稿文 / 短いコピー） */
+    ig3?: string[];
+    shortCopies?: ShortCopy[];
   };
   busy?: boolean;
   showMsg?: (s: string) => void;
@@ -168,6 +180,8 @@ function buildOverlay(input?: Partial<CmOverlay> | null): CmOverlay {
     logoPosition: normalizePosition(input?.logoPosition),
     logoWidth: Number.isFinite(Number(input?.logoWidth)) ? Number(input?.logoWidth) : 140,
     logoOpacity: Number.isFinite(Number(input?.logoOpacity)) ? Number(input?.logoOpacity) : 0.9,
+
+    ...(input?.fontId ? { fontId: normalizeBrandFontId(input.fontId) } : {}),
   };
 }
 
@@ -243,7 +257,7 @@ function LiveColorPicker(props: {
 }
 
 export default function BrandCMPanel(props: BrandCMPanelProps) {
-  const { uid, draftId, idToken, brandId, saveDraft, initial, busy, showMsg } = props;
+  const { uid, draftId, idToken, brandId, brandKit, saveDraft, initial, busy, showMsg } = props;
 
   const [philosophy, setPhilosophy] = useState(safeText(initial?.philosophy));
   const [keywordsText, setKeywordsText] = useState(safeText(initial?.keywordsText));
@@ -317,6 +331,15 @@ const isAdmin = !!uid && adminUids.includes(uid);
   );
 
   const [overlay, setOverlay] = useState<CmOverlay>(buildOverlay(initCmVideo.overlay));
+  const hasSavedOverlay = !!initCmVideo.overlay;
+
+  // 文字設定をまだ保存していない下書きは、ブランドキットの書体・配色・ロゴで始める
+  useEffect(() => {
+    if (!brandKit || hasSavedOverlay) return;
+    setOverlay((prev) => cmOverlayFromBrandKit(brandKit, prev));
+  }, [brandKit, hasSavedOverlay]);
+  const [audio, setAudio] = useState<VideoAudioTrack | null>(initCmVideo.audio ?? null);
+  const [captions, setCaptions] = useState<VideoCaptionTrack | null>(initCmVideo.captions ?? null);
 
   const [localBusy, setLocalBusy] = useState(false);
   const [downloadBusy, setDownloadBusy] = useState(false);
@@ -417,6 +440,9 @@ function applyColorPreset(preset: (typeof COLOR_PRESETS)[number]) {
         : Array.isArray(initCmVideo.overlayUrls)
           ? initCmVideo.overlayUrls.map((x) => safeText(x)).filter(Boolean).slice(0, 10)
           : [],
+
+      audio: partial?.audio !== undefined ? partial.audio : audio,
+      captions: partial?.captions !== undefined ? partial.captions : captions,
     };
 
     await saveDraft({ cmVideo: next });
@@ -632,8 +658,8 @@ function applyColorPreset(preset: (typeof COLOR_PRESETS)[number]) {
     if (!draftId) return setReason("下書きIDがありません");
     if (!sourceUrl) return setReason("焼き込み元のCM動画がありません");
 
-    if (!safeText(overlay.text) && !overlay.logoEnabled) {
-      return setReason("焼き込む文字、またはロゴを設定してください");
+    if (!safeText(overlay.text) && !overlay.logoEnabled && !captions?.cues.length) {
+      return setReason("焼き込む文字・ロゴ・字幕のどれかを設定してください");
     }
 
     const token = await getFreshToken(idToken);
@@ -655,6 +681,8 @@ body: JSON.stringify({
   overlay,
   size: persona?.size ?? "720x1280",
   seconds: persona?.seconds ?? 5,
+  audio,
+  captions,
 }),
       });
 
@@ -1229,6 +1257,17 @@ const nextOverlayUrls = overlayUrls.filter((x: string) => safeText(x) && safeTex
                 下の設定を変更して「文字・ロゴを焼き込む」を押すと、元動画とは別に“焼き込み後動画”が保存されます。
               </HelpText>
 
+              {brandKit ? (
+                <button
+                  type="button"
+                  onClick={() => setOverlay((prev) => cmOverlayFromBrandKit(brandKit, prev))}
+                  disabled={isBusy}
+                  className="mt-2 rounded-xl px-3 py-1.5 border border-white/15 bg-white/10 text-white/80 font-black text-xs disabled:opacity-50"
+                >
+                  ブランドキットの書体・配色・ロゴに戻す
+                </button>
+              ) : null}
+
               <div className="mt-3 grid grid-cols-1 gap-3">
                 <div>
                   <FieldLabel>表示する文字</FieldLabel>
@@ -1497,6 +1536,21 @@ const nextOverlayUrls = overlayUrls.filter((x: string) => safeText(x) && safeTex
                   </div>
                 </div>
 
+                <CaptionCuesEditor
+                  value={captions}
+                  onChange={setCaptions}
+                  videoSeconds={persona?.seconds ?? 5}
+                  ig3={initial?.ig3}
+                  shortCopies={initial?.shortCopies}
+                  disabled={isBusy}
+                  defaultStyle={brandKit ? captionStyleFromBrandKit(brandKit) : undefined}
+                  fileName={`cm-${brandId}-${draftId ?? "draft"}`}
+                  onSave={async (next) => {
+                    await persistCmVideo({ captions: next });
+                    showMsg?.("✅ 字幕を保存しました");
+                  }}
+                />
+
                 <div className="flex flex-wrap gap-2">
                   <button
                     type="button"
@@ -1532,6 +1586,37 @@ const nextOverlayUrls = overlayUrls.filter((x: string) => safeText(x) && safeTex
               </div>
             </div>
 
+            <VideoAudioTrackCard
+              draftId={draftId}
+              brandId={brandId}
+              target="cm"
+              videoUrl={videoUrl}
+              audio={audio}
+              busy={isBusy}
+              showMsg={showMsg}
+              onApplied={async ({ audio: applied, videoUrl: mixedUrl, path }) => {
+                setAudio(applied);
+
+                if (!mixedUrl) {
+                  await persistCmVideo({ audio: applied });
+                  return;
+                }
+
+                const nextOverlayUrls = [mixedUrl, ...overlayUrls.filter((x) => x !== mixedUrl)].slice(0, 10);
+                setOverlayUrl(mixedUrl);
+                setSelectedOverlayHistoryUrl(mixedUrl);
+                setOverlayUrls(nextOverlayUrls);
+                setVideoUrl(mixedUrl);
+
+                await persistCmVideo({
+                  audio: applied,
+                  overlayUrl: mixedUrl,
+                  overlayPath: path,
+                  overlayUrls: nextOverlayUrls,
+                });
+              }}
+            />
+
             <button
               type="button"
               onClick={() => void downloadVideo(videoUrl)}
@@ -0,0 +1,358 @@
+// /components/video/CaptionCuesEditor.tsx
+"use client";
+
+import React, { useRef, useState } from "react";
+import type {
+  CaptionAnimation,
+  CaptionCue,
+  CaptionCueStyle,
+  CmOverlayPosition,
+  ShortCopy,
+  VideoCaptionTrack,
+} from "@/lib/types/draft";
+import {
+  CAPTION_ANIMATIONS,
+  CAPTION_LIMITS,
+  CAPTION_POSITIONS,
+  DEFAULT_CAPTION_STYLE,
+  buildCaptionCuesFromLines,
+  captionLinesFromIg3,
+  captionLinesFromShortCopies,
+  formatSrt,
+  formatVtt,
+  newCaptionCueId,
+  normalizeVideoCaptionTrack,
+  parseSubtitles,
+} from "@/lib/video/captions";
+
+/**
+ * 時間指定つきの字幕
+ *
+ * ✅ この部品の責務
+ * - 字幕1行ごとに 文字・表示開始/終了・位置・出方（フェード / スライド / タイプ）を編集する
+ * - ig3（投稿文）/ shortCopies（短いコピー）から動画の長さに合わせて並べる
+ * - SRT / WebVTT の読み込み・書き出し
+ *
+ * ✅ 値は親が持つ（productVideo.captions / cmVideo.captions）。保存・焼き込みは親の仕事
+ */
+
+type Props = {
+  value: VideoCaptionTrack | null | undefined;
+  onChange: (next: VideoCaptionTrack | null) => void;
+  /** 自動で並べる時の動画の長さ（秒） */
+  videoSeconds: number;
+  ig3?: string[];
+  shortCopies?: ShortCopy[];
+  disabled?: boolean;
+  /** 新しく作る字幕の見た目（ブランドキット）。無ければ白文字・黒帯 */
+  defaultStyle?: CaptionCueStyle;
+  /** 書き出しのファイル名（拡張子なし） */
+  fileName?: string;
+  onSave?: (next: VideoCaptionTrack | null) => void | Promise<void>;
+};
+
+function downloadText(text: string, fileName: string, type: string) {
+  const blobUrl = window.URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = blobUrl;
+  a.download = fileName;
+  a.rel = "noopener";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(blobUrl);
+}
+
+function Chip(props: { active: boolean; disabled?: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      disabled={props.disabled}
+      onClick={props.onClick}
+      className={[
+        "rounded-full border px-2.5 py-0.5 text-[11px] font-black disabled:opacity-40",
+        props.active ? "border-orange-200 bg-orange-300/20 text-white" : "border-white/15 bg-white/[0.04] text-white/60",
+      ].join(" ")}
+    >
+      {props.children}
+    </button>
+  );
+}
+
+export default function CaptionCuesEditor({
+  value,
+  onChange,
+  videoSeconds,
+  ig3,
+  shortCopies,
+  disabled,
+  defaultStyle,
+  fileName = "captions",
+  onSave,
+}: Props) {
+  const [animation, setAnimation] = useState<CaptionAnimation>("fade");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const cues = value?.cues ?? [];
+  const style = value?.style ?? defaultStyle ?? DEFAULT_CAPTION_STYLE;
+  const seconds = Math.max(1, videoSeconds || 5);
+  const ig3Lines = captionLinesFromIg3(ig3);
+  const shortCopyLines = captionLinesFromShortCopies(shortCopies);
+  const locked = !!disabled || saving;
+
+  // 入力途中（空の行など）も残したいので、ここでは正規化しない
+  function commit(nextCues: CaptionCue[], source: VideoCaptionTrack["source"] = value?.source ?? "manual") {
+    onChange(nextCues.length ? { cues: nextCues, style, source, updatedAt: Date.now() } : null);
+  }
+
+  function patchCue(id: string, values: Partial<CaptionCue>) {
+    commit(cues.map((c) => (c.id === id ? { ...c, ...values } : c)));
+  }
+
+  function addCue() {
+    if (cues.length >= CAPTION_LIMITS.maxCues) return setReason(`字幕は${CAPTION_LIMITS.maxCues}行までです`);
+    const last = cues[cues.length - 1];
+    const startSec = Math.min(seconds - 1, last ? last.endSec : 0);
+    commit([
+      ...cues,
+      {
+        id: newCaptionCueId(),
+        text: "",
+        startSec: Math.max(0, startSec),
+        endSec: Math.min(seconds, Math.max(0, startSec) + 2),
+        position: "bottom",
+        animation,
+      },
+    ]);
+  }
+
+  function generate(lines: string[], source: "ig3" | "shortCopies") {
+    setReason("");
+    const next = buildCaptionCuesFromLines(lines, seconds, { animation });
+    if (!next.length) return setReason("字幕にできる文がありません");
+    if (cues.length && !window.confirm("今の字幕を置き換えますか？")) return;
+    commit(next, source);
+  }
+
+  async function importFile(file: File) {
+    setReason("");
+    try {
+      const track = parseSubtitles(await file.text(), { animation, style });
+      if (!track) throw new Error("字幕を読み取れませんでした（SRT / WebVTT を選んでください）");
+      onChange({ ...track, updatedAt: Date.now() });
+    } catch (e: any) {
+      setReason(e?.message || "字幕の読み込みに失敗しました");
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  function exportAs(kind: "srt" | "vtt") {
+    const track = normalizeVideoCaptionTrack(value);
+    if (!track) return setReason("書き出す字幕がありません");
+    if (kind === "srt") downloadText(formatSrt(track), `${fileName}.srt`, "application/x-subrip");
+    else downloadText(formatVtt(track), `${fileName}.vtt`, "text/vtt");
+  }
+
+  async function save() {
+    if (!onSave) return;
+    setReason("");
+    setSaving(true);
+    try {
+      const track = normalizeVideoCaptionTrack(value);
+      onChange(track);
+      await onSave(track);
+    } catch (e: any) {
+      setReason(e?.message || "字幕の保存に失敗しました");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/12 bg-black/25 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-[13px] font-black text-white/85">字幕（時間指定）</div>
+        <div className="text-[11px] font-black text-white/55">
+          {cues.length ? `${cues.length}行 / ${seconds}秒の動画` : "字幕なし"}
+        </div>
+      </div>
+
+      <div className="mt-2 text-[12px] leading-relaxed text-white/55">
+        1行ごとに表示する時間と出方を決めて、文字焼き込みの時に一緒に焼き込みます。SRT / WebVTT で書き出してSNSの字幕にも使えます。
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-1.5">
+        <span className="text-[11px] font-black text-white/60">出方</span>
+        {CAPTION_ANIMATIONS.map((a) => (
+          <Chip key={a.value} active={animation === a.value} disabled={locked} onClick={() => setAnimation(a.value)}>
+            {a.label}
+          </Chip>
+        ))}
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={locked || !ig3Lines.length}
+          onClick={() => generate(ig3Lines, "ig3")}
+          className="rounded-full border border-white/20 bg-white/[0.06] px-3 py-1.5 text-[12px] font-black text-white/80 disabled:opacity-40"
+        >
+          投稿文（ig3）から作る
+        </button>
+        <button
+          type="button"
+          disabled={locked || !shortCopyLines.length}
+          onClick={() => generate(shortCopyLines, "shortCopies")}
+          className="rounded-full border border-white/20 bg-white/[0.06] px-3 py-1.5 text-[12px] font-black text-white/80 disabled:opacity-40"
+        >
+          短いコピーから作る
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".srt,.vtt,text/vtt,application/x-subrip"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importFile(file);
+          }}
+        />
+        <button
+          type="button"
+          disabled={locked}
+          onClick={() => fileRef.current?.click()}
+          className="rounded-full border border-white/20 bg-white/[0.06] px-3 py-1.5 text-[12px] font-black text-white/80 disabled:opacity-40"
+        >
+          SRT / VTT を読み込む
+        </button>
+      </div>
+
+      {cues.length ? (
+        <div className="mt-3 flex flex-col gap-2">
+          {cues.map((cue, i) => (
+            <div key={cue.id} className="rounded-xl border border-white/10 bg-black/20 p-2">
+              <div className="flex items-start gap-2">
+                <div className="pt-1 text-[11px] font-black text-white/45">{i + 1}</div>
+                <textarea
+                  value={cue.text}
+                  rows={Math.min(CAPTION_LIMITS.maxLinesPerCue, Math.max(1, cue.text.split("\n").length))}
+                  maxLength={CAPTION_LIMITS.maxTextLength}
+                  disabled={locked}
+                  onChange={(e) => patchCue(cue.id, { text: e.target.value })}
+                  className="min-w-0 flex-1 resize-none rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-[12px] text-white outline-none"
+                  placeholder="字幕の文字（改行で2〜3行）"
+                />
+                <button
+                  type="button"
+                  disabled={locked}
+                  onClick={() => commit(cues.filter((c) => c.id !== cue.id))}
+                  className="shrink-0 rounded-full border border-red-300/30 px-2 py-0.5 text-[11px] text-red-100/80 disabled:opacity-30"
+                >
+                  削除
+                </button>
+              </div>
+
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px] font-black text-white/65">
+                <label className="flex items-center gap-1">
+                  開始
+                  <input
+                    type="number"
+                    step={0.1}
+                    min={0}
+                    max={CAPTION_LIMITS.maxSeconds}
+                    value={cue.startSec}
+                    disabled={locked}
+                    onChange={(e) => patchCue(cue.id, { startSec: Number(e.target.value) })}
+                    className="w-16 rounded-lg border border-white/10 bg-black/30 px-1.5 py-0.5 text-white outline-none"
+                  />
+                  秒
+                </label>
+                <label className="flex items-center gap-1">
+                  終了
+                  <input
+                    type="number"
+                    step={0.1}
+                    min={0}
+                    max={CAPTION_LIMITS.maxSeconds}
+                    value={cue.endSec}
+                    disabled={locked}
+                    onChange={(e) => patchCue(cue.id, { endSec: Number(e.target.value) })}
+                    className="w-16 rounded-lg border border-white/10 bg-black/30 px-1.5 py-0.5 text-white outline-none"
+                  />
+                  秒
+                </label>
+                <select
+                  value={cue.position}
+                  disabled={locked}
+                  onChange={(e) => patchCue(cue.id, { position: e.target.value as CmOverlayPosition })}
+                  className="rounded-lg border border-white/10 bg-black/30 px-1.5 py-0.5 text-white outline-none"
+                >
+                  {CAPTION_POSITIONS.map((p) => (
+                    <option key={p.value} value={p.value}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={cue.animation}
+                  disabled={locked}
+                  onChange={(e) => patchCue(cue.id, { animation: e.target.value as CaptionAnimation })}
+                  className="rounded-lg border border-white/10 bg-black/30 px-1.5 py-0.5 text-white outline-none"
+                >
+                  {CAPTION_ANIMATIONS.map((a) => (
+                    <option key={a.value} value={a.value}>
+                      {a.label}
+                    </option>
+                  ))}
+                </select>
+                {cue.endSec > seconds ? <span className="text-amber-200/90">動画より長い（{seconds}秒で切れます）</span> : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {reason ? <div className="mt-2 text-[12px] text-red-200/90">{reason}</div> : null}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={locked || cues.length >= CAPTION_LIMITS.maxCues}
+          onClick={addCue}
+          className="rounded-full border border-white/20 bg-white/[0.06] px-3 py-1.5 text-[12px] font-black text-white/80 disabled:opacity-40"
+        >
+          ＋ 行を追加
+        </button>
+        <button
+          type="button"
+          disabled={locked || !cues.length}
+          onClick={() => exportAs("srt")}
+          className="rounded-full border border-white/20 px-3 py-1.5 text-[12px] font-black text-white/70 disabled:opacity-40"
+        >
+          SRTで書き出す
+        </button>
+        <button
+          type="button"
+          disabled={locked || !cues.length}
+          onClick={() => exportAs("vtt")}
+          className="rounded-full border border-white/20 px-3 py-1.5 text-[12px] font-black text-white/70 disabled:opacity-40"
+        >
+          WebVTTで書き出す
+        </button>
+        {onSave ? (
+          <button
+            type="button"
+            disabled={locked}
+            onClick={() => void save()}
+            className="rounded-full border border-orange-200/60 bg-orange-300/20 px-4 py-1.5 text-[12px] font-black text-white disabled:opacity-40"
+          >
+            {saving ? "保存中..." : "字幕を保存"}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,10 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { auth, storage } from "@/firebase";
 import { getDownloadURL, ref, uploadBytesResumable } from "firebase/storage";
-import { generateNonAiVideoWebm } from "@/lib/nonAiVideo/generate";
-import type { MotionCharacter } from "@/lib/types/draft";
+import { generateNonAiVideoWebm, type NonAiVideoInput } from "@/lib/nonAiVideo/generate";
+import type { BrandId, MotionCharacter, VideoAudioTrack } from "@/lib/types/draft";
 
-type RenderMode = "auto" | "cloud" | "local";
+type RenderMode = "auto" | "server" | "cloud" | "local";
 type SourceMode = "image" | "video";
 type VideoType = "auto_ad" | "spin" | "turntable" | "zoom" | "pan" | "showcase" | "reel";
 
@@ -17,7 +17,7 @@ type Props = {
   setReason: (s: string) => void;
   uid: string | null;
   draftId: string | null;
-  brand: "vento" | "riva";
+  brand: BrandId;
   vision: string;
   keywords: string[];
   preset: {
@@ -43,6 +43,8 @@ type Props = {
   seconds: 5 | 10;
   quality: "standard" | "high";
   size: string;
+  /** 下書きに記録済みの音（MP4化の時に同じ音を付ける） */
+  audio?: VideoAudioTrack | null;
   onSave: (url: string) => void | Promise<void>;
   onSaveSourceVideo?: (args: { url: string; path: string }) => void | Promise<void>;
   onExtractProductVideoClip?: (args: {
@@ -65,17 +67,19 @@ function isLocalRenderUiEnabled() {
 function readSavedRenderMode(): RenderMode {
   if (typeof window === "undefined") return "auto";
   const v = String(window.localStorage.getItem("aoiFlowVideoRenderMode") || "auto").trim();
-  if (v === "cloud" || v === "local") return v;
+  if (v === "server" || v === "cloud" || v === "local") return v;
   return "auto";
 }
 
 function renderModeLabel(mode: RenderMode) {
+  if (mode === "server") return "Server Render";
   if (mode === "cloud") return "Cloud Render";
   if (mode === "local") return "Local Render";
   return "自動";
 }
 
 function renderModeDesc(mode: RenderMode) {
+  if (mode === "server") return "サーバで1コマずつ描いてMP4にします。ブラウザ版と同じ動きで、端末の性能に左右されません。";
   if (mode === "cloud") return "SaaS本番用。Cloud Run側でMP4へ変換します。端末に依存しません。";
   if (mode === "local") return "開発者専用。自分のPCに入っているFFmpegでMP4へ変換します。";
   return "推奨。本番はCloud Render、Cloud未設定時はWEBM保存へ退避します。";
@@ -302,7 +306,7 @@ export default function NonAiVideoActions(props: Props) {
         .map((url) => String(url || "").trim())
         .filter((url, index, arr) => url && arr.indexOf(url) === index);
 
-      const blob = await generateNonAiVideoWebm({
+      const videoInput: NonAiVideoInput = {
         primary: inputImageUrl,
         materials: selectedMaterials,
         seconds: props.seconds,
@@ -310,7 +314,29 @@ export default function NonAiVideoActions(props: Props) {
         motion,
         videoType,
         backgroundImageUrl: props.backgroundImageUrl || undefined,
-      });
+      };
+
+      if (renderMode === "server") {
+        // Server Render：ブラウザでは描かず、同じ入力をサーバへ渡してMP4まで作る
+        setMsg("🎬 サーバで広告動画(mp4)を生成中です");
+        const res = await fetch("/api/video/nonai", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ draftId: props.draftId, ...videoInput, audio: props.audio ?? null }),
+        });
+        const j: any = await res.json().catch(() => ({}));
+        const mp4Url = String(j?.mp4Url || j?.url || j?.videoUrl || "").trim();
+        if (!res.ok || !mp4Url) {
+          props.setReason(`Server Renderで動画生成に失敗しました：${String(j?.error || "video/nonai failed")}`);
+          return;
+        }
+
+        await props.onSave(mp4Url);
+        setMsg(`✅ 広告動画(mp4)が完成しました（${props.seconds}秒 / Server Render）`);
+        return;
+      }
+
+      const blob = await generateNonAiVideoWebm(videoInput);
 
       if (!blob || blob.size === 0) {
         props.setReason("WEBM生成に失敗しました（Blobが空です）");
@@ -349,7 +375,7 @@ export default function NonAiVideoActions(props: Props) {
       const fin = await fetch("/api/finalize-nonai-mp4", {
         method: "POST",
         headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-        body: JSON.stringify({ draftId: props.draftId, webmPath, renderMode, videoType }),
+        body: JSON.stringify({ draftId: props.draftId, webmPath, renderMode, videoType, audio: props.audio ?? null }),
       });
       const finj: any = await fin.json().catch(() => ({}));
       if (!fin.ok) {
@@ -408,6 +434,7 @@ export default function NonAiVideoActions(props: Props) {
         <div className="flex gap-2 overflow-x-auto pb-1">
           {[
             { id: "auto" as const, label: "自動", desc: "推奨" },
+            { id: "server" as const, label: "Server", desc: "サーバ描画" },
             { id: "cloud" as const, label: "Cloud", desc: "本番" },
             { id: "local" as const, label: "Local", desc: "開発" },
           ].map((item) => (
@@ -0,0 +1,383 @@
+// /components/video/VideoAudioTrackCard.tsx
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { auth } from "@/firebase";
+import type { AudioLibraryItem, VideoAudioTrack } from "@/lib/types/draft";
+import {
+  AUDIO_LOUDNESS_PRESETS,
+  AUDIO_TRACK_LIMITS,
+  createVideoAudioTrack,
+  normalizeVideoAudioTrack,
+} from "@/lib/video/audioTrack";
+
+/**
+ * 動画の音（BGM）
+ *
+ * ✅ この部品の責務
+ * - ブランドの音源ライブラリ（/api/audio/library）を一覧・追加・削除する
+ * - 音源・頭出し・長さ・フェード・音量を決めて /api/video/audio で動画に付ける
+ * - 付けた設定は productVideo.audio / cmVideo.audio に残る（MP4化・焼き込みのやり直しでも同じ音）
+ *
+ * ✅ 商品動画（target="product"）とブランドCM（target="cm"）で共通
+ */
+
+type Props = {
+  draftId: string | null;
+  brandId: string;
+  target: "product" | "cm";
+  /** 音を付ける元の動画（今の代表動画 / 焼き込み後のCM） */
+  videoUrl: string;
+  /** 下書きに記録済みの音 */
+  audio: VideoAudioTrack | null | undefined;
+  busy?: boolean;
+  onApplied: (args: {
+    audio: VideoAudioTrack | null;
+    videoUrl: string | null;
+    path: string | null;
+  }) => void | Promise<void>;
+  showMsg?: (s: string) => void;
+};
+
+type Running = "" | "library" | "upload" | "delete" | "apply" | "clear";
+
+async function postJson(url: string, body: unknown) {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) throw new Error("ログインが必要です");
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+  const j: any = await res.json().catch(() => ({}));
+  if (!res.ok || j?.ok === false) throw new Error(String(j?.error || `${url} failed (${res.status})`));
+  return j;
+}
+
+function Slider(props: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+  disabled?: boolean;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="block">
+      <div className="flex items-center justify-between text-[11px] font-black text-white/70">
+        <span>{props.label}</span>
+        <span className="text-white/90">{props.format(props.value)}</span>
+      </div>
+      <input
+        type="range"
+        min={props.min}
+        max={props.max}
+        step={props.step}
+        value={props.value}
+        disabled={props.disabled}
+        onChange={(e) => props.onChange(Number(e.target.value))}
+        className="mt-1 w-full accent-cyan-300"
+      />
+    </label>
+  );
+}
+
+export default function VideoAudioTrackCard({
+  draftId,
+  brandId,
+  target,
+  videoUrl,
+  audio,
+  busy,
+  onApplied,
+  showMsg,
+}: Props) {
+  const saved = normalizeVideoAudioTrack(audio);
+
+  const [items, setItems] = useState<AudioLibraryItem[]>([]);
+  const [track, setTrack] = useState<VideoAudioTrack | null>(saved);
+  const [running, setRunning] = useState<Running>("");
+  const [reason, setReason] = useState("");
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const savedKey = saved ? `${saved.path}:${saved.updatedAt ?? 0}` : "";
+
+  // 下書きの読み込み・別の画面で付け直した時は、記録済みの設定を表示し直す
+  useEffect(() => {
+    setTrack(normalizeVideoAudioTrack(audio));
+  }, [savedKey]);
+
+  const loadLibrary = useCallback(async () => {
+    if (!auth.currentUser) return;
+    setRunning("library");
+    try {
+      const j = await postJson("/api/audio/library", { brandId });
+      setItems(Array.isArray(j?.items) ? j.items : []);
+    } catch (e: any) {
+      setReason(e?.message || "音源ライブラリを読み込めませんでした");
+    } finally {
+      setRunning("");
+    }
+  }, [brandId]);
+
+  useEffect(() => {
+    void loadLibrary();
+  }, [loadLibrary]);
+
+  const disabled = !!busy || running !== "";
+
+  async function upload(file: File) {
+    setReason("");
+    if (file.size > AUDIO_TRACK_LIMITS.maxFileBytes) {
+      setReason(`音源は${Math.round(AUDIO_TRACK_LIMITS.maxFileBytes / 1024 / 1024)}MBまでです`);
+      return;
+    }
+
+    setRunning("upload");
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) throw new Error("ログインが必要です");
+
+      const fd = new FormData();
+      fd.append("brandId", brandId);
+      fd.append("label", file.name.replace(/\.[^.]+$/, ""));
+      fd.append("file", file, file.name);
+
+      const res = await fetch("/api/audio/upload", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        body: fd,
+      });
+      const j: any = await res.json().catch(() => ({}));
+      if (!res.ok || j?.ok === false) throw new Error(String(j?.error || "音源のアップロードに失敗しました"));
+
+      const item = j.item as AudioLibraryItem;
+      setItems((prev) => [item, ...prev.filter((x) => x.path !== item.path)]);
+      setTrack(createVideoAudioTrack(item));
+      showMsg?.("✅ 音源をライブラリに追加しました");
+    } catch (e: any) {
+      setReason(e?.message || "音源のアップロードに失敗しました");
+    } finally {
+      setRunning("");
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  async function remove(item: AudioLibraryItem) {
+    if (!window.confirm(`「${item.label}」をライブラリから削除しますか？`)) return;
+
+    setReason("");
+    setRunning("delete");
+    try {
+      await postJson("/api/audio/delete", { path: item.path });
+      setItems((prev) => prev.filter((x) => x.path !== item.path));
+      if (track?.path === item.path && saved?.path !== item.path) setTrack(saved);
+      showMsg?.("音源をライブラリから削除しました");
+    } catch (e: any) {
+      setReason(e?.message || "音源の削除に失敗しました");
+    } finally {
+      setRunning("");
+    }
+  }
+
+  async function apply(next: VideoAudioTrack | null) {
+    setReason("");
+    if (!draftId) return setReason("先に下書きを保存してください");
+    if (next && !videoUrl) return setReason("音を付ける動画がありません（先に動画を作ってください）");
+
+    setRunning(next ? "apply" : "clear");
+    try {
+      const j = await postJson("/api/video/audio", { draftId, target, videoUrl, audio: next });
+      const applied = normalizeVideoAudioTrack(j?.audio);
+      const url = String(j?.mp4Url || j?.videoUrl || "").trim() || null;
+
+      setTrack(applied);
+      await onApplied({ audio: applied, videoUrl: url, path: String(j?.mp4Path || "").trim() || null });
+      showMsg?.(next ? "✅ 音付きの動画を保存しました" : "音なしに戻しました（次の動画作成から音を付けません）");
+    } catch (e: any) {
+      setReason(e?.message || "音の設定に失敗しました");
+    } finally {
+      setRunning("");
+    }
+  }
+
+  function patch(values: Partial<VideoAudioTrack>) {
+    setTrack((prev) => (prev ? { ...prev, ...values } : prev));
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/12 bg-black/25 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-[13px] font-black text-white/85">音（BGM）</div>
+        <div
+          className={[
+            "rounded-full border px-3 py-1 text-[11px] font-black",
+            saved ? "border-emerald-200/40 bg-emerald-300/15 text-emerald-50" : "border-white/20 bg-white/[0.08] text-white/55",
+          ].join(" ")}
+        >
+          {saved ? `記録済み：${saved.label}` : "音なし"}
+        </div>
+      </div>
+
+      <div className="mt-2 text-[12px] leading-relaxed text-white/55">
+        ブランドの音源から選んで動画に付けます。付けた音は下書きに残り、MP4化や文字焼き込みをやり直しても同じ音になります。
+      </div>
+
+      <div className="mt-3 flex flex-col gap-1.5">
+        {items.length ? (
+          items.map((item) => {
+            const active = track?.path === item.path;
+            return (
+              <div
+                key={item.path}
+                className={[
+                  "flex items-center gap-2 rounded-xl border px-2 py-1.5",
+                  active ? "border-cyan-200/70 bg-cyan-300/10" : "border-white/10 bg-black/20",
+                ].join(" ")}
+              >
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => setTrack(active ? track : createVideoAudioTrack(item))}
+                  className="min-w-0 flex-1 truncate text-left text-[12px] font-black text-white/85 disabled:opacity-50"
+                  title={item.label}
+                >
+                  {active ? "● " : ""}
+                  {item.label}
+                </button>
+                <audio src={item.url} controls preload="none" className="h-7 w-36 shrink-0" />
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => void remove(item)}
+                  className="shrink-0 rounded-full border border-red-300/30 px-2 py-0.5 text-[11px] text-red-100/80 disabled:opacity-30"
+                >
+                  削除
+                </button>
+              </div>
+            );
+          })
+        ) : (
+          <div className="rounded-xl border border-white/10 bg-black/15 px-3 py-3 text-[12px] text-white/50">
+            {running === "library" ? "読み込み中..." : "まだ音源がありません。mp3 / m4a / wav などを追加してください。"}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-2">
+        <input
+          ref={fileRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void upload(file);
+          }}
+        />
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => fileRef.current?.click()}
+          className="rounded-full border border-white/20 bg-white/[0.06] px-3 py-1.5 text-[12px] font-black text-white/80 disabled:opacity-40"
+        >
+          {running === "upload" ? "追加中..." : "＋ 音源を追加"}
+        </button>
+      </div>
+
+      {track ? (
+        <div className="mt-3 flex flex-col gap-3 rounded-xl border border-white/10 bg-black/20 p-3">
+          <Slider
+            label="頭出し（音源のどこから使うか）"
+            value={track.startSec}
+            min={0}
+            max={120}
+            step={0.5}
+            format={(v) => `${v.toFixed(1)}秒`}
+            disabled={disabled}
+            onChange={(v) => patch({ startSec: v })}
+          />
+          <Slider
+            label="使う長さ"
+            value={track.durationSec ?? 0}
+            min={0}
+            max={AUDIO_TRACK_LIMITS.maxDurationSec}
+            step={0.5}
+            format={(v) => (v > 0 ? `${v.toFixed(1)}秒` : "動画の長さ")}
+            disabled={disabled}
+            onChange={(v) => patch({ durationSec: v > 0 ? Math.max(1, v) : null })}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <Slider
+              label="フェードイン"
+              value={track.fadeInSec}
+              min={0}
+              max={AUDIO_TRACK_LIMITS.maxFadeSec}
+              step={0.1}
+              format={(v) => `${v.toFixed(1)}秒`}
+              disabled={disabled}
+              onChange={(v) => patch({ fadeInSec: v })}
+            />
+            <Slider
+              label="フェードアウト"
+              value={track.fadeOutSec}
+              min={0}
+              max={AUDIO_TRACK_LIMITS.maxFadeSec}
+              step={0.1}
+              format={(v) => `${v.toFixed(1)}秒`}
+              disabled={disabled}
+              onChange={(v) => patch({ fadeOutSec: v })}
+            />
+          </div>
+          <div>
+            <div className="mb-1 text-[11px] font-black text-white/70">音量（自動でそろえます）</div>
+            <div className="flex flex-wrap gap-2">
+              {AUDIO_LOUDNESS_PRESETS.map((p) => (
+                <button
+                  key={p.value}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => patch({ loudnessLufs: p.value })}
+                  className={[
+                    "rounded-full border px-3 py-1 text-[12px] font-black disabled:opacity-40",
+                    track.loudnessLufs === p.value
+                      ? "border-cyan-200 bg-cyan-300/20 text-white"
+                      : "border-white/15 bg-white/[0.04] text-white/65",
+                  ].join(" ")}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {reason ? <div className="mt-2 text-[12px] text-red-200/90">{reason}</div> : null}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={disabled || !track || !videoUrl || !draftId}
+          onClick={() => void apply(track)}
+          className="rounded-full border border-cyan-200/60 bg-cyan-300/20 px-4 py-2 text-[12px] font-black text-white disabled:opacity-40"
+        >
+          {running === "apply" ? "音を付けています..." : "🎵 この音を動画に付ける"}
+        </button>
+        {saved ? (
+          <button
+            type="button"
+            disabled={disabled || !draftId}
+            onClick={() => void apply(null)}
+            className="rounded-full border border-white/20 px-4 py-2 text-[12px] font-black text-white/70 disabled:opacity-40"
+          >
+            {running === "clear" ? "解除中..." : "音なしに戻す"}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+// /lib/brand/brandKit.ts
+// =========================
+// ✅ ブランドキット（ブラウザ / サーバ共通）
+// - ブランド文書（users/{uid}/brands/{brandId}）の brandKit：ロゴ・配色・書体・文字と帯の初期値
+// - TextOverlay（画像の文字）/ CmOverlay（CMの文字・ロゴ）/ 字幕 / burn-api の値に変換する
+// - 下書きごとに色や大きさを調整しなくても、ブランドの見た目で始められるようにする
+// =========================
+
+import type {
+  BrandFontId,
+  BrandKit,
+  BrandKitOverlayDefaults,
+  BrandKitPalette,
+  CaptionCueStyle,
+  CmOverlay,
+  CmOverlayPosition,
+  TextOverlay,
+} from "@/lib/types/draft";
+
+/**
+ * 同梱書体
+ * - css: ブラウザの canvas / プレビュー用
+ * - burn-api は同じ id で Noto CJK のファイルを選ぶ（burn-api/main.py の FONT_FILES）
+ */
+export const BRAND_FONTS: Array<{ id: BrandFontId; label: string; css: string }> = [
+  {
+    id: "notoSans",
+    label: "ゴシック（Noto Sans）",
+    css: `"Noto Sans JP", "Noto Sans CJK JP", system-ui, -apple-system, BlinkMacSystemFont, "Hiragino Sans", "Yu Gothic", sans-serif`,
+  },
+  {
+    id: "notoSerif",
+    label: "明朝（Noto Serif）",
+    css: `"Noto Serif JP", "Noto Serif CJK JP", "Hiragino Mincho ProN", "Yu Mincho", serif`,
+  },
+];
+
+/** fontId が無い旧データの書体（今までの見た目を変えない） */
+const LEGACY_FONT_CSS = `system-ui, -apple-system, BlinkMacSystemFont, "Hiragino Sans", "Yu Gothic", sans-serif`;
+
+const FONT_IDS = BRAND_FONTS.map((f) => f.id);
+
+const POSITIONS: CmOverlayPosition[] = ["top", "center", "bottom", "leftBottom", "rightBottom"];
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  logoUrl: null,
+  logoPath: null,
+  palette: {
+    primary: "#1F2937",
+    secondary: "#E5E7EB",
+    accent: "#F59E0B",
+    text: "#FFFFFF",
+    band: "#000000",
+  },
+  fontId: "notoSans",
+  overlay: {
+    fontSize: 42,
+    fontWeight: "bold",
+    lineHeight: 1.25,
+    position: "bottom",
+    bandEnabled: true,
+    bandOpacity: 0.45,
+    logoEnabled: false,
+    logoPosition: "top",
+    logoWidth: 140,
+    logoOpacity: 0.9,
+  },
+};
+
+/** VENTO / RIVA の初期キット（ブランド作成時の雛形） */
+export const BRAND_KIT_PRESETS: Record<string, Partial<BrandKit>> = {
+  vento: {
+    palette: { primary: "#2F3A32", secondary: "#EDE6D8", accent: "#B08D57", text: "#FFFFFF", band: "#2F3A32" },
+    fontId: "notoSerif",
+    overlay: { ...DEFAULT_BRAND_KIT.overlay, fontWeight: "normal", bandOpacity: 0.4 },
+  },
+  riva: {
+    palette: { primary: "#111111", secondary: "#D9D9D9", accent: "#B3261E", text: "#FFFFFF", band: "#111111" },
+    fontId: "notoSans",
+    overlay: { ...DEFAULT_BRAND_KIT.overlay, bandOpacity: 0.55 },
+  },
+};
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function toNumber(value: unknown, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function safeColor(value: unknown, fallback: string) {
+  const s = String(value ?? "").trim();
+  return /^#[0-9a-fA-F]{6}$/.test(s) ? s.toUpperCase() : fallback;
+}
+
+function safePosition(value: unknown, fallback: CmOverlayPosition): CmOverlayPosition {
+  return POSITIONS.includes(value as CmOverlayPosition) ? (value as CmOverlayPosition) : fallback;
+}
+
+export function normalizeBrandFontId(value: unknown): BrandFontId {
+  return FONT_IDS.includes(value as BrandFontId) ? (value as BrandFontId) : DEFAULT_BRAND_KIT.fontId;
+}
+
+/** canvas の ctx.font などに使う書体の並び（fontId が無ければ従来の書体） */
+export function brandFontCss(fontId: unknown) {
+  if (!fontId) return LEGACY_FONT_CSS;
+  return BRAND_FONTS.find((f) => f.id === fontId)?.css ?? LEGACY_FONT_CSS;
+}
+
+/** #RRGGBB + 濃さ → rgba()（TextOverlay.background.color の形式） */
+export function hexToRgba(hex: string, opacity: number) {
+  const h = safeColor(hex, "#000000").slice(1);
+  const r = parseInt(h.slice(0, 2), 16);
+  const g = parseInt(h.slice(2, 4), 16);
+  const b = parseInt(h.slice(4, 6), 16);
+  return `rgba(${r},${g},${b},${clamp(opacity, 0, 1)})`;
+}
+
+/**
+ * 保存値の揺れを吸収する（brandKit が無いブランドは既定値 / ブランド別の雛形）
+ */
+export function normalizeBrandKit(input: unknown, brandId?: string): BrandKit {
+  const preset = BRAND_KIT_PRESETS[String(brandId ?? "").trim()] ?? {};
+  const base: BrandKit = {
+    ...DEFAULT_BRAND_KIT,
+    ...preset,
+    palette: { ...DEFAULT_BRAND_KIT.palette, ...preset.palette },
+    overlay: { ...DEFAULT_BRAND_KIT.overlay, ...preset.overlay },
+  };
+  const v = (input && typeof input === "object" ? input : {}) as Record<string, any>;
+  const p = (v.palette && typeof v.palette === "object" ? v.palette : {}) as Record<string, unknown>;
+  const o = (v.overlay && typeof v.overlay === "object" ? v.overlay : {}) as Record<string, unknown>;
+
+  const palette: BrandKitPalette = {
+    primary: safeColor(p.primary, base.palette.primary),
+    secondary: safeColor(p.secondary, base.palette.secondary),
+    accent: safeColor(p.accent, base.palette.accent),
+    text: safeColor(p.text, base.palette.text),
+    band: safeColor(p.band, base.palette.band),
+  };
+
+  const overlay: BrandKitOverlayDefaults = {
+    fontSize: Math.round(clamp(toNumber(o.fontSize, base.overlay.fontSize), 12, 160)),
+    fontWeight: o.fontWeight === "normal" || o.fontWeight === "bold" ? o.fontWeight : base.overlay.fontWeight,
+    lineHeight: clamp(toNumber(o.lineHeight, base.overlay.lineHeight), 0.8, 2.5),
+    position: safePosition(o.position, base.overlay.position),
+    bandEnabled: typeof o.bandEnabled === "boolean" ? o.bandEnabled : base.overlay.bandEnabled,
+    bandOpacity: Math.round(clamp(toNumber(o.bandOpacity, base.overlay.bandOpacity), 0, 1) * 100) / 100,
+    logoEnabled: typeof o.logoEnabled === "boolean" ? o.logoEnabled : base.overlay.logoEnabled,
+    logoPosition: safePosition(o.logoPosition, base.overlay.logoPosition),
+    logoWidth: Math.round(clamp(toNumber(o.logoWidth, base.overlay.logoWidth), 24, 600)),
+    logoOpacity: Math.round(clamp(toNumber(o.logoOpacity, base.overlay.logoOpacity), 0, 1) * 100) / 100,
+  };
+
+  const logoUrl = String(v.logoUrl ?? "").trim() || null;
+
+  return {
+    logoUrl,
+    logoPath: logoUrl ? String(v.logoPath ?? "").trim() || null : null,
+    palette,
+    fontId: v.fontId ? normalizeBrandFontId(v.fontId) : base.fontId,
+    overlay,
+    updatedAt: toNumber(v.updatedAt, 0) || undefined,
+  };
+}
+
+export function brandLogoPath(uid: string, brandId: string, ext: string) {
+  return `users/${uid}/brands/${brandId}/logo/${Date.now()}.${ext}`;
+}
+
+/* -------------------------------- 変換 -------------------------------- */
+
+/** 位置 → 画像の文字の上下位置（0〜100） */
+const POSITION_Y: Record<CmOverlayPosition, number> = {
+  top: 15,
+  center: 50,
+  bottom: 80,
+  leftBottom: 80,
+  rightBottom: 80,
+};
+
+/**
+ * 画像の文字（TextOverlay）にキットの見た目を入れる
+ * - 文字（lines / text）と左右位置はそのまま
+ */
+export function textOverlayFromBrandKit(kit: BrandKit, prev: TextOverlay): TextOverlay {
+  return {
+    ...prev,
+    fontId: kit.fontId,
+    fontSize: kit.overlay.fontSize,
+    lineHeight: kit.overlay.lineHeight,
+    y: POSITION_Y[kit.overlay.position],
+    color: kit.palette.text,
+    bandOpacity: kit.overlay.bandOpacity,
+    background: {
+      padding: prev.background?.padding ?? 18,
+      radius: prev.background?.radius ?? 16,
+      enabled: kit.overlay.bandEnabled,
+      color: hexToRgba(kit.palette.band, kit.overlay.bandOpacity),
+    },
+  };
+}
+
+/**
+ * CM の文字・ロゴ（CmOverlay）にキットの見た目を入れる
+ * - 文字・表示時間・フェードはそのまま
+ */
+export function cmOverlayFromBrandKit(kit: BrandKit, prev: CmOverlay): CmOverlay {
+  return {
+    ...prev,
+    fontId: kit.fontId,
+    position: kit.overlay.position,
+    fontSize: kit.overlay.fontSize,
+    fontColor: kit.palette.text,
+    fontWeight: kit.overlay.fontWeight,
+    lineHeight: kit.overlay.lineHeight,
+    boxEnabled: kit.overlay.bandEnabled,
+    boxColor: kit.palette.band,
+    boxOpacity: kit.overlay.bandOpacity,
+    logoUrl: kit.logoUrl ?? prev.logoUrl,
+    logoEnabled: kit.logoUrl ? kit.overlay.logoEnabled : prev.logoEnabled,
+    logoPosition: kit.overlay.logoPosition,
+    logoWidth: kit.overlay.logoWidth,
+    logoOpacity: kit.overlay.logoOpacity,
+  };
+}
+
+export function captionStyleFromBrandKit(kit: BrandKit): CaptionCueStyle {
+  return {
+    fontId: kit.fontId,
+    fontSize: kit.overlay.fontSize,
+    fontColor: kit.palette.text,
+    boxEnabled: kit.overlay.bandEnabled,
+    boxColor: kit.palette.band,
+    boxOpacity: kit.overlay.bandOpacity,
+  };
+}
+
+/**
+ * burn-api /burn-text-video の style（商品動画の文字焼き込み）
+ * - 文字の大きさと上下位置は画像の文字（TextOverlay）側の値を使う
+ */
+export function burnTextStyleFromBrandKit(kit: BrandKit) {
+  return {
+    fontId: kit.fontId,
+    fontColor: kit.palette.text,
+    fontWeight: kit.overlay.fontWeight,
+    boxEnabled: kit.overlay.bandEnabled,
+    boxColor: kit.palette.band,
+    boxOpacity: kit.overlay.bandOpacity,
+    logoUrl: kit.logoUrl ?? "",
+    logoEnabled: !!kit.logoUrl && kit.overlay.logoEnabled,
+    logoPosition: kit.overlay.logoPosition,
+    logoWidth: kit.overlay.logoWidth,
+    logoOpacity: kit.overlay.logoOpacity,
+  };
+}
+
+export type BurnTextStyle = ReturnType<typeof burnTextStyleFromBrandKit>;
@@ -0,0 +1,198 @@
+// /lib/brand/brands.ts
+// =========================
+// ✅ ブランドID / ブランド設定（ブラウザ / サーバ共通）
+// - ブランドは users/{uid}/brands/{brandId}（設定ページで作成）。vento / riva 固定にしない
+// - 下書き・文章・CM・一覧は brandId を文字列のまま扱い、ここで揃える
+// - ブランド別の振る舞い（CMで映すもの / 商品選定の相性語）はブランド文書の設定から作る
+//   VENTO / RIVA は今までの固定値を雛形として持つ（文書に設定が無い時に使う）
+// =========================
+
+import type { BrandCmProfile, BrandId, BrandResearchProfile } from "@/lib/types/draft";
+
+/** brandId が無い旧データ・未選択時のブランド */
+export const DEFAULT_BRAND_ID: BrandId = "vento";
+
+/** 選択肢に出すブランド（一覧・フィルタ・下書きのブランド切替） */
+export type BrandOption = {
+  id: BrandId;
+  name: string;
+  isActive: boolean;
+  researchProfile: BrandResearchProfile;
+};
+
+/** VENTO / RIVA の CM 雛形（旧 cm-worldspec / cm-generate の固定値） */
+export const BRAND_CM_PRESETS: Record<string, BrandCmProfile> = {
+  vento: {
+    heroSubject: "stationary curated vintage objects, aged wood, metal details, leather texture, glass reflections, patina",
+    visualScene: "quiet minimal interior, soft natural window light, refined workspace, curated vintage display",
+    brandMessage: "time, memory, material honesty, quiet beauty, recomposition",
+  },
+  riva: {
+    heroSubject: "stationary classic car detail, chrome parts, leather interior, analog gauges, polished body reflections",
+    visualScene: "quiet garage studio, soft side light, classic automotive details, refined dark navy atmosphere",
+    brandMessage: "heritage, craftsmanship, mechanical beauty, quiet confidence",
+  },
+};
+
+/** 雛形の無いブランドの CM（ブランド文書の imagePolicy.styleText があればそちらを優先） */
+const GENERIC_CM_PROFILE: BrandCmProfile = {
+  heroSubject: "stationary curated objects with visible material texture, soft reflections",
+  visualScene: "quiet minimal studio, soft natural light, refined premium atmosphere",
+  brandMessage: "quiet beauty, material honesty, calm confidence",
+};
+
+/** VENTO / RIVA の商品選定の相性語（旧 productSelector の VENTO_WORDS） */
+export const BRAND_RESEARCH_PRESETS: Record<string, BrandResearchProfile> = {
+  vento: {
+    fitLabel: "Vento相性",
+    fitWords: [
+      "vento",
+      "昭和",
+      "日本",
+      "日本製",
+      "古い",
+      "レトロ",
+      "ヴィンテージ",
+      "vintage",
+      "金属",
+      "質感",
+      "静か",
+      "ノスタルジー",
+      "ミニカー",
+      "カメラ",
+      "時計",
+      "ラジオ",
+      "企業物",
+      "日本語",
+      "無骨",
+      "工業",
+      "アナログ",
+    ],
+  },
+  riva: {
+    fitLabel: "Riva相性",
+    fitWords: [
+      "riva",
+      "旧車",
+      "クラシックカー",
+      "ヴィンテージカー",
+      "classic car",
+      "車",
+      "ミニカー",
+      "エンブレム",
+      "クローム",
+      "メッキ",
+      "計器",
+      "メーター",
+      "革",
+      "ステアリング",
+      "整備",
+      "部品",
+      "機械",
+      "工業",
+      "金属",
+      "アナログ",
+    ],
+  },
+};
+
+function safeText(value: unknown) {
+  return String(value ?? "").trim();
+}
+
+function toWords(value: unknown, limit = 40): string[] {
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\n,、]/g) : [];
+  const out: string[] = [];
+  for (const v of list) {
+    const s = safeText(v);
+    if (s && !out.includes(s)) out.push(s);
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+/**
+ * ブランドIDを揃える
+ * - Firestore の文書IDとして使えるもの（空・"/"入り・"."/".." は不可）
+ * - 旧データは brand / brandId どちらかに入っているので、呼び出し側で `v.brandId ?? v.brand` を渡す
+ */
+export function normalizeBrandId(value: unknown, fallback: BrandId = DEFAULT_BRAND_ID): BrandId {
+  const s = safeText(value);
+  if (!s || s.includes("/") || s === "." || s === ".." || s.length > 100) return fallback;
+  return s;
+}
+
+/** 画面表示用のブランド名（ブランド文書の name が無ければ ID を大文字で） */
+export function brandDisplayName(brandId: unknown, name?: unknown) {
+  return safeText(name) || normalizeBrandId(brandId).toUpperCase();
+}
+
+/**
+ * CMで映すもの
+ * - brandDoc.cmProfile → VENTO / RIVA の雛形 → imagePolicy.styleText / 汎用
+ */
+export function normalizeBrandCmProfile(brandDoc: unknown, brandId: unknown): BrandCmProfile {
+  const doc = (brandDoc && typeof brandDoc === "object" ? brandDoc : {}) as Record<string, any>;
+  const raw = (doc.cmProfile && typeof doc.cmProfile === "object" ? doc.cmProfile : {}) as Record<string, unknown>;
+  const preset = BRAND_CM_PRESETS[normalizeBrandId(brandId)];
+  const styleText = safeText(doc.imagePolicy?.styleText);
+
+  const base: BrandCmProfile = preset ?? {
+    ...GENERIC_CM_PROFILE,
+    ...(styleText ? { visualScene: styleText } : {}),
+  };
+
+  return {
+    heroSubject: safeText(raw.heroSubject) || base.heroSubject,
+    visualScene: safeText(raw.visualScene) || base.visualScene,
+    brandMessage: safeText(raw.brandMessage) || base.brandMessage,
+  };
+}
+
+/**
+ * 商品選定の相性語
+ * - brandDoc.researchProfile → VENTO / RIVA の雛形 → ブランド名 + captionPolicy.must
+ */
+export function normalizeBrandResearchProfile(brandDoc: unknown, brandId: unknown): BrandResearchProfile {
+  const doc = (brandDoc && typeof brandDoc === "object" ? brandDoc : {}) as Record<string, any>;
+  const raw = (doc.researchProfile && typeof doc.researchProfile === "object" ? doc.researchProfile : {}) as Record<
+    string,
+    unknown
+  >;
+  const id = normalizeBrandId(brandId);
+  const name = brandDisplayName(id, doc.name);
+  const preset = BRAND_RESEARCH_PRESETS[id];
+
+  const fitWords = toWords(raw.fitWords);
+
+  return {
+    fitLabel: safeText(raw.fitLabel) || preset?.fitLabel || `${name}相性`,
+    fitWords:
+      fitWords.length > 0
+        ? fitWords
+        : preset?.fitWords ?? toWords([safeText(doc.name) || id, ...toWords(doc.captionPolicy?.must)]),
+  };
+}
+
+export function brandOptionFromDoc(id: string, data: unknown): BrandOption {
+  const doc = (data && typeof data === "object" ? data : {}) as Record<string, any>;
+  return {
+    id: normalizeBrandId(id),
+    name: brandDisplayName(id, doc.name),
+    isActive: typeof doc.isActive === "boolean" ? doc.isActive : true,
+    researchProfile: normalizeBrandResearchProfile(doc, id),
+  };
+}
+
+/**
+ * 選択肢がまだ読めていない / ブランド文書が無い時の選択肢
+ * - 下書きに入っている brandId は一覧に無くても必ず残す（消えると切り替えられなくなる）
+ */
+export function withFallbackBrandOptions(options: BrandOption[], ensureIds: unknown[] = []): BrandOption[] {
+  const out = options.length > 0 ? [...options] : [brandOptionFromDoc(DEFAULT_BRAND_ID, null)];
+  for (const raw of ensureIds) {
+    const id = normalizeBrandId(raw, "");
+    if (id && !out.some((o) => o.id === id)) out.push(brandOptionFromDoc(id, null));
+  }
+  return out;
+}
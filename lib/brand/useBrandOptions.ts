@@ -0,0 +1,44 @@
+// /lib/brand/useBrandOptions.ts
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/firebase";
+import { brandOptionFromDoc, type BrandOption } from "@/lib/brand/brands";
+
+/**
+ * ユーザーのブランド一覧（users/{uid}/brands）
+ *
+ * - 下書きのブランド切替 / 一覧のブランド表示・絞り込みに使う
+ * - 有効なブランドを先に、名前順
+ * - 読めない時は空配列（呼び出し側で withFallbackBrandOptions を使う）
+ */
+export default function useBrandOptions(uid: string | null | undefined): BrandOption[] {
+  const [options, setOptions] = useState<BrandOption[]>([]);
+
+  useEffect(() => {
+    let alive = true;
+
+    if (!uid) {
+      setOptions([]);
+      return;
+    }
+
+    getDocs(collection(db, `users/${uid}/brands`))
+      .then((snap) => {
+        if (!alive) return;
+        const list = snap.docs.map((d) => brandOptionFromDoc(d.id, d.data()));
+        list.sort((a, b) => Number(b.isActive) - Number(a.isActive) || a.name.localeCompare(b.name));
+        setOptions(list);
+      })
+      .catch((e) => {
+        console.warn("[useBrandOptions] load failed:", e);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [uid]);
+
+  return options;
+}
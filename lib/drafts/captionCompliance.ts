@@ -0,0 +1,410 @@
+// lib/drafts/captionCompliance.ts
+import type {
+  CaptionComplianceField,
+  CaptionComplianceReport,
+  CaptionViolation,
+  EcSalesTextSet,
+  SavedCaptionSet,
+} from "@/lib/types/draft";
+import { isOverseasCaptionLanguage } from "@/lib/drafts/captionLanguages";
+
+/**
+ * 文章チェック（生成した文章をそのまま出さないためのルール）
+ *
+ * ✅ ブランドの captionPolicy.ban（禁止語）/ must（必須語）
+ * ✅ 出品先ごとの文字数（メルカリのタイトル40文字 / X の280（全角は2）など）
+ * ✅ ハッシュタグ数（Instagram は30個まで）
+ * ✅ 禁止表現（根拠の無い最上級・断定 / 効能 / 外部取引への誘導）
+ *
+ * 結果は違反ごとに「どの欄・どの出品先・何が・どう直すか」を返す。
+ * 機械的に直せるもの（禁止語の削除・文字数の切り詰め・タグ削減）は fixedText に修正案を入れる。
+ * 数値は各サービスの上限の目安。変わったらここだけ直す。
+ */
+
+export type CaptionRuleTarget = "instagram" | "x" | "mercari" | "yahoo_auction" | "rakuma" | "jmty" | "other";
+
+type ForbiddenExpression = {
+  pattern: RegExp;
+  reason: string;
+  /** 置き換え語（空なら削除） */
+  replacement: string;
+  severity: CaptionViolation["severity"];
+};
+
+type PlatformRule = {
+  label: string;
+  /** この出品先でチェックする欄 */
+  fields: CaptionComplianceField[];
+  titleMax?: number;
+  textMax?: number;
+  /** X の文字数（全角などは2として数える） */
+  weighted?: boolean;
+  hashtagMax?: number;
+  hashtagSeverity?: CaptionViolation["severity"];
+  forbidden: ForbiddenExpression[];
+};
+
+const COMMON_FORBIDDEN: ForbiddenExpression[] = [
+  { pattern: /最安値/g, reason: "根拠を示せない最上級表現（景品表示法）", replacement: "お求めやすい価格", severity: "warning" },
+  { pattern: /日本一|世界一|業界初|No\.?\s?1|ナンバーワン/gi, reason: "根拠を示せない最上級表現（景品表示法）", replacement: "", severity: "warning" },
+  { pattern: /絶対に?|必ず|100[%％]/g, reason: "断定的な言い切り", replacement: "", severity: "warning" },
+  { pattern: /治る|治ります|効く|効きます|効果抜群/g, reason: "効能をうたう表現（薬機法）", replacement: "", severity: "error" },
+];
+
+const MARKETPLACE_FORBIDDEN: ForbiddenExpression[] = [
+  ...COMMON_FORBIDDEN,
+  { pattern: /https?:\/\/\S+/g, reason: "外部サイトへの誘導（出品規約）", replacement: "", severity: "error" },
+  { pattern: /直接取引|LINE(?![A-Za-z])|外部サイト/g, reason: "サービス外での取引への誘導（出品規約）", replacement: "", severity: "error" },
+];
+
+const EC_FIELDS: CaptionComplianceField[] = ["ecTitle", "ecDescription", "ecBullets"];
+
+export const CAPTION_PLATFORM_RULES: Record<CaptionRuleTarget, PlatformRule> = {
+  instagram: {
+    label: "Instagram",
+    fields: ["ig", "instagramSales"],
+    textMax: 2200,
+    hashtagMax: 30,
+    hashtagSeverity: "error",
+    forbidden: COMMON_FORBIDDEN,
+  },
+  x: {
+    label: "X",
+    fields: ["x", "xSales"],
+    textMax: 280,
+    weighted: true,
+    hashtagMax: 3,
+    hashtagSeverity: "warning",
+    forbidden: COMMON_FORBIDDEN,
+  },
+  mercari: {
+    label: "メルカリ",
+    fields: EC_FIELDS,
+    titleMax: 40,
+    textMax: 1000,
+    forbidden: MARKETPLACE_FORBIDDEN,
+  },
+  yahoo_auction: {
+    label: "ヤフオク",
+    fields: EC_FIELDS,
+    titleMax: 65,
+    forbidden: MARKETPLACE_FORBIDDEN,
+  },
+  rakuma: {
+    label: "ラクマ",
+    fields: EC_FIELDS,
+    titleMax: 40,
+    textMax: 3000,
+    forbidden: MARKETPLACE_FORBIDDEN,
+  },
+  jmty: {
+    label: "ジモティー",
+    fields: EC_FIELDS,
+    forbidden: MARKETPLACE_FORBIDDEN,
+  },
+  other: {
+    label: "その他EC",
+    fields: EC_FIELDS,
+    forbidden: COMMON_FORBIDDEN,
+  },
+};
+
+export const DEFAULT_CAPTION_RULE_TARGETS: CaptionRuleTarget[] = ["instagram", "x", "mercari"];
+
+export const CAPTION_FIELD_LABELS: Record<CaptionComplianceField, string> = {
+  ig: "Instagram 本文",
+  x: "X 投稿文",
+  instagramSales: "Instagram 販売用本文",
+  xSales: "X 販売用投稿文",
+  ecTitle: "EC商品タイトル",
+  ecDescription: "EC商品説明文",
+  ecBullets: "EC訴求ポイント",
+};
+
+export function isCaptionRuleTarget(value: unknown): value is CaptionRuleTarget {
+  return typeof value === "string" && Object.hasOwn(CAPTION_PLATFORM_RULES, value);
+}
+
+export type CaptionComplianceInput = (SavedCaptionSet | EcSalesTextSet) & {
+  ig?: string;
+  x?: string;
+  language?: SavedCaptionSet["language"];
+};
+
+export type CaptionComplianceOptions = {
+  must?: string[];
+  ban?: string[];
+  targets?: CaptionRuleTarget[];
+  now?: number;
+};
+
+function safeText(value: unknown) {
+  return String(value ?? "").trim();
+}
+
+function toWords(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const out: string[] = [];
+  for (const v of value) {
+    const s = safeText(v);
+    if (s && !out.includes(s)) out.push(s);
+  }
+  return out;
+}
+
+function fieldText(set: CaptionComplianceInput, field: CaptionComplianceField): string {
+  if (field === "ecBullets") {
+    return (Array.isArray(set.ecBullets) ? set.ecBullets : []).map((v) => safeText(v)).filter(Boolean).join("\n");
+  }
+  return safeText((set as Record<string, unknown>)[field]);
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** 削除・置換のあとに残る余分な空白を整える */
+function tidy(text: string) {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ 　]{2,}/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function charLength(text: string) {
+  return Array.from(text).length;
+}
+
+/**
+ * X の文字数（twitter-text の重み付けに合わせた目安）
+ * - 半角英数・記号などは1、それ以外（日本語など）は2
+ * - URL は長さに関係なく23
+ */
+export function weightedLength(text: string) {
+  let total = 0;
+  const withoutUrls = text.replace(/https?:\/\/\S+/g, () => {
+    total += 23;
+    return "";
+  });
+
+  for (const ch of Array.from(withoutUrls)) {
+    const cp = ch.codePointAt(0) ?? 0;
+    const light =
+      cp <= 0x10ff ||
+      (cp >= 0x2000 && cp <= 0x200d) ||
+      (cp >= 0x2010 && cp <= 0x201f) ||
+      (cp >= 0x2032 && cp <= 0x2037);
+    total += light ? 1 : 2;
+  }
+
+  return total;
+}
+
+function truncateTo(text: string, max: number, weighted: boolean) {
+  const measure = weighted ? weightedLength : charLength;
+  if (measure(text) <= max) return text;
+
+  const chars = Array.from(text);
+  let out = "";
+  for (const ch of chars) {
+    if (measure(`${out}${ch}…`) > max) break;
+    out += ch;
+  }
+  return `${out.trimEnd()}…`;
+}
+
+const HASHTAG_RE = /[#＃][^\s#＃]+/g;
+
+function limitHashtags(text: string, max: number) {
+  let count = 0;
+  return tidy(
+    text.replace(HASHTAG_RE, (tag) => {
+      count += 1;
+      return count <= max ? tag : "";
+    })
+  );
+}
+
+/** 同じ指摘を見分けるためのキー（画面の「修正案を反映」で使う） */
+export function captionViolationKey(v: CaptionViolation) {
+  return `${v.field ?? "all"}:${v.target}:${v.rule}:${v.match ?? ""}`;
+}
+
+/**
+ * 文章セット（SavedCaptionSet / EcSalesTextSet）をチェックする
+ * - 海外向け（language が ja 以外）の文章は日本語の must を探さない（ban と出品先ルールは見る）
+ */
+export function checkCaptionCompliance(
+  set: CaptionComplianceInput,
+  options: CaptionComplianceOptions = {}
+): CaptionComplianceReport {
+  const must = toWords(options.must);
+  const ban = toWords(options.ban);
+  const targets = (options.targets ?? DEFAULT_CAPTION_RULE_TARGETS).filter(isCaptionRuleTarget);
+  const violations: CaptionViolation[] = [];
+  const seen = new Set<string>();
+
+  const push = (v: CaptionViolation) => {
+    const key = captionViolationKey(v);
+    if (seen.has(key)) return;
+    seen.add(key);
+    violations.push(v);
+  };
+
+  const allFields = Object.keys(CAPTION_FIELD_LABELS) as CaptionComplianceField[];
+
+  /* ---- ブランドの禁止語 ---- */
+  for (const field of allFields) {
+    const text = fieldText(set, field);
+    if (!text) continue;
+
+    for (const word of ban) {
+      const re = new RegExp(escapeRegExp(word), "gi");
+      if (!re.test(text)) continue;
+
+      push({
+        field,
+        target: "brand",
+        rule: "brand_ban",
+        severity: "error",
+        match: word,
+        message: `${CAPTION_FIELD_LABELS[field]}にブランドの禁止語「${word}」が入っています`,
+        suggestion: `「${word}」を削除するか、ブランドの言葉で言い換えてください`,
+        fixedText: tidy(text.replace(re, "")),
+      });
+    }
+  }
+
+  /* ---- ブランドの必須語（文章全体のどこかに入っていればよい） ---- */
+  if (!isOverseasCaptionLanguage(set.language)) {
+    const whole = allFields.map((f) => fieldText(set, f)).join("\n").toLowerCase();
+
+    if (whole.trim()) {
+      for (const word of must) {
+        if (whole.includes(word.toLowerCase())) continue;
+
+        push({
+          target: "brand",
+          rule: "brand_must",
+          severity: "warning",
+          match: word,
+          message: `ブランドの必須語「${word}」がどの文章にも入っていません`,
+          suggestion: `Instagram 本文か EC商品説明文に「${word}」を自然に入れてください`,
+        });
+      }
+    }
+  }
+
+  /* ---- 出品先ごとのルール ---- */
+  for (const target of targets) {
+    const rule = CAPTION_PLATFORM_RULES[target];
+
+    for (const field of rule.fields) {
+      const text = fieldText(set, field);
+      if (!text) continue;
+
+      const max = field === "ecTitle" ? rule.titleMax : field === "ecBullets" ? undefined : rule.textMax;
+      if (max) {
+        const actual = rule.weighted ? weightedLength(text) : charLength(text);
+        if (actual > max) {
+          push({
+            field,
+            target,
+            rule: "length",
+            severity: "error",
+            limit: max,
+            actual,
+            message: `${rule.label}の${CAPTION_FIELD_LABELS[field]}は${max}文字までです（今 ${actual}${rule.weighted ? "・全角は2として数える" : ""}）`,
+            suggestion: `${actual - max}文字ほど短くしてください`,
+            fixedText: truncateTo(text, max, !!rule.weighted),
+          });
+        }
+      }
+
+      if (rule.hashtagMax !== undefined) {
+        const tags = text.match(HASHTAG_RE) ?? [];
+        if (tags.length > rule.hashtagMax) {
+          push({
+            field,
+            target,
+            rule: "hashtag_count",
+            severity: rule.hashtagSeverity ?? "warning",
+            limit: rule.hashtagMax,
+            actual: tags.length,
+            message: `${rule.label}のハッシュタグは${rule.hashtagMax}個までにしてください（今 ${tags.length}個）`,
+            suggestion: "関係の薄いタグから外してください",
+            fixedText: limitHashtags(text, rule.hashtagMax),
+          });
+        }
+      }
+
+      for (const expr of rule.forbidden) {
+        const found = text.match(expr.pattern);
+        if (!found?.length) continue;
+
+        push({
+          field,
+          target,
+          rule: "forbidden_expression",
+          severity: expr.severity,
+          match: found[0],
+          message: `${CAPTION_FIELD_LABELS[field]}に「${found[0]}」が入っています（${expr.reason}）`,
+          suggestion: expr.replacement
+            ? `「${expr.replacement}」などに言い換えてください`
+            : "削除するか、事実として示せる表現に言い換えてください",
+          fixedText: tidy(text.replace(expr.pattern, expr.replacement)),
+        });
+      }
+    }
+  }
+
+  const errorCount = violations.filter((v) => v.severity === "error").length;
+
+  return {
+    checkedAt: options.now ?? Date.now(),
+    ok: errorCount === 0,
+    errorCount,
+    warningCount: violations.length - errorCount,
+    violations,
+    targets,
+    must,
+    ban,
+  };
+}
+
+/** 保存済みの結果を読む（壊れた値は捨てる） */
+export function normalizeCaptionComplianceReport(raw: unknown): CaptionComplianceReport | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, any>;
+  if (!Array.isArray(data.violations)) return undefined;
+
+  const violations: CaptionViolation[] = data.violations
+    .filter((v: any) => v && typeof v === "object" && typeof v.rule === "string")
+    .map((v: any) => ({
+      ...(typeof v.field === "string" && Object.hasOwn(CAPTION_FIELD_LABELS, v.field) ? { field: v.field as CaptionComplianceField } : {}),
+      target: safeText(v.target) || "brand",
+      rule: v.rule,
+      severity: v.severity === "error" ? "error" : "warning",
+      message: safeText(v.message),
+      suggestion: safeText(v.suggestion),
+      ...(safeText(v.match) ? { match: safeText(v.match) } : {}),
+      ...(typeof v.limit === "number" ? { limit: v.limit } : {}),
+      ...(typeof v.actual === "number" ? { actual: v.actual } : {}),
+      ...(typeof v.fixedText === "string" ? { fixedText: v.fixedText } : {}),
+    }));
+
+  const errorCount = violations.filter((v) => v.severity === "error").length;
+
+  return {
+    checkedAt: typeof data.checkedAt === "number" ? data.checkedAt : Date.now(),
+    ok: errorCount === 0,
+    errorCount,
+    warningCount: violations.length - errorCount,
+    violations,
+    targets: toWords(data.targets).filter(isCaptionRuleTarget),
+    must: toWords(data.must),
+    ban: toWords(data.ban),
+  };
+}
@@ -0,0 +1,393 @@
+// lib/drafts/captionExperiments.ts
+import type {
+  BrandId,
+  CaptionStyle,
+  CaptionVariantOutcome,
+  DraftOutcome,
+  ImagePurpose,
+  SavedCaptionSet,
+} from "@/lib/types/draft";
+
+/**
+ * 文章の A/B（投稿した文章ごとの成果）
+ *
+ * ✅ 保管した文章（savedCaptionSets）のどれを投稿したかを outcome.postedCaptionSetId に残す
+ * ✅ 投稿版ごとの閲覧・いいね・売れるまでの日数を outcome.captionVariants に残す
+ *    （下書き全体の数値から、投稿版にした時点の数値を引いてその版の分にする）
+ * ✅ ブランド別 / 画像の目的（imagePurpose）別に、文章の型（販売 / ブランド / 物語）の成果をまとめる
+ * ✅ まとめは /api/generate-captions のプロンプトに「成果の良かった例」として渡す
+ */
+
+export const CAPTION_STYLES: { id: CaptionStyle; label: string }[] = [
+  { id: "sales", label: "販売寄り" },
+  { id: "branding", label: "ブランド" },
+  { id: "story", label: "物語" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** これ以上かかった販売は速さの点を付けない */
+const SLOW_SELL_DAYS = 60;
+
+const SALES_WORDS = /価格|円|送料|購入|お買い|販売|在庫|限定|今だけ|お得|セール|注文|即購入|出品|プロフィールのリンク|DM/g;
+const STORY_WORDS = /思い出|記憶|あの頃|物語|ストーリー|出会|受け継|時代|昔|祖父|祖母|父|母|旅|歩ん|刻ん|懐かし/g;
+
+function safeText(value: unknown) {
+  return String(value ?? "").trim();
+}
+
+function safeNumber(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, n) => sum + n, 0) / values.length : undefined;
+}
+
+export function normalizeCaptionStyle(value: unknown): CaptionStyle | undefined {
+  return CAPTION_STYLES.some((s) => s.id === value) ? (value as CaptionStyle) : undefined;
+}
+
+export function captionStyleLabel(style: unknown) {
+  return CAPTION_STYLES.find((s) => s.id === style)?.label ?? "—";
+}
+
+/**
+ * 文章の型を推定する（style が保存されていない文章用）
+ * - Instagram / X 本文の語で判定。どちらも弱ければブランド
+ */
+export function classifyCaptionStyle(set: Partial<SavedCaptionSet>): CaptionStyle {
+  const saved = normalizeCaptionStyle(set.style);
+  if (saved) return saved;
+
+  const text = [set.ig, set.x].map(safeText).join("\n");
+  const sales = text.match(SALES_WORDS)?.length ?? 0;
+  const story = text.match(STORY_WORDS)?.length ?? 0;
+
+  if (sales >= 2 && sales > story) return "sales";
+  if (story >= 2 && story >= sales) return "story";
+  return "branding";
+}
+
+function captionExcerpt(set: Partial<SavedCaptionSet>) {
+  const text = safeText(set.ig) || safeText(set.x) || safeText(set.ecDescription);
+  return text.replace(/\s+/g, " ").slice(0, 160);
+}
+
+export function normalizeCaptionVariants(raw: unknown): CaptionVariantOutcome[] {
+  if (!Array.isArray(raw)) return [];
+
+  const out: CaptionVariantOutcome[] = [];
+
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const v = item as Record<string, unknown>;
+    const captionSetId = safeText(v.captionSetId);
+    if (!captionSetId || out.some((x) => x.captionSetId === captionSetId)) continue;
+
+    const variant: CaptionVariantOutcome = {
+      captionSetId,
+      style: normalizeCaptionStyle(v.style) ?? "branding",
+      postedAt: safeNumber(v.postedAt) ?? Date.now(),
+    };
+
+    const label = safeText(v.label);
+    const excerpt = safeText(v.excerpt);
+    if (label) variant.label = label;
+    if (excerpt) variant.excerpt = excerpt.slice(0, 160);
+
+    for (const key of ["startViews", "startLikes", "views", "likes", "listedAt", "soldAt", "updatedAt"] as const) {
+      const n = safeNumber(v[key]);
+      if (n !== undefined) variant[key] = n;
+    }
+
+    out.push(variant);
+  }
+
+  return out.slice(0, 20);
+}
+
+/**
+ * 今の投稿版に下書き全体の成果を写す
+ * - 閲覧・いいね：全体 − 投稿版にした時点
+ * - 売れた日：投稿版にしていた間に売れた時だけ
+ */
+export function syncPostedCaptionVariant(outcome: DraftOutcome, now = Date.now()): DraftOutcome {
+  const variants = normalizeCaptionVariants(outcome.captionVariants);
+  const postedId = safeText(outcome.postedCaptionSetId);
+  if (!postedId || variants.length === 0) return outcome;
+
+  const next = variants.map((v) => {
+    if (v.captionSetId !== postedId) return v;
+
+    const synced: CaptionVariantOutcome = { ...v, updatedAt: now };
+    if (outcome.views !== undefined) synced.views = Math.max(0, outcome.views - (v.startViews ?? 0));
+    if (outcome.likes !== undefined) synced.likes = Math.max(0, outcome.likes - (v.startLikes ?? 0));
+    if (outcome.listedAt !== undefined) synced.listedAt = outcome.listedAt;
+    if (outcome.soldAt !== undefined && outcome.soldAt >= v.postedAt) synced.soldAt = outcome.soldAt;
+    return synced;
+  });
+
+  return { ...outcome, captionVariants: next };
+}
+
+/**
+ * 保管した文章を投稿版にする
+ * - 前の投稿版には、ここまでの成果を写してから切り替える
+ * - 一度投稿した文章に戻した時は、その版の記録を続けて使う
+ */
+export function markPostedCaptionVariant(
+  outcome: DraftOutcome | undefined,
+  set: SavedCaptionSet,
+  now = Date.now()
+): DraftOutcome {
+  const base: DraftOutcome = outcome
+    ? syncPostedCaptionVariant(outcome, now)
+    : { status: "posted" };
+
+  const variants = normalizeCaptionVariants(base.captionVariants);
+
+  if (!variants.some((v) => v.captionSetId === set.id)) {
+    const variant: CaptionVariantOutcome = {
+      captionSetId: set.id,
+      style: classifyCaptionStyle(set),
+      postedAt: now,
+    };
+    const excerpt = captionExcerpt(set);
+    if (set.label) variant.label = set.label;
+    if (excerpt) variant.excerpt = excerpt;
+    if (base.views !== undefined) variant.startViews = base.views;
+    if (base.likes !== undefined) variant.startLikes = base.likes;
+    variants.push(variant);
+  }
+
+  return {
+    ...base,
+    status: base.status === "unknown" ? "posted" : base.status,
+    postedCaptionSetId: set.id,
+    captionVariants: variants,
+    updatedAt: now,
+  };
+}
+
+/** 投稿版にしてから（出品が後ならその日から）売れるまでの日数 */
+export function variantSellDays(v: CaptionVariantOutcome): number | undefined {
+  if (v.soldAt === undefined) return undefined;
+  const start = Math.max(v.postedAt, v.listedAt ?? v.postedAt);
+  if (v.soldAt < start) return undefined;
+  return (v.soldAt - start) / DAY_MS;
+}
+
+/* ---- まとめ（ブランド別 / 画像の目的別） ---- */
+
+export type CaptionExperimentRow = {
+  brandId: BrandId;
+  imagePurpose?: ImagePurpose;
+  outcome?: DraftOutcome;
+};
+
+export type CaptionStyleStat = {
+  style: CaptionStyle;
+  variants: number;
+  sold: number;
+  soldRate: number;
+  averageSellDays?: number;
+  averageViews?: number;
+  averageLikes?: number;
+  /** 0〜100。売れた割合と売れる速さ */
+  score: number;
+};
+
+export type CaptionExperimentGroup = {
+  key: string;
+  brandId?: BrandId;
+  imagePurpose?: ImagePurpose;
+  variants: number;
+  styles: CaptionStyleStat[];
+  bestStyle?: CaptionStyle;
+};
+
+export type CaptionExperimentExample = {
+  brandId: BrandId;
+  imagePurpose?: ImagePurpose;
+  style: CaptionStyle;
+  excerpt: string;
+  sellDays?: number;
+  views?: number;
+  likes?: number;
+};
+
+export type CaptionExperimentReport = {
+  generatedAt: number;
+  variantCount: number;
+  byBrand: CaptionExperimentGroup[];
+  byPurpose: CaptionExperimentGroup[];
+  byBrandPurpose: CaptionExperimentGroup[];
+  /** 売れた・反応が良かった投稿版（プロンプトの例） */
+  examples: CaptionExperimentExample[];
+};
+
+type FlatVariant = {
+  brandId: BrandId;
+  imagePurpose?: ImagePurpose;
+  variant: CaptionVariantOutcome;
+};
+
+function round1(n: number | undefined) {
+  return n === undefined ? undefined : Math.round(n * 10) / 10;
+}
+
+function styleStats(items: FlatVariant[]): CaptionStyleStat[] {
+  return CAPTION_STYLES.map(({ id }) => {
+    const list = items.filter((x) => x.variant.style === id).map((x) => x.variant);
+    const soldDays = list.map(variantSellDays).filter((n): n is number => n !== undefined);
+    const sold = list.filter((v) => v.soldAt !== undefined).length;
+    const soldRate = list.length > 0 ? sold / list.length : 0;
+    const averageSellDays = average(soldDays);
+
+    const stat: CaptionStyleStat = {
+      style: id,
+      variants: list.length,
+      sold,
+      soldRate: Math.round(soldRate * 100) / 100,
+      score: Math.round(
+        soldRate * 70 + (averageSellDays !== undefined ? clamp(1 - averageSellDays / SLOW_SELL_DAYS, 0, 1) * 30 : 0)
+      ),
+    };
+
+    const averageViews = average(list.map((v) => v.views).filter((n): n is number => n !== undefined));
+    const averageLikes = average(list.map((v) => v.likes).filter((n): n is number => n !== undefined));
+    if (averageSellDays !== undefined) stat.averageSellDays = round1(averageSellDays);
+    if (averageViews !== undefined) stat.averageViews = Math.round(averageViews);
+    if (averageLikes !== undefined) stat.averageLikes = Math.round(averageLikes);
+
+    return stat;
+  }).filter((s) => s.variants > 0);
+}
+
+function groupBy(items: FlatVariant[], keyOf: (x: FlatVariant) => string | null): CaptionExperimentGroup[] {
+  const map = new Map<string, FlatVariant[]>();
+  for (const x of items) {
+    const key = keyOf(x);
+    if (key === null) continue;
+    map.set(key, [...(map.get(key) ?? []), x]);
+  }
+
+  return Array.from(map.entries())
+    .map(([key, list]) => {
+      const styles = styleStats(list);
+      const best = [...styles].sort((a, b) => b.score - a.score || b.variants - a.variants)[0];
+      const group: CaptionExperimentGroup = { key, variants: list.length, styles };
+      if (best && best.score > 0) group.bestStyle = best.style;
+      return group;
+    })
+    .sort((a, b) => b.variants - a.variants);
+}
+
+export function buildCaptionExperimentReport(rows: CaptionExperimentRow[], now = Date.now()): CaptionExperimentReport {
+  const items: FlatVariant[] = [];
+
+  for (const row of rows) {
+    if (!row.outcome) continue;
+    for (const variant of normalizeCaptionVariants(syncPostedCaptionVariant(row.outcome, now).captionVariants)) {
+      items.push({ brandId: row.brandId, imagePurpose: row.imagePurpose, variant });
+    }
+  }
+
+  const withBrand = (g: CaptionExperimentGroup, brandId: BrandId) => ({ ...g, brandId });
+
+  const byBrand = groupBy(items, (x) => x.brandId).map((g) => withBrand(g, g.key));
+  const byPurpose = groupBy(items, (x) => x.imagePurpose ?? null).map((g) => ({
+    ...g,
+    imagePurpose: g.key as ImagePurpose,
+  }));
+  const byBrandPurpose = groupBy(items, (x) => (x.imagePurpose ? `${x.brandId}::${x.imagePurpose}` : null)).map(
+    (g) => {
+      const [brandId, imagePurpose] = g.key.split("::");
+      return { ...g, brandId, imagePurpose: imagePurpose as ImagePurpose };
+    }
+  );
+
+  const examples: CaptionExperimentExample[] = items
+    .filter((x) => x.variant.excerpt && (x.variant.soldAt !== undefined || (x.variant.likes ?? 0) > 0))
+    .map((x) => {
+      const sellDays = variantSellDays(x.variant);
+      const example: CaptionExperimentExample = {
+        brandId: x.brandId,
+        style: x.variant.style,
+        excerpt: x.variant.excerpt!,
+      };
+      if (x.imagePurpose) example.imagePurpose = x.imagePurpose;
+      if (sellDays !== undefined) example.sellDays = round1(sellDays);
+      if (x.variant.views !== undefined) example.views = x.variant.views;
+      if (x.variant.likes !== undefined) example.likes = x.variant.likes;
+      return example;
+    })
+    .sort(
+      (a, b) =>
+        Number(b.sellDays !== undefined) - Number(a.sellDays !== undefined) ||
+        (a.sellDays ?? 0) - (b.sellDays ?? 0) ||
+        (b.likes ?? 0) - (a.likes ?? 0)
+    )
+    .slice(0, 30);
+
+  return {
+    generatedAt: now,
+    variantCount: items.length,
+    byBrand,
+    byPurpose,
+    byBrandPurpose,
+    examples,
+  };
+}
+
+/**
+ * 文章生成のプロンプトに入れる行
+ * - 同じブランド・同じ画像の目的の成果を優先し、無ければブランド全体
+ */
+export function captionExperimentPromptLines(
+  report: CaptionExperimentReport,
+  target: { brandId: BrandId; imagePurpose?: ImagePurpose },
+  maxExamples = 3
+): string[] {
+  const group =
+    (target.imagePurpose
+      ? report.byBrandPurpose.find((g) => g.brandId === target.brandId && g.imagePurpose === target.imagePurpose)
+      : undefined) ?? report.byBrand.find((g) => g.brandId === target.brandId);
+
+  const examples = report.examples
+    .filter((e) => e.brandId === target.brandId)
+    .sort(
+      (a, b) =>
+        Number(b.imagePurpose === target.imagePurpose) - Number(a.imagePurpose === target.imagePurpose)
+    )
+    .slice(0, maxExamples);
+
+  if (!group && examples.length === 0) return [];
+
+  const lines: string[] = [];
+
+  if (group) {
+    lines.push(
+      ...group.styles.map(
+        (s) =>
+          `- ${captionStyleLabel(s.style)}: 投稿${s.variants}件 / 売れた${s.sold}件${
+            s.averageSellDays !== undefined ? ` / 平均${s.averageSellDays}日で売れた` : ""
+          }`
+      )
+    );
+    if (group.bestStyle) lines.push(`- 成果が良い型: ${captionStyleLabel(group.bestStyle)}`);
+  }
+
+  for (const e of examples) {
+    const result =
+      e.sellDays !== undefined ? `${e.sellDays}日で売れた` : `いいね${e.likes ?? 0}`;
+    lines.push(`- 例（${captionStyleLabel(e.style)}・${result}）: ${e.excerpt}`);
+  }
+
+  return lines;
+}
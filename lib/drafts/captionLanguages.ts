@@ -0,0 +1,70 @@
+// lib/drafts/captionLanguages.ts
+import type { CaptionLanguage } from "@/lib/types/draft";
+
+/**
+ * 文章生成の対象言語
+ *
+ * ✅ 日本語（従来の IG / X / EC 文章）に加えて、海外マーケット向けの EC 出品文を作る
+ * ✅ /api/generate-captions（プロンプト）と下書き画面（言語選択・保存文章の表示）の両方で使う
+ * ✅ 言語ごとに別の SavedCaptionSet として保存し、日本語と英語の出品文を並べて持てるようにする
+ */
+
+export type CaptionLanguageOption = {
+  id: CaptionLanguage;
+  /** 画面表示用（日本語） */
+  label: string;
+  /** 保存文章の頭に付ける短い印 */
+  badge: string;
+  /** プロンプトで指定する言語名 */
+  promptName: string;
+  /** 想定する出品先（プロンプトの文体の目安） */
+  marketplaceHint: string;
+};
+
+export const DEFAULT_CAPTION_LANGUAGE: CaptionLanguage = "ja";
+
+export const CAPTION_LANGUAGES: CaptionLanguageOption[] = [
+  {
+    id: "ja",
+    label: "日本語",
+    badge: "JP",
+    promptName: "日本語",
+    marketplaceHint: "メルカリ / ヤフオク / ラクマ / 自社EC",
+  },
+  {
+    id: "en",
+    label: "英語",
+    badge: "EN",
+    promptName: "English (natural US English)",
+    marketplaceHint: "eBay / Etsy / Shopify (overseas buyers of Japanese vintage goods)",
+  },
+  {
+    id: "zh-Hant",
+    label: "繁体字中国語",
+    badge: "繁中",
+    promptName: "繁體中文（台灣・香港の購入者向け）",
+    marketplaceHint: "蝦皮購物 / 露天拍賣 / Yahoo!奇摩拍賣",
+  },
+  {
+    id: "ko",
+    label: "韓国語",
+    badge: "KR",
+    promptName: "한국어",
+    marketplaceHint: "번개장터 / 당근마켓 / eBay Korea",
+  },
+];
+
+export function normalizeCaptionLanguage(value: unknown): CaptionLanguage {
+  const s = String(value ?? "").trim();
+  return CAPTION_LANGUAGES.some((l) => l.id === s) ? (s as CaptionLanguage) : DEFAULT_CAPTION_LANGUAGE;
+}
+
+export function captionLanguageOption(value: unknown): CaptionLanguageOption {
+  const id = normalizeCaptionLanguage(value);
+  return CAPTION_LANGUAGES.find((l) => l.id === id) ?? CAPTION_LANGUAGES[0];
+}
+
+/** 海外向け（EC出品文だけを作る）言語か */
+export function isOverseasCaptionLanguage(value: unknown): boolean {
+  return normalizeCaptionLanguage(value) !== DEFAULT_CAPTION_LANGUAGE;
+}
@@ -0,0 +1,52 @@
+// lib/drafts/draftBulk.ts
+import type { Phase } from "@/lib/types/draft";
+
+/**
+ * 下書き一覧の一括操作
+ *
+ * ✅ /api/drafts/bulk と /api/drafts/delete（draftIds 指定時）、一覧画面で共通の型と上限
+ * ✅ 結果は下書きごとに ok / error を返す（一部だけ失敗しても残りは進める）
+ *
+ * action
+ * - phase: 状態（作成中 / 投稿中 / 投稿済み）を変える
+ * - hide: 一覧から非表示にする（本体は残す）
+ * - captions: 文章を作り直す（/api/generate-captions を下書きごとに呼ぶ）
+ * - export: 出品先別 ZIP をまとめて1つの ZIP にする
+ */
+
+export type DraftBulkAction = "phase" | "hide" | "captions" | "export";
+
+export const DRAFT_BULK_ACTIONS: DraftBulkAction[] = ["phase", "hide", "captions", "export"];
+
+export type DraftBulkResult = {
+  draftId: string;
+  ok: boolean;
+  error?: string;
+  phase?: Phase;
+};
+
+/** 1回で扱う件数の上限（文章生成・書き出しは重いので別枠） */
+export const DRAFT_BULK_MAX = 50;
+export const DRAFT_BULK_HEAVY_MAX = 10;
+
+export function isDraftBulkAction(value: unknown): value is DraftBulkAction {
+  return typeof value === "string" && (DRAFT_BULK_ACTIONS as string[]).includes(value);
+}
+
+/** 重複と空文字を除いた draftId の一覧 */
+export function normalizeDraftIds(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+
+  const out: string[] = [];
+  const seen = new Set<string>();
+
+  for (const item of input) {
+    if (typeof item !== "string") continue;
+    const id = item.trim();
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    out.push(id);
+  }
+
+  return out;
+}
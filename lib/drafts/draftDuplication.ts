@@ -0,0 +1,226 @@
+// lib/drafts/draftDuplication.ts
+
+/**
+ * 下書きの複製（色違い・サイズ違いなどのバリエーション作成）
+ *
+ * ✅ 下書きの項目を「引き継ぐまとまり」に分けて、まとまり単位で残す / 消すを選べるようにする
+ * ✅ /api/drafts/duplicate（複製本体）と一覧画面のチェックボックスの両方で使う
+ * ✅ どのまとまりにも入っていない項目（生成中のタスクIDや一覧の並び順など）は複製しない
+ *
+ * 既定
+ * - 引き継ぐ: ブランド / 文章 / 配置 / 背景 / 動画設定
+ * - 消す: 画像・動画 / 成果 / 売れる診断
+ */
+
+export type DraftCarryGroup =
+  | "brand"
+  | "captions"
+  | "placement"
+  | "background"
+  | "videoPreset"
+  | "images"
+  | "outcome"
+  | "sellCheck";
+
+export type DraftCarryOptions = Record<DraftCarryGroup, boolean>;
+
+type CarryGroupDef = {
+  label: string;
+  defaultCarry: boolean;
+  fields: string[];
+};
+
+export const DRAFT_CARRY_GROUPS: Record<DraftCarryGroup, CarryGroupDef> = {
+  brand: {
+    label: "ブランド",
+    defaultCarry: true,
+    fields: ["brandId", "brand", "voice", "ban", "must", "purpose", "platform"],
+  },
+  captions: {
+    label: "文章",
+    defaultCarry: true,
+    fields: [
+      "title",
+      "vision",
+      "keywords",
+      "keywordsText",
+      "igCaption",
+      "xCaption",
+      "shortCopies",
+      "selectedShortCopy",
+      "ig",
+      "x",
+      "ig3",
+      "instagramSales",
+      "xSales",
+      "ecTitle",
+      "ecDescription",
+      "ecBullets",
+      "savedCaptionSets",
+      "hashtagSuggestions",
+      "textEnabled",
+      "textSize",
+      "textY",
+      "bandOpacity",
+      "textOverlayBySlot",
+    ],
+  },
+  placement: {
+    label: "商品配置",
+    defaultCarry: true,
+    fields: [
+      "activePhotoMode",
+      "placement",
+      "stageProducts",
+      "placementStep",
+      "shadowOpacity",
+      "shadowBlur",
+      "shadowScale",
+      "shadowOffsetX",
+      "shadowOffsetY",
+      "backgroundScale",
+      "backgroundX",
+      "backgroundY",
+    ],
+  },
+  background: {
+    label: "背景",
+    defaultCarry: true,
+    fields: [
+      "backgroundSourceTab",
+      "templateBgUrl",
+      "templateBgUrls",
+      "templateBgSelectedId",
+      "templateBgRecommendedIds",
+      "templateBgRecommendations",
+      "templateBgRecommendReason",
+      "bgImageUrl",
+      "bgImageUrls",
+      "bgCandidates",
+      "selectedBgCandidateId",
+      "bgRefinedPrompt",
+      "bgRefinedUrl",
+      "bgRefineEnabled",
+      "imagePurpose",
+      "sizeTemplateType",
+    ],
+  },
+  videoPreset: {
+    label: "動画設定",
+    defaultCarry: true,
+    fields: [
+      "videoSettings",
+      "videoSeconds",
+      "videoQuality",
+      "videoTemplate",
+      "videoSize",
+      "videoPersona",
+      "videoEngine",
+      "videoButtonId",
+      "nonAiVideoPreset",
+      "motion",
+    ],
+  },
+  images: {
+    label: "画像・動画",
+    defaultCarry: false,
+    fields: [
+      "images",
+      "imageUrl",
+      "imageSource",
+      "baseImageUrl",
+      "stageImageUrl",
+      "foregroundImageUrl",
+      "compositeImageUrl",
+      "compositeTextImageUrl",
+      "compositeTextImageUrls",
+      "aiImageUrl",
+      "imageIdeaUrl",
+      "imageIdeaUrls",
+      "originMeta",
+      "staticImageVariants",
+      "selectedStaticVariantId",
+      "selectedStaticPrompt",
+      "selectedStaticVariantTitle",
+      "useSceneImageUrl",
+      "useSceneImageUrls",
+      "sizeTemplateImageUrl",
+      "detailImageUrl",
+      "detailImageUrls",
+      "storyImageUrl",
+      "storyImageUrls",
+      "videoUrl",
+      "videoUrls",
+      "videoSource",
+      "nonAiVideoUrl",
+      "nonAiVideoUrls",
+      "videoBurnedUrl",
+      "videoTextOverlay",
+      "productVideo",
+      "cmVideo",
+    ],
+  },
+  // outcome と sellCheck は同じ outcome 項目の中身を分けて扱う（pickDuplicatedFields 参照）
+  outcome: {
+    label: "成果（出品・販売）",
+    defaultCarry: false,
+    fields: [],
+  },
+  sellCheck: {
+    label: "売れる診断",
+    defaultCarry: false,
+    fields: [],
+  },
+};
+
+export const DRAFT_CARRY_GROUP_KEYS = Object.keys(DRAFT_CARRY_GROUPS) as DraftCarryGroup[];
+
+export function defaultCarryOptions(): DraftCarryOptions {
+  return Object.fromEntries(
+    DRAFT_CARRY_GROUP_KEYS.map((key) => [key, DRAFT_CARRY_GROUPS[key].defaultCarry])
+  ) as DraftCarryOptions;
+}
+
+/** 画面や API から来た部分指定を既定値で埋める */
+export function normalizeCarryOptions(input: unknown): DraftCarryOptions {
+  const base = defaultCarryOptions();
+  if (!input || typeof input !== "object" || Array.isArray(input)) return base;
+
+  const raw = input as Record<string, unknown>;
+  for (const key of DRAFT_CARRY_GROUP_KEYS) {
+    if (typeof raw[key] === "boolean") base[key] = raw[key] as boolean;
+  }
+  return base;
+}
+
+/**
+ * 元の下書きから、引き継ぐ項目だけを取り出す
+ * - userId / phase / 日付 / 親子関係は呼び出し側で付ける
+ */
+export function pickDuplicatedFields(
+  source: Record<string, unknown>,
+  carry: DraftCarryOptions
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+
+  for (const key of DRAFT_CARRY_GROUP_KEYS) {
+    if (!carry[key]) continue;
+    for (const field of DRAFT_CARRY_GROUPS[key].fields) {
+      if (source[field] !== undefined) out[field] = source[field];
+    }
+  }
+
+  const outcome =
+    source.outcome && typeof source.outcome === "object"
+      ? (source.outcome as Record<string, unknown>)
+      : null;
+
+  if (outcome && (carry.outcome || carry.sellCheck)) {
+    const { sellCheck, ...rest } = outcome;
+    const next: Record<string, unknown> = carry.outcome ? { ...rest } : { status: "unknown" };
+    if (carry.sellCheck && sellCheck) next.sellCheck = sellCheck;
+    if (carry.outcome || next.sellCheck) out.outcome = next;
+  }
+
+  return out;
+}
@@ -0,0 +1,154 @@
+// lib/drafts/exportPresets.ts
+import type { SellCheckOutcomePlatform } from "@/lib/types/sellCheck";
+
+/**
+ * 出品先ごとの書き出しプリセット
+ *
+ * ✅ 同じ下書きをメルカリ / ヤフオク / ラクマ / Instagram などへ出す時の
+ *    画像サイズ・枚数・容量・並び順・表紙ルールをここに集約する
+ * ✅ /api/drafts/export（ZIP作成）と画面のボタン表示の両方で使う
+ *
+ * 数値は各サービスの推奨値に余裕を持たせた目安。変わったらここだけ直す。
+ */
+
+export type ExportTarget = SellCheckOutcomePlatform | "instagram" | "x";
+
+/**
+ * 書き出しに使う下書きの画像
+ * - composite: compositeImageUrl（表紙候補）
+ * - detail: detailImageUrls
+ * - useScene: useSceneImageUrls
+ * - sizeTemplate: sizeTemplateImageUrl
+ */
+export type ExportImageSource = "composite" | "detail" | "useScene" | "sizeTemplate";
+
+export type ExportTextKind = "ec" | "instagram" | "x";
+
+export type ExportPreset = {
+  target: ExportTarget;
+  label: string;
+  width: number;
+  height: number;
+  maxImages: number;
+  /** 1枚あたりの上限バイト数（JPEG品質を下げて収める） */
+  maxBytes: number;
+  /** contain = 余白を付けて全体を残す / cover = はみ出しを切る */
+  fit: "contain" | "cover";
+  background: string;
+  order: ExportImageSource[];
+  /** true の時、表紙（1枚目）は合成画像でなければならない */
+  requireCompositeCover: boolean;
+  text: ExportTextKind;
+  coverRule: string;
+};
+
+const MB = 1024 * 1024;
+
+const MARKETPLACE_ORDER: ExportImageSource[] = ["composite", "detail", "useScene", "sizeTemplate"];
+
+export const EXPORT_PRESETS: Record<ExportTarget, ExportPreset> = {
+  mercari: {
+    target: "mercari",
+    label: "メルカリ",
+    width: 1080,
+    height: 1080,
+    maxImages: 20,
+    maxBytes: 8 * MB,
+    fit: "contain",
+    background: "#ffffff",
+    order: MARKETPLACE_ORDER,
+    requireCompositeCover: true,
+    text: "ec",
+    coverRule: "1枚目は商品全体が見える正方形の合成画像",
+  },
+  yahoo_auction: {
+    target: "yahoo_auction",
+    label: "ヤフオク",
+    width: 1200,
+    height: 1200,
+    maxImages: 10,
+    maxBytes: 5 * MB,
+    fit: "contain",
+    background: "#ffffff",
+    order: MARKETPLACE_ORDER,
+    requireCompositeCover: true,
+    text: "ec",
+    coverRule: "1枚目は一覧のサムネイルになるので合成画像",
+  },
+  rakuma: {
+    target: "rakuma",
+    label: "ラクマ",
+    width: 1080,
+    height: 1080,
+    maxImages: 10,
+    maxBytes: 8 * MB,
+    fit: "contain",
+    background: "#ffffff",
+    order: MARKETPLACE_ORDER,
+    requireCompositeCover: true,
+    text: "ec",
+    coverRule: "1枚目は正方形の合成画像",
+  },
+  jmty: {
+    target: "jmty",
+    label: "ジモティー",
+    width: 1080,
+    height: 1080,
+    maxImages: 10,
+    maxBytes: 5 * MB,
+    fit: "contain",
+    background: "#ffffff",
+    order: MARKETPLACE_ORDER,
+    requireCompositeCover: false,
+    text: "ec",
+    coverRule: "1枚目は合成画像（無ければ先頭の画像）",
+  },
+  other: {
+    target: "other",
+    label: "その他EC",
+    width: 1200,
+    height: 1200,
+    maxImages: 10,
+    maxBytes: 5 * MB,
+    fit: "contain",
+    background: "#ffffff",
+    order: MARKETPLACE_ORDER,
+    requireCompositeCover: false,
+    text: "ec",
+    coverRule: "1枚目は合成画像（無ければ先頭の画像）",
+  },
+  instagram: {
+    target: "instagram",
+    label: "Instagram",
+    width: 1080,
+    height: 1350,
+    maxImages: 10,
+    maxBytes: 8 * MB,
+    fit: "contain",
+    background: "#ffffff",
+    order: ["composite", "useScene", "detail", "sizeTemplate"],
+    requireCompositeCover: false,
+    text: "instagram",
+    coverRule: "4:5 縦長。1枚目はフィードで目を止める合成画像",
+  },
+  x: {
+    target: "x",
+    label: "X",
+    width: 1600,
+    height: 900,
+    maxImages: 4,
+    maxBytes: 5 * MB,
+    fit: "contain",
+    background: "#ffffff",
+    order: ["composite", "useScene", "detail", "sizeTemplate"],
+    requireCompositeCover: false,
+    text: "x",
+    coverRule: "16:9 横長。最大4枚",
+  },
+};
+
+export const EXPORT_TARGETS = Object.keys(EXPORT_PRESETS) as ExportTarget[];
+
+export function isExportTarget(value: unknown): value is ExportTarget {
+  return typeof value === "string" && Object.hasOwn(EXPORT_PRESETS, value);
+}
@@ -1,6 +1,6 @@
 // lib/drafts/normalizeDraftImages.ts
 
-import type { DraftImages } from "@/lib/types/draft";
+import type { DraftImageCutout, DraftImages } from "@/lib/types/draft";
 
 /**
  * DraftDoc に images が無い（旧データ）場合に、
@@ -59,4 +59,26 @@ export function normalizeDraftImages<T extends { baseImageUrl?: any; images?: an
       materials: [],
     },
   };
-}
\ No newline at end of file
+}
+/**
+ * DraftImage.cutout を安全に読む
+ * - url が無いものは捨てる（壊れた一括切り抜き結果を持ち回らない）
+ */
+export function normalizeDraftImageCutout(input: unknown): DraftImageCutout | undefined {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return undefined;
+
+  const raw = input as Record<string, unknown>;
+  const url = typeof raw.url === "string" ? raw.url.trim() : "";
+  if (!url) return undefined;
+
+  const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : 0);
+
+  return {
+    url,
+    provider: typeof raw.provider === "string" ? raw.provider : "",
+    engine: typeof raw.engine === "string" ? raw.engine : "",
+    quality: num(raw.quality),
+    elapsed: num(raw.elapsed),
+    at: num(raw.at),
+  };
+}
@@ -0,0 +1,348 @@
+// /lib/hashtags/scoring.ts
+
+/**
+ * ハッシュタグ候補の点数付け（ブラウザ / サーバ共通）
+ *
+ * 材料：
+ * - ブランドのハッシュタグセット（users/{uid}/brands/{brandId}.hashtagSets）
+ * - 下書きの keywords
+ * - 売れる診断の抽出語（outcome.sellCheck.extractedKeywords）
+ * - 生成した Instagram 本文に入っていたタグ
+ * - 過去の下書きの成果（outcome.views / likes / soldAt）… 早く売れた・反応が良かった下書きのタグを上げる
+ *
+ * 点数は 0〜100 の目安。成果の学習は使用回数が少ないうちは弱く効かせる。
+ */
+
+import type {
+  BrandHashtagSet,
+  HashtagSuggestion,
+  HashtagSuggestionSource,
+} from "@/lib/types/draft";
+
+/** 過去の下書き1件分（タグと成果） */
+export type HashtagOutcomeSample = {
+  tags: string[];
+  views?: number;
+  likes?: number;
+  listedAt?: number;
+  soldAt?: number;
+};
+
+/** タグごとの成果 */
+export type HashtagLearningStat = {
+  tag: string;
+  usedCount: number;
+  soldCount: number;
+  /** 出品から売れるまでの平均日数（売れた下書きだけ） */
+  averageSellDays?: number;
+  /** 全体平均との差（-1〜1）。正なら成果が良い */
+  lift: number;
+};
+
+export type HashtagScoringInput = {
+  brandSets?: BrandHashtagSet[];
+  keywords?: string[];
+  sellCheckKeywords?: string[];
+  captionTags?: string[];
+  learning?: HashtagLearningStat[];
+  limit?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** これ以上かかった販売は「早く売れた」扱いにしない */
+const SLOW_SELL_DAYS = 60;
+/** 使用回数がこれに届くまで、学習の効きを弱める */
+const LEARNING_FULL_CONFIDENCE_USES = 3;
+
+const SOURCE_BASE: Record<HashtagSuggestionSource, number> = {
+  brand: 30,
+  keyword: 26,
+  sellCheck: 22,
+  caption: 14,
+  learned: 0,
+};
+
+const SOURCE_REASON: Record<HashtagSuggestionSource, string> = {
+  brand: "ブランドの定番タグ",
+  keyword: "下書きのキーワード",
+  sellCheck: "売れる診断の抽出語",
+  caption: "生成した本文のタグ",
+  learned: "過去の成果",
+};
+
+function safeText(value: unknown) {
+  return String(value ?? "").trim();
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function safeNumber(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/**
+ * タグの表記を揃える
+ * - 先頭の # / ＃ を1つにする
+ * - 空白・記号を除く（タグとして使えない文字）
+ * - 英字は小文字（同じタグの重複を防ぐ）
+ */
+export function normalizeHashtag(value: unknown): string {
+  const body = safeText(value)
+    .replace(/^[#＃]+/, "")
+    .replace(/[\s#＃.,、。!?！？"'“”‘’()（）[\]「」【】/\\:;：；@＠&＆*+=|<>~^`$%]/g, "")
+    .toLowerCase();
+  if (!body || body.length > 40) return "";
+  return `#${body}`;
+}
+
+/** 文章からタグを取り出す（表記を揃え、重複なし） */
+export function extractHashtags(text: unknown): string[] {
+  const out: string[] = [];
+  for (const m of safeText(text).match(/[#＃][^\s#＃]+/g) ?? []) {
+    const tag = normalizeHashtag(m);
+    if (tag && !out.includes(tag)) out.push(tag);
+  }
+  return out;
+}
+
+function uniqueTags(list: unknown[], limit = 50): string[] {
+  const out: string[] = [];
+  for (const v of list) {
+    const tag = normalizeHashtag(v);
+    if (tag && !out.includes(tag)) out.push(tag);
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+/** ブランド文書の hashtagSets を読む */
+export function normalizeBrandHashtagSets(raw: unknown): BrandHashtagSet[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((item: any, i) => ({
+      id: safeText(item?.id) || `set_${i + 1}`,
+      label: safeText(item?.label) || `セット${i + 1}`,
+      tags: uniqueTags(Array.isArray(item?.tags) ? item.tags : [], 30),
+    }))
+    .filter((set) => set.tags.length > 0)
+    .slice(0, 20);
+}
+
+/**
+ * 設定画面の入力（1行1セット「名前: #タグ #タグ」）との変換
+ * - 名前が無い行は「セットN」
+ */
+export function parseHashtagSetLines(text: string): BrandHashtagSet[] {
+  return normalizeBrandHashtagSets(
+    String(text ?? "")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line, i) => {
+        const m = line.match(/^([^#＃:：]+)[:：](.*)$/);
+        const label = m ? m[1].trim() : "";
+        const rest = m ? m[2] : line;
+        return {
+          id: `set_${i + 1}`,
+          label,
+          tags: rest.split(/[\s,、]+/g),
+        };
+      })
+  );
+}
+
+export function hashtagSetsToLines(sets: BrandHashtagSet[] | undefined): string {
+  return (sets ?? []).map((set) => `${set.label}: ${set.tags.join(" ")}`).join("\n");
+}
+
+/**
+ * 下書き1件の成果を 0〜1 にする
+ * - 売れた：早いほど高い（60日以上は下限）
+ * - 反応：閲覧・いいねを全体平均との比で
+ */
+function samplePerformance(
+  sample: HashtagOutcomeSample,
+  averageViews: number,
+  averageLikes: number
+): { score: number; sold: boolean; sellDays?: number } {
+  const soldAt = safeNumber(sample.soldAt);
+  const listedAt = safeNumber(sample.listedAt);
+  const sold = !!soldAt;
+  const sellDays =
+    sold && listedAt !== undefined && soldAt! >= listedAt ? (soldAt! - listedAt) / DAY_MS : undefined;
+
+  const soldScore = sold
+    ? sellDays === undefined
+      ? 0.6
+      : clamp(1 - sellDays / SLOW_SELL_DAYS, 0.2, 1)
+    : 0;
+
+  const views = safeNumber(sample.views);
+  const likes = safeNumber(sample.likes);
+  const viewScore = views !== undefined && averageViews > 0 ? clamp(views / averageViews, 0, 2) / 2 : 0.5;
+  const likeScore = likes !== undefined && averageLikes > 0 ? clamp(likes / averageLikes, 0, 2) / 2 : 0.5;
+
+  return {
+    score: soldScore * 0.6 + viewScore * 0.25 + likeScore * 0.15,
+    sold,
+    sellDays,
+  };
+}
+
+function average(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, n) => sum + n, 0) / values.length : 0;
+}
+
+/**
+ * 過去の下書きからタグごとの成果を作る
+ * - lift = そのタグを使った下書きの平均成果 − 全体の平均成果
+ */
+export function buildHashtagLearning(samples: HashtagOutcomeSample[]): HashtagLearningStat[] {
+  const usable = samples.filter((s) => Array.isArray(s.tags) && s.tags.length > 0);
+  if (usable.length === 0) return [];
+
+  const averageViews = average(usable.map((s) => safeNumber(s.views)).filter((n): n is number => n !== undefined));
+  const averageLikes = average(usable.map((s) => safeNumber(s.likes)).filter((n): n is number => n !== undefined));
+
+  const perf = usable.map((s) => ({ sample: s, ...samplePerformance(s, averageViews, averageLikes) }));
+  const baseline = average(perf.map((p) => p.score));
+
+  const byTag = new Map<string, { scores: number[]; sold: number; sellDays: number[] }>();
+  for (const p of perf) {
+    for (const tag of uniqueTags(p.sample.tags)) {
+      const cur = byTag.get(tag) ?? { scores: [], sold: 0, sellDays: [] };
+      cur.scores.push(p.score);
+      if (p.sold) cur.sold += 1;
+      if (p.sellDays !== undefined) cur.sellDays.push(p.sellDays);
+      byTag.set(tag, cur);
+    }
+  }
+
+  return Array.from(byTag.entries())
+    .map(([tag, v]) => ({
+      tag,
+      usedCount: v.scores.length,
+      soldCount: v.sold,
+      ...(v.sellDays.length > 0 ? { averageSellDays: Math.round(average(v.sellDays) * 10) / 10 } : {}),
+      lift: clamp(average(v.scores) - baseline, -1, 1),
+    }))
+    .sort((a, b) => b.lift - a.lift || b.usedCount - a.usedCount);
+}
+
+/** タグの中身（# を除く）が語を含む / 語に含まれる */
+function matchesWord(tag: string, word: string) {
+  const body = tag.slice(1);
+  const w = normalizeHashtag(word).slice(1);
+  if (!body || !w) return false;
+  return body === w || (w.length >= 2 && body.includes(w)) || (body.length >= 2 && w.includes(body));
+}
+
+/**
+ * 候補を集めて点数順に並べる
+ */
+export function scoreHashtagCandidates(input: HashtagScoringInput): HashtagSuggestion[] {
+  const keywords = (input.keywords ?? []).map(safeText).filter(Boolean);
+  const sellCheckKeywords = (input.sellCheckKeywords ?? []).map(safeText).filter(Boolean);
+  const learning = new Map((input.learning ?? []).map((s) => [s.tag, s]));
+
+  const pool = new Map<string, Set<HashtagSuggestionSource>>();
+  const add = (raw: unknown, source: HashtagSuggestionSource) => {
+    const tag = normalizeHashtag(raw);
+    if (!tag) return;
+    const cur = pool.get(tag) ?? new Set<HashtagSuggestionSource>();
+    cur.add(source);
+    pool.set(tag, cur);
+  };
+
+  for (const set of input.brandSets ?? []) for (const t of set.tags) add(t, "brand");
+  for (const w of keywords) add(w, "keyword");
+  for (const w of sellCheckKeywords) add(w, "sellCheck");
+  for (const t of input.captionTags ?? []) add(t, "caption");
+  // 成果の良かったタグは、今回の材料に無くても候補に入れる
+  for (const stat of input.learning ?? []) {
+    if (stat.lift > 0 && stat.soldCount > 0) add(stat.tag, "learned");
+  }
+
+  const out: HashtagSuggestion[] = [];
+
+  for (const [tag, sourceSet] of pool) {
+    const sources = Array.from(sourceSet);
+    const reasons = sources.filter((s) => s !== "learned").map((s) => SOURCE_REASON[s]);
+
+    let score = Math.max(...sources.map((s) => SOURCE_BASE[s]));
+    // 複数の材料に出てくるタグは強い（過去の成果は下で別に効かせる）
+    const materialCount = sources.filter((s) => s !== "learned").length;
+    score += Math.max(0, materialCount - 1) * 8;
+
+    const keywordHit = keywords.some((w) => matchesWord(tag, w));
+    const sellCheckHit = sellCheckKeywords.some((w) => matchesWord(tag, w));
+    if (keywordHit && !sourceSet.has("keyword")) {
+      score += 10;
+      reasons.push("キーワードに近い");
+    }
+    if (sellCheckHit && !sourceSet.has("sellCheck")) {
+      score += 8;
+      reasons.push("売れる診断の抽出語に近い");
+    }
+
+    const stat = learning.get(tag);
+    if (stat) {
+      const confidence = Math.min(1, stat.usedCount / LEARNING_FULL_CONFIDENCE_USES);
+      score += stat.lift * 60 * confidence;
+
+      if (stat.lift > 0.05) {
+        reasons.push(
+          stat.averageSellDays !== undefined
+            ? `過去${stat.usedCount}件で使用・${stat.soldCount}件売れた（平均${stat.averageSellDays}日）`
+            : `過去${stat.usedCount}件で使用・反応が良い`
+        );
+      } else if (stat.lift < -0.05) {
+        reasons.push(`過去${stat.usedCount}件で使用・成果は平均以下`);
+      }
+    }
+
+    out.push({
+      tag,
+      score: Math.round(clamp(score, 0, 100)),
+      sources,
+      reasons,
+      ...(stat ? { usedCount: stat.usedCount, soldCount: stat.soldCount } : {}),
+    });
+  }
+
+  return out
+    .sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag))
+    .slice(0, input.limit ?? 15);
+}
+
+/** 保存済みの候補を読む */
+export function normalizeHashtagSuggestions(raw: unknown): HashtagSuggestion[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  const sourceKeys = Object.keys(SOURCE_BASE);
+
+  return raw
+    .map((item: any) => {
+      const tag = normalizeHashtag(item?.tag);
+      if (!tag) return null;
+      const usedCount = safeNumber(item?.usedCount);
+      const soldCount = safeNumber(item?.soldCount);
+      const suggestion: HashtagSuggestion = {
+        tag,
+        score: clamp(Math.round(Number(item?.score) || 0), 0, 100),
+        sources: (Array.isArray(item?.sources) ? item.sources : []).filter((s: unknown): s is HashtagSuggestionSource =>
+          sourceKeys.includes(String(s))
+        ),
+        reasons: (Array.isArray(item?.reasons) ? item.reasons : []).map(safeText).filter(Boolean),
+        ...(usedCount !== undefined ? { usedCount } : {}),
+        ...(soldCount !== undefined ? { soldCount } : {}),
+      };
+      return suggestion;
+    })
+    .filter((s): s is HashtagSuggestion => !!s)
+    .slice(0, 30);
+}
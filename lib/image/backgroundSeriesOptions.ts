@@ -0,0 +1,78 @@
+// /lib/image/backgroundSeriesOptions.ts
+import type {
+  BackgroundSeriesCameraHeight,
+  BackgroundSeriesSpec,
+  BackgroundSeriesTone,
+} from "@/lib/types/draft";
+import { normalizeProceduralLightDirection } from "@/lib/image/proceduralBackgroundOptions";
+
+/**
+ * 背景シリーズ（series mode）の表示名と正規化
+ *
+ * ✅ ブランド文書の bgSeries を読むとき（/api/generate-bg・/api/backgrounds/series・背景タブ）で共通
+ * ✅ 解析そのものは lib/server/backgroundSeries.ts（sharp）
+ */
+
+/** これ未満の一貫性スコアはシリーズ不一致として不採用 */
+export const MIN_SERIES_CONSISTENCY_SCORE = 66;
+
+export const BACKGROUND_SERIES_TONE_LABEL: Record<BackgroundSeriesTone, string> = {
+  warm: "暖色",
+  cool: "寒色",
+  neutral: "ニュートラル",
+};
+
+export const BACKGROUND_SERIES_CAMERA_LABEL: Record<BackgroundSeriesCameraHeight, string> = {
+  low: "低め（見上げ気味）",
+  eye: "目線の高さ",
+  high: "高め（見下ろし）",
+};
+
+function asHex(v: unknown, fallback: string): string {
+  const s = String(v ?? "").trim().toLowerCase();
+  return /^#[0-9a-f]{6}$/.test(s) ? s : fallback;
+}
+
+function asNumber(v: unknown, fallback = 0): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Firestore の bgSeries → BackgroundSeriesSpec
+ * - 基準画像が無い / 壊れている場合は null
+ */
+export function normalizeBackgroundSeriesSpec(input: unknown): BackgroundSeriesSpec | null {
+  if (!input || typeof input !== "object") return null;
+  const v = input as Record<string, any>;
+
+  const anchorUrl = String(v.anchorUrl ?? "").trim();
+  if (!/^https?:\/\//i.test(anchorUrl)) return null;
+
+  const palette = v.palette && typeof v.palette === "object" ? v.palette : {};
+  const grid = Array.isArray(v.grid) ? v.grid.map((x: unknown) => asNumber(x)).slice(0, 16) : [];
+
+  return {
+    version: asNumber(v.version, 1),
+    anchorUrl,
+    enabled: v.enabled !== false,
+    palette: {
+      wall: asHex(palette.wall, "#e8e4dc"),
+      floor: asHex(palette.floor, "#d8d0c4"),
+      accent: asHex(palette.accent, "#c8b8a0"),
+    },
+    tone: v.tone === "warm" || v.tone === "cool" ? v.tone : "neutral",
+    brightness: asNumber(v.brightness, 180),
+    contrast: asNumber(v.contrast, 30),
+    materials: Array.isArray(v.materials)
+      ? v.materials.map((x: unknown) => String(x ?? "").trim()).filter(Boolean).slice(0, 4)
+      : [],
+    lightDirection: normalizeProceduralLightDirection(v.lightDirection),
+    lightBalance: Math.max(-1, Math.min(1, asNumber(v.lightBalance))),
+    cameraHeight: v.cameraHeight === "low" || v.cameraHeight === "high" ? v.cameraHeight : "eye",
+    horizonRatio: Math.max(0, Math.min(1, asNumber(v.horizonRatio, 0.62))),
+    grid: grid.length === 16 ? grid : [],
+    createdAt: asNumber(v.createdAt),
+    updatedAt: asNumber(v.updatedAt),
+  };
+}
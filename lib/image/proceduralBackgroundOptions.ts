@@ -0,0 +1,32 @@
+// /lib/image/proceduralBackgroundOptions.ts
+import type { ProceduralBgStyle, ProceduralLightDirection } from "@/lib/types/draft";
+
+/**
+ * 定型背景（AIなし）の選択肢
+ *
+ * ✅ 背景タブの選択肢と /api/template-backgrounds/generate（renderer: "procedural"）で共通
+ * ✅ 描画そのものは lib/server/proceduralBackgrounds.ts（sharp / SVG）
+ */
+
+export const PROCEDURAL_BG_STYLES: Array<{ id: ProceduralBgStyle; label: string; description: string }> = [
+  { id: "studio_sweep", label: "スタジオ", description: "壁から床へ継ぎ目なく続く撮影ブース" },
+  { id: "gradient", label: "グラデーション", description: "光の向きに沿ったなめらかな明暗" },
+  { id: "floor_wall", label: "床と壁", description: "壁と床（台）の境目がある部屋" },
+  { id: "paper", label: "紙", description: "やわらかい紙の質感" },
+];
+
+export const PROCEDURAL_LIGHT_DIRECTIONS: Array<{ id: ProceduralLightDirection; label: string }> = [
+  { id: "left", label: "左から" },
+  { id: "top", label: "正面上から" },
+  { id: "right", label: "右から" },
+];
+
+export function normalizeProceduralBgStyle(v: unknown): ProceduralBgStyle {
+  const s = String(v ?? "").trim();
+  return PROCEDURAL_BG_STYLES.some((x) => x.id === s) ? (s as ProceduralBgStyle) : "studio_sweep";
+}
+
+export function normalizeProceduralLightDirection(v: unknown): ProceduralLightDirection {
+  const s = String(v ?? "").trim();
+  return PROCEDURAL_LIGHT_DIRECTIONS.some((x) => x.id === s) ? (s as ProceduralLightDirection) : "top";
+}
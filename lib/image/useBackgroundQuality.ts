@@ -0,0 +1,84 @@
+// /lib/image/useBackgroundQuality.ts
+"use client";
+
+import { useCallback, useState } from "react";
+import { auth } from "@/firebase";
+import type { BackgroundQualitySummary, BackgroundQualityVerdict } from "@/lib/types/draft";
+
+/**
+ * 背景画像の採点（/api/images/analyze）
+ *
+ * - ライブラリ / 背景タブのサムネイルに、選ぶ前の採用スコアを出す
+ * - 採点済みの URL はもう一度送らない（再採点は force）
+ * - 1回に送るのは API の上限（24件）まで
+ */
+
+const ANALYZE_BATCH = 24;
+
+export const BACKGROUND_QUALITY_LABEL: Record<BackgroundQualityVerdict, string> = {
+  accept: "採用OK",
+  weak: "要確認",
+  reject: "不向き",
+};
+
+export function backgroundQualityTitle(q: BackgroundQualitySummary): string {
+  return [
+    `採用スコア ${Math.round(q.acceptScore)}点（${BACKGROUND_QUALITY_LABEL[q.verdict]}）`,
+    `文脈 ${Math.round(q.contextScore)}点 / 構図 ${Math.round(q.structureScore)}点`,
+    ...q.reasons.map((r) => `・${r}`),
+  ].join("\n");
+}
+
+export default function useBackgroundQuality() {
+  const [qualityByUrl, setQualityByUrl] = useState<Record<string, BackgroundQualitySummary>>({});
+  const [busy, setBusy] = useState(false);
+
+  const analyze = useCallback(
+    async (urls: string[], opts?: { force?: boolean }) => {
+      const targets = Array.from(new Set(urls.map((u) => String(u || "").trim()).filter(Boolean))).filter(
+        (u) => opts?.force || !qualityByUrl[u]
+      );
+      if (targets.length === 0) return 0;
+
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) throw new Error("ログインしてください");
+
+      setBusy(true);
+
+      try {
+        let failed = 0;
+
+        for (let i = 0; i < targets.length; i += ANALYZE_BATCH) {
+          const res = await fetch("/api/images/analyze", {
+            method: "POST",
+            headers: {
+              "content-type": "application/json",
+              Authorization: `Bearer ${token}`,
+            },
+            body: JSON.stringify({ urls: targets.slice(i, i + ANALYZE_BATCH) }),
+          });
+
+          const data = await res.json().catch(() => ({}));
+          if (!res.ok || !data?.ok) {
+            throw new Error(data?.error || "採点に失敗しました");
+          }
+
+          const next: Record<string, BackgroundQualitySummary> = {};
+          for (const r of Array.isArray(data.results) ? data.results : []) {
+            if (r?.url && r?.quality) next[r.url] = r.quality;
+            else failed += 1;
+          }
+
+          setQualityByUrl((prev) => ({ ...prev, ...next }));
+        }
+
+        return failed;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [qualityByUrl]
+  );
+
+  return { qualityByUrl, busy, analyze };
+}
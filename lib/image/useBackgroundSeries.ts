@@ -0,0 +1,164 @@
+// /lib/image/useBackgroundSeries.ts
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { auth } from "@/firebase";
+import type { BackgroundSeriesConsistency, BackgroundSeriesSpec } from "@/lib/types/draft";
+import {
+  BACKGROUND_SERIES_CAMERA_LABEL,
+  MIN_SERIES_CONSISTENCY_SCORE,
+  normalizeBackgroundSeriesSpec,
+} from "@/lib/image/backgroundSeriesOptions";
+
+/**
+ * ブランドの背景シリーズ（/api/backgrounds/series）
+ *
+ * - 背景タブで「この背景をシリーズの基準にする」・オン/オフ・解除
+ * - 一覧のサムネイルに基準との一貫性スコアを出す（/api/backgrounds/series/score）
+ * - ブランドが変わったら読み直し、採点結果も捨てる
+ */
+
+const SCORE_BATCH = 24;
+
+export function backgroundSeriesTitle(c: BackgroundSeriesConsistency): string {
+  return [
+    `シリーズ一貫性 ${Math.round(c.score)}点（${c.score >= MIN_SERIES_CONSISTENCY_SCORE ? "揃っている" : "ずれている"}）`,
+    `色 ${Math.round(c.palette)} / 明るさ ${Math.round(c.brightness)} / 光 ${Math.round(c.light)} / カメラ ${Math.round(
+      c.camera
+    )} / 構図 ${Math.round(c.layout)}`,
+    ...c.reasons.map((r) => `・${r}`),
+  ].join("\n");
+}
+
+export function backgroundSeriesSummary(spec: BackgroundSeriesSpec): string {
+  return [
+    spec.materials.join(" / "),
+    `カメラ: ${BACKGROUND_SERIES_CAMERA_LABEL[spec.cameraHeight]}`,
+  ]
+    .filter(Boolean)
+    .join(" ・ ");
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) throw new Error("ログインしてください");
+  return { "content-type": "application/json", Authorization: `Bearer ${token}` };
+}
+
+export default function useBackgroundSeries(uid: string | null, brandId: string) {
+  const [spec, setSpec] = useState<BackgroundSeriesSpec | null>(null);
+  const [consistencyByUrl, setConsistencyByUrl] = useState<Record<string, BackgroundSeriesConsistency>>({});
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setSpec(null);
+    setConsistencyByUrl({});
+    if (!uid || !brandId) return;
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/backgrounds/series?brandId=${encodeURIComponent(brandId)}`, {
+          headers: await authHeaders(),
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!cancelled && res.ok && data?.ok) setSpec(normalizeBackgroundSeriesSpec(data.spec));
+      } catch (e) {
+        console.warn("[AOI FLOW handled]", "bg series load failed", e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, brandId]);
+
+  const request = useCallback(
+    async (method: "POST" | "PATCH" | "DELETE", body?: Record<string, unknown>) => {
+      if (!brandId) throw new Error("ブランドが未選択です");
+      setBusy(true);
+
+      try {
+        const res = await fetch(
+          method === "DELETE" ? `/api/backgrounds/series?brandId=${encodeURIComponent(brandId)}` : "/api/backgrounds/series",
+          {
+            method,
+            headers: await authHeaders(),
+            ...(body ? { body: JSON.stringify({ brandId, ...body }) } : {}),
+          }
+        );
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok || !data?.ok) throw new Error(data?.error || "シリーズ設定に失敗しました");
+
+        const next = normalizeBackgroundSeriesSpec(data.spec);
+        setSpec(next);
+        return next;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [brandId]
+  );
+
+  /** 基準画像を設定（作り直すと一貫性の採点はやり直し） */
+  const setAnchor = useCallback(
+    async (anchorUrl: string) => {
+      const next = await request("POST", { anchorUrl });
+      setConsistencyByUrl({});
+      return next;
+    },
+    [request]
+  );
+
+  const setEnabled = useCallback((enabled: boolean) => request("PATCH", { enabled }), [request]);
+
+  const clear = useCallback(async () => {
+    await request("DELETE");
+    setConsistencyByUrl({});
+  }, [request]);
+
+  const score = useCallback(
+    async (urls: string[]) => {
+      if (!spec) return 0;
+
+      const targets = Array.from(new Set(urls.map((u) => String(u || "").trim()).filter(Boolean)));
+      if (targets.length === 0) return 0;
+
+      setBusy(true);
+
+      try {
+        let failed = 0;
+
+        for (let i = 0; i < targets.length; i += SCORE_BATCH) {
+          const res = await fetch("/api/backgrounds/series/score", {
+            method: "POST",
+            headers: await authHeaders(),
+            body: JSON.stringify({ brandId, urls: targets.slice(i, i + SCORE_BATCH) }),
+          });
+
+          const data = await res.json().catch(() => ({}));
+          if (!res.ok || !data?.ok) {
+            throw new Error(data?.error || "一貫性の採点に失敗しました");
+          }
+
+          const next: Record<string, BackgroundSeriesConsistency> = {};
+          for (const r of Array.isArray(data.results) ? data.results : []) {
+            if (r?.url && r?.consistency) next[r.url] = r.consistency;
+            else failed += 1;
+          }
+
+          setConsistencyByUrl((prev) => ({ ...prev, ...next }));
+        }
+
+        return failed;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [brandId, spec]
+  );
+
+  return { spec, consistencyByUrl, busy, setAnchor, setEnabled, clear, score };
+}
@@ -1,33 +1,19 @@
 // /lib/nonAiVideo/generate.ts
 
-export type NonAiVideoInput = {
-  /** 代表画像（必須・1枚） */
-  primary: string;
-
-  /** 素材画像（0〜複数・順序あり） */
-  materials?: string[];
-
-  seconds: 5 | 10;
-  size: { w: number; h: number };
-  motion: {
-    tempo: "slow" | "normal" | "sharp" | "fast";
-    reveal: "early" | "delayed" | "last" | "late";
-    intensity: "calm" | "balanced" | "strong" | "subtle";
-    attitude: "humble" | "neutral" | "assertive";
-    rhythm: "with_pause" | "continuous" | "wave" | "beat";
-  };
-  videoType?: "auto_ad" | "spin" | "turntable" | "zoom" | "pan" | "showcase" | "reel";
-  /**
-   * 背景画像URL。動画化後に /api/video/cutout は使わず、
-   * Canvas上で背景を固定描画してから商品PNGだけを動かします。
-   */
-  backgroundImageUrl?: string;
-  textLines?: string[];
-};
-
-function easeInOut(t: number) {
-  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
-}
+import {
+  NON_AI_FALLBACK_GRADIENT,
+  NON_AI_TEXT_STYLE,
+  NON_AI_VIDEO_FPS,
+  containRect,
+  coverRect,
+  planNonAiFrame,
+  type NonAiVideoInput,
+} from "@/lib/nonAiVideo/motion";
+import { buildTimelineFrames } from "@/lib/nonAiVideo/timeline";
+import type { ProductVideoTimeline, ProductVideoTransition } from "@/lib/types/draft";
+
+// 動きの計算は lib/nonAiVideo/motion.ts（サーバ側 lib/video/nonai.ts と共通）
+export type { NonAiVideoInput };
 
 async function toCanvasSafeUrl(url: string): Promise<string> {
   const safeUrl = String(url || "").trim();
@@ -63,23 +49,6 @@ async function loadImage(url: string): Promise<HTMLImageElement> {
 }
 
 
-function coverRect(img: HTMLImageElement, w: number, h: number, scale = 1) {
-  // 画像をキャンバス全体に自然に敷き詰めるための基本計算。
-  // ここを共通化すると、縦長/横長どちらの写真でも左右に変な揺れが出にくくなる。
-  const base = Math.max(w / img.width, h / img.height) * scale;
-  const dw = img.width * base;
-  const dh = img.height * base;
-  return { dw, dh, dx: (w - dw) / 2, dy: (h - dh) / 2 };
-}
-
-function containRect(img: HTMLImageElement, w: number, h: number, scale = 1) {
-  // 商品単体の透明PNGなどは切らずに見せたいので contain を使う。
-  const base = Math.min(w / img.width, h / img.height) * scale;
-  const dw = img.width * base;
-  const dh = img.height * base;
-  return { dw, dh, dx: (w - dw) / 2, dy: (h - dh) / 2 };
-}
-
 function drawCoverImage(
   ctx: CanvasRenderingContext2D,
   img: HTMLImageElement,
@@ -132,37 +101,90 @@ function pickMimeType(): string {
   return "video/webm";
 }
 
-export async function generateNonAiVideoWebm(input: NonAiVideoInput): Promise<Blob> {
-  const { w, h } = input.size;
+type NonAiFramePlan = ReturnType<typeof planNonAiFrame>;
 
-  const canvas = document.createElement("canvas");
-  canvas.width = w;
-  canvas.height = h;
+/**
+ * 1コマ分を描く（単発の動画 / タイムラインの各区間で共通）
+ * - 動き（videoType ごとの置き方）は planNonAiFrame が決めた plan どおりに描くだけ
+ */
+function drawNonAiFrame(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  images: HTMLImageElement[],
+  backgroundImage: HTMLImageElement | null,
+  plan: NonAiFramePlan,
+  textLines?: string[]
+) {
+  ctx.clearRect(0, 0, w, h);
+
+  // 背景が選択されている場合は、動画化後のcutoutを使わず、
+  // ここで「背景固定 + 商品だけ動く」状態を直接作ります。
+  if (backgroundImage) {
+    drawCoverImage(ctx, backgroundImage, w, h, 1, 0, 0, 0);
+  } else {
+    // 背景未選択時の保険。透明PNGや商品単体でも真っ黒画面にしない。
+    const bg = ctx.createLinearGradient(0, 0, w, h);
+    bg.addColorStop(0, NON_AI_FALLBACK_GRADIENT[0]);
+    bg.addColorStop(1, NON_AI_FALLBACK_GRADIENT[1]);
+    ctx.fillStyle = bg;
+    ctx.fillRect(0, 0, w, h);
+  }
 
-  const ctx = canvas.getContext("2d");
-  if (!ctx) throw new Error("canvas not supported");
+  for (const layer of plan.layers) {
+    const img = images[layer.imageIndex];
+    ctx.save();
+    ctx.globalAlpha = layer.alpha;
+    if (layer.fit === "contain") {
+      drawContainImage(ctx, img, w, h, layer.scale, layer.offsetX, layer.offsetY, layer.rotation, layer.flipScaleX);
+    } else {
+      drawCoverImage(ctx, img, w, h, layer.scale, layer.offsetX, layer.offsetY, layer.rotation);
+    }
+    ctx.restore();
+  }
 
-  /** ✅ 描画シーケンス（primary → materials 順） */
-  const sequenceUrls = [input.primary, ...(input.materials ?? [])];
+  // 複数画像の切替時は軽くフェード。
+  if (plan.fadeAlpha > 0) {
+    ctx.fillStyle = `rgba(0,0,0,${plan.fadeAlpha})`;
+    ctx.fillRect(0, 0, w, h);
+  }
 
-  /** 画像をすべて事前ロード（順序保持） */
-  const images = await Promise.all(sequenceUrls.map(loadImage));
-  const backgroundImage = input.backgroundImageUrl ? await loadImage(input.backgroundImageUrl) : null;
-  const hasStaticBackground = !!backgroundImage;
-  const imageCount = images.length;
+  // 雰囲気レイヤー。背景固定の商品動画では商品と背景を暗くしすぎない。
+  if (plan.overlayAlpha > 0) {
+    ctx.fillStyle = `rgba(0,0,0,${plan.overlayAlpha})`;
+    ctx.fillRect(0, 0, w, h);
+  }
 
-  // ✅ fpsを落とす（最重要）
-  const fps = 24;
+  // テキスト（primary区間のみ表示）
+  if (plan.textAlpha !== null && textLines?.length) {
+    const { fontSize, lineHeight, pad, maxLines, color } = NON_AI_TEXT_STYLE;
 
-  const totalFrames = input.seconds * fps;
-  const framesPerImage = Math.floor(totalFrames / imageCount);
+    ctx.globalAlpha = plan.textAlpha;
+    ctx.fillStyle = color;
+    ctx.font = `bold ${fontSize}px system-ui, -apple-system, Segoe UI, sans-serif`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+
+    let y = h - pad - textLines.length * lineHeight;
+    for (const line of textLines.slice(0, maxLines)) {
+      ctx.fillText(line, pad, y);
+      y += lineHeight;
+    }
+    ctx.globalAlpha = 1;
+  }
+}
 
+/** canvas を録画する（stop で WEBM の Blob を返す） */
+function startCanvasRecorder(canvas: HTMLCanvasElement, fps: number) {
   const stream = canvas.captureStream(fps);
 
   // ✅ bitrate固定（暴発して巨大化するのを防ぐ）
   // - 720x1280 / 24fps / 10s でも耐えやすい
   // - 必要なら後で 1_200_000〜2_000_000 で調整
-  const videoBitsPerSecond = Math.max(600_000, Math.min(2_200_000, Math.floor((w * h * fps) / 250)));
+  const videoBitsPerSecond = Math.max(
+    600_000,
+    Math.min(2_200_000, Math.floor((canvas.width * canvas.height * fps) / 250))
+  );
 
   const mimeType = pickMimeType();
 
@@ -176,149 +198,58 @@ export async function generateNonAiVideoWebm(input: NonAiVideoInput): Promise<Bl
     if (e.data && e.data.size > 0) chunks.push(e.data);
   };
 
-  // テンポで動き量を変える（非AI演出）
-  const move =
-    input.motion.tempo === "slow" ? 0.06 : input.motion.tempo === "normal" ? 0.1 : 0.16;
-
-  // 強さでコントラストっぽい演出
-  const alpha =
-    input.motion.intensity === "calm" ? 0.06 : input.motion.intensity === "balanced" ? 0.1 : 0.16;
-
-  // reveal（見せ方）
-  const revealStart =
-    input.motion.reveal === "early" ? 0.0 : input.motion.reveal === "delayed" ? 0.25 : 0.6;
-
   // ✅ timeslice なし（チャンク乱発を防ぐ）
   rec.start();
 
-  for (let f = 0; f < totalFrames; f++) {
-    const tGlobal = totalFrames <= 1 ? 1 : f / (totalFrames - 1);
+  return {
+    stop: () =>
+      new Promise<Blob>((ok) => {
+        rec.onstop = () => ok(new Blob(chunks, { type: "video/webm" }));
+        rec.stop();
+      }),
+  };
+}
 
-    const imageIndex = Math.min(Math.floor(f / framesPerImage), imageCount - 1);
-    const img = images[imageIndex];
+export async function generateNonAiVideoWebm(input: NonAiVideoInput): Promise<Blob> {
+  const { w, h } = input.size;
 
-    const localFrameStart = imageIndex * framesPerImage;
-    const localT =
-      framesPerImage > 0 ? Math.min(1, (f - localFrameStart) / framesPerImage) : 1;
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
 
-    const tt = easeInOut(localT);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("canvas not supported");
 
-    ctx.clearRect(0, 0, w, h);
+  /** ✅ 描画シーケンス（primary → materials 順） */
+  const sequenceUrls = [input.primary, ...(input.materials ?? [])];
 
-    // 背景が選択されている場合は、動画化後のcutoutを使わず、
-    // ここで「背景固定 + 商品だけ動く」状態を直接作ります。
-    if (backgroundImage) {
-      drawCoverImage(ctx, backgroundImage, w, h, 1, 0, 0, 0);
-    } else {
-      // 背景未選択時の保険。透明PNGや商品単体でも真っ黒画面にしない。
-      const bg = ctx.createLinearGradient(0, 0, w, h);
-      bg.addColorStop(0, "#071525");
-      bg.addColorStop(1, "#0f2a3f");
-      ctx.fillStyle = bg;
-      ctx.fillRect(0, 0, w, h);
-    }
+  /** 画像をすべて事前ロード（順序保持） */
+  const images = await Promise.all(sequenceUrls.map(loadImage));
+  const backgroundImage = input.backgroundImageUrl ? await loadImage(input.backgroundImageUrl) : null;
+  const hasStaticBackground = !!backgroundImage;
+  const imageCount = images.length;
 
-    const oneImage = imageCount === 1;
-    const videoType = input.videoType ?? "auto_ad";
-
-    if (videoType === "turntable" && imageCount >= 2) {
-      // Turntable：複数の商品画像を順番に切り替え、オルゴール台のような疑似360度回転に見せます。
-      // 画像そのものを時計回りに回さず、正面→斜め→側面→背面のような素材順を尊重します。
-      const loopPosition = (tGlobal * imageCount) % imageCount;
-      const currentIndex = Math.floor(loopPosition);
-      const nextIndex = (currentIndex + 1) % imageCount;
-      const rawFade = loopPosition - currentIndex;
-      const fade = easeInOut(rawFade);
-
-      const currentImage = images[currentIndex];
-      const nextImage = images[nextIndex];
-
-      // ほんの少しだけ横方向へ揺らし、台の上で回っている感を足します。
-      const orbit = Math.sin(tGlobal * Math.PI * 2) * w * 0.018;
-      const scale = 0.9 + Math.sin(tGlobal * Math.PI * 2) * 0.018;
-
-      ctx.save();
-      ctx.globalAlpha = 1;
-      drawContainImage(ctx, currentImage, w, h, scale, orbit, 0, 0);
-      ctx.restore();
-
-      // 切替点だけクロスフェード。強すぎると商品が二重に見えるため控えめにします。
-      if (rawFade > 0.72) {
-        const cross = Math.min(1, (rawFade - 0.72) / 0.28);
-        ctx.save();
-        ctx.globalAlpha = cross;
-        drawContainImage(ctx, nextImage, w, h, scale, orbit, 0, 0);
-        ctx.restore();
-        ctx.globalAlpha = 1;
-      }
-    } else if (oneImage && videoType === "spin") {
-      // 単品Spin：左右に揺らすだけではなく、画像そのものを中心から回す。
-      // 商品切り抜きPNGでも破綻しにくいように contain で描画する。
-      const angle = tt * Math.PI * 2;
-      const flip = 0.72 + 0.28 * Math.abs(Math.cos(angle));
-      drawContainImage(ctx, img, w, h, 0.82, 0, 0, angle, flip);
-    } else if (oneImage && videoType === "zoom") {
-      // 単品Zoom：商品へ自然に寄る。
-      const scale = 1.0 + move * 1.7 * tt;
-      drawContainImage(ctx, img, w, h, scale, 0, 0, 0);
-    } else if (oneImage && videoType === "pan") {
-      // 単品Pan：背景固定時は商品を切らないため contain、通常時は画面演出として cover。
-      const scale = hasStaticBackground ? 0.92 + move * tt : 1.06 + move * tt;
-      const ox = (tt - 0.5) * w * 0.12;
-      const oy = (0.5 - tt) * h * 0.06;
-      if (hasStaticBackground) {
-        drawContainImage(ctx, img, w, h, scale, ox, oy, 0);
-      } else {
-        drawCoverImage(ctx, img, w, h, scale, ox, oy, 0);
-      }
-    } else {
-      // Canva風のKen Burns。複数画像では各写真が自然に拡大・移動しながら切り替わる。
-      const direction = imageIndex % 2 === 0 ? 1 : -1;
-      const scale = 1.04 + move * tt;
-      const ox = direction * (tt - 0.5) * w * 0.08;
-      const oy = -direction * (tt - 0.5) * h * 0.05;
-      const rot = oneImage ? direction * (tt - 0.5) * 0.035 : direction * (tt - 0.5) * 0.02;
-      if (hasStaticBackground) {
-        drawContainImage(ctx, img, w, h, 0.9 + move * tt, ox, oy, rot);
-      } else {
-        drawCoverImage(ctx, img, w, h, scale, ox, oy, rot);
-      }
+  // ✅ fpsを落とす（最重要）
+  const fps = NON_AI_VIDEO_FPS;
 
-      // 複数画像の切替時は軽くフェード。
-      if (!oneImage && localT < 0.12 && imageIndex > 0) {
-        ctx.fillStyle = `rgba(0,0,0,${(0.12 - localT) / 0.12 * 0.28})`;
-        ctx.fillRect(0, 0, w, h);
-      }
-      if (!oneImage && localT > 0.88 && imageIndex < imageCount - 1) {
-        ctx.fillStyle = `rgba(0,0,0,${(localT - 0.88) / 0.12 * 0.28})`;
-        ctx.fillRect(0, 0, w, h);
-      }
-    }
+  const totalFrames = input.seconds * fps;
 
-    // 雰囲気レイヤー。背景固定の商品動画では商品と背景を暗くしすぎない。
-    if (!hasStaticBackground) {
-      ctx.fillStyle = `rgba(0,0,0,${alpha})`;
-      ctx.fillRect(0, 0, w, h);
-    }
+  const recorder = startCanvasRecorder(canvas, fps);
 
-    // テキスト（primary区間のみ表示）
-    if (imageIndex === 0 && input.textLines?.length) {
-      const a = tGlobal < revealStart ? 0 : Math.min(1, (tGlobal - revealStart) / 0.15);
-
-      ctx.globalAlpha = a;
-      ctx.fillStyle = "rgba(255,255,255,0.92)";
-      ctx.font = "bold 44px system-ui, -apple-system, Segoe UI, sans-serif";
-      ctx.textAlign = "left";
-      ctx.textBaseline = "top";
-
-      const pad = 60;
-      let y = h - pad - input.textLines.length * 56;
-      for (const line of input.textLines.slice(0, 3)) {
-        ctx.fillText(line, pad, y);
-        y += 56;
-      }
-      ctx.globalAlpha = 1;
-    }
+  for (let f = 0; f < totalFrames; f++) {
+    const plan = planNonAiFrame({
+      frame: f,
+      totalFrames,
+      imageCount,
+      size: { w, h },
+      motion: input.motion,
+      videoType: input.videoType,
+      hasStaticBackground,
+      hasText: !!input.textLines?.length,
+    });
+    const { tGlobal } = plan;
+
+    drawNonAiFrame(ctx, w, h, images, backgroundImage, plan, input.textLines);
 
     if (input.motion.rhythm === "with_pause") {
       if (tGlobal > 0.46 && tGlobal < 0.54) {
@@ -331,10 +262,138 @@ export async function generateNonAiVideoWebm(input: NonAiVideoInput): Promise<Bl
     await new Promise((r) => requestAnimationFrame(() => r(null)));
   }
 
-  await new Promise<void>((ok) => {
-    rec.onstop = () => ok();
-    rec.stop();
-  });
+  return recorder.stop();
+}
+
+/* ---------------- */
+/* タイムライン（複数区間） */
+/* ---------------- */
+
+export type GenerateTimelineVideoInput = {
+  timeline: ProductVideoTimeline;
+  size: { w: number; h: number };
+  /** 全区間で固定する背景（timeline.backgroundImageUrl より優先） */
+  backgroundImageUrl?: string;
+};
 
-  return new Blob(chunks, { type: "video/webm" });
-}
\ No newline at end of file
+/** 前の区間の最後のコマ（prev）から今のコマ（next）へ切り替える */
+function drawTransition(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  prev: HTMLCanvasElement,
+  next: HTMLCanvasElement,
+  kind: ProductVideoTransition,
+  progress: number
+) {
+  ctx.clearRect(0, 0, w, h);
+
+  if (kind === "fade") {
+    ctx.drawImage(prev, 0, 0);
+    ctx.globalAlpha = progress;
+    ctx.drawImage(next, 0, 0);
+    ctx.globalAlpha = 1;
+    return;
+  }
+
+  if (kind === "fade_black") {
+    // 前半で暗くし、後半で次の区間を明るくする
+    const first = progress < 0.5;
+    ctx.drawImage(first ? prev : next, 0, 0);
+    ctx.fillStyle = `rgba(0,0,0,${first ? progress * 2 : (1 - progress) * 2})`;
+    ctx.fillRect(0, 0, w, h);
+    return;
+  }
+
+  if (kind === "slide") {
+    ctx.drawImage(prev, -progress * w, 0);
+    ctx.drawImage(next, (1 - progress) * w, 0);
+    return;
+  }
+
+  ctx.drawImage(next, 0, 0);
+}
+
+/**
+ * タイムラインを1本の WEBM にする
+ * - 各区間は単発の動画と同じ planNonAiFrame / drawNonAiFrame で描く（区間の長さだけ違う）
+ * - 区間の頭は、前の区間の最後のコマから transition で切り替える（合計の長さは区間の合計のまま）
+ * - 1コマごとに 1/fps 秒の位置まで待つので、録画された長さ = 区間の合計秒数になる
+ */
+export async function generateTimelineVideoWebm(input: GenerateTimelineVideoInput): Promise<Blob> {
+  const { w, h } = input.size;
+  const { timeline } = input;
+  if (!timeline.segments.length) throw new Error("タイムラインに区間がありません");
+
+  const makeCanvas = () => {
+    const c = document.createElement("canvas");
+    c.width = w;
+    c.height = h;
+    const context = c.getContext("2d");
+    if (!context) throw new Error("canvas not supported");
+    return { canvas: c, ctx: context };
+  };
+
+  const out = makeCanvas();
+  const work = makeCanvas();
+  const prev = makeCanvas();
+
+  // 同じ画像を何区間で使っても読み込みは1回
+  const cache = new Map<string, Promise<HTMLImageElement>>();
+  const load = (url: string) => {
+    if (!cache.has(url)) cache.set(url, loadImage(url));
+    return cache.get(url)!;
+  };
+
+  const segmentImages = await Promise.all(
+    timeline.segments.map((segment) => Promise.all([segment.imageUrl, ...(segment.materialUrls ?? [])].map(load)))
+  );
+  const backgroundUrl = String(input.backgroundImageUrl || timeline.backgroundImageUrl || "").trim();
+  const backgroundImage = backgroundUrl ? await load(backgroundUrl) : null;
+
+  const fps = NON_AI_VIDEO_FPS;
+  const frames = buildTimelineFrames(timeline, fps);
+  const frameMs = 1000 / fps;
+
+  const recorder = startCanvasRecorder(out.canvas, fps);
+  const startedAt = performance.now();
+
+  for (let f = 0; f < frames.length; f++) {
+    const ref = frames[f];
+    const segment = timeline.segments[ref.segmentIndex];
+    const images = segmentImages[ref.segmentIndex];
+
+    const plan = planNonAiFrame({
+      frame: ref.frame,
+      totalFrames: ref.segmentFrames,
+      imageCount: images.length,
+      size: { w, h },
+      motion: segment.motion,
+      videoType: segment.videoType,
+      hasStaticBackground: !!backgroundImage,
+      hasText: !!segment.textLines?.length,
+    });
+
+    drawNonAiFrame(work.ctx, w, h, images, backgroundImage, plan, segment.textLines);
+
+    if (ref.transition) {
+      drawTransition(out.ctx, w, h, prev.canvas, work.canvas, ref.transition.kind, ref.transition.progress);
+    } else {
+      out.ctx.clearRect(0, 0, w, h);
+      out.ctx.drawImage(work.canvas, 0, 0);
+    }
+
+    // 区間の最後のコマを次の区間の切替用に残す
+    if (frames[f + 1]?.segmentIndex !== ref.segmentIndex) {
+      prev.ctx.clearRect(0, 0, w, h);
+      prev.ctx.drawImage(work.canvas, 0, 0);
+    }
+
+    const due = startedAt + (f + 1) * frameMs;
+    while (performance.now() < due) {
+      await new Promise((r) => requestAnimationFrame(() => r(null)));
+    }
+  }
+
+  return recorder.stop();
+}
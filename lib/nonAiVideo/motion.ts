@@ -0,0 +1,270 @@
+// /lib/nonAiVideo/motion.ts
+// =========================
+// ✅ 非AI動画の動き（ブラウザ / サーバ共通）
+// - ブラウザ（lib/nonAiVideo/generate.ts の Canvas）と
+//   サーバ（lib/video/nonai.ts の ffmpeg）が同じ計算で1コマずつ描く
+// - ここを変えると両方の見え方が同時に変わる（既存の下書きも同じ動きで作り直せる）
+// =========================
+
+import type { NonAiVideoType } from "@/lib/types/draft";
+
+export type { NonAiVideoType };
+
+export type NonAiVideoInput = {
+  /** 代表画像（必須・1枚） */
+  primary: string;
+
+  /** 素材画像（0〜複数・順序あり） */
+  materials?: string[];
+
+  seconds: 5 | 10;
+  size: { w: number; h: number };
+  motion: {
+    tempo: "slow" | "normal" | "sharp" | "fast";
+    reveal: "early" | "delayed" | "last" | "late";
+    intensity: "calm" | "balanced" | "strong" | "subtle";
+    attitude: "humble" | "neutral" | "assertive";
+    rhythm: "with_pause" | "continuous" | "wave" | "beat";
+  };
+  videoType?: NonAiVideoType;
+  /**
+   * 背景画像URL。動画化後に /api/video/cutout は使わず、
+   * Canvas上で背景を固定描画してから商品PNGだけを動かします。
+   */
+  backgroundImageUrl?: string;
+  textLines?: string[];
+};
+
+export type NonAiMotion = NonAiVideoInput["motion"];
+
+/** ✅ fps は固定（ブラウザの負荷対策で決めた値をサーバでも使う） */
+export const NON_AI_VIDEO_FPS = 24;
+
+/** 背景画像なしの時のグラデーション（左上 → 右下） */
+export const NON_AI_FALLBACK_GRADIENT = ["#071525", "#0f2a3f"] as const;
+
+/** テキストの描き方（primary区間のみ・最大3行） */
+export const NON_AI_TEXT_STYLE = {
+  fontSize: 44,
+  lineHeight: 56,
+  pad: 60,
+  maxLines: 3,
+  color: "rgba(255,255,255,0.92)",
+} as const;
+
+export function easeInOut(t: number) {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
+
+/** テンポで動き量を変える（非AI演出） */
+export function pickMotionMove(tempo: NonAiMotion["tempo"]) {
+  return tempo === "slow" ? 0.06 : tempo === "normal" ? 0.1 : 0.16;
+}
+
+/** 強さでコントラストっぽい演出 */
+export function pickOverlayAlpha(intensity: NonAiMotion["intensity"]) {
+  return intensity === "calm" ? 0.06 : intensity === "balanced" ? 0.1 : 0.16;
+}
+
+/** reveal（見せ方）：テキストが出始める位置（0〜1） */
+export function pickRevealStart(reveal: NonAiMotion["reveal"]) {
+  return reveal === "early" ? 0.0 : reveal === "delayed" ? 0.25 : 0.6;
+}
+
+type Sized = { width: number; height: number };
+
+export function coverRect(img: Sized, w: number, h: number, scale = 1) {
+  // 画像をキャンバス全体に自然に敷き詰めるための基本計算。
+  // ここを共通化すると、縦長/横長どちらの写真でも左右に変な揺れが出にくくなる。
+  const base = Math.max(w / img.width, h / img.height) * scale;
+  const dw = img.width * base;
+  const dh = img.height * base;
+  return { dw, dh, dx: (w - dw) / 2, dy: (h - dh) / 2 };
+}
+
+export function containRect(img: Sized, w: number, h: number, scale = 1) {
+  // 商品単体の透明PNGなどは切らずに見せたいので contain を使う。
+  const base = Math.min(w / img.width, h / img.height) * scale;
+  const dw = img.width * base;
+  const dh = img.height * base;
+  return { dw, dh, dx: (w - dw) / 2, dy: (h - dh) / 2 };
+}
+
+/**
+ * 1枚の画像の置き方
+ * - cover: 中心で回転してから offset だけずらす（画面演出）
+ * - contain: offset だけ動かした位置を中心に回転・左右反転（商品を切らない）
+ */
+export type NonAiFrameLayer = {
+  imageIndex: number;
+  fit: "cover" | "contain";
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  rotation: number;
+  flipScaleX: number;
+  alpha: number;
+};
+
+export type NonAiFramePlan = {
+  /** 0〜1（動画全体の位置） */
+  tGlobal: number;
+  /** 今映っている素材（テキストは 0 の区間だけ） */
+  imageIndex: number;
+  layers: NonAiFrameLayer[];
+  /** 複数画像の切替フェード（黒を重ねる濃さ / 0 なら無し） */
+  fadeAlpha: number;
+  /** 雰囲気レイヤー（黒を重ねる濃さ / 背景固定時は 0） */
+  overlayAlpha: number;
+  /** テキストの濃さ（null なら描かない） */
+  textAlpha: number | null;
+};
+
+export type NonAiFramePlanArgs = {
+  frame: number;
+  totalFrames: number;
+  imageCount: number;
+  size: { w: number; h: number };
+  motion: NonAiMotion;
+  videoType?: NonAiVideoType;
+  hasStaticBackground: boolean;
+  hasText: boolean;
+};
+
+function layer(imageIndex: number, fit: NonAiFrameLayer["fit"], values: Partial<NonAiFrameLayer>): NonAiFrameLayer {
+  return { imageIndex, fit, scale: 1, offsetX: 0, offsetY: 0, rotation: 0, flipScaleX: 1, alpha: 1, ...values };
+}
+
+/**
+ * 1コマ分の描き方を決める
+ * - 描画そのものはしない（Canvas / サーバの描画側がこの結果どおりに描く）
+ */
+export function planNonAiFrame(args: NonAiFramePlanArgs): NonAiFramePlan {
+  const { frame: f, totalFrames, imageCount } = args;
+  const { w, h } = args.size;
+
+  const framesPerImage = Math.floor(totalFrames / imageCount);
+  const move = pickMotionMove(args.motion.tempo);
+  const revealStart = pickRevealStart(args.motion.reveal);
+
+  const tGlobal = totalFrames <= 1 ? 1 : f / (totalFrames - 1);
+
+  const imageIndex = Math.min(Math.floor(f / framesPerImage), imageCount - 1);
+
+  const localFrameStart = imageIndex * framesPerImage;
+  const localT = framesPerImage > 0 ? Math.min(1, (f - localFrameStart) / framesPerImage) : 1;
+
+  const tt = easeInOut(localT);
+
+  const oneImage = imageCount === 1;
+  const videoType = args.videoType ?? "auto_ad";
+  const hasStaticBackground = args.hasStaticBackground;
+
+  const layers: NonAiFrameLayer[] = [];
+  let fadeAlpha = 0;
+
+  if (videoType === "turntable" && imageCount >= 2) {
+    // Turntable：複数の商品画像を順番に切り替え、オルゴール台のような疑似360度回転に見せます。
+    // 画像そのものを時計回りに回さず、正面→斜め→側面→背面のような素材順を尊重します。
+    const loopPosition = (tGlobal * imageCount) % imageCount;
+    const currentIndex = Math.floor(loopPosition);
+    const nextIndex = (currentIndex + 1) % imageCount;
+    const rawFade = loopPosition - currentIndex;
+
+    // ほんの少しだけ横方向へ揺らし、台の上で回っている感を足します。
+    const orbit = Math.sin(tGlobal * Math.PI * 2) * w * 0.018;
+    const scale = 0.9 + Math.sin(tGlobal * Math.PI * 2) * 0.018;
+
+    layers.push(layer(currentIndex, "contain", { scale, offsetX: orbit }));
+
+    // 切替点だけクロスフェード。強すぎると商品が二重に見えるため控えめにします。
+    if (rawFade > 0.72) {
+      const cross = Math.min(1, (rawFade - 0.72) / 0.28);
+      layers.push(layer(nextIndex, "contain", { scale, offsetX: orbit, alpha: cross }));
+    }
+  } else if (oneImage && videoType === "spin") {
+    // 単品Spin：左右に揺らすだけではなく、画像そのものを中心から回す。
+    // 商品切り抜きPNGでも破綻しにくいように contain で描画する。
+    const angle = tt * Math.PI * 2;
+    const flip = 0.72 + 0.28 * Math.abs(Math.cos(angle));
+    layers.push(layer(imageIndex, "contain", { scale: 0.82, rotation: angle, flipScaleX: flip }));
+  } else if (oneImage && videoType === "zoom") {
+    // 単品Zoom：商品へ自然に寄る。
+    layers.push(layer(imageIndex, "contain", { scale: 1.0 + move * 1.7 * tt }));
+  } else if (oneImage && videoType === "pan") {
+    // 単品Pan：背景固定時は商品を切らないため contain、通常時は画面演出として cover。
+    const scale = hasStaticBackground ? 0.92 + move * tt : 1.06 + move * tt;
+    const offsetX = (tt - 0.5) * w * 0.12;
+    const offsetY = (0.5 - tt) * h * 0.06;
+    layers.push(layer(imageIndex, hasStaticBackground ? "contain" : "cover", { scale, offsetX, offsetY }));
+  } else {
+    // Canva風のKen Burns。複数画像では各写真が自然に拡大・移動しながら切り替わる。
+    const direction = imageIndex % 2 === 0 ? 1 : -1;
+    const offsetX = direction * (tt - 0.5) * w * 0.08;
+    const offsetY = -direction * (tt - 0.5) * h * 0.05;
+    const rotation = oneImage ? direction * (tt - 0.5) * 0.035 : direction * (tt - 0.5) * 0.02;
+    layers.push(
+      layer(imageIndex, hasStaticBackground ? "contain" : "cover", {
+        scale: hasStaticBackground ? 0.9 + move * tt : 1.04 + move * tt,
+        offsetX,
+        offsetY,
+        rotation,
+      })
+    );
+
+    // 複数画像の切替時は軽くフェード。
+    if (!oneImage && localT < 0.12 && imageIndex > 0) {
+      fadeAlpha = ((0.12 - localT) / 0.12) * 0.28;
+    }
+    if (!oneImage && localT > 0.88 && imageIndex < imageCount - 1) {
+      fadeAlpha = ((localT - 0.88) / 0.12) * 0.28;
+    }
+  }
+
+  // 雰囲気レイヤー。背景固定の商品動画では商品と背景を暗くしすぎない。
+  const overlayAlpha = hasStaticBackground ? 0 : pickOverlayAlpha(args.motion.intensity);
+
+  // テキスト（primary区間のみ表示）
+  const textAlpha =
+    imageIndex === 0 && args.hasText
+      ? tGlobal < revealStart
+        ? 0
+        : Math.min(1, (tGlobal - revealStart) / 0.15)
+      : null;
+
+  return { tGlobal, imageIndex, layers, fadeAlpha, overlayAlpha, textAlpha };
+}
+
+/** with_pause で中央付近を止める範囲（tGlobal）と、止める長さ（通常コマの何倍見せるか） */
+const PAUSE_WINDOW = { from: 0.46, to: 0.54 } as const;
+const PAUSE_HOLD = 7;
+
+/**
+ * 書き出す各コマに、どの計算上のコマを映すか
+ * - continuous 等: 0, 1, 2, ... そのまま
+ * - with_pause: 中央付近のコマを長めに見せる（ブラウザは待ち時間で止めていた分を、コマの割り当てで再現する）
+ *   → 全体のコマ数（= 秒数 × fps）は変えない
+ */
+export function buildNonAiFrameSchedule(totalFrames: number, rhythm: NonAiMotion["rhythm"]): number[] {
+  const frames = Array.from({ length: totalFrames }, (_, f) => f);
+  if (rhythm !== "with_pause" || totalFrames <= 1) return frames;
+
+  const weights = frames.map((f) => {
+    const t = f / (totalFrames - 1);
+    return t > PAUSE_WINDOW.from && t < PAUSE_WINDOW.to ? PAUSE_HOLD : 1;
+  });
+  const totalWeight = weights.reduce((sum, v) => sum + v, 0);
+
+  const schedule: number[] = [];
+  let source = 0;
+  let acc = weights[0];
+  for (let out = 0; out < totalFrames; out++) {
+    const at = ((out + 0.5) / totalFrames) * totalWeight;
+    while (at > acc && source < totalFrames - 1) {
+      source += 1;
+      acc += weights[source];
+    }
+    schedule.push(source);
+  }
+  return schedule;
+}
@@ -0,0 +1,318 @@
+// /lib/nonAiVideo/timeline.ts
+// =========================
+// ✅ 複数区間の商品動画（タイムライン）
+// - 冒頭の寄り → 質感 → 多視点 → まとめ のように、区間ごとに画像・動き・長さ・切替を持つ
+// - 区間の役割は videoButtons（非AI専用テンプレ）から選ぶ
+// - 1コマごとの動きは motion.ts の planNonAiFrame をそのまま使う（単発の動画と同じ見え方）
+// =========================
+
+import { DEFAULT_VIDEO_BUTTON_ID, getVideoButtonById, videoButtons } from "@/lib/videoButtons";
+import type {
+  MotionCharacter,
+  NonAiVideoPreset,
+  NonAiVideoType,
+  ProductVideo,
+  ProductVideoSegment,
+  ProductVideoTimeline,
+  ProductVideoTransition,
+} from "@/lib/types/draft";
+import { buildNonAiFrameSchedule, easeInOut } from "@/lib/nonAiVideo/motion";
+
+export const TIMELINE_LIMITS = {
+  maxSegments: 8,
+  maxTotalSeconds: 30,
+  minSegmentSeconds: 1,
+  maxSegmentSeconds: 10,
+  minTransitionSeconds: 0.2,
+  maxTransitionSeconds: 1.5,
+  maxMaterials: 6,
+  maxTextLines: 3,
+} as const;
+
+export const TIMELINE_TRANSITIONS: Array<{ value: ProductVideoTransition; label: string }> = [
+  { value: "cut", label: "カット" },
+  { value: "fade", label: "クロスフェード" },
+  { value: "fade_black", label: "暗転" },
+  { value: "slide", label: "スライド" },
+];
+
+export const TIMELINE_VIDEO_TYPES: Array<{ value: NonAiVideoType; label: string }> = [
+  { value: "zoom", label: "寄り" },
+  { value: "pan", label: "横移動" },
+  { value: "turntable", label: "視点切替" },
+  { value: "spin", label: "回転" },
+  { value: "auto_ad", label: "自動" },
+];
+
+/**
+ * videoButtons ごとの区間の既定値
+ * - 動き（motion）は各ボタンの defaultMotion を使う
+ * - 多視点（compare_split）は追加画像があると視点切替、1枚なら Ken Burns に落ちる
+ */
+const SEGMENT_DEFAULTS: Record<
+  string,
+  { videoType: NonAiVideoType; seconds: number; transition: ProductVideoTransition }
+> = {
+  sell_hook_1s_pushin_nonai: { videoType: "zoom", seconds: 2, transition: "cut" },
+  sell_luxury_slow_zoom_nonai: { videoType: "zoom", seconds: 3, transition: "fade" },
+  sell_compare_split_nonai: { videoType: "turntable", seconds: 3, transition: "slide" },
+  sell_usecase_bgvideo_comp_nonai: { videoType: "pan", seconds: 3, transition: "fade" },
+  sell_cta_last_pushin_nonai: { videoType: "zoom", seconds: 2, transition: "fade_black" },
+};
+
+/** 新しいタイムラインを作る時の並び（冒頭 → 質感 → 多視点 → まとめ） */
+export const DEFAULT_TIMELINE_BUTTON_IDS = [
+  "sell_hook_1s_pushin_nonai",
+  "sell_luxury_slow_zoom_nonai",
+  "sell_compare_split_nonai",
+  "sell_cta_last_pushin_nonai",
+];
+
+const TRANSITION_VALUES = TIMELINE_TRANSITIONS.map((t) => t.value);
+const VIDEO_TYPE_VALUES: NonAiVideoType[] = ["auto_ad", "spin", "turntable", "zoom", "pan", "showcase", "reel"];
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function roundHalf(n: number) {
+  return Math.round(n * 2) / 2;
+}
+
+function newSegmentId() {
+  return `seg_${Date.now().toString(36)}_${Math.random().toString(16).slice(2, 8)}`;
+}
+
+function toStringList(value: unknown, limit: number) {
+  return Array.isArray(value)
+    ? value.map((v) => String(v ?? "").trim()).filter(Boolean).slice(0, limit)
+    : [];
+}
+
+function normalizeMotion(value: unknown, fallback: MotionCharacter): MotionCharacter {
+  const v = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const pick = <T extends string>(x: unknown, allowed: readonly T[], def: T): T =>
+    typeof x === "string" && (allowed as readonly string[]).includes(x) ? (x as T) : def;
+
+  return {
+    tempo: pick(v.tempo, ["slow", "normal", "sharp"] as const, fallback.tempo),
+    reveal: pick(v.reveal, ["early", "delayed", "last"] as const, fallback.reveal),
+    intensity: pick(v.intensity, ["calm", "balanced", "strong"] as const, fallback.intensity),
+    attitude: pick(v.attitude, ["humble", "neutral", "assertive"] as const, fallback.attitude),
+    rhythm: pick(v.rhythm, ["with_pause", "continuous"] as const, fallback.rhythm),
+  };
+}
+
+export function getSegmentButtonLabel(buttonId: string) {
+  const button = getVideoButtonById(buttonId);
+  return button ? `${button.mid}（${button.small}）` : "区間";
+}
+
+/** 切替の長さは前後どちらの区間の半分も超えない */
+export function clampTransitionSeconds(seconds: number, prevSeconds: number, currentSeconds: number) {
+  const max = Math.min(TIMELINE_LIMITS.maxTransitionSeconds, prevSeconds / 2, currentSeconds / 2);
+  return clamp(Number(seconds) || 0, Math.min(TIMELINE_LIMITS.minTransitionSeconds, max), max);
+}
+
+export function createTimelineSegment(
+  buttonId: string,
+  imageUrl: string,
+  materialUrls: string[] = []
+): ProductVideoSegment {
+  const button = getVideoButtonById(buttonId) ?? getVideoButtonById(DEFAULT_VIDEO_BUTTON_ID)!;
+  const defaults = SEGMENT_DEFAULTS[button.id] ?? { videoType: "auto_ad", seconds: 3, transition: "fade" };
+
+  return {
+    id: newSegmentId(),
+    buttonId: button.id,
+    imageUrl: String(imageUrl || "").trim(),
+    materialUrls: materialUrls.slice(0, TIMELINE_LIMITS.maxMaterials),
+    motion: { ...button.defaultMotion },
+    videoType: defaults.videoType,
+    seconds: defaults.seconds,
+    transition: defaults.transition,
+    transitionSeconds: 0.4,
+    textLines: [],
+  };
+}
+
+/**
+ * 選択中の画像から最初のタイムラインを作る
+ * - 代表画像を冒頭・質感・まとめに使い、2枚目以降は多視点の区間に入れる
+ */
+export function buildDefaultTimeline(imageUrls: string[], backgroundImageUrl?: string): ProductVideoTimeline {
+  const urls = imageUrls.map((u) => String(u || "").trim()).filter(Boolean);
+  const primary = urls[0] ?? "";
+  const others = urls.slice(1);
+
+  const segments = DEFAULT_TIMELINE_BUTTON_IDS.map((buttonId) =>
+    buttonId === "sell_compare_split_nonai"
+      ? createTimelineSegment(buttonId, others[0] ?? primary, others.length ? [primary, ...others.slice(1)] : [])
+      : createTimelineSegment(buttonId, primary)
+  );
+
+  return {
+    segments,
+    ...(backgroundImageUrl ? { backgroundImageUrl } : {}),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * 保存値を整える（Firestore から読んだ値 / 画面から来た値のどちらにも使う）
+ * - 区間数・長さ・合計秒数の上限をここで守る
+ */
+export function normalizeProductVideoTimeline(input: unknown): ProductVideoTimeline | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+  if (!Array.isArray(raw.segments)) return null;
+
+  const segments: ProductVideoSegment[] = [];
+  let total = 0;
+
+  for (const item of raw.segments.slice(0, TIMELINE_LIMITS.maxSegments)) {
+    if (!item || typeof item !== "object") continue;
+    const s = item as Record<string, unknown>;
+
+    const button = getVideoButtonById(String(s.buttonId ?? "")) ?? getVideoButtonById(DEFAULT_VIDEO_BUTTON_ID)!;
+    const remaining = TIMELINE_LIMITS.maxTotalSeconds - total;
+    if (remaining < TIMELINE_LIMITS.minSegmentSeconds) break;
+
+    const seconds = clamp(
+      roundHalf(Number(s.seconds) || 0),
+      TIMELINE_LIMITS.minSegmentSeconds,
+      Math.min(TIMELINE_LIMITS.maxSegmentSeconds, remaining)
+    );
+    const prev = segments[segments.length - 1];
+
+    segments.push({
+      id: String(s.id ?? "").trim() || newSegmentId(),
+      buttonId: button.id,
+      imageUrl: String(s.imageUrl ?? "").trim(),
+      materialUrls: toStringList(s.materialUrls, TIMELINE_LIMITS.maxMaterials),
+      motion: normalizeMotion(s.motion, button.defaultMotion),
+      videoType: VIDEO_TYPE_VALUES.includes(s.videoType as NonAiVideoType)
+        ? (s.videoType as NonAiVideoType)
+        : (SEGMENT_DEFAULTS[button.id]?.videoType ?? "auto_ad"),
+      seconds,
+      transition: TRANSITION_VALUES.includes(s.transition as ProductVideoTransition)
+        ? (s.transition as ProductVideoTransition)
+        : "cut",
+      transitionSeconds: prev
+        ? clampTransitionSeconds(Number(s.transitionSeconds) || 0.4, prev.seconds, seconds)
+        : 0,
+      textLines: toStringList(s.textLines, TIMELINE_LIMITS.maxTextLines),
+    });
+    total += seconds;
+  }
+
+  if (!segments.length) return null;
+
+  const backgroundImageUrl = String(raw.backgroundImageUrl ?? "").trim();
+  const renderedUrl = String(raw.renderedUrl ?? "").trim();
+
+  return {
+    segments,
+    ...(backgroundImageUrl ? { backgroundImageUrl } : {}),
+    renderedUrl: renderedUrl || null,
+    renderedAt: Number(raw.renderedAt) || null,
+    updatedAt: Number(raw.updatedAt) || Date.now(),
+  };
+}
+
+export function getTimelineDuration(timeline: ProductVideoTimeline | null | undefined) {
+  return (timeline?.segments ?? []).reduce((sum, s) => sum + s.seconds, 0);
+}
+
+/** productVideo にタイムラインを入れる（productVideo が未作成の下書きでも形を揃える） */
+export function withProductVideoTimeline(
+  productVideo: ProductVideo | null | undefined,
+  timeline: ProductVideoTimeline | null
+): ProductVideo {
+  return {
+    source: "nonai",
+    url: productVideo?.url ?? null,
+    urls: Array.isArray(productVideo?.urls) ? productVideo.urls : [],
+    preset: productVideo?.preset ?? null,
+    burnedUrl: productVideo?.burnedUrl ?? null,
+    burnedUrls: Array.isArray(productVideo?.burnedUrls) ? productVideo.burnedUrls : [],
+    timeline,
+    audio: productVideo?.audio ?? null,
+    captions: productVideo?.captions ?? null,
+  };
+}
+
+/**
+ * 書き出した動画を代表動画に設定する時の preset
+ * - nonAiVideoPreset は1つの動きしか持てないため、最初の区間の動きを入れ、区間の並びは名前に残す
+ */
+export function buildTimelinePreset(timeline: ProductVideoTimeline): NonAiVideoPreset {
+  const first = timeline.segments[0];
+  const motion = first?.motion ?? getVideoButtonById(DEFAULT_VIDEO_BUTTON_ID)!.defaultMotion;
+
+  return {
+    id: "timeline",
+    major: "タイムライン",
+    middle: `${timeline.segments.length}区間 / ${getTimelineDuration(timeline)}秒`,
+    minor: timeline.segments.map((s) => getVideoButtonById(s.buttonId)?.small ?? "区間").join(" → "),
+    ...motion,
+  };
+}
+
+/** 書き出しの前に止めたい理由（無ければ空文字） */
+export function validateTimelineForRender(timeline: ProductVideoTimeline | null | undefined) {
+  if (!timeline?.segments.length) return "区間がありません";
+  const missing = timeline.segments.findIndex((s) => !s.imageUrl);
+  if (missing >= 0) return `区間${missing + 1}の画像が未選択です`;
+  if (getTimelineDuration(timeline) > TIMELINE_LIMITS.maxTotalSeconds) {
+    return `合計${TIMELINE_LIMITS.maxTotalSeconds}秒以内にしてください`;
+  }
+  return "";
+}
+
+/**
+ * 書き出す1コマが、どの区間のどのコマか
+ * - frame は区間内の計算上のコマ（with_pause の溜めは区間ごとに buildNonAiFrameSchedule で割り当て）
+ * - transition は区間の頭で前の区間の最後のコマから切り替える進み具合（0〜1 / イージング済み）
+ */
+export type TimelineFrameRef = {
+  segmentIndex: number;
+  frame: number;
+  segmentFrames: number;
+  transition: { kind: ProductVideoTransition; progress: number } | null;
+};
+
+export function buildTimelineFrames(timeline: ProductVideoTimeline, fps: number): TimelineFrameRef[] {
+  const out: TimelineFrameRef[] = [];
+
+  timeline.segments.forEach((segment, segmentIndex) => {
+    const segmentFrames = Math.max(1, Math.round(segment.seconds * fps));
+    const schedule = buildNonAiFrameSchedule(segmentFrames, segment.motion.rhythm);
+
+    const transitionFrames =
+      segmentIndex > 0 && segment.transition !== "cut"
+        ? Math.min(segmentFrames, Math.max(1, Math.round(segment.transitionSeconds * fps)))
+        : 0;
+
+    for (let i = 0; i < segmentFrames; i++) {
+      out.push({
+        segmentIndex,
+        frame: schedule[i],
+        segmentFrames,
+        transition:
+          i < transitionFrames
+            ? { kind: segment.transition, progress: easeInOut((i + 1) / (transitionFrames + 1)) }
+            : null,
+      });
+    }
+  });
+
+  return out;
+}
+
+/** 画面の「区間を追加」に並べる候補（videoButtons の並び順） */
+export const TIMELINE_SEGMENT_BUTTONS = videoButtons.map((b) => ({
+  id: b.id,
+  label: getSegmentButtonLabel(b.id),
+  description: b.description,
+}));
@@ -24,6 +24,8 @@ import type {
   ProductSelectorInput,
   ProductSelectorResult,
 } from "@/lib/productSelector/scoring";
+import { normalizeBrandResearchProfile } from "@/lib/brand/brands";
+import type { BrandResearchProfile } from "@/lib/types/draft";
 
 export type ProductSelectorAiFinding = {
   label: string;
@@ -91,7 +93,7 @@ PRODUCT SELECTOR は「商品を見るAI」ではなく、
 正しい考え方：
 - 未来予言ではなく「兆候検知」をする
 - 既に一部で再評価されているが、まだ仕入れ市場に完全反映されていない文脈を探す
-- Ventoの世界観に乗るかを重視する
+- 【ブランド相性】で指定したブランドの世界観に乗るかを重視する
 - 小資本フェーズでは、小型・軽量・壊れにくい・投稿価値が高いものを優先する
 - スクショに複数の商品群がある場合は、必ず複数候補へ分解する
 - 画像やスクショが投入されている場合、絶対に「視覚素材未提供」と書かない。低精度なら「視覚特徴は粗い」と書く
@@ -108,7 +110,10 @@ PRODUCT SELECTOR は「商品を見るAI」ではなく、
 `.trim();
 }
 
-export function buildProductSelectorUserPrompt(input: ProductSelectorInput): string {
+export function buildProductSelectorUserPrompt(
+  input: ProductSelectorInput,
+  brandProfile: BrandResearchProfile = normalizeBrandResearchProfile(null, input.brandId)
+): string {
   return `
 以下の観測素材を AOI FLOW / Vento の PRODUCT SELECTOR として分析してください。
 
@@ -130,6 +135,9 @@ ${input.candidateHint || "未入力"}
 【現在の観測・仕入れ予算】
 ${Number.isFinite(input.budget) ? input.budget : 0}円
 
+【ブランド相性】
+${brandProfile.fitLabel}：${brandProfile.fitWords.join(" / ") || "未設定"}
+
 【旧互換項目】
 category: ${input.category || ""}
 keywords: ${input.keywords || ""}
@@ -155,7 +163,7 @@ decision は touch_now / research_first / watch_only / avoid_now のいずれか
     { "key": "atmosphere", "label": "空気検知", "score": 0, "reason": "" },
     { "key": "marketSignal", "label": "市場兆候", "score": 0, "reason": "" },
     { "key": "future", "label": "未来文脈", "score": 0, "reason": "" },
-    { "key": "vento", "label": "Vento相性", "score": 0, "reason": "" },
+    { "key": "brandFit", "label": "${brandProfile.fitLabel}", "score": 0, "reason": "" },
     { "key": "smallCapital", "label": "小資本適性", "score": 0, "reason": "" }
   ],
   "genreCandidates": [
@@ -225,14 +233,16 @@ const axisKeys = [
   "atmosphere",
   "marketSignal",
   "future",
-  "vento",
+  "brandFit",
   "smallCapital",
 ] as const;
 
 function normalizeAxes(v: unknown, fallback: ProductSelectorAxis[]): ProductSelectorAxis[] {
   const rows = Array.isArray(v) ? v : [];
   const normalized = axisKeys.map((key) => {
-    const row = rows.find((x) => x && typeof x === "object" && (x as { key?: unknown }).key === key) as
+    // brandFit は旧 "vento" キーで返ってくることがある
+    const keys: unknown[] = key === "brandFit" ? [key, "vento"] : [key];
+    const row = rows.find((x) => x && typeof x === "object" && keys.includes((x as { key?: unknown }).key)) as
       | { label?: unknown; score?: unknown; reason?: unknown }
       | undefined;
 
@@ -11,8 +11,15 @@
  * 分担：
  * - PRODUCT SELECTOR：どのジャンル・文脈へ時間と資金を使うかを決める。
  * - SELL CHECK：個別商品をいくらで買い、いくらで売るかを判断する。
+ *
+ * ブランド相性：
+ * - 選んだブランドの researchProfile（users/{uid}/brands/{brandId}）の語で判定する。
+ * - 未設定なら lib/brand/brands.ts の雛形（VENTO / RIVA）またはブランドの must。
  */
 
+import { normalizeBrandResearchProfile } from "@/lib/brand/brands";
+import type { BrandResearchProfile } from "@/lib/types/draft";
+
 export type ProductSelectorDecision =
   | "touch_now"
   | "research_first"
@@ -29,6 +36,8 @@ export type ProductSelectorInput = {
   category?: string;
   keywords?: string;
   memo?: string;
+  /** 相性を見るブランド（未指定は既定ブランド） */
+  brandId?: string;
 };
 
 export type ProductSelectorAxisKey =
@@ -37,7 +46,7 @@ export type ProductSelectorAxisKey =
   | "atmosphere"
   | "marketSignal"
   | "future"
-  | "vento"
+  | "brandFit"
   | "smallCapital";
 
 export type ProductSelectorAxis = {
@@ -312,30 +321,6 @@ const FUTURE_WORDS = [
   "海外",
 ];
 
-const VENTO_WORDS = [
-  "vento",
-  "昭和",
-  "日本",
-  "日本製",
-  "古い",
-  "レトロ",
-  "ヴィンテージ",
-  "vintage",
-  "金属",
-  "質感",
-  "静か",
-  "ノスタルジー",
-  "ミニカー",
-  "カメラ",
-  "時計",
-  "ラジオ",
-  "企業物",
-  "日本語",
-  "無骨",
-  "工業",
-  "アナログ",
-];
-
 const SMALL_CAPITAL_WORDS = [
   "小型",
   "軽量",
@@ -646,16 +631,17 @@ function scoreFuture(text: string): ProductSelectorAxis {
   );
 }
 
-function scoreVento(text: string): ProductSelectorAxis {
+function scoreBrandFit(text: string, profile: BrandResearchProfile): ProductSelectorAxis {
+  const brandName = profile.fitLabel.replace(/相性$/, "") || "ブランド";
   return scoreAxis(
-    "vento",
-    "Vento相性",
+    "brandFit",
+    profile.fitLabel,
     text,
-    VENTO_WORDS,
+    profile.fitWords,
     26,
     8,
-    "Ventoの静かな質感・日本感・レトロ感・工業感へ接続しやすいです",
-    "Ventoらしい空気へ乗せるには、撮影・背景・文章の設計が必要です"
+    `${brandName}の世界観（${profile.fitWords.slice(0, 4).join("・")}など）へ接続しやすいです`,
+    `${brandName}らしい空気へ乗せるには、撮影・背景・文章の設計が必要です`
   );
 }
 
@@ -681,10 +667,10 @@ function scoreSmallCapital(text: string, budget: number): ProductSelectorAxis {
 
 function decisionFromScore(score: number, axes: ProductSelectorAxis[]): ProductSelectorDecision {
   const market = axes.find((x) => x.key === "marketSignal")?.score ?? 0;
-  const vento = axes.find((x) => x.key === "vento")?.score ?? 0;
+  const brandFit = axes.find((x) => x.key === "brandFit")?.score ?? 0;
   const capital = axes.find((x) => x.key === "smallCapital")?.score ?? 0;
 
-  if (score >= 76 && vento >= 55 && capital >= 45) return "touch_now";
+  if (score >= 76 && brandFit >= 55 && capital >= 45) return "touch_now";
   if (score >= 62 && market >= 42) return "research_first";
   if (score >= 45) return "watch_only";
   return "avoid_now";
@@ -1001,7 +987,10 @@ function buildBuyCandidates(args: {
   ];
 }
 
-export function evaluateProductCandidate(input: ProductSelectorInput): ProductSelectorResult {
+export function evaluateProductCandidate(
+  input: ProductSelectorInput,
+  brandProfile: BrandResearchProfile = normalizeBrandResearchProfile(null, input.brandId)
+): ProductSelectorResult {
   const mergedText = mergedInputText(input);
 
   const axes = [
@@ -1010,7 +999,7 @@ export function evaluateProductCandidate(input: ProductSelectorInput): ProductSe
     scoreAtmosphere(mergedText),
     scoreMarketSignal(mergedText),
     scoreFuture(mergedText),
-    scoreVento(mergedText),
+    scoreBrandFit(mergedText, brandProfile),
     scoreSmallCapital(mergedText, input.budget),
   ];
 
@@ -0,0 +1,1041 @@
+// lib/server/backgroundQuality.ts
+import "server-only";
+import sharp from "sharp";
+
+import type { BackgroundQualitySummary, BackgroundQualityVerdict } from "@/lib/types/draft";
+
+/**
+ * 背景画像の品質判定（AI背景 / テンプレ背景 / アップロード背景 / 合成画像）
+ *
+ * ✅ /api/generate-bg の採用判定（可視性・構造破綻・文脈読解・総合採用スコア）をここに集約
+ * ✅ /api/template-backgrounds/generate の明るさ判定（analyzeImageLight）も同じ場所に置く
+ * ✅ /api/images/analyze から任意の画像を採点し、理由つきで返す
+ */
+
+/**
+ * このスコア未満は「文脈不足」とみなして不採用
+ * 0〜100点換算
+ */
+export const MIN_CONTEXT_READABILITY_SCORE = 56;
+
+/**
+ * 総合採用スコア
+ * 最後に 2候補を比較するための目安
+ */
+export const MIN_TOTAL_ACCEPT_SCORE = 60;
+
+export type ZoneLightStats = {
+  mean: number;
+  darkPixelRatio: number;
+  nearBlackPixelRatio: number;
+  blownPixelRatio: number;
+  stdDev: number;
+};
+
+export type ContextReadabilityAnalysis = {
+  topContextVariance: number;
+  leftContextStrength: number;
+  rightContextStrength: number;
+  sideContextBalance: number;
+  centerIsolationScore: number;
+  groundingContinuityScore: number;
+  contextReadabilityScore: number;
+};
+
+export type ImageVisibilityAnalysis = {
+  width: number;
+  height: number;
+  mean: number;
+  minChannelMean: number;
+  darkPixelRatio: number;
+  nearBlackPixelRatio: number;
+  blownPixelRatio: number;
+  avgStdDev: number;
+  centerBand: ZoneLightStats;
+  lowerBand: ZoneLightStats;
+  centerFlatness: number;
+  lowerFlatness: number;
+  centerEdgeDensity: number;
+  lowerEdgeDensity: number;
+  borderGlowRatio: number;
+  isolatedNoiseRatio: number;
+  horizontalBandingRatio: number;
+  centralPlateRatio: number;
+  context: ContextReadabilityAnalysis;
+};
+
+/* ---------------------------------- */
+
+function calcZoneStats(
+  data: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  xStart: number,
+  xEnd: number,
+  yStart: number,
+  yEnd: number
+): ZoneLightStats {
+  let sum = 0;
+  let sumSq = 0;
+  let darkCount = 0;
+  let nearBlackCount = 0;
+  let blownCount = 0;
+  let count = 0;
+
+  const xs = Math.max(0, Math.min(width, xStart));
+  const xe = Math.max(xs, Math.min(width, xEnd));
+  const ys = Math.max(0, Math.min(height, yStart));
+  const ye = Math.max(ys, Math.min(height, yEnd));
+
+  for (let y = ys; y < ye; y++) {
+    for (let x = xs; x < xe; x++) {
+      const i = (y * width + x) * channels;
+      const r = data[i] ?? 0;
+      const g = data[i + 1] ?? 0;
+      const b = data[i + 2] ?? 0;
+
+      const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      sum += luminance;
+      sumSq += luminance * luminance;
+
+      if (luminance < 58) darkCount += 1;
+      if (luminance < 28) nearBlackCount += 1;
+      if (luminance > 245) blownCount += 1;
+
+      count += 1;
+    }
+  }
+
+  const safeCount = Math.max(1, count);
+  const mean = sum / safeCount;
+  const variance = Math.max(0, sumSq / safeCount - mean * mean);
+  const stdDev = Math.sqrt(variance);
+
+  return {
+    mean,
+    darkPixelRatio: darkCount / safeCount,
+    nearBlackPixelRatio: nearBlackCount / safeCount,
+    blownPixelRatio: blownCount / safeCount,
+    stdDev,
+  };
+}
+
+function calcFlatnessAndEdges(
+  data: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  xStart: number,
+  xEnd: number,
+  yStart: number,
+  yEnd: number
+) {
+  const xs = Math.max(1, Math.min(width - 1, xStart));
+  const xe = Math.max(xs + 1, Math.min(width - 1, xEnd));
+  const ys = Math.max(1, Math.min(height - 1, yStart));
+  const ye = Math.max(ys + 1, Math.min(height - 1, yEnd));
+
+  let flatCount = 0;
+  let edgeCount = 0;
+  let count = 0;
+
+  for (let y = ys; y < ye; y++) {
+    for (let x = xs; x < xe; x++) {
+      const il = (y * width + (x - 1)) * channels;
+      const ir = (y * width + (x + 1)) * channels;
+      const iu = ((y - 1) * width + x) * channels;
+      const id = ((y + 1) * width + x) * channels;
+
+      const ll =
+        0.2126 * (data[il] ?? 0) +
+        0.7152 * (data[il + 1] ?? 0) +
+        0.0722 * (data[il + 2] ?? 0);
+      const lr =
+        0.2126 * (data[ir] ?? 0) +
+        0.7152 * (data[ir + 1] ?? 0) +
+        0.0722 * (data[ir + 2] ?? 0);
+      const lu =
+        0.2126 * (data[iu] ?? 0) +
+        0.7152 * (data[iu + 1] ?? 0) +
+        0.0722 * (data[iu + 2] ?? 0);
+      const ld =
+        0.2126 * (data[id] ?? 0) +
+        0.7152 * (data[id + 1] ?? 0) +
+        0.0722 * (data[id + 2] ?? 0);
+
+      const gx = Math.abs(lr - ll);
+      const gy = Math.abs(ld - lu);
+      const grad = gx + gy;
+
+      if (grad < 3.5) flatCount += 1;
+      if (grad > 18) edgeCount += 1;
+
+      count += 1;
+    }
+  }
+
+  const safeCount = Math.max(1, count);
+  return {
+    flatness: flatCount / safeCount,
+    edgeDensity: edgeCount / safeCount,
+  };
+}
+
+function calcBorderGlowRatio(
+  data: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  channels: number
+): number {
+  const xStart = Math.round(width * 0.84);
+  const xEnd = Math.round(width * 0.98);
+  const yStart = Math.round(height * 0.08);
+  const yEnd = Math.round(height * 0.92);
+
+  let glowCount = 0;
+  let count = 0;
+
+  for (let y = yStart; y < yEnd; y++) {
+    for (let x = xStart; x < xEnd; x++) {
+      const i = (y * width + x) * channels;
+      const l =
+        0.2126 * (data[i] ?? 0) +
+        0.7152 * (data[i + 1] ?? 0) +
+        0.0722 * (data[i + 2] ?? 0);
+
+      const il = (y * width + Math.max(0, x - 1)) * channels;
+      const left =
+        0.2126 * (data[il] ?? 0) +
+        0.7152 * (data[il + 1] ?? 0) +
+        0.0722 * (data[il + 2] ?? 0);
+
+      if (l > 215 && Math.abs(l - left) > 28) glowCount += 1;
+      count += 1;
+    }
+  }
+
+  return glowCount / Math.max(1, count);
+}
+
+function calcIsolatedNoiseRatio(
+  data: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  channels: number
+): number {
+  let isolated = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * channels;
+      const l =
+        0.2126 * (data[i] ?? 0) +
+        0.7152 * (data[i + 1] ?? 0) +
+        0.0722 * (data[i + 2] ?? 0);
+
+      const neighbors = [
+        ((y - 1) * width + x) * channels,
+        ((y + 1) * width + x) * channels,
+        (y * width + (x - 1)) * channels,
+        (y * width + (x + 1)) * channels,
+      ];
+
+      let farNeighbors = 0;
+      for (const n of neighbors) {
+        const nl =
+          0.2126 * (data[n] ?? 0) +
+          0.7152 * (data[n + 1] ?? 0) +
+          0.0722 * (data[n + 2] ?? 0);
+        if (Math.abs(l - nl) > 40) farNeighbors += 1;
+      }
+
+      if (farNeighbors >= 3) isolated += 1;
+      count += 1;
+    }
+  }
+
+  return isolated / Math.max(1, count);
+}
+
+function calcHorizontalBandingRatio(
+  data: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  channels: number
+): number {
+  const yStart = Math.round(height * 0.66);
+  const yEnd = Math.round(height * 0.9);
+  const xStart = Math.round(width * 0.12);
+  const xEnd = Math.round(width * 0.88);
+
+  let strongRowTransitions = 0;
+  let rows = 0;
+
+  for (let y = yStart + 1; y < yEnd; y++) {
+    let prevRowSum = 0;
+    let rowSum = 0;
+
+    for (let x = xStart; x < xEnd; x++) {
+      const i1 = ((y - 1) * width + x) * channels;
+      const i2 = (y * width + x) * channels;
+
+      prevRowSum +=
+        0.2126 * (data[i1] ?? 0) +
+        0.7152 * (data[i1 + 1] ?? 0) +
+        0.0722 * (data[i1 + 2] ?? 0);
+      rowSum +=
+        0.2126 * (data[i2] ?? 0) +
+        0.7152 * (data[i2 + 1] ?? 0) +
+        0.0722 * (data[i2 + 2] ?? 0);
+    }
+
+    const rowMean = rowSum / Math.max(1, xEnd - xStart);
+    const prevMean = prevRowSum / Math.max(1, xEnd - xStart);
+
+    if (Math.abs(rowMean - prevMean) > 18) strongRowTransitions += 1;
+    rows += 1;
+  }
+
+  return strongRowTransitions / Math.max(1, rows);
+}
+
+function calcCentralPlateRatio(
+  data: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  channels: number
+): number {
+  const xStart = Math.round(width * 0.3);
+  const xEnd = Math.round(width * 0.7);
+  const yStart = Math.round(height * 0.3);
+  const yEnd = Math.round(height * 0.7);
+
+  let plateCount = 0;
+  let count = 0;
+
+  for (let y = yStart + 1; y < yEnd - 1; y++) {
+    for (let x = xStart + 1; x < xEnd - 1; x++) {
+      const i = (y * width + x) * channels;
+      const l =
+        0.2126 * (data[i] ?? 0) +
+        0.7152 * (data[i + 1] ?? 0) +
+        0.0722 * (data[i + 2] ?? 0);
+
+      const il = (y * width + (x - 1)) * channels;
+      const ir = (y * width + (x + 1)) * channels;
+      const iu = ((y - 1) * width + x) * channels;
+      const id = ((y + 1) * width + x) * channels;
+
+      const ll =
+        0.2126 * (data[il] ?? 0) +
+        0.7152 * (data[il + 1] ?? 0) +
+        0.0722 * (data[il + 2] ?? 0);
+      const lr =
+        0.2126 * (data[ir] ?? 0) +
+        0.7152 * (data[ir + 1] ?? 0) +
+        0.0722 * (data[ir + 2] ?? 0);
+      const lu =
+        0.2126 * (data[iu] ?? 0) +
+        0.7152 * (data[iu + 1] ?? 0) +
+        0.0722 * (data[iu + 2] ?? 0);
+      const ld =
+        0.2126 * (data[id] ?? 0) +
+        0.7152 * (data[id + 1] ?? 0) +
+        0.0722 * (data[id + 2] ?? 0);
+
+      const localMaxDiff = Math.max(
+        Math.abs(l - ll),
+        Math.abs(l - lr),
+        Math.abs(l - lu),
+        Math.abs(l - ld)
+      );
+
+      if (localMaxDiff < 3 && l > 55 && l < 210) plateCount += 1;
+      count += 1;
+    }
+  }
+
+  return plateCount / Math.max(1, count);
+}
+
+/**
+ * 上端の構造差
+ * 白壁のみだと低くなる
+ */
+function calcTopContextVariance(
+  data: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  channels: number
+): number {
+  const xStart = Math.round(width * 0.12);
+  const xEnd = Math.round(width * 0.88);
+  const yStart = Math.round(height * 0.06);
+  const yEnd = Math.round(height * 0.22);
+
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+
+  for (let y = yStart; y < yEnd; y++) {
+    for (let x = xStart; x < xEnd; x++) {
+      const i = (y * width + x) * channels;
+      const l =
+        0.2126 * (data[i] ?? 0) +
+        0.7152 * (data[i + 1] ?? 0) +
+        0.0722 * (data[i + 2] ?? 0);
+      sum += l;
+      sumSq += l * l;
+      count += 1;
+    }
+  }
+
+  const safe = Math.max(1, count);
+  const mean = sum / safe;
+  const variance = Math.max(0, sumSq / safe - mean * mean);
+
+  return Math.sqrt(variance);
+}
+
+/**
+ * 左右端の文脈強度
+ * ただし強すぎて主役になるのも避けたい
+ */
+function calcSideContextStrength(
+  data: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  side: "left" | "right"
+): number {
+  const xStart =
+    side === "left" ? Math.round(width * 0.02) : Math.round(width * 0.82);
+  const xEnd =
+    side === "left" ? Math.round(width * 0.18) : Math.round(width * 0.98);
+  const yStart = Math.round(height * 0.18);
+  const yEnd = Math.round(height * 0.76);
+
+  const structure = calcFlatnessAndEdges(
+    data,
+    width,
+    height,
+    channels,
+    xStart,
+    xEnd,
+    yStart,
+    yEnd
+  );
+
+  const zone = calcZoneStats(data, width, height, channels, xStart, xEnd, yStart, yEnd);
+
+  /**
+   * 適度なエッジ + 適度なばらつき + 暗すぎない
+   */
+  const edgePart = clamp01(structure.edgeDensity / 0.08);
+  const variancePart = clamp01(zone.stdDev / 18);
+  const brightnessPenalty = zone.mean < 52 ? 0.4 : 1;
+
+  return clamp01((edgePart * 0.55 + variancePart * 0.45) * brightnessPenalty);
+}
+
+/**
+ * 中央がどれだけ孤立して守られているか
+ */
+function calcCenterIsolationScore(
+  centerBand: ZoneLightStats,
+  centerFlatness: number,
+  centerEdgeDensity: number
+): number {
+  const brightness = clamp01((centerBand.mean - 70) / 45);
+  const darkPenalty = 1 - clamp01(centerBand.nearBlackPixelRatio / 0.05);
+  const edgePenalty = 1 - clamp01(centerEdgeDensity / 0.08);
+
+  /**
+   * flatness が高すぎるとベタ板化しやすいので上限補正
+   */
+  const flatnessPenalty =
+    centerFlatness > 0.92 ? 0.25 : centerFlatness > 0.86 ? 0.65 : 1;
+
+  return clamp01(
+    (brightness * 0.4 + darkPenalty * 0.35 + edgePenalty * 0.25) * flatnessPenalty
+  );
+}
+
+/**
+ * 下部が本当に床 / テーブル面として続いているか
+ */
+function calcGroundingContinuityScore(
+  lowerBand: ZoneLightStats,
+  lowerFlatness: number,
+  lowerEdgeDensity: number,
+  horizontalBandingRatio: number
+): number {
+  const brightness = clamp01((lowerBand.mean - 62) / 48);
+
+  /**
+   * 面として適度に滑らか、でもベタ過ぎない
+   */
+  const flatnessPart =
+    lowerFlatness < 0.45
+      ? clamp01(lowerFlatness / 0.45)
+      : lowerFlatness > 0.93
+      ? 0.25
+      : 1;
+
+  const edgePart = lowerEdgeDensity < 0.003 ? 0.2 : lowerEdgeDensity > 0.12 ? 0.45 : 1;
+  const bandPenalty = 1 - clamp01(horizontalBandingRatio / 0.2);
+  const darkPenalty = 1 - clamp01(lowerBand.nearBlackPixelRatio / 0.08);
+
+  return clamp01(
+    brightness * 0.32 +
+      flatnessPart * 0.22 +
+      edgePart * 0.16 +
+      bandPenalty * 0.18 +
+      darkPenalty * 0.12
+  );
+}
+
+export function clamp01(v: number): number {
+  if (!Number.isFinite(v)) return 0;
+  return Math.max(0, Math.min(1, v));
+}
+
+function calcContextReadabilityAnalysis(args: {
+  data: Uint8Array | Buffer;
+  width: number;
+  height: number;
+  channels: number;
+  centerBand: ZoneLightStats;
+  lowerBand: ZoneLightStats;
+  centerFlatness: number;
+  centerEdgeDensity: number;
+  lowerFlatness: number;
+  lowerEdgeDensity: number;
+  horizontalBandingRatio: number;
+}): ContextReadabilityAnalysis {
+  const {
+    data,
+    width,
+    height,
+    channels,
+    centerBand,
+    lowerBand,
+    centerFlatness,
+    centerEdgeDensity,
+    lowerFlatness,
+    lowerEdgeDensity,
+    horizontalBandingRatio,
+  } = args;
+
+  const topContextVariance = calcTopContextVariance(data, width, height, channels);
+  const leftContextStrength = calcSideContextStrength(data, width, height, channels, "left");
+  const rightContextStrength = calcSideContextStrength(data, width, height, channels, "right");
+
+  /**
+   * 左右どちらか一方だけ極端に強い事故も抑える
+   */
+  const sideMean = (leftContextStrength + rightContextStrength) / 2;
+  const sideGap = Math.abs(leftContextStrength - rightContextStrength);
+  const sideContextBalance = clamp01(sideMean * (1 - clamp01(sideGap / 0.75)));
+
+  const centerIsolationScore = calcCenterIsolationScore(
+    centerBand,
+    centerFlatness,
+    centerEdgeDensity
+  );
+
+  const groundingContinuityScore = calcGroundingContinuityScore(
+    lowerBand,
+    lowerFlatness,
+    lowerEdgeDensity,
+    horizontalBandingRatio
+  );
+
+  /**
+   * 最終文脈スコア
+   * 0〜100点
+   */
+  const contextReadabilityScore =
+    (clamp01(topContextVariance / 16) * 0.24 +
+      sideContextBalance * 0.24 +
+      centerIsolationScore * 0.28 +
+      groundingContinuityScore * 0.24) *
+    100;
+
+  return {
+    topContextVariance,
+    leftContextStrength,
+    rightContextStrength,
+    sideContextBalance,
+    centerIsolationScore,
+    groundingContinuityScore,
+    contextReadabilityScore,
+  };
+}
+
+export async function analyzeImageVisibility(buf: Buffer): Promise<ImageVisibilityAnalysis> {
+  const image = sharp(buf, { failOn: "none" });
+  const meta = await image.metadata();
+
+  const { data, info } = await image
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const width = Number(info.width || meta.width || 0);
+  const height = Number(info.height || meta.height || 0);
+  const channels = Number(info.channels || 3);
+  const totalPixels = Math.max(1, width * height);
+
+  let sum = 0;
+  let darkCount = 0;
+  let nearBlackCount = 0;
+  let blownCount = 0;
+
+  for (let i = 0; i < data.length; i += channels) {
+    const r = data[i] ?? 0;
+    const g = data[i + 1] ?? 0;
+    const b = data[i + 2] ?? 0;
+
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    sum += luminance;
+
+    if (luminance < 58) darkCount += 1;
+    if (luminance < 28) nearBlackCount += 1;
+    if (luminance > 245) blownCount += 1;
+  }
+
+  const stats = await image.removeAlpha().stats();
+  const rMean = stats.channels[0]?.mean ?? 0;
+  const gMean = stats.channels[1]?.mean ?? 0;
+  const bMean = stats.channels[2]?.mean ?? 0;
+
+  const channelStdDevs = stats.channels
+    .slice(0, 3)
+    .map((c) => Number(c?.stdev ?? 0))
+    .filter((v) => Number.isFinite(v));
+
+  const avgStdDev =
+    channelStdDevs.length > 0
+      ? channelStdDevs.reduce((a, b) => a + b, 0) / channelStdDevs.length
+      : 0;
+
+  const centerBand = calcZoneStats(
+    data,
+    width,
+    height,
+    channels,
+    Math.round(width * 0.22),
+    Math.round(width * 0.78),
+    Math.round(height * 0.28),
+    Math.round(height * 0.72)
+  );
+
+  const lowerBand = calcZoneStats(
+    data,
+    width,
+    height,
+    channels,
+    Math.round(width * 0.18),
+    Math.round(width * 0.82),
+    Math.round(height * 0.62),
+    Math.round(height * 0.92)
+  );
+
+  const centerStructure = calcFlatnessAndEdges(
+    data,
+    width,
+    height,
+    channels,
+    Math.round(width * 0.28),
+    Math.round(width * 0.72),
+    Math.round(height * 0.3),
+    Math.round(height * 0.7)
+  );
+
+  const lowerStructure = calcFlatnessAndEdges(
+    data,
+    width,
+    height,
+    channels,
+    Math.round(width * 0.14),
+    Math.round(width * 0.86),
+    Math.round(height * 0.68),
+    Math.round(height * 0.9)
+  );
+
+  const borderGlowRatio = calcBorderGlowRatio(data, width, height, channels);
+  const isolatedNoiseRatio = calcIsolatedNoiseRatio(data, width, height, channels);
+  const horizontalBandingRatio = calcHorizontalBandingRatio(data, width, height, channels);
+  const centralPlateRatio = calcCentralPlateRatio(data, width, height, channels);
+
+  const context = calcContextReadabilityAnalysis({
+    data,
+    width,
+    height,
+    channels,
+    centerBand,
+    lowerBand,
+    centerFlatness: centerStructure.flatness,
+    centerEdgeDensity: centerStructure.edgeDensity,
+    lowerFlatness: lowerStructure.flatness,
+    lowerEdgeDensity: lowerStructure.edgeDensity,
+    horizontalBandingRatio,
+  });
+
+  return {
+    width,
+    height,
+    mean: sum / totalPixels,
+    minChannelMean: Math.min(rMean, gMean, bMean),
+    darkPixelRatio: darkCount / totalPixels,
+    nearBlackPixelRatio: nearBlackCount / totalPixels,
+    blownPixelRatio: blownCount / totalPixels,
+    avgStdDev,
+    centerBand,
+    lowerBand,
+    centerFlatness: centerStructure.flatness,
+    lowerFlatness: lowerStructure.flatness,
+    centerEdgeDensity: centerStructure.edgeDensity,
+    lowerEdgeDensity: lowerStructure.edgeDensity,
+    borderGlowRatio,
+    isolatedNoiseRatio,
+    horizontalBandingRatio,
+    centralPlateRatio,
+    context,
+  };
+}
+
+export function shouldApplyVisibilityLift(a: ImageVisibilityAnalysis): boolean {
+  return (
+    a.mean < 92 ||
+    a.minChannelMean < 72 ||
+    a.centerBand.mean < 84 ||
+    a.lowerBand.mean < 76 ||
+    a.centerBand.nearBlackPixelRatio > 0.02 ||
+    a.lowerBand.nearBlackPixelRatio > 0.03 ||
+    a.nearBlackPixelRatio > 0.05
+  );
+}
+
+export function isTemplateLike(a: ImageVisibilityAnalysis): boolean {
+  const hasReadableWorldContext =
+    a.context.topContextVariance > 9 ||
+    a.context.leftContextStrength > 0.35 ||
+    a.context.rightContextStrength > 0.35 ||
+    a.context.sideContextBalance > 0.28;
+
+  return (
+    !hasReadableWorldContext &&
+    a.avgStdDev < 7 &&
+    a.centerBand.stdDev < 5 &&
+    a.lowerBand.stdDev < 5 &&
+    a.mean > 85 &&
+    a.mean < 180
+  );
+}
+
+export function isStructurallyBroken(a: ImageVisibilityAnalysis): boolean {
+  return (
+    (a.centralPlateRatio > 0.78 && a.centerFlatness > 0.83) ||
+    (a.centralPlateRatio > 0.72 && a.centerFlatness > 0.86) ||
+    (a.borderGlowRatio > 0.18 && a.isolatedNoiseRatio > 0.015) ||
+    (a.horizontalBandingRatio > 0.22 && a.lowerEdgeDensity < 0.02) ||
+    (a.centerFlatness > 0.9 && a.centerEdgeDensity < 0.01 && a.centerBand.stdDev < 6) ||
+    (a.isolatedNoiseRatio > 0.03 && a.avgStdDev > 22) ||
+    (a.lowerFlatness > 0.9 && a.lowerEdgeDensity < 0.008 && a.lowerBand.stdDev < 5)
+  );
+}
+
+/**
+ * 文脈不足は補正で救済しない
+ * ここが v23 の方針
+ */
+export function isContextuallyWeak(a: ImageVisibilityAnalysis): boolean {
+  return a.context.contextReadabilityScore < MIN_CONTEXT_READABILITY_SCORE;
+}
+
+export function isUnacceptablyInvisible(a: ImageVisibilityAnalysis): boolean {
+  return (
+    a.mean < 52 ||
+    a.minChannelMean < 40 ||
+    a.centerBand.mean < 52 ||
+    a.lowerBand.mean < 48 ||
+    a.nearBlackPixelRatio > 0.12 ||
+    a.centerBand.nearBlackPixelRatio > 0.05 ||
+    a.lowerBand.nearBlackPixelRatio > 0.08 ||
+    (a.centerBand.stdDev < 4 && a.centerBand.mean < 70) ||
+    isTemplateLike(a) ||
+    isStructurallyBroken(a)
+  );
+}
+
+/**
+ * AIRA構図違反スコア
+ * 0〜1（1が良い）
+ */
+export function calcAiraStructureScore(a: ImageVisibilityAnalysis): number {
+  // 中央侵入（エッジ多い＝何かある）
+  const centerViolation = clamp01(a.centerEdgeDensity / 0.08);
+
+  // ベタ板（フラットすぎ）
+  const platePenalty =
+    a.centerFlatness > 0.85 && a.centralPlateRatio > 0.65 ? 1 : 0;
+
+  // 支持面不安定（下部エッジ少なすぎ or 多すぎ）
+  const groundingBad =
+    a.lowerEdgeDensity < 0.005 || a.lowerEdgeDensity > 0.12 ? 1 : 0;
+
+  // 最終
+  const score =
+    1 -
+    (centerViolation * 0.5 +
+      platePenalty * 0.3 +
+      groundingBad * 0.2);
+
+  return clamp01(score);
+}
+
+/**
+ * 総合採用スコア
+ * 候補2枚の比較選抜に使う
+ */
+export function calcAcceptScore(a: ImageVisibilityAnalysis): number {
+  const brightnessScore = clamp01((a.mean - 60) / 55) * 100;
+  const centerScore = clamp01((a.centerBand.mean - 72) / 35) * 100;
+  const lowerScore = clamp01((a.lowerBand.mean - 64) / 35) * 100;
+  const darkPenalty = (1 - clamp01(a.nearBlackPixelRatio / 0.12)) * 100;
+  const structurePenalty =
+    (1 -
+      clamp01(
+        (a.centralPlateRatio * 0.4 +
+          a.horizontalBandingRatio * 0.25 +
+          a.borderGlowRatio * 0.2 +
+          a.isolatedNoiseRatio * 5 * 0.15)
+      )) *
+    100;
+
+  const airaStructureScore = calcAiraStructureScore(a) * 100;
+
+  const worldContextScore =
+    clamp01(a.context.topContextVariance / 18) * 40 +
+    clamp01(a.context.sideContextBalance / 0.5) * 40 +
+    clamp01((a.avgStdDev - 6) / 16) * 20;
+
+  return (
+    brightnessScore * 0.08 +
+    centerScore * 0.12 +
+    lowerScore * 0.09 +
+    darkPenalty * 0.09 +
+    structurePenalty * 0.14 +
+    a.context.contextReadabilityScore * 0.22 +
+    airaStructureScore * 0.13 +
+    worldContextScore * 0.13
+  );
+}
+
+/* ---------------------------------- */
+/* 明るさだけの簡易判定（テンプレ背景） */
+/* ---------------------------------- */
+
+export type ImageLightAnalysis = {
+  mean: number;
+  minChannelMean: number;
+  darkPixelRatio: number;
+  nearBlackPixelRatio: number;
+  width: number;
+  height: number;
+};
+
+export async function analyzeImageLight(buf: Buffer): Promise<ImageLightAnalysis> {
+  const image = sharp(buf, { failOn: "none" });
+  const meta = await image.metadata();
+
+  const { data, info } = await image
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const width = Number(info.width || meta.width || 0);
+  const height = Number(info.height || meta.height || 0);
+  const channels = Number(info.channels || 3);
+  const totalPixels = Math.max(1, width * height);
+
+  let sum = 0;
+  let darkCount = 0;
+  let nearBlackCount = 0;
+
+  for (let i = 0; i < data.length; i += channels) {
+    const r = data[i] ?? 0;
+    const g = data[i + 1] ?? 0;
+    const b = data[i + 2] ?? 0;
+
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    sum += luminance;
+
+    if (luminance < 58) darkCount += 1;
+    if (luminance < 28) nearBlackCount += 1;
+  }
+
+  const stats = await image.removeAlpha().stats();
+  const rMean = stats.channels[0]?.mean ?? 0;
+  const gMean = stats.channels[1]?.mean ?? 0;
+  const bMean = stats.channels[2]?.mean ?? 0;
+
+  return {
+    mean: sum / totalPixels,
+    minChannelMean: Math.min(rMean, gMean, bMean),
+    darkPixelRatio: darkCount / totalPixels,
+    nearBlackPixelRatio: nearBlackCount / totalPixels,
+    width,
+    height,
+  };
+}
+
+export function isTooDarkImage(a: ImageLightAnalysis): boolean {
+  return (
+    a.mean < 88 ||
+    a.minChannelMean < 72 ||
+    a.darkPixelRatio > 0.42 ||
+    a.nearBlackPixelRatio > 0.12
+  );
+}
+
+export function isTooBrightImage(a: ImageLightAnalysis): boolean {
+  return a.mean > 205 || a.minChannelMean > 198;
+}
+
+/* ---------------------------------- */
+/* 採点と説明（/api/images/analyze） */
+/* ---------------------------------- */
+
+/**
+ * 採点時の長辺
+ * - AI背景の生成サイズ（1024px）に揃え、エッジ密度などの閾値を同じ基準で使う
+ */
+const ANALYZE_MAX_SIDE = 1024;
+
+export async function normalizeForBackgroundAnalysis(buf: Buffer): Promise<Buffer> {
+  return await sharp(buf, { failOn: "none" })
+    .rotate()
+    .resize({
+      width: ANALYZE_MAX_SIDE,
+      height: ANALYZE_MAX_SIDE,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .removeAlpha()
+    .png()
+    .toBuffer();
+}
+
+/**
+ * 判定理由
+ * - 生成時の不採用条件と同じ順で、画面に出す短文へ言い換える
+ */
+export function explainBackgroundQuality(a: ImageVisibilityAnalysis, acceptScore: number): string[] {
+  const reasons: string[] = [];
+
+  if (
+    a.mean < 52 ||
+    a.minChannelMean < 40 ||
+    a.centerBand.mean < 52 ||
+    a.lowerBand.mean < 48 ||
+    a.nearBlackPixelRatio > 0.12
+  ) {
+    reasons.push("全体が暗く、商品が沈みます");
+  } else if (a.centerBand.nearBlackPixelRatio > 0.05 || a.lowerBand.nearBlackPixelRatio > 0.08) {
+    reasons.push("商品を置く中央〜床まわりに黒つぶれがあります");
+  } else if (shouldApplyVisibilityLift(a)) {
+    reasons.push("やや暗めです（生成時なら明るさ補正の対象）");
+  }
+
+  if (a.blownPixelRatio > 0.2) {
+    reasons.push("白飛びが多く、商品の輪郭が背景に溶けやすいです");
+  }
+
+  if (isTemplateLike(a)) {
+    reasons.push("のっぺりしていて、どこに置いた写真か読み取れません");
+  }
+
+  if (a.centralPlateRatio > 0.72 && a.centerFlatness > 0.83) {
+    reasons.push("中央がベタ塗りの板のように見えます");
+  }
+  if (a.borderGlowRatio > 0.18 && a.isolatedNoiseRatio > 0.015) {
+    reasons.push("右端に光の縁とノイズがあります");
+  }
+  if (a.horizontalBandingRatio > 0.22 && a.lowerEdgeDensity < 0.02) {
+    reasons.push("床・台の部分に横縞が出ています");
+  }
+  if (a.lowerFlatness > 0.9 && a.lowerEdgeDensity < 0.008 && a.lowerBand.stdDev < 5) {
+    reasons.push("床・台の面が読み取れず、商品が浮いて見えます");
+  }
+  if (a.isolatedNoiseRatio > 0.03 && a.avgStdDev > 22) {
+    reasons.push("細かいノイズが多いです");
+  }
+  if (a.centerEdgeDensity > 0.08) {
+    reasons.push("中央に物や模様があり、商品とぶつかります");
+  }
+
+  if (isContextuallyWeak(a)) {
+    reasons.push(
+      `空間の文脈が弱いです（文脈 ${Math.round(a.context.contextReadabilityScore)}点 / 基準 ${MIN_CONTEXT_READABILITY_SCORE}点）`
+    );
+  }
+
+  if (reasons.length === 0) {
+    reasons.push(
+      acceptScore >= MIN_TOTAL_ACCEPT_SCORE
+        ? `採用基準（${MIN_TOTAL_ACCEPT_SCORE}点）を満たしています`
+        : `大きな破綻はありませんが、採用基準（${MIN_TOTAL_ACCEPT_SCORE}点）に届きません`
+    );
+  }
+
+  return reasons;
+}
+
+export function backgroundQualityVerdict(
+  a: ImageVisibilityAnalysis,
+  acceptScore: number
+): BackgroundQualityVerdict {
+  if (isUnacceptablyInvisible(a)) return "reject";
+  if (isContextuallyWeak(a) || acceptScore < MIN_TOTAL_ACCEPT_SCORE) return "weak";
+  return "accept";
+}
+
+export function summarizeBackgroundQuality(
+  a: ImageVisibilityAnalysis,
+  now = Date.now()
+): BackgroundQualitySummary {
+  const acceptScore = calcAcceptScore(a);
+
+  return {
+    acceptScore: Math.round(acceptScore * 10) / 10,
+    contextScore: Math.round(a.context.contextReadabilityScore * 10) / 10,
+    structureScore: Math.round(calcAiraStructureScore(a) * 1000) / 10,
+    verdict: backgroundQualityVerdict(a, acceptScore),
+    reasons: explainBackgroundQuality(a, acceptScore),
+    width: a.width,
+    height: a.height,
+    analyzedAt: now,
+  };
+}
+
+/**
+ * 任意の画像を採点する
+ * - 採点用に長辺 1024px へ揃えてから解析する
+ */
+export async function scoreBackgroundImage(buf: Buffer): Promise<{
+  summary: BackgroundQualitySummary;
+  analysis: ImageVisibilityAnalysis;
+}> {
+  const normalized = await normalizeForBackgroundAnalysis(buf);
+  const analysis = await analyzeImageVisibility(normalized);
+
+  return {
+    summary: summarizeBackgroundQuality(analysis),
+    analysis,
+  };
+}
@@ -0,0 +1,446 @@
+// lib/server/backgroundSeries.ts
+import "server-only";
+import sharp from "sharp";
+
+import type {
+  BackgroundSeriesConsistency,
+  BackgroundSeriesSpec,
+  BackgroundSeriesTone,
+  ProceduralLightDirection,
+} from "@/lib/types/draft";
+import { BACKGROUND_SERIES_CAMERA_LABEL } from "@/lib/image/backgroundSeriesOptions";
+import { PROCEDURAL_LIGHT_DIRECTIONS } from "@/lib/image/proceduralBackgroundOptions";
+
+/**
+ * 背景シリーズ（series mode）の解析
+ *
+ * ✅ 参考画像 / 基準画像（anchor）から「色・素材・光の向き・カメラの高さ」を読む
+ * ✅ /api/generate-bg の参考画像テキスト（analyzeReferenceBackgroundImage）もここで読む
+ * ✅ 生成した背景が基準画像とどれだけ揃っているか（一貫性スコア）を出す
+ */
+
+/** 解析ロジックの版。変えたら保存済みの基準は作り直す */
+export const BACKGROUND_SERIES_VERSION = 1;
+
+const SAMPLE = 96;
+
+/** 壁（上側）と床（下側）を読む範囲 */
+const WALL_BAND = { from: 0.05, to: 0.45 };
+const FLOOR_BAND = { from: 0.72, to: 0.98 };
+
+/** 壁と床の境目が見つからないときの既定値（卓上・床置きの標準的な構図） */
+const DEFAULT_HORIZON_RATIO = 0.62;
+
+type Rgb = [number, number, number];
+
+export type BackgroundReferenceAnalysis = Omit<
+  BackgroundSeriesSpec,
+  "version" | "anchorUrl" | "enabled" | "createdAt" | "updatedAt"
+> & {
+  width: number;
+  height: number;
+  /** 画像全体の RGB 平均 */
+  means: Rgb;
+};
+
+type Pixels = {
+  data: Buffer;
+  channels: number;
+};
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function luminance(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function rgbAt(px: Pixels, x: number, y: number): Rgb {
+  const i = (y * SAMPLE + x) * px.channels;
+  if (px.channels < 3) return [px.data[i], px.data[i], px.data[i]];
+  return [px.data[i], px.data[i + 1], px.data[i + 2]];
+}
+
+function lumAt(px: Pixels, x: number, y: number): number {
+  const [r, g, b] = rgbAt(px, x, y);
+  return luminance(r, g, b);
+}
+
+function toRange(from: number, to: number): [number, number] {
+  const a = Math.max(0, Math.min(SAMPLE - 1, Math.floor(from * SAMPLE)));
+  const b = Math.max(a + 1, Math.min(SAMPLE, Math.ceil(to * SAMPLE)));
+  return [a, b];
+}
+
+function regionMean(px: Pixels, x0: number, x1: number, y0: number, y1: number): Rgb {
+  const [xa, xb] = toRange(x0, x1);
+  const [ya, yb] = toRange(y0, y1);
+  const sum: Rgb = [0, 0, 0];
+  let n = 0;
+
+  for (let y = ya; y < yb; y += 1) {
+    for (let x = xa; x < xb; x += 1) {
+      const [r, g, b] = rgbAt(px, x, y);
+      sum[0] += r;
+      sum[1] += g;
+      sum[2] += b;
+      n += 1;
+    }
+  }
+
+  return n > 0 ? [sum[0] / n, sum[1] / n, sum[2] / n] : [0, 0, 0];
+}
+
+/** 横方向の隣接画素の明るさの差（素材の凹凸・木目・布目の目安） */
+function regionTexture(px: Pixels, y0: number, y1: number): number {
+  const [ya, yb] = toRange(y0, y1);
+  let sum = 0;
+  let n = 0;
+
+  for (let y = ya; y < yb; y += 1) {
+    for (let x = 0; x < SAMPLE - 1; x += 1) {
+      sum += Math.abs(lumAt(px, x, y) - lumAt(px, x + 1, y));
+      n += 1;
+    }
+  }
+
+  return n > 0 ? sum / n : 0;
+}
+
+function toHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b]
+    .map((v) => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+function fromHex(hex: string): Rgb {
+  const m = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!m) return [0, 0, 0];
+  return [parseInt(m[1], 16), parseInt(m[2], 16), parseInt(m[3], 16)];
+}
+
+/** RGB の距離（0〜1） */
+function colorDistance(a: Rgb, b: Rgb): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2) / 441.7;
+}
+
+function classifyTone(means: Rgb): BackgroundSeriesTone {
+  const maxDiff = Math.max(...means) - Math.min(...means);
+  if (maxDiff <= 10) return "neutral";
+  if (means[0] >= means[2] + 12) return "warm";
+  if (means[2] >= means[0] + 12) return "cool";
+  return "neutral";
+}
+
+/**
+ * 壁と床の境目（横方向の明るさの段差が一番大きい行）
+ */
+function detectHorizonRatio(px: Pixels): number {
+  const rows: number[] = [];
+  for (let y = 0; y < SAMPLE; y += 1) {
+    let sum = 0;
+    for (let x = 0; x < SAMPLE; x += 1) sum += lumAt(px, x, y);
+    rows.push(sum / SAMPLE);
+  }
+
+  const span = 4;
+  let bestY = -1;
+  let bestDiff = 0;
+
+  for (let y = Math.floor(SAMPLE * 0.3); y <= Math.floor(SAMPLE * 0.9); y += 1) {
+    if (y - span < 0 || y + span > SAMPLE) continue;
+    const above = rows.slice(y - span, y).reduce((a, b) => a + b, 0) / span;
+    const below = rows.slice(y, y + span).reduce((a, b) => a + b, 0) / span;
+    const diff = Math.abs(above - below);
+    if (diff > bestDiff) {
+      bestDiff = diff;
+      bestY = y;
+    }
+  }
+
+  // 段差がほぼ無い（継ぎ目のないスタジオ・グラデーション）は既定の構図とみなす
+  return bestY >= 0 && bestDiff >= 3 ? bestY / SAMPLE : DEFAULT_HORIZON_RATIO;
+}
+
+function classifyMaterials(args: {
+  wall: Rgb;
+  floor: Rgb;
+  wallTexture: number;
+  floorTexture: number;
+}): string[] {
+  const floorTone = classifyTone(args.floor);
+  const floorTextured = args.floorTexture >= 3.5;
+
+  const floor =
+    floorTone === "warm"
+      ? floorTextured
+        ? "natural wood surface"
+        : "warm matte paper surface"
+      : floorTone === "cool"
+        ? floorTextured
+          ? "concrete or stone surface"
+          : "cool gray matte surface"
+        : floorTextured
+          ? "linen or fabric-like surface"
+          : "seamless matte surface";
+
+  const wall = args.wallTexture >= 3 ? "softly textured plaster wall" : "smooth matte wall";
+
+  return [floor, wall];
+}
+
+function buildGrid(px: Pixels): number[] {
+  const grid: number[] = [];
+  for (let gy = 0; gy < 4; gy += 1) {
+    for (let gx = 0; gx < 4; gx += 1) {
+      const [r, g, b] = regionMean(px, gx / 4, (gx + 1) / 4, gy / 4, (gy + 1) / 4);
+      grid.push(round1(luminance(r, g, b)));
+    }
+  }
+  return grid;
+}
+
+async function readPixels(buf: Buffer): Promise<Pixels & { width: number; height: number }> {
+  const meta = await sharp(buf, { failOn: "none" }).metadata();
+  const { data, info } = await sharp(buf, { failOn: "none" })
+    .rotate()
+    .resize(SAMPLE, SAMPLE, { fit: "fill" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    data,
+    channels: info.channels,
+    width: Number(meta.width || 0),
+    height: Number(meta.height || 0),
+  };
+}
+
+/**
+ * 参考画像 / 基準画像の解析
+ */
+export async function analyzeBackgroundReference(buf: Buffer): Promise<BackgroundReferenceAnalysis> {
+  const px = await readPixels(buf);
+
+  const means = regionMean(px, 0, 1, 0, 1);
+  const wall = regionMean(px, 0, 1, WALL_BAND.from, WALL_BAND.to);
+  const floor = regionMean(px, 0, 1, FLOOR_BAND.from, FLOOR_BAND.to);
+
+  // 一番色の強いマス（小物・差し色）
+  let accent: Rgb = floor;
+  let accentChroma = -1;
+  for (let gy = 0; gy < 4; gy += 1) {
+    for (let gx = 0; gx < 4; gx += 1) {
+      const c = regionMean(px, gx / 4, (gx + 1) / 4, gy / 4, (gy + 1) / 4);
+      const chroma = Math.max(...c) - Math.min(...c);
+      if (chroma > accentChroma) {
+        accentChroma = chroma;
+        accent = c;
+      }
+    }
+  }
+
+  let lumSum = 0;
+  let lumSq = 0;
+  for (let y = 0; y < SAMPLE; y += 1) {
+    for (let x = 0; x < SAMPLE; x += 1) {
+      const l = lumAt(px, x, y);
+      lumSum += l;
+      lumSq += l * l;
+    }
+  }
+  const count = SAMPLE * SAMPLE;
+  const brightness = lumSum / count;
+  const contrast = Math.sqrt(Math.max(0, lumSq / count - brightness * brightness));
+
+  const horizonRatio = detectHorizonRatio(px);
+
+  // 光の向きは壁側（境目より上）の左右の明るさで判定
+  const wallBottom = Math.max(0.2, horizonRatio - 0.05);
+  const left = regionMean(px, 0, 1 / 3, 0, wallBottom);
+  const right = regionMean(px, 2 / 3, 1, 0, wallBottom);
+  const lightBalance = (luminance(...left) - luminance(...right)) / 255;
+  const lightDirection: ProceduralLightDirection =
+    Math.abs(lightBalance) < 0.03 ? "top" : lightBalance > 0 ? "left" : "right";
+
+  return {
+    width: px.width,
+    height: px.height,
+    means,
+    palette: { wall: toHex(wall), floor: toHex(floor), accent: toHex(accent) },
+    tone: classifyTone(means),
+    brightness: round1(brightness),
+    contrast: round1(contrast),
+    materials: classifyMaterials({
+      wall,
+      floor,
+      wallTexture: regionTexture(px, WALL_BAND.from, WALL_BAND.to),
+      floorTexture: regionTexture(px, FLOOR_BAND.from, FLOOR_BAND.to),
+    }),
+    lightDirection,
+    lightBalance: Math.round(lightBalance * 1000) / 1000,
+    cameraHeight: horizonRatio < 0.5 ? "high" : horizonRatio > 0.72 ? "low" : "eye",
+    horizonRatio: Math.round(horizonRatio * 1000) / 1000,
+    grid: buildGrid(px),
+  };
+}
+
+/**
+ * 参考画像 → プロンプト用の短文（/api/generate-bg の backgroundReferenceImageUrl）
+ */
+export function describeBackgroundReference(a: BackgroundReferenceAnalysis): string {
+  const avg = (a.means[0] + a.means[1] + a.means[2]) / 3;
+
+  const brightness = avg >= 205 ? "very bright" : avg >= 175 ? "bright" : avg >= 135 ? "medium bright" : "dark";
+  const colorTone =
+    a.tone === "neutral"
+      ? Math.max(...a.means) - Math.min(...a.means) <= 10
+        ? "neutral gray/white tone"
+        : "soft neutral tone"
+      : a.tone === "warm"
+        ? "warm beige/wood-like tone"
+        : "cool blue/gray tone";
+
+  const orientation =
+    a.width > a.height * 1.15 ? "wide reference" : a.height > a.width * 1.15 ? "vertical reference" : "square-like reference";
+
+  return [
+    `reference brightness: ${brightness}`,
+    `reference color tone: ${colorTone}`,
+    `reference format: ${orientation}`,
+    "keep similar cleanliness, visual quietness, and amount of empty placement space",
+    "avoid copying any object, product, character, logo, readable text, or exact layout",
+  ].join("; ");
+}
+
+/**
+ * 基準画像 → ブランド文書に保存するシリーズ基準
+ */
+export async function buildBackgroundSeriesSpec(
+  anchorUrl: string,
+  buf: Buffer,
+  now = Date.now()
+): Promise<BackgroundSeriesSpec> {
+  const { width: _width, height: _height, means: _means, ...a } = await analyzeBackgroundReference(buf);
+
+  return {
+    version: BACKGROUND_SERIES_VERSION,
+    anchorUrl,
+    enabled: true,
+    ...a,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * シリーズ基準 → 生成プロンプトのルール（英語）
+ */
+export function buildBackgroundSeriesRules(spec: BackgroundSeriesSpec): string[] {
+  const light =
+    spec.lightDirection === "left"
+      ? "soft key light from the left side, gentle shadows falling to the right"
+      : spec.lightDirection === "right"
+        ? "soft key light from the right side, gentle shadows falling to the left"
+        : "soft frontal top light, gentle shadows falling straight down and slightly back";
+
+  const camera =
+    spec.cameraHeight === "high"
+      ? "slightly high camera looking down onto the surface"
+      : spec.cameraHeight === "low"
+        ? "low camera close to the surface level"
+        : "eye-level camera, straight-on front view";
+
+  const brightness =
+    spec.brightness >= 200 ? "very bright, airy" : spec.brightness >= 165 ? "bright" : spec.brightness >= 130 ? "medium" : "deep, moody";
+  const contrast = spec.contrast >= 45 ? "clear light-dark contrast" : spec.contrast >= 25 ? "moderate contrast" : "low, soft contrast";
+
+  return [
+    "series mode: this background is one image in a coherent brand storefront series; it must look like the same room, the same light and the same camera as the series anchor",
+    `series palette: wall around ${spec.palette.wall}, floor or tabletop around ${spec.palette.floor}, small accents around ${spec.palette.accent}; overall ${spec.tone} tone`,
+    `series exposure: ${brightness} with ${contrast}`,
+    ...(spec.materials.length > 0 ? [`series materials: ${spec.materials.join(", ")}`] : []),
+    `series light: ${light}`,
+    `series camera: ${camera}; wall-to-surface seam at about ${Math.round(spec.horizonRatio * 100)}% from the top of the frame`,
+    "do not introduce new dominant colors, a different room type, or a different lighting mood than the series anchor",
+  ];
+}
+
+function gridSimilarity(a: number[], b: number[]): number {
+  if (a.length !== 16 || b.length !== 16) return 1;
+
+  const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+  const ma = mean(a);
+  const mb = mean(b);
+  const sa = Math.sqrt(mean(a.map((x) => (x - ma) ** 2)));
+  const sb = Math.sqrt(mean(b.map((x) => (x - mb) ** 2)));
+
+  // 明暗差がほぼ無い（ベタ背景）は相関が不安定なので、マスごとの差で見る
+  if (sa < 4 || sb < 4) {
+    const diff = mean(a.map((x, i) => Math.abs(x - ma - (b[i] - mb))));
+    return clamp01(1 - diff / 40);
+  }
+
+  const r = mean(a.map((x, i) => ((x - ma) / sa) * ((b[i] - mb) / sb)));
+  return clamp01((r + 0.2) / 1.0);
+}
+
+const LIGHT_LABEL = Object.fromEntries(PROCEDURAL_LIGHT_DIRECTIONS.map((x) => [x.id, x.label])) as Record<
+  ProceduralLightDirection,
+  string
+>;
+
+/**
+ * 基準画像との一貫性（0〜100）
+ * - 色 35% / 明るさ 15% / 光の向き 20% / カメラの高さ 15% / 明暗配置 15%
+ */
+export function scoreBackgroundSeriesConsistency(
+  spec: BackgroundSeriesSpec,
+  a: BackgroundReferenceAnalysis
+): BackgroundSeriesConsistency {
+  const wallDist = colorDistance(fromHex(spec.palette.wall), fromHex(a.palette.wall));
+  const floorDist = colorDistance(fromHex(spec.palette.floor), fromHex(a.palette.floor));
+
+  const palette = 100 * clamp01(1 - (wallDist + floorDist) / 2 / 0.3);
+  const brightness = 100 * clamp01(1 - Math.abs(spec.brightness - a.brightness) / 70);
+  const light = 100 * clamp01(1 - Math.abs(spec.lightBalance - a.lightBalance) / 0.14);
+  const camera = 100 * clamp01(1 - Math.abs(spec.horizonRatio - a.horizonRatio) / 0.25);
+  const layout = 100 * gridSimilarity(spec.grid, a.grid);
+
+  const score = palette * 0.35 + brightness * 0.15 + light * 0.2 + camera * 0.15 + layout * 0.15;
+
+  const reasons: string[] = [];
+  if (palette < 60) reasons.push("壁・床の色味が基準と違う");
+  if (brightness < 60) reasons.push(a.brightness < spec.brightness ? "基準より暗い" : "基準より明るい");
+  if (light < 60) reasons.push(`光の向きが基準と違う（基準: ${LIGHT_LABEL[spec.lightDirection]}）`);
+  if (camera < 60) {
+    reasons.push(`カメラの高さが基準と違う（基準: ${BACKGROUND_SERIES_CAMERA_LABEL[spec.cameraHeight]}）`);
+  }
+  if (layout < 60) reasons.push("明暗の配置（構図）が基準と違う");
+
+  return {
+    score: round1(score),
+    palette: round1(palette),
+    brightness: round1(brightness),
+    light: round1(light),
+    camera: round1(camera),
+    layout: round1(layout),
+    reasons,
+  };
+}
+
+/**
+ * 画像 → 基準画像との一貫性
+ */
+export async function scoreBackgroundSeriesImage(
+  spec: BackgroundSeriesSpec,
+  buf: Buffer
+): Promise<BackgroundSeriesConsistency> {
+  return scoreBackgroundSeriesConsistency(spec, await analyzeBackgroundReference(buf));
+}
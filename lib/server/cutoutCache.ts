@@ -0,0 +1,114 @@
+// /lib/server/cutoutCache.ts
+import "server-only";
+import crypto from "crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminBucket, getAdminDb } from "@/firebaseAdmin";
+import type { CutoutProviderId, CutoutProviderSetting, CutoutResult } from "@/lib/server/cutoutProviders";
+import type { QualityReport } from "@/lib/server/cutoutQuality";
+
+/**
+ * 切り抜き結果キャッシュ
+ *
+ * ✅ キー = 入力画像（正規化前の生バイト）の sha256
+ *    - provider を単体指定（CUTOUT_PROVIDER=photoroom など）した時は provider もキーに入れる
+ *      （auto で作った他 provider の結果を返さない。auto のキーは従来どおり）
+ * ✅ PNG本体は Storage（cutout-cache/{hash}.png）、メタは Firestore（cutoutCache/{hash}）
+ * ✅ 同じ画像の再実行では provider を呼ばず、保存済み PNG と QualityReport を返す
+ *
+ * 読み書きの失敗は切り抜き自体を止めない（キャッシュ無しとして続行）。
+ */
+
+export type CutoutCacheEntry = {
+  hash: string;
+  path: string;
+  provider: CutoutProviderId;
+  engine: string;
+  quality: QualityReport;
+  costYen: number;
+  elapsed: number;
+};
+
+const COLLECTION = "cutoutCache";
+
+function boolEnv(name: string, fallback: boolean) {
+  const value = process.env[name];
+  if (value == null || value === "") return fallback;
+  return ["1", "true", "yes", "on"].includes(value.toLowerCase());
+}
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function isCutoutCacheEnabled() {
+  return boolEnv("CUTOUT_CACHE_ENABLED", true);
+}
+
+export function hashCutoutInput(raw: Buffer, setting: CutoutProviderSetting) {
+  const hash = crypto.createHash("sha256").update(raw);
+  if (setting !== "auto") hash.update(`\0provider:${setting}`);
+  return hash.digest("hex");
+}
+
+/** ヒット時は provider を呼ばずに使える CutoutResult を返す（costYen は 0） */
+export async function readCutoutCache(
+  hash: string
+): Promise<{ result: CutoutResult; entry: CutoutCacheEntry } | null> {
+  try {
+    const snap = await getAdminDb().collection(COLLECTION).doc(hash).get();
+    if (!snap.exists) return null;
+
+    const entry = snap.data() as CutoutCacheEntry;
+    if (!entry?.path || !entry.quality) return null;
+
+    const [buffer] = await getAdminBucket().file(entry.path).download();
+    if (!buffer.length) return null;
+
+    void snap.ref
+      .set({ hits: FieldValue.increment(1), lastHitAt: FieldValue.serverTimestamp() }, { merge: true })
+      .catch(() => undefined);
+
+    return {
+      entry,
+      result: {
+        buffer,
+        engine: entry.engine,
+        provider: entry.provider,
+        quality: entry.quality,
+        elapsed: 0,
+        costYen: 0,
+        attempts: [],
+      },
+    };
+  } catch (error) {
+    console.warn("[cutout] cache read skipped:", safeError(error));
+    return null;
+  }
+}
+
+export async function writeCutoutCache(hash: string, result: CutoutResult) {
+  try {
+    const path = `cutout-cache/${hash}.png`;
+    await getAdminBucket().file(path).save(result.buffer, {
+      contentType: "image/png",
+      resumable: false,
+    });
+
+    const entry: CutoutCacheEntry = {
+      hash,
+      path,
+      provider: result.provider,
+      engine: result.engine,
+      quality: result.quality,
+      costYen: result.costYen,
+      elapsed: result.elapsed,
+    };
+
+    await getAdminDb()
+      .collection(COLLECTION)
+      .doc(hash)
+      .set({ ...entry, hits: 0, createdAt: FieldValue.serverTimestamp() });
+  } catch (error) {
+    console.warn("[cutout] cache write skipped:", safeError(error));
+  }
+}
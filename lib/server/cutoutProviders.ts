@@ -0,0 +1,392 @@
+// /lib/server/cutoutProviders.ts
+import "server-only";
+import { scoreCutout, type QualityReport } from "@/lib/server/cutoutQuality";
+
+/**
+ * 切り抜き provider レジストリ
+ *
+ * ✅ 各エンジンは endpoint / health / timeout / cost を自己申告する
+ * ✅ CUTOUT_PROVIDER=auto は CUTOUT_AUTO_CHAIN の順に試し、QualityReport.score で次へ落とす
+ * ✅ 失敗が続いた provider は cooldown の間スキップ（死んだコンテナの timeout を毎回払わない）
+ *
+ * 新しいエンジンを足すときは CUTOUT_PROVIDERS に1件追加するだけで /api/cutout 側の変更は不要。
+ */
+
+export type CutoutProviderId = "docker" | "birefnet" | "rembg" | "photoroom";
+export type CutoutProviderSetting = CutoutProviderId | "auto";
+
+export type CutoutAttempt = {
+  provider: CutoutProviderId;
+  ok: boolean;
+  skipped?: "not-configured" | "circuit-open";
+  score?: number;
+  elapsed: number;
+  error?: string;
+};
+
+export type CutoutResult = {
+  buffer: Buffer;
+  engine: string;
+  provider: CutoutProviderId;
+  quality: QualityReport;
+  elapsed: number;
+  costYen: number;
+  attempts: CutoutAttempt[];
+};
+
+type CutoutProviderDef = {
+  id: CutoutProviderId;
+  engine: string;
+  endpoint: () => string;
+  // "" のときは health を見ない（外部API）
+  healthUrl: () => string;
+  isHealthy: (json: unknown) => boolean;
+  // health が ready になるまで待つ上限（モデルのウォームアップ待ち）
+  readyTimeoutMs: number;
+  timeoutMs: number;
+  costYen: number;
+  isConfigured: () => boolean;
+  request: (
+    endpoint: string,
+    input: Buffer,
+    safeBaseName: string,
+    signal: AbortSignal
+  ) => Promise<{ buffer: Buffer; engine: string }>;
+};
+
+type CircuitState = {
+  failures: number;
+  openedUntil: number;
+  lastError: string;
+  lastHealthyAt: number;
+};
+
+const HEALTH_REQUEST_TIMEOUT_MS = 5000;
+const QUALITY_THRESHOLD = numberEnv("CUTOUT_AUTO_QUALITY_THRESHOLD", 95);
+const MIN_ACCEPT_QUALITY = numberEnv("CUTOUT_MIN_ACCEPT_QUALITY", 35);
+const CIRCUIT_FAILURE_THRESHOLD = numberEnv("CUTOUT_CIRCUIT_FAILURES", 3);
+const CIRCUIT_COOLDOWN_MS = numberEnv("CUTOUT_CIRCUIT_COOLDOWN_MS", 60000);
+const HEALTH_TTL_MS = numberEnv("CUTOUT_HEALTH_TTL_MS", 30000);
+
+function numberEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function stringEnv(names: string[], fallback: string) {
+  for (const name of names) {
+    const value = String(process.env[name] || "").trim();
+    if (value) return value;
+  }
+  return fallback;
+}
+
+function healthUrlFor(cutoutUrl: string) {
+  return cutoutUrl.replace(/\/cutout\/?$/, "/health");
+}
+
+/** health の JSON（オブジェクト以外は空として扱う） */
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function safeError(error: unknown) {
+  if (error instanceof Error && error.name === "TimeoutError") return "timeout";
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function postMultipart(url: string, normalizedInput: Buffer, safeBaseName: string, signal: AbortSignal) {
+  const upstreamFile = new File([new Uint8Array(normalizedInput)], `${safeBaseName || "upload"}.png`, {
+    type: "image/png",
+  });
+  const body = new FormData();
+  body.append("file", upstreamFile);
+  body.append("image", upstreamFile);
+
+  const res = await fetch(url, { method: "POST", body, cache: "no-store", signal });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`${res.status} ${text.slice(0, 500)}`.trim());
+  }
+  return {
+    buffer: Buffer.from(await res.arrayBuffer()),
+    engine: res.headers.get("X-Cutout-Engine") || "",
+  };
+}
+
+async function postPhotoroom(url: string, normalizedInput: Buffer, safeBaseName: string, signal: AbortSignal) {
+  const apiKey = String(process.env.PHOTOROOM_API_KEY || "").trim();
+  if (!apiKey) throw new Error("PHOTOROOM_API_KEY missing");
+
+  const file = new File([new Uint8Array(normalizedInput)], `${safeBaseName || "upload"}.png`, { type: "image/png" });
+  const body = new FormData();
+  body.append("image_file", file);
+  body.append("format", "png");
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "x-api-key": apiKey },
+    body,
+    cache: "no-store",
+    signal,
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Photoroom failed: ${res.status} ${text.slice(0, 500)}`.trim());
+  }
+
+  return { buffer: Buffer.from(await res.arrayBuffer()), engine: "Photoroom" };
+}
+
+const dockerUrl = () => stringEnv(["CUTOUT_DOCKER_URL", "CUTOUT_API_URL"], "http://localhost:8080/cutout");
+const birefnetUrl = () => stringEnv(["CUTOUT_BIREFNET_URL"], "http://localhost:8081/cutout");
+const rembgUrl = () => stringEnv(["CUTOUT_REMBG_URL"], "http://localhost:8080/cutout");
+
+const CUTOUT_PROVIDERS: CutoutProviderDef[] = [
+  {
+    // AOI Cutout Engine V3（cutout-engine-v3 / docker-compose.yml）
+    id: "docker",
+    engine: "BiRefNet",
+    endpoint: dockerUrl,
+    healthUrl: () => stringEnv(["CUTOUT_DOCKER_HEALTH_URL"], "http://localhost:8080/health"),
+    isHealthy: (json) => {
+      const health = asRecord(json);
+      return health.ready === true && health.provider === "docker" && health.version === "v3";
+    },
+    readyTimeoutMs: numberEnv("CUTOUT_DOCKER_READY_TIMEOUT_MS", 120000),
+    timeoutMs: numberEnv("CUTOUT_DOCKER_TIMEOUT_MS", 120000),
+    costYen: numberEnv("CUTOUT_DOCKER_COST_YEN", 0),
+    isConfigured: () => true,
+    request: postMultipart,
+  },
+  {
+    // 高品質検証用 BiRefNet（cutout-api-birefnet / docker-compose.cutout.yml --profile quality）
+    id: "birefnet",
+    engine: "birefnet",
+    endpoint: birefnetUrl,
+    healthUrl: () => stringEnv(["CUTOUT_BIREFNET_HEALTH_URL"], healthUrlFor(birefnetUrl())),
+    isHealthy: (json) => {
+      const health = asRecord(json);
+      return health.ok === true && health.engine === "birefnet";
+    },
+    readyTimeoutMs: 0,
+    timeoutMs: numberEnv("CUTOUT_BIREFNET_TIMEOUT_MS", 180000),
+    costYen: numberEnv("CUTOUT_BIREFNET_COST_YEN", 0),
+    isConfigured: () => true,
+    request: postMultipart,
+  },
+  {
+    // 軽量 rembg(isnet)（cutout-api-rembg / docker-compose.cutout.yml）
+    id: "rembg",
+    engine: "rembg",
+    endpoint: rembgUrl,
+    healthUrl: () => stringEnv(["CUTOUT_REMBG_HEALTH_URL"], healthUrlFor(rembgUrl())),
+    isHealthy: (json) => {
+      const health = asRecord(json);
+      return health.ok === true && health.engine === "rembg-updated";
+    },
+    readyTimeoutMs: 0,
+    timeoutMs: numberEnv("CUTOUT_REMBG_TIMEOUT_MS", 60000),
+    costYen: numberEnv("CUTOUT_REMBG_COST_YEN", 0),
+    isConfigured: () => true,
+    request: postMultipart,
+  },
+  {
+    id: "photoroom",
+    engine: "Photoroom",
+    endpoint: () => String(process.env.PHOTOROOM_API_URL || "https://sdk.photoroom.com/v1/segment").trim(),
+    healthUrl: () => "",
+    isHealthy: () => true,
+    readyTimeoutMs: 0,
+    timeoutMs: numberEnv("CUTOUT_PHOTOROOM_TIMEOUT_MS", 30000),
+    costYen: numberEnv("CUTOUT_PHOTOROOM_COST_YEN", 3),
+    isConfigured: () => !!String(process.env.PHOTOROOM_API_KEY || "").trim(),
+    request: postPhotoroom,
+  },
+];
+
+const circuits = new Map<CutoutProviderId, CircuitState>();
+
+function getCircuit(id: CutoutProviderId): CircuitState {
+  let state = circuits.get(id);
+  if (!state) {
+    state = { failures: 0, openedUntil: 0, lastError: "", lastHealthyAt: 0 };
+    circuits.set(id, state);
+  }
+  return state;
+}
+
+function recordSuccess(id: CutoutProviderId) {
+  const state = getCircuit(id);
+  state.failures = 0;
+  state.openedUntil = 0;
+  state.lastError = "";
+}
+
+function recordFailure(id: CutoutProviderId, error: string) {
+  const state = getCircuit(id);
+  state.failures += 1;
+  state.lastError = error;
+  state.lastHealthyAt = 0;
+  // cooldown 明けの1回目（half-open）で失敗した場合も即座に再オープン
+  if (state.failures >= CIRCUIT_FAILURE_THRESHOLD) state.openedUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+}
+
+function isCircuitOpen(id: CutoutProviderId) {
+  return getCircuit(id).openedUntil > Date.now();
+}
+
+export function isCutoutProviderId(value: unknown): value is CutoutProviderId {
+  return CUTOUT_PROVIDERS.some((def) => def.id === value);
+}
+
+export function getCutoutProvider(id: CutoutProviderId): CutoutProviderDef {
+  const def = CUTOUT_PROVIDERS.find((item) => item.id === id);
+  if (!def) throw new Error(`unknown cutout provider: ${id}`);
+  return def;
+}
+
+export function getCutoutProviderSetting(): CutoutProviderSetting {
+  const raw = String(process.env.CUTOUT_PROVIDER || "auto").toLowerCase();
+  if (raw === "auto" || isCutoutProviderId(raw)) return raw;
+  return "auto";
+}
+
+export function getAutoChain(): CutoutProviderId[] {
+  const raw = String(process.env.CUTOUT_AUTO_CHAIN || "docker,photoroom");
+  const chain = raw
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(isCutoutProviderId);
+  return chain.length ? Array.from(new Set(chain)) : ["docker", "photoroom"];
+}
+
+async function ensureHealthy(def: CutoutProviderDef) {
+  const healthUrl = def.healthUrl();
+  if (!healthUrl) return;
+
+  const state = getCircuit(def.id);
+  if (state.lastHealthyAt && Date.now() - state.lastHealthyAt < HEALTH_TTL_MS) return;
+
+  const deadline = Date.now() + def.readyTimeoutMs;
+  let lastError = "";
+
+  do {
+    try {
+      const res = await fetch(healthUrl, {
+        method: "GET",
+        cache: "no-store",
+        signal: AbortSignal.timeout(HEALTH_REQUEST_TIMEOUT_MS),
+      });
+      const json = await res.json().catch(() => null);
+      if (res.ok && def.isHealthy(json)) {
+        state.lastHealthyAt = Date.now();
+        return;
+      }
+      lastError = `health ${res.status}: ${JSON.stringify(json).slice(0, 240)}`;
+    } catch (error) {
+      lastError = safeError(error);
+    }
+    if (Date.now() >= deadline) break;
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+  } while (Date.now() < deadline);
+
+  throw new Error(`${def.id} cutout engine is not ready: ${lastError || "timeout"}`);
+}
+
+async function runProviderOnce(def: CutoutProviderDef, normalizedInput: Buffer, safeBaseName: string) {
+  const started = Date.now();
+  await ensureHealthy(def);
+  const out = await def.request(def.endpoint(), normalizedInput, safeBaseName, AbortSignal.timeout(def.timeoutMs));
+  const quality = await scoreCutout(normalizedInput, out.buffer);
+  return {
+    buffer: out.buffer,
+    engine: out.engine || def.engine,
+    provider: def.id,
+    quality,
+    elapsed: Date.now() - started,
+  };
+}
+
+/**
+ * provider 設定に従って切り抜きを実行
+ * - 単体指定: その provider だけ（circuit open なら即失敗）
+ * - auto: チェーン順に試し、qualityThreshold 以上が出た時点で採用。出なければ最高スコアを採用
+ * - しきい値の既定は CUTOUT_AUTO_QUALITY_THRESHOLD / CUTOUT_MIN_ACCEPT_QUALITY
+ */
+export async function runCutoutProviders(
+  setting: CutoutProviderSetting,
+  normalizedInput: Buffer,
+  safeBaseName: string,
+  opts: { qualityThreshold?: number; minAcceptQuality?: number } = {}
+): Promise<CutoutResult> {
+  const qualityThreshold = opts.qualityThreshold ?? QUALITY_THRESHOLD;
+  const minAcceptQuality = opts.minAcceptQuality ?? MIN_ACCEPT_QUALITY;
+  const chain = setting === "auto" ? getAutoChain() : [setting];
+  const attempts: CutoutAttempt[] = [];
+  let best: Omit<CutoutResult, "attempts" | "costYen"> | null = null;
+  let costYen = 0;
+
+  for (const id of chain) {
+    const def = getCutoutProvider(id);
+    if (!def.isConfigured()) {
+      attempts.push({ provider: id, ok: false, skipped: "not-configured", elapsed: 0 });
+      continue;
+    }
+    if (isCircuitOpen(id)) {
+      attempts.push({ provider: id, ok: false, skipped: "circuit-open", elapsed: 0, error: getCircuit(id).lastError });
+      continue;
+    }
+
+    const started = Date.now();
+    try {
+      const result = await runProviderOnce(def, normalizedInput, safeBaseName);
+      recordSuccess(id);
+      costYen += def.costYen;
+      attempts.push({ provider: id, ok: true, score: result.quality.score, elapsed: result.elapsed });
+      if (!best || result.quality.score > best.quality.score) best = result;
+      if (result.quality.score >= qualityThreshold) break;
+    } catch (error) {
+      const message = safeError(error);
+      recordFailure(id, message);
+      attempts.push({ provider: id, ok: false, elapsed: Date.now() - started, error: message });
+      console.warn(`[cutout] provider ${id} failed:`, message);
+    }
+  }
+
+  if (!best) {
+    const detail = attempts.map((a) => `${a.provider}:${a.skipped || a.error || "failed"}`).join(", ");
+    throw new Error(`切り抜きエンジンがすべて失敗しました (${detail})`);
+  }
+  if (best.quality.score < minAcceptQuality) {
+    throw new Error(`切り抜き品質が低いため停止しました (${best.quality.score})`);
+  }
+  return { ...best, costYen, attempts };
+}
+
+/** 管理画面用：登録済み provider と circuit 状態 */
+export function getCutoutProviderStatus() {
+  const now = Date.now();
+  const setting = getCutoutProviderSetting();
+  return {
+    setting,
+    chain: setting === "auto" ? getAutoChain() : [setting],
+    providers: CUTOUT_PROVIDERS.map((def) => {
+      const state = getCircuit(def.id);
+      const circuit = state.openedUntil > now ? "open" : state.failures >= CIRCUIT_FAILURE_THRESHOLD ? "half-open" : "closed";
+      return {
+        id: def.id,
+        engine: def.engine,
+        endpoint: def.endpoint(),
+        timeoutMs: def.timeoutMs,
+        costYen: def.costYen,
+        configured: def.isConfigured(),
+        circuit,
+        failures: state.failures,
+        openedUntil: state.openedUntil ? new Date(state.openedUntil).toISOString() : "",
+        lastError: state.lastError,
+      };
+    }),
+  };
+}
@@ -0,0 +1,106 @@
+// /lib/server/cutoutQuality.ts
+import "server-only";
+import sharp from "sharp";
+
+/**
+ * 切り抜きPNGの品質判定（100点満点）
+ * - /api/cutout の provider 判定と、ログ保存用の QualityReport をここに統一
+ */
+
+export type QualityBreakdown = {
+  outline: number;
+  missing: number;
+  holes: number;
+  transparent: number;
+  edge: number;
+  noise: number;
+  foreground: number;
+  subject: number;
+};
+
+export type QualityReport = QualityBreakdown & {
+  score: number;
+  transparentRatio: number;
+  opaqueRatio: number;
+  semiTransparentRatio: number;
+};
+
+export async function normalizeInputForCutout(input: Buffer) {
+  return await sharp(input, { failOn: "none" })
+    .rotate()
+    .resize({ width: 2400, height: 2400, fit: "inside", withoutEnlargement: true })
+    .png({ compressionLevel: 9, adaptiveFiltering: true })
+    .toBuffer();
+}
+
+export async function scoreCutout(_input: Buffer, output: Buffer): Promise<QualityReport> {
+  const image = sharp(output, { failOn: "none" }).ensureAlpha().resize({ width: 512, height: 512, fit: "inside" });
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  const width = info.width;
+  const height = info.height;
+  const total = Math.max(1, width * height);
+  let transparent = 0;
+  let opaque = 0;
+  let semi = 0;
+  let edgeTransitions = 0;
+  let tinyNoise = 0;
+
+  for (let i = 0; i < total; i += 1) {
+    const a = data[i * 4 + 3] ?? 255;
+    if (a <= 8) transparent += 1;
+    else if (a >= 247) opaque += 1;
+    else semi += 1;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    if (x < width - 1) {
+      const b = data[(i + 1) * 4 + 3] ?? 255;
+      if (Math.abs(a - b) > 96) edgeTransitions += 1;
+    }
+    if (y < height - 1) {
+      const b = data[(i + width) * 4 + 3] ?? 255;
+      if (Math.abs(a - b) > 96) edgeTransitions += 1;
+    }
+    if (a > 0 && a < 50) tinyNoise += 1;
+  }
+
+  const transparentRatio = transparent / total;
+  const opaqueRatio = opaque / total;
+  const semiTransparentRatio = semi / total;
+  const edgeDensity = edgeTransitions / total;
+  const noiseRatio = tinyNoise / total;
+  const foregroundRatio = (opaque + semi) / total;
+
+  const transparentScore = transparentRatio >= 0.01 && transparentRatio <= 0.96 ? 100 : transparentRatio < 0.01 ? 20 : 35;
+  const missing = opaqueRatio >= 0.03 && opaqueRatio <= 0.98 ? 100 : 45;
+  const holes = semiTransparentRatio <= 0.33 ? 100 : Math.max(35, 100 - Math.round((semiTransparentRatio - 0.33) * 160));
+  const outline = edgeDensity > 0.002 && edgeDensity < 0.24 ? 100 : edgeDensity <= 0.002 ? 45 : 70;
+  const edge = semiTransparentRatio > 0.002 && semiTransparentRatio < 0.22 ? 100 : 82;
+  const noise = Math.max(40, 100 - Math.round(noiseRatio * 500));
+  const foreground = foregroundRatio >= 0.03 && foregroundRatio <= 0.94 ? 100 : foregroundRatio < 0.03 ? 30 : 55;
+  const subject = transparentRatio >= 0.01 && foregroundRatio >= 0.03 && edgeDensity > 0.002 ? 100 : 35;
+  const base = Math.round(
+    outline * 0.16 +
+      missing * 0.14 +
+      holes * 0.12 +
+      transparentScore * 0.14 +
+      edge * 0.14 +
+      noise * 0.1 +
+      foreground * 0.1 +
+      subject * 0.1
+  );
+
+  return {
+    score: Math.max(0, Math.min(100, base)),
+    outline,
+    missing,
+    holes,
+    transparent: transparentScore,
+    edge,
+    noise,
+    foreground,
+    subject,
+    transparentRatio,
+    opaqueRatio,
+    semiTransparentRatio,
+  };
+}
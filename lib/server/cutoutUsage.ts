@@ -0,0 +1,129 @@
+// /lib/server/cutoutUsage.ts
+import "server-only";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminAuth, getAdminDb } from "@/firebaseAdmin";
+import type { CutoutResult } from "@/lib/server/cutoutProviders";
+
+/**
+ * 切り抜きの利用枠と cutoutUsage ログ
+ * - /api/cutout（単体）と /api/cutout/batch（一括）で同じ枠・同じログを使う
+ * - 一括でも1枚ごとに reserve / log するので /api/cutout/admin の集計はそのまま正しい
+ */
+
+export type CutoutUsageUser = {
+  uid: string;
+  email: string | null;
+};
+
+export type CutoutUsage = {
+  allowed: boolean;
+  uid: string | null;
+  month: string;
+  count: number;
+  limit: number;
+};
+
+function numberEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function boolEnv(name: string, fallback: boolean) {
+  const value = process.env[name];
+  if (value == null || value === "") return fallback;
+  return ["1", "true", "yes", "on"].includes(value.toLowerCase());
+}
+
+export function monthKey(date = new Date()) {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Authorization ヘッダーから利用者を解決
+ * - CUTOUT_USAGE_ENFORCE_AUTH=true のときは未ログインを拒否
+ */
+export async function resolveCutoutUsageUser(req: Request): Promise<CutoutUsageUser | null> {
+  const enforce = boolEnv("CUTOUT_USAGE_ENFORCE_AUTH", false);
+  let user: CutoutUsageUser | null = null;
+
+  try {
+    const authHeader = req.headers.get("authorization") || "";
+    const [type, token] = authHeader.split(" ");
+    if (type === "Bearer" && token) {
+      const decoded = await getAdminAuth().verifyIdToken(token);
+      user = { uid: decoded.uid, email: decoded.email ?? null };
+    }
+  } catch (error) {
+    if (enforce) throw error;
+  }
+
+  if (!user && enforce) throw new Error("ログインが必要です");
+  return user;
+}
+
+/** 1枚分の利用枠を確保（上限超過なら allowed:false） */
+export async function reserveCutoutUsage(user: CutoutUsageUser | null): Promise<CutoutUsage> {
+  const defaultLimit = numberEnv("CUTOUT_MONTHLY_LIMIT", 100);
+
+  if (!user) {
+    return { allowed: true, uid: null, month: monthKey(), count: 0, limit: defaultLimit };
+  }
+
+  const db = getAdminDb();
+  const month = monthKey();
+  const ref = db.collection("users").doc(user.uid).collection("usage").doc(month);
+  return await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const current = snap.exists ? snap.data() || {} : {};
+    const limit = Number(current.limit ?? defaultLimit);
+    const count = Number(current.count ?? 0);
+    if (count >= limit) return { allowed: false, uid: user.uid, month, count, limit };
+    tx.set(
+      ref,
+      {
+        month,
+        count: FieldValue.increment(1),
+        limit,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastUsedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    tx.set(
+      db.collection("users").doc(user.uid),
+      { usage: { month, count: count + 1, limit }, updatedAt: FieldValue.serverTimestamp() },
+      { merge: true }
+    );
+    return { allowed: true, uid: user.uid, month, count: count + 1, limit };
+  });
+}
+
+/**
+ * cutoutUsage へ1件記録
+ * - キャッシュヒットは利用枠を消費しないので usage は uid / month だけでよい
+ */
+export async function logCutoutResult(
+  path: string,
+  result: CutoutResult,
+  usage: Pick<CutoutUsage, "uid" | "month">,
+  extra: Record<string, unknown> = {}
+) {
+  try {
+    const db = getAdminDb();
+    await db.collection("cutoutUsage").add({
+      ...extra,
+      uid: usage.uid,
+      month: usage.month,
+      provider: result.provider,
+      engine: result.engine,
+      quality: result.quality,
+      elapsed: result.elapsed,
+      costYen: result.costYen,
+      attempts: result.attempts,
+      path,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.warn("[cutout] usage log skipped:", error instanceof Error ? error.message : String(error));
+  }
+}
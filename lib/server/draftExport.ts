@@ -0,0 +1,263 @@
+// /lib/server/draftExport.ts
+import "server-only";
+import sharp from "sharp";
+import {
+  EXPORT_PRESETS,
+  type ExportImageSource,
+  type ExportPreset,
+  type ExportTarget,
+} from "@/lib/drafts/exportPresets";
+import type { ZipEntry } from "@/lib/server/zip";
+
+/**
+ * 出品先別の書き出し（ZIPの中身づくり）
+ *
+ * ✅ /api/drafts/export（1件）と /api/drafts/bulk（まとめて書き出し）の共通部分
+ * ✅ compositeImageUrl / detailImageUrls / useSceneImageUrls / sizeTemplateImageUrl を
+ *    プリセットの順番・枚数・サイズ・容量で JPEG にする
+ * ✅ ecTitle / ecDescription（SNS は投稿文）と manifest.json も入れる
+ * ✅ 取得できなかった画像は飛ばして manifest.json の skipped に残す
+ */
+
+type ExportImage = {
+  source: ExportImageSource;
+  url: string;
+};
+
+const JPEG_QUALITIES = [90, 84, 78, 72, 66, 60];
+const MAX_DOWNSCALE_STEPS = 3;
+
+const SOURCE_FILE_LABEL: Record<ExportImageSource, string> = {
+  composite: "cover",
+  detail: "detail",
+  useScene: "scene",
+  sizeTemplate: "size",
+};
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function asTrimmedString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asUrlList(list: unknown, single: unknown) {
+  const urls = Array.isArray(list) ? list.map(asTrimmedString) : [];
+  const first = asTrimmedString(single);
+  return [...(first ? [first] : []), ...urls].filter(Boolean);
+}
+
+function collectSources(data: Record<string, unknown>): Record<ExportImageSource, string[]> {
+  const composite =
+    asTrimmedString(data.compositeImageUrl) ||
+    asTrimmedString(data.aiImageUrl) ||
+    asTrimmedString(data.imageUrl);
+
+  return {
+    composite: composite ? [composite] : [],
+    detail: asUrlList(data.detailImageUrls, data.detailImageUrl),
+    useScene: asUrlList(data.useSceneImageUrls, data.useSceneImageUrl),
+    sizeTemplate: asUrlList([], data.sizeTemplateImageUrl),
+  };
+}
+
+/**
+ * プリセットの順番で並べ、重複URLを除いて上限枚数で切る
+ */
+function orderImages(preset: ExportPreset, sources: Record<ExportImageSource, string[]>) {
+  const seen = new Set<string>();
+  const images: ExportImage[] = [];
+
+  for (const source of preset.order) {
+    for (const url of sources[source]) {
+      if (seen.has(url)) continue;
+      seen.add(url);
+      images.push({ source, url });
+    }
+  }
+
+  return images.slice(0, preset.maxImages);
+}
+
+async function fetchImage(url: string) {
+  const res = await fetch(url, { method: "GET", cache: "no-store" });
+  if (!res.ok) throw new Error(`画像の取得に失敗しました (${res.status})`);
+  const raw = Buffer.from(await res.arrayBuffer());
+  if (!raw.length) throw new Error("画像が空です");
+  return raw;
+}
+
+/**
+ * プリセットのサイズにして、maxBytes に収まるまで品質 → 解像度の順に落とす
+ */
+async function renderForPreset(raw: Buffer, preset: ExportPreset) {
+  let width = preset.width;
+  let height = preset.height;
+
+  for (let step = 0; step <= MAX_DOWNSCALE_STEPS; step += 1) {
+    const resized = await sharp(raw, { failOn: "none" })
+      .rotate()
+      .resize(width, height, { fit: preset.fit, background: preset.background, position: "centre" })
+      .flatten({ background: preset.background })
+      .toBuffer();
+
+    for (const quality of JPEG_QUALITIES) {
+      const jpeg = await sharp(resized).jpeg({ quality, mozjpeg: true }).toBuffer();
+      if (jpeg.length <= preset.maxBytes) {
+        return { buffer: jpeg, width, height, quality };
+      }
+    }
+
+    width = Math.round(width * 0.85);
+    height = Math.round(height * 0.85);
+  }
+
+  throw new Error("容量の上限に収まりませんでした");
+}
+
+function buildTextEntries(preset: ExportPreset, data: Record<string, unknown>): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  const ecTitle = asTrimmedString(data.ecTitle) || asTrimmedString(data.title);
+  const bullets = Array.isArray(data.ecBullets)
+    ? data.ecBullets.map(asTrimmedString).filter(Boolean)
+    : [];
+  const ecDescription = [
+    asTrimmedString(data.ecDescription),
+    bullets.length ? bullets.map((line) => `・${line}`).join("\n") : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  if (ecTitle) entries.push({ name: "title.txt", data: Buffer.from(`${ecTitle}\n`, "utf8") });
+  if (ecDescription) {
+    entries.push({ name: "description.txt", data: Buffer.from(`${ecDescription}\n`, "utf8") });
+  }
+
+  const caption =
+    preset.text === "instagram"
+      ? asTrimmedString(data.instagramSales) || asTrimmedString(data.igCaption) || asTrimmedString(data.ig)
+      : preset.text === "x"
+        ? asTrimmedString(data.xSales) || asTrimmedString(data.xCaption) || asTrimmedString(data.x)
+        : "";
+
+  if (caption) entries.push({ name: "caption.txt", data: Buffer.from(`${caption}\n`, "utf8") });
+
+  return entries;
+}
+
+export type DraftExportFile = {
+  name: string;
+  source: ExportImageSource;
+  url: string;
+  width: number;
+  height: number;
+  quality: number;
+  bytes: number;
+};
+
+export type DraftExportSkipped = {
+  source: ExportImageSource;
+  url: string;
+  error: string;
+};
+
+export type DraftExportResult =
+  | {
+      ok: true;
+      entries: ZipEntry[];
+      files: DraftExportFile[];
+      skipped: DraftExportSkipped[];
+    }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      skipped?: DraftExportSkipped[];
+    };
+
+/**
+ * 1件の下書きから ZIP に入れるファイル一式を作る
+ * - 失敗時は HTTP ステータスの目安と理由を返す（呼び出し側でそのまま返せる）
+ */
+export async function buildDraftExport(
+  draftId: string,
+  data: Record<string, unknown>,
+  target: ExportTarget
+): Promise<DraftExportResult> {
+  const preset = EXPORT_PRESETS[target];
+  const images = orderImages(preset, collectSources(data));
+
+  if (preset.requireCompositeCover && images[0]?.source !== "composite") {
+    return {
+      ok: false,
+      status: 400,
+      error: `${preset.label} の表紙にする合成画像がありません（${preset.coverRule}）`,
+    };
+  }
+  if (images.length === 0) {
+    return { ok: false, status: 400, error: "書き出す画像がありません" };
+  }
+
+  const entries: ZipEntry[] = [];
+  const files: DraftExportFile[] = [];
+  const skipped: DraftExportSkipped[] = [];
+
+  // メモリを抑えるため1枚ずつ処理する
+  for (const image of images) {
+    try {
+      const rendered = await renderForPreset(await fetchImage(image.url), preset);
+      const name = `${String(files.length + 1).padStart(2, "0")}_${SOURCE_FILE_LABEL[image.source]}.jpg`;
+      entries.push({ name, data: rendered.buffer });
+      files.push({
+        name,
+        source: image.source,
+        url: image.url,
+        width: rendered.width,
+        height: rendered.height,
+        quality: rendered.quality,
+        bytes: rendered.buffer.length,
+      });
+    } catch (error) {
+      skipped.push({ source: image.source, url: image.url, error: safeError(error) });
+    }
+  }
+
+  if (files.length === 0) {
+    return { ok: false, status: 502, error: "画像を書き出せませんでした", skipped };
+  }
+  // 合成画像だけ取得・変換に失敗すると詳細画像が 01 番になるため、表紙必須のプリセットは止める
+  if (preset.requireCompositeCover && files[0]?.source !== "composite") {
+    return {
+      ok: false,
+      status: 502,
+      error: `${preset.label} の表紙にする合成画像を書き出せませんでした（${preset.coverRule}）`,
+      skipped,
+    };
+  }
+
+  entries.push(...buildTextEntries(preset, data));
+  entries.push({
+    name: "manifest.json",
+    data: Buffer.from(
+      JSON.stringify(
+        {
+          draftId,
+          target,
+          label: preset.label,
+          size: { width: preset.width, height: preset.height },
+          maxImages: preset.maxImages,
+          coverRule: preset.coverRule,
+          files,
+          skipped,
+          exportedAt: new Date().toISOString(),
+        },
+        null,
+        2
+      ),
+      "utf8"
+    ),
+  });
+
+  return { ok: true, entries, files, skipped };
+}
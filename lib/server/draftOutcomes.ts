@@ -0,0 +1,110 @@
+// /lib/server/draftOutcomes.ts
+import "server-only";
+import { normalizeBrandId } from "@/lib/brand/brands";
+import type { CaptionExperimentRow } from "@/lib/drafts/captionExperiments";
+import { extractHashtags, type HashtagOutcomeSample } from "@/lib/hashtags/scoring";
+import type { DraftOutcome, ImagePurpose, SellOutcomeStatus } from "@/lib/types/draft";
+
+/**
+ * 成果（outcome）のある過去の下書き（drafts）
+ *
+ * ✅ 文章生成の学習材料（ハッシュタグの成果 / 文章の A/B）をまとめて1回で読む
+ * ✅ 同じユーザーの、成果（outcome.status）のある下書きだけを新しい順に DRAFT_OUTCOME_HISTORY_LIMIT 件（既定300）まで見る
+ * ✅ brandId を渡せばそのブランドだけ（文章生成は1回ごとに読むので必ず絞る。brand しか無い古い下書きは対象外）
+ * ✅ 読むのは学習に使う項目だけ（select）
+ *
+ * 読めない時は投げる（複合インデックスが無い時はそう分かるメッセージにする）。
+ * 文章生成は止めないので、呼び出し側で空配列にして続ける。
+ */
+
+type Db = FirebaseFirestore.Firestore;
+type DraftData = Record<string, any>;
+
+const IMAGE_PURPOSES: ImagePurpose[] = ["sales", "branding", "trust", "story"];
+
+const OUTCOME_STATUSES: SellOutcomeStatus[] = ["unknown", "posted", "listed", "sold", "unsold", "stopped"];
+
+/** hashtagOutcomeSamples / captionExperimentRows が読む項目 */
+const OUTCOME_DRAFT_FIELDS = ["brandId", "brand", "imagePurpose", "ig", "igCaption", "instagramSales", "outcome"];
+
+function numberEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** 複合インデックスが無い時の Firestore のエラー（FAILED_PRECONDITION） */
+function isMissingIndexError(error: unknown) {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === 9 || code === "failed-precondition";
+}
+
+function safeNumber(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+export async function loadOutcomeDrafts(db: Db, uid: string, brandId?: string): Promise<DraftData[]> {
+  try {
+    let query = db
+      .collection("drafts")
+      .where("userId", "==", uid)
+      .where("outcome.status", "in", OUTCOME_STATUSES);
+
+    if (brandId) query = query.where("brandId", "==", brandId);
+
+    const snap = await query
+      .orderBy("updatedAt", "desc")
+      .limit(numberEnv("DRAFT_OUTCOME_HISTORY_LIMIT", 300))
+      .select(...OUTCOME_DRAFT_FIELDS)
+      .get();
+
+    return snap.docs
+      .map((doc) => doc.data() as DraftData)
+      .filter((data) => data.outcome && typeof data.outcome === "object");
+  } catch (e) {
+    if (isMissingIndexError(e)) {
+      throw new Error(
+        "drafts の複合インデックス（userId / outcome.status / brandId / updatedAt）がありません。「Firestore Index」をデプロイしてください"
+      );
+    }
+    throw e;
+  }
+}
+
+/**
+ * ハッシュタグ学習用（同じブランドだけ）
+ * - タグは Instagram 本文（ig / igCaption / instagramSales）から取り出す
+ */
+export function hashtagOutcomeSamples(drafts: DraftData[], brandId: string): HashtagOutcomeSample[] {
+  const out: HashtagOutcomeSample[] = [];
+
+  for (const data of drafts) {
+    if (normalizeBrandId(data.brandId ?? data.brand) !== brandId) continue;
+
+    const tags = Array.from(
+      new Set([...extractHashtags(data.ig ?? data.igCaption), ...extractHashtags(data.instagramSales)])
+    );
+    if (tags.length === 0) continue;
+
+    out.push({
+      tags,
+      views: safeNumber(data.outcome.views),
+      likes: safeNumber(data.outcome.likes),
+      listedAt: safeNumber(data.outcome.listedAt),
+      soldAt: safeNumber(data.outcome.soldAt),
+    });
+  }
+
+  return out;
+}
+
+/** 文章の A/B のまとめ用（投稿版の記録がある下書きだけ） */
+export function captionExperimentRows(drafts: DraftData[]): CaptionExperimentRow[] {
+  return drafts
+    .filter((data) => Array.isArray(data.outcome?.captionVariants) && data.outcome.captionVariants.length > 0)
+    .map((data) => ({
+      brandId: normalizeBrandId(data.brandId ?? data.brand),
+      ...(IMAGE_PURPOSES.includes(data.imagePurpose) ? { imagePurpose: data.imagePurpose as ImagePurpose } : {}),
+      outcome: data.outcome as DraftOutcome,
+    }));
+}
@@ -0,0 +1,201 @@
+// /lib/server/draftRevisions.ts
+import "server-only";
+import { FieldValue } from "firebase-admin/firestore";
+import type { DraftRevisionSource, DraftRevisionSummary } from "@/lib/types/draft";
+
+/**
+ * 下書きの版管理（drafts/{id}/revisions）
+ *
+ * ✅ /api/drafts/save のたびに「保存後の下書き全体」をスナップショットとして残す
+ * ✅ 変わった項目名（changedFields）も一緒に持つので、一覧で何が変わったか分かる
+ * ✅ 何も変わらない保存（スライダー保存の連打など）は版を作らない
+ * ✅ DRAFT_REVISION_LIMIT（既定50）を超えた古い版は削除する
+ *    - 版の数は下書きの revisionCount に持ち、上限を PRUNE_EVERY 件超えた時だけまとめて消す
+ *    - 消すのは古い順に超えた分だけ（offset で読み飛ばさない）
+ *
+ * 版の書き込み失敗は保存自体を止めない（warn のみ）。
+ */
+
+type DocRef = FirebaseFirestore.DocumentReference<FirebaseFirestore.DocumentData>;
+type DraftData = Record<string, unknown>;
+
+// 版の中身には含めない項目（所有者・日付・複製の系統・一覧の並び順と非表示）
+const META_KEYS = new Set([
+  "createdAt",
+  "updatedAt",
+  "userId",
+  "parentDraftId",
+  "rootDraftId",
+  "displayOrder",
+  "hiddenForUids",
+  "revisionCount",
+]);
+
+/** 上限をこの件数だけ超えたら古い版をまとめて消す */
+const PRUNE_EVERY = 10;
+
+function numberEnv(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function safeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function getDraftRevisionLimit() {
+  return numberEnv("DRAFT_REVISION_LIMIT", 50);
+}
+
+/** META_KEYS を除いた、版として残す中身 */
+export function toRevisionSnapshot(data: DraftData): DraftData {
+  const snapshot: DraftData = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (META_KEYS.has(key) || value === undefined) continue;
+    snapshot[key] = value;
+  }
+  return snapshot;
+}
+
+/** 復元時に現在の下書きから引き継ぐ項目（META_KEYS のうち値があるもの） */
+export function pickRevisionMeta(data: DraftData): DraftData {
+  const meta: DraftData = {};
+  for (const key of META_KEYS) {
+    if (data[key] !== undefined) meta[key] = data[key];
+  }
+  return meta;
+}
+
+function isPlainObject(value: unknown): value is DraftData {
+  return !!value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * set(patch, { merge: true }) 後の下書きを手元で組み立てる（保存後に読み直さないため）
+ * - ただのオブジェクトは項目ごとに混ぜ、配列やそれ以外は置き換える
+ * - serverTimestamp などの FieldValue は META_KEYS の項目にしか来ないので版には影響しない
+ */
+export function mergeDraftPatch(before: DraftData, patch: DraftData): DraftData {
+  const out: DraftData = { ...before };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    out[key] = isPlainObject(value) && isPlainObject(out[key]) ? mergeDraftPatch(out[key] as DraftData, value) : value;
+  }
+  return out;
+}
+
+/** キー順に依存しない比較用の文字列化 */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+
+  const maybeTimestamp = value as { toMillis?: () => number };
+  if (typeof maybeTimestamp.toMillis === "function") return `ts:${maybeTimestamp.toMillis()}`;
+
+  const obj = value as Record<string, unknown>;
+  return `{${Object.keys(obj)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(obj[key])}`)
+    .join(",")}}`;
+}
+
+/** トップレベルの項目単位で、変わった項目名を返す */
+export function diffDraftFields(before: DraftData, after: DraftData): string[] {
+  const a = toRevisionSnapshot(before);
+  const b = toRevisionSnapshot(after);
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+  return [...keys].filter((key) => stableStringify(a[key]) !== stableStringify(b[key])).sort();
+}
+
+export function toRevisionSummary(
+  id: string,
+  data: FirebaseFirestore.DocumentData
+): DraftRevisionSummary {
+  return {
+    id,
+    at: Number(data.at || 0),
+    source: (data.source as DraftRevisionSource) || "save",
+    changedFields: Array.isArray(data.changedFields) ? data.changedFields.map(String) : [],
+    restoredFrom: typeof data.restoredFrom === "string" ? data.restoredFrom : undefined,
+  };
+}
+
+/**
+ * 上限を超えた古い版を消す
+ * - revisionCount が上限 + PRUNE_EVERY を超えた時だけ、超えた分を古い順に読んで消す
+ * - revisionCount の無い古い下書きは 0 から数え始める（それ以前の版は数に入らない）
+ */
+async function pruneDraftRevisions(ref: DocRef, revisionCount: number) {
+  const limit = getDraftRevisionLimit();
+  if (revisionCount <= limit + PRUNE_EVERY) return;
+
+  const old = await ref
+    .collection("revisions")
+    .orderBy("at", "asc")
+    .limit(Math.min(revisionCount - limit, 200))
+    .get();
+
+  const batch = ref.firestore.batch();
+  old.docs.forEach((doc) => batch.delete(doc.ref));
+  batch.update(ref, { revisionCount: FieldValue.increment(-old.size) });
+  await batch.commit();
+}
+
+/**
+ * 保存前後の下書きから版を1件作る
+ * - 変更が無い通常保存では作らない（null を返す）
+ */
+export async function recordDraftRevision(
+  ref: DocRef,
+  args: {
+    before: DraftData;
+    after: DraftData;
+    uid: string;
+    source: DraftRevisionSource;
+    restoredFrom?: string;
+    /** 版の中身に出ない変更（非表示など）を一覧に出す時だけ指定 */
+    changedFields?: string[];
+  }
+): Promise<string | null> {
+  try {
+    const changedFields = args.changedFields ?? diffDraftFields(args.before, args.after);
+    if (changedFields.length === 0 && args.source === "save") return null;
+
+    const revisionRef = ref.collection("revisions").doc();
+    const batch = ref.firestore.batch();
+
+    batch.set(revisionRef, {
+      snapshot: toRevisionSnapshot(args.after),
+      changedFields,
+      source: args.source,
+      ...(args.restoredFrom ? { restoredFrom: args.restoredFrom } : {}),
+      uid: args.uid,
+      at: Date.now(),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    batch.update(ref, { revisionCount: FieldValue.increment(1) });
+    await batch.commit();
+
+    await pruneDraftRevisions(ref, Number(args.before.revisionCount || 0) + 1);
+    return revisionRef.id;
+  } catch (error) {
+    console.warn("[drafts] revision skipped:", safeError(error));
+    return null;
+  }
+}
+
+/**
+ * 下書きを完全削除する時に版もまとめて消す
+ * - サブコレクションは親を消しても残るため
+ */
+export async function deleteDraftRevisions(ref: DocRef) {
+  for (;;) {
+    const page = await ref.collection("revisions").limit(200).get();
+    if (page.empty) return;
+
+    const batch = ref.firestore.batch();
+    page.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
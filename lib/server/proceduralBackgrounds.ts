@@ -0,0 +1,293 @@
+// lib/server/proceduralBackgrounds.ts
+import "server-only";
+import sharp from "sharp";
+
+import type { ProceduralBgStyle, ProceduralLightDirection } from "@/lib/types/draft";
+
+/**
+ * 定型背景（AIなし）の描画
+ *
+ * ✅ スタジオ / グラデーション / 床と壁 / 紙 を SVG で描き、sharp で PNG にする
+ * ✅ 色はブランドキットの配色（secondary を面、primary を色味）から作る
+ * ✅ 接地（floor / table / hanging / wall）と売り方（sales / branding / trust / story）は
+ *    /api/template-backgrounds/generate と同じ語彙
+ * ✅ 同じ条件なら毎回まったく同じ画像になる（紙の質感も条件から決まる乱数で描く）
+ */
+
+type GroundingType = "floor" | "table" | "hanging" | "wall";
+type SellDirection = "sales" | "branding" | "trust" | "story";
+
+export type ProceduralBackgroundParams = {
+  style: ProceduralBgStyle;
+  lightDirection: ProceduralLightDirection;
+  groundingType: GroundingType;
+  sellDirection: SellDirection;
+  /** ブランドキットの配色（#RRGGBB） */
+  palette: { primary: string; secondary: string };
+  /** 正方形の一辺（既定 1024px。AI背景と同じ） */
+  size?: number;
+};
+
+type Rgb = { r: number; g: number; b: number };
+
+const DEFAULT_SIZE = 1024;
+
+/** 面の色の基準（白ではなく、少しだけ灰みのある生成り） */
+const NEUTRAL_SURFACE: Rgb = { r: 236, g: 233, b: 228 };
+const TRUST_SURFACE: Rgb = { r: 226, g: 229, b: 232 };
+const STORY_SURFACE: Rgb = { r: 222, g: 200, b: 170 };
+
+/**
+ * 売り方ごとの色味と明るさ
+ * - wallLuminance は白飛びしない範囲（テンプレ背景の明るさ判定 mean ≤ 205）に収める
+ */
+const DIRECTION_TONE: Record<
+  SellDirection,
+  { tint: Rgb | "brand"; tintAmount: number; wallLuminance: number; glow: number; vignette: number }
+> = {
+  sales: { tint: NEUTRAL_SURFACE, tintAmount: 0, wallLuminance: 194, glow: 0.55, vignette: 0.14 },
+  branding: { tint: "brand", tintAmount: 0.16, wallLuminance: 178, glow: 0.6, vignette: 0.2 },
+  trust: { tint: TRUST_SURFACE, tintAmount: 0.5, wallLuminance: 188, glow: 0.4, vignette: 0.12 },
+  story: { tint: STORY_SURFACE, tintAmount: 0.3, wallLuminance: 168, glow: 0.7, vignette: 0.32 },
+};
+
+/** 床（台）の境目の高さ（画像の高さに対する比率） */
+const HORIZON: Record<GroundingType, number | null> = {
+  floor: 0.64,
+  table: 0.68,
+  hanging: null,
+  wall: null,
+};
+
+/* ---------------------------------- */
+/* 色 */
+/* ---------------------------------- */
+
+function parseHex(hex: string, fallback: Rgb): Rgb {
+  const m = String(hex || "").trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!m) return fallback;
+
+  const n = parseInt(m[1], 16);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+}
+
+function toHex(c: Rgb): string {
+  const h = (v: number) => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, "0");
+  return `#${h(c.r)}${h(c.g)}${h(c.b)}`;
+}
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return {
+    r: a.r + (b.r - a.r) * t,
+    g: a.g + (b.g - a.g) * t,
+    b: a.b + (b.b - a.b) * t,
+  };
+}
+
+function luminance(c: Rgb): number {
+  return 0.2126 * c.r + 0.7152 * c.g + 0.0722 * c.b;
+}
+
+/** 色味を残したまま、白 / 黒へ寄せて明るさを合わせる */
+function withLuminance(c: Rgb, target: number): Rgb {
+  const l = luminance(c);
+  if (l < target) return mix(c, { r: 255, g: 255, b: 255 }, (target - l) / Math.max(1, 255 - l));
+  return mix(c, { r: 0, g: 0, b: 0 }, (l - target) / Math.max(1, l));
+}
+
+function resolveTones(params: ProceduralBackgroundParams) {
+  const tone = DIRECTION_TONE[params.sellDirection];
+  const primary = parseHex(params.palette.primary, { r: 31, g: 41, b: 55 });
+  const secondary = parseHex(params.palette.secondary, NEUTRAL_SURFACE);
+
+  let base = mix(NEUTRAL_SURFACE, secondary, 0.35);
+  base = mix(base, tone.tint === "brand" ? primary : tone.tint, tone.tintAmount);
+
+  const wall = withLuminance(base, tone.wallLuminance);
+
+  return {
+    wall: toHex(wall),
+    wallTop: toHex(withLuminance(base, tone.wallLuminance - 14)),
+    floor: toHex(withLuminance(base, tone.wallLuminance - 20)),
+    floorFront: toHex(withLuminance(base, tone.wallLuminance - 38)),
+    highlight: toHex(withLuminance(base, Math.min(tone.wallLuminance + 28, 228))),
+    shade: toHex(withLuminance(base, tone.wallLuminance - 70)),
+    glow: tone.glow,
+    vignette: tone.vignette,
+  };
+}
+
+/* ---------------------------------- */
+/* SVG */
+/* ---------------------------------- */
+
+function lightPosition(direction: ProceduralLightDirection) {
+  if (direction === "left") return { x: 0.16, y: 0.2 };
+  if (direction === "right") return { x: 0.84, y: 0.2 };
+  return { x: 0.5, y: 0.1 };
+}
+
+function buildSvg(params: ProceduralBackgroundParams, size: number): string {
+  const S = size;
+  const t = resolveTones(params);
+  const light = lightPosition(params.lightDirection);
+  const horizon = HORIZON[params.groundingType];
+  const grounded = horizon !== null;
+
+  // 光の反対側へ向かって少し落ちる
+  const falloffFrom = params.lightDirection === "right" ? { x1: 1, x2: 0 } : { x1: 0, x2: 1 };
+
+  const defs: string[] = [
+    `<linearGradient id="wall" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="${t.wallTop}"/>
+      <stop offset="${grounded ? horizon : 1}" stop-color="${t.wall}"/>
+    </linearGradient>`,
+    `<linearGradient id="floor" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="${t.floor}"/>
+      <stop offset="1" stop-color="${t.floorFront}"/>
+    </linearGradient>`,
+    `<linearGradient id="cove" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="${t.wall}" stop-opacity="0"/>
+      <stop offset="0.35" stop-color="${t.floor}" stop-opacity="1"/>
+      <stop offset="1" stop-color="${t.floorFront}" stop-opacity="1"/>
+    </linearGradient>`,
+    `<linearGradient id="diagonal" x1="${light.x}" y1="${light.y}" x2="${1 - light.x}" y2="1">
+      <stop offset="0" stop-color="${t.highlight}"/>
+      <stop offset="0.55" stop-color="${t.wall}"/>
+      <stop offset="1" stop-color="${t.floorFront}"/>
+    </linearGradient>`,
+    `<radialGradient id="glow" cx="${light.x}" cy="${light.y}" r="0.75">
+      <stop offset="0" stop-color="${t.highlight}" stop-opacity="${t.glow}"/>
+      <stop offset="1" stop-color="${t.highlight}" stop-opacity="0"/>
+    </radialGradient>`,
+    `<linearGradient id="falloff" x1="${falloffFrom.x1}" y1="0" x2="${falloffFrom.x2}" y2="0">
+      <stop offset="0" stop-color="${t.shade}" stop-opacity="0"/>
+      <stop offset="1" stop-color="${t.shade}" stop-opacity="${params.lightDirection === "top" ? 0 : 0.16}"/>
+    </linearGradient>`,
+    `<radialGradient id="vignette" cx="0.5" cy="0.55" r="0.78">
+      <stop offset="0.55" stop-color="${t.shade}" stop-opacity="0"/>
+      <stop offset="1" stop-color="${t.shade}" stop-opacity="${t.vignette}"/>
+    </radialGradient>`,
+    `<linearGradient id="contact" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="${t.shade}" stop-opacity="0.22"/>
+      <stop offset="1" stop-color="${t.shade}" stop-opacity="0"/>
+    </linearGradient>`,
+  ];
+
+  const body: string[] = [];
+
+  if (params.style === "gradient") {
+    body.push(`<rect width="${S}" height="${S}" fill="url(#diagonal)"/>`);
+    if (grounded) {
+      // 接地する商品向けに、下側だけ少し沈めて面を感じさせる
+      body.push(`<rect y="${S * 0.62}" width="${S}" height="${S * 0.38}" fill="url(#cove)" opacity="0.45"/>`);
+    }
+  } else if (params.style === "floor_wall" && grounded) {
+    const yH = S * horizon;
+    body.push(`<rect width="${S}" height="${S}" fill="url(#wall)"/>`);
+
+    if (params.groundingType === "table") {
+      // 天板 + 手前の縁
+      const yEdge = S * 0.92;
+      body.push(`<rect y="${yH}" width="${S}" height="${yEdge - yH}" fill="url(#floor)"/>`);
+      body.push(`<rect y="${yEdge}" width="${S}" height="${S - yEdge}" fill="${t.shade}" opacity="0.55"/>`);
+    } else {
+      body.push(`<rect y="${yH}" width="${S}" height="${S - yH}" fill="url(#floor)"/>`);
+    }
+
+    body.push(`<rect y="${yH}" width="${S}" height="${S * 0.02}" fill="url(#contact)"/>`);
+  } else if ((params.style === "studio_sweep" || params.style === "paper") && grounded) {
+    // 壁から床へ継ぎ目なく曲がる（ホリゾント）
+    const coveTop = S * (horizon - 0.12);
+    body.push(`<rect width="${S}" height="${S}" fill="url(#wall)"/>`);
+    body.push(
+      `<rect y="${coveTop}" width="${S}" height="${S - coveTop}" fill="url(#cove)" opacity="${params.style === "paper" ? 0.6 : 1}"/>`
+    );
+  } else {
+    // 吊り下げ / 壁掛け：床を描かず壁だけ
+    body.push(`<rect width="${S}" height="${S}" fill="url(#wall)"/>`);
+  }
+
+  body.push(`<rect width="${S}" height="${S}" fill="url(#glow)"/>`);
+  body.push(`<rect width="${S}" height="${S}" fill="url(#falloff)"/>`);
+  body.push(`<rect width="${S}" height="${S}" fill="url(#vignette)"/>`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${S}" height="${S}" viewBox="0 0 ${S} ${S}">
+  <defs>${defs.join("")}</defs>
+  ${body.join("\n  ")}
+</svg>`;
+}
+
+/* ---------------------------------- */
+/* 質感 */
+/* ---------------------------------- */
+
+/** 条件から決まる乱数（同じ条件なら同じ質感） */
+function seededRandom(seedText: string) {
+  let h = 2166136261;
+  for (let i = 0; i < seedText.length; i++) {
+    h ^= seedText.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let x = a;
+    x = Math.imul(x ^ (x >>> 15), x | 1);
+    x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 灰色 128 を中心にした質感レイヤー（soft-light で重ねる）
+ * - cell: 乱数の細かさ（大きいほど雲のようなむら）
+ */
+async function buildGrainLayer(size: number, cell: number, amplitude: number, random: () => number) {
+  const w = Math.max(2, Math.round(size / cell));
+  const raw = Buffer.alloc(w * w * 3);
+
+  for (let i = 0; i < w * w; i++) {
+    const v = Math.round(128 + (random() - 0.5) * 2 * amplitude);
+    raw[i * 3] = v;
+    raw[i * 3 + 1] = v;
+    raw[i * 3 + 2] = v;
+  }
+
+  const layer = sharp(raw, { raw: { width: w, height: w, channels: 3 } }).resize(size, size, {
+    kernel: cell > 1 ? "cubic" : "nearest",
+  });
+
+  // 拡大した升目が見えないようにぼかす
+  return await (cell > 1 ? layer.blur(cell * 0.6) : layer).png().toBuffer();
+}
+
+/**
+ * 定型背景を描く
+ * - 全スタイルに薄い粒子を乗せ、グラデーションの縞（8bit の段差）を目立たなくする
+ * - 紙は繊維の粒子と大きなむらを強めに乗せる
+ */
+export async function renderProceduralBackground(params: ProceduralBackgroundParams): Promise<Buffer> {
+  const size = Math.max(256, Math.min(2048, Math.round(params.size ?? DEFAULT_SIZE)));
+  const random = seededRandom(
+    JSON.stringify([params.style, params.lightDirection, params.groundingType, params.sellDirection, params.palette, size])
+  );
+
+  const svg = buildSvg(params, size);
+
+  const layers: sharp.OverlayOptions[] = [
+    { input: await buildGrainLayer(size, 1, params.style === "paper" ? 10 : 3, random), blend: "soft-light" },
+  ];
+
+  if (params.style === "paper") {
+    layers.push({ input: await buildGrainLayer(size, 3, 8, random), blend: "soft-light" });
+    layers.push({ input: await buildGrainLayer(size, 48, 14, random), blend: "soft-light" });
+  }
+
+  return await sharp(Buffer.from(svg))
+    .composite(layers)
+    .removeAlpha()
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,54 @@
+// lib/storage/saveImage.ts
+
+import "server-only";
+import crypto from "crypto";
+import { getAdminBucket } from "@/firebaseAdmin";
+
+/**
+ * サーバー側で作った画像を Storage に保存して download token URL を返す
+ * - 保存先と URL 形式は /api/upload/image と同じ（users/{uid}/{folder}/images/{ymd}/...）
+ */
+
+function ymd() {
+  const d = new Date();
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function extFromContentType(contentType: string) {
+  const ct = String(contentType || "").toLowerCase();
+  if (ct.includes("image/png")) return "png";
+  if (ct.includes("image/webp")) return "webp";
+  if (ct.includes("image/jpeg") || ct.includes("image/jpg")) return "jpg";
+  return "bin";
+}
+
+export function storageDownloadUrl(bucketName: string, filePath: string, token: string) {
+  return `https://firebasestorage.googleapis.com/v0/b/${bucketName}/o/${encodeURIComponent(
+    filePath
+  )}?alt=media&token=${token}`;
+}
+
+export async function saveImageToStorage(
+  buf: Buffer,
+  opts: { uid: string; folder: string; contentType: string; suffix?: string }
+) {
+  const bucket = getAdminBucket();
+  const token = crypto.randomUUID();
+  const rand = crypto.randomBytes(6).toString("hex");
+  const suffix = opts.suffix ? `_${opts.suffix}` : "";
+  const path = `users/${opts.uid}/${opts.folder}/images/${ymd()}/${Date.now()}_${rand}${suffix}.${extFromContentType(
+    opts.contentType
+  )}`;
+
+  await bucket.file(path).save(buf, {
+    contentType: opts.contentType,
+    resumable: false,
+    metadata: {
+      metadata: {
+        firebaseStorageDownloadTokens: token,
+      },
+    },
+  });
+
+  return { url: storageDownloadUrl(bucket.name, path, token), path };
+}
@@ -20,7 +20,12 @@
 
 export type Phase = "draft" | "ready" | "posted";
 
-export type BrandId = "vento" | "riva";
+/**
+ * ブランドID = users/{uid}/brands/{brandId} の文書ID
+ * - ユーザーが設定ページで作ったブランドをそのまま使う（vento / riva だけではない）
+ * - 値の揃え方は lib/brand/brands.ts の normalizeBrandId
+ */
+export type BrandId = string;
 
 export type UiVideoSize = "720x1280" | "1280x720" | "960x960";
 
@@ -48,11 +53,25 @@ export type DraftImageRole =
   | "other"
   | string;
 
+/**
+ * 一括切り抜き（/api/cutout/batch）の結果
+ * - 元の url は残し、透過PNGは cutout.url に持つ
+ */
+export type DraftImageCutout = {
+  url: string;
+  provider: string;
+  engine: string;
+  quality: number;
+  elapsed: number;
+  at: number;
+};
+
 export type DraftImage = {
   id: string;
   url: string;
   createdAt?: number;
   role?: DraftImageRole;
+  cutout?: DraftImageCutout;
 };
 
 export type DraftImages = {
@@ -69,10 +88,29 @@ export type ShortCopy = {
   text: string;
 };
 
+/**
+ * 文章の言語
+ * - ja: 日本語（国内向け・従来の文章）
+ * - en / zh-Hant / ko: 海外向けEC出品文（英語 / 繁体字中国語 / 韓国語）
+ */
+export type CaptionLanguage = "ja" | "en" | "zh-Hant" | "ko";
+
+/**
+ * 文章の型（A/B の比較単位）
+ * - sales: 販売寄り（価格・購入導線）
+ * - branding: 世界観・ブランドの言葉
+ * - story: 物語・記憶・背景
+ */
+export type CaptionStyle = "sales" | "branding" | "story";
+
 export type SavedCaptionSet = {
   id: string;
   label: string;
   createdAt: number;
+  /** 無い旧データは日本語（ja） */
+  language?: CaptionLanguage;
+  /** 無い旧データは本文から推定する */
+  style?: CaptionStyle;
   ig?: string;
   x?: string;
   ig3?: string[];
@@ -81,6 +119,8 @@ export type SavedCaptionSet = {
   ecTitle?: string;
   ecDescription?: string;
   ecBullets?: string[];
+  /** 海外向け出品文の文章チェック結果（生成時に確認する。日本語は captionCompliance） */
+  compliance?: CaptionComplianceReport;
 };
 
 // =========================
@@ -104,6 +144,8 @@ export type TextOverlay = {
   fontSize: number;
   y: number;
   bandOpacity?: number;
+  /** ブランドキットの書体（無ければ従来のゴシック） */
+  fontId?: BrandFontId;
 };
 
 export type TextOverlayBySlot = {
@@ -171,6 +213,74 @@ export type StaticImageLog = {
 
 export type BgScene = "studio" | "lifestyle" | "scale" | "detail";
 
+/**
+ * 背景画像の採点結果（/api/images/analyze）
+ * - accept: そのまま使える / weak: 文脈が弱い・補正が要る / reject: 暗すぎ・破綻
+ */
+export type BackgroundQualityVerdict = "accept" | "weak" | "reject";
+
+export type BackgroundQualitySummary = {
+  /** 総合採用スコア（0〜100）。AI背景生成の採用基準と同じ計算 */
+  acceptScore: number;
+  /** 文脈読解スコア（0〜100） */
+  contextScore: number;
+  /** 構図スコア（0〜100）。中央侵入・ベタ板・接地面 */
+  structureScore: number;
+  verdict: BackgroundQualityVerdict;
+  /** 判定理由（日本語・短文） */
+  reasons: string[];
+  width: number;
+  height: number;
+  analyzedAt: number;
+};
+
+/**
+ * ブランドの背景シリーズ（series mode）
+ * - 基準画像（anchor）から読み取った「色・素材・光の向き・カメラの高さ」
+ * - ブランド文書の bgSeries に保存し、以後の AI 背景はこの基準で生成・採用する
+ */
+export type BackgroundSeriesTone = "warm" | "cool" | "neutral";
+
+export type BackgroundSeriesCameraHeight = "low" | "eye" | "high";
+
+export type BackgroundSeriesSpec = {
+  /** 解析ロジックの版（変わったら基準を作り直す） */
+  version: number;
+  anchorUrl: string;
+  enabled: boolean;
+  /** #rrggbb */
+  palette: { wall: string; floor: string; accent: string };
+  tone: BackgroundSeriesTone;
+  /** 平均輝度（0〜255） */
+  brightness: number;
+  /** 輝度の標準偏差 */
+  contrast: number;
+  /** プロンプト用の素材（英語） */
+  materials: string[];
+  lightDirection: ProceduralLightDirection;
+  /** 左右の明るさの差（-1〜1。+ は左が明るい） */
+  lightBalance: number;
+  cameraHeight: BackgroundSeriesCameraHeight;
+  /** 壁と床の境目の高さ（画像上端 0 〜 下端 1） */
+  horizonRatio: number;
+  /** 4x4 の明暗配置（0〜255） */
+  grid: number[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** 基準画像との一貫性（0〜100） */
+export type BackgroundSeriesConsistency = {
+  score: number;
+  palette: number;
+  brightness: number;
+  light: number;
+  camera: number;
+  layout: number;
+  /** 基準とずれている点（日本語・短文） */
+  reasons: string[];
+};
+
 export type BgCandidate = {
   id: string;
   url: string;
@@ -179,6 +289,7 @@ export type BgCandidate = {
   bgPrompt: string;
   hardConstraints: string[];
   why: string;
+  quality?: BackgroundQualitySummary;
 };
 
 export type BgPickLog = {
@@ -194,6 +305,12 @@ export type BgPickLog = {
 
 export type BackgroundSourceTab = "template_bg" | "ai_bg";
 
+/** 定型背景（AIを使わずサーバで描く背景）の型 */
+export type ProceduralBgStyle = "studio_sweep" | "gradient" | "floor_wall" | "paper";
+
+/** 定型背景の光の向き */
+export type ProceduralLightDirection = "left" | "top" | "right";
+
 export type TemplateBgRecommendation = {
   id?: string;
   url?: string;
@@ -234,6 +351,216 @@ export type ImageOriginMeta = {
 // Product Video
 // =========================
 
+/** 非AI動画の演出（lib/nonAiVideo/motion.ts の planNonAiFrame が解釈する） */
+export type NonAiVideoType = "auto_ad" | "spin" | "turntable" | "zoom" | "pan" | "showcase" | "reel";
+
+/** 区間の切替（前の区間の最後のコマから入る） */
+export type ProductVideoTransition = "cut" | "fade" | "fade_black" | "slide";
+
+/**
+ * タイムラインの1区間
+ * - buttonId: videoButtons の id（冒頭・質感・多視点・まとめ などの役割）
+ * - materialUrls: 同じ区間で順番に使う追加画像（多視点の切替など）
+ * - transition: 前の区間からの入り方（最初の区間では使わない）
+ */
+export type ProductVideoSegment = {
+  id: string;
+  buttonId: string;
+  imageUrl: string;
+  materialUrls?: string[];
+  motion: MotionCharacter;
+  videoType: NonAiVideoType;
+  seconds: number;
+  transition: ProductVideoTransition;
+  transitionSeconds: number;
+  textLines?: string[];
+};
+
+/**
+ * 複数区間をつないだ商品動画
+ * - 書き出しは既存の upload-video-webm → finalize-nonai-mp4 を通る
+ * - renderedUrl は最後に書き出した動画（代表動画 nonAiVideoUrl とは別に持つ）
+ */
+export type ProductVideoTimeline = {
+  segments: ProductVideoSegment[];
+  backgroundImageUrl?: string;
+  renderedUrl?: string | null;
+  renderedAt?: number | null;
+  updatedAt?: number;
+};
+
+// =========================
+// ブランドキット（users/{uid}/brands/{brandId}.brandKit）
+// =========================
+
+/** 同梱書体（burn-api は fonts-noto-cjk を入れている） */
+export type BrandFontId = "notoSans" | "notoSerif";
+
+export type BrandKitPalette = {
+  primary: string;
+  secondary: string;
+  accent: string;
+  /** 文字色 */
+  text: string;
+  /** 文字の帯（背景）の色 */
+  band: string;
+};
+
+/** 文字・帯・ロゴの初期値（TextOverlay / CmOverlay / 字幕 / burn-api に配る） */
+export type BrandKitOverlayDefaults = {
+  fontSize: number;
+  fontWeight: "normal" | "bold";
+  lineHeight: number;
+  position: CmOverlayPosition;
+  bandEnabled: boolean;
+  bandOpacity: number;
+  logoEnabled: boolean;
+  logoPosition: CmOverlayPosition;
+  logoWidth: number;
+  logoOpacity: number;
+};
+
+/**
+ * ブランドの見た目
+ * - captionPolicy / imagePolicy（文章・画像の方針）と並べてブランド文書に持つ
+ * - ロゴは Storage: users/{uid}/brands/{brandId}/logo/
+ */
+export type BrandKit = {
+  logoUrl: string | null;
+  logoPath: string | null;
+  palette: BrandKitPalette;
+  fontId: BrandFontId;
+  overlay: BrandKitOverlayDefaults;
+  updatedAt?: number;
+};
+
+/**
+ * CM（Runway）でブランドごとに映すもの
+ * - ブランド文書の cmProfile（未設定なら lib/brand/brands.ts の雛形）
+ */
+export type BrandCmProfile = {
+  heroSubject: string;
+  visualScene: string;
+  brandMessage: string;
+};
+
+/**
+ * 商品選定でのブランド相性の判定材料
+ * - ブランド文書の researchProfile（未設定なら雛形 / ブランドの must から作る）
+ */
+export type BrandResearchProfile = {
+  /** 評価軸の表示名（例：Vento相性） */
+  fitLabel: string;
+  /** 含まれていると相性が上がる語 */
+  fitWords: string[];
+};
+
+/**
+ * ブランドのハッシュタグセット（users/{uid}/brands/{brandId}.hashtagSets）
+ * - 定番のタグをまとめておき、文章生成のたびに候補へ入れる
+ */
+export type BrandHashtagSet = {
+  id: string;
+  label: string;
+  /** "#" 付きで保存する */
+  tags: string[];
+};
+
+/** ハッシュタグ候補がどこから来たか */
+export type HashtagSuggestionSource = "brand" | "keyword" | "sellCheck" | "caption" | "learned";
+
+/**
+ * 文章生成時のハッシュタグ候補（点数順）
+ * - キーワード / 売れる診断の抽出語 / ブランドのセット / 過去の成果（早く売れた下書きのタグ）で点数を付ける
+ */
+export type HashtagSuggestion = {
+  tag: string;
+  score: number;
+  sources: HashtagSuggestionSource[];
+  reasons: string[];
+  /** 過去の下書きで使った回数と、そのうち売れた回数 */
+  usedCount?: number;
+  soldCount?: number;
+};
+
+// =========================
+// 動画の音（BGM）
+// =========================
+
+/**
+ * ブランドごとの音源ライブラリ（Storage: users/{uid}/brands/{brandId}/audio/）
+ */
+export type AudioLibraryItem = {
+  path: string;
+  url: string;
+  label: string;
+  brandId: string;
+  contentType: string;
+  size: number;
+  createdAt: number;
+};
+
+/**
+ * 動画に付ける音
+ * - startSec: 音源のどこから使うか（頭出し）
+ * - durationSec: 使う長さ（null なら動画の長さに合わせる）
+ * - loudnessLufs: 音量の基準（loudnorm の目標値 / SNS は -14 前後）
+ * ✅ 焼き直し・MP4化をやり直しても同じ音になるよう、下書きに設定ごと残す
+ */
+export type VideoAudioTrack = {
+  path: string;
+  url: string;
+  label: string;
+  brandId: string;
+  startSec: number;
+  durationSec: number | null;
+  fadeInSec: number;
+  fadeOutSec: number;
+  loudnessLufs: number;
+  updatedAt?: number;
+};
+
+// =========================
+// 動画の字幕（時間指定つき）
+// =========================
+
+export type CaptionAnimation = "none" | "fade" | "slide" | "typewriter";
+
+/**
+ * 字幕1行分（1つの表示区間）
+ * - startSec / endSec: 動画の先頭からの秒
+ * - text は改行で複数行にできる
+ */
+export type CaptionCue = {
+  id: string;
+  text: string;
+  startSec: number;
+  endSec: number;
+  position: CmOverlayPosition;
+  animation: CaptionAnimation;
+};
+
+export type CaptionCueStyle = {
+  fontId?: BrandFontId;
+  fontSize: number;
+  fontColor: string;
+  boxEnabled: boolean;
+  boxColor: string;
+  boxOpacity: number;
+};
+
+/**
+ * 動画に焼き込む字幕
+ * - source: どこから作ったか（手入力 / ig3 / shortCopies / SRT / WebVTT の読み込み）
+ * ✅ 同じ内容を SRT / WebVTT で書き出して、SNSの字幕トラックにも使える
+ */
+export type VideoCaptionTrack = {
+  cues: CaptionCue[];
+  style: CaptionCueStyle;
+  source?: "manual" | "ig3" | "shortCopies" | "srt" | "vtt";
+  updatedAt?: number;
+};
+
 export type ProductVideo = {
   source: "nonai";
   url: string | null;
@@ -241,6 +568,9 @@ export type ProductVideo = {
   preset: NonAiVideoPreset | null;
   burnedUrl: string | null;
   burnedUrls: string[];
+  timeline?: ProductVideoTimeline | null;
+  audio?: VideoAudioTrack | null;
+  captions?: VideoCaptionTrack | null;
 };
 
 // =========================
@@ -280,6 +610,8 @@ export type CmOverlay = {
   logoPosition: CmOverlayPosition;
   logoWidth: number;
   logoOpacity: number;
+
+  fontId?: BrandFontId;
 };
 
 export type CmVideoPersona = {
@@ -301,6 +633,9 @@ export type CmVideo = {
   overlayUrl?: string | null;
   overlayPath?: string | null;
   overlayUrls?: string[];
+
+  audio?: VideoAudioTrack | null;
+  captions?: VideoCaptionTrack | null;
 };
 
 // =========================
@@ -326,9 +661,34 @@ export type DraftSellCheckSnapshot = {
   improvements: string[];
   reasons: string[];
   learnedSampleCount: number;
+  /** 診断で抽出した検索キーワード（ハッシュタグ候補に使う） */
+  extractedKeywords?: string[];
   checkedAt: number;
 };
 
+/**
+ * 投稿した文章（SavedCaptionSet）ごとの成果
+ * - 投稿版を切り替えると、その時点の成果は前の版に残り、以降は新しい版に入る
+ */
+export type CaptionVariantOutcome = {
+  captionSetId: string;
+  label?: string;
+  style: CaptionStyle;
+  /** 報告・プロンプトの例に使う本文の冒頭 */
+  excerpt?: string;
+  postedAt: number;
+  /** 投稿版にした時点の下書き全体の閲覧・いいね（この版の分だけを数えるため） */
+  startViews?: number;
+  startLikes?: number;
+
+  views?: number;
+  likes?: number;
+  listedAt?: number;
+  soldAt?: number;
+
+  updatedAt?: number;
+};
+
 export type DraftOutcome = {
   status: SellOutcomeStatus;
 
@@ -346,6 +706,10 @@ export type DraftOutcome = {
 
   sellCheck?: DraftSellCheckSnapshot;
 
+  /** 今投稿している文章（savedCaptionSets の id） */
+  postedCaptionSetId?: string;
+  captionVariants?: CaptionVariantOutcome[];
+
   updatedAt?: number;
 };
 
@@ -369,12 +733,140 @@ export type ProductPlacementBackground = {
   y: number;
 };
 
+/**
+ * 影の種類
+ * - drop: 従来のぼかし楕円（既定）
+ * - reflection: 床への映り込み（下に向かってフェード）
+ * - contact: 商品の接地面（アルファの下端）から作る細い接地影
+ * - cast: 光の向き（light）に応じて伸びる投影影
+ */
+export type ProductShadowType = "drop" | "reflection" | "contact" | "cast";
+
+export type ProductLightDirection = "left" | "center" | "right";
+
+export type ProductShadowStyle = {
+  type: ProductShadowType;
+  reflection?: {
+    opacity: number;
+    /** 商品の高さに対する映り込みの長さ（0.1〜1） */
+    height: number;
+    /** 接地点からのすき間(px) */
+    gap: number;
+  };
+  contact?: {
+    opacity: number;
+    /** 接地影の厚み(px) */
+    spread: number;
+    blur: number;
+  };
+  cast?: {
+    opacity: number;
+    /** 商品の高さに対する影の長さ（0.1〜1.5） */
+    length: number;
+    blur: number;
+    light: ProductLightDirection;
+  };
+};
+
+/**
+ * 背景の光・遠近に商品を合わせる（compose-product-stage）
+ * - 各値は未設定（null / なし）なら背景の推定値から自動で決める
+ * - enabled: true の時だけ合わせる。未保存 / false は従来どおり（色温度だけ合わせる）
+ */
+export type ProductLightMatch = {
+  enabled: boolean;
+  light?: ProductLightDirection | null;
+  /** 露出（0.7〜1.3、1 = そのまま） */
+  exposure?: number | null;
+  /** コントラスト（0.7〜1.3、1 = そのまま） */
+  contrast?: number | null;
+  /** 光と反対側の陰（0〜1） */
+  rim?: number | null;
+  /** 床の線（画像の高さに対する割合 0.3〜0.95） */
+  floorLine?: number | null;
+};
+
+/** 背景から推定した光と床の線 */
+export type StageLightEstimate = {
+  light: ProductLightDirection;
+  /** 左右の明るさの差（-1〜1、+ は左が明るい） */
+  lightBalance: number;
+  /** 背景の平均の明るさ（0〜255） */
+  ambient: number;
+  /** 背景の明るさのばらつき（標準偏差） */
+  contrast: number;
+  floorLine: number;
+};
+
+/** 合成で実際に使った値（推定 + 上書き） */
+export type StageLightMatchResult = {
+  enabled: boolean;
+  estimate: StageLightEstimate;
+  applied: {
+    light: ProductLightDirection;
+    exposure: number;
+    contrast: number;
+    rim: number;
+    floorLine: number;
+    /** 接地点の高さから決めた影の奥行き（1 = そのまま） */
+    perspective: number;
+  };
+  /**
+   * 推定値を使わなかった項目（exposure / contrast / rim / floorLine）
+   * - 光の向きは決まった元を1つ: light（lightMatch.light）/ castLight（投影影の光）/ requestLight（リクエストの light）
+   */
+  overridden: string[];
+  warnings?: string[];
+};
+
 export type ProductPlacement = {
   scale: number;
   x: number;
   y: number;
   shadow?: ProductPlacementShadow;
+  shadowStyle?: ProductShadowStyle;
   background?: ProductPlacementBackground;
+  lightMatch?: ProductLightMatch;
+};
+
+/**
+ * セット商品（複数商品を1枚の背景に並べる）
+ * - メイン商品は従来どおり placement を使い、z順は 0 固定
+ * - ここには追加の商品だけを持つ（zIndex < 0 はメイン商品の後ろ、> 0 は手前）
+ * - stageProducts が空 / 未設定の下書きは従来の単品合成のまま
+ */
+export type StageProduct = {
+  id: string;
+  imageUrl: string;
+  scale: number;
+  x: number;
+  y: number;
+  zIndex: number;
+  shadow?: ProductPlacementShadow;
+  shadowStyle?: ProductShadowStyle;
+  sourceImageId?: string;
+};
+
+/**
+ * 下書きの版（drafts/{id}/revisions）
+ * - save: 通常保存で作られた版
+ * - restore: 過去の版へ戻した時に作られた版（restoredFrom に元の版ID）
+ * - bulk: 一覧の一括操作（状態変更 / 非表示）で作られた版
+ */
+export type DraftRevisionSource = "save" | "restore" | "bulk";
+
+export type DraftRevisionSummary = {
+  id: string;
+  at: number;
+  source: DraftRevisionSource;
+  changedFields: string[];
+  restoredFrom?: string;
+};
+
+export type DraftRevisionPreview = DraftRevisionSummary & {
+  snapshot: Record<string, unknown>;
+  /** 現在の下書きと比べて違う項目 */
+  diffFromCurrent: string[];
 };
 
 export type ProductPlacementSnapshot = {
@@ -430,6 +922,57 @@ export type EcSalesTextSet = {
   ecBullets?: string[];
 };
 
+// =========================
+// 文章チェック（ブランドの禁止語・必須語 / 出品先ごとの文字数・ハッシュタグ・禁止表現）
+// =========================
+
+/** チェック対象の文章欄 */
+export type CaptionComplianceField =
+  | "ig"
+  | "x"
+  | "instagramSales"
+  | "xSales"
+  | "ecTitle"
+  | "ecDescription"
+  | "ecBullets";
+
+export type CaptionViolationRule =
+  | "brand_ban"
+  | "brand_must"
+  | "length"
+  | "hashtag_count"
+  | "forbidden_expression";
+
+export type CaptionViolation = {
+  /** brand_must は文章全体に対する指摘なので field が無い */
+  field?: CaptionComplianceField;
+  /** 出品先（instagram / x / mercari など）。ブランドの決まりは "brand" */
+  target: string;
+  rule: CaptionViolationRule;
+  /** error = 出す前に直す / warning = 確認推奨 */
+  severity: "error" | "warning";
+  message: string;
+  suggestion: string;
+  /** 引っかかった語句 */
+  match?: string;
+  limit?: number;
+  actual?: number;
+  /** そのまま差し替えられる修正案（ecBullets は1行1項目） */
+  fixedText?: string;
+};
+
+export type CaptionComplianceReport = {
+  checkedAt: number;
+  ok: boolean;
+  errorCount: number;
+  warningCount: number;
+  violations: CaptionViolation[];
+  /** チェックに使った出品先とブランドの決まり（再チェック用） */
+  targets: string[];
+  must: string[];
+  ban: string[];
+};
+
 // =========================
 // DraftDoc
 // =========================
@@ -473,6 +1016,8 @@ export type DraftDoc = {
   ecDescription?: string;
   ecBullets?: string[];
   savedCaptionSets?: SavedCaptionSet[];
+  captionCompliance?: CaptionComplianceReport;
+  hashtagSuggestions?: HashtagSuggestion[];
 
   baseImageUrl?: string;
   bgImageUrl?: string;
@@ -518,6 +1063,7 @@ export type DraftDoc = {
 
   activePhotoMode?: ProductPhotoMode;
   placement?: ProductPlacement;
+  stageProducts?: StageProduct[];
 
   shadowOpacity?: number;
   shadowBlur?: number;
@@ -595,6 +1141,16 @@ export type DraftDoc = {
 
   outcome?: DraftOutcome;
 
+  /**
+   * 複製（バリエーション）の親子関係
+   * - parentDraftId: 複製元の下書き
+   * - rootDraftId: 系統の一番最初の下書き（一覧でまとめる時のキー）
+   * - variantLabel: 色違い・サイズ違いなどの呼び名
+   */
+  parentDraftId?: string;
+  rootDraftId?: string;
+  variantLabel?: string;
+
   createdAt?: any;
   updatedAt?: any;
 };
\ No newline at end of file
@@ -0,0 +1,202 @@
+// /lib/video/audio.ts
+// =========================
+// ✅ 動画の音（サーバ側）
+// - ブランドごとの音源ライブラリ（Storage）の一覧・保存
+// - MP4 に音を付ける（映像はそのままコピー / 音だけ AAC で作る）
+// - 音の付け方（頭出し・フェード・音量）は lib/video/audioTrack.ts の設定どおり
+// =========================
+
+import "server-only";
+
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { spawn } from "node:child_process";
+import { getAdminBucket } from "@/firebaseAdmin";
+import type { AudioLibraryItem, VideoAudioTrack } from "@/lib/types/draft";
+import {
+  AUDIO_CONTENT_TYPES,
+  AUDIO_TRACK_LIMITS,
+  audioLibraryPrefix,
+  buildAudioFilter,
+  getAudioPlaySeconds,
+  isAudioLibraryPath,
+  normalizeAudioBrandId,
+} from "@/lib/video/audioTrack";
+import { resolveFfmpegCommand } from "@/lib/video/nonai";
+
+function storageDownloadUrl(bucketName: string, filePath: string, token: string) {
+  const encoded = encodeURIComponent(filePath);
+  return `https://firebasestorage.googleapis.com/v0/b/${bucketName}/o/${encoded}?alt=media&token=${token}`;
+}
+
+function tmpFile(ext: string) {
+  return path.join(os.tmpdir(), `aoi_audio_${Date.now()}_${Math.random().toString(16).slice(2)}.${ext}`);
+}
+
+/* -------------------------------- library -------------------------------- */
+
+/** 新しい順。トークンの無いファイル（手動で置いた物など）は URL を作れないので除く */
+export async function listAudioLibrary(uid: string, brandId: string): Promise<AudioLibraryItem[]> {
+  const bucket = getAdminBucket();
+  const safeBrandId = normalizeAudioBrandId(brandId);
+  const [files] = await bucket.getFiles({
+    prefix: audioLibraryPrefix(uid, safeBrandId),
+    maxResults: AUDIO_TRACK_LIMITS.maxLibraryItems,
+  });
+
+  const items: AudioLibraryItem[] = [];
+  for (const file of files) {
+    const meta = file.metadata ?? {};
+    const custom = (meta.metadata ?? {}) as Record<string, unknown>;
+    const token = String(custom.firebaseStorageDownloadTokens ?? "").split(",")[0].trim();
+    if (!token) continue;
+
+    items.push({
+      path: file.name,
+      url: storageDownloadUrl(bucket.name, file.name, token),
+      label: String(custom.label ?? "").trim() || path.basename(file.name),
+      brandId: safeBrandId,
+      contentType: String(meta.contentType ?? ""),
+      size: Number(meta.size ?? 0),
+      createdAt: Date.parse(String(meta.timeCreated ?? "")) || 0,
+    });
+  }
+
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveAudioToLibrary(args: {
+  uid: string;
+  brandId: string;
+  buffer: Buffer;
+  contentType: string;
+  label: string;
+}): Promise<AudioLibraryItem> {
+  const ext = AUDIO_CONTENT_TYPES[args.contentType];
+  if (!ext) throw new Error(`対応していない音源形式です: ${args.contentType || "unknown"}`);
+  if (!args.buffer.length) throw new Error("音源ファイルが空です");
+  if (args.buffer.length > AUDIO_TRACK_LIMITS.maxFileBytes) {
+    throw new Error(`音源は${Math.round(AUDIO_TRACK_LIMITS.maxFileBytes / 1024 / 1024)}MBまでです`);
+  }
+
+  const bucket = getAdminBucket();
+  const brandId = normalizeAudioBrandId(args.brandId);
+  const token = crypto.randomUUID();
+  const createdAt = Date.now();
+  const filePath = `${audioLibraryPrefix(args.uid, brandId)}${createdAt}.${ext}`;
+  const label = args.label.trim().slice(0, 80) || `BGM ${new Date(createdAt).toISOString().slice(0, 10)}`;
+
+  await bucket.file(filePath).save(args.buffer, {
+    contentType: args.contentType,
+    resumable: false,
+    metadata: {
+      metadata: { firebaseStorageDownloadTokens: token, label },
+      cacheControl: "public,max-age=31536000",
+    },
+  });
+
+  return {
+    path: filePath,
+    url: storageDownloadUrl(bucket.name, filePath, token),
+    label,
+    brandId,
+    contentType: args.contentType,
+    size: args.buffer.length,
+    createdAt,
+  };
+}
+
+export async function deleteAudioFromLibrary(uid: string, filePath: string) {
+  if (!isAudioLibraryPath(uid, filePath)) throw new Error("forbidden (path mismatch)");
+  await getAdminBucket().file(filePath).delete({ ignoreNotFound: true });
+}
+
+/** 自分のライブラリの音源だけ読む（URL を直接取りに行かない） */
+export async function downloadAudioTrack(uid: string, track: VideoAudioTrack): Promise<Buffer> {
+  if (!isAudioLibraryPath(uid, track.path)) throw new Error("forbidden (audio path mismatch)");
+  const [buffer] = await getAdminBucket().file(track.path).download();
+  if (!buffer.length) throw new Error("音源ファイルが空です");
+  return buffer;
+}
+
+/* -------------------------------- ffmpeg -------------------------------- */
+
+function runFfmpeg(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const cmd = resolveFfmpegCommand();
+    if (!cmd) return reject(new Error("ffmpeg binary not found"));
+
+    const p = spawn(cmd, args, { stdio: ["ignore", "ignore", "pipe"] });
+    const err: Buffer[] = [];
+    p.stderr.on("data", (d) => err.push(Buffer.from(d)));
+    p.on("error", (e) => reject(e));
+    p.on("close", (code) => {
+      const log = Buffer.concat(err).toString("utf8");
+      if (code === 0) return resolve(log);
+      reject(new Error(`ffmpeg failed (code=${code}): ${log.slice(-4000)}`));
+    });
+  });
+}
+
+/** 動画の長さ（秒）。ffprobe は同梱されないので ffmpeg -i の出力から読む */
+export async function probeMediaSeconds(filePath: string): Promise<number> {
+  const log = await runFfmpeg(["-hide_banner", "-i", filePath, "-f", "null", "-t", "0", "-"]);
+  const m = /Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/.exec(log);
+  if (!m) throw new Error("動画の長さを取得できませんでした");
+  return Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]);
+}
+
+/**
+ * MP4 に音を付ける
+ * - 映像は再エンコードしない（-c:v copy）ので画質・コマ数は変わらない
+ * - 元の動画に音があっても置き換える（設定した音だけにする）
+ */
+export async function attachAudioTrackToMp4(args: {
+  video: Buffer;
+  audio: Buffer;
+  track: VideoAudioTrack;
+}): Promise<{ buffer: Buffer; videoSeconds: number; audioSeconds: number }> {
+  const videoPath = tmpFile("mp4");
+  const audioPath = tmpFile("audio");
+  const outPath = tmpFile("mp4");
+
+  try {
+    await fs.writeFile(videoPath, args.video);
+    await fs.writeFile(audioPath, args.audio);
+
+    const seconds = await probeMediaSeconds(videoPath);
+
+    await runFfmpeg([
+      "-y",
+      "-i",
+      videoPath,
+      "-i",
+      audioPath,
+      "-filter_complex",
+      `[1:a]${buildAudioFilter(args.track, seconds)}[aout]`,
+      "-map",
+      "0:v:0",
+      "-map",
+      "[aout]",
+      "-t",
+      seconds.toFixed(3),
+      "-c:v",
+      "copy",
+      "-c:a",
+      "aac",
+      "-b:a",
+      "160k",
+      "-movflags",
+      "+faststart",
+      outPath,
+    ]);
+
+    const buffer = await fs.readFile(outPath);
+    if (!buffer.length) throw new Error("音付き動画が空です");
+    return { buffer, videoSeconds: seconds, audioSeconds: getAudioPlaySeconds(args.track, seconds) };
+  } finally {
+    await Promise.all([videoPath, audioPath, outPath].map((p) => fs.unlink(p).catch(() => {})));
+  }
+}
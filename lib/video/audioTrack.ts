@@ -0,0 +1,154 @@
+// /lib/video/audioTrack.ts
+// =========================
+// ✅ 動画の音（BGM）の設定（ブラウザ / サーバ共通）
+// - 音源はブランドごとに Storage に置く（users/{uid}/brands/{brandId}/audio/）
+// - 下書きには「どの音源を・どこから・どの長さで・どうフェードするか」を残す
+//   → MP4化・文字焼き込みをやり直しても同じ音になる
+// - ffmpeg のフィルタ文字列もここで作る（Next のサーバ / burn-api で同じ値になるように）
+// =========================
+
+import type { AudioLibraryItem, VideoAudioTrack } from "@/lib/types/draft";
+
+export const AUDIO_TRACK_LIMITS = {
+  maxStartSec: 600,
+  maxDurationSec: 60,
+  maxFadeSec: 5,
+  minLoudnessLufs: -24,
+  maxLoudnessLufs: -9,
+  maxFileBytes: 20 * 1024 * 1024,
+  maxLibraryItems: 100,
+} as const;
+
+/** SNS（Reels / TikTok）向けの既定の音量 */
+export const DEFAULT_AUDIO_LOUDNESS_LUFS = -14;
+
+export const AUDIO_LOUDNESS_PRESETS: Array<{ value: number; label: string }> = [
+  { value: -16, label: "控えめ" },
+  { value: -14, label: "SNS標準" },
+  { value: -11, label: "大きめ" },
+];
+
+/** 受け付ける音源（拡張子は保存名に使う） */
+export const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/aac": "aac",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  "audio/ogg": "ogg",
+  "audio/webm": "webm",
+};
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function toNumber(value: unknown, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/** 0.1秒単位にそろえる（UIのスライダーと保存値がずれないように） */
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+/** Storage のパスに使えるブランドID（英数・_・- だけ） */
+export function normalizeAudioBrandId(value: unknown) {
+  const s = String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]/g, "");
+  return s.slice(0, 40) || "default";
+}
+
+export function audioLibraryPrefix(uid: string, brandId: string) {
+  return `users/${uid}/brands/${normalizeAudioBrandId(brandId)}/audio/`;
+}
+
+export function isAudioLibraryPath(uid: string, path: string) {
+  const prefix = `users/${uid}/brands/`;
+  return path.startsWith(prefix) && path.slice(prefix.length).split("/")[1] === "audio" && !path.includes("..");
+}
+
+/** ライブラリの音源を選んだ時の初期設定 */
+export function createVideoAudioTrack(item: AudioLibraryItem): VideoAudioTrack {
+  return {
+    path: item.path,
+    url: item.url,
+    label: item.label,
+    brandId: item.brandId,
+    startSec: 0,
+    durationSec: null,
+    fadeInSec: 0.5,
+    fadeOutSec: 1,
+    loudnessLufs: DEFAULT_AUDIO_LOUDNESS_LUFS,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * 保存値・リクエストの揺れを吸収する
+ * - path / url が無いものは「音なし」（null）
+ */
+export function normalizeVideoAudioTrack(input: unknown): VideoAudioTrack | null {
+  if (!input || typeof input !== "object") return null;
+  const v = input as Record<string, unknown>;
+
+  const path = String(v.path ?? "").trim();
+  const url = String(v.url ?? "").trim();
+  if (!path || !url) return null;
+
+  const rawDuration = v.durationSec === null || v.durationSec === undefined ? null : toNumber(v.durationSec, 0);
+
+  return {
+    path,
+    url,
+    label: String(v.label ?? "").trim() || "BGM",
+    brandId: normalizeAudioBrandId(v.brandId),
+    startSec: round1(clamp(toNumber(v.startSec, 0), 0, AUDIO_TRACK_LIMITS.maxStartSec)),
+    durationSec: rawDuration && rawDuration > 0 ? round1(clamp(rawDuration, 1, AUDIO_TRACK_LIMITS.maxDurationSec)) : null,
+    fadeInSec: round1(clamp(toNumber(v.fadeInSec, 0), 0, AUDIO_TRACK_LIMITS.maxFadeSec)),
+    fadeOutSec: round1(clamp(toNumber(v.fadeOutSec, 0), 0, AUDIO_TRACK_LIMITS.maxFadeSec)),
+    loudnessLufs: Math.round(
+      clamp(
+        toNumber(v.loudnessLufs, DEFAULT_AUDIO_LOUDNESS_LUFS),
+        AUDIO_TRACK_LIMITS.minLoudnessLufs,
+        AUDIO_TRACK_LIMITS.maxLoudnessLufs
+      )
+    ),
+    updatedAt: toNumber(v.updatedAt, 0) || undefined,
+  };
+}
+
+/** 実際に鳴らす長さ（動画より長くはしない） */
+export function getAudioPlaySeconds(track: VideoAudioTrack, videoSeconds: number) {
+  const video = Math.max(0.1, videoSeconds);
+  return track.durationSec ? Math.min(track.durationSec, video) : video;
+}
+
+/**
+ * ffmpeg の音声フィルタ（入力の音声ストリームに付ける部分だけ）
+ * - 頭出し → 長さで切る → フェードイン/アウト → 音量をそろえる → 足りない分は無音で埋める
+ * - 例: `[1:a]${buildAudioFilter(track, 5)}[aout]`
+ */
+export function buildAudioFilter(track: VideoAudioTrack, videoSeconds: number) {
+  const seconds = getAudioPlaySeconds(track, videoSeconds);
+  const fadeIn = Math.min(track.fadeInSec, seconds / 2);
+  const fadeOut = Math.min(track.fadeOutSec, seconds / 2);
+
+  const filters = [
+    `atrim=start=${track.startSec.toFixed(2)}:duration=${seconds.toFixed(2)}`,
+    "asetpts=PTS-STARTPTS",
+  ];
+  if (fadeIn > 0) filters.push(`afade=t=in:st=0:d=${fadeIn.toFixed(2)}`);
+  if (fadeOut > 0) filters.push(`afade=t=out:st=${(seconds - fadeOut).toFixed(2)}:d=${fadeOut.toFixed(2)}`);
+  filters.push(`loudnorm=I=${track.loudnessLufs}:TP=-1.5:LRA=11`);
+  filters.push("aresample=48000");
+  filters.push("apad");
+
+  return filters.join(",");
+}
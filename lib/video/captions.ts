@@ -0,0 +1,321 @@
+// /lib/video/captions.ts
+// =========================
+// ✅ 動画の字幕（時間指定つき / ブラウザ・サーバ共通）
+// - 1行ごとに 表示開始・終了・位置・出方（フェード / スライド / タイプ）を持つ
+// - ig3 / shortCopies から自動で並べる
+// - SRT / WebVTT の読み込み・書き出し（SNSの字幕トラックにもそのまま使える）
+// - 焼き込みは burn-api（burn-api/main.py）がこの形のまま受け取る
+// =========================
+
+import type {
+  CaptionAnimation,
+  CaptionCue,
+  CaptionCueStyle,
+  CmOverlayPosition,
+  VideoCaptionTrack,
+} from "@/lib/types/draft";
+import { normalizeBrandFontId } from "@/lib/brand/brandKit";
+
+export const CAPTION_LIMITS = {
+  maxCues: 20,
+  maxTextLength: 80,
+  maxLinesPerCue: 3,
+  minCueSeconds: 0.3,
+  maxSeconds: 120,
+} as const;
+
+export const CAPTION_ANIMATIONS: Array<{ value: CaptionAnimation; label: string }> = [
+  { value: "none", label: "そのまま" },
+  { value: "fade", label: "フェード" },
+  { value: "slide", label: "スライド" },
+  { value: "typewriter", label: "タイプ" },
+];
+
+export const CAPTION_POSITIONS: Array<{ value: CmOverlayPosition; label: string }> = [
+  { value: "top", label: "上" },
+  { value: "center", label: "中央" },
+  { value: "bottom", label: "下" },
+  { value: "leftBottom", label: "左下" },
+  { value: "rightBottom", label: "右下" },
+];
+
+/** burn-api の既定（白文字＋黒帯）に合わせる */
+export const DEFAULT_CAPTION_STYLE: CaptionCueStyle = {
+  fontSize: 42,
+  fontColor: "#FFFFFF",
+  boxEnabled: true,
+  boxColor: "#000000",
+  boxOpacity: 0.45,
+};
+
+const ANIMATION_VALUES = CAPTION_ANIMATIONS.map((a) => a.value);
+const POSITION_VALUES = CAPTION_POSITIONS.map((p) => p.value);
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function toNumber(value: unknown, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/** 0.1秒単位（SRT / VTT はミリ秒だが、編集画面で扱いやすい粒度にそろえる） */
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+function pick<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return typeof value === "string" && (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+function safeColor(value: unknown, fallback: string) {
+  const s = String(value ?? "").trim();
+  return /^#[0-9a-fA-F]{6}$/.test(s) ? s.toUpperCase() : fallback;
+}
+
+export function newCaptionCueId() {
+  return `cue_${Date.now().toString(36)}_${Math.random().toString(16).slice(2, 8)}`;
+}
+
+function normalizeCueText(value: unknown) {
+  return String(value ?? "")
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, CAPTION_LIMITS.maxLinesPerCue)
+    .join("\n")
+    .slice(0, CAPTION_LIMITS.maxTextLength);
+}
+
+export function normalizeCaptionStyle(input: unknown): CaptionCueStyle {
+  const v = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  return {
+    ...(v.fontId ? { fontId: normalizeBrandFontId(v.fontId) } : {}),
+    fontSize: Math.round(clamp(toNumber(v.fontSize, DEFAULT_CAPTION_STYLE.fontSize), 12, 160)),
+    fontColor: safeColor(v.fontColor, DEFAULT_CAPTION_STYLE.fontColor),
+    boxEnabled: v.boxEnabled !== false,
+    boxColor: safeColor(v.boxColor, DEFAULT_CAPTION_STYLE.boxColor),
+    boxOpacity: Math.round(clamp(toNumber(v.boxOpacity, DEFAULT_CAPTION_STYLE.boxOpacity), 0, 1) * 100) / 100,
+  };
+}
+
+/**
+ * 保存値・リクエスト・読み込んだ字幕の揺れを吸収する
+ * - 文字が空の行は捨てる / 開始順に並べる / 行が無ければ null
+ */
+export function normalizeVideoCaptionTrack(input: unknown): VideoCaptionTrack | null {
+  if (!input || typeof input !== "object") return null;
+  const v = input as Record<string, unknown>;
+  if (!Array.isArray(v.cues)) return null;
+
+  const cues: CaptionCue[] = [];
+  for (const raw of v.cues) {
+    if (!raw || typeof raw !== "object") continue;
+    const c = raw as Record<string, unknown>;
+
+    const text = normalizeCueText(c.text);
+    if (!text) continue;
+
+    const startSec = round1(clamp(toNumber(c.startSec, 0), 0, CAPTION_LIMITS.maxSeconds - CAPTION_LIMITS.minCueSeconds));
+    const endSec = round1(
+      clamp(toNumber(c.endSec, startSec + 2), startSec + CAPTION_LIMITS.minCueSeconds, CAPTION_LIMITS.maxSeconds)
+    );
+
+    cues.push({
+      id: String(c.id ?? "").trim() || newCaptionCueId(),
+      text,
+      startSec,
+      endSec,
+      position: pick(c.position, POSITION_VALUES, "bottom"),
+      animation: pick(c.animation, ANIMATION_VALUES, "fade"),
+    });
+  }
+
+  if (!cues.length) return null;
+
+  return {
+    cues: cues.sort((a, b) => a.startSec - b.startSec).slice(0, CAPTION_LIMITS.maxCues),
+    style: normalizeCaptionStyle(v.style),
+    source: pick(v.source, ["manual", "ig3", "shortCopies", "srt", "vtt"] as const, "manual"),
+    updatedAt: toNumber(v.updatedAt, 0) || undefined,
+  };
+}
+
+/* -------------------------------- generate -------------------------------- */
+
+/** ig3（投稿文）は長いので、1行目だけを字幕にする（ハッシュタグは除く） */
+export function captionLinesFromIg3(ig3: unknown) {
+  if (!Array.isArray(ig3)) return [];
+  return ig3
+    .map((text) =>
+      String(text ?? "")
+        .split(/\r?\n/)
+        .map((line) => line.replace(/#[^\s#]+/g, "").trim())
+        .find(Boolean) ?? ""
+    )
+    .map((line) => line.slice(0, CAPTION_LIMITS.maxTextLength))
+    .filter(Boolean);
+}
+
+export function captionLinesFromShortCopies(shortCopies: unknown) {
+  if (!Array.isArray(shortCopies)) return [];
+  return shortCopies
+    .map((c) => normalizeCueText(c && typeof c === "object" ? (c as { text?: unknown }).text : c))
+    .filter(Boolean);
+}
+
+/**
+ * 文の並びを動画の長さに均等に割り当てる
+ * - 行と行の間に少しだけ間をあける（切替が詰まって見えないように）
+ */
+export function buildCaptionCuesFromLines(
+  lines: string[],
+  videoSeconds: number,
+  options: { position?: CmOverlayPosition; animation?: CaptionAnimation } = {}
+): CaptionCue[] {
+  const seconds = clamp(videoSeconds || 5, 1, CAPTION_LIMITS.maxSeconds);
+  const maxBySeconds = Math.max(1, Math.floor(seconds / 1.2));
+  const texts = lines
+    .map((line) => normalizeCueText(line))
+    .filter(Boolean)
+    .slice(0, Math.min(CAPTION_LIMITS.maxCues, maxBySeconds));
+  if (!texts.length) return [];
+
+  const slot = seconds / texts.length;
+  const gap = Math.min(0.2, slot * 0.1);
+
+  return texts.map((text, i) => ({
+    id: newCaptionCueId(),
+    text,
+    startSec: round1(i * slot + (i === 0 ? 0 : gap / 2)),
+    endSec: round1((i + 1) * slot - (i === texts.length - 1 ? 0 : gap / 2)),
+    position: options.position ?? "bottom",
+    animation: options.animation ?? "fade",
+  }));
+}
+
+/* -------------------------------- SRT / WebVTT -------------------------------- */
+
+function formatTimestamp(seconds: number, separator: "," | ".") {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function parseTimestamp(value: string) {
+  const parts = value.trim().replace(",", ".").split(":");
+  const sec = Number(parts.pop());
+  const min = Number(parts.pop() ?? 0);
+  const hour = Number(parts.pop() ?? 0);
+  const total = hour * 3600 + min * 60 + sec;
+  return Number.isFinite(total) ? total : NaN;
+}
+
+/** WebVTT の表示位置（line / align）と焼き込み位置の対応 */
+const VTT_SETTINGS: Record<CmOverlayPosition, string> = {
+  top: "line:10%",
+  center: "line:50%",
+  bottom: "",
+  leftBottom: "align:start position:10%",
+  rightBottom: "align:end position:90%",
+};
+
+function positionFromVttSettings(settings: string): CmOverlayPosition {
+  const align = /align:(\w+)/.exec(settings)?.[1] ?? "";
+  if (align === "start" || align === "left") return "leftBottom";
+  if (align === "end" || align === "right") return "rightBottom";
+
+  const line = /line:(-?\d+(?:\.\d+)?)%/.exec(settings);
+  if (line) {
+    const percent = Number(line[1]);
+    if (percent < 35) return "top";
+    if (percent < 65) return "center";
+  }
+  return "bottom";
+}
+
+/** SRT の {\an8} などの位置タグ（上: 7〜9 / 中央: 4〜6） */
+function positionFromSrtTag(text: string): CmOverlayPosition | null {
+  const an = /\{\\an(\d)\}/.exec(text)?.[1];
+  if (!an) return null;
+  if (["7", "8", "9"].includes(an)) return "top";
+  if (["4", "5", "6"].includes(an)) return "center";
+  if (an === "1") return "leftBottom";
+  if (an === "3") return "rightBottom";
+  return "bottom";
+}
+
+export function formatSrt(track: VideoCaptionTrack) {
+  return track.cues
+    .map((cue, i) =>
+      [
+        String(i + 1),
+        `${formatTimestamp(cue.startSec, ",")} --> ${formatTimestamp(cue.endSec, ",")}`,
+        cue.text,
+      ].join("\n")
+    )
+    .join("\n\n")
+    .concat("\n");
+}
+
+export function formatVtt(track: VideoCaptionTrack) {
+  const body = track.cues.map((cue) => {
+    const settings = VTT_SETTINGS[cue.position];
+    const timing = `${formatTimestamp(cue.startSec, ".")} --> ${formatTimestamp(cue.endSec, ".")}`;
+    return [cue.id, settings ? `${timing} ${settings}` : timing, cue.text].join("\n");
+  });
+  return ["WEBVTT", ...body].join("\n\n").concat("\n");
+}
+
+const TIMING_LINE = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(.*)$/;
+
+/**
+ * SRT / WebVTT を読み込む（先頭が WEBVTT なら VTT として扱う）
+ * - 書式タグ（<i> など）は外す / 出方は読み込み時に選んだもの
+ * - 読めない行は飛ばし、1行も無ければ null
+ */
+export function parseSubtitles(
+  text: string,
+  options: { animation?: CaptionAnimation; style?: CaptionCueStyle } = {}
+): VideoCaptionTrack | null {
+  const src = String(text ?? "").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const isVtt = /^WEBVTT/.test(src.trimStart());
+
+  const cues: CaptionCue[] = [];
+  for (const block of src.split(/\n{2,}/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex < 0) continue;
+
+    const m = TIMING_LINE.exec(lines[timingIndex]);
+    if (!m) continue;
+
+    const startSec = parseTimestamp(m[1]);
+    const endSec = parseTimestamp(m[2]);
+    if (!Number.isFinite(startSec) || !Number.isFinite(endSec) || endSec <= startSec) continue;
+
+    const rawText = lines.slice(timingIndex + 1).join("\n");
+    const position = isVtt ? positionFromVttSettings(m[3] ?? "") : positionFromSrtTag(rawText) ?? "bottom";
+
+    cues.push({
+      id: newCaptionCueId(),
+      text: rawText.replace(/\{\\[^}]*\}/g, "").replace(/<[^>]+>/g, ""),
+      startSec,
+      endSec,
+      position,
+      animation: options.animation ?? "fade",
+    });
+  }
+
+  return normalizeVideoCaptionTrack({
+    cues,
+    style: options.style ?? DEFAULT_CAPTION_STYLE,
+    source: isVtt ? "vtt" : "srt",
+    updatedAt: Date.now(),
+  });
+}
@@ -1,8 +1,10 @@
 // /lib/video/nonai.ts
 // =========================
 // ✅ 非AI動画（サーバ側 / ffmpeg-static）
-// - 入力：画像URL1枚 + motion + 秒数 + サイズ
-// - 出力：WEBM(Buffer)
+// - renderNonAiVideoMp4：ブラウザ版と同じ NonAiVideoInput から MP4(Buffer) を作る
+//   1コマずつ sharp + JS で描き、rawvideo のまま ffmpeg に渡す（端末性能に左右されない）
+//   動き・イージング・テキストの出方は lib/nonAiVideo/motion.ts（ブラウザ版と共通）
+// - generateNonAiVideoWebm：旧版（画像URL1枚 + zoompan / WEBM）
 // =========================
 
 import "server-only";
@@ -13,6 +15,18 @@ import os from "node:os";
 import path from "node:path";
 import { spawn } from "node:child_process";
 import ffmpegPath from "ffmpeg-static"; // ★追加（唯一の本質変更）
+import sharp from "sharp";
+import {
+  NON_AI_FALLBACK_GRADIENT,
+  NON_AI_TEXT_STYLE,
+  NON_AI_VIDEO_FPS,
+  buildNonAiFrameSchedule,
+  containRect,
+  coverRect,
+  planNonAiFrame,
+  type NonAiFrameLayer,
+  type NonAiVideoInput,
+} from "@/lib/nonAiVideo/motion";
 
 type Motion = {
   tempo: "slow" | "normal" | "sharp";
@@ -77,29 +91,33 @@ async function downloadToTemp(url: string) {
   return file;
 }
 
-function runFfmpegToBuffer(args: string[]): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    // ✅ ここだけ：ffmpeg の実在パスを決める（/ROOT事故を吸収）
-    const candidates: string[] = [];
+export function resolveFfmpegCommand(): string | null {
+  // ✅ ここだけ：ffmpeg の実在パスを決める（/ROOT事故を吸収）
+  const candidates: string[] = [];
 
-    // 1) env 優先（将来Vercel等でも逃げ道になる）
-    if (process.env.FFMPEG_PATH) candidates.push(process.env.FFMPEG_PATH);
+  // 1) env 優先（将来Vercel等でも逃げ道になる）
+  if (process.env.FFMPEG_PATH) candidates.push(process.env.FFMPEG_PATH);
 
-    // 2) ffmpeg-static（importしてるならそれ）
-    try {
-      // 既に import ffmpegPath from "ffmpeg-static" がある前提でもOK
-      // （無い場合でも落ちないようにガード）
-      // @ts-ignore
-      if (typeof ffmpegPath === "string" && ffmpegPath) candidates.push(ffmpegPath);
-    } catch {}
+  // 2) ffmpeg-static（importしてるならそれ）
+  try {
+    // 既に import ffmpegPath from "ffmpeg-static" がある前提でもOK
+    // （無い場合でも落ちないようにガード）
+    // @ts-ignore
+    if (typeof ffmpegPath === "string" && ffmpegPath) candidates.push(ffmpegPath);
+  } catch {}
 
-    // 3) ✅ もっとも効く：実プロジェクトの node_modules を直接参照（Macで確実）
-    candidates.push(path.join(process.cwd(), "node_modules", "ffmpeg-static", "ffmpeg"));
+  // 3) ✅ もっとも効く：実プロジェクトの node_modules を直接参照（Macで確実）
+  candidates.push(path.join(process.cwd(), "node_modules", "ffmpeg-static", "ffmpeg"));
 
-    // 4) 最後の手段：PATHの ffmpeg
-    candidates.push("ffmpeg");
+  // 4) 最後の手段：PATHの ffmpeg
+  candidates.push("ffmpeg");
 
-    const cmd = candidates.find((p) => p === "ffmpeg" || existsSync(p));
+  return candidates.find((p) => p === "ffmpeg" || existsSync(p)) ?? null;
+}
+
+function runFfmpegToBuffer(args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const cmd = resolveFfmpegCommand();
     if (!cmd) return reject(new Error("ffmpeg binary not found"));
 
     const p = spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
@@ -169,10 +187,444 @@ export async function generateNonAiVideoWebm(
       "pipe:1",
     ];
 
-const buf = await runFfmpegToBuffer(args);
+    const buf = await runFfmpegToBuffer(args);
     if (!buf.length) throw new Error("empty video buffer");
     return buf;
   } finally {
     await fs.unlink(img).catch(() => {});
   }
-}
\ No newline at end of file
+}
+
+/* ---------------- */
+/* MP4（ブラウザ版と同じ動きのサーバ描画） */
+/* ---------------- */
+
+/** サーバで描く最大サイズ（1コマずつメモリに持つため上限を置く） */
+const MAX_RENDER_SIDE = 1920;
+const MAX_SOURCE_BYTES = 30 * 1024 * 1024;
+
+/**
+ * 描画用の画像
+ * - width / height は元画像（EXIF回転後）の大きさ。配置の計算はこちらで行う（ブラウザと同じ）
+ * - data は縮小済みの RGBA（乗算済みアルファ）。サンプリングだけに使う
+ */
+type RasterImage = {
+  width: number;
+  height: number;
+  rasterWidth: number;
+  rasterHeight: number;
+  data: Buffer;
+};
+
+export type NonAiVideoRender = {
+  width: number;
+  height: number;
+  fps: number;
+  /** 書き出すコマ数（= 秒数 × fps） */
+  frames: number;
+  /** 書き出す i コマ目の RGBA（同じ Buffer を使い回すので、必要ならコピーする） */
+  renderFrame: (index: number) => Buffer;
+};
+
+export type RenderNonAiVideoMp4Result = {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  fps: number;
+  frames: number;
+  seconds: number;
+};
+
+/** libx264 / yuv420p のため偶数に丸める */
+function normalizeRenderSize(size: { w: number; h: number }) {
+  const even = (n: number) => {
+    const v = Math.max(64, Math.min(MAX_RENDER_SIDE, Math.round(Number(n) || 0)));
+    return v - (v % 2);
+  };
+  return { w: even(size?.w), h: even(size?.h) };
+}
+
+async function fetchImageBuffer(url: string): Promise<Buffer> {
+  const safeUrl = String(url || "").trim();
+  if (!safeUrl) throw new Error("画像URLが空です");
+
+  if (safeUrl.startsWith("data:")) {
+    const comma = safeUrl.indexOf(",");
+    if (comma < 0) throw new Error("data URL が不正です");
+    const meta = safeUrl.slice(5, comma);
+    const body = safeUrl.slice(comma + 1);
+    return meta.endsWith(";base64") ? Buffer.from(body, "base64") : Buffer.from(decodeURIComponent(body), "utf8");
+  }
+
+  if (!/^https?:\/\//i.test(safeUrl)) throw new Error(`画像URLが不正です: ${safeUrl}`);
+
+  const r = await fetch(safeUrl);
+  if (!r.ok) throw new Error(`画像の読み込みに失敗しました (${r.status}): ${safeUrl}`);
+  const buf = Buffer.from(await r.arrayBuffer());
+  if (!buf.length) throw new Error(`画像が空です: ${safeUrl}`);
+  if (buf.length > MAX_SOURCE_BYTES) throw new Error(`画像が大きすぎます: ${safeUrl}`);
+  return buf;
+}
+
+function premultiply(data: Buffer) {
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    if (a === 255) continue;
+    data[i] = Math.round((data[i] * a) / 255);
+    data[i + 1] = Math.round((data[i + 1] * a) / 255);
+    data[i + 2] = Math.round((data[i + 2] * a) / 255);
+  }
+  return data;
+}
+
+/**
+ * 画像を描画用に読み込む
+ * - 一番大きく映る時（cover + 寄り）でも足りる程度まで先に縮めておく（毎コマの計算を軽くする）
+ */
+async function loadRasterImage(buf: Buffer, w: number, h: number): Promise<RasterImage> {
+  const base = sharp(buf, { failOn: "none" }).rotate();
+  const meta = await base.clone().metadata();
+
+  const swap = (meta.orientation ?? 1) >= 5;
+  const width = (swap ? meta.height : meta.width) ?? 0;
+  const height = (swap ? meta.width : meta.height) ?? 0;
+  if (!width || !height) throw new Error("画像サイズを読み取れませんでした");
+
+  const { data, info } = await base
+    .resize({
+      width: Math.ceil(w * 1.35),
+      height: Math.ceil(h * 1.35),
+      fit: "outside",
+      withoutEnlargement: true,
+    })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    width,
+    height,
+    rasterWidth: info.width,
+    rasterHeight: info.height,
+    data: premultiply(data),
+  };
+}
+
+/** 背景（背景画像の cover / 未選択時はブラウザ版と同じグラデーション） */
+async function renderBackground(background: Buffer | null, w: number, h: number): Promise<Buffer> {
+  const input = background
+    ? sharp(background, { failOn: "none" }).rotate().resize(w, h, { fit: "cover", position: "centre" })
+    : sharp(
+        Buffer.from(
+          `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}">` +
+            `<defs><linearGradient id="g" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="${w}" y2="${h}">` +
+            `<stop offset="0" stop-color="${NON_AI_FALLBACK_GRADIENT[0]}"/>` +
+            `<stop offset="1" stop-color="${NON_AI_FALLBACK_GRADIENT[1]}"/>` +
+            `</linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/></svg>`
+        )
+      );
+
+  return input.flatten({ background: "#000000" }).ensureAlpha().raw().toBuffer();
+}
+
+function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** テキスト（ブラウザ版の fillText と同じ位置 / 濃さは毎コマ掛ける） */
+async function renderTextLayer(textLines: string[] | undefined, w: number, h: number): Promise<Buffer | null> {
+  const lines = (textLines ?? []).map((t) => String(t ?? ""));
+  if (!lines.length) return null;
+
+  const { fontSize, lineHeight, pad, maxLines, color } = NON_AI_TEXT_STYLE;
+  // textBaseline = "top" 相当：上端から ascent 分だけ下げる
+  const ascent = Math.round(fontSize * 0.88);
+
+  let y = h - pad - lines.length * lineHeight;
+  const texts = lines.slice(0, maxLines).map((line) => {
+    const el = `<text x="${pad}" y="${y + ascent}">${escapeXml(line)}</text>`;
+    y += lineHeight;
+    return el;
+  });
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}">` +
+    `<g fill="${color}" font-size="${fontSize}" font-weight="bold" ` +
+    `font-family="Noto Sans CJK JP, Noto Sans JP, Hiragino Sans, DejaVu Sans, sans-serif">` +
+    texts.join("") +
+    `</g></svg>`;
+
+  const data = await sharp(Buffer.from(svg)).ensureAlpha().raw().toBuffer();
+  return premultiply(data);
+}
+
+/** 黒を重ねる（フェード / 雰囲気レイヤー） */
+function fillBlack(dst: Buffer, alpha: number) {
+  const keep = 1 - alpha;
+  for (let i = 0; i < dst.length; i += 4) {
+    dst[i] = dst[i] * keep;
+    dst[i + 1] = dst[i + 1] * keep;
+    dst[i + 2] = dst[i + 2] * keep;
+  }
+}
+
+/** 乗算済み RGBA を alpha で重ねる（source-over） */
+function blendFull(dst: Buffer, src: Buffer, alpha: number) {
+  for (let i = 0; i < dst.length; i += 4) {
+    const sa = (src[i + 3] / 255) * alpha;
+    if (sa <= 0) continue;
+    const keep = 1 - sa;
+    dst[i] = src[i] * alpha + dst[i] * keep;
+    dst[i + 1] = src[i + 1] * alpha + dst[i + 1] * keep;
+    dst[i + 2] = src[i + 2] * alpha + dst[i + 2] * keep;
+  }
+}
+
+/**
+ * 1枚の画像を Canvas の drawCoverImage / drawContainImage と同じ変換で描く
+ * - 出力の各ピクセルから元画像の位置を逆算して双線形補間（端は透明扱いで自然に馴染ませる）
+ */
+function drawLayer(dst: Buffer, w: number, h: number, img: RasterImage, layer: NonAiFrameLayer) {
+  const r = layer.fit === "contain" ? containRect(img, w, h, layer.scale) : coverRect(img, w, h, layer.scale);
+  if (r.dw <= 0 || r.dh <= 0 || layer.alpha <= 0) return;
+
+  // cover: 中心で回転 → offset / contain: offset 位置で回転 → 左右反転
+  const contain = layer.fit === "contain";
+  const cx = w / 2 + (contain ? layer.offsetX : 0);
+  const cy = h / 2 + (contain ? layer.offsetY : 0);
+  const preX = contain ? 0 : layer.offsetX;
+  const preY = contain ? 0 : layer.offsetY;
+  const flip = contain ? layer.flipScaleX : 1;
+
+  const cos = Math.cos(layer.rotation);
+  const sin = Math.sin(layer.rotation);
+
+  // 画像の四隅から描く範囲を絞る
+  const corners = [
+    [-r.dw / 2, -r.dh / 2],
+    [r.dw / 2, -r.dh / 2],
+    [-r.dw / 2, r.dh / 2],
+    [r.dw / 2, r.dh / 2],
+  ].map(([lx, ly]) => {
+    const x = (lx + preX) * flip;
+    const y = ly + preY;
+    return [cx + x * cos - y * sin, cy + x * sin + y * cos];
+  });
+  const x0 = Math.max(0, Math.floor(Math.min(...corners.map((c) => c[0]))) - 1);
+  const x1 = Math.min(w - 1, Math.ceil(Math.max(...corners.map((c) => c[0]))) + 1);
+  const y0 = Math.max(0, Math.floor(Math.min(...corners.map((c) => c[1]))) - 1);
+  const y1 = Math.min(h - 1, Math.ceil(Math.max(...corners.map((c) => c[1]))) + 1);
+  if (x0 > x1 || y0 > y1) return;
+
+  // 出力座標 → 縮小済み画像の座標（ピクセル中心どうし）
+  const kx = img.rasterWidth / r.dw;
+  const ky = img.rasterHeight / r.dh;
+  const toSource = (px: number, py: number) => {
+    const dx = px - cx;
+    const dy = py - cy;
+    const lx = (dx * cos + dy * sin) / flip - preX;
+    const ly = -dx * sin + dy * cos - preY;
+    return [(lx + r.dw / 2) * kx - 0.5, (ly + r.dh / 2) * ky - 0.5];
+  };
+
+  const [ux0, vx0] = toSource(0, 0);
+  const [ux1, vx1] = toSource(1, 0);
+  const [uy1, vy1] = toSource(0, 1);
+  const duX = ux1 - ux0;
+  const dvX = vx1 - vx0;
+  const duY = uy1 - ux0;
+  const dvY = vy1 - vx0;
+
+  const src = img.data;
+  const sw = img.rasterWidth;
+  const sh = img.rasterHeight;
+  const alpha = layer.alpha;
+
+  const texel = (x: number, y: number, c: number) =>
+    x < 0 || y < 0 || x >= sw || y >= sh ? 0 : src[(y * sw + x) * 4 + c];
+
+  for (let y = y0; y <= y1; y++) {
+    let u = ux0 + duX * (x0 + 0.5) + duY * (y + 0.5);
+    let v = vx0 + dvX * (x0 + 0.5) + dvY * (y + 0.5);
+
+    for (let x = x0; x <= x1; x++, u += duX, v += dvX) {
+      if (u <= -1 || v <= -1 || u >= sw || v >= sh) continue;
+
+      const ix = Math.floor(u);
+      const iy = Math.floor(v);
+      const fx = u - ix;
+      const fy = v - iy;
+      const w00 = (1 - fx) * (1 - fy);
+      const w10 = fx * (1 - fy);
+      const w01 = (1 - fx) * fy;
+      const w11 = fx * fy;
+
+      const sa =
+        ((texel(ix, iy, 3) * w00 + texel(ix + 1, iy, 3) * w10 + texel(ix, iy + 1, 3) * w01 + texel(ix + 1, iy + 1, 3) * w11) /
+          255) *
+        alpha;
+      if (sa <= 0) continue;
+
+      const o = (y * w + x) * 4;
+      const keep = 1 - sa;
+      for (let c = 0; c < 3; c++) {
+        const s =
+          texel(ix, iy, c) * w00 + texel(ix + 1, iy, c) * w10 + texel(ix, iy + 1, c) * w01 + texel(ix + 1, iy + 1, c) * w11;
+        dst[o + c] = s * alpha + dst[o + c] * keep;
+      }
+    }
+  }
+}
+
+/**
+ * 描画の準備（画像の読み込みまで）
+ * - renderFrame(i) で i コマ目を描く。MP4化は renderNonAiVideoMp4、ポスター画像などは1コマだけ使う
+ */
+export async function prepareNonAiVideoRender(input: NonAiVideoInput): Promise<NonAiVideoRender> {
+  const { w, h } = normalizeRenderSize(input.size);
+  const seconds = input.seconds === 10 ? 10 : 5;
+  const fps = NON_AI_VIDEO_FPS;
+
+  /** ✅ 描画シーケンス（primary → materials 順） */
+  const sequenceUrls = [input.primary, ...(input.materials ?? [])].map((u) => String(u || "").trim()).filter(Boolean);
+  if (!sequenceUrls.length) throw new Error("代表画像（primary）がありません");
+
+  // 1枚ずつ読み込む（大きい画像が並んでもメモリを使い過ぎない）
+  const images: RasterImage[] = [];
+  for (const url of sequenceUrls) {
+    images.push(await loadRasterImage(await fetchImageBuffer(url), w, h));
+  }
+
+  const backgroundUrl = String(input.backgroundImageUrl || "").trim();
+  const hasStaticBackground = !!backgroundUrl;
+  const background = await renderBackground(backgroundUrl ? await fetchImageBuffer(backgroundUrl) : null, w, h);
+  const text = await renderTextLayer(input.textLines, w, h);
+
+  const totalFrames = seconds * fps;
+  const schedule = buildNonAiFrameSchedule(totalFrames, input.motion.rhythm);
+
+  const frame = Buffer.alloc(w * h * 4);
+  let lastSource = -1;
+
+  function renderFrame(index: number) {
+    const source = schedule[Math.max(0, Math.min(totalFrames - 1, Math.floor(index)))];
+    if (source === lastSource) return frame;
+
+    const plan = planNonAiFrame({
+      frame: source,
+      totalFrames,
+      imageCount: images.length,
+      size: { w, h },
+      motion: input.motion,
+      videoType: input.videoType,
+      hasStaticBackground,
+      hasText: !!text,
+    });
+
+    background.copy(frame);
+    for (const layer of plan.layers) drawLayer(frame, w, h, images[layer.imageIndex], layer);
+    if (plan.fadeAlpha > 0) fillBlack(frame, plan.fadeAlpha);
+    if (plan.overlayAlpha > 0) fillBlack(frame, plan.overlayAlpha);
+    if (text && plan.textAlpha) blendFull(frame, text, plan.textAlpha);
+
+    lastSource = source;
+    return frame;
+  }
+
+  return { width: w, height: h, fps, frames: totalFrames, renderFrame };
+}
+
+/**
+ * 非AI動画を MP4 で作る（サーバ描画）
+ * - 1コマずつ rawvideo で ffmpeg に流す → コマ数は常に 秒数 × fps
+ * - +faststart のため一時ファイルに書き出してから読む
+ */
+export async function renderNonAiVideoMp4(input: NonAiVideoInput): Promise<RenderNonAiVideoMp4Result> {
+  const render = await prepareNonAiVideoRender(input);
+  const { width, height, fps, frames } = render;
+
+  const cmd = resolveFfmpegCommand();
+  if (!cmd) throw new Error("ffmpeg binary not found");
+
+  const outFile = path.join(os.tmpdir(), `aoi_nonai_${Date.now()}_${Math.random().toString(16).slice(2)}.mp4`);
+
+  const args = [
+    "-y",
+    "-f",
+    "rawvideo",
+    "-pix_fmt",
+    "rgba",
+    "-s",
+    `${width}x${height}`,
+    "-r",
+    String(fps),
+    "-i",
+    "pipe:0",
+    "-frames:v",
+    String(frames),
+    "-an",
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "23",
+    "-pix_fmt",
+    "yuv420p",
+    "-movflags",
+    "+faststart",
+    outFile,
+  ];
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const p = spawn(cmd, args, { stdio: ["pipe", "ignore", "pipe"] });
+
+      const err: Buffer[] = [];
+      let settled = false;
+      const fail = (e: unknown) => {
+        if (settled) return;
+        settled = true;
+        reject(e instanceof Error ? e : new Error(String(e)));
+      };
+
+      p.stderr.on("data", (d) => err.push(Buffer.from(d)));
+      p.on("error", fail);
+      // ffmpeg が先に落ちた時の EPIPE は close 側でまとめて拾う
+      p.stdin.on("error", () => {});
+      p.on("close", (code) => {
+        if (settled) return;
+        if (code === 0) {
+          settled = true;
+          return resolve();
+        }
+        const msg = Buffer.concat(err).toString("utf8").slice(-4000);
+        fail(new Error(`ffmpeg failed (code=${code}): ${msg}`));
+      });
+
+      (async () => {
+        for (let i = 0; i < frames; i++) {
+          if (settled || p.stdin.destroyed) return;
+          const buf = render.renderFrame(i);
+          // 同じ Buffer を使い回すので、書き終わるまで待ってから次のコマを描く
+          await new Promise<void>((ok) => p.stdin.write(buf, () => ok()));
+        }
+        p.stdin.end();
+      })().catch((e) => {
+        p.kill("SIGKILL");
+        fail(e);
+      });
+    });
+
+    const buffer = await fs.readFile(outFile);
+    if (!buffer.length) throw new Error("empty video buffer");
+
+    return { buffer, width, height, fps, frames, seconds: frames / fps };
+  } finally {
+    await fs.unlink(outFile).catch(() => {});
+  }
+}